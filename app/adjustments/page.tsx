@@ -0,0 +1,90 @@
+import { createClient } from '@/lib/supabase/server'
+import { redirect } from 'next/navigation'
+import { authorize, hasPermission } from '@/lib/utils/permissions'
+import { getInventoryAdjustments } from '@/lib/actions/inventoryAdjustments'
+import { getStores } from '@/lib/actions/purchases'
+import { getProducts } from '@/lib/actions/products'
+import Image from 'next/image'
+import LogoutButton from '@/app/components/LogoutButton'
+import InventoryAdjustmentsList from '@/app/components/InventoryAdjustmentsList'
+import { getErrorMessage } from '@/lib/utils/errors'
+
+export default async function AdjustmentsPage() {
+  const supabase = await createClient()
+
+  const {
+    data: { user },
+  } = await supabase.auth.getUser()
+
+  if (!user) {
+    redirect('/login')
+  }
+
+  const { profile } = await authorize(supabase)
+
+  if (!profile) {
+    redirect('/dashboard')
+  }
+
+  const { data: adjustments, error } = await getInventoryAdjustments()
+  const { data: stores } = await getStores()
+  const { data: products } = await getProducts()
+
+  return (
+    <div className="min-h-screen bg-white">
+      <nav className="bg-white shadow-md border-b" style={{ borderColor: '#0067ac' }}>
+        <div className="mx-auto max-w-7xl px-4 sm:px-6 lg:px-8">
+          <div className="flex h-20 justify-between items-center">
+            <div className="flex items-center gap-4">
+              <Image
+                src="/pect-logo.png"
+                alt="PECT Private Limited"
+                width={150}
+                height={60}
+                priority
+              />
+              <h1 className="text-xl font-semibold" style={{ color: '#0067ac' }}>
+                Inventory Management System
+              </h1>
+            </div>
+            <div className="flex items-center gap-4">
+              <a
+                href="/dashboard"
+                className="text-sm text-gray-700 hover:text-[#0067ac]"
+              >
+                Dashboard
+              </a>
+              <span className="text-sm text-gray-700">
+                {user.email}
+              </span>
+              <LogoutButton />
+            </div>
+          </div>
+        </div>
+      </nav>
+
+      <main className="mx-auto max-w-7xl px-4 sm:px-6 lg:px-8 py-8">
+        <div className="mb-6 flex justify-between items-center">
+          <h2 className="text-2xl font-bold" style={{ color: '#0067ac' }}>
+            Stock Adjustments
+          </h2>
+        </div>
+
+        {error && (
+          <div className="mb-4 rounded-md bg-red-50 p-4 border border-red-200">
+            <div className="text-sm text-red-800">
+              <strong>Error loading adjustments:</strong> {getErrorMessage(error)}
+            </div>
+          </div>
+        )}
+
+        <InventoryAdjustmentsList
+          adjustments={adjustments || []}
+          products={products || []}
+          stores={stores || []}
+          canApprove={hasPermission(profile, 'approve_adjustments')}
+        />
+      </main>
+    </div>
+  )
+}
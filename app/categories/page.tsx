@@ -1,5 +1,6 @@
 import { createClient } from '@/lib/supabase/server'
 import { redirect } from 'next/navigation'
+import { authorize } from '@/lib/utils/permissions'
 import { getCategories } from '@/lib/actions/categories'
 import Image from 'next/image'
 import LogoutButton from '@/app/components/LogoutButton'
@@ -16,14 +17,9 @@ export default async function CategoriesPage() {
     redirect('/login')
   }
 
-  // Check if user is admin
-  const { data: profile } = await supabase
-    .from('user_profiles')
-    .select('role')
-    .eq('id', user.id)
-    .single()
+  const { profile } = await authorize(supabase, 'manage_categories')
 
-  if (!profile || profile.role !== 'admin') {
+  if (!profile) {
     redirect('/dashboard')
   }
 
@@ -0,0 +1,173 @@
+'use client'
+
+import { useState } from 'react'
+import { closeAccountingPeriod, reopenAccountingPeriod } from '@/lib/actions/accountingPeriods'
+import { formatPeriod } from '@/lib/utils/accountingPeriods'
+import type { AccountingPeriod } from '@/lib/types'
+import { getErrorMessage } from '@/lib/utils/errors'
+
+export default function AccountingPeriodsList({ initialPeriods }: { initialPeriods: AccountingPeriod[] }) {
+  const [month, setMonth] = useState('')
+  const [notes, setNotes] = useState('')
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  // The month input only offers months that have ended
+  const lastClosableMonth = (() => {
+    const now = new Date()
+    const previous = new Date(now.getFullYear(), now.getMonth() - 1, 1)
+    return `${previous.getFullYear()}-${String(previous.getMonth() + 1).padStart(2, '0')}`
+  })()
+
+  const handleClose = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!month) {
+      setError('Choose a month to close')
+      return
+    }
+    if (
+      !confirm(
+        `Close ${formatPeriod(`${month}-01`)}? Purchases, issues and adjustments dated in it will be locked until an admin reopens it.`
+      )
+    ) {
+      return
+    }
+
+    setLoading(true)
+    setError(null)
+
+    const result = await closeAccountingPeriod(month, notes || undefined)
+    if (result.error) {
+      setError(getErrorMessage(result.error))
+      setLoading(false)
+      return
+    }
+
+    window.location.reload()
+  }
+
+  const handleReopen = async (period: AccountingPeriod) => {
+    const reason = prompt(`Reason for reopening ${formatPeriod(period.period_month)}:`)
+    if (reason === null) {
+      return
+    }
+
+    const result = await reopenAccountingPeriod(period.id, reason)
+    if (result.error) {
+      alert(getErrorMessage(result.error))
+      return
+    }
+
+    window.location.reload()
+  }
+
+  return (
+    <div className="space-y-6">
+      <form onSubmit={handleClose} className="rounded-lg border bg-white p-4 shadow-sm">
+        <h3 className="mb-4 text-lg font-semibold text-gray-900">Close a Month</h3>
+        {error && (
+          <div className="mb-4 rounded-md bg-red-50 p-3 border border-red-200">
+            <div className="text-sm text-red-800">{error}</div>
+          </div>
+        )}
+        <div className="grid grid-cols-1 gap-4 md:grid-cols-3">
+          <div>
+            <label className="block text-sm font-medium text-gray-700">Month</label>
+            <input
+              type="month"
+              value={month}
+              max={lastClosableMonth}
+              onChange={(e) => setMonth(e.target.value)}
+              className="mt-1 block w-full rounded-md border border-gray-300 px-3 py-2 text-gray-900 focus:border-[#0067ac] focus:outline-none focus:ring-[#0067ac]"
+            />
+          </div>
+          <div className="md:col-span-2">
+            <label className="block text-sm font-medium text-gray-700">Notes</label>
+            <input
+              type="text"
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+              placeholder="Optional"
+              className="mt-1 block w-full rounded-md border border-gray-300 px-3 py-2 text-gray-900 focus:border-[#0067ac] focus:outline-none focus:ring-[#0067ac]"
+            />
+          </div>
+        </div>
+        <div className="mt-4 flex justify-end">
+          <button
+            type="submit"
+            disabled={loading}
+            className="rounded-md px-4 py-2 text-sm text-white hover:opacity-90 disabled:opacity-50"
+            style={{ backgroundColor: '#0067ac' }}
+          >
+            {loading ? 'Closing...' : 'Close Month'}
+          </button>
+        </div>
+      </form>
+
+      <div className="overflow-x-auto rounded-lg border bg-white shadow-sm">
+        <table className="min-w-full divide-y divide-gray-200">
+          <thead className="bg-gray-50">
+            <tr>
+              <th className="px-4 py-3 text-left text-xs font-medium uppercase text-gray-500">Period</th>
+              <th className="px-4 py-3 text-left text-xs font-medium uppercase text-gray-500">Status</th>
+              <th className="px-4 py-3 text-left text-xs font-medium uppercase text-gray-500">Closed</th>
+              <th className="px-4 py-3 text-left text-xs font-medium uppercase text-gray-500">Last Reopened</th>
+              <th className="px-4 py-3 text-left text-xs font-medium uppercase text-gray-500">Notes</th>
+              <th className="px-4 py-3 text-right text-xs font-medium uppercase text-gray-500">Actions</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-200">
+            {initialPeriods.length === 0 ? (
+              <tr>
+                <td colSpan={6} className="px-4 py-6 text-center text-sm text-gray-500">
+                  No periods have been closed yet
+                </td>
+              </tr>
+            ) : (
+              initialPeriods.map((period) => (
+                <tr key={period.id} className="text-sm text-gray-900">
+                  <td className="px-4 py-3 font-medium">{formatPeriod(period.period_month)}</td>
+                  <td className="px-4 py-3">
+                    <span
+                      className={`rounded-full px-2 py-1 text-xs font-medium ${
+                        period.status === 'closed' ? 'bg-gray-200 text-gray-800' : 'bg-yellow-100 text-yellow-800'
+                      }`}
+                    >
+                      {period.status === 'closed' ? 'Closed' : 'Reopened'}
+                    </span>
+                  </td>
+                  <td className="px-4 py-3">{period.closed_at ? new Date(period.closed_at).toLocaleString() : '-'}</td>
+                  <td className="px-4 py-3">
+                    {period.reopened_at ? (
+                      <>
+                        {new Date(period.reopened_at).toLocaleString()}
+                        {period.reopen_reason && <p className="text-xs text-gray-500">{period.reopen_reason}</p>}
+                      </>
+                    ) : (
+                      '-'
+                    )}
+                  </td>
+                  <td className="px-4 py-3 text-gray-600">{period.notes || '-'}</td>
+                  <td className="px-4 py-3 text-right">
+                    {period.status === 'closed' ? (
+                      <button onClick={() => handleReopen(period)} className="text-[#E77817] hover:text-[#d66a14]">
+                        Reopen
+                      </button>
+                    ) : (
+                      <button
+                        onClick={() => setMonth(period.period_month.slice(0, 7))}
+                        className="text-[#0067ac] hover:text-[#005a94]"
+                      >
+                        Close Again
+                      </button>
+                    )}
+                  </td>
+                </tr>
+              ))
+            )}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,249 @@
+'use client'
+
+import { Fragment, useState } from 'react'
+import { getAuditLog } from '@/lib/actions/audit'
+import { AUDIT_ACTION_LABELS, AUDIT_ENTITY_LABELS, AUDIT_ENTITY_OPTIONS } from '@/lib/constants/auditEntities'
+import type { AuditAction, AuditLogEntry, AuditLogFilters, UserProfile } from '@/lib/types'
+import { getErrorMessage } from '@/lib/utils/errors'
+
+const ACTION_STYLES: Record<AuditAction, string> = {
+  insert: 'bg-green-100 text-green-800',
+  update: 'bg-blue-100 text-blue-800',
+  soft_delete: 'bg-red-100 text-red-800',
+  delete: 'bg-red-100 text-red-800',
+  restore: 'bg-yellow-100 text-yellow-800',
+}
+
+function formatValue(value: unknown) {
+  if (value === null || value === undefined) {
+    return '-'
+  }
+  if (typeof value === 'object') {
+    return JSON.stringify(value)
+  }
+  return String(value)
+}
+
+function actorLabel(entry: AuditLogEntry) {
+  if (!entry.actor_id) {
+    return 'System'
+  }
+  return entry.actor?.full_name || entry.actor?.email || entry.actor_id
+}
+
+export default function AuditLogView({
+  initialEntries,
+  users,
+}: {
+  initialEntries: AuditLogEntry[]
+  users: UserProfile[]
+}) {
+  const [entries, setEntries] = useState<AuditLogEntry[]>(initialEntries)
+  const [filters, setFilters] = useState<AuditLogFilters>({})
+  const [expandedId, setExpandedId] = useState<string | null>(null)
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const loadEntries = async (nextFilters: AuditLogFilters) => {
+    setLoading(true)
+    setError(null)
+
+    const result = await getAuditLog(nextFilters)
+    if (result.error) {
+      setError(getErrorMessage(result.error))
+    } else {
+      setEntries(result.data || [])
+      setExpandedId(null)
+    }
+    setLoading(false)
+  }
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault()
+    loadEntries(filters)
+  }
+
+  const handleReset = () => {
+    setFilters({})
+    loadEntries({})
+  }
+
+  // Updates list just the changed columns; inserts and deletes show the whole row
+  const detailFields = (entry: AuditLogEntry) => {
+    if (entry.changed_fields && entry.changed_fields.length > 0) {
+      return entry.changed_fields
+    }
+    return Object.keys(entry.new_data || entry.old_data || {})
+  }
+
+  return (
+    <div className="space-y-6">
+      <form onSubmit={handleSubmit} className="rounded-lg border bg-white p-4 shadow-sm">
+        <div className="grid grid-cols-1 gap-4 md:grid-cols-5">
+          <div>
+            <label className="block text-sm font-medium text-gray-700">User</label>
+            <select
+              value={filters.actor_id || ''}
+              onChange={(e) => setFilters({ ...filters, actor_id: e.target.value || undefined })}
+              className="mt-1 block w-full rounded-md border border-gray-300 px-3 py-2 text-gray-900 focus:border-[#0067ac] focus:outline-none focus:ring-[#0067ac]"
+            >
+              <option value="">All users</option>
+              {users.map((u) => (
+                <option key={u.id} value={u.id}>
+                  {u.full_name || u.email}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700">Entity</label>
+            <select
+              value={filters.table_name || ''}
+              onChange={(e) => setFilters({ ...filters, table_name: e.target.value || undefined })}
+              className="mt-1 block w-full rounded-md border border-gray-300 px-3 py-2 text-gray-900 focus:border-[#0067ac] focus:outline-none focus:ring-[#0067ac]"
+            >
+              <option value="">All entities</option>
+              {AUDIT_ENTITY_OPTIONS.map((option) => (
+                <option key={option.value} value={option.value}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700">Record ID</label>
+            <input
+              type="text"
+              value={filters.record_id || ''}
+              onChange={(e) => setFilters({ ...filters, record_id: e.target.value || undefined })}
+              placeholder="Any"
+              className="mt-1 block w-full rounded-md border border-gray-300 px-3 py-2 text-gray-900 focus:border-[#0067ac] focus:outline-none focus:ring-[#0067ac]"
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700">From</label>
+            <input
+              type="date"
+              value={filters.from_date || ''}
+              onChange={(e) => setFilters({ ...filters, from_date: e.target.value || undefined })}
+              className="mt-1 block w-full rounded-md border border-gray-300 px-3 py-2 text-gray-900 focus:border-[#0067ac] focus:outline-none focus:ring-[#0067ac]"
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700">To</label>
+            <input
+              type="date"
+              value={filters.to_date || ''}
+              onChange={(e) => setFilters({ ...filters, to_date: e.target.value || undefined })}
+              className="mt-1 block w-full rounded-md border border-gray-300 px-3 py-2 text-gray-900 focus:border-[#0067ac] focus:outline-none focus:ring-[#0067ac]"
+            />
+          </div>
+        </div>
+        <div className="mt-4 flex justify-end gap-2">
+          <button
+            type="button"
+            onClick={handleReset}
+            disabled={loading}
+            className="rounded-md border border-gray-300 px-4 py-2 text-sm text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+          >
+            Reset
+          </button>
+          <button
+            type="submit"
+            disabled={loading}
+            className="rounded-md px-4 py-2 text-sm text-white hover:opacity-90 disabled:opacity-50"
+            style={{ backgroundColor: '#0067ac' }}
+          >
+            {loading ? 'Loading...' : 'Apply Filters'}
+          </button>
+        </div>
+      </form>
+
+      {error && (
+        <div className="rounded-md bg-red-50 p-4 border border-red-200">
+          <div className="text-sm text-red-800">{error}</div>
+        </div>
+      )}
+
+      <div className="overflow-x-auto rounded-lg border bg-white shadow-sm">
+        <table className="min-w-full divide-y divide-gray-200">
+          <thead className="bg-gray-50">
+            <tr>
+              <th className="px-4 py-3 text-left text-xs font-medium uppercase text-gray-500">When</th>
+              <th className="px-4 py-3 text-left text-xs font-medium uppercase text-gray-500">User</th>
+              <th className="px-4 py-3 text-left text-xs font-medium uppercase text-gray-500">Entity</th>
+              <th className="px-4 py-3 text-left text-xs font-medium uppercase text-gray-500">Record</th>
+              <th className="px-4 py-3 text-left text-xs font-medium uppercase text-gray-500">Action</th>
+              <th className="px-4 py-3 text-left text-xs font-medium uppercase text-gray-500">Changed</th>
+              <th className="px-4 py-3"></th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-200">
+            {entries.length === 0 && (
+              <tr>
+                <td colSpan={7} className="px-4 py-6 text-center text-sm text-gray-500">
+                  No changes match these filters
+                </td>
+              </tr>
+            )}
+            {entries.map((entry) => (
+              <Fragment key={entry.id}>
+                <tr className="text-sm text-gray-900">
+                  <td className="whitespace-nowrap px-4 py-3">{new Date(entry.created_at).toLocaleString()}</td>
+                  <td className="px-4 py-3">{actorLabel(entry)}</td>
+                  <td className="px-4 py-3">{AUDIT_ENTITY_LABELS[entry.table_name] || entry.table_name}</td>
+                  <td className="px-4 py-3 font-mono text-xs text-gray-600">{entry.record_id}</td>
+                  <td className="px-4 py-3">
+                    <span className={`rounded-full px-2 py-1 text-xs font-medium ${ACTION_STYLES[entry.action]}`}>
+                      {AUDIT_ACTION_LABELS[entry.action]}
+                    </span>
+                  </td>
+                  <td className="px-4 py-3 text-gray-600">{entry.changed_fields?.join(', ') || '-'}</td>
+                  <td className="px-4 py-3 text-right">
+                    <button
+                      type="button"
+                      onClick={() => setExpandedId(expandedId === entry.id ? null : entry.id)}
+                      className="text-[#0067ac] hover:text-[#005a94]"
+                    >
+                      {expandedId === entry.id ? 'Hide' : 'Details'}
+                    </button>
+                  </td>
+                </tr>
+                {expandedId === entry.id && (
+                  <tr>
+                    <td colSpan={7} className="bg-gray-50 px-4 py-3">
+                      <table className="min-w-full text-xs">
+                        <thead>
+                          <tr>
+                            <th className="px-2 py-1 text-left font-medium uppercase text-gray-500">Field</th>
+                            <th className="px-2 py-1 text-left font-medium uppercase text-gray-500">Before</th>
+                            <th className="px-2 py-1 text-left font-medium uppercase text-gray-500">After</th>
+                          </tr>
+                        </thead>
+                        <tbody>
+                          {detailFields(entry).map((field) => (
+                            <tr key={field} className="align-top">
+                              <td className="px-2 py-1 font-medium text-gray-700">{field}</td>
+                              <td className="px-2 py-1 break-all text-gray-600">{formatValue(entry.old_data?.[field])}</td>
+                              <td className="px-2 py-1 break-all text-gray-900">{formatValue(entry.new_data?.[field])}</td>
+                            </tr>
+                          ))}
+                        </tbody>
+                      </table>
+                    </td>
+                  </tr>
+                )}
+              </Fragment>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      {entries.length > 0 && (
+        <p className="text-xs text-gray-500">
+          Showing the {entries.length} most recent change{entries.length === 1 ? '' : 's'}. Narrow the filters to see older entries.
+        </p>
+      )}
+    </div>
+  )
+}
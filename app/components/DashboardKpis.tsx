@@ -0,0 +1,284 @@
+'use client'
+
+import type {
+  ActivityFeedItem,
+  ActivityTotals,
+  MonthComparison,
+  ProjectConsumption,
+  StoreStockValue,
+} from '@/lib/actions/dashboard'
+
+const formatAmount = (value: number) =>
+  `PKR ${value.toLocaleString(undefined, { minimumFractionDigits: 0, maximumFractionDigits: 0 })}`
+
+const formatQuantity = (value: number) => value.toLocaleString(undefined, { maximumFractionDigits: 2 })
+
+// "+12%" against last month, or nothing when last month had none to compare with
+function formatChange(current: number, previous: number) {
+  if (previous === 0) {
+    return null
+  }
+  const change = Math.round(((current - previous) / previous) * 100)
+  return `${change > 0 ? '+' : ''}${change}% vs last month`
+}
+
+function KpiTile({
+  label,
+  value,
+  detail,
+  href,
+  highlight,
+}: {
+  label: string
+  value: string
+  detail?: string | null
+  href?: string
+  highlight?: boolean
+}) {
+  const content = (
+    <>
+      <p className="text-sm font-medium text-gray-500">{label}</p>
+      <p className="mt-1 text-2xl font-bold" style={{ color: highlight ? '#dc2626' : '#0067ac' }}>
+        {value}
+      </p>
+      {detail && <p className="mt-1 text-xs text-gray-500">{detail}</p>}
+    </>
+  )
+
+  const className = 'block rounded-lg border-2 p-4'
+  const style = { borderColor: highlight ? '#dc2626' : '#0067ac' }
+  return href ? (
+    <a href={href} className={`${className} hover:shadow-lg transition-shadow`} style={style}>
+      {content}
+    </a>
+  ) : (
+    <div className={className} style={style}>
+      {content}
+    </div>
+  )
+}
+
+// Horizontal bars scaled to the largest value
+function BarChart({ bars, color = '#0067ac' }: { bars: { key: string; label: string; value: number; display: string }[]; color?: string }) {
+  const max = Math.max(...bars.map((bar) => bar.value), 0)
+
+  return (
+    <div className="space-y-2">
+      {bars.map((bar) => (
+        <div key={bar.key}>
+          <div className="flex justify-between text-xs text-gray-600">
+            <span className="truncate pr-2">{bar.label}</span>
+            <span className="whitespace-nowrap">{bar.display}</span>
+          </div>
+          <div className="mt-1 h-3 w-full rounded bg-gray-100">
+            <div
+              className="h-3 rounded"
+              style={{ width: `${max > 0 ? Math.max((bar.value / max) * 100, bar.value > 0 ? 1 : 0) : 0}%`, backgroundColor: color }}
+            />
+          </div>
+        </div>
+      ))}
+    </div>
+  )
+}
+
+// This month beside last month for purchases and issues
+function MonthComparisonChart({ comparison }: { comparison: MonthComparison }) {
+  const showValues = comparison.thisMonth.purchaseValue !== null
+  const metric = (totals: ActivityTotals, kind: 'purchase' | 'issue') =>
+    kind === 'purchase'
+      ? (showValues ? totals.purchaseValue! : totals.purchaseCount)
+      : (showValues ? totals.issueValue! : totals.issueCount)
+  const display = (value: number) => (showValues ? formatAmount(value) : `${value}`)
+
+  const groups = (['purchase', 'issue'] as const).map((kind) => ({
+    kind,
+    label: kind === 'purchase' ? 'Purchases' : 'Issues',
+    lastMonth: metric(comparison.lastMonth, kind),
+    thisMonth: metric(comparison.thisMonth, kind),
+  }))
+  const max = Math.max(...groups.flatMap((group) => [group.lastMonth, group.thisMonth]), 0)
+  const height = (value: number) => `${max > 0 ? (value / max) * 100 : 0}%`
+
+  return (
+    <div>
+      <div className="flex h-48 items-end justify-around gap-6 border-b border-gray-200">
+        {groups.map((group) => (
+          <div key={group.kind} className="flex h-full items-end gap-2">
+            <div className="flex h-full w-12 flex-col justify-end" title={`Last month: ${display(group.lastMonth)}`}>
+              <div className="rounded-t bg-gray-300" style={{ height: height(group.lastMonth) }} />
+            </div>
+            <div className="flex h-full w-12 flex-col justify-end" title={`This month: ${display(group.thisMonth)}`}>
+              <div className="rounded-t" style={{ height: height(group.thisMonth), backgroundColor: '#0067ac' }} />
+            </div>
+          </div>
+        ))}
+      </div>
+      <div className="mt-2 flex justify-around gap-6 text-xs text-gray-600">
+        {groups.map((group) => (
+          <div key={group.kind} className="text-center">
+            <p className="font-medium text-gray-900">{group.label}</p>
+            <p>
+              {display(group.lastMonth)} → {display(group.thisMonth)}
+            </p>
+          </div>
+        ))}
+      </div>
+      <div className="mt-3 flex justify-center gap-4 text-xs text-gray-500">
+        <span className="flex items-center gap-1">
+          <span className="inline-block h-3 w-3 rounded bg-gray-300" /> Last month
+        </span>
+        <span className="flex items-center gap-1">
+          <span className="inline-block h-3 w-3 rounded" style={{ backgroundColor: '#0067ac' }} /> This month
+        </span>
+        <span>{showValues ? 'Value' : 'Number of transactions'}</span>
+      </div>
+    </div>
+  )
+}
+
+function Panel({ title, children }: { title: string; children: React.ReactNode }) {
+  return (
+    <div className="rounded-lg border p-4" style={{ borderColor: '#E77817' }}>
+      <h3 className="mb-4 text-lg font-semibold" style={{ color: '#0067ac' }}>
+        {title}
+      </h3>
+      {children}
+    </div>
+  )
+}
+
+export default function DashboardKpis({
+  stockValues,
+  lowStockCount,
+  comparison,
+  consumption,
+  activity,
+}: {
+  stockValues: StoreStockValue[]
+  lowStockCount: number | null
+  comparison: MonthComparison | null
+  consumption: ProjectConsumption[]
+  activity: ActivityFeedItem[]
+}) {
+  const totalStockValue = stockValues.reduce((sum, store) => sum + store.total_value, 0)
+  const thisMonth = comparison?.thisMonth
+  const lastMonth = comparison?.lastMonth
+
+  return (
+    <div className="space-y-6">
+      <div className="grid grid-cols-1 gap-4 sm:grid-cols-2 lg:grid-cols-4">
+        {stockValues.length > 0 && (
+          <KpiTile
+            label="Stock value"
+            value={formatAmount(totalStockValue)}
+            detail={`Across ${stockValues.length} ${stockValues.length === 1 ? 'store' : 'stores'}`}
+            href="/reports"
+          />
+        )}
+        {lowStockCount !== null && (
+          <KpiTile
+            label="Items below restock level"
+            value={`${lowStockCount}`}
+            detail={lowStockCount > 0 ? 'Open low stock alerts' : 'Everything is above its reorder point'}
+            href="/reorder"
+            highlight={lowStockCount > 0}
+          />
+        )}
+        {thisMonth && lastMonth && (
+          <>
+            <KpiTile
+              label="Purchases this month"
+              value={thisMonth.purchaseValue !== null ? formatAmount(thisMonth.purchaseValue) : `${thisMonth.purchaseCount}`}
+              detail={
+                thisMonth.purchaseValue !== null
+                  ? formatChange(thisMonth.purchaseValue, lastMonth.purchaseValue!) || `${thisMonth.purchaseCount} purchases`
+                  : formatChange(thisMonth.purchaseCount, lastMonth.purchaseCount) || 'purchases'
+              }
+              href="/purchases"
+            />
+            <KpiTile
+              label="Issues this month"
+              value={thisMonth.issueValue !== null ? formatAmount(thisMonth.issueValue) : `${thisMonth.issueCount}`}
+              detail={
+                thisMonth.issueValue !== null
+                  ? formatChange(thisMonth.issueValue, lastMonth.issueValue!) || `${thisMonth.issueCount} issues`
+                  : formatChange(thisMonth.issueCount, lastMonth.issueCount) || 'issues'
+              }
+              href="/issues"
+            />
+          </>
+        )}
+      </div>
+
+      <div className="grid grid-cols-1 gap-6 lg:grid-cols-2">
+        {stockValues.length > 0 && (
+          <Panel title="Stock Value by Store">
+            <BarChart
+              bars={stockValues.map((store) => ({
+                key: store.store_id,
+                label: store.store_name,
+                value: store.total_value,
+                display: formatAmount(store.total_value),
+              }))}
+            />
+          </Panel>
+        )}
+
+        {comparison && (
+          <Panel title="This Month vs Last Month">
+            <MonthComparisonChart comparison={comparison} />
+          </Panel>
+        )}
+
+        <Panel title="Top Consumed Products by Project">
+          {consumption.length === 0 ? (
+            <p className="text-sm text-gray-500">Nothing has been issued from project stores in the last 90 days.</p>
+          ) : (
+            <div className="space-y-5">
+              {consumption.map((project) => (
+                <div key={project.project_id}>
+                  <p className="mb-2 text-sm font-medium text-gray-900">{project.project_name}</p>
+                  <BarChart
+                    color="#E77817"
+                    bars={project.products.map((product) => ({
+                      key: product.product_id,
+                      label: product.product_name,
+                      value: product.quantity,
+                      display: `${formatQuantity(product.quantity)} ${product.unit}`,
+                    }))}
+                  />
+                </div>
+              ))}
+              <p className="text-xs text-gray-500">Issued to people over the last 90 days, less returns.</p>
+            </div>
+          )}
+        </Panel>
+
+        <Panel title="Recent Activity">
+          {activity.length === 0 ? (
+            <p className="text-sm text-gray-500">No purchases or issues yet.</p>
+          ) : (
+            <ul className="divide-y divide-gray-200">
+              {activity.map((item) => (
+                <li key={`${item.kind}-${item.id}`} className="flex items-start gap-3 py-2">
+                  <span
+                    className={`mt-0.5 rounded-full px-2 py-0.5 text-xs font-semibold ${
+                      item.kind === 'purchase' ? 'bg-green-100 text-green-800' : 'bg-blue-100 text-blue-800'
+                    }`}
+                  >
+                    {item.kind === 'purchase' ? 'Purchase' : 'Issue'}
+                  </span>
+                  <div>
+                    <p className="text-sm text-gray-900">{item.description}</p>
+                    <p className="text-xs text-gray-500">{new Date(item.date).toLocaleDateString()}</p>
+                  </div>
+                </li>
+              ))}
+            </ul>
+          )}
+        </Panel>
+      </div>
+    </div>
+  )
+}
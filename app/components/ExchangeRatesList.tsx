@@ -0,0 +1,255 @@
+'use client'
+
+import { useState } from 'react'
+import { createExchangeRate, deleteExchangeRate } from '@/lib/actions/exchangeRates'
+import { getErrorMessage } from '@/lib/utils/errors'
+import { BASE_CURRENCY, CURRENCY_OPTIONS } from '@/lib/constants/currencies'
+import type { ExchangeRate } from '@/lib/types'
+
+const FOREIGN_CURRENCY_OPTIONS = CURRENCY_OPTIONS.filter((option) => option.value !== BASE_CURRENCY)
+
+export default function ExchangeRatesList({
+  exchangeRates,
+  canManage,
+}: {
+  exchangeRates: ExchangeRate[]
+  canManage: boolean
+}) {
+  const [showModal, setShowModal] = useState(false)
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [formData, setFormData] = useState({
+    currency_code: FOREIGN_CURRENCY_OPTIONS[0]?.value ?? '',
+    rate: '',
+    effective_date: new Date().toISOString().split('T')[0],
+    notes: '',
+  })
+
+  const resetForm = () => {
+    setFormData({
+      currency_code: FOREIGN_CURRENCY_OPTIONS[0]?.value ?? '',
+      rate: '',
+      effective_date: new Date().toISOString().split('T')[0],
+      notes: '',
+    })
+    setError(null)
+  }
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setError(null)
+    setLoading(true)
+
+    const rate = parseFloat(formData.rate)
+    if (isNaN(rate) || rate <= 0) {
+      setError('Rate must be greater than 0')
+      setLoading(false)
+      return
+    }
+
+    const result = await createExchangeRate({
+      currency_code: formData.currency_code,
+      rate,
+      effective_date: formData.effective_date || undefined,
+      notes: formData.notes || undefined,
+    })
+
+    if (result.error) {
+      setError(getErrorMessage(result.error))
+      setLoading(false)
+      return
+    }
+
+    window.location.reload()
+  }
+
+  const handleDelete = async (exchangeRate: ExchangeRate) => {
+    if (!confirm(`Are you sure you want to delete the ${exchangeRate.currency_code} rate from ${new Date(exchangeRate.effective_date).toLocaleDateString()}? Existing purchases keep the rate they were recorded at.`)) {
+      return
+    }
+
+    const result = await deleteExchangeRate(exchangeRate.id)
+    if (result.error) {
+      alert(getErrorMessage(result.error))
+      return
+    }
+
+    window.location.reload()
+  }
+
+  return (
+    <div>
+      {canManage && (
+        <div className="mb-4 flex justify-end">
+          <button
+            onClick={() => setShowModal(true)}
+            className="rounded-md px-4 py-2 text-sm font-semibold text-white transition-colors"
+            style={{ backgroundColor: '#0067ac' }}
+            onMouseEnter={(e) => {
+              e.currentTarget.style.backgroundColor = '#005a94'
+            }}
+            onMouseLeave={(e) => {
+              e.currentTarget.style.backgroundColor = '#0067ac'
+            }}
+          >
+            Add Exchange Rate
+          </button>
+        </div>
+      )}
+
+      {showModal && (
+        <div className="fixed inset-0 z-50 flex items-center justify-center bg-black bg-opacity-50">
+          <div className="bg-white rounded-lg p-6 w-full max-w-md">
+            <h3 className="text-xl font-bold mb-4" style={{ color: '#0067ac' }}>
+              Add Exchange Rate
+            </h3>
+            <form onSubmit={handleSubmit} className="space-y-4">
+              {error && (
+                <div className="rounded-md bg-red-50 p-3 border border-red-200">
+                  <div className="text-sm text-red-800">{error}</div>
+                </div>
+              )}
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Currency *
+                </label>
+                <select
+                  required
+                  value={formData.currency_code}
+                  onChange={(e) => setFormData({ ...formData, currency_code: e.target.value })}
+                  className="w-full rounded-md border border-gray-300 px-3 py-2 text-sm text-gray-900 focus:border-[#0067ac] focus:outline-none focus:ring-2 focus:ring-[#0067ac]"
+                >
+                  {FOREIGN_CURRENCY_OPTIONS.map((option) => (
+                    <option key={option.value} value={option.value}>
+                      {option.label}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  {BASE_CURRENCY} per 1 {formData.currency_code} *
+                </label>
+                <input
+                  type="number"
+                  step="0.000001"
+                  min="0.000001"
+                  required
+                  value={formData.rate}
+                  onChange={(e) => setFormData({ ...formData, rate: e.target.value })}
+                  className="w-full rounded-md border border-gray-300 px-3 py-2 text-sm text-gray-900 placeholder-gray-500 focus:border-[#0067ac] focus:outline-none focus:ring-2 focus:ring-[#0067ac]"
+                  placeholder="e.g., 280.50"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Effective From *
+                </label>
+                <input
+                  type="date"
+                  required
+                  value={formData.effective_date}
+                  onChange={(e) => setFormData({ ...formData, effective_date: e.target.value })}
+                  className="w-full rounded-md border border-gray-300 px-3 py-2 text-sm text-gray-900 focus:border-[#0067ac] focus:outline-none focus:ring-2 focus:ring-[#0067ac]"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Notes
+                </label>
+                <textarea
+                  value={formData.notes}
+                  onChange={(e) => setFormData({ ...formData, notes: e.target.value })}
+                  rows={2}
+                  className="w-full rounded-md border border-gray-300 px-3 py-2 text-sm text-gray-900 placeholder-gray-500 focus:border-[#0067ac] focus:outline-none focus:ring-2 focus:ring-[#0067ac]"
+                  placeholder="e.g., State Bank rate"
+                />
+              </div>
+              <div className="flex gap-3 pt-4">
+                <button
+                  type="button"
+                  onClick={() => {
+                    setShowModal(false)
+                    resetForm()
+                  }}
+                  className="flex-1 rounded-md border border-gray-300 bg-white px-4 py-2 text-sm font-medium text-gray-700 hover:bg-gray-50"
+                >
+                  Cancel
+                </button>
+                <button
+                  type="submit"
+                  disabled={loading}
+                  className="flex-1 rounded-md px-4 py-2 text-sm font-semibold text-white disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                  style={{ backgroundColor: '#0067ac' }}
+                >
+                  {loading ? 'Saving...' : 'Save Rate'}
+                </button>
+              </div>
+            </form>
+          </div>
+        </div>
+      )}
+
+      <div className="rounded-lg bg-white shadow-md border overflow-hidden" style={{ borderColor: '#E77817' }}>
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200">
+          <thead className="bg-gray-50">
+            <tr>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Currency
+              </th>
+              <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Rate ({BASE_CURRENCY})
+              </th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Effective From
+              </th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Notes
+              </th>
+              {canManage && (
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Actions
+                </th>
+              )}
+            </tr>
+          </thead>
+          <tbody className="bg-white divide-y divide-gray-200">
+            {exchangeRates.length === 0 ? (
+              <tr>
+                <td colSpan={canManage ? 5 : 4} className="px-6 py-4 text-center text-sm text-gray-500">
+                  No exchange rates recorded. All purchases are in {BASE_CURRENCY}.
+                </td>
+              </tr>
+            ) : (
+              exchangeRates.map((exchangeRate) => (
+                <tr key={exchangeRate.id}>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">
+                    {exchangeRate.currency_code}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-right text-gray-900">
+                    {Number(exchangeRate.rate).toFixed(4)}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                    {new Date(exchangeRate.effective_date).toLocaleDateString()}
+                  </td>
+                  <td className="px-6 py-4 text-sm text-gray-500">
+                    {exchangeRate.notes || '-'}
+                  </td>
+                  {canManage && (
+                    <td className="px-6 py-4 whitespace-nowrap text-sm font-medium">
+                      <button onClick={() => handleDelete(exchangeRate)} className="text-red-600 hover:text-red-900">
+                        Delete
+                      </button>
+                    </td>
+                  )}
+                </tr>
+              ))
+            )}
+          </tbody>
+        </table>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,477 @@
+'use client'
+
+import { useMemo, useState } from 'react'
+import {
+  createGoodsReceivedNote,
+  postGoodsReceivedNote,
+  deleteGoodsReceivedNote,
+} from '@/lib/actions/goodsReceivedNotes'
+import { getErrorMessage } from '@/lib/utils/errors'
+import type { GoodsReceivedNote, GoodsReceivedNoteStatus, Purchase, PurchaseOrder } from '@/lib/types'
+
+const STATUS_LABELS: Record<GoodsReceivedNoteStatus, string> = {
+  draft: 'Draft',
+  posted: 'Posted',
+}
+
+const STATUS_CLASSES: Record<GoodsReceivedNoteStatus, string> = {
+  draft: 'bg-yellow-100 text-yellow-800',
+  posted: 'bg-green-100 text-green-800',
+}
+
+// Something a delivery can be recorded against: a purchase marked for
+// delivery-wise receiving, or a line on an approved purchase order
+interface PendingReceipt {
+  key: string
+  purchase_id?: string
+  purchase_order_item_id?: string
+  label: string
+  outstanding: number
+  unit: string
+}
+
+export default function GoodsReceivedNotesList({
+  goodsReceivedNotes,
+  purchases,
+  purchaseOrders,
+}: {
+  goodsReceivedNotes: GoodsReceivedNote[]
+  purchases: Purchase[]
+  purchaseOrders: PurchaseOrder[]
+}) {
+  const [statusFilter, setStatusFilter] = useState<'all' | GoodsReceivedNoteStatus>('all')
+  const [showModal, setShowModal] = useState(false)
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [formData, setFormData] = useState({
+    source: '',
+    quantity: '',
+    received_date: new Date().toISOString().split('T')[0],
+    vehicle_number: '',
+    challan_number: '',
+    received_by_name: '',
+    notes: '',
+  })
+
+  const pendingReceipts = useMemo(() => {
+    const recordedByPurchase = new Map<string, number>()
+    const draftsByOrderItem = new Map<string, number>()
+    goodsReceivedNotes.forEach((grn) => {
+      if (grn.purchase_id) {
+        recordedByPurchase.set(grn.purchase_id, (recordedByPurchase.get(grn.purchase_id) ?? 0) + Number(grn.quantity))
+      }
+      if (grn.purchase_order_item_id && grn.status === 'draft') {
+        draftsByOrderItem.set(
+          grn.purchase_order_item_id,
+          (draftsByOrderItem.get(grn.purchase_order_item_id) ?? 0) + Number(grn.quantity)
+        )
+      }
+    })
+
+    const receipts: PendingReceipt[] = []
+
+    // Purchases created by posting a PO GRN are already fully received
+    purchases
+      .filter((purchase) => purchase.receive_via_grn && !purchase.purchase_order_item_id)
+      .forEach((purchase) => {
+        const outstanding = Number(purchase.quantity) - (recordedByPurchase.get(purchase.id) ?? 0)
+        if (outstanding > 0) {
+          receipts.push({
+            key: `purchase-${purchase.id}`,
+            purchase_id: purchase.id,
+            label: `${purchase.product?.name || 'Product'} - ${purchase.store?.name || ''} (purchased ${new Date(purchase.purchase_date).toLocaleDateString()})`,
+            outstanding,
+            unit: purchase.product?.unit || '',
+          })
+        }
+      })
+
+    purchaseOrders
+      .filter((order) => order.status === 'approved' || order.status === 'partially_received')
+      .forEach((order) => {
+        ;(order.items || []).forEach((item) => {
+          const outstanding =
+            Number(item.quantity) - Number(item.received_quantity) - (draftsByOrderItem.get(item.id) ?? 0)
+          if (outstanding > 0) {
+            receipts.push({
+              key: `order-item-${item.id}`,
+              purchase_order_item_id: item.id,
+              label: `${order.po_number} - ${item.product?.name || 'Product'} (${order.store?.name || ''})`,
+              outstanding,
+              unit: item.product?.unit || '',
+            })
+          }
+        })
+      })
+
+    return receipts
+  }, [goodsReceivedNotes, purchases, purchaseOrders])
+
+  const selectedReceipt = pendingReceipts.find((receipt) => receipt.key === formData.source)
+
+  const visibleNotes = useMemo(() => {
+    if (statusFilter === 'all') return goodsReceivedNotes
+    return goodsReceivedNotes.filter((grn) => grn.status === statusFilter)
+  }, [goodsReceivedNotes, statusFilter])
+
+  const resetForm = () => {
+    setFormData({
+      source: '',
+      quantity: '',
+      received_date: new Date().toISOString().split('T')[0],
+      vehicle_number: '',
+      challan_number: '',
+      received_by_name: '',
+      notes: '',
+    })
+    setError(null)
+  }
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setError(null)
+    setLoading(true)
+
+    if (!selectedReceipt) {
+      setError('Please select what this delivery is against')
+      setLoading(false)
+      return
+    }
+
+    const quantity = parseFloat(formData.quantity)
+    if (isNaN(quantity) || quantity <= 0) {
+      setError('Delivered quantity must be greater than 0')
+      setLoading(false)
+      return
+    }
+
+    const result = await createGoodsReceivedNote({
+      purchase_id: selectedReceipt.purchase_id,
+      purchase_order_item_id: selectedReceipt.purchase_order_item_id,
+      quantity,
+      received_date: formData.received_date || undefined,
+      vehicle_number: formData.vehicle_number || undefined,
+      challan_number: formData.challan_number || undefined,
+      received_by_name: formData.received_by_name || undefined,
+      notes: formData.notes || undefined,
+    })
+
+    if (result.error) {
+      setError(getErrorMessage(result.error))
+      setLoading(false)
+      return
+    }
+
+    window.location.reload()
+  }
+
+  const runAction = async (action: () => Promise<{ error: unknown }>) => {
+    const result = await action()
+    if (result.error) {
+      alert(getErrorMessage(result.error))
+      return
+    }
+    window.location.reload()
+  }
+
+  const handlePost = async (grn: GoodsReceivedNote) => {
+    if (!confirm(`Post ${grn.grn_number}? This adds ${grn.quantity} ${grn.product?.unit || ''} to ${grn.store?.name || 'the store'}.`)) {
+      return
+    }
+    await runAction(() => postGoodsReceivedNote(grn.id))
+  }
+
+  const handleDelete = async (grn: GoodsReceivedNote) => {
+    if (!confirm(`Are you sure you want to delete ${grn.grn_number}?`)) {
+      return
+    }
+    await runAction(() => deleteGoodsReceivedNote(grn.id))
+  }
+
+  const formatSource = (grn: GoodsReceivedNote) => {
+    const order = grn.purchase_order_item?.purchase_order
+    if (order) {
+      return order.po_number
+    }
+    if (grn.purchase) {
+      return `Purchase of ${new Date(grn.purchase.purchase_date).toLocaleDateString()}`
+    }
+    return '-'
+  }
+
+  return (
+    <div>
+      <div className="mb-4 flex flex-wrap items-end justify-between gap-4">
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">
+            Status
+          </label>
+          <select
+            value={statusFilter}
+            onChange={(e) => setStatusFilter(e.target.value as 'all' | GoodsReceivedNoteStatus)}
+            className="rounded-md border border-gray-300 px-3 py-2 text-sm text-gray-900 bg-white focus:border-[#0067ac] focus:outline-none focus:ring-2 focus:ring-[#0067ac]"
+          >
+            <option value="all">All GRNs</option>
+            {(Object.keys(STATUS_LABELS) as GoodsReceivedNoteStatus[]).map((status) => (
+              <option key={status} value={status}>
+                {STATUS_LABELS[status]}
+              </option>
+            ))}
+          </select>
+        </div>
+        <button
+          onClick={() => {
+            resetForm()
+            setShowModal(true)
+          }}
+          disabled={pendingReceipts.length === 0}
+          title={pendingReceipts.length === 0 ? 'No purchases or purchase orders are awaiting delivery' : undefined}
+          className="rounded-md px-4 py-2 text-sm font-semibold text-white transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          style={{ backgroundColor: '#0067ac' }}
+        >
+          Record Delivery
+        </button>
+      </div>
+
+      {showModal && (
+        <div className="fixed inset-0 z-50 flex items-center justify-center bg-black bg-opacity-50">
+          <div className="bg-white rounded-lg p-6 w-full max-w-lg max-h-[90vh] overflow-y-auto">
+            <h3 className="text-xl font-bold mb-4" style={{ color: '#0067ac' }}>
+              Record Delivery
+            </h3>
+            <form onSubmit={handleSubmit} className="space-y-4">
+              {error && (
+                <div className="rounded-md bg-red-50 p-3 border border-red-200">
+                  <div className="text-sm text-red-800">{error}</div>
+                </div>
+              )}
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Received Against *
+                </label>
+                <select
+                  required
+                  value={formData.source}
+                  onChange={(e) => {
+                    const receipt = pendingReceipts.find((r) => r.key === e.target.value)
+                    setFormData({
+                      ...formData,
+                      source: e.target.value,
+                      quantity: receipt ? receipt.outstanding.toString() : '',
+                    })
+                  }}
+                  className="w-full rounded-md border border-gray-300 px-3 py-2 text-sm text-gray-900 bg-white focus:border-[#0067ac] focus:outline-none focus:ring-2 focus:ring-[#0067ac]"
+                >
+                  <option value="">Select a purchase or order line</option>
+                  {pendingReceipts.map((receipt) => (
+                    <option key={receipt.key} value={receipt.key}>
+                      {receipt.label}
+                    </option>
+                  ))}
+                </select>
+                {selectedReceipt && (
+                  <p className="mt-1 text-xs text-gray-500">
+                    Outstanding: {selectedReceipt.outstanding} {selectedReceipt.unit}
+                  </p>
+                )}
+              </div>
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Delivered Quantity *
+                  </label>
+                  <input
+                    type="number"
+                    step="0.01"
+                    min="0.01"
+                    max={selectedReceipt?.outstanding}
+                    required
+                    value={formData.quantity}
+                    onChange={(e) => setFormData({ ...formData, quantity: e.target.value })}
+                    className="w-full rounded-md border border-gray-300 px-3 py-2 text-sm text-gray-900 focus:border-[#0067ac] focus:outline-none focus:ring-2 focus:ring-[#0067ac]"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Received Date *
+                  </label>
+                  <input
+                    type="date"
+                    required
+                    value={formData.received_date}
+                    onChange={(e) => setFormData({ ...formData, received_date: e.target.value })}
+                    className="w-full rounded-md border border-gray-300 px-3 py-2 text-sm text-gray-900 focus:border-[#0067ac] focus:outline-none focus:ring-2 focus:ring-[#0067ac]"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Vehicle Number
+                  </label>
+                  <input
+                    type="text"
+                    value={formData.vehicle_number}
+                    onChange={(e) => setFormData({ ...formData, vehicle_number: e.target.value })}
+                    className="w-full rounded-md border border-gray-300 px-3 py-2 text-sm text-gray-900 focus:border-[#0067ac] focus:outline-none focus:ring-2 focus:ring-[#0067ac]"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Challan Number
+                  </label>
+                  <input
+                    type="text"
+                    value={formData.challan_number}
+                    onChange={(e) => setFormData({ ...formData, challan_number: e.target.value })}
+                    className="w-full rounded-md border border-gray-300 px-3 py-2 text-sm text-gray-900 focus:border-[#0067ac] focus:outline-none focus:ring-2 focus:ring-[#0067ac]"
+                  />
+                </div>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Received By
+                </label>
+                <input
+                  type="text"
+                  value={formData.received_by_name}
+                  onChange={(e) => setFormData({ ...formData, received_by_name: e.target.value })}
+                  placeholder="Name of the person who received the goods"
+                  className="w-full rounded-md border border-gray-300 px-3 py-2 text-sm text-gray-900 placeholder-gray-500 focus:border-[#0067ac] focus:outline-none focus:ring-2 focus:ring-[#0067ac]"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Notes
+                </label>
+                <textarea
+                  value={formData.notes}
+                  onChange={(e) => setFormData({ ...formData, notes: e.target.value })}
+                  rows={2}
+                  className="w-full rounded-md border border-gray-300 px-3 py-2 text-sm text-gray-900 placeholder-gray-500 focus:border-[#0067ac] focus:outline-none focus:ring-2 focus:ring-[#0067ac]"
+                  placeholder="Optional notes"
+                />
+              </div>
+              <div className="flex gap-3 pt-4">
+                <button
+                  type="button"
+                  onClick={() => {
+                    setShowModal(false)
+                    resetForm()
+                  }}
+                  className="flex-1 rounded-md border border-gray-300 bg-white px-4 py-2 text-sm font-medium text-gray-700 hover:bg-gray-50"
+                >
+                  Cancel
+                </button>
+                <button
+                  type="submit"
+                  disabled={loading}
+                  className="flex-1 rounded-md px-4 py-2 text-sm font-semibold text-white disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                  style={{ backgroundColor: '#0067ac' }}
+                >
+                  {loading ? 'Saving...' : 'Save as Draft'}
+                </button>
+              </div>
+            </form>
+          </div>
+        </div>
+      )}
+
+      <div className="rounded-lg bg-white shadow-md border overflow-hidden" style={{ borderColor: '#E77817' }}>
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200">
+          <thead className="bg-gray-50">
+            <tr>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                GRN Number
+              </th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Date
+              </th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Store
+              </th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Product
+              </th>
+              <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Quantity
+              </th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Against
+              </th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Vehicle / Challan
+              </th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Received By
+              </th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Status
+              </th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Actions
+              </th>
+            </tr>
+          </thead>
+          <tbody className="bg-white divide-y divide-gray-200">
+            {visibleNotes.length === 0 ? (
+              <tr>
+                <td colSpan={10} className="px-6 py-4 text-center text-sm text-gray-500">
+                  No goods received notes found.
+                </td>
+              </tr>
+            ) : (
+              visibleNotes.map((grn) => (
+                <tr key={grn.id}>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">
+                    {grn.grn_number}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                    {new Date(grn.received_date).toLocaleDateString()}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                    {grn.store?.name || '-'}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">
+                    {grn.product?.name || '-'}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-right text-gray-900">
+                    {grn.quantity} {grn.product?.unit || ''}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                    {formatSource(grn)}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                    {[grn.vehicle_number, grn.challan_number].filter(Boolean).join(' / ') || '-'}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                    {grn.received_by_name || '-'}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm">
+                    <span className={`inline-flex rounded-full px-2 py-1 text-xs font-semibold ${STATUS_CLASSES[grn.status]}`}>
+                      {STATUS_LABELS[grn.status]}
+                    </span>
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm font-medium space-x-3">
+                    {grn.status === 'draft' ? (
+                      <>
+                        <button onClick={() => handlePost(grn)} className="text-green-600 hover:text-green-900">
+                          Post
+                        </button>
+                        <button onClick={() => handleDelete(grn)} className="text-red-600 hover:text-red-900">
+                          Delete
+                        </button>
+                      </>
+                    ) : (
+                      <span className="text-gray-400">-</span>
+                    )}
+                  </td>
+                </tr>
+              ))
+            )}
+          </tbody>
+        </table>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,425 @@
+'use client'
+
+import { useMemo, useState } from 'react'
+import {
+  createInventoryAdjustment,
+  approveInventoryAdjustment,
+  rejectInventoryAdjustment,
+  deleteInventoryAdjustment,
+} from '@/lib/actions/inventoryAdjustments'
+import { ADJUSTMENT_REASON_LABELS, ADJUSTMENT_REASON_OPTIONS } from '@/lib/constants/adjustmentReasons'
+import { getErrorMessage } from '@/lib/utils/errors'
+import type { AdjustmentReason, AdjustmentStatus, InventoryAdjustment, Product, Store } from '@/lib/types'
+
+const STATUS_LABELS: Record<AdjustmentStatus, string> = {
+  pending: 'Awaiting Approval',
+  approved: 'Approved',
+  rejected: 'Rejected',
+}
+
+const STATUS_CLASSES: Record<AdjustmentStatus, string> = {
+  pending: 'bg-yellow-100 text-yellow-800',
+  approved: 'bg-green-100 text-green-800',
+  rejected: 'bg-red-100 text-red-800',
+}
+
+// Reasons that can only ever take stock away or add it; count corrections go either way
+const REASON_DIRECTIONS: Partial<Record<AdjustmentReason, 'increase' | 'decrease'>> = {
+  damaged: 'decrease',
+  lost: 'decrease',
+  expired: 'decrease',
+  found: 'increase',
+}
+
+const emptyForm = () => ({
+  store_id: '',
+  product_id: '',
+  reason: 'damaged' as AdjustmentReason,
+  direction: 'decrease' as 'increase' | 'decrease',
+  quantity: '',
+  adjustment_date: new Date().toISOString().split('T')[0],
+  notes: '',
+})
+
+export default function InventoryAdjustmentsList({
+  adjustments,
+  products,
+  stores,
+  canApprove,
+}: {
+  adjustments: InventoryAdjustment[]
+  products: Product[]
+  stores: Store[]
+  canApprove: boolean
+}) {
+  const sortedProducts = useMemo(
+    () => [...products].sort((a, b) => a.name.localeCompare(b.name)),
+    [products]
+  )
+
+  const [statusFilter, setStatusFilter] = useState<'all' | AdjustmentStatus>('all')
+  const [showModal, setShowModal] = useState(false)
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [formData, setFormData] = useState(emptyForm())
+
+  const visibleAdjustments = useMemo(() => {
+    if (statusFilter === 'all') return adjustments
+    return adjustments.filter((adjustment) => adjustment.status === statusFilter)
+  }, [adjustments, statusFilter])
+
+  const handleReasonChange = (reason: AdjustmentReason) => {
+    setFormData({
+      ...formData,
+      reason,
+      direction: REASON_DIRECTIONS[reason] ?? formData.direction,
+    })
+  }
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setError(null)
+    setLoading(true)
+
+    const quantity = parseFloat(formData.quantity)
+    if (isNaN(quantity) || quantity <= 0) {
+      setError('Quantity must be greater than 0')
+      setLoading(false)
+      return
+    }
+
+    const result = await createInventoryAdjustment({
+      store_id: formData.store_id,
+      product_id: formData.product_id,
+      quantity: formData.direction === 'decrease' ? -quantity : quantity,
+      reason: formData.reason,
+      adjustment_date: formData.adjustment_date || undefined,
+      notes: formData.notes || undefined,
+    })
+
+    if (result.error) {
+      setError(getErrorMessage(result.error))
+      setLoading(false)
+      return
+    }
+
+    window.location.reload()
+  }
+
+  const runAction = async (action: () => Promise<{ error: unknown }>) => {
+    const result = await action()
+    if (result.error) {
+      alert(getErrorMessage(result.error))
+      return
+    }
+    window.location.reload()
+  }
+
+  const handleReject = async (adjustment: InventoryAdjustment) => {
+    const reason = prompt(`Reason for rejecting ${adjustment.adjustment_number} (optional):`)
+    if (reason === null) {
+      return
+    }
+    await runAction(() => rejectInventoryAdjustment(adjustment.id, reason))
+  }
+
+  const handleDelete = async (adjustment: InventoryAdjustment) => {
+    if (!confirm(`Are you sure you want to delete ${adjustment.adjustment_number}?`)) {
+      return
+    }
+    await runAction(() => deleteInventoryAdjustment(adjustment.id))
+  }
+
+  return (
+    <div>
+      <div className="mb-4 flex flex-wrap items-end justify-between gap-4">
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">
+            Status
+          </label>
+          <select
+            value={statusFilter}
+            onChange={(e) => setStatusFilter(e.target.value as 'all' | AdjustmentStatus)}
+            className="rounded-md border border-gray-300 px-3 py-2 text-sm text-gray-900 bg-white focus:border-[#0067ac] focus:outline-none focus:ring-2 focus:ring-[#0067ac]"
+          >
+            <option value="all">All Adjustments</option>
+            {(Object.keys(STATUS_LABELS) as AdjustmentStatus[]).map((status) => (
+              <option key={status} value={status}>
+                {STATUS_LABELS[status]}
+              </option>
+            ))}
+          </select>
+        </div>
+        <button
+          onClick={() => {
+            setFormData(emptyForm())
+            setError(null)
+            setShowModal(true)
+          }}
+          className="rounded-md px-4 py-2 text-sm font-semibold text-white transition-colors"
+          style={{ backgroundColor: '#0067ac' }}
+          onMouseEnter={(e) => {
+            e.currentTarget.style.backgroundColor = '#005a94'
+          }}
+          onMouseLeave={(e) => {
+            e.currentTarget.style.backgroundColor = '#0067ac'
+          }}
+        >
+          New Adjustment
+        </button>
+      </div>
+
+      {showModal && (
+        <div className="fixed inset-0 z-50 flex items-center justify-center bg-black bg-opacity-50">
+          <div className="bg-white rounded-lg p-6 w-full max-w-lg max-h-[90vh] overflow-y-auto">
+            <h3 className="text-xl font-bold mb-4" style={{ color: '#0067ac' }}>
+              New Stock Adjustment
+            </h3>
+            <form onSubmit={handleSubmit} className="space-y-4">
+              {error && (
+                <div className="rounded-md bg-red-50 p-3 border border-red-200">
+                  <div className="text-sm text-red-800">{error}</div>
+                </div>
+              )}
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Store *
+                </label>
+                <select
+                  required
+                  value={formData.store_id}
+                  onChange={(e) => setFormData({ ...formData, store_id: e.target.value })}
+                  className="w-full rounded-md border border-gray-300 px-3 py-2 text-sm text-gray-900 bg-white focus:border-[#0067ac] focus:outline-none focus:ring-2 focus:ring-[#0067ac]"
+                >
+                  <option value="">Select a store</option>
+                  {stores.map((store) => (
+                    <option key={store.id} value={store.id}>
+                      {store.name}{store.type === 'project' && store.project ? ` (${store.project.name})` : ''}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Product *
+                </label>
+                <select
+                  required
+                  value={formData.product_id}
+                  onChange={(e) => setFormData({ ...formData, product_id: e.target.value })}
+                  className="w-full rounded-md border border-gray-300 px-3 py-2 text-sm text-gray-900 bg-white focus:border-[#0067ac] focus:outline-none focus:ring-2 focus:ring-[#0067ac]"
+                >
+                  <option value="">Select a product</option>
+                  {sortedProducts.map((product) => (
+                    <option key={product.id} value={product.id}>
+                      {product.name}{product.category?.name ? ` (${product.category.name})` : ''} • {product.unit}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Reason *
+                  </label>
+                  <select
+                    required
+                    value={formData.reason}
+                    onChange={(e) => handleReasonChange(e.target.value as AdjustmentReason)}
+                    className="w-full rounded-md border border-gray-300 px-3 py-2 text-sm text-gray-900 bg-white focus:border-[#0067ac] focus:outline-none focus:ring-2 focus:ring-[#0067ac]"
+                  >
+                    {ADJUSTMENT_REASON_OPTIONS.map((option) => (
+                      <option key={option.value} value={option.value}>
+                        {option.label}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Direction *
+                  </label>
+                  <select
+                    required
+                    value={formData.direction}
+                    disabled={Boolean(REASON_DIRECTIONS[formData.reason])}
+                    onChange={(e) => setFormData({ ...formData, direction: e.target.value as 'increase' | 'decrease' })}
+                    className="w-full rounded-md border border-gray-300 px-3 py-2 text-sm text-gray-900 bg-white focus:border-[#0067ac] focus:outline-none focus:ring-2 focus:ring-[#0067ac] disabled:bg-gray-100"
+                  >
+                    <option value="decrease">Remove stock</option>
+                    <option value="increase">Add stock</option>
+                  </select>
+                </div>
+              </div>
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Quantity *
+                  </label>
+                  <input
+                    type="number"
+                    step="0.01"
+                    min="0.01"
+                    required
+                    value={formData.quantity}
+                    onChange={(e) => setFormData({ ...formData, quantity: e.target.value })}
+                    className="w-full rounded-md border border-gray-300 px-3 py-2 text-sm text-gray-900 focus:border-[#0067ac] focus:outline-none focus:ring-2 focus:ring-[#0067ac]"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Date *
+                  </label>
+                  <input
+                    type="date"
+                    required
+                    value={formData.adjustment_date}
+                    onChange={(e) => setFormData({ ...formData, adjustment_date: e.target.value })}
+                    className="w-full rounded-md border border-gray-300 px-3 py-2 text-sm text-gray-900 focus:border-[#0067ac] focus:outline-none focus:ring-2 focus:ring-[#0067ac]"
+                  />
+                </div>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Notes
+                </label>
+                <textarea
+                  value={formData.notes}
+                  onChange={(e) => setFormData({ ...formData, notes: e.target.value })}
+                  rows={2}
+                  className="w-full rounded-md border border-gray-300 px-3 py-2 text-sm text-gray-900 placeholder-gray-500 focus:border-[#0067ac] focus:outline-none focus:ring-2 focus:ring-[#0067ac]"
+                  placeholder="What happened to the stock?"
+                />
+              </div>
+              <p className="text-xs text-gray-500">
+                Stock only changes once an admin approves the adjustment. Write-offs are valued at the store&apos;s average cost.
+              </p>
+              <div className="flex gap-3 pt-4">
+                <button
+                  type="button"
+                  onClick={() => {
+                    setShowModal(false)
+                    setError(null)
+                  }}
+                  className="flex-1 rounded-md border border-gray-300 bg-white px-4 py-2 text-sm font-medium text-gray-700 hover:bg-gray-50"
+                >
+                  Cancel
+                </button>
+                <button
+                  type="submit"
+                  disabled={loading}
+                  className="flex-1 rounded-md px-4 py-2 text-sm font-semibold text-white disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                  style={{ backgroundColor: '#0067ac' }}
+                >
+                  {loading ? 'Saving...' : 'Submit for Approval'}
+                </button>
+              </div>
+            </form>
+          </div>
+        </div>
+      )}
+
+      <div className="rounded-lg bg-white shadow-md border overflow-hidden" style={{ borderColor: '#E77817' }}>
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200">
+          <thead className="bg-gray-50">
+            <tr>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Adjustment
+              </th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Date
+              </th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Store
+              </th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Product
+              </th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Reason
+              </th>
+              <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Quantity
+              </th>
+              <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Value
+              </th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Status
+              </th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Actions
+              </th>
+            </tr>
+          </thead>
+          <tbody className="bg-white divide-y divide-gray-200">
+            {visibleAdjustments.length === 0 ? (
+              <tr>
+                <td colSpan={9} className="px-6 py-4 text-center text-sm text-gray-500">
+                  No adjustments found.
+                </td>
+              </tr>
+            ) : (
+              visibleAdjustments.map((adjustment) => {
+                const quantity = Number(adjustment.quantity)
+                return (
+                  <tr key={adjustment.id}>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">
+                      {adjustment.adjustment_number}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                      {new Date(adjustment.adjustment_date).toLocaleDateString()}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                      {adjustment.store?.name || '-'}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                      {adjustment.product?.name || '-'}
+                    </td>
+                    <td className="px-6 py-4 text-sm text-gray-900">
+                      {ADJUSTMENT_REASON_LABELS[adjustment.reason] || adjustment.reason}
+                      {adjustment.notes && <p className="mt-1 text-xs text-gray-500">{adjustment.notes}</p>}
+                    </td>
+                    <td className={`px-6 py-4 whitespace-nowrap text-sm text-right font-semibold ${quantity < 0 ? 'text-red-600' : 'text-green-600'}`}>
+                      {quantity > 0 ? '+' : ''}{quantity} {adjustment.product?.unit || ''}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-right text-gray-900">
+                      {adjustment.total_cost !== null ? `PKR ${Number(adjustment.total_cost).toFixed(2)}` : '-'}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm">
+                      <span className={`inline-flex rounded-full px-2 py-1 text-xs font-semibold ${STATUS_CLASSES[adjustment.status]}`}>
+                        {STATUS_LABELS[adjustment.status]}
+                      </span>
+                      {adjustment.status === 'rejected' && adjustment.rejection_reason && (
+                        <p className="mt-1 text-xs text-red-600">{adjustment.rejection_reason}</p>
+                      )}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm font-medium space-x-3">
+                      {canApprove && adjustment.status === 'pending' && (
+                        <>
+                          <button onClick={() => runAction(() => approveInventoryAdjustment(adjustment.id))} className="text-green-600 hover:text-green-900">
+                            Approve
+                          </button>
+                          <button onClick={() => handleReject(adjustment)} className="text-red-600 hover:text-red-900">
+                            Reject
+                          </button>
+                        </>
+                      )}
+                      {adjustment.status !== 'approved' && (
+                        <button onClick={() => handleDelete(adjustment)} className="text-red-600 hover:text-red-900">
+                          Delete
+                        </button>
+                      )}
+                    </td>
+                  </tr>
+                )
+              })
+            )}
+          </tbody>
+        </table>
+        </div>
+      </div>
+    </div>
+  )
+}
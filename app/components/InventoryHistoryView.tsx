@@ -25,10 +25,18 @@ function formatReference(entry: InventoryMovementEntry) {
   switch (entry.movement_type) {
     case 'purchase':
       return 'Purchase'
+    case 'grn':
+      return entry.reference_number ? `Goods Received (${entry.reference_number})` : 'Goods Received'
     case 'issue_in':
       return 'Received (Issue)'
     case 'issue_out':
       return 'Issued'
+    case 'return':
+      return entry.reference_number ? `Returned (${entry.reference_number})` : 'Returned'
+    case 'purchase_return':
+      return entry.reference_number ? `Returned to Supplier (${entry.reference_number})` : 'Returned to Supplier'
+    case 'adjustment':
+      return entry.reference_number ? `Adjustment (${entry.reference_number})` : 'Adjustment'
     default:
       return entry.movement_type
   }
@@ -38,10 +46,22 @@ export default function InventoryHistoryView({ item, movements, hideMeta = false
   const totals = useMemo(() => {
     return movements.reduce(
       (acc, movement) => {
-        if (movement.movement_type === 'purchase' || movement.movement_type === 'issue_in') {
+        if (
+          movement.movement_type === 'purchase' ||
+          movement.movement_type === 'grn' ||
+          movement.movement_type === 'issue_in' ||
+          movement.movement_type === 'return'
+        ) {
           acc.received += Number(movement.quantity)
-        } else if (movement.movement_type === 'issue_out') {
+        } else if (movement.movement_type === 'issue_out' || movement.movement_type === 'purchase_return') {
           acc.issued += Number(movement.quantity)
+        } else if (movement.movement_type === 'adjustment') {
+          // Adjustments are signed: found stock adds, write-offs remove
+          if (Number(movement.quantity) > 0) {
+            acc.received += Number(movement.quantity)
+          } else {
+            acc.issued += Math.abs(Number(movement.quantity))
+          }
         }
         return acc
       },
@@ -52,9 +72,18 @@ export default function InventoryHistoryView({ item, movements, hideMeta = false
   const enhancedMovements = useMemo(() => {
     let runningBalance = 0
     return movements.map((movement) => {
-      const isIncoming = movement.movement_type === 'purchase' || movement.movement_type === 'issue_in'
-      const received = isIncoming ? Number(movement.quantity) : 0
-      const issued = movement.movement_type === 'issue_out' ? Number(movement.quantity) : 0
+      const isIncoming =
+        movement.movement_type === 'purchase' ||
+        movement.movement_type === 'grn' ||
+        movement.movement_type === 'issue_in' ||
+        movement.movement_type === 'return'
+      const isAdjustment = movement.movement_type === 'adjustment'
+      const received = isIncoming || (isAdjustment && Number(movement.quantity) > 0) ? Number(movement.quantity) : 0
+      const issued = movement.movement_type === 'issue_out' || movement.movement_type === 'purchase_return'
+        ? Number(movement.quantity)
+        : isAdjustment && Number(movement.quantity) < 0
+          ? Math.abs(Number(movement.quantity))
+          : 0
       runningBalance += received - issued
       return {
         ...movement,
@@ -108,8 +137,8 @@ export default function InventoryHistoryView({ item, movements, hideMeta = false
                 <span className="font-medium text-gray-900">Unit:</span> {item.product?.unit || '-'}
               </div>
               <div>
-                <span className="font-medium text-gray-900">Restock Level:</span>{' '}
-                {item.product?.restock_level != null ? item.product.restock_level : '-'}
+                <span className="font-medium text-gray-900">Reorder Point:</span>{' '}
+                {item.reorder_point ?? (item.product?.restock_level || '-')}
               </div>
             </div>
           </div>
@@ -163,11 +192,22 @@ export default function InventoryHistoryView({ item, movements, hideMeta = false
                     {formatReference(movement)}
                   </td>
                   <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-600">
-                    {movement.source_store?.name || (movement.movement_type === 'purchase' ? 'Supplier' : '-')}
+                    {movement.source_store?.name ||
+                      (movement.movement_type === 'purchase' || movement.movement_type === 'grn'
+                        ? 'Supplier'
+                        : movement.movement_type === 'return'
+                          ? movement.issued_to_name || '-'
+                          : '-')}
                   </td>
                   <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-600">
                     {movement.destination_store?.name ||
-                      (movement.movement_type === 'issue_out' ? movement.issued_to_name || '-' : storeName)}
+                      (movement.movement_type === 'issue_out'
+                        ? movement.issued_to_name || '-'
+                        : movement.movement_type === 'adjustment'
+                          ? 'Written off'
+                          : movement.movement_type === 'purchase_return'
+                            ? movement.issued_to_name || 'Supplier'
+                            : storeName)}
                   </td>
                   <td className="px-6 py-4 whitespace-nowrap text-sm text-right text-green-600 font-semibold">
                     {movement.received > 0 ? `${movement.received.toLocaleString()} ${item.product?.unit || ''}` : ''}
@@ -8,14 +8,14 @@ import InventoryHistoryView from '@/app/components/InventoryHistoryView'
 export default function InventoryView({ 
   initialInventory, 
   stores, 
-  isAdmin,
+  canViewPrices,
   currentStoreId,
   canViewAllStores = false,
   historyMap = {},
 }: { 
   initialInventory: InventoryItem[]
   stores: Store[]
-  isAdmin: boolean
+  canViewPrices: boolean
   currentStoreId?: string
   canViewAllStores?: boolean
   historyMap?: Record<string, InventoryMovementEntry[]>
@@ -102,7 +102,7 @@ export default function InventoryView({
   const paginatedInventory = filteredInventory.slice(startIndex, endIndex)
 
   useEffect(() => {
-    if (!isAdmin || paginatedInventory.length === 0) {
+    if (!canViewPrices || paginatedInventory.length === 0) {
       return
     }
 
@@ -148,7 +148,7 @@ export default function InventoryView({
     }
 
     loadAverageCostsForVisibleRows()
-  }, [isAdmin, paginatedInventory, averageCostByItemId, averageCostLoadingByItemId, averageCostErrorByItemId])
+  }, [canViewPrices, paginatedInventory, averageCostByItemId, averageCostLoadingByItemId, averageCostErrorByItemId])
 
   // Reset to page 1 when filters change
   const handleFilterChange = () => {
@@ -164,8 +164,8 @@ export default function InventoryView({
     <div>
       {/* Search and Filter Section */}
       <div className="mb-6 bg-white rounded-lg shadow-md border p-4" style={{ borderColor: '#E77817' }}>
-        <div className={`grid grid-cols-1 gap-4 ${(isAdmin || canViewAllStores) && stores.length > 0 ? 'md:grid-cols-3' : 'md:grid-cols-2'}`}>
-          {(isAdmin || canViewAllStores) && stores.length > 0 && (
+        <div className={`grid grid-cols-1 gap-4 ${(canViewPrices || canViewAllStores) && stores.length > 0 ? 'md:grid-cols-3' : 'md:grid-cols-2'}`}>
+          {(canViewPrices || canViewAllStores) && stores.length > 0 && (
             <div>
               <label className="block text-sm font-medium text-gray-700 mb-1">
                 Filter by Store
@@ -271,12 +271,15 @@ export default function InventoryView({
                 <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                   Quantity
                 </th>
-                {isAdmin && (
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  In Transit
+                </th>
+                {canViewPrices && (
                   <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                     Average Cost
                   </th>
                 )}
-                {isAdmin && (
+                {canViewPrices && (
                   <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                     Total Value
                   </th>
@@ -289,15 +292,13 @@ export default function InventoryView({
             <tbody className="bg-white divide-y divide-gray-200">
               {filteredInventory.length === 0 ? (
                 <tr>
-                  <td colSpan={isAdmin ? 7 : 5} className="px-6 py-4 text-center text-sm text-gray-500">
+                  <td colSpan={canViewPrices ? 8 : 6} className="px-6 py-4 text-center text-sm text-gray-500">
                     No inventory found {selectedStoreId ? 'for this store' : ''}.
                   </td>
                 </tr>
               ) : (
                 paginatedInventory.map((item) => {
-                  const needsRestock = item.product?.restock_level !== undefined && 
-                                       item.product.restock_level > 0 && 
-                                       item.quantity <= item.product.restock_level
+                  const needsRestock = !!item.needsRestock
                   return (
                   <Fragment key={item.id}>
                     <tr 
@@ -316,10 +317,13 @@ export default function InventoryView({
                       <td className={`px-6 py-4 whitespace-nowrap text-sm font-semibold ${needsRestock ? 'text-red-800' : 'text-gray-900'}`}>
                         {item.quantity} {item.product?.unit || ''}
                         {needsRestock && (
-                          <span className="ml-2 text-xs font-bold text-red-600">(Low Stock)</span>
+                          <span className="ml-2 text-xs font-bold text-red-600" title={`Reorder point: ${item.reorder_point}`}>(Low Stock)</span>
                         )}
                       </td>
-                      {isAdmin && (
+                      <td className={`px-6 py-4 whitespace-nowrap text-sm ${needsRestock ? 'text-red-700' : 'text-gray-500'}`}>
+                        {Number(item.in_transit_quantity) > 0 ? `${item.in_transit_quantity} ${item.product?.unit || ''}` : '-'}
+                      </td>
+                      {canViewPrices && (
                         <td className={`px-6 py-4 whitespace-nowrap text-sm ${needsRestock ? 'text-red-700' : 'text-gray-900'}`}>
                           {averageCostLoadingByItemId[item.id]
                             ? 'Loading...'
@@ -328,7 +332,7 @@ export default function InventoryView({
                             : `PKR ${(averageCostByItemId[item.id] || 0).toFixed(2)}`}
                         </td>
                       )}
-                      {isAdmin && (
+                      {canViewPrices && (
                         <td className={`px-6 py-4 whitespace-nowrap text-sm font-medium ${needsRestock ? 'text-red-800' : 'text-gray-900'}`}>
                           {averageCostLoadingByItemId[item.id]
                             ? 'Loading...'
@@ -349,7 +353,7 @@ export default function InventoryView({
                     </tr>
                     {expandedItemId === item.id && (
                       <tr>
-                        <td colSpan={isAdmin ? 7 : 5} className="px-6 py-4 bg-gray-50">
+                        <td colSpan={canViewPrices ? 8 : 6} className="px-6 py-4 bg-gray-50">
                           {historyLoadingByItemId[item.id] ? (
                             <div className="text-sm text-gray-500">Loading movement history...</div>
                           ) : historyErrorByItemId[item.id] ? (
@@ -0,0 +1,710 @@
+'use client'
+
+import { Fragment, useMemo, useState } from 'react'
+import {
+  createIssueRequisition,
+  approveIssueRequisition,
+  rejectIssueRequisition,
+  cancelIssueRequisition,
+  fulfilIssueRequisition,
+} from '@/lib/actions/issueRequisitions'
+import { getErrorMessage } from '@/lib/utils/errors'
+import type { IssueRequisition, IssueRequisitionItem, IssueRequisitionStatus, Product, Store } from '@/lib/types'
+import type { AuthorizedProfile } from '@/lib/utils/permissions'
+
+const STATUS_LABELS: Record<IssueRequisitionStatus, string> = {
+  pending: 'Awaiting Approval',
+  approved: 'Approved',
+  rejected: 'Rejected',
+  cancelled: 'Cancelled',
+  partially_fulfilled: 'Partially Issued',
+  fulfilled: 'Issued',
+}
+
+const STATUS_CLASSES: Record<IssueRequisitionStatus, string> = {
+  pending: 'bg-yellow-100 text-yellow-800',
+  approved: 'bg-blue-100 text-blue-800',
+  rejected: 'bg-red-100 text-red-800',
+  cancelled: 'bg-gray-200 text-gray-600',
+  partially_fulfilled: 'bg-orange-100 text-orange-800',
+  fulfilled: 'bg-green-100 text-green-800',
+}
+
+const OPEN_STATUSES: IssueRequisitionStatus[] = ['pending', 'approved', 'partially_fulfilled']
+
+interface LineFormData {
+  product_id: string
+  quantity: string
+}
+
+const emptyLine = (): LineFormData => ({ product_id: '', quantity: '' })
+
+function getApprovedQuantity(item: IssueRequisitionItem) {
+  return Number(item.approved_quantity ?? item.requested_quantity)
+}
+
+function getOutstanding(item: IssueRequisitionItem) {
+  return Math.max(getApprovedQuantity(item) - Number(item.issued_quantity), 0)
+}
+
+export default function IssueRequisitionsList({
+  requisitions,
+  products,
+  stores,
+  userProfile,
+}: {
+  requisitions: IssueRequisition[]
+  products: Product[]
+  stores: Store[]
+  userProfile: AuthorizedProfile
+}) {
+  const sortedProducts = useMemo(
+    () => [...products].sort((a, b) => a.name.localeCompare(b.name)),
+    [products]
+  )
+
+  const canRequest = userProfile.permissions.includes('request_stock')
+  const canReview = userProfile.permissions.includes('approve_requisitions')
+
+  const requestingStores = useMemo(() => stores.filter((store) => store.type === 'project'), [stores])
+  const supplyingStores = useMemo(() => stores.filter((store) => store.type === 'central'), [stores])
+
+  const [statusFilter, setStatusFilter] = useState<'open' | 'all' | IssueRequisitionStatus>('open')
+  const [expandedRequisitions, setExpandedRequisitions] = useState<Record<string, boolean>>({})
+  const [showModal, setShowModal] = useState(false)
+  const [approvingRequisition, setApprovingRequisition] = useState<IssueRequisition | null>(null)
+  const [fulfillingRequisition, setFulfillingRequisition] = useState<IssueRequisition | null>(null)
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [formData, setFormData] = useState({
+    requesting_store_id: '',
+    supplying_store_id: '',
+    needed_by: '',
+    notes: '',
+  })
+  const [lines, setLines] = useState<LineFormData[]>([emptyLine()])
+  const [lineQuantities, setLineQuantities] = useState<Record<string, string>>({})
+  const [issueData, setIssueData] = useState({
+    issue_date: new Date().toISOString().split('T')[0],
+    notes: '',
+  })
+
+  const visibleRequisitions = useMemo(() => {
+    if (statusFilter === 'all') return requisitions
+    if (statusFilter === 'open') {
+      return requisitions.filter((requisition) => OPEN_STATUSES.includes(requisition.status))
+    }
+    return requisitions.filter((requisition) => requisition.status === statusFilter)
+  }, [requisitions, statusFilter])
+
+  const resetForm = () => {
+    setFormData({
+      requesting_store_id: requestingStores.length === 1 ? requestingStores[0].id : '',
+      supplying_store_id: supplyingStores.length === 1 ? supplyingStores[0].id : '',
+      needed_by: '',
+      notes: '',
+    })
+    setLines([emptyLine()])
+    setError(null)
+  }
+
+  const updateLine = (index: number, changes: Partial<LineFormData>) => {
+    setLines((prev) => prev.map((line, i) => (i === index ? { ...line, ...changes } : line)))
+  }
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setError(null)
+    setLoading(true)
+
+    if (!formData.requesting_store_id || !formData.supplying_store_id) {
+      setError('Please select the requesting and supplying stores')
+      setLoading(false)
+      return
+    }
+
+    const items = lines
+      .filter((line) => line.product_id || line.quantity)
+      .map((line) => ({
+        product_id: line.product_id,
+        quantity: parseFloat(line.quantity),
+      }))
+
+    if (items.length === 0) {
+      setError('Add at least one product line')
+      setLoading(false)
+      return
+    }
+
+    const result = await createIssueRequisition({
+      requesting_store_id: formData.requesting_store_id,
+      supplying_store_id: formData.supplying_store_id,
+      needed_by: formData.needed_by || undefined,
+      notes: formData.notes || undefined,
+      items,
+    })
+
+    if (result.error) {
+      setError(getErrorMessage(result.error))
+      setLoading(false)
+      return
+    }
+
+    window.location.reload()
+  }
+
+  const runAction = async (action: () => Promise<{ error: unknown }>) => {
+    const result = await action()
+    if (result.error) {
+      alert(getErrorMessage(result.error))
+      return
+    }
+    window.location.reload()
+  }
+
+  const handleReject = async (requisition: IssueRequisition) => {
+    const reason = prompt(`Reason for rejecting ${requisition.requisition_number} (optional):`)
+    if (reason === null) {
+      return
+    }
+    await runAction(() => rejectIssueRequisition(requisition.id, reason))
+  }
+
+  const handleCancel = async (requisition: IssueRequisition) => {
+    if (!confirm(`Are you sure you want to cancel ${requisition.requisition_number}?`)) {
+      return
+    }
+    await runAction(() => cancelIssueRequisition(requisition.id))
+  }
+
+  const openApproveModal = (requisition: IssueRequisition) => {
+    setApprovingRequisition(requisition)
+    const defaults: Record<string, string> = {}
+    ;(requisition.items || []).forEach((item) => {
+      defaults[item.id] = item.requested_quantity.toString()
+    })
+    setLineQuantities(defaults)
+    setError(null)
+  }
+
+  const handleApprove = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!approvingRequisition) return
+
+    setError(null)
+    setLoading(true)
+
+    const result = await approveIssueRequisition({
+      requisition_id: approvingRequisition.id,
+      lines: Object.entries(lineQuantities).map(([itemId, quantity]) => ({
+        requisition_item_id: itemId,
+        approved_quantity: quantity === '' ? 0 : parseFloat(quantity),
+      })),
+    })
+
+    if (result.error) {
+      setError(getErrorMessage(result.error))
+      setLoading(false)
+      return
+    }
+
+    window.location.reload()
+  }
+
+  const openFulfilModal = (requisition: IssueRequisition) => {
+    setFulfillingRequisition(requisition)
+    setIssueData({
+      issue_date: new Date().toISOString().split('T')[0],
+      notes: '',
+    })
+    const defaults: Record<string, string> = {}
+    ;(requisition.items || []).forEach((item) => {
+      const outstanding = getOutstanding(item)
+      defaults[item.id] = outstanding > 0 ? outstanding.toString() : ''
+    })
+    setLineQuantities(defaults)
+    setError(null)
+  }
+
+  const handleFulfil = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!fulfillingRequisition) return
+
+    setError(null)
+    setLoading(true)
+
+    const issueLines = Object.entries(lineQuantities)
+      .map(([itemId, quantity]) => ({
+        requisition_item_id: itemId,
+        quantity: parseFloat(quantity),
+      }))
+      .filter((line) => !isNaN(line.quantity) && line.quantity > 0)
+
+    const result = await fulfilIssueRequisition({
+      requisition_id: fulfillingRequisition.id,
+      issue_date: issueData.issue_date || undefined,
+      notes: issueData.notes || undefined,
+      lines: issueLines,
+    })
+
+    if (result.error) {
+      setError(getErrorMessage(result.error))
+      setLoading(false)
+      return
+    }
+
+    window.location.reload()
+  }
+
+  const closeLineModal = () => {
+    setApprovingRequisition(null)
+    setFulfillingRequisition(null)
+    setLineQuantities({})
+    setError(null)
+  }
+
+  const formatStore = (store?: Store) =>
+    store ? `${store.name}${store.type === 'project' && store.project ? ` (${store.project.name})` : ''}` : '-'
+
+  return (
+    <div>
+      <div className="mb-4 flex flex-wrap items-end justify-between gap-4">
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">
+            Status
+          </label>
+          <select
+            value={statusFilter}
+            onChange={(e) => setStatusFilter(e.target.value as 'open' | 'all' | IssueRequisitionStatus)}
+            className="rounded-md border border-gray-300 px-3 py-2 text-sm text-gray-900 bg-white focus:border-[#0067ac] focus:outline-none focus:ring-2 focus:ring-[#0067ac]"
+          >
+            <option value="open">Open Requisitions</option>
+            <option value="all">All Requisitions</option>
+            {(Object.keys(STATUS_LABELS) as IssueRequisitionStatus[]).map((status) => (
+              <option key={status} value={status}>
+                {STATUS_LABELS[status]}
+              </option>
+            ))}
+          </select>
+        </div>
+        {canRequest && (
+          <button
+            onClick={() => {
+              resetForm()
+              setShowModal(true)
+            }}
+            className="rounded-md px-4 py-2 text-sm font-semibold text-white transition-colors"
+            style={{ backgroundColor: '#0067ac' }}
+            onMouseEnter={(e) => {
+              e.currentTarget.style.backgroundColor = '#005a94'
+            }}
+            onMouseLeave={(e) => {
+              e.currentTarget.style.backgroundColor = '#0067ac'
+            }}
+          >
+            Request Material
+          </button>
+        )}
+      </div>
+
+      {showModal && (
+        <div className="fixed inset-0 z-50 flex items-center justify-center bg-black bg-opacity-50">
+          <div className="bg-white rounded-lg p-6 w-full max-w-3xl max-h-[90vh] overflow-y-auto">
+            <h3 className="text-xl font-bold mb-4" style={{ color: '#0067ac' }}>
+              New Requisition
+            </h3>
+            <form onSubmit={handleSubmit} className="space-y-4">
+              {error && (
+                <div className="rounded-md bg-red-50 p-3 border border-red-200">
+                  <div className="text-sm text-red-800">{error}</div>
+                </div>
+              )}
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Requesting Store *
+                  </label>
+                  <select
+                    required
+                    value={formData.requesting_store_id}
+                    onChange={(e) => setFormData({ ...formData, requesting_store_id: e.target.value })}
+                    className="w-full rounded-md border border-gray-300 px-3 py-2 text-sm text-gray-900 bg-white focus:border-[#0067ac] focus:outline-none focus:ring-2 focus:ring-[#0067ac]"
+                  >
+                    <option value="">Select a store</option>
+                    {requestingStores.map((store) => (
+                      <option key={store.id} value={store.id}>
+                        {formatStore(store)}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Request From *
+                  </label>
+                  <select
+                    required
+                    value={formData.supplying_store_id}
+                    onChange={(e) => setFormData({ ...formData, supplying_store_id: e.target.value })}
+                    className="w-full rounded-md border border-gray-300 px-3 py-2 text-sm text-gray-900 bg-white focus:border-[#0067ac] focus:outline-none focus:ring-2 focus:ring-[#0067ac]"
+                  >
+                    <option value="">Select a central store</option>
+                    {supplyingStores.map((store) => (
+                      <option key={store.id} value={store.id}>
+                        {store.name}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Needed By
+                  </label>
+                  <input
+                    type="date"
+                    value={formData.needed_by}
+                    onChange={(e) => setFormData({ ...formData, needed_by: e.target.value })}
+                    className="w-full rounded-md border border-gray-300 px-3 py-2 text-sm text-gray-900 focus:border-[#0067ac] focus:outline-none focus:ring-2 focus:ring-[#0067ac]"
+                  />
+                </div>
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Products *
+                </label>
+                <div className="space-y-2">
+                  {lines.map((line, index) => (
+                    <div key={index} className="grid grid-cols-12 gap-2 items-center">
+                      <select
+                        value={line.product_id}
+                        onChange={(e) => updateLine(index, { product_id: e.target.value })}
+                        className="col-span-8 rounded-md border border-gray-300 px-3 py-2 text-sm text-gray-900 bg-white focus:border-[#0067ac] focus:outline-none focus:ring-2 focus:ring-[#0067ac]"
+                      >
+                        <option value="">Select a product</option>
+                        {sortedProducts.map((product) => (
+                          <option key={product.id} value={product.id}>
+                            {product.name}{product.category?.name ? ` (${product.category.name})` : ''} • {product.unit}
+                          </option>
+                        ))}
+                      </select>
+                      <input
+                        type="number"
+                        step="0.01"
+                        min="0.01"
+                        value={line.quantity}
+                        onChange={(e) => updateLine(index, { quantity: e.target.value })}
+                        placeholder="Qty"
+                        className="col-span-3 rounded-md border border-gray-300 px-3 py-2 text-sm text-gray-900 placeholder-gray-500 focus:border-[#0067ac] focus:outline-none focus:ring-2 focus:ring-[#0067ac]"
+                      />
+                      <button
+                        type="button"
+                        onClick={() => setLines((prev) => (prev.length > 1 ? prev.filter((_, i) => i !== index) : [emptyLine()]))}
+                        className="col-span-1 text-sm text-red-600 hover:text-red-900"
+                      >
+                        Remove
+                      </button>
+                    </div>
+                  ))}
+                </div>
+                <button
+                  type="button"
+                  onClick={() => setLines((prev) => [...prev, emptyLine()])}
+                  className="mt-2 text-sm text-[#0067ac] hover:text-[#005a94] underline"
+                >
+                  Add Line
+                </button>
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Notes
+                </label>
+                <textarea
+                  value={formData.notes}
+                  onChange={(e) => setFormData({ ...formData, notes: e.target.value })}
+                  rows={2}
+                  className="w-full rounded-md border border-gray-300 px-3 py-2 text-sm text-gray-900 placeholder-gray-500 focus:border-[#0067ac] focus:outline-none focus:ring-2 focus:ring-[#0067ac]"
+                  placeholder="Optional notes, e.g. where on site the material is needed"
+                />
+              </div>
+
+              <div className="flex gap-3 pt-4">
+                <button
+                  type="button"
+                  onClick={() => {
+                    setShowModal(false)
+                    resetForm()
+                  }}
+                  className="flex-1 rounded-md border border-gray-300 bg-white px-4 py-2 text-sm font-medium text-gray-700 hover:bg-gray-50"
+                >
+                  Cancel
+                </button>
+                <button
+                  type="submit"
+                  disabled={loading}
+                  className="flex-1 rounded-md px-4 py-2 text-sm font-semibold text-white disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                  style={{ backgroundColor: '#0067ac' }}
+                >
+                  {loading ? 'Submitting...' : 'Submit Requisition'}
+                </button>
+              </div>
+            </form>
+          </div>
+        </div>
+      )}
+
+      {(approvingRequisition || fulfillingRequisition) && (
+        <div className="fixed inset-0 z-50 flex items-center justify-center bg-black bg-opacity-50">
+          <div className="bg-white rounded-lg p-6 w-full max-w-2xl max-h-[90vh] overflow-y-auto">
+            <h3 className="text-xl font-bold mb-4" style={{ color: '#0067ac' }}>
+              {approvingRequisition
+                ? `Approve ${approvingRequisition.requisition_number}`
+                : `Issue Stock - ${fulfillingRequisition?.requisition_number}`}
+            </h3>
+            <form onSubmit={approvingRequisition ? handleApprove : handleFulfil} className="space-y-4">
+              {error && (
+                <div className="rounded-md bg-red-50 p-3 border border-red-200">
+                  <div className="text-sm text-red-800">{error}</div>
+                </div>
+              )}
+              <table className="min-w-full divide-y divide-gray-200 text-sm">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Product</th>
+                    <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase">Requested</th>
+                    {fulfillingRequisition && (
+                      <>
+                        <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase">Approved</th>
+                        <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase">Issued</th>
+                      </>
+                    )}
+                    <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase">
+                      {approvingRequisition ? 'Approve' : 'Issue Now'}
+                    </th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-200">
+                  {((approvingRequisition || fulfillingRequisition)?.items || []).map((item) => {
+                    const max = approvingRequisition ? Number(item.requested_quantity) : getOutstanding(item)
+                    return (
+                      <tr key={item.id}>
+                        <td className="px-3 py-2 text-gray-900">{item.product?.name || '-'}</td>
+                        <td className="px-3 py-2 text-right text-gray-900">{item.requested_quantity} {item.product?.unit || ''}</td>
+                        {fulfillingRequisition && (
+                          <>
+                            <td className="px-3 py-2 text-right text-gray-900">{getApprovedQuantity(item)}</td>
+                            <td className="px-3 py-2 text-right text-gray-500">{item.issued_quantity}</td>
+                          </>
+                        )}
+                        <td className="px-3 py-2 text-right">
+                          <input
+                            type="number"
+                            step="0.01"
+                            min="0"
+                            max={max}
+                            disabled={max <= 0}
+                            value={lineQuantities[item.id] ?? ''}
+                            onChange={(e) => setLineQuantities({ ...lineQuantities, [item.id]: e.target.value })}
+                            className="w-28 rounded-md border border-gray-300 px-2 py-1 text-sm text-gray-900 text-right focus:border-[#0067ac] focus:outline-none focus:ring-2 focus:ring-[#0067ac] disabled:bg-gray-100"
+                          />
+                        </td>
+                      </tr>
+                    )
+                  })}
+                </tbody>
+              </table>
+              {approvingRequisition && (
+                <p className="text-xs text-gray-500">
+                  Lower a quantity to approve part of a line, or set it to 0 to decline that product.
+                </p>
+              )}
+              {fulfillingRequisition && (
+                <>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">
+                      Issue Date *
+                    </label>
+                    <input
+                      type="date"
+                      required
+                      value={issueData.issue_date}
+                      onChange={(e) => setIssueData({ ...issueData, issue_date: e.target.value })}
+                      className="w-full rounded-md border border-gray-300 px-3 py-2 text-sm text-gray-900 focus:border-[#0067ac] focus:outline-none focus:ring-2 focus:ring-[#0067ac]"
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">
+                      Notes
+                    </label>
+                    <textarea
+                      value={issueData.notes}
+                      onChange={(e) => setIssueData({ ...issueData, notes: e.target.value })}
+                      rows={2}
+                      className="w-full rounded-md border border-gray-300 px-3 py-2 text-sm text-gray-900 placeholder-gray-500 focus:border-[#0067ac] focus:outline-none focus:ring-2 focus:ring-[#0067ac]"
+                      placeholder="Optional notes"
+                    />
+                  </div>
+                </>
+              )}
+              <div className="flex gap-3 pt-4">
+                <button
+                  type="button"
+                  onClick={closeLineModal}
+                  className="flex-1 rounded-md border border-gray-300 bg-white px-4 py-2 text-sm font-medium text-gray-700 hover:bg-gray-50"
+                >
+                  Cancel
+                </button>
+                <button
+                  type="submit"
+                  disabled={loading}
+                  className="flex-1 rounded-md px-4 py-2 text-sm font-semibold text-white disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                  style={{ backgroundColor: '#0067ac' }}
+                >
+                  {approvingRequisition
+                    ? (loading ? 'Approving...' : 'Approve Requisition')
+                    : (loading ? 'Issuing...' : 'Issue Stock')}
+                </button>
+              </div>
+            </form>
+          </div>
+        </div>
+      )}
+
+      <div className="rounded-lg bg-white shadow-md border overflow-hidden" style={{ borderColor: '#E77817' }}>
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200">
+          <thead className="bg-gray-50">
+            <tr>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Requisition
+              </th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Requested
+              </th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Needed By
+              </th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Project Store
+              </th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Central Store
+              </th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Status
+              </th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Actions
+              </th>
+            </tr>
+          </thead>
+          <tbody className="bg-white divide-y divide-gray-200">
+            {visibleRequisitions.length === 0 ? (
+              <tr>
+                <td colSpan={7} className="px-6 py-4 text-center text-sm text-gray-500">
+                  No requisitions found.
+                </td>
+              </tr>
+            ) : (
+              visibleRequisitions.map((requisition) => {
+                const isExpanded = expandedRequisitions[requisition.id]
+                const canFulfil = canReview && (requisition.status === 'approved' || requisition.status === 'partially_fulfilled')
+                const canCancel = canRequest && (requisition.status === 'pending' || requisition.status === 'approved')
+
+                return (
+                  <Fragment key={requisition.id}>
+                    <tr>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">
+                        <button
+                          onClick={() => setExpandedRequisitions({ ...expandedRequisitions, [requisition.id]: !isExpanded })}
+                          className="text-[#0067ac] hover:text-[#005a94]"
+                        >
+                          {isExpanded ? '▾' : '▸'} {requisition.requisition_number}
+                        </button>
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                        {new Date(requisition.created_at).toLocaleDateString()}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                        {requisition.needed_by ? new Date(requisition.needed_by).toLocaleDateString() : '-'}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                        {formatStore(requisition.requesting_store)}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                        {requisition.supplying_store?.name || '-'}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm">
+                        <span className={`inline-flex rounded-full px-2 py-1 text-xs font-semibold ${STATUS_CLASSES[requisition.status]}`}>
+                          {STATUS_LABELS[requisition.status]}
+                        </span>
+                        {requisition.status === 'rejected' && requisition.rejection_reason && (
+                          <p className="mt-1 text-xs text-red-600">{requisition.rejection_reason}</p>
+                        )}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm font-medium space-x-3">
+                        {canReview && requisition.status === 'pending' && (
+                          <>
+                            <button onClick={() => openApproveModal(requisition)} className="text-green-600 hover:text-green-900">
+                              Approve
+                            </button>
+                            <button onClick={() => handleReject(requisition)} className="text-red-600 hover:text-red-900">
+                              Reject
+                            </button>
+                          </>
+                        )}
+                        {canFulfil && (
+                          <button onClick={() => openFulfilModal(requisition)} className="text-[#E77817] hover:text-[#d66a14]">
+                            Issue
+                          </button>
+                        )}
+                        {canCancel && (
+                          <button onClick={() => handleCancel(requisition)} className="text-gray-600 hover:text-gray-900">
+                            Cancel
+                          </button>
+                        )}
+                      </td>
+                    </tr>
+                    {isExpanded && (
+                      <tr>
+                        <td colSpan={7} className="px-6 py-4 bg-gray-50">
+                          <table className="min-w-full divide-y divide-gray-200 text-xs">
+                            <thead>
+                              <tr>
+                                <th className="px-3 py-2 text-left font-medium text-gray-500 uppercase">Product</th>
+                                <th className="px-3 py-2 text-right font-medium text-gray-500 uppercase">Requested</th>
+                                <th className="px-3 py-2 text-right font-medium text-gray-500 uppercase">Approved</th>
+                                <th className="px-3 py-2 text-right font-medium text-gray-500 uppercase">Issued</th>
+                                <th className="px-3 py-2 text-right font-medium text-gray-500 uppercase">Outstanding</th>
+                              </tr>
+                            </thead>
+                            <tbody className="divide-y divide-gray-200">
+                              {(requisition.items || []).map((item) => (
+                                <tr key={item.id}>
+                                  <td className="px-3 py-2 text-gray-900">{item.product?.name || '-'}</td>
+                                  <td className="px-3 py-2 text-right text-gray-900">{item.requested_quantity} {item.product?.unit || ''}</td>
+                                  <td className="px-3 py-2 text-right text-gray-900">{item.approved_quantity ?? '-'}</td>
+                                  <td className="px-3 py-2 text-right text-gray-900">{item.issued_quantity}</td>
+                                  <td className="px-3 py-2 text-right text-gray-900">
+                                    {item.approved_quantity === null ? '-' : getOutstanding(item)}
+                                  </td>
+                                </tr>
+                              ))}
+                            </tbody>
+                          </table>
+                          {requisition.notes && <p className="mt-2 text-xs text-gray-500">Notes: {requisition.notes}</p>}
+                        </td>
+                      </tr>
+                    )}
+                  </Fragment>
+                )
+              })
+            )}
+          </tbody>
+        </table>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,110 @@
+'use client'
+
+import { deleteIssueReturn } from '@/lib/actions/issueReturns'
+import { getErrorMessage } from '@/lib/utils/errors'
+import type { IssueReturn } from '@/lib/types'
+
+export default function IssueReturnsList({
+  issueReturns,
+  canDelete,
+}: {
+  issueReturns: IssueReturn[]
+  canDelete: boolean
+}) {
+  const handleVoid = async (issueReturn: IssueReturn) => {
+    if (!confirm(`Are you sure you want to void ${issueReturn.return_number}? The returned stock will be taken back out of the store.`)) {
+      return
+    }
+
+    const result = await deleteIssueReturn(issueReturn.id)
+    if (result.error) {
+      alert(getErrorMessage(result.error))
+      return
+    }
+    window.location.reload()
+  }
+
+  return (
+    <div className="rounded-lg bg-white shadow-md border overflow-hidden" style={{ borderColor: '#E77817' }}>
+      <div className="overflow-x-auto">
+        <table className="min-w-full divide-y divide-gray-200">
+        <thead className="bg-gray-50">
+          <tr>
+            <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+              Return
+            </th>
+            <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+              Date
+            </th>
+            <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+              Store
+            </th>
+            <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+              Product
+            </th>
+            <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+              Returned By
+            </th>
+            <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+              Quantity
+            </th>
+            <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+              Original Issue
+            </th>
+            {canDelete && (
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Actions
+              </th>
+            )}
+          </tr>
+        </thead>
+        <tbody className="bg-white divide-y divide-gray-200">
+          {issueReturns.length === 0 ? (
+            <tr>
+              <td colSpan={canDelete ? 8 : 7} className="px-6 py-4 text-center text-sm text-gray-500">
+                No returns recorded.
+              </td>
+            </tr>
+          ) : (
+            issueReturns.map((issueReturn) => (
+              <tr key={issueReturn.id}>
+                <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">
+                  {issueReturn.return_number}
+                </td>
+                <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                  {new Date(issueReturn.return_date).toLocaleDateString()}
+                </td>
+                <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                  {issueReturn.store?.name || '-'}
+                </td>
+                <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                  {issueReturn.product?.name || '-'}
+                </td>
+                <td className="px-6 py-4 text-sm text-gray-900">
+                  {issueReturn.returned_by_name || '-'}
+                  {issueReturn.notes && <p className="mt-1 text-xs text-gray-500">{issueReturn.notes}</p>}
+                </td>
+                <td className="px-6 py-4 whitespace-nowrap text-sm text-right font-semibold text-green-600">
+                  +{issueReturn.quantity} {issueReturn.product?.unit || ''}
+                </td>
+                <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                  {issueReturn.issue
+                    ? `${issueReturn.issue.quantity} issued on ${new Date(issueReturn.issue.issue_date).toLocaleDateString()}`
+                    : '-'}
+                </td>
+                {canDelete && (
+                  <td className="px-6 py-4 whitespace-nowrap text-sm font-medium">
+                    <button onClick={() => handleVoid(issueReturn)} className="text-red-600 hover:text-red-900">
+                      Void
+                    </button>
+                  </td>
+                )}
+              </tr>
+            ))
+          )}
+        </tbody>
+      </table>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,520 @@
+'use client'
+
+import { Fragment, useMemo, useState } from 'react'
+import { createIssueVoucher, deleteIssueVoucher } from '@/lib/actions/issueVouchers'
+import { getInventory } from '@/lib/actions/inventory'
+import { getErrorMessage } from '@/lib/utils/errors'
+import type { InventoryItem, IssueVoucher, Store } from '@/lib/types'
+
+interface LineFormData {
+  product_id: string
+  quantity: string
+}
+
+const emptyLine = (): LineFormData => ({ product_id: '', quantity: '' })
+
+export default function IssueVouchersList({
+  vouchers,
+  fromStores,
+  toStores,
+  canDelete,
+}: {
+  vouchers: IssueVoucher[]
+  fromStores: Store[]
+  toStores: Store[]
+  canDelete: boolean
+}) {
+  const [expandedVouchers, setExpandedVouchers] = useState<Record<string, boolean>>({})
+  const [showModal, setShowModal] = useState(false)
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [availableInventory, setAvailableInventory] = useState<InventoryItem[]>([])
+  const [formData, setFormData] = useState({
+    from_store_id: fromStores[0]?.id ?? '',
+    to_store_id: '',
+    issued_to_name: '',
+    issue_date: new Date().toISOString().split('T')[0],
+    driver_name: '',
+    driver_phone: '',
+    vehicle_number: '',
+    notes: '',
+  })
+  const [lines, setLines] = useState<LineFormData[]>([emptyLine()])
+
+  const selectedFromStore = fromStores.find((store) => store.id === formData.from_store_id)
+  const isCentralStore = selectedFromStore?.type === 'central'
+
+  const destinationStores = useMemo(() => {
+    if (!selectedFromStore) return []
+    return toStores.filter((store) => store.id !== selectedFromStore.id && store.type !== selectedFromStore.type)
+  }, [selectedFromStore, toStores])
+
+  const loadInventory = async (storeId: string) => {
+    if (!storeId) {
+      setAvailableInventory([])
+      return
+    }
+    const { data } = await getInventory(storeId)
+    setAvailableInventory(data || [])
+  }
+
+  const stockItems = useMemo(
+    () =>
+      availableInventory
+        .filter((item) => Number(item.quantity) > 0 && item.product)
+        .sort((a, b) => (a.product?.name || '').localeCompare(b.product?.name || '')),
+    [availableInventory]
+  )
+
+  const getAvailable = (productId: string) =>
+    Number(availableInventory.find((item) => item.product_id === productId)?.quantity ?? 0)
+
+  const resetForm = () => {
+    setFormData({
+      from_store_id: fromStores[0]?.id ?? '',
+      to_store_id: '',
+      issued_to_name: '',
+      issue_date: new Date().toISOString().split('T')[0],
+      driver_name: '',
+      driver_phone: '',
+      vehicle_number: '',
+      notes: '',
+    })
+    setLines([emptyLine()])
+    setError(null)
+  }
+
+  const updateLine = (index: number, changes: Partial<LineFormData>) => {
+    setLines((prev) => prev.map((line, i) => (i === index ? { ...line, ...changes } : line)))
+  }
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setError(null)
+    setLoading(true)
+
+    if (!formData.from_store_id) {
+      setError('Please select a store to issue from')
+      setLoading(false)
+      return
+    }
+
+    if (isCentralStore && !formData.to_store_id) {
+      setError('Please select a destination store')
+      setLoading(false)
+      return
+    }
+
+    if (!isCentralStore && !formData.to_store_id && !formData.issued_to_name.trim()) {
+      setError('Please enter the name of the person receiving the items')
+      setLoading(false)
+      return
+    }
+
+    const voucherLines = lines
+      .filter((line) => line.product_id || line.quantity)
+      .map((line) => ({
+        product_id: line.product_id,
+        quantity: parseFloat(line.quantity),
+      }))
+
+    if (voucherLines.length === 0) {
+      setError('Add at least one product line')
+      setLoading(false)
+      return
+    }
+
+    // Early feedback only; the database re-checks all lines with stock locked
+    const requested = new Map<string, number>()
+    for (const line of voucherLines) {
+      requested.set(line.product_id, (requested.get(line.product_id) ?? 0) + (line.quantity || 0))
+    }
+    for (const [productId, quantity] of requested) {
+      const available = getAvailable(productId)
+      if (quantity > available) {
+        const product = availableInventory.find((item) => item.product_id === productId)?.product
+        setError(`Insufficient inventory for ${product?.name || 'product'}. Available: ${available} ${product?.unit || ''}`)
+        setLoading(false)
+        return
+      }
+    }
+
+    const result = await createIssueVoucher({
+      from_store_id: formData.from_store_id,
+      to_store_id: formData.to_store_id || null,
+      issued_to_name: !formData.to_store_id ? formData.issued_to_name.trim() : undefined,
+      issue_date: formData.issue_date || undefined,
+      driver_name: formData.driver_name || undefined,
+      driver_phone: formData.driver_phone || undefined,
+      vehicle_number: formData.vehicle_number || undefined,
+      notes: formData.notes || undefined,
+      lines: voucherLines,
+    })
+
+    if (result.error || !result.data) {
+      setError(getErrorMessage(result.error))
+      setLoading(false)
+      return
+    }
+
+    window.location.href = `/issues/vouchers/${result.data.id}/gate-pass`
+  }
+
+  const handleDelete = async (voucher: IssueVoucher) => {
+    if (!confirm(`Are you sure you want to delete ${voucher.voucher_number}? All ${voucher.lines?.length ?? 0} lines will be returned to ${voucher.from_store?.name || 'the source store'}.`)) {
+      return
+    }
+
+    const result = await deleteIssueVoucher(voucher.id)
+    if (result.error) {
+      alert(getErrorMessage(result.error))
+      return
+    }
+    window.location.reload()
+  }
+
+  return (
+    <div>
+      {fromStores.length > 0 && (
+        <div className="mb-4 flex justify-end">
+          <button
+            onClick={() => {
+              resetForm()
+              loadInventory(fromStores[0]?.id ?? '')
+              setShowModal(true)
+            }}
+            className="rounded-md px-4 py-2 text-sm font-semibold text-white transition-colors"
+            style={{ backgroundColor: '#0067ac' }}
+            onMouseEnter={(e) => {
+              e.currentTarget.style.backgroundColor = '#005a94'
+            }}
+            onMouseLeave={(e) => {
+              e.currentTarget.style.backgroundColor = '#0067ac'
+            }}
+          >
+            New Issue Voucher
+          </button>
+        </div>
+      )}
+
+      {showModal && (
+        <div className="fixed inset-0 z-50 flex items-center justify-center bg-black bg-opacity-50">
+          <div className="bg-white rounded-lg p-6 w-full max-w-3xl max-h-[90vh] overflow-y-auto">
+            <h3 className="text-xl font-bold mb-4" style={{ color: '#0067ac' }}>
+              New Issue Voucher
+            </h3>
+            <form onSubmit={handleSubmit} className="space-y-4">
+              {error && (
+                <div className="rounded-md bg-red-50 p-3 border border-red-200">
+                  <div className="text-sm text-red-800">{error}</div>
+                </div>
+              )}
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    From Store *
+                  </label>
+                  <select
+                    required
+                    value={formData.from_store_id}
+                    onChange={(e) => {
+                      setFormData({ ...formData, from_store_id: e.target.value, to_store_id: '' })
+                      setLines([emptyLine()])
+                      loadInventory(e.target.value)
+                    }}
+                    className="w-full rounded-md border border-gray-300 px-3 py-2 text-sm text-gray-900 bg-white focus:border-[#0067ac] focus:outline-none focus:ring-2 focus:ring-[#0067ac]"
+                  >
+                    {fromStores.map((store) => (
+                      <option key={store.id} value={store.id}>
+                        {store.name}{store.type === 'project' && store.project ? ` (${store.project.name})` : ''}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+                {destinationStores.length > 0 && (
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">
+                      {isCentralStore ? 'To Project Store *' : 'Return to Central Store'}
+                    </label>
+                    <select
+                      required={isCentralStore}
+                      value={formData.to_store_id}
+                      onChange={(e) => setFormData({ ...formData, to_store_id: e.target.value })}
+                      className="w-full rounded-md border border-gray-300 px-3 py-2 text-sm text-gray-900 bg-white focus:border-[#0067ac] focus:outline-none focus:ring-2 focus:ring-[#0067ac]"
+                    >
+                      <option value="">{isCentralStore ? 'Select a store' : 'Issue to a person instead'}</option>
+                      {destinationStores.map((store) => (
+                        <option key={store.id} value={store.id}>
+                          {store.name}{store.type === 'project' && store.project ? ` (${store.project.name})` : ''}
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+                )}
+                {!isCentralStore && !formData.to_store_id && (
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">
+                      Issued To *
+                    </label>
+                    <input
+                      type="text"
+                      value={formData.issued_to_name}
+                      onChange={(e) => setFormData({ ...formData, issued_to_name: e.target.value })}
+                      className="w-full rounded-md border border-gray-300 px-3 py-2 text-sm text-gray-900 placeholder-gray-500 focus:border-[#0067ac] focus:outline-none focus:ring-2 focus:ring-[#0067ac]"
+                      placeholder="Name of person or team"
+                    />
+                  </div>
+                )}
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Issue Date *
+                  </label>
+                  <input
+                    type="date"
+                    required
+                    value={formData.issue_date}
+                    onChange={(e) => setFormData({ ...formData, issue_date: e.target.value })}
+                    className="w-full rounded-md border border-gray-300 px-3 py-2 text-sm text-gray-900 focus:border-[#0067ac] focus:outline-none focus:ring-2 focus:ring-[#0067ac]"
+                  />
+                </div>
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Products *
+                </label>
+                <div className="space-y-2">
+                  {lines.map((line, index) => (
+                    <div key={index} className="grid grid-cols-12 gap-2 items-center">
+                      <select
+                        value={line.product_id}
+                        onChange={(e) => updateLine(index, { product_id: e.target.value })}
+                        className="col-span-7 rounded-md border border-gray-300 px-3 py-2 text-sm text-gray-900 bg-white focus:border-[#0067ac] focus:outline-none focus:ring-2 focus:ring-[#0067ac]"
+                      >
+                        <option value="">Select a product</option>
+                        {stockItems.map((item) => (
+                          <option key={item.product_id} value={item.product_id}>
+                            {item.product?.name} • {Number(item.quantity)} {item.product?.unit} available
+                          </option>
+                        ))}
+                      </select>
+                      <input
+                        type="number"
+                        step="0.01"
+                        min="0.01"
+                        max={line.product_id ? getAvailable(line.product_id) : undefined}
+                        value={line.quantity}
+                        onChange={(e) => updateLine(index, { quantity: e.target.value })}
+                        placeholder="Qty"
+                        className="col-span-4 rounded-md border border-gray-300 px-3 py-2 text-sm text-gray-900 placeholder-gray-500 focus:border-[#0067ac] focus:outline-none focus:ring-2 focus:ring-[#0067ac]"
+                      />
+                      <button
+                        type="button"
+                        onClick={() => setLines((prev) => (prev.length > 1 ? prev.filter((_, i) => i !== index) : [emptyLine()]))}
+                        className="col-span-1 text-sm text-red-600 hover:text-red-900"
+                      >
+                        Remove
+                      </button>
+                    </div>
+                  ))}
+                </div>
+                <button
+                  type="button"
+                  onClick={() => setLines((prev) => [...prev, emptyLine()])}
+                  className="mt-2 text-sm text-[#0067ac] hover:text-[#005a94] underline"
+                >
+                  Add Line
+                </button>
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Transport
+                </label>
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+                  <input
+                    type="text"
+                    value={formData.driver_name}
+                    onChange={(e) => setFormData({ ...formData, driver_name: e.target.value })}
+                    className="rounded-md border border-gray-300 px-3 py-2 text-sm text-gray-900 placeholder-gray-500 focus:border-[#0067ac] focus:outline-none focus:ring-2 focus:ring-[#0067ac]"
+                    placeholder="Driver name"
+                  />
+                  <input
+                    type="text"
+                    value={formData.driver_phone}
+                    onChange={(e) => setFormData({ ...formData, driver_phone: e.target.value })}
+                    className="rounded-md border border-gray-300 px-3 py-2 text-sm text-gray-900 placeholder-gray-500 focus:border-[#0067ac] focus:outline-none focus:ring-2 focus:ring-[#0067ac]"
+                    placeholder="Driver phone"
+                  />
+                  <input
+                    type="text"
+                    value={formData.vehicle_number}
+                    onChange={(e) => setFormData({ ...formData, vehicle_number: e.target.value })}
+                    className="rounded-md border border-gray-300 px-3 py-2 text-sm text-gray-900 placeholder-gray-500 focus:border-[#0067ac] focus:outline-none focus:ring-2 focus:ring-[#0067ac]"
+                    placeholder="Vehicle number"
+                  />
+                </div>
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Notes
+                </label>
+                <textarea
+                  value={formData.notes}
+                  onChange={(e) => setFormData({ ...formData, notes: e.target.value })}
+                  rows={2}
+                  className="w-full rounded-md border border-gray-300 px-3 py-2 text-sm text-gray-900 placeholder-gray-500 focus:border-[#0067ac] focus:outline-none focus:ring-2 focus:ring-[#0067ac]"
+                  placeholder="Optional notes"
+                />
+              </div>
+
+              <div className="flex gap-3 pt-4">
+                <button
+                  type="button"
+                  onClick={() => {
+                    setShowModal(false)
+                    resetForm()
+                  }}
+                  className="flex-1 rounded-md border border-gray-300 bg-white px-4 py-2 text-sm font-medium text-gray-700 hover:bg-gray-50"
+                >
+                  Cancel
+                </button>
+                <button
+                  type="submit"
+                  disabled={loading}
+                  className="flex-1 rounded-md px-4 py-2 text-sm font-semibold text-white disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                  style={{ backgroundColor: '#0067ac' }}
+                >
+                  {loading ? 'Issuing...' : 'Issue & Print Gate Pass'}
+                </button>
+              </div>
+            </form>
+          </div>
+        </div>
+      )}
+
+      <div className="rounded-lg bg-white shadow-md border overflow-hidden" style={{ borderColor: '#E77817' }}>
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200">
+          <thead className="bg-gray-50">
+            <tr>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Voucher
+              </th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Date
+              </th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                From
+              </th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                To
+              </th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Vehicle
+              </th>
+              <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Lines
+              </th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Actions
+              </th>
+            </tr>
+          </thead>
+          <tbody className="bg-white divide-y divide-gray-200">
+            {vouchers.length === 0 ? (
+              <tr>
+                <td colSpan={7} className="px-6 py-4 text-center text-sm text-gray-500">
+                  No issue vouchers found.
+                </td>
+              </tr>
+            ) : (
+              vouchers.map((voucher) => {
+                const isExpanded = expandedVouchers[voucher.id]
+
+                return (
+                  <Fragment key={voucher.id}>
+                    <tr>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">
+                        <button
+                          onClick={() => setExpandedVouchers({ ...expandedVouchers, [voucher.id]: !isExpanded })}
+                          className="text-[#0067ac] hover:text-[#005a94]"
+                        >
+                          {isExpanded ? '▾' : '▸'} {voucher.voucher_number}
+                        </button>
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                        {new Date(voucher.issue_date).toLocaleDateString()}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                        {voucher.from_store?.name || '-'}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                        {voucher.to_store?.name || voucher.issued_to_name || '-'}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                        {voucher.vehicle_number || '-'}
+                        {voucher.driver_name && <div className="text-xs text-gray-500">{voucher.driver_name}</div>}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-right text-gray-900">
+                        {voucher.lines?.length ?? 0}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm font-medium space-x-3">
+                        <a
+                          href={`/issues/vouchers/${voucher.id}/gate-pass`}
+                          target="_blank"
+                          rel="noopener noreferrer"
+                          className="text-[#0067ac] hover:text-[#005a94]"
+                        >
+                          Gate Pass
+                        </a>
+                        {canDelete && (
+                          <button onClick={() => handleDelete(voucher)} className="text-red-600 hover:text-red-900">
+                            Delete
+                          </button>
+                        )}
+                      </td>
+                    </tr>
+                    {isExpanded && (
+                      <tr>
+                        <td colSpan={7} className="px-6 py-4 bg-gray-50">
+                          <table className="min-w-full divide-y divide-gray-200 text-xs">
+                            <thead>
+                              <tr>
+                                <th className="px-3 py-2 text-left font-medium text-gray-500 uppercase">Product</th>
+                                <th className="px-3 py-2 text-right font-medium text-gray-500 uppercase">Quantity</th>
+                                <th className="px-3 py-2 text-left font-medium text-gray-500 uppercase">Status</th>
+                              </tr>
+                            </thead>
+                            <tbody className="divide-y divide-gray-200">
+                              {(voucher.lines || []).map((line) => (
+                                <tr key={line.id}>
+                                  <td className="px-3 py-2 text-gray-900">{line.product?.name || '-'}</td>
+                                  <td className="px-3 py-2 text-right text-gray-900">{line.quantity} {line.product?.unit || ''}</td>
+                                  <td className="px-3 py-2 text-gray-900">
+                                    {line.transfer_status === 'in_transit'
+                                      ? 'In transit'
+                                      : line.transfer_status === 'received'
+                                        ? `Received ${line.received_quantity ?? line.quantity}`
+                                        : 'Issued'}
+                                  </td>
+                                </tr>
+                              ))}
+                            </tbody>
+                          </table>
+                          {voucher.notes && <p className="mt-2 text-xs text-gray-500">Notes: {voucher.notes}</p>}
+                        </td>
+                      </tr>
+                    )}
+                  </Fragment>
+                )
+              })
+            )}
+          </tbody>
+        </table>
+        </div>
+      </div>
+    </div>
+  )
+}
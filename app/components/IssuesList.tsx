@@ -1,10 +1,15 @@
 'use client'
 
 import { useState, useEffect, useMemo, useRef } from 'react'
-import { createIssue, getIssues } from '@/lib/actions/issues'
+import { createIssue, getIssues, receiveIssueTransfer, updateIssue, deleteIssue } from '@/lib/actions/issues'
+import { createIssueReturn } from '@/lib/actions/issueReturns'
 import { getInventory } from '@/lib/actions/inventory'
 import { getErrorMessage } from '@/lib/utils/errors'
-import type { Issue, Product, Store, UserProfile } from '@/lib/types'
+import IssueRequisitionsList from '@/app/components/IssueRequisitionsList'
+import IssueReturnsList from '@/app/components/IssueReturnsList'
+import IssueVouchersList from '@/app/components/IssueVouchersList'
+import type { Issue, IssueRequisition, IssueReturn, IssueVoucher, Product, Store } from '@/lib/types'
+import type { AuthorizedProfile } from '@/lib/utils/permissions'
 
 interface StoresData {
   fromStores: Store[]
@@ -13,18 +18,25 @@ interface StoresData {
 
 export default function IssuesList({ 
   initialIssues, 
+  vouchers,
+  requisitions,
+  issueReturns,
   storesData,
   products,
   userProfile
 }: { 
   initialIssues: Issue[]
+  vouchers: IssueVoucher[]
+  requisitions: IssueRequisition[]
+  issueReturns: IssueReturn[]
   storesData: StoresData | null
   products: Product[]
-  userProfile: UserProfile
+  userProfile: AuthorizedProfile
 }) {
   const sortProducts = (items: Product[]) =>
     [...items].sort((a, b) => a.name.localeCompare(b.name))
 
+  const [activeTab, setActiveTab] = useState<'issues' | 'vouchers' | 'requisitions' | 'returns'>('issues')
   const [issues, setIssues] = useState(initialIssues)
   const [showModal, setShowModal] = useState(false)
   const [loading, setLoading] = useState(false)
@@ -40,6 +52,27 @@ export default function IssuesList({
   const [currentPage, setCurrentPage] = useState(1)
   const [itemsPerPage, setItemsPerPage] = useState(50)
   const [productSearch, setProductSearch] = useState('')
+  const [receivingIssue, setReceivingIssue] = useState<Issue | null>(null)
+  const [editingIssue, setEditingIssue] = useState<Issue | null>(null)
+  const [returningIssue, setReturningIssue] = useState<Issue | null>(null)
+  const [returnData, setReturnData] = useState({
+    quantity: '',
+    return_date: new Date().toISOString().split('T')[0],
+    notes: '',
+  })
+  const [editData, setEditData] = useState({
+    product_id: '',
+    quantity: '',
+    issued_to_name: '',
+    issue_date: '',
+    notes: '',
+  })
+  const [receiptData, setReceiptData] = useState({
+    received_quantity: '',
+    damaged_quantity: '',
+    received_date: new Date().toISOString().split('T')[0],
+    notes: '',
+  })
   const [showProductDropdown, setShowProductDropdown] = useState(false)
   const productSearchRef = useRef<HTMLDivElement>(null)
   const [formData, setFormData] = useState({
@@ -323,8 +356,581 @@ export default function IssuesList({
     }
   }, [filteredProducts, formData.product_id])
 
+  // Only the receiving store (or an admin) confirms that a transfer arrived
+  const canReceiveIssue = (issue: Issue) => {
+    if (issue.transfer_status !== 'in_transit' || !issue.to_store) return false
+    if (!userProfile.permissions.includes('receive_goods')) return false
+    if (userProfile.role === 'admin') return true
+    return userProfile.store_ids.includes(issue.to_store.id)
+  }
+
+  const incomingTransfers = initialIssues.filter(canReceiveIssue)
+
+  const openReceiveModal = (issue: Issue) => {
+    setReceivingIssue(issue)
+    setReceiptData({
+      received_quantity: issue.quantity.toString(),
+      damaged_quantity: '',
+      received_date: new Date().toISOString().split('T')[0],
+      notes: '',
+    })
+    setError(null)
+  }
+
+  const handleReceive = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!receivingIssue) return
+
+    setError(null)
+    setLoading(true)
+
+    const receivedQuantity = parseFloat(receiptData.received_quantity)
+    const damagedQuantity = receiptData.damaged_quantity ? parseFloat(receiptData.damaged_quantity) : 0
+
+    if (isNaN(receivedQuantity) || receivedQuantity < 0 || isNaN(damagedQuantity) || damagedQuantity < 0) {
+      setError('Received and damaged quantities must be 0 or greater')
+      setLoading(false)
+      return
+    }
+
+    if (receivedQuantity + damagedQuantity > Number(receivingIssue.quantity)) {
+      setError(`Received and damaged quantities cannot exceed the issued quantity (${receivingIssue.quantity})`)
+      setLoading(false)
+      return
+    }
+
+    const result = await receiveIssueTransfer({
+      issue_id: receivingIssue.id,
+      received_quantity: receivedQuantity,
+      damaged_quantity: damagedQuantity,
+      received_date: receiptData.received_date || undefined,
+      notes: receiptData.notes || undefined,
+    })
+
+    if (result.error) {
+      setError(getErrorMessage(result.error))
+      setLoading(false)
+      return
+    }
+
+    window.location.reload()
+  }
+
+  const isAdmin = userProfile.role === 'admin'
+  const canEditIssues = userProfile.permissions.includes('edit_issues')
+
+  // Unused material issued to a person can be brought back to the project store
+  const getReturnableQuantity = (issue: Issue) =>
+    Number(issue.quantity) - Number(issue.returned_quantity || 0)
+
+  const canReturnIssue = (issue: Issue) => {
+    if (issue.to_store_id || !issue.from_store || issue.from_store.type !== 'project') return false
+    if (getReturnableQuantity(issue) <= 0) return false
+    if (!userProfile.permissions.includes('return_issues')) return false
+    if (isAdmin) return true
+    return userProfile.store_ids.includes(issue.from_store.id)
+  }
+
+  const openReturnModal = (issue: Issue) => {
+    setReturningIssue(issue)
+    setReturnData({
+      quantity: '',
+      return_date: new Date().toISOString().split('T')[0],
+      notes: '',
+    })
+    setError(null)
+  }
+
+  const handleReturn = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!returningIssue) return
+
+    setError(null)
+    setLoading(true)
+
+    const quantity = parseFloat(returnData.quantity)
+    if (isNaN(quantity) || quantity <= 0) {
+      setError('Quantity must be greater than 0')
+      setLoading(false)
+      return
+    }
+
+    if (quantity > getReturnableQuantity(returningIssue)) {
+      setError(`Only ${getReturnableQuantity(returningIssue)} can still be returned against this issue`)
+      setLoading(false)
+      return
+    }
+
+    const result = await createIssueReturn({
+      issue_id: returningIssue.id,
+      quantity,
+      return_date: returnData.return_date || undefined,
+      notes: returnData.notes || undefined,
+    })
+
+    if (result.error) {
+      setError(getErrorMessage(result.error))
+      setLoading(false)
+      return
+    }
+
+    window.location.reload()
+  }
+
+  const openEditModal = (issue: Issue) => {
+    setEditingIssue(issue)
+    setEditData({
+      product_id: issue.product_id,
+      quantity: issue.quantity.toString(),
+      issued_to_name: issue.issued_to_name || '',
+      issue_date: issue.issue_date,
+      notes: issue.notes || '',
+    })
+    setError(null)
+  }
+
+  const handleEditSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!editingIssue) return
+
+    setError(null)
+    setLoading(true)
+
+    const quantity = parseFloat(editData.quantity)
+    if (isNaN(quantity) || quantity <= 0) {
+      setError('Quantity must be greater than 0')
+      setLoading(false)
+      return
+    }
+
+    const result = await updateIssue({
+      id: editingIssue.id,
+      product_id: editData.product_id,
+      quantity,
+      issued_to_name: editingIssue.to_store_id ? undefined : editData.issued_to_name,
+      issue_date: editData.issue_date || undefined,
+      notes: editData.notes,
+    })
+
+    if (result.error) {
+      setError(getErrorMessage(result.error))
+      setLoading(false)
+      return
+    }
+
+    window.location.reload()
+  }
+
+  const handleVoid = async (issue: Issue) => {
+    const destination = issue.to_store?.name || issue.issued_to_name || 'the recipient'
+    if (!confirm(`Void this issue of ${issue.quantity} ${issue.product?.unit || ''} ${issue.product?.name || ''} to ${destination}? The stock will be returned to ${issue.from_store?.name || 'the source store'}.`)) {
+      return
+    }
+
+    const result = await deleteIssue(issue.id)
+    if (result.error) {
+      alert(getErrorMessage(result.error))
+      return
+    }
+
+    window.location.reload()
+  }
+
+  const receiptShortage = receivingIssue
+    ? Number(receivingIssue.quantity) -
+      (parseFloat(receiptData.received_quantity) || 0) -
+      (parseFloat(receiptData.damaged_quantity) || 0)
+    : 0
+
+  const requisitionStores = useMemo(() => {
+    const storesById = new Map<string, Store>()
+    for (const store of [...(storesData?.fromStores || []), ...(storesData?.toStores || [])]) {
+      storesById.set(store.id, store)
+    }
+    return Array.from(storesById.values())
+  }, [storesData])
+
+  const openRequisitionCount = requisitions.filter((requisition) =>
+    ['pending', 'approved', 'partially_fulfilled'].includes(requisition.status)
+  ).length
+
+  const tabBar = (
+    <div className="mb-4 flex gap-2 border-b border-gray-200">
+      {([
+        ['issues', 'Issue History'],
+        ['vouchers', 'Issue Vouchers'],
+        ['requisitions', `Requisitions${openRequisitionCount > 0 ? ` (${openRequisitionCount})` : ''}`],
+        ['returns', 'Returns'],
+      ] as const).map(([tab, label]) => (
+        <button
+          key={tab}
+          onClick={() => setActiveTab(tab)}
+          className={`px-4 py-2 text-sm font-medium border-b-2 -mb-px ${
+            activeTab === tab
+              ? 'border-[#0067ac] text-[#0067ac]'
+              : 'border-transparent text-gray-500 hover:text-gray-700'
+          }`}
+        >
+          {label}
+        </button>
+      ))}
+    </div>
+  )
+
+  if (activeTab === 'vouchers') {
+    return (
+      <div>
+        {tabBar}
+        <IssueVouchersList
+          vouchers={vouchers}
+          fromStores={storesData?.fromStores || []}
+          toStores={storesData?.toStores || []}
+          canDelete={canEditIssues}
+        />
+      </div>
+    )
+  }
+
+  if (activeTab === 'requisitions') {
+    return (
+      <div>
+        {tabBar}
+        <IssueRequisitionsList
+          requisitions={requisitions}
+          products={products}
+          stores={requisitionStores}
+          userProfile={userProfile}
+        />
+      </div>
+    )
+  }
+
+  if (activeTab === 'returns') {
+    return (
+      <div>
+        {tabBar}
+        <IssueReturnsList issueReturns={issueReturns} canDelete={canEditIssues} />
+      </div>
+    )
+  }
+
   return (
     <div>
+      {tabBar}
+
+      {incomingTransfers.length > 0 && (
+        <div className="mb-4 rounded-md bg-blue-50 p-4 border border-blue-200">
+          <p className="text-sm text-blue-800">
+            <strong>{incomingTransfers.length} incoming transfer{incomingTransfers.length === 1 ? '' : 's'}</strong> in transit to your store.
+            Use <strong>Receive</strong> on each row once the delivery arrives.
+          </p>
+        </div>
+      )}
+
+      {receivingIssue && (
+        <div className="fixed inset-0 z-50 flex items-center justify-center bg-black bg-opacity-50">
+          <div className="bg-white rounded-lg p-6 w-full max-w-md max-h-[90vh] overflow-y-auto">
+            <h3 className="text-xl font-bold mb-4" style={{ color: '#0067ac' }}>
+              Receive Transfer
+            </h3>
+            <form onSubmit={handleReceive} className="space-y-4">
+              {error && (
+                <div className="rounded-md bg-red-50 p-3 border border-red-200">
+                  <div className="text-sm text-red-800">{error}</div>
+                </div>
+              )}
+              <div className="p-3 bg-blue-50 rounded-md border border-blue-200">
+                <p className="text-sm text-blue-800">
+                  <strong>{receivingIssue.product?.name || '-'}</strong> from {receivingIssue.from_store?.name || '-'}
+                </p>
+                <p className="text-sm text-blue-800">
+                  Issued: {receivingIssue.quantity} {receivingIssue.product?.unit || ''} on {new Date(receivingIssue.issue_date).toLocaleDateString()}
+                </p>
+              </div>
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Received in Good Condition *
+                  </label>
+                  <input
+                    type="number"
+                    step="0.01"
+                    min="0"
+                    max={receivingIssue.quantity}
+                    required
+                    value={receiptData.received_quantity}
+                    onChange={(e) => setReceiptData({ ...receiptData, received_quantity: e.target.value })}
+                    className="w-full rounded-md border border-gray-300 px-3 py-2 text-sm text-gray-900 placeholder-gray-500 focus:border-[#0067ac] focus:outline-none focus:ring-2 focus:ring-[#0067ac]"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Damaged
+                  </label>
+                  <input
+                    type="number"
+                    step="0.01"
+                    min="0"
+                    value={receiptData.damaged_quantity}
+                    onChange={(e) => setReceiptData({ ...receiptData, damaged_quantity: e.target.value })}
+                    className="w-full rounded-md border border-gray-300 px-3 py-2 text-sm text-gray-900 placeholder-gray-500 focus:border-[#0067ac] focus:outline-none focus:ring-2 focus:ring-[#0067ac]"
+                    placeholder="0.00"
+                  />
+                </div>
+              </div>
+              {receiptShortage > 0 && (
+                <p className="text-sm text-orange-700">
+                  Short by {receiptShortage} {receivingIssue.product?.unit || ''}. Short and damaged quantities are not added to your stock.
+                </p>
+              )}
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Received Date *
+                </label>
+                <input
+                  type="date"
+                  required
+                  value={receiptData.received_date}
+                  onChange={(e) => setReceiptData({ ...receiptData, received_date: e.target.value })}
+                  className="w-full rounded-md border border-gray-300 px-3 py-2 text-sm text-gray-900 focus:border-[#0067ac] focus:outline-none focus:ring-2 focus:ring-[#0067ac]"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Notes
+                </label>
+                <textarea
+                  value={receiptData.notes}
+                  onChange={(e) => setReceiptData({ ...receiptData, notes: e.target.value })}
+                  rows={2}
+                  className="w-full rounded-md border border-gray-300 px-3 py-2 text-sm text-gray-900 placeholder-gray-500 focus:border-[#0067ac] focus:outline-none focus:ring-2 focus:ring-[#0067ac]"
+                  placeholder="e.g. details of the shortage or damage"
+                />
+              </div>
+              <div className="flex gap-3 pt-4">
+                <button
+                  type="button"
+                  onClick={() => {
+                    setReceivingIssue(null)
+                    setError(null)
+                  }}
+                  className="flex-1 rounded-md border border-gray-300 bg-white px-4 py-2 text-sm font-medium text-gray-700 hover:bg-gray-50"
+                >
+                  Cancel
+                </button>
+                <button
+                  type="submit"
+                  disabled={loading}
+                  className="flex-1 rounded-md px-4 py-2 text-sm font-semibold text-white disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                  style={{ backgroundColor: '#0067ac' }}
+                >
+                  {loading ? 'Receiving...' : 'Confirm Receipt'}
+                </button>
+              </div>
+            </form>
+          </div>
+        </div>
+      )}
+
+      {returningIssue && (
+        <div className="fixed inset-0 z-50 flex items-center justify-center bg-black bg-opacity-50">
+          <div className="bg-white rounded-lg p-6 w-full max-w-md max-h-[90vh] overflow-y-auto">
+            <h3 className="text-xl font-bold mb-4" style={{ color: '#0067ac' }}>
+              Return Unused Material
+            </h3>
+            <form onSubmit={handleReturn} className="space-y-4">
+              {error && (
+                <div className="rounded-md bg-red-50 p-3 border border-red-200">
+                  <div className="text-sm text-red-800">{error}</div>
+                </div>
+              )}
+              <div className="p-3 bg-blue-50 rounded-md border border-blue-200">
+                <p className="text-sm text-blue-800">
+                  <strong>{returningIssue.product?.name || '-'}</strong> issued to {returningIssue.issued_to_name || '-'}
+                </p>
+                <p className="text-sm text-blue-800">
+                  Issued: {returningIssue.quantity} {returningIssue.product?.unit || ''} on {new Date(returningIssue.issue_date).toLocaleDateString()}
+                  {Number(returningIssue.returned_quantity) > 0 ? `, ${returningIssue.returned_quantity} already returned` : ''}
+                </p>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Quantity Returned *
+                </label>
+                <input
+                  type="number"
+                  step="0.01"
+                  min="0.01"
+                  max={getReturnableQuantity(returningIssue)}
+                  required
+                  value={returnData.quantity}
+                  onChange={(e) => setReturnData({ ...returnData, quantity: e.target.value })}
+                  className="w-full rounded-md border border-gray-300 px-3 py-2 text-sm text-gray-900 placeholder-gray-500 focus:border-[#0067ac] focus:outline-none focus:ring-2 focus:ring-[#0067ac]"
+                  placeholder={`Up to ${getReturnableQuantity(returningIssue)}`}
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Return Date *
+                </label>
+                <input
+                  type="date"
+                  required
+                  value={returnData.return_date}
+                  onChange={(e) => setReturnData({ ...returnData, return_date: e.target.value })}
+                  className="w-full rounded-md border border-gray-300 px-3 py-2 text-sm text-gray-900 focus:border-[#0067ac] focus:outline-none focus:ring-2 focus:ring-[#0067ac]"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Notes
+                </label>
+                <textarea
+                  value={returnData.notes}
+                  onChange={(e) => setReturnData({ ...returnData, notes: e.target.value })}
+                  rows={2}
+                  className="w-full rounded-md border border-gray-300 px-3 py-2 text-sm text-gray-900 placeholder-gray-500 focus:border-[#0067ac] focus:outline-none focus:ring-2 focus:ring-[#0067ac]"
+                  placeholder="Optional notes"
+                />
+              </div>
+              <div className="flex gap-3 pt-4">
+                <button
+                  type="button"
+                  onClick={() => {
+                    setReturningIssue(null)
+                    setError(null)
+                  }}
+                  className="flex-1 rounded-md border border-gray-300 bg-white px-4 py-2 text-sm font-medium text-gray-700 hover:bg-gray-50"
+                >
+                  Cancel
+                </button>
+                <button
+                  type="submit"
+                  disabled={loading}
+                  className="flex-1 rounded-md px-4 py-2 text-sm font-semibold text-white disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                  style={{ backgroundColor: '#0067ac' }}
+                >
+                  {loading ? 'Saving...' : 'Record Return'}
+                </button>
+              </div>
+            </form>
+          </div>
+        </div>
+      )}
+
+      {editingIssue && (
+        <div className="fixed inset-0 z-50 flex items-center justify-center bg-black bg-opacity-50">
+          <div className="bg-white rounded-lg p-6 w-full max-w-md max-h-[90vh] overflow-y-auto">
+            <h3 className="text-xl font-bold mb-4" style={{ color: '#0067ac' }}>
+              Correct Issue
+            </h3>
+            <form onSubmit={handleEditSubmit} className="space-y-4">
+              {error && (
+                <div className="rounded-md bg-red-50 p-3 border border-red-200">
+                  <div className="text-sm text-red-800">{error}</div>
+                </div>
+              )}
+              <div className="p-3 bg-blue-50 rounded-md border border-blue-200">
+                <p className="text-sm text-blue-800">
+                  {editingIssue.from_store?.name || '-'} → {editingIssue.to_store?.name || editingIssue.issued_to_name || '-'}
+                </p>
+                <p className="text-xs text-blue-700 mt-1">
+                  To change the stores, void this issue and create a new one.
+                </p>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Product *
+                </label>
+                <select
+                  required
+                  value={editData.product_id}
+                  disabled={!!editingIssue.requisition_item_id}
+                  onChange={(e) => setEditData({ ...editData, product_id: e.target.value })}
+                  className="w-full rounded-md border border-gray-300 px-3 py-2 text-sm text-gray-900 bg-white focus:border-[#0067ac] focus:outline-none focus:ring-2 focus:ring-[#0067ac] disabled:bg-gray-100"
+                >
+                  {productOptions.map((product) => (
+                    <option key={product.id} value={product.id}>
+                      {product.name}{product.category?.name ? ` (${product.category.name})` : ''} • {product.unit}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Quantity *
+                </label>
+                <input
+                  type="number"
+                  step="0.01"
+                  min="0.01"
+                  required
+                  value={editData.quantity}
+                  onChange={(e) => setEditData({ ...editData, quantity: e.target.value })}
+                  className="w-full rounded-md border border-gray-300 px-3 py-2 text-sm text-gray-900 placeholder-gray-500 focus:border-[#0067ac] focus:outline-none focus:ring-2 focus:ring-[#0067ac]"
+                />
+              </div>
+              {!editingIssue.to_store_id && (
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Issued To
+                  </label>
+                  <input
+                    type="text"
+                    value={editData.issued_to_name}
+                    onChange={(e) => setEditData({ ...editData, issued_to_name: e.target.value })}
+                    className="w-full rounded-md border border-gray-300 px-3 py-2 text-sm text-gray-900 placeholder-gray-500 focus:border-[#0067ac] focus:outline-none focus:ring-2 focus:ring-[#0067ac]"
+                  />
+                </div>
+              )}
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Issue Date *
+                </label>
+                <input
+                  type="date"
+                  required
+                  value={editData.issue_date}
+                  onChange={(e) => setEditData({ ...editData, issue_date: e.target.value })}
+                  className="w-full rounded-md border border-gray-300 px-3 py-2 text-sm text-gray-900 focus:border-[#0067ac] focus:outline-none focus:ring-2 focus:ring-[#0067ac]"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Notes
+                </label>
+                <textarea
+                  value={editData.notes}
+                  onChange={(e) => setEditData({ ...editData, notes: e.target.value })}
+                  rows={2}
+                  className="w-full rounded-md border border-gray-300 px-3 py-2 text-sm text-gray-900 placeholder-gray-500 focus:border-[#0067ac] focus:outline-none focus:ring-2 focus:ring-[#0067ac]"
+                />
+              </div>
+              <div className="flex gap-3 pt-4">
+                <button
+                  type="button"
+                  onClick={() => {
+                    setEditingIssue(null)
+                    setError(null)
+                  }}
+                  className="flex-1 rounded-md border border-gray-300 bg-white px-4 py-2 text-sm font-medium text-gray-700 hover:bg-gray-50"
+                >
+                  Cancel
+                </button>
+                <button
+                  type="submit"
+                  disabled={loading}
+                  className="flex-1 rounded-md px-4 py-2 text-sm font-semibold text-white disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                  style={{ backgroundColor: '#0067ac' }}
+                >
+                  {loading ? 'Updating...' : 'Update Issue'}
+                </button>
+              </div>
+            </form>
+          </div>
+        </div>
+      )}
+
       {/* Filters */}
       <div className="mb-4 bg-white rounded-lg shadow-md border p-4" style={{ borderColor: '#E77817' }}>
         <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
@@ -686,12 +1292,20 @@ export default function IssuesList({
               <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                 Issued To
               </th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Status
+              </th>
+              {canEditIssues && (
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Actions
+                </th>
+              )}
             </tr>
           </thead>
           <tbody className="bg-white divide-y divide-gray-200">
             {issues.length === 0 ? (
               <tr>
-                <td colSpan={6} className="px-6 py-4 text-center text-sm text-gray-500">
+                <td colSpan={canEditIssues ? 8 : 7} className="px-6 py-4 text-center text-sm text-gray-500">
                   No issues found. Create your first issue.
                 </td>
               </tr>
@@ -716,6 +1330,69 @@ export default function IssuesList({
                   <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
                     {issue.issued_to_name || '-'}
                   </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm">
+                    {issue.transfer_status === 'in_transit' ? (
+                      <div className="flex items-center gap-3">
+                        <span className="inline-flex rounded-full px-2 py-1 text-xs font-semibold bg-yellow-100 text-yellow-800">
+                          In Transit
+                        </span>
+                        {canReceiveIssue(issue) && (
+                          <button
+                            onClick={() => openReceiveModal(issue)}
+                            className="text-sm font-medium text-[#E77817] hover:text-[#d66a14]"
+                          >
+                            Receive
+                          </button>
+                        )}
+                      </div>
+                    ) : issue.transfer_status === 'received' ? (
+                      <>
+                        <span className="inline-flex rounded-full px-2 py-1 text-xs font-semibold bg-green-100 text-green-800">
+                          Received
+                        </span>
+                        {Number(issue.received_quantity) < Number(issue.quantity) && (
+                          <p className="mt-1 text-xs text-orange-700">
+                            {issue.received_quantity} received
+                            {Number(issue.damaged_quantity) > 0 ? `, ${issue.damaged_quantity} damaged` : ''}
+                          </p>
+                        )}
+                      </>
+                    ) : (
+                      <div className="flex items-center gap-3">
+                        {Number(issue.returned_quantity) > 0 ? (
+                          <span className="text-xs text-gray-700">
+                            {issue.returned_quantity} returned
+                          </span>
+                        ) : (
+                          <span className="text-gray-500">-</span>
+                        )}
+                        {canReturnIssue(issue) && (
+                          <button
+                            onClick={() => openReturnModal(issue)}
+                            className="text-sm font-medium text-[#E77817] hover:text-[#d66a14]"
+                          >
+                            Return
+                          </button>
+                        )}
+                      </div>
+                    )}
+                  </td>
+                  {canEditIssues && (
+                    <td className="px-6 py-4 whitespace-nowrap text-sm font-medium">
+                      <button
+                        onClick={() => openEditModal(issue)}
+                        className="text-[#0067ac] hover:text-[#005a94] mr-4"
+                      >
+                        Edit
+                      </button>
+                      <button
+                        onClick={() => handleVoid(issue)}
+                        className="text-red-600 hover:text-red-900"
+                      >
+                        Void
+                      </button>
+                    </td>
+                  )}
                 </tr>
               ))
             )}
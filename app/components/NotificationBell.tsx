@@ -0,0 +1,33 @@
+'use client'
+
+export default function NotificationBell({ unreadCount }: { unreadCount: number }) {
+  return (
+    <a
+      href="/notifications"
+      className="relative inline-flex items-center text-gray-700 hover:text-[#0067ac]"
+      title={unreadCount > 0 ? `${unreadCount} unread notifications` : 'Notifications'}
+    >
+      <svg
+        xmlns="http://www.w3.org/2000/svg"
+        viewBox="0 0 24 24"
+        fill="none"
+        stroke="currentColor"
+        strokeWidth={1.5}
+        className="h-6 w-6"
+        aria-hidden="true"
+      >
+        <path
+          strokeLinecap="round"
+          strokeLinejoin="round"
+          d="M14.857 17.082a23.848 23.848 0 0 0 5.454-1.31A8.967 8.967 0 0 1 18 9.75V9A6 6 0 0 0 6 9v.75a8.967 8.967 0 0 1-2.312 6.022c1.733.64 3.56 1.085 5.455 1.31m5.714 0a24.255 24.255 0 0 1-5.714 0m5.714 0a3 3 0 1 1-5.714 0"
+        />
+      </svg>
+      <span className="sr-only">Notifications</span>
+      {unreadCount > 0 && (
+        <span className="absolute -top-2 -right-2 min-w-[1.25rem] rounded-full bg-red-600 px-1 text-center text-xs font-semibold leading-5 text-white">
+          {unreadCount > 99 ? '99+' : unreadCount}
+        </span>
+      )}
+    </a>
+  )
+}
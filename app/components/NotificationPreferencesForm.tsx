@@ -0,0 +1,75 @@
+'use client'
+
+import { useState } from 'react'
+import { updateNotificationPreference } from '@/lib/actions/notificationPreferences'
+import { NOTIFICATION_EVENT_OPTIONS } from '@/lib/constants/notificationEvents'
+import { getErrorMessage } from '@/lib/utils/errors'
+import type { NotificationEvent } from '@/lib/types'
+
+export default function NotificationPreferencesForm({
+  initialPreferences,
+}: {
+  initialPreferences: { event_type: NotificationEvent; email_enabled: boolean }[]
+}) {
+  const [preferences, setPreferences] = useState(initialPreferences)
+  const [savingEvent, setSavingEvent] = useState<NotificationEvent | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  const handleToggle = async (event: NotificationEvent, emailEnabled: boolean) => {
+    setError(null)
+    setSavingEvent(event)
+
+    const result = await updateNotificationPreference(event, emailEnabled)
+    setSavingEvent(null)
+
+    if (result.error) {
+      setError(getErrorMessage(result.error))
+      return
+    }
+
+    setPreferences((current) =>
+      current.map((preference) =>
+        preference.event_type === event ? { ...preference, email_enabled: emailEnabled } : preference
+      )
+    )
+  }
+
+  if (preferences.length === 0) {
+    return (
+      <div className="rounded-lg bg-white shadow-md border p-6 text-sm text-gray-500" style={{ borderColor: '#E77817' }}>
+        There are no emails for your role yet. Once you are assigned to a store you will be emailed about its stock.
+      </div>
+    )
+  }
+
+  return (
+    <div>
+      {error && (
+        <div className="mb-4 rounded-md bg-red-50 p-3 border border-red-200">
+          <div className="text-sm text-red-800">{error}</div>
+        </div>
+      )}
+
+      <div className="rounded-lg bg-white shadow-md border divide-y divide-gray-200" style={{ borderColor: '#E77817' }}>
+        {preferences.map((preference) => {
+          const option = NOTIFICATION_EVENT_OPTIONS.find((item) => item.value === preference.event_type)
+          return (
+            <label key={preference.event_type} className="flex items-start gap-3 p-4 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={preference.email_enabled}
+                disabled={savingEvent === preference.event_type}
+                onChange={(e) => handleToggle(preference.event_type, e.target.checked)}
+                className="mt-1 rounded border-gray-300 text-[#0067ac] focus:ring-[#0067ac]"
+              />
+              <span>
+                <span className="block text-sm font-medium text-gray-900">{option?.label || preference.event_type}</span>
+                <span className="block text-sm text-gray-500">{option?.description}</span>
+              </span>
+            </label>
+          )
+        })}
+      </div>
+    </div>
+  )
+}
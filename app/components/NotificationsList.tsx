@@ -0,0 +1,130 @@
+'use client'
+
+import { useState } from 'react'
+import { useRouter } from 'next/navigation'
+import { markAllNotificationsRead, markNotificationRead } from '@/lib/actions/notifications'
+import { getErrorMessage } from '@/lib/utils/errors'
+import type { AppNotification } from '@/lib/types'
+
+export default function NotificationsList({ initialNotifications }: { initialNotifications: AppNotification[] }) {
+  const router = useRouter()
+  const [showUnreadOnly, setShowUnreadOnly] = useState(false)
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const unreadCount = initialNotifications.filter((notification) => !notification.read_at).length
+  const filteredNotifications = showUnreadOnly
+    ? initialNotifications.filter((notification) => !notification.read_at)
+    : initialNotifications
+
+  const handleOpen = async (notification: AppNotification) => {
+    setError(null)
+
+    if (!notification.read_at) {
+      const result = await markNotificationRead(notification.id)
+      if (result.error) {
+        setError(getErrorMessage(result.error))
+        return
+      }
+    }
+
+    if (notification.link) {
+      router.push(notification.link)
+    } else {
+      window.location.reload()
+    }
+  }
+
+  const handleMarkAllRead = async () => {
+    setError(null)
+    setLoading(true)
+
+    const result = await markAllNotificationsRead()
+    if (result.error) {
+      setError(getErrorMessage(result.error))
+      setLoading(false)
+      return
+    }
+
+    window.location.reload()
+  }
+
+  return (
+    <div>
+      <div className="mb-4 flex flex-wrap items-center justify-between gap-4">
+        <label className="flex items-center gap-2 text-sm text-gray-700">
+          <input
+            type="checkbox"
+            checked={showUnreadOnly}
+            onChange={(e) => setShowUnreadOnly(e.target.checked)}
+            className="rounded border-gray-300 text-[#0067ac] focus:ring-[#0067ac]"
+          />
+          Unread only ({unreadCount})
+        </label>
+        <div className="flex items-center gap-4">
+          <a href="/notifications/preferences" className="text-sm text-[#0067ac] hover:text-[#005a94]">
+            Email preferences
+          </a>
+          {unreadCount > 0 && (
+            <button
+              onClick={handleMarkAllRead}
+              disabled={loading}
+              className="rounded-md px-4 py-2 text-sm font-semibold text-white disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+              style={{ backgroundColor: '#0067ac' }}
+            >
+              {loading ? 'Marking...' : 'Mark all as read'}
+            </button>
+          )}
+        </div>
+      </div>
+
+      {error && (
+        <div className="mb-4 rounded-md bg-red-50 p-3 border border-red-200">
+          <div className="text-sm text-red-800">{error}</div>
+        </div>
+      )}
+
+      <div className="rounded-lg bg-white shadow-md border overflow-hidden" style={{ borderColor: '#E77817' }}>
+        {filteredNotifications.length === 0 ? (
+          <div className="px-6 py-8 text-center text-sm text-gray-500">
+            {showUnreadOnly ? 'No unread notifications.' : 'No notifications yet.'}
+          </div>
+        ) : (
+          <ul className="divide-y divide-gray-200">
+            {filteredNotifications.map((notification) => (
+              <li key={notification.id} className={notification.read_at ? 'bg-white' : 'bg-blue-50'}>
+                <div className="flex items-start justify-between gap-4 px-6 py-4">
+                  <div>
+                    <p className={`text-sm ${notification.read_at ? 'text-gray-700' : 'font-semibold text-gray-900'}`}>
+                      {notification.title}
+                    </p>
+                    <p className="mt-1 text-sm text-gray-600">{notification.message}</p>
+                    <p className="mt-1 text-xs text-gray-400">{new Date(notification.created_at).toLocaleString()}</p>
+                  </div>
+                  <div className="flex shrink-0 items-center gap-4 text-sm font-medium">
+                    {notification.link && (
+                      <button
+                        onClick={() => handleOpen(notification)}
+                        className="text-[#0067ac] hover:text-[#005a94]"
+                      >
+                        Open
+                      </button>
+                    )}
+                    {!notification.read_at && !notification.link && (
+                      <button
+                        onClick={() => handleOpen(notification)}
+                        className="text-[#0067ac] hover:text-[#005a94]"
+                      >
+                        Mark as read
+                      </button>
+                    )}
+                  </div>
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,19 @@
+'use client'
+
+export default function PrintButton({ label = 'Print' }: { label?: string }) {
+  return (
+    <button
+      onClick={() => window.print()}
+      className="rounded-md px-4 py-2 text-sm font-semibold text-white transition-colors"
+      style={{ backgroundColor: '#0067ac' }}
+      onMouseEnter={(e) => {
+        e.currentTarget.style.backgroundColor = '#005a94'
+      }}
+      onMouseLeave={(e) => {
+        e.currentTarget.style.backgroundColor = '#0067ac'
+      }}
+    >
+      {label}
+    </button>
+  )
+}
@@ -431,6 +431,9 @@ export default function ProductsList({ initialProducts, categories }: { initialP
                   className="w-full rounded-md border border-gray-300 px-3 py-2 text-sm text-gray-900 placeholder-gray-500 focus:border-[#0067ac] focus:outline-none focus:ring-2 focus:ring-[#0067ac]"
                   placeholder="Minimum quantity before restock alert"
                 />
+                <p className="mt-1 text-xs text-gray-500">
+                  Used in every store that hasn&apos;t set its own reorder levels.
+                </p>
               </div>
               <div className="flex gap-3 pt-4">
                 <button
@@ -0,0 +1,689 @@
+'use client'
+
+import { Fragment, useMemo, useState } from 'react'
+import {
+  createPurchaseInvoice,
+  deletePurchaseInvoice,
+  getPurchaseInvoiceAttachmentUrl,
+  uploadPurchaseInvoiceAttachment,
+} from '@/lib/actions/purchaseInvoices'
+import { getErrorMessage } from '@/lib/utils/errors'
+import { BASE_CURRENCY, CURRENCY_OPTIONS } from '@/lib/constants/currencies'
+import type {
+  ChargeAllocationMethod,
+  ExchangeRate,
+  Product,
+  PurchaseInvoice,
+  PurchaseInvoiceAttachment,
+  Store,
+  Supplier,
+} from '@/lib/types'
+
+interface LineFormData {
+  product_id: string
+  quantity: string
+  unit_cost: string
+}
+
+const emptyLine = (): LineFormData => ({ product_id: '', quantity: '', unit_cost: '' })
+
+function getInvoiceTotal(invoice: PurchaseInvoice) {
+  return (invoice.lines || []).reduce((sum, line) => sum + Number(line.total_cost), 0)
+}
+
+function uploadAttachment(invoiceId: string, file: File) {
+  const formData = new FormData()
+  formData.append('purchase_invoice_id', invoiceId)
+  formData.append('file', file)
+  return uploadPurchaseInvoiceAttachment(formData)
+}
+
+export default function PurchaseInvoicesList({
+  purchaseInvoices,
+  exchangeRates,
+  products,
+  stores,
+  suppliers,
+  canDelete,
+}: {
+  purchaseInvoices: PurchaseInvoice[]
+  exchangeRates: ExchangeRate[]
+  products: Product[]
+  stores: Store[]
+  suppliers: Supplier[]
+  canDelete: boolean
+}) {
+  const sortedProducts = useMemo(
+    () => [...products].sort((a, b) => a.name.localeCompare(b.name)),
+    [products]
+  )
+
+  const [expandedInvoices, setExpandedInvoices] = useState<Record<string, boolean>>({})
+  const [showModal, setShowModal] = useState(false)
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [formData, setFormData] = useState({
+    store_id: '',
+    supplier_id: '',
+    invoice_number: '',
+    invoice_date: new Date().toISOString().split('T')[0],
+    currency: BASE_CURRENCY,
+    exchange_rate: '',
+    tax_percent: '',
+    freight_cost: '',
+    other_charges: '',
+    charge_allocation: 'value' as ChargeAllocationMethod,
+    receive_via_grn: false,
+    notes: '',
+  })
+  const [lines, setLines] = useState<LineFormData[]>([emptyLine()])
+  const [files, setFiles] = useState<File[]>([])
+
+  const resetForm = () => {
+    setFormData({
+      store_id: '',
+      supplier_id: '',
+      invoice_number: '',
+      invoice_date: new Date().toISOString().split('T')[0],
+      currency: BASE_CURRENCY,
+      exchange_rate: '',
+      tax_percent: '',
+      freight_cost: '',
+      other_charges: '',
+      charge_allocation: 'value',
+      receive_via_grn: false,
+      notes: '',
+    })
+    setLines([emptyLine()])
+    setFiles([])
+    setError(null)
+  }
+
+  const updateLine = (index: number, changes: Partial<LineFormData>) => {
+    setLines((prev) => prev.map((line, i) => (i === index ? { ...line, ...changes } : line)))
+  }
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setError(null)
+    setLoading(true)
+
+    if (!formData.store_id) {
+      setError('Please select a store')
+      setLoading(false)
+      return
+    }
+
+    const invoiceLines = lines
+      .filter((line) => line.product_id || line.quantity || line.unit_cost)
+      .map((line) => ({
+        product_id: line.product_id,
+        quantity: parseFloat(line.quantity),
+        unit_cost: parseFloat(line.unit_cost),
+      }))
+
+    if (invoiceLines.length === 0) {
+      setError('Add at least one product line')
+      setLoading(false)
+      return
+    }
+
+    const exchange_rate = formData.exchange_rate ? parseFloat(formData.exchange_rate) : undefined
+    if (exchange_rate !== undefined && (isNaN(exchange_rate) || exchange_rate <= 0)) {
+      setError('Exchange rate must be greater than 0')
+      setLoading(false)
+      return
+    }
+
+    const result = await createPurchaseInvoice({
+      store_id: formData.store_id,
+      supplier_id: formData.supplier_id || null,
+      invoice_number: formData.invoice_number || undefined,
+      invoice_date: formData.invoice_date || undefined,
+      currency: formData.currency,
+      exchange_rate,
+      tax_percent: formData.tax_percent ? parseFloat(formData.tax_percent) : 0,
+      freight_cost: formData.freight_cost ? parseFloat(formData.freight_cost) : 0,
+      other_charges: formData.other_charges ? parseFloat(formData.other_charges) : 0,
+      charge_allocation: formData.charge_allocation,
+      receive_via_grn: formData.receive_via_grn,
+      notes: formData.notes || undefined,
+      lines: invoiceLines,
+    })
+
+    if (result.error || !result.data) {
+      setError(getErrorMessage(result.error))
+      setLoading(false)
+      return
+    }
+
+    // The invoice is already posted; a failed upload can be retried from the list
+    for (const file of files) {
+      const upload = await uploadAttachment(result.data.id, file)
+      if (upload.error) {
+        alert(`${result.data.document_number} was saved, but ${file.name} could not be attached: ${getErrorMessage(upload.error)}`)
+        break
+      }
+    }
+
+    window.location.reload()
+  }
+
+  const handleAttach = async (invoice: PurchaseInvoice, file: File | undefined) => {
+    if (!file) return
+
+    const result = await uploadAttachment(invoice.id, file)
+    if (result.error) {
+      alert(getErrorMessage(result.error))
+      return
+    }
+    window.location.reload()
+  }
+
+  const handleOpenAttachment = async (attachment: PurchaseInvoiceAttachment) => {
+    const result = await getPurchaseInvoiceAttachmentUrl(attachment.id)
+    if (result.error || !result.data) {
+      alert(getErrorMessage(result.error))
+      return
+    }
+    window.open(result.data, '_blank', 'noopener')
+  }
+
+  const handleDelete = async (invoice: PurchaseInvoice) => {
+    if (!confirm(`Are you sure you want to delete ${invoice.document_number}? All ${invoice.lines?.length ?? 0} lines will be removed from inventory.`)) {
+      return
+    }
+
+    const result = await deletePurchaseInvoice(invoice.id)
+    if (result.error) {
+      alert(getErrorMessage(result.error))
+      return
+    }
+    window.location.reload()
+  }
+
+  // Latest rate on or before the invoice date, as the database will pick it
+  const isForeignCurrency = formData.currency !== BASE_CURRENCY
+  const recordedRate = isForeignCurrency
+    ? exchangeRates.find(
+        (rate) => rate.currency_code === formData.currency && rate.effective_date <= formData.invoice_date
+      ) ?? null
+    : null
+
+  const linesTotal = lines.reduce((sum, line) => {
+    const quantity = parseFloat(line.quantity)
+    const unitCost = parseFloat(line.unit_cost)
+    return sum + (isNaN(quantity) || isNaN(unitCost) ? 0 : quantity * unitCost)
+  }, 0)
+
+  return (
+    <div>
+      <div className="mb-4 flex justify-end">
+        <button
+          onClick={() => {
+            resetForm()
+            setShowModal(true)
+          }}
+          className="rounded-md px-4 py-2 text-sm font-semibold text-white transition-colors"
+          style={{ backgroundColor: '#0067ac' }}
+          onMouseEnter={(e) => {
+            e.currentTarget.style.backgroundColor = '#005a94'
+          }}
+          onMouseLeave={(e) => {
+            e.currentTarget.style.backgroundColor = '#0067ac'
+          }}
+        >
+          New Purchase Invoice
+        </button>
+      </div>
+
+      {showModal && (
+        <div className="fixed inset-0 z-50 flex items-center justify-center bg-black bg-opacity-50">
+          <div className="bg-white rounded-lg p-6 w-full max-w-3xl max-h-[90vh] overflow-y-auto">
+            <h3 className="text-xl font-bold mb-4" style={{ color: '#0067ac' }}>
+              New Purchase Invoice
+            </h3>
+            <form onSubmit={handleSubmit} className="space-y-4">
+              {error && (
+                <div className="rounded-md bg-red-50 p-3 border border-red-200">
+                  <div className="text-sm text-red-800">{error}</div>
+                </div>
+              )}
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Store *
+                  </label>
+                  <select
+                    required
+                    value={formData.store_id}
+                    onChange={(e) => setFormData({ ...formData, store_id: e.target.value })}
+                    className="w-full rounded-md border border-gray-300 px-3 py-2 text-sm text-gray-900 bg-white focus:border-[#0067ac] focus:outline-none focus:ring-2 focus:ring-[#0067ac]"
+                  >
+                    <option value="">Select a store</option>
+                    {stores.map((store) => (
+                      <option key={store.id} value={store.id}>
+                        {store.name}{store.type === 'project' && store.project ? ` (${store.project.name})` : ''}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Supplier
+                  </label>
+                  <select
+                    value={formData.supplier_id}
+                    onChange={(e) => setFormData({ ...formData, supplier_id: e.target.value })}
+                    className="w-full rounded-md border border-gray-300 px-3 py-2 text-sm text-gray-900 bg-white focus:border-[#0067ac] focus:outline-none focus:ring-2 focus:ring-[#0067ac]"
+                  >
+                    <option value="">No supplier</option>
+                    {suppliers.map((supplier) => (
+                      <option key={supplier.id} value={supplier.id}>
+                        {supplier.name}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Supplier Invoice Number
+                  </label>
+                  <input
+                    type="text"
+                    value={formData.invoice_number}
+                    onChange={(e) => setFormData({ ...formData, invoice_number: e.target.value })}
+                    className="w-full rounded-md border border-gray-300 px-3 py-2 text-sm text-gray-900 placeholder-gray-500 focus:border-[#0067ac] focus:outline-none focus:ring-2 focus:ring-[#0067ac]"
+                    placeholder="e.g., INV-2041"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Invoice Date *
+                  </label>
+                  <input
+                    type="date"
+                    required
+                    value={formData.invoice_date}
+                    onChange={(e) => setFormData({ ...formData, invoice_date: e.target.value })}
+                    className="w-full rounded-md border border-gray-300 px-3 py-2 text-sm text-gray-900 focus:border-[#0067ac] focus:outline-none focus:ring-2 focus:ring-[#0067ac]"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Currency *
+                  </label>
+                  <select
+                    required
+                    value={formData.currency}
+                    onChange={(e) => setFormData({ ...formData, currency: e.target.value, exchange_rate: '' })}
+                    className="w-full rounded-md border border-gray-300 px-3 py-2 text-sm text-gray-900 focus:border-[#0067ac] focus:outline-none focus:ring-2 focus:ring-[#0067ac]"
+                  >
+                    {CURRENCY_OPTIONS.map((option) => (
+                      <option key={option.value} value={option.value}>
+                        {option.label}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+                {isForeignCurrency && (
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">
+                      Exchange Rate ({BASE_CURRENCY} per 1 {formData.currency})
+                    </label>
+                    <input
+                      type="number"
+                      step="0.000001"
+                      min="0.000001"
+                      value={formData.exchange_rate}
+                      onChange={(e) => setFormData({ ...formData, exchange_rate: e.target.value })}
+                      className="w-full rounded-md border border-gray-300 px-3 py-2 text-sm text-gray-900 placeholder-gray-500 focus:border-[#0067ac] focus:outline-none focus:ring-2 focus:ring-[#0067ac]"
+                      placeholder={recordedRate ? String(recordedRate.rate) : 'No rate recorded'}
+                    />
+                    <p className="mt-1 text-xs text-gray-500">
+                      {recordedRate
+                        ? `Leave blank to use the rate recorded on ${new Date(recordedRate.effective_date).toLocaleDateString()}`
+                        : `Enter a rate or ask an admin to record one for ${formData.currency}`}
+                    </p>
+                  </div>
+                )}
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Products *
+                </label>
+                <div className="space-y-2">
+                  {lines.map((line, index) => (
+                    <div key={index} className="grid grid-cols-12 gap-2 items-center">
+                      <select
+                        value={line.product_id}
+                        onChange={(e) => updateLine(index, { product_id: e.target.value })}
+                        className="col-span-6 rounded-md border border-gray-300 px-3 py-2 text-sm text-gray-900 bg-white focus:border-[#0067ac] focus:outline-none focus:ring-2 focus:ring-[#0067ac]"
+                      >
+                        <option value="">Select a product</option>
+                        {sortedProducts.map((product) => (
+                          <option key={product.id} value={product.id}>
+                            {product.name}{product.category?.name ? ` (${product.category.name})` : ''} • {product.unit}
+                          </option>
+                        ))}
+                      </select>
+                      <input
+                        type="number"
+                        step="0.01"
+                        min="0.01"
+                        value={line.quantity}
+                        onChange={(e) => updateLine(index, { quantity: e.target.value })}
+                        placeholder="Qty"
+                        className="col-span-2 rounded-md border border-gray-300 px-3 py-2 text-sm text-gray-900 placeholder-gray-500 focus:border-[#0067ac] focus:outline-none focus:ring-2 focus:ring-[#0067ac]"
+                      />
+                      <input
+                        type="number"
+                        step="0.01"
+                        min="0"
+                        value={line.unit_cost}
+                        onChange={(e) => updateLine(index, { unit_cost: e.target.value })}
+                        placeholder={`Unit cost (${formData.currency})`}
+                        className="col-span-3 rounded-md border border-gray-300 px-3 py-2 text-sm text-gray-900 placeholder-gray-500 focus:border-[#0067ac] focus:outline-none focus:ring-2 focus:ring-[#0067ac]"
+                      />
+                      <button
+                        type="button"
+                        onClick={() => setLines((prev) => (prev.length > 1 ? prev.filter((_, i) => i !== index) : [emptyLine()]))}
+                        className="col-span-1 text-sm text-red-600 hover:text-red-900"
+                      >
+                        Remove
+                      </button>
+                    </div>
+                  ))}
+                </div>
+                <div className="mt-2 flex items-center justify-between">
+                  <button
+                    type="button"
+                    onClick={() => setLines((prev) => [...prev, emptyLine()])}
+                    className="text-sm text-[#0067ac] hover:text-[#005a94] underline"
+                  >
+                    Add Line
+                  </button>
+                  <span className="text-sm font-medium text-gray-700">
+                    Invoice Value: {formData.currency} {linesTotal.toFixed(2)}
+                  </span>
+                </div>
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Charges
+                </label>
+                <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+                  <input
+                    type="number"
+                    step="0.01"
+                    min="0"
+                    max="100"
+                    value={formData.tax_percent}
+                    onChange={(e) => setFormData({ ...formData, tax_percent: e.target.value })}
+                    className="rounded-md border border-gray-300 px-3 py-2 text-sm text-gray-900 placeholder-gray-500 focus:border-[#0067ac] focus:outline-none focus:ring-2 focus:ring-[#0067ac]"
+                    placeholder="Sales tax %"
+                  />
+                  <input
+                    type="number"
+                    step="0.01"
+                    min="0"
+                    value={formData.freight_cost}
+                    onChange={(e) => setFormData({ ...formData, freight_cost: e.target.value })}
+                    className="rounded-md border border-gray-300 px-3 py-2 text-sm text-gray-900 placeholder-gray-500 focus:border-[#0067ac] focus:outline-none focus:ring-2 focus:ring-[#0067ac]"
+                    placeholder={`Freight (${BASE_CURRENCY})`}
+                  />
+                  <input
+                    type="number"
+                    step="0.01"
+                    min="0"
+                    value={formData.other_charges}
+                    onChange={(e) => setFormData({ ...formData, other_charges: e.target.value })}
+                    className="rounded-md border border-gray-300 px-3 py-2 text-sm text-gray-900 placeholder-gray-500 focus:border-[#0067ac] focus:outline-none focus:ring-2 focus:ring-[#0067ac]"
+                    placeholder={`Other charges (${BASE_CURRENCY})`}
+                  />
+                  <select
+                    value={formData.charge_allocation}
+                    onChange={(e) => setFormData({ ...formData, charge_allocation: e.target.value as ChargeAllocationMethod })}
+                    className="rounded-md border border-gray-300 px-3 py-2 text-sm text-gray-900 focus:border-[#0067ac] focus:outline-none focus:ring-2 focus:ring-[#0067ac]"
+                  >
+                    <option value="value">Allocate by value</option>
+                    <option value="quantity">Allocate by quantity</option>
+                  </select>
+                </div>
+                <p className="mt-1 text-xs text-gray-500">
+                  Freight and other charges are spread over the lines into the landed unit cost.
+                </p>
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Attachments
+                </label>
+                <input
+                  type="file"
+                  multiple
+                  accept="image/*,application/pdf"
+                  onChange={(e) => setFiles(Array.from(e.target.files || []))}
+                  className="w-full text-sm text-gray-700"
+                />
+                <p className="mt-1 text-xs text-gray-500">
+                  Scanned invoice or delivery documents, up to 10 MB each
+                </p>
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Notes
+                </label>
+                <textarea
+                  value={formData.notes}
+                  onChange={(e) => setFormData({ ...formData, notes: e.target.value })}
+                  rows={2}
+                  className="w-full rounded-md border border-gray-300 px-3 py-2 text-sm text-gray-900 placeholder-gray-500 focus:border-[#0067ac] focus:outline-none focus:ring-2 focus:ring-[#0067ac]"
+                  placeholder="Optional notes"
+                />
+              </div>
+
+              <div>
+                <label className="flex items-start gap-2 text-sm text-gray-700">
+                  <input
+                    type="checkbox"
+                    checked={formData.receive_via_grn}
+                    onChange={(e) => setFormData({ ...formData, receive_via_grn: e.target.checked })}
+                    className="mt-0.5 rounded border-gray-300 text-[#0067ac] focus:ring-[#0067ac]"
+                  />
+                  <span>
+                    Receive in deliveries
+                    <span className="block text-xs text-gray-500">
+                      Stock is added as goods received notes are posted instead of when the invoice is saved
+                    </span>
+                  </span>
+                </label>
+              </div>
+
+              <div className="flex gap-3 pt-4">
+                <button
+                  type="button"
+                  onClick={() => {
+                    setShowModal(false)
+                    resetForm()
+                  }}
+                  className="flex-1 rounded-md border border-gray-300 bg-white px-4 py-2 text-sm font-medium text-gray-700 hover:bg-gray-50"
+                >
+                  Cancel
+                </button>
+                <button
+                  type="submit"
+                  disabled={loading}
+                  className="flex-1 rounded-md px-4 py-2 text-sm font-semibold text-white disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                  style={{ backgroundColor: '#0067ac' }}
+                >
+                  {loading ? 'Saving...' : 'Save Invoice'}
+                </button>
+              </div>
+            </form>
+          </div>
+        </div>
+      )}
+
+      <div className="rounded-lg bg-white shadow-md border overflow-hidden" style={{ borderColor: '#E77817' }}>
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200">
+          <thead className="bg-gray-50">
+            <tr>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Document
+              </th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Date
+              </th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Supplier
+              </th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Store
+              </th>
+              <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Lines
+              </th>
+              <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Landed Total
+              </th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Actions
+              </th>
+            </tr>
+          </thead>
+          <tbody className="bg-white divide-y divide-gray-200">
+            {purchaseInvoices.length === 0 ? (
+              <tr>
+                <td colSpan={7} className="px-6 py-4 text-center text-sm text-gray-500">
+                  No purchase invoices found.
+                </td>
+              </tr>
+            ) : (
+              purchaseInvoices.map((invoice) => {
+                const isExpanded = expandedInvoices[invoice.id]
+                const isForeign = invoice.currency !== BASE_CURRENCY
+
+                return (
+                  <Fragment key={invoice.id}>
+                    <tr>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">
+                        <button
+                          onClick={() => setExpandedInvoices({ ...expandedInvoices, [invoice.id]: !isExpanded })}
+                          className="text-[#0067ac] hover:text-[#005a94]"
+                        >
+                          {isExpanded ? '▾' : '▸'} {invoice.document_number}
+                        </button>
+                        {invoice.invoice_number && (
+                          <div className="text-xs text-gray-500">Supplier #{invoice.invoice_number}</div>
+                        )}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                        {new Date(invoice.invoice_date).toLocaleDateString()}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                        {invoice.supplier?.name || '-'}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                        {invoice.store?.name || '-'}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-right text-gray-900">
+                        {invoice.lines?.length ?? 0}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-right font-medium text-gray-900">
+                        {BASE_CURRENCY} {getInvoiceTotal(invoice).toFixed(2)}
+                        {isForeign && (
+                          <div className="text-xs font-normal text-gray-500">
+                            {invoice.currency} @ {Number(invoice.exchange_rate).toFixed(4)}
+                          </div>
+                        )}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm font-medium space-x-3">
+                        <label className="cursor-pointer text-[#0067ac] hover:text-[#005a94]">
+                          Attach
+                          <input
+                            type="file"
+                            accept="image/*,application/pdf"
+                            className="hidden"
+                            onChange={(e) => handleAttach(invoice, e.target.files?.[0])}
+                          />
+                        </label>
+                        {canDelete && (
+                          <button onClick={() => handleDelete(invoice)} className="text-red-600 hover:text-red-900">
+                            Delete
+                          </button>
+                        )}
+                      </td>
+                    </tr>
+                    {isExpanded && (
+                      <tr>
+                        <td colSpan={7} className="px-6 py-4 bg-gray-50">
+                          <table className="min-w-full divide-y divide-gray-200 text-xs">
+                            <thead>
+                              <tr>
+                                <th className="px-3 py-2 text-left font-medium text-gray-500 uppercase">Product</th>
+                                <th className="px-3 py-2 text-right font-medium text-gray-500 uppercase">Quantity</th>
+                                <th className="px-3 py-2 text-right font-medium text-gray-500 uppercase">Unit Cost</th>
+                                <th className="px-3 py-2 text-right font-medium text-gray-500 uppercase">Landed Unit Cost</th>
+                                <th className="px-3 py-2 text-right font-medium text-gray-500 uppercase">Total</th>
+                              </tr>
+                            </thead>
+                            <tbody className="divide-y divide-gray-200">
+                              {(invoice.lines || []).map((line) => (
+                                <tr key={line.id}>
+                                  <td className="px-3 py-2 text-gray-900">{line.product?.name || '-'}</td>
+                                  <td className="px-3 py-2 text-right text-gray-900">{line.quantity} {line.product?.unit || ''}</td>
+                                  <td className="px-3 py-2 text-right text-gray-900">
+                                    {invoice.currency} {Number(line.original_unit_cost ?? line.unit_cost).toFixed(2)}
+                                  </td>
+                                  <td className="px-3 py-2 text-right text-gray-900">
+                                    {BASE_CURRENCY} {Number(line.landed_unit_cost ?? line.unit_cost).toFixed(2)}
+                                  </td>
+                                  <td className="px-3 py-2 text-right text-gray-900">{BASE_CURRENCY} {Number(line.total_cost).toFixed(2)}</td>
+                                </tr>
+                              ))}
+                            </tbody>
+                          </table>
+                          {(Number(invoice.tax_percent) > 0 || Number(invoice.freight_cost) > 0 || Number(invoice.other_charges) > 0) && (
+                            <p className="mt-2 text-xs text-gray-500">
+                              Charges: sales tax {Number(invoice.tax_percent)}%, freight {BASE_CURRENCY} {Number(invoice.freight_cost).toFixed(2)}, other {BASE_CURRENCY} {Number(invoice.other_charges).toFixed(2)} (allocated by {invoice.charge_allocation})
+                            </p>
+                          )}
+                          {invoice.receive_via_grn && (
+                            <p className="mt-2 text-xs text-gray-500">Stock is received through goods received notes.</p>
+                          )}
+                          {(invoice.attachments || []).length > 0 && (
+                            <p className="mt-2 text-xs text-gray-500">
+                              Attachments:{' '}
+                              {(invoice.attachments || []).map((attachment, index) => (
+                                <Fragment key={attachment.id}>
+                                  {index > 0 && ', '}
+                                  <button
+                                    onClick={() => handleOpenAttachment(attachment)}
+                                    className="text-[#0067ac] hover:text-[#005a94] underline"
+                                  >
+                                    {attachment.file_name}
+                                  </button>
+                                </Fragment>
+                              ))}
+                            </p>
+                          )}
+                          {invoice.notes && <p className="mt-2 text-xs text-gray-500">Notes: {invoice.notes}</p>}
+                        </td>
+                      </tr>
+                    )}
+                  </Fragment>
+                )
+              })
+            )}
+          </tbody>
+        </table>
+        </div>
+      </div>
+    </div>
+  )
+}
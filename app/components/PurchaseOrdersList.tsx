@@ -0,0 +1,795 @@
+'use client'
+
+import { Fragment, useMemo, useState } from 'react'
+import {
+  createPurchaseOrder,
+  updatePurchaseOrder,
+  submitPurchaseOrder,
+  approvePurchaseOrder,
+  rejectPurchaseOrder,
+  receivePurchaseOrder,
+  closePurchaseOrder,
+  deletePurchaseOrder,
+} from '@/lib/actions/purchaseOrders'
+import { getErrorMessage } from '@/lib/utils/errors'
+import type { ChargeAllocationMethod, Product, PurchaseOrder, PurchaseOrderStatus, Store } from '@/lib/types'
+
+const STATUS_LABELS: Record<PurchaseOrderStatus, string> = {
+  draft: 'Draft',
+  submitted: 'Awaiting Approval',
+  approved: 'Approved',
+  rejected: 'Rejected',
+  partially_received: 'Partially Received',
+  received: 'Received',
+  closed: 'Closed',
+}
+
+const STATUS_CLASSES: Record<PurchaseOrderStatus, string> = {
+  draft: 'bg-gray-100 text-gray-800',
+  submitted: 'bg-yellow-100 text-yellow-800',
+  approved: 'bg-blue-100 text-blue-800',
+  rejected: 'bg-red-100 text-red-800',
+  partially_received: 'bg-orange-100 text-orange-800',
+  received: 'bg-green-100 text-green-800',
+  closed: 'bg-gray-200 text-gray-600',
+}
+
+const OPEN_STATUSES: PurchaseOrderStatus[] = ['draft', 'submitted', 'approved', 'rejected', 'partially_received']
+
+interface LineFormData {
+  product_id: string
+  quantity: string
+  unit_cost: string
+}
+
+const emptyLine = (): LineFormData => ({ product_id: '', quantity: '', unit_cost: '' })
+
+function getOutstanding(order: PurchaseOrder) {
+  return (order.items || []).reduce(
+    (sum, item) => sum + Math.max(Number(item.quantity) - Number(item.received_quantity), 0),
+    0
+  )
+}
+
+// Landed total: lines plus sales tax, freight and other charges
+function getOrderTotal(order: PurchaseOrder) {
+  const linesValue = (order.items || []).reduce((sum, item) => sum + Number(item.quantity) * Number(item.unit_cost), 0)
+  return linesValue * (1 + Number(order.tax_percent || 0) / 100) + Number(order.freight_cost || 0) + Number(order.other_charges || 0)
+}
+
+export default function PurchaseOrdersList({
+  purchaseOrders,
+  products,
+  stores,
+  canApprove,
+}: {
+  purchaseOrders: PurchaseOrder[]
+  products: Product[]
+  stores: Store[]
+  canApprove: boolean
+}) {
+  const sortedProducts = useMemo(
+    () => [...products].sort((a, b) => a.name.localeCompare(b.name)),
+    [products]
+  )
+
+  const [statusFilter, setStatusFilter] = useState<'open' | 'all' | PurchaseOrderStatus>('open')
+  const [expandedOrders, setExpandedOrders] = useState<Record<string, boolean>>({})
+  const [showModal, setShowModal] = useState(false)
+  const [editingOrder, setEditingOrder] = useState<PurchaseOrder | null>(null)
+  const [receivingOrder, setReceivingOrder] = useState<PurchaseOrder | null>(null)
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [formData, setFormData] = useState({
+    store_id: '',
+    order_date: new Date().toISOString().split('T')[0],
+    expected_date: '',
+    notes: '',
+    tax_percent: '',
+    freight_cost: '',
+    other_charges: '',
+    charge_allocation: 'value' as ChargeAllocationMethod,
+  })
+  const [lines, setLines] = useState<LineFormData[]>([emptyLine()])
+  const [receiptData, setReceiptData] = useState({
+    receipt_date: new Date().toISOString().split('T')[0],
+    notes: '',
+  })
+  const [receiptQuantities, setReceiptQuantities] = useState<Record<string, string>>({})
+
+  const visibleOrders = useMemo(() => {
+    if (statusFilter === 'all') return purchaseOrders
+    if (statusFilter === 'open') {
+      return purchaseOrders.filter((order) => OPEN_STATUSES.includes(order.status))
+    }
+    return purchaseOrders.filter((order) => order.status === statusFilter)
+  }, [purchaseOrders, statusFilter])
+
+  const resetForm = () => {
+    setEditingOrder(null)
+    setFormData({
+      store_id: '',
+      order_date: new Date().toISOString().split('T')[0],
+      expected_date: '',
+      notes: '',
+      tax_percent: '',
+      freight_cost: '',
+      other_charges: '',
+      charge_allocation: 'value',
+    })
+    setLines([emptyLine()])
+    setError(null)
+  }
+
+  const updateLine = (index: number, changes: Partial<LineFormData>) => {
+    setLines((prev) => prev.map((line, i) => (i === index ? { ...line, ...changes } : line)))
+  }
+
+  const handleEdit = (order: PurchaseOrder) => {
+    setEditingOrder(order)
+    setFormData({
+      store_id: order.store_id,
+      order_date: order.order_date,
+      expected_date: order.expected_date || '',
+      notes: order.notes || '',
+      tax_percent: Number(order.tax_percent) ? String(order.tax_percent) : '',
+      freight_cost: Number(order.freight_cost) ? String(order.freight_cost) : '',
+      other_charges: Number(order.other_charges) ? String(order.other_charges) : '',
+      charge_allocation: order.charge_allocation || 'value',
+    })
+    setLines(
+      (order.items || []).map((item) => ({
+        product_id: item.product_id,
+        quantity: item.quantity.toString(),
+        unit_cost: item.unit_cost.toString(),
+      }))
+    )
+    setError(null)
+    setShowModal(true)
+  }
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setError(null)
+    setLoading(true)
+
+    if (!formData.store_id) {
+      setError('Please select a store')
+      setLoading(false)
+      return
+    }
+
+    const items = lines
+      .filter((line) => line.product_id || line.quantity || line.unit_cost)
+      .map((line) => ({
+        product_id: line.product_id,
+        quantity: parseFloat(line.quantity),
+        unit_cost: parseFloat(line.unit_cost),
+      }))
+
+    if (items.length === 0) {
+      setError('Add at least one product line')
+      setLoading(false)
+      return
+    }
+
+    const charges = {
+      tax_percent: formData.tax_percent ? parseFloat(formData.tax_percent) : 0,
+      freight_cost: formData.freight_cost ? parseFloat(formData.freight_cost) : 0,
+      other_charges: formData.other_charges ? parseFloat(formData.other_charges) : 0,
+      charge_allocation: formData.charge_allocation,
+    }
+
+    const result = editingOrder
+      ? await updatePurchaseOrder({
+          id: editingOrder.id,
+          store_id: formData.store_id,
+          order_date: formData.order_date || undefined,
+          expected_date: formData.expected_date || null,
+          notes: formData.notes,
+          ...charges,
+          items,
+        })
+      : await createPurchaseOrder({
+          store_id: formData.store_id,
+          order_date: formData.order_date || undefined,
+          expected_date: formData.expected_date || undefined,
+          notes: formData.notes || undefined,
+          ...charges,
+          items,
+        })
+
+    if (result.error) {
+      setError(getErrorMessage(result.error))
+      setLoading(false)
+      return
+    }
+
+    window.location.reload()
+  }
+
+  const runAction = async (action: () => Promise<{ error: unknown }>) => {
+    const result = await action()
+    if (result.error) {
+      alert(getErrorMessage(result.error))
+      return
+    }
+    window.location.reload()
+  }
+
+  const handleReject = async (order: PurchaseOrder) => {
+    const reason = prompt(`Reason for rejecting ${order.po_number} (optional):`)
+    if (reason === null) {
+      return
+    }
+    await runAction(() => rejectPurchaseOrder(order.id, reason))
+  }
+
+  const handleDelete = async (order: PurchaseOrder) => {
+    if (!confirm(`Are you sure you want to delete ${order.po_number}?`)) {
+      return
+    }
+    await runAction(() => deletePurchaseOrder(order.id))
+  }
+
+  const handleClose = async (order: PurchaseOrder) => {
+    const outstanding = getOutstanding(order)
+    const message = outstanding > 0
+      ? `${order.po_number} still has ${outstanding} units outstanding. Closing it cancels the remaining quantities. Continue?`
+      : `Close ${order.po_number}?`
+    if (!confirm(message)) {
+      return
+    }
+    await runAction(() => closePurchaseOrder(order.id))
+  }
+
+  const openReceiveModal = (order: PurchaseOrder) => {
+    setReceivingOrder(order)
+    setReceiptData({
+      receipt_date: new Date().toISOString().split('T')[0],
+      notes: '',
+    })
+    const defaults: Record<string, string> = {}
+    ;(order.items || []).forEach((item) => {
+      const outstanding = Number(item.quantity) - Number(item.received_quantity)
+      defaults[item.id] = outstanding > 0 ? outstanding.toString() : ''
+    })
+    setReceiptQuantities(defaults)
+    setError(null)
+  }
+
+  const handleReceive = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!receivingOrder) return
+
+    setError(null)
+    setLoading(true)
+
+    const receiptLines = Object.entries(receiptQuantities)
+      .map(([itemId, quantity]) => ({
+        purchase_order_item_id: itemId,
+        quantity: parseFloat(quantity),
+      }))
+      .filter((line) => !isNaN(line.quantity) && line.quantity > 0)
+
+    const result = await receivePurchaseOrder({
+      purchase_order_id: receivingOrder.id,
+      receipt_date: receiptData.receipt_date || undefined,
+      notes: receiptData.notes || undefined,
+      lines: receiptLines,
+    })
+
+    if (result.error) {
+      setError(getErrorMessage(result.error))
+      setLoading(false)
+      return
+    }
+
+    window.location.reload()
+  }
+
+  const linesTotal = lines.reduce((sum, line) => {
+    const quantity = parseFloat(line.quantity)
+    const unitCost = parseFloat(line.unit_cost)
+    return sum + (isNaN(quantity) || isNaN(unitCost) ? 0 : quantity * unitCost)
+  }, 0)
+  const chargesTotal =
+    linesTotal * ((parseFloat(formData.tax_percent) || 0) / 100) +
+    (parseFloat(formData.freight_cost) || 0) +
+    (parseFloat(formData.other_charges) || 0)
+
+  return (
+    <div>
+      <div className="mb-4 flex flex-wrap items-end justify-between gap-4">
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">
+            Status
+          </label>
+          <select
+            value={statusFilter}
+            onChange={(e) => setStatusFilter(e.target.value as 'open' | 'all' | PurchaseOrderStatus)}
+            className="rounded-md border border-gray-300 px-3 py-2 text-sm text-gray-900 bg-white focus:border-[#0067ac] focus:outline-none focus:ring-2 focus:ring-[#0067ac]"
+          >
+            <option value="open">Open Orders</option>
+            <option value="all">All Orders</option>
+            {(Object.keys(STATUS_LABELS) as PurchaseOrderStatus[]).map((status) => (
+              <option key={status} value={status}>
+                {STATUS_LABELS[status]}
+              </option>
+            ))}
+          </select>
+        </div>
+        <button
+          onClick={() => {
+            resetForm()
+            setShowModal(true)
+          }}
+          className="rounded-md px-4 py-2 text-sm font-semibold text-white transition-colors"
+          style={{ backgroundColor: '#0067ac' }}
+          onMouseEnter={(e) => {
+            e.currentTarget.style.backgroundColor = '#005a94'
+          }}
+          onMouseLeave={(e) => {
+            e.currentTarget.style.backgroundColor = '#0067ac'
+          }}
+        >
+          New Purchase Order
+        </button>
+      </div>
+
+      {showModal && (
+        <div className="fixed inset-0 z-50 flex items-center justify-center bg-black bg-opacity-50">
+          <div className="bg-white rounded-lg p-6 w-full max-w-3xl max-h-[90vh] overflow-y-auto">
+            <h3 className="text-xl font-bold mb-4" style={{ color: '#0067ac' }}>
+              {editingOrder ? `Edit ${editingOrder.po_number}` : 'New Purchase Order'}
+            </h3>
+            <form onSubmit={handleSubmit} className="space-y-4">
+              {error && (
+                <div className="rounded-md bg-red-50 p-3 border border-red-200">
+                  <div className="text-sm text-red-800">{error}</div>
+                </div>
+              )}
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Store *
+                  </label>
+                  <select
+                    required
+                    value={formData.store_id}
+                    onChange={(e) => setFormData({ ...formData, store_id: e.target.value })}
+                    className="w-full rounded-md border border-gray-300 px-3 py-2 text-sm text-gray-900 bg-white focus:border-[#0067ac] focus:outline-none focus:ring-2 focus:ring-[#0067ac]"
+                  >
+                    <option value="">Select a store</option>
+                    {stores.map((store) => (
+                      <option key={store.id} value={store.id}>
+                        {store.name}{store.type === 'project' && store.project ? ` (${store.project.name})` : ''}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Order Date *
+                  </label>
+                  <input
+                    type="date"
+                    required
+                    value={formData.order_date}
+                    onChange={(e) => setFormData({ ...formData, order_date: e.target.value })}
+                    className="w-full rounded-md border border-gray-300 px-3 py-2 text-sm text-gray-900 focus:border-[#0067ac] focus:outline-none focus:ring-2 focus:ring-[#0067ac]"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Expected Delivery
+                  </label>
+                  <input
+                    type="date"
+                    value={formData.expected_date}
+                    onChange={(e) => setFormData({ ...formData, expected_date: e.target.value })}
+                    className="w-full rounded-md border border-gray-300 px-3 py-2 text-sm text-gray-900 focus:border-[#0067ac] focus:outline-none focus:ring-2 focus:ring-[#0067ac]"
+                  />
+                </div>
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Products *
+                </label>
+                <div className="space-y-2">
+                  {lines.map((line, index) => (
+                    <div key={index} className="grid grid-cols-12 gap-2 items-center">
+                      <select
+                        value={line.product_id}
+                        onChange={(e) => updateLine(index, { product_id: e.target.value })}
+                        className="col-span-6 rounded-md border border-gray-300 px-3 py-2 text-sm text-gray-900 bg-white focus:border-[#0067ac] focus:outline-none focus:ring-2 focus:ring-[#0067ac]"
+                      >
+                        <option value="">Select a product</option>
+                        {sortedProducts.map((product) => (
+                          <option key={product.id} value={product.id}>
+                            {product.name}{product.category?.name ? ` (${product.category.name})` : ''} • {product.unit}
+                          </option>
+                        ))}
+                      </select>
+                      <input
+                        type="number"
+                        step="0.01"
+                        min="0.01"
+                        value={line.quantity}
+                        onChange={(e) => updateLine(index, { quantity: e.target.value })}
+                        placeholder="Qty"
+                        className="col-span-2 rounded-md border border-gray-300 px-3 py-2 text-sm text-gray-900 placeholder-gray-500 focus:border-[#0067ac] focus:outline-none focus:ring-2 focus:ring-[#0067ac]"
+                      />
+                      <input
+                        type="number"
+                        step="0.01"
+                        min="0"
+                        value={line.unit_cost}
+                        onChange={(e) => updateLine(index, { unit_cost: e.target.value })}
+                        placeholder="Unit cost"
+                        className="col-span-3 rounded-md border border-gray-300 px-3 py-2 text-sm text-gray-900 placeholder-gray-500 focus:border-[#0067ac] focus:outline-none focus:ring-2 focus:ring-[#0067ac]"
+                      />
+                      <button
+                        type="button"
+                        onClick={() => setLines((prev) => (prev.length > 1 ? prev.filter((_, i) => i !== index) : [emptyLine()]))}
+                        className="col-span-1 text-sm text-red-600 hover:text-red-900"
+                      >
+                        Remove
+                      </button>
+                    </div>
+                  ))}
+                </div>
+                <div className="mt-2 flex items-center justify-between">
+                  <button
+                    type="button"
+                    onClick={() => setLines((prev) => [...prev, emptyLine()])}
+                    className="text-sm text-[#0067ac] hover:text-[#005a94] underline"
+                  >
+                    Add Line
+                  </button>
+                  <span className="text-sm font-medium text-gray-700">
+                    Order Total: PKR {linesTotal.toFixed(2)}
+                  </span>
+                </div>
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Charges
+                </label>
+                <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+                  <input
+                    type="number"
+                    step="0.01"
+                    min="0"
+                    max="100"
+                    value={formData.tax_percent}
+                    onChange={(e) => setFormData({ ...formData, tax_percent: e.target.value })}
+                    className="rounded-md border border-gray-300 px-3 py-2 text-sm text-gray-900 placeholder-gray-500 focus:border-[#0067ac] focus:outline-none focus:ring-2 focus:ring-[#0067ac]"
+                    placeholder="Sales tax %"
+                  />
+                  <input
+                    type="number"
+                    step="0.01"
+                    min="0"
+                    value={formData.freight_cost}
+                    onChange={(e) => setFormData({ ...formData, freight_cost: e.target.value })}
+                    className="rounded-md border border-gray-300 px-3 py-2 text-sm text-gray-900 placeholder-gray-500 focus:border-[#0067ac] focus:outline-none focus:ring-2 focus:ring-[#0067ac]"
+                    placeholder="Freight (PKR)"
+                  />
+                  <input
+                    type="number"
+                    step="0.01"
+                    min="0"
+                    value={formData.other_charges}
+                    onChange={(e) => setFormData({ ...formData, other_charges: e.target.value })}
+                    className="rounded-md border border-gray-300 px-3 py-2 text-sm text-gray-900 placeholder-gray-500 focus:border-[#0067ac] focus:outline-none focus:ring-2 focus:ring-[#0067ac]"
+                    placeholder="Other charges (PKR)"
+                  />
+                  <select
+                    value={formData.charge_allocation}
+                    onChange={(e) => setFormData({ ...formData, charge_allocation: e.target.value as ChargeAllocationMethod })}
+                    className="rounded-md border border-gray-300 px-3 py-2 text-sm text-gray-900 focus:border-[#0067ac] focus:outline-none focus:ring-2 focus:ring-[#0067ac]"
+                  >
+                    <option value="value">Allocate by value</option>
+                    <option value="quantity">Allocate by quantity</option>
+                  </select>
+                </div>
+                <p className="mt-1 text-xs text-gray-500">
+                  Freight and other charges are spread over the lines into the landed unit cost.
+                  {chargesTotal > 0 && ` Landed total: PKR ${(linesTotal + chargesTotal).toFixed(2)}`}
+                </p>
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Notes
+                </label>
+                <textarea
+                  value={formData.notes}
+                  onChange={(e) => setFormData({ ...formData, notes: e.target.value })}
+                  rows={2}
+                  className="w-full rounded-md border border-gray-300 px-3 py-2 text-sm text-gray-900 placeholder-gray-500 focus:border-[#0067ac] focus:outline-none focus:ring-2 focus:ring-[#0067ac]"
+                  placeholder="Optional notes"
+                />
+              </div>
+
+              <div className="flex gap-3 pt-4">
+                <button
+                  type="button"
+                  onClick={() => {
+                    setShowModal(false)
+                    resetForm()
+                  }}
+                  className="flex-1 rounded-md border border-gray-300 bg-white px-4 py-2 text-sm font-medium text-gray-700 hover:bg-gray-50"
+                >
+                  Cancel
+                </button>
+                <button
+                  type="submit"
+                  disabled={loading}
+                  className="flex-1 rounded-md px-4 py-2 text-sm font-semibold text-white disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                  style={{ backgroundColor: '#0067ac' }}
+                >
+                  {loading ? 'Saving...' : (editingOrder ? 'Update Purchase Order' : 'Save as Draft')}
+                </button>
+              </div>
+            </form>
+          </div>
+        </div>
+      )}
+
+      {receivingOrder && (
+        <div className="fixed inset-0 z-50 flex items-center justify-center bg-black bg-opacity-50">
+          <div className="bg-white rounded-lg p-6 w-full max-w-2xl max-h-[90vh] overflow-y-auto">
+            <h3 className="text-xl font-bold mb-4" style={{ color: '#0067ac' }}>
+              Receive Goods - {receivingOrder.po_number}
+            </h3>
+            <form onSubmit={handleReceive} className="space-y-4">
+              {error && (
+                <div className="rounded-md bg-red-50 p-3 border border-red-200">
+                  <div className="text-sm text-red-800">{error}</div>
+                </div>
+              )}
+              <table className="min-w-full divide-y divide-gray-200 text-sm">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Product</th>
+                    <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase">Ordered</th>
+                    <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase">Received</th>
+                    <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase">Receive Now</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-200">
+                  {(receivingOrder.items || []).map((item) => {
+                    const outstanding = Number(item.quantity) - Number(item.received_quantity)
+                    return (
+                      <tr key={item.id}>
+                        <td className="px-3 py-2 text-gray-900">{item.product?.name || '-'}</td>
+                        <td className="px-3 py-2 text-right text-gray-900">{item.quantity} {item.product?.unit || ''}</td>
+                        <td className="px-3 py-2 text-right text-gray-500">{item.received_quantity}</td>
+                        <td className="px-3 py-2 text-right">
+                          <input
+                            type="number"
+                            step="0.01"
+                            min="0"
+                            max={outstanding}
+                            disabled={outstanding <= 0}
+                            value={receiptQuantities[item.id] ?? ''}
+                            onChange={(e) => setReceiptQuantities({ ...receiptQuantities, [item.id]: e.target.value })}
+                            className="w-28 rounded-md border border-gray-300 px-2 py-1 text-sm text-gray-900 text-right focus:border-[#0067ac] focus:outline-none focus:ring-2 focus:ring-[#0067ac] disabled:bg-gray-100"
+                          />
+                        </td>
+                      </tr>
+                    )
+                  })}
+                </tbody>
+              </table>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Receipt Date *
+                </label>
+                <input
+                  type="date"
+                  required
+                  value={receiptData.receipt_date}
+                  onChange={(e) => setReceiptData({ ...receiptData, receipt_date: e.target.value })}
+                  className="w-full rounded-md border border-gray-300 px-3 py-2 text-sm text-gray-900 focus:border-[#0067ac] focus:outline-none focus:ring-2 focus:ring-[#0067ac]"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Notes
+                </label>
+                <textarea
+                  value={receiptData.notes}
+                  onChange={(e) => setReceiptData({ ...receiptData, notes: e.target.value })}
+                  rows={2}
+                  className="w-full rounded-md border border-gray-300 px-3 py-2 text-sm text-gray-900 placeholder-gray-500 focus:border-[#0067ac] focus:outline-none focus:ring-2 focus:ring-[#0067ac]"
+                  placeholder="Optional notes"
+                />
+              </div>
+              <div className="flex gap-3 pt-4">
+                <button
+                  type="button"
+                  onClick={() => {
+                    setReceivingOrder(null)
+                    setError(null)
+                  }}
+                  className="flex-1 rounded-md border border-gray-300 bg-white px-4 py-2 text-sm font-medium text-gray-700 hover:bg-gray-50"
+                >
+                  Cancel
+                </button>
+                <button
+                  type="submit"
+                  disabled={loading}
+                  className="flex-1 rounded-md px-4 py-2 text-sm font-semibold text-white disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                  style={{ backgroundColor: '#0067ac' }}
+                >
+                  {loading ? 'Receiving...' : 'Receive Goods'}
+                </button>
+              </div>
+            </form>
+          </div>
+        </div>
+      )}
+
+      <div className="rounded-lg bg-white shadow-md border overflow-hidden" style={{ borderColor: '#E77817' }}>
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200">
+          <thead className="bg-gray-50">
+            <tr>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                PO Number
+              </th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Date
+              </th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Store
+              </th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Status
+              </th>
+              <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Outstanding
+              </th>
+              <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Order Total
+              </th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Actions
+              </th>
+            </tr>
+          </thead>
+          <tbody className="bg-white divide-y divide-gray-200">
+            {visibleOrders.length === 0 ? (
+              <tr>
+                <td colSpan={7} className="px-6 py-4 text-center text-sm text-gray-500">
+                  No purchase orders found.
+                </td>
+              </tr>
+            ) : (
+              visibleOrders.map((order) => {
+                const isExpanded = expandedOrders[order.id]
+                const canEdit = order.status === 'draft' || order.status === 'rejected'
+                const canReceive = order.status === 'approved' || order.status === 'partially_received'
+                const canClose = canApprove && (canReceive || order.status === 'received')
+
+                return (
+                  <Fragment key={order.id}>
+                    <tr>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">
+                        <button
+                          onClick={() => setExpandedOrders({ ...expandedOrders, [order.id]: !isExpanded })}
+                          className="text-[#0067ac] hover:text-[#005a94]"
+                        >
+                          {isExpanded ? '▾' : '▸'} {order.po_number}
+                        </button>
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                        {new Date(order.order_date).toLocaleDateString()}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                        {order.store?.name || '-'}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm">
+                        <span className={`inline-flex rounded-full px-2 py-1 text-xs font-semibold ${STATUS_CLASSES[order.status]}`}>
+                          {STATUS_LABELS[order.status]}
+                        </span>
+                        {order.status === 'rejected' && order.rejection_reason && (
+                          <p className="mt-1 text-xs text-red-600">{order.rejection_reason}</p>
+                        )}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-right text-gray-900">
+                        {order.status === 'closed' ? '-' : getOutstanding(order).toLocaleString()}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-right font-medium text-gray-900">
+                        PKR {getOrderTotal(order).toFixed(2)}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm font-medium space-x-3">
+                        {canEdit && (
+                          <>
+                            <button onClick={() => handleEdit(order)} className="text-[#0067ac] hover:text-[#005a94]">
+                              Edit
+                            </button>
+                            <button onClick={() => runAction(() => submitPurchaseOrder(order.id))} className="text-[#0067ac] hover:text-[#005a94]">
+                              Submit
+                            </button>
+                          </>
+                        )}
+                        {canApprove && order.status === 'submitted' && (
+                          <>
+                            <button onClick={() => runAction(() => approvePurchaseOrder(order.id))} className="text-green-600 hover:text-green-900">
+                              Approve
+                            </button>
+                            <button onClick={() => handleReject(order)} className="text-red-600 hover:text-red-900">
+                              Reject
+                            </button>
+                          </>
+                        )}
+                        {canReceive && (
+                          <button onClick={() => openReceiveModal(order)} className="text-[#E77817] hover:text-[#d66a14]">
+                            Receive
+                          </button>
+                        )}
+                        {canClose && (
+                          <button onClick={() => handleClose(order)} className="text-gray-600 hover:text-gray-900">
+                            Close
+                          </button>
+                        )}
+                        {(canEdit || order.status === 'submitted') && (
+                          <button onClick={() => handleDelete(order)} className="text-red-600 hover:text-red-900">
+                            Delete
+                          </button>
+                        )}
+                      </td>
+                    </tr>
+                    {isExpanded && (
+                      <tr>
+                        <td colSpan={7} className="px-6 py-4 bg-gray-50">
+                          <table className="min-w-full divide-y divide-gray-200 text-xs">
+                            <thead>
+                              <tr>
+                                <th className="px-3 py-2 text-left font-medium text-gray-500 uppercase">Product</th>
+                                <th className="px-3 py-2 text-right font-medium text-gray-500 uppercase">Ordered</th>
+                                <th className="px-3 py-2 text-right font-medium text-gray-500 uppercase">Received</th>
+                                <th className="px-3 py-2 text-right font-medium text-gray-500 uppercase">Outstanding</th>
+                                <th className="px-3 py-2 text-right font-medium text-gray-500 uppercase">Unit Cost</th>
+                              </tr>
+                            </thead>
+                            <tbody className="divide-y divide-gray-200">
+                              {(order.items || []).map((item) => (
+                                <tr key={item.id}>
+                                  <td className="px-3 py-2 text-gray-900">{item.product?.name || '-'}</td>
+                                  <td className="px-3 py-2 text-right text-gray-900">{item.quantity} {item.product?.unit || ''}</td>
+                                  <td className="px-3 py-2 text-right text-gray-900">{item.received_quantity}</td>
+                                  <td className="px-3 py-2 text-right text-gray-900">
+                                    {Math.max(Number(item.quantity) - Number(item.received_quantity), 0)}
+                                  </td>
+                                  <td className="px-3 py-2 text-right text-gray-900">PKR {Number(item.unit_cost).toFixed(2)}</td>
+                                </tr>
+                              ))}
+                            </tbody>
+                          </table>
+                          {(Number(order.tax_percent) > 0 || Number(order.freight_cost) > 0 || Number(order.other_charges) > 0) && (
+                            <p className="mt-2 text-xs text-gray-500">
+                              Charges: sales tax {Number(order.tax_percent || 0)}%, freight PKR {Number(order.freight_cost || 0).toFixed(2)}, other PKR {Number(order.other_charges || 0).toFixed(2)} (allocated by {order.charge_allocation || 'value'})
+                            </p>
+                          )}
+                          {order.notes && <p className="mt-2 text-xs text-gray-500">Notes: {order.notes}</p>}
+                        </td>
+                      </tr>
+                    )}
+                  </Fragment>
+                )
+              })
+            )}
+          </tbody>
+        </table>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,121 @@
+'use client'
+
+import { deletePurchaseReturn } from '@/lib/actions/purchaseReturns'
+import { getErrorMessage } from '@/lib/utils/errors'
+import type { PurchaseReturn } from '@/lib/types'
+
+export default function PurchaseReturnsList({
+  purchaseReturns,
+  canDelete,
+}: {
+  purchaseReturns: PurchaseReturn[]
+  canDelete: boolean
+}) {
+  const handleVoid = async (purchaseReturn: PurchaseReturn) => {
+    if (!confirm(`Are you sure you want to void ${purchaseReturn.return_number}? The stock will be put back into the store.`)) {
+      return
+    }
+
+    const result = await deletePurchaseReturn(purchaseReturn.id)
+    if (result.error) {
+      alert(getErrorMessage(result.error))
+      return
+    }
+    window.location.reload()
+  }
+
+  return (
+    <div className="rounded-lg bg-white shadow-md border overflow-hidden" style={{ borderColor: '#E77817' }}>
+      <div className="overflow-x-auto">
+        <table className="min-w-full divide-y divide-gray-200">
+        <thead className="bg-gray-50">
+          <tr>
+            <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+              Return
+            </th>
+            <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+              Date
+            </th>
+            <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+              Store
+            </th>
+            <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+              Product
+            </th>
+            <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+              Supplier
+            </th>
+            <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+              Quantity
+            </th>
+            <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+              Credit Value
+            </th>
+            <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+              Original Purchase
+            </th>
+            {canDelete && (
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Actions
+              </th>
+            )}
+          </tr>
+        </thead>
+        <tbody className="bg-white divide-y divide-gray-200">
+          {purchaseReturns.length === 0 ? (
+            <tr>
+              <td colSpan={canDelete ? 9 : 8} className="px-6 py-4 text-center text-sm text-gray-500">
+                No returns to suppliers recorded.
+              </td>
+            </tr>
+          ) : (
+            purchaseReturns.map((purchaseReturn) => (
+              <tr key={purchaseReturn.id}>
+                <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">
+                  {purchaseReturn.return_number}
+                </td>
+                <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                  {new Date(purchaseReturn.return_date).toLocaleDateString()}
+                </td>
+                <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                  {purchaseReturn.store?.name || '-'}
+                </td>
+                <td className="px-6 py-4 text-sm text-gray-900">
+                  {purchaseReturn.product?.name || '-'}
+                  {(purchaseReturn.reason || purchaseReturn.notes) && (
+                    <p className="mt-1 text-xs text-gray-500">
+                      {[purchaseReturn.reason, purchaseReturn.notes].filter(Boolean).join(' - ')}
+                    </p>
+                  )}
+                </td>
+                <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                  {purchaseReturn.supplier?.name || '-'}
+                </td>
+                <td className="px-6 py-4 whitespace-nowrap text-sm text-right font-semibold text-red-600">
+                  -{purchaseReturn.quantity} {purchaseReturn.product?.unit || ''}
+                </td>
+                <td className="px-6 py-4 whitespace-nowrap text-sm text-right text-gray-900">
+                  PKR {Number(purchaseReturn.total_cost).toFixed(2)}
+                  <p className="text-xs text-gray-500">at PKR {Number(purchaseReturn.unit_cost).toFixed(2)}</p>
+                </td>
+                <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                  {purchaseReturn.purchase
+                    ? `${purchaseReturn.purchase.quantity} bought on ${new Date(purchaseReturn.purchase.purchase_date).toLocaleDateString()}`
+                    : '-'}
+                </td>
+                {canDelete && (
+                  <td className="px-6 py-4 whitespace-nowrap text-sm font-medium">
+                    <button onClick={() => handleVoid(purchaseReturn)} className="text-red-600 hover:text-red-900">
+                      Void
+                    </button>
+                  </td>
+                )}
+              </tr>
+            ))
+          )}
+        </tbody>
+      </table>
+      </div>
+    </div>
+  )
+}
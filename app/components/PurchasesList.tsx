@@ -2,29 +2,60 @@
 
 import { useState, useEffect, useMemo, useRef } from 'react'
 import { createPurchase, updatePurchase, deletePurchase, getPurchases } from '@/lib/actions/purchases'
+import { createPurchaseReturn } from '@/lib/actions/purchaseReturns'
 import { getErrorMessage } from '@/lib/utils/errors'
-import type { Purchase, Product, Store, Category } from '@/lib/types'
+import { BASE_CURRENCY, CURRENCY_OPTIONS } from '@/lib/constants/currencies'
+import { getLandedUnitCost } from '@/lib/utils/landedCost'
+import type { ExchangeRate, GoodsReceivedNote, Purchase, PurchaseInvoice, PurchaseOrder, PurchaseReturn, Product, Store, Category, Supplier, Permission } from '@/lib/types'
+import PurchaseOrdersList from '@/app/components/PurchaseOrdersList'
+import PurchaseInvoicesList from '@/app/components/PurchaseInvoicesList'
+import GoodsReceivedNotesList from '@/app/components/GoodsReceivedNotesList'
+import PurchaseReturnsList from '@/app/components/PurchaseReturnsList'
+import ExchangeRatesList from '@/app/components/ExchangeRatesList'
 
 export default function PurchasesList({ 
   initialPurchases, 
+  purchaseInvoices,
+  purchaseOrders,
+  goodsReceivedNotes,
+  purchaseReturns,
+  exchangeRates,
   products, 
   categories,
   stores,
-  isAdmin 
+  suppliers,
+  permissions
 }: { 
   initialPurchases: Purchase[]
+  purchaseInvoices: PurchaseInvoice[]
+  purchaseOrders: PurchaseOrder[]
+  goodsReceivedNotes: GoodsReceivedNote[]
+  purchaseReturns: PurchaseReturn[]
+  exchangeRates: ExchangeRate[]
   products: Product[]
   categories: Category[]
   stores: Store[]
-  isAdmin: boolean
+  suppliers: Supplier[]
+  permissions: Permission[]
 }) {
+  const canEdit = permissions.includes('edit_purchases')
+  const canDelete = permissions.includes('delete_purchases')
+
   const sortProducts = (items: Product[]) =>
     [...items].sort((a, b) => a.name.localeCompare(b.name))
 
+  const [activeTab, setActiveTab] = useState<'purchases' | 'invoices' | 'orders' | 'grns' | 'returns' | 'rates'>('purchases')
   const [purchases, setPurchases] = useState(initialPurchases)
   const [productOptions, setProductOptions] = useState<Product[]>(sortProducts(products))
   const [showModal, setShowModal] = useState(false)
   const [editingPurchase, setEditingPurchase] = useState<Purchase | null>(null)
+  const [returningPurchase, setReturningPurchase] = useState<Purchase | null>(null)
+  const [returnData, setReturnData] = useState({
+    quantity: '',
+    return_date: new Date().toISOString().split('T')[0],
+    reason: '',
+    notes: '',
+  })
   const [loading, setLoading] = useState(false)
   const [error, setError] = useState<string | null>(null)
   const [filterProductId, setFilterProductId] = useState<string>('')
@@ -33,6 +64,7 @@ export default function PurchasesList({
   const filterProductSearchRef = useRef<HTMLDivElement>(null)
   const [filterStartDate, setFilterStartDate] = useState<string>('')
   const [filterEndDate, setFilterEndDate] = useState<string>('')
+  const [filterSupplierId, setFilterSupplierId] = useState<string>('')
   const [productSearch, setProductSearch] = useState('')
   const [showProductDropdown, setShowProductDropdown] = useState(false)
   const productSearchRef = useRef<HTMLDivElement>(null)
@@ -41,10 +73,17 @@ export default function PurchasesList({
   const [formData, setFormData] = useState({
     store_id: '',
     product_id: '',
+    supplier_id: '',
     quantity: '',
     unit_cost: '',
+    currency: BASE_CURRENCY,
+    exchange_rate: '',
+    tax_percent: '',
+    freight_cost: '',
+    other_charges: '',
     purchase_date: new Date().toISOString().split('T')[0],
     notes: '',
+    receive_via_grn: false,
   })
 
   useEffect(() => {
@@ -144,7 +183,7 @@ export default function PurchasesList({
   useEffect(() => {
     const loadFilteredPurchases = async () => {
       // Only filter if any filter is set, otherwise use initial data
-      if (!filterProductId && !filterStartDate && !filterEndDate) {
+      if (!filterProductId && !filterStartDate && !filterEndDate && !filterSupplierId) {
         setPurchases(initialPurchases)
         return
       }
@@ -154,7 +193,8 @@ export default function PurchasesList({
         filterProductId || undefined,
         undefined,
         filterStartDate || undefined,
-        filterEndDate || undefined
+        filterEndDate || undefined,
+        filterSupplierId || undefined
       )
       if (result.error) {
         setError(getErrorMessage(result.error))
@@ -166,7 +206,7 @@ export default function PurchasesList({
     
     loadFilteredPurchases()
     setCurrentPage(1) // Reset to page 1 when filters change
-  }, [filterProductId, filterStartDate, filterEndDate, initialPurchases])
+  }, [filterProductId, filterStartDate, filterEndDate, filterSupplierId, initialPurchases])
 
   // Pagination calculations
   const totalPages = Math.ceil(purchases.length / itemsPerPage)
@@ -211,13 +251,31 @@ export default function PurchasesList({
       return
     }
 
-    if (editingPurchase && isAdmin) {
+    // Left blank, the latest recorded rate for the purchase date is used
+    const exchange_rate = formData.exchange_rate ? parseFloat(formData.exchange_rate) : null
+    if (exchange_rate !== null && (isNaN(exchange_rate) || exchange_rate <= 0)) {
+      setError('Exchange rate must be greater than 0')
+      setLoading(false)
+      return
+    }
+
+    const charges = {
+      tax_percent: formData.tax_percent ? parseFloat(formData.tax_percent) : 0,
+      freight_cost: formData.freight_cost ? parseFloat(formData.freight_cost) : 0,
+      other_charges: formData.other_charges ? parseFloat(formData.other_charges) : 0,
+    }
+
+    if (editingPurchase && canEdit) {
       const result = await updatePurchase({
         id: editingPurchase.id,
         store_id: formData.store_id || undefined,
         product_id: formData.product_id || undefined,
+        supplier_id: formData.supplier_id || null,
         quantity,
         unit_cost,
+        currency: formData.currency,
+        exchange_rate,
+        ...charges,
         purchase_date: formData.purchase_date || undefined,
         notes: formData.notes || undefined,
       })
@@ -231,10 +289,15 @@ export default function PurchasesList({
       const result = await createPurchase({
         store_id: formData.store_id,
         product_id: formData.product_id,
+        supplier_id: formData.supplier_id || null,
         quantity,
         unit_cost,
+        currency: formData.currency,
+        exchange_rate: exchange_rate ?? undefined,
+        ...charges,
         purchase_date: formData.purchase_date || undefined,
         notes: formData.notes || undefined,
+        receive_via_grn: formData.receive_via_grn,
       })
 
       if (result.error) {
@@ -252,10 +315,17 @@ export default function PurchasesList({
     setFormData({
       store_id: purchase.store_id,
       product_id: purchase.product_id,
+      supplier_id: purchase.supplier_id || '',
       quantity: purchase.quantity.toString(),
-      unit_cost: purchase.unit_cost.toString(),
+      unit_cost: (purchase.original_unit_cost ?? purchase.unit_cost).toString(),
+      currency: purchase.currency || BASE_CURRENCY,
+      exchange_rate: purchase.currency && purchase.currency !== BASE_CURRENCY ? String(purchase.exchange_rate) : '',
+      tax_percent: Number(purchase.tax_percent) ? String(purchase.tax_percent) : '',
+      freight_cost: Number(purchase.freight_cost) ? String(purchase.freight_cost) : '',
+      other_charges: Number(purchase.other_charges) ? String(purchase.other_charges) : '',
       purchase_date: purchase.purchase_date,
       notes: purchase.notes || '',
+      receive_via_grn: !!purchase.receive_via_grn,
     })
     const selectedProduct = productOptions.find((product) => product.id === purchase.product_id)
     setProductSearch(selectedProduct?.name ?? '')
@@ -268,8 +338,8 @@ export default function PurchasesList({
       return
     }
 
-    if (!isAdmin) {
-      alert('Only admins can delete purchases')
+    if (!canDelete) {
+      alert('You do not have permission to delete purchases')
       return
     }
 
@@ -282,26 +352,203 @@ export default function PurchasesList({
     window.location.reload()
   }
 
+  // GRN purchases only hold what has been delivered so far
+  const getReturnableQuantity = (purchase: Purchase) => {
+    const received = purchase.receive_via_grn
+      ? goodsReceivedNotes
+          .filter((note) => note.purchase_id === purchase.id && note.status === 'posted')
+          .reduce((sum, note) => sum + Number(note.quantity), 0)
+      : Number(purchase.quantity)
+    return received - Number(purchase.returned_quantity || 0)
+  }
+
+  // The stores list is already limited to the stores this user manages
+  const canReturnPurchase = (purchase: Purchase) =>
+    stores.some((store) => store.id === purchase.store_id) && getReturnableQuantity(purchase) > 0
+
+  const openReturnModal = (purchase: Purchase) => {
+    setReturningPurchase(purchase)
+    setReturnData({
+      quantity: '',
+      return_date: new Date().toISOString().split('T')[0],
+      reason: '',
+      notes: '',
+    })
+    setError(null)
+  }
+
+  const handleReturn = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!returningPurchase) return
+
+    setError(null)
+    setLoading(true)
+
+    const quantity = parseFloat(returnData.quantity)
+    if (isNaN(quantity) || quantity <= 0) {
+      setError('Quantity must be greater than 0')
+      setLoading(false)
+      return
+    }
+
+    const returnable = getReturnableQuantity(returningPurchase)
+    if (quantity > returnable) {
+      setError(`Only ${returnable} can still be returned against this purchase`)
+      setLoading(false)
+      return
+    }
+
+    const result = await createPurchaseReturn({
+      purchase_id: returningPurchase.id,
+      quantity,
+      return_date: returnData.return_date || undefined,
+      reason: returnData.reason || undefined,
+      notes: returnData.notes || undefined,
+    })
+
+    if (result.error) {
+      setError(getErrorMessage(result.error))
+      setLoading(false)
+      return
+    }
+
+    window.location.reload()
+  }
+
   const resetForm = () => {
     setEditingPurchase(null)
     setFormData({
       store_id: '',
       product_id: '',
+      supplier_id: '',
       quantity: '',
       unit_cost: '',
+      currency: BASE_CURRENCY,
+      exchange_rate: '',
+      tax_percent: '',
+      freight_cost: '',
+      other_charges: '',
       purchase_date: new Date().toISOString().split('T')[0],
       notes: '',
+      receive_via_grn: false,
     })
     setError(null)
     setProductSearch('')
     setShowProductDropdown(false)
   }
 
+  // Latest rate on or before the purchase date, as the server will pick it
+  const isForeignCurrency = formData.currency !== BASE_CURRENCY
+  const recordedRate = isForeignCurrency
+    ? exchangeRates.find(
+        (rate) => rate.currency_code === formData.currency && rate.effective_date <= formData.purchase_date
+      ) ?? null
+    : null
+  const formRate = formData.exchange_rate ? parseFloat(formData.exchange_rate) : Number(recordedRate?.rate ?? 0)
+  const formQuantity = parseFloat(formData.quantity)
+  const formUnitCost = parseFloat(formData.unit_cost) * (isForeignCurrency ? formRate : 1)
+  const formLandedUnitCost =
+    formQuantity > 0 && formUnitCost >= 0 && (formData.tax_percent || formData.freight_cost || formData.other_charges)
+      ? getLandedUnitCost(Math.round(formUnitCost * 100) / 100, formQuantity, {
+          tax_percent: parseFloat(formData.tax_percent) || 0,
+          freight_cost: parseFloat(formData.freight_cost) || 0,
+          other_charges: parseFloat(formData.other_charges) || 0,
+        })
+      : null
+
+  const tabBar = (
+    <div className="mb-4 flex gap-2 border-b border-gray-200">
+      {([
+        ['purchases', 'Purchase History'],
+        ['invoices', 'Purchase Invoices'],
+        ['orders', 'Purchase Orders'],
+        ['grns', 'Goods Received'],
+        ['returns', 'Returns to Suppliers'],
+        ['rates', 'Exchange Rates'],
+      ] as const).map(([tab, label]) => (
+        <button
+          key={tab}
+          onClick={() => setActiveTab(tab)}
+          className={`px-4 py-2 text-sm font-medium border-b-2 -mb-px ${
+            activeTab === tab
+              ? 'border-[#0067ac] text-[#0067ac]'
+              : 'border-transparent text-gray-500 hover:text-gray-700'
+          }`}
+        >
+          {label}
+        </button>
+      ))}
+    </div>
+  )
+
+  if (activeTab === 'invoices') {
+    return (
+      <div>
+        {tabBar}
+        <PurchaseInvoicesList
+          purchaseInvoices={purchaseInvoices}
+          exchangeRates={exchangeRates}
+          products={products}
+          stores={stores}
+          suppliers={suppliers}
+          canDelete={canDelete}
+        />
+      </div>
+    )
+  }
+
+  if (activeTab === 'orders') {
+    return (
+      <div>
+        {tabBar}
+        <PurchaseOrdersList
+          purchaseOrders={purchaseOrders}
+          products={products}
+          stores={stores}
+          canApprove={permissions.includes('approve_purchase_orders')}
+        />
+      </div>
+    )
+  }
+
+  if (activeTab === 'grns') {
+    return (
+      <div>
+        {tabBar}
+        <GoodsReceivedNotesList
+          goodsReceivedNotes={goodsReceivedNotes}
+          purchases={initialPurchases}
+          purchaseOrders={purchaseOrders}
+        />
+      </div>
+    )
+  }
+
+  if (activeTab === 'returns') {
+    return (
+      <div>
+        {tabBar}
+        <PurchaseReturnsList purchaseReturns={purchaseReturns} canDelete={canDelete} />
+      </div>
+    )
+  }
+
+  if (activeTab === 'rates') {
+    return (
+      <div>
+        {tabBar}
+        <ExchangeRatesList exchangeRates={exchangeRates} canManage={permissions.includes('manage_exchange_rates')} />
+      </div>
+    )
+  }
+
   return (
     <div>
+      {tabBar}
+
       {/* Filters */}
       <div className="mb-4 bg-white rounded-lg shadow-md border p-4" style={{ borderColor: '#E77817' }}>
-        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
           <div>
             <label className="block text-sm font-medium text-gray-700 mb-1">
               Filter by Product
@@ -353,6 +600,23 @@ export default function PurchasesList({
               )}
             </div>
           </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              Filter by Supplier
+            </label>
+            <select
+              value={filterSupplierId}
+              onChange={(e) => setFilterSupplierId(e.target.value)}
+              className="w-full rounded-md border border-gray-300 px-3 py-2 text-sm text-gray-900 bg-white focus:border-[#0067ac] focus:outline-none focus:ring-2 focus:ring-[#0067ac]"
+            >
+              <option value="">All Suppliers</option>
+              {suppliers.map((supplier) => (
+                <option key={supplier.id} value={supplier.id}>
+                  {supplier.name}
+                </option>
+              ))}
+            </select>
+          </div>
           <div>
             <label className="block text-sm font-medium text-gray-700 mb-1">
               Start Date
@@ -383,6 +647,7 @@ export default function PurchasesList({
               setFilterProductSearch('')
               setFilterStartDate('')
               setFilterEndDate('')
+              setFilterSupplierId('')
             }}
             className="text-sm text-gray-600 hover:text-gray-900 underline"
           >
@@ -444,7 +709,7 @@ export default function PurchasesList({
                   required={!editingPurchase}
                   value={formData.store_id}
                   onChange={(e) => setFormData({ ...formData, store_id: e.target.value })}
-                  disabled={!!editingPurchase && !isAdmin}
+                  disabled={!!editingPurchase && !canEdit}
                   className="w-full rounded-md border border-gray-300 px-3 py-2 text-sm text-gray-900 bg-white focus:border-[#0067ac] focus:outline-none focus:ring-2 focus:ring-[#0067ac] disabled:bg-gray-100 disabled:cursor-not-allowed"
                 >
                   <option value="">Select a store</option>
@@ -455,6 +720,26 @@ export default function PurchasesList({
                   ))}
                 </select>
               </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Supplier
+                </label>
+                <select
+                  value={formData.supplier_id}
+                  onChange={(e) => setFormData({ ...formData, supplier_id: e.target.value })}
+                  className="w-full rounded-md border border-gray-300 px-3 py-2 text-sm text-gray-900 bg-white focus:border-[#0067ac] focus:outline-none focus:ring-2 focus:ring-[#0067ac]"
+                >
+                  <option value="">No supplier</option>
+                  {editingPurchase?.supplier && !suppliers.some((supplier) => supplier.id === editingPurchase.supplier_id) && (
+                    <option value={editingPurchase.supplier.id}>{editingPurchase.supplier.name} (deleted)</option>
+                  )}
+                  {suppliers.map((supplier) => (
+                    <option key={supplier.id} value={supplier.id}>
+                      {supplier.name}
+                    </option>
+                  ))}
+                </select>
+              </div>
               <div>
                 <label className="block text-sm font-medium text-gray-700 mb-1">
                   Product *
@@ -472,7 +757,7 @@ export default function PurchasesList({
                     }}
                     onFocus={() => setShowProductDropdown(true)}
                     placeholder="Search by name or category..."
-                    disabled={!!editingPurchase && !isAdmin}
+                    disabled={!!editingPurchase && !canEdit}
                     className="w-full rounded-md border border-gray-300 px-3 py-2 text-sm text-gray-900 placeholder-gray-500 focus:border-[#0067ac] focus:outline-none focus:ring-2 focus:ring-[#0067ac] disabled:bg-gray-100 disabled:cursor-not-allowed"
                   />
                   {showProductDropdown && productSelectOptions.length > 0 && (
@@ -523,7 +808,45 @@ export default function PurchasesList({
               </div>
               <div>
                 <label className="block text-sm font-medium text-gray-700 mb-1">
-                  Unit Cost *
+                  Currency *
+                </label>
+                <select
+                  required
+                  value={formData.currency}
+                  onChange={(e) => setFormData({ ...formData, currency: e.target.value, exchange_rate: '' })}
+                  className="w-full rounded-md border border-gray-300 px-3 py-2 text-sm text-gray-900 focus:border-[#0067ac] focus:outline-none focus:ring-2 focus:ring-[#0067ac]"
+                >
+                  {CURRENCY_OPTIONS.map((option) => (
+                    <option key={option.value} value={option.value}>
+                      {option.label}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              {isForeignCurrency && (
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Exchange Rate ({BASE_CURRENCY} per 1 {formData.currency})
+                  </label>
+                  <input
+                    type="number"
+                    step="0.000001"
+                    min="0.000001"
+                    value={formData.exchange_rate}
+                    onChange={(e) => setFormData({ ...formData, exchange_rate: e.target.value })}
+                    className="w-full rounded-md border border-gray-300 px-3 py-2 text-sm text-gray-900 placeholder-gray-500 focus:border-[#0067ac] focus:outline-none focus:ring-2 focus:ring-[#0067ac]"
+                    placeholder={recordedRate ? String(recordedRate.rate) : 'No rate recorded'}
+                  />
+                  <p className="mt-1 text-xs text-gray-500">
+                    {recordedRate
+                      ? `Leave blank to use the rate recorded on ${new Date(recordedRate.effective_date).toLocaleDateString()}`
+                      : `Enter a rate or ask an admin to record one for ${formData.currency}`}
+                  </p>
+                </div>
+              )}
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Unit Cost ({formData.currency}) *
                 </label>
                 <input
                   type="number"
@@ -545,11 +868,56 @@ export default function PurchasesList({
                   readOnly
                   value={
                     formData.quantity && formData.unit_cost
-                      ? (parseFloat(formData.quantity) * parseFloat(formData.unit_cost)).toFixed(2)
-                      : '0.00'
+                      ? `${formData.currency} ${(parseFloat(formData.quantity) * parseFloat(formData.unit_cost)).toFixed(2)}`
+                      : `${formData.currency} 0.00`
                   }
                   className="w-full rounded-md border border-gray-300 px-3 py-2 text-sm text-gray-600 bg-gray-50"
                 />
+                {isForeignCurrency && formData.quantity && formData.unit_cost && formRate > 0 && (
+                  <p className="mt-1 text-xs text-gray-500">
+                    ≈ {BASE_CURRENCY} {(parseFloat(formData.quantity) * Math.round(parseFloat(formData.unit_cost) * formRate * 100) / 100).toFixed(2)}
+                  </p>
+                )}
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Sales Tax / Freight / Other Charges
+                </label>
+                <div className="grid grid-cols-3 gap-2">
+                  <input
+                    type="number"
+                    step="0.01"
+                    min="0"
+                    max="100"
+                    value={formData.tax_percent}
+                    onChange={(e) => setFormData({ ...formData, tax_percent: e.target.value })}
+                    className="w-full rounded-md border border-gray-300 px-3 py-2 text-sm text-gray-900 placeholder-gray-500 focus:border-[#0067ac] focus:outline-none focus:ring-2 focus:ring-[#0067ac]"
+                    placeholder="Tax %"
+                  />
+                  <input
+                    type="number"
+                    step="0.01"
+                    min="0"
+                    value={formData.freight_cost}
+                    onChange={(e) => setFormData({ ...formData, freight_cost: e.target.value })}
+                    className="w-full rounded-md border border-gray-300 px-3 py-2 text-sm text-gray-900 placeholder-gray-500 focus:border-[#0067ac] focus:outline-none focus:ring-2 focus:ring-[#0067ac]"
+                    placeholder="Freight PKR"
+                  />
+                  <input
+                    type="number"
+                    step="0.01"
+                    min="0"
+                    value={formData.other_charges}
+                    onChange={(e) => setFormData({ ...formData, other_charges: e.target.value })}
+                    className="w-full rounded-md border border-gray-300 px-3 py-2 text-sm text-gray-900 placeholder-gray-500 focus:border-[#0067ac] focus:outline-none focus:ring-2 focus:ring-[#0067ac]"
+                    placeholder="Other PKR"
+                  />
+                </div>
+                {formLandedUnitCost !== null && (
+                  <p className="mt-1 text-xs text-gray-500">
+                    Landed unit cost: {BASE_CURRENCY} {formLandedUnitCost.toFixed(2)}
+                  </p>
+                )}
               </div>
               <div>
                 <label className="block text-sm font-medium text-gray-700 mb-1">
@@ -575,6 +943,24 @@ export default function PurchasesList({
                   placeholder="Optional notes"
                 />
               </div>
+              {!editingPurchase && (
+                <div>
+                  <label className="flex items-start gap-2 text-sm text-gray-700">
+                    <input
+                      type="checkbox"
+                      checked={formData.receive_via_grn}
+                      onChange={(e) => setFormData({ ...formData, receive_via_grn: e.target.checked })}
+                      className="mt-0.5 rounded border-gray-300 text-[#0067ac] focus:ring-[#0067ac]"
+                    />
+                    <span>
+                      Receive in deliveries
+                      <span className="block text-xs text-gray-500">
+                        Stock is added as goods received notes are posted instead of when the purchase is saved
+                      </span>
+                    </span>
+                  </label>
+                </div>
+              )}
               <div className="flex gap-3 pt-4">
                 <button
                   type="button"
@@ -601,6 +987,110 @@ export default function PurchasesList({
       )}
 
 
+      {returningPurchase && (
+        <div className="fixed inset-0 z-50 flex items-center justify-center bg-black bg-opacity-50">
+          <div className="bg-white rounded-lg p-6 w-full max-w-md max-h-[90vh] overflow-y-auto">
+            <h3 className="text-xl font-bold mb-4" style={{ color: '#0067ac' }}>
+              Return to Supplier
+            </h3>
+            <form onSubmit={handleReturn} className="space-y-4">
+              {error && (
+                <div className="rounded-md bg-red-50 p-3 border border-red-200">
+                  <div className="text-sm text-red-800">{error}</div>
+                </div>
+              )}
+              <div className="p-3 bg-blue-50 rounded-md border border-blue-200">
+                <p className="text-sm text-blue-800">
+                  <strong>{returningPurchase.product?.name || '-'}</strong> from {returningPurchase.supplier?.name || 'no supplier'}
+                </p>
+                <p className="text-sm text-blue-800">
+                  Purchased: {returningPurchase.quantity} {returningPurchase.product?.unit || ''} at PKR {returningPurchase.unit_cost.toFixed(2)} on {new Date(returningPurchase.purchase_date).toLocaleDateString()}
+                </p>
+                <p className="text-sm text-blue-800">
+                  Returnable: {getReturnableQuantity(returningPurchase)} {returningPurchase.product?.unit || ''}
+                </p>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Quantity Returned *
+                </label>
+                <input
+                  type="number"
+                  step="0.01"
+                  min="0.01"
+                  max={getReturnableQuantity(returningPurchase)}
+                  required
+                  value={returnData.quantity}
+                  onChange={(e) => setReturnData({ ...returnData, quantity: e.target.value })}
+                  className="w-full rounded-md border border-gray-300 px-3 py-2 text-sm text-gray-900 placeholder-gray-500 focus:border-[#0067ac] focus:outline-none focus:ring-2 focus:ring-[#0067ac]"
+                />
+                {returnData.quantity && !isNaN(parseFloat(returnData.quantity)) && (
+                  <p className="mt-1 text-xs text-gray-500">
+                    Credit value: PKR {(parseFloat(returnData.quantity) * returningPurchase.unit_cost).toFixed(2)}
+                  </p>
+                )}
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Return Date *
+                </label>
+                <input
+                  type="date"
+                  required
+                  value={returnData.return_date}
+                  onChange={(e) => setReturnData({ ...returnData, return_date: e.target.value })}
+                  className="w-full rounded-md border border-gray-300 px-3 py-2 text-sm text-gray-900 focus:border-[#0067ac] focus:outline-none focus:ring-2 focus:ring-[#0067ac]"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Reason
+                </label>
+                <input
+                  type="text"
+                  value={returnData.reason}
+                  onChange={(e) => setReturnData({ ...returnData, reason: e.target.value })}
+                  className="w-full rounded-md border border-gray-300 px-3 py-2 text-sm text-gray-900 placeholder-gray-500 focus:border-[#0067ac] focus:outline-none focus:ring-2 focus:ring-[#0067ac]"
+                  placeholder="e.g. Defective, wrong size"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Notes
+                </label>
+                <textarea
+                  value={returnData.notes}
+                  onChange={(e) => setReturnData({ ...returnData, notes: e.target.value })}
+                  rows={2}
+                  className="w-full rounded-md border border-gray-300 px-3 py-2 text-sm text-gray-900 placeholder-gray-500 focus:border-[#0067ac] focus:outline-none focus:ring-2 focus:ring-[#0067ac]"
+                  placeholder="Optional notes"
+                />
+              </div>
+              <div className="flex gap-3 pt-4">
+                <button
+                  type="button"
+                  onClick={() => {
+                    setReturningPurchase(null)
+                    setError(null)
+                  }}
+                  className="flex-1 rounded-md border border-gray-300 bg-white px-4 py-2 text-sm font-medium text-gray-700 hover:bg-gray-50"
+                >
+                  Cancel
+                </button>
+                <button
+                  type="submit"
+                  disabled={loading}
+                  className="flex-1 rounded-md px-4 py-2 text-sm font-semibold text-white disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                  style={{ backgroundColor: '#0067ac' }}
+                >
+                  {loading ? 'Saving...' : 'Record Return'}
+                </button>
+              </div>
+            </form>
+          </div>
+        </div>
+      )}
+
       <div className="rounded-lg bg-white shadow-md border overflow-hidden" style={{ borderColor: '#E77817' }}>
         <div className="overflow-x-auto">
           <table className="min-w-full divide-y divide-gray-200">
@@ -618,6 +1108,9 @@ export default function PurchasesList({
               <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                 Category
               </th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Supplier
+              </th>
               <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                 Quantity
               </th>
@@ -635,7 +1128,7 @@ export default function PurchasesList({
           <tbody className="bg-white divide-y divide-gray-200">
             {purchases.length === 0 ? (
               <tr>
-                <td colSpan={8} className="px-6 py-4 text-center text-sm text-gray-500">
+                <td colSpan={9} className="px-6 py-4 text-center text-sm text-gray-500">
                   No purchases found. Create your first purchase.
                 </td>
               </tr>
@@ -654,31 +1147,58 @@ export default function PurchasesList({
                   <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
                     {purchase.product?.category?.name || '-'}
                   </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                    {purchase.supplier?.name || '-'}
+                  </td>
                   <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
                     {purchase.quantity} {purchase.product?.unit || ''}
+                    {Number(purchase.returned_quantity) > 0 && (
+                      <p className="text-xs text-red-600">{purchase.returned_quantity} returned</p>
+                    )}
                   </td>
                   <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
                     PKR {purchase.unit_cost.toFixed(2)}
+                    {purchase.landed_unit_cost != null && Number(purchase.landed_unit_cost) !== Number(purchase.unit_cost) && (
+                      <p className="text-xs text-gray-500">Landed PKR {Number(purchase.landed_unit_cost).toFixed(2)}</p>
+                    )}
+                    {purchase.currency && purchase.currency !== BASE_CURRENCY && (
+                      <p className="text-xs text-gray-500">
+                        {purchase.currency} {Number(purchase.original_unit_cost).toFixed(2)} @ {Number(purchase.exchange_rate).toFixed(4)}
+                      </p>
+                    )}
                   </td>
                   <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">
                     PKR {purchase.total_cost.toFixed(2)}
+                    {purchase.currency && purchase.currency !== BASE_CURRENCY && (
+                      <p className="text-xs font-normal text-gray-500">
+                        {purchase.currency} {(Number(purchase.original_unit_cost) * Number(purchase.quantity)).toFixed(2)}
+                      </p>
+                    )}
                   </td>
                   <td className="px-6 py-4 whitespace-nowrap text-sm font-medium">
-                    {isAdmin && (
-                      <>
-                        <button
-                          onClick={() => handleEdit(purchase)}
-                          className="text-[#0067ac] hover:text-[#005a94] mr-4"
-                        >
-                          Edit
-                        </button>
-                        <button
-                          onClick={() => handleDelete(purchase.id)}
-                          className="text-red-600 hover:text-red-900"
-                        >
-                          Delete
-                        </button>
-                      </>
+                    {canReturnPurchase(purchase) && (
+                      <button
+                        onClick={() => openReturnModal(purchase)}
+                        className="text-[#E77817] hover:text-[#d66a14] mr-4"
+                      >
+                        Return
+                      </button>
+                    )}
+                    {canEdit && (
+                      <button
+                        onClick={() => handleEdit(purchase)}
+                        className="text-[#0067ac] hover:text-[#005a94] mr-4"
+                      >
+                        Edit
+                      </button>
+                    )}
+                    {canDelete && (
+                      <button
+                        onClick={() => handleDelete(purchase.id)}
+                        className="text-red-600 hover:text-red-900"
+                      >
+                        Delete
+                      </button>
                     )}
                   </td>
                 </tr>
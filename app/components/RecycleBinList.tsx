@@ -0,0 +1,126 @@
+'use client'
+
+import { useMemo, useState } from 'react'
+import { restoreCategory } from '@/lib/actions/categories'
+import { restoreProduct } from '@/lib/actions/products'
+import { restoreSupplier } from '@/lib/actions/suppliers'
+import { restoreProject } from '@/lib/actions/projects'
+import { restoreStore } from '@/lib/actions/stores'
+import { restoreUser } from '@/lib/actions/users'
+import { restorePurchase } from '@/lib/actions/purchases'
+import { RECYCLE_BIN_ENTITY_LABELS, RECYCLE_BIN_ENTITY_OPTIONS } from '@/lib/constants/recycleBinEntities'
+import type { DeletedItem, RecycleBinEntity } from '@/lib/types'
+import { getErrorMessage } from '@/lib/utils/errors'
+
+const RESTORE_ACTIONS: Record<RecycleBinEntity, (id: string) => Promise<{ error: string | null }>> = {
+  categories: restoreCategory,
+  products: restoreProduct,
+  suppliers: restoreSupplier,
+  projects: restoreProject,
+  stores: restoreStore,
+  users: restoreUser,
+  purchases: restorePurchase,
+}
+
+const RESTORE_WARNINGS: Partial<Record<RecycleBinEntity, string>> = {
+  purchases: 'Restoring this purchase adds its stock back to the store.',
+  users: 'Restoring this user lets them sign in again.',
+}
+
+export default function RecycleBinList({ initialItems }: { initialItems: DeletedItem[] }) {
+  const [activeEntity, setActiveEntity] = useState<RecycleBinEntity>('purchases')
+  const [restoringId, setRestoringId] = useState<string | null>(null)
+
+  const counts = useMemo(() => {
+    const result: Partial<Record<RecycleBinEntity, number>> = {}
+    initialItems.forEach((item) => {
+      result[item.entity] = (result[item.entity] || 0) + 1
+    })
+    return result
+  }, [initialItems])
+
+  const items = initialItems.filter((item) => item.entity === activeEntity)
+
+  const handleRestore = async (item: DeletedItem) => {
+    const warning = RESTORE_WARNINGS[item.entity]
+    if (!confirm(`Restore ${item.name}?${warning ? ` ${warning}` : ''}`)) {
+      return
+    }
+
+    setRestoringId(item.id)
+    try {
+      const result = await RESTORE_ACTIONS[item.entity](item.id)
+      if (result.error) {
+        alert(getErrorMessage(result.error))
+        return
+      }
+      window.location.reload()
+    } finally {
+      setRestoringId(null)
+    }
+  }
+
+  return (
+    <div>
+      <div className="mb-4 flex flex-wrap gap-2 border-b border-gray-200">
+        {RECYCLE_BIN_ENTITY_OPTIONS.map((option) => (
+          <button
+            key={option.value}
+            onClick={() => setActiveEntity(option.value)}
+            className={`px-4 py-2 text-sm font-medium border-b-2 -mb-px ${
+              activeEntity === option.value
+                ? 'border-[#0067ac] text-[#0067ac]'
+                : 'border-transparent text-gray-500 hover:text-gray-700'
+            }`}
+          >
+            {option.label}
+            {counts[option.value] ? ` (${counts[option.value]})` : ''}
+          </button>
+        ))}
+      </div>
+
+      <div className="overflow-x-auto rounded-lg border bg-white shadow-sm">
+        <table className="min-w-full divide-y divide-gray-200">
+          <thead className="bg-gray-50">
+            <tr>
+              <th className="px-4 py-3 text-left text-xs font-medium uppercase text-gray-500">Name</th>
+              <th className="px-4 py-3 text-left text-xs font-medium uppercase text-gray-500">Details</th>
+              <th className="px-4 py-3 text-left text-xs font-medium uppercase text-gray-500">Deleted By</th>
+              <th className="px-4 py-3 text-left text-xs font-medium uppercase text-gray-500">Deleted At</th>
+              <th className="px-4 py-3 text-right text-xs font-medium uppercase text-gray-500">Actions</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-200">
+            {items.length === 0 ? (
+              <tr>
+                <td colSpan={5} className="px-4 py-6 text-center text-sm text-gray-500">
+                  No deleted {RECYCLE_BIN_ENTITY_LABELS[activeEntity].toLowerCase()}
+                </td>
+              </tr>
+            ) : (
+              items.map((item) => (
+                <tr key={item.id} className="text-sm text-gray-900">
+                  <td className="px-4 py-3 font-medium">{item.name}</td>
+                  <td className="px-4 py-3 text-gray-600">{item.details || '-'}</td>
+                  <td className="px-4 py-3">
+                    {item.deleted_by_user?.full_name || item.deleted_by_user?.email || (item.deleted_by ? 'Unknown user' : '-')}
+                  </td>
+                  <td className="whitespace-nowrap px-4 py-3">{new Date(item.deleted_at).toLocaleString()}</td>
+                  <td className="px-4 py-3 text-right">
+                    <button
+                      onClick={() => handleRestore(item)}
+                      disabled={restoringId !== null}
+                      className="text-[#0067ac] hover:text-[#005a94] disabled:opacity-50"
+                    >
+                      {restoringId === item.id ? 'Restoring...' : 'Restore'}
+                    </button>
+                  </td>
+                </tr>
+              ))
+            )}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,331 @@
+'use client'
+
+import { useMemo, useState } from 'react'
+import { deleteReorderLevel, saveReorderLevel } from '@/lib/actions/reorderLevels'
+import { getErrorMessage } from '@/lib/utils/errors'
+import type { Product, ReorderLevel, Store } from '@/lib/types'
+
+const emptyForm = () => ({
+  store_id: '',
+  product_id: '',
+  min_quantity: '',
+  reorder_point: '',
+  max_quantity: '',
+})
+
+export default function ReorderLevelsList({
+  initialLevels,
+  stores,
+  manageableStores,
+  products,
+}: {
+  initialLevels: ReorderLevel[]
+  stores: Store[]
+  manageableStores: Store[]
+  products: Product[]
+}) {
+  const sortedProducts = useMemo(
+    () => [...products].sort((a, b) => a.name.localeCompare(b.name)),
+    [products]
+  )
+
+  const [selectedStoreId, setSelectedStoreId] = useState('')
+  const [showModal, setShowModal] = useState(false)
+  const [editingLevel, setEditingLevel] = useState<ReorderLevel | null>(null)
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [formData, setFormData] = useState(emptyForm())
+
+  const canManage = (storeId: string) => manageableStores.some((store) => store.id === storeId)
+
+  const filteredLevels = initialLevels
+    .filter((level) => !selectedStoreId || level.store_id === selectedStoreId)
+    .sort(
+      (a, b) =>
+        (a.store?.name || '').localeCompare(b.store?.name || '') ||
+        (a.product?.name || '').localeCompare(b.product?.name || '')
+    )
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setError(null)
+    setLoading(true)
+
+    const result = await saveReorderLevel({
+      store_id: formData.store_id,
+      product_id: formData.product_id,
+      min_quantity: formData.min_quantity ? parseFloat(formData.min_quantity) : 0,
+      reorder_point: parseFloat(formData.reorder_point),
+      max_quantity: parseFloat(formData.max_quantity),
+    })
+
+    if (result.error) {
+      setError(getErrorMessage(result.error))
+      setLoading(false)
+      return
+    }
+
+    window.location.reload()
+  }
+
+  const handleEdit = (level: ReorderLevel) => {
+    setEditingLevel(level)
+    setFormData({
+      store_id: level.store_id,
+      product_id: level.product_id,
+      min_quantity: String(level.min_quantity),
+      reorder_point: String(level.reorder_point),
+      max_quantity: String(level.max_quantity),
+    })
+    setShowModal(true)
+  }
+
+  const resetForm = () => {
+    setEditingLevel(null)
+    setFormData(emptyForm())
+    setError(null)
+  }
+
+  const handleDelete = async (level: ReorderLevel) => {
+    if (!confirm(`Remove the reorder levels of ${level.product?.name || 'this product'} at ${level.store?.name || 'this store'}? The product's restock level will apply again.`)) {
+      return
+    }
+
+    const result = await deleteReorderLevel(level.id)
+    if (result.error) {
+      alert(getErrorMessage(result.error))
+      return
+    }
+
+    window.location.reload()
+  }
+
+  return (
+    <div>
+      <div className="mb-4 flex flex-wrap items-end justify-between gap-4">
+        <div className="w-full md:w-1/3">
+          <label className="block text-sm font-medium text-gray-700 mb-1">Store</label>
+          <select
+            value={selectedStoreId}
+            onChange={(e) => setSelectedStoreId(e.target.value)}
+            className="w-full rounded-md border border-gray-300 px-3 py-2 text-sm text-gray-900 bg-white focus:border-[#0067ac] focus:outline-none focus:ring-2 focus:ring-[#0067ac]"
+          >
+            <option value="">All stores</option>
+            {stores.map((store) => (
+              <option key={store.id} value={store.id}>
+                {store.name}
+              </option>
+            ))}
+          </select>
+        </div>
+        {manageableStores.length > 0 && (
+          <button
+            onClick={() => {
+              resetForm()
+              setFormData({ ...emptyForm(), store_id: canManage(selectedStoreId) ? selectedStoreId : '' })
+              setShowModal(true)
+            }}
+            className="rounded-md px-4 py-2 text-sm font-semibold text-white transition-colors"
+            style={{ backgroundColor: '#0067ac' }}
+            onMouseEnter={(e) => {
+              e.currentTarget.style.backgroundColor = '#005a94'
+            }}
+            onMouseLeave={(e) => {
+              e.currentTarget.style.backgroundColor = '#0067ac'
+            }}
+          >
+            Set Reorder Levels
+          </button>
+        )}
+      </div>
+
+      {showModal && (
+        <div className="fixed inset-0 z-50 flex items-center justify-center bg-black bg-opacity-50">
+          <div className="bg-white rounded-lg p-6 w-full max-w-md max-h-[90vh] overflow-y-auto">
+            <h3 className="text-xl font-bold mb-4" style={{ color: '#0067ac' }}>
+              {editingLevel ? 'Edit Reorder Levels' : 'Set Reorder Levels'}
+            </h3>
+            <form onSubmit={handleSubmit} className="space-y-4">
+              {error && (
+                <div className="rounded-md bg-red-50 p-3 border border-red-200">
+                  <div className="text-sm text-red-800">{error}</div>
+                </div>
+              )}
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Store *
+                </label>
+                <select
+                  required
+                  value={formData.store_id}
+                  disabled={!!editingLevel}
+                  onChange={(e) => setFormData({ ...formData, store_id: e.target.value })}
+                  className="w-full rounded-md border border-gray-300 px-3 py-2 text-sm text-gray-900 bg-white focus:border-[#0067ac] focus:outline-none focus:ring-2 focus:ring-[#0067ac] disabled:bg-gray-100"
+                >
+                  <option value="">Select a store</option>
+                  {manageableStores.map((store) => (
+                    <option key={store.id} value={store.id}>
+                      {store.name}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Product *
+                </label>
+                <select
+                  required
+                  value={formData.product_id}
+                  disabled={!!editingLevel}
+                  onChange={(e) => setFormData({ ...formData, product_id: e.target.value })}
+                  className="w-full rounded-md border border-gray-300 px-3 py-2 text-sm text-gray-900 bg-white focus:border-[#0067ac] focus:outline-none focus:ring-2 focus:ring-[#0067ac] disabled:bg-gray-100"
+                >
+                  <option value="">Select a product</option>
+                  {sortedProducts.map((product) => (
+                    <option key={product.id} value={product.id}>
+                      {product.name} ({product.unit})
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <div className="grid grid-cols-3 gap-3">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Minimum
+                  </label>
+                  <input
+                    type="number"
+                    min="0"
+                    step="0.01"
+                    value={formData.min_quantity}
+                    onChange={(e) => setFormData({ ...formData, min_quantity: e.target.value })}
+                    className="w-full rounded-md border border-gray-300 px-3 py-2 text-sm text-gray-900 placeholder-gray-500 focus:border-[#0067ac] focus:outline-none focus:ring-2 focus:ring-[#0067ac]"
+                    placeholder="0"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Reorder Point *
+                  </label>
+                  <input
+                    type="number"
+                    required
+                    min="0.01"
+                    step="0.01"
+                    value={formData.reorder_point}
+                    onChange={(e) => setFormData({ ...formData, reorder_point: e.target.value })}
+                    className="w-full rounded-md border border-gray-300 px-3 py-2 text-sm text-gray-900 placeholder-gray-500 focus:border-[#0067ac] focus:outline-none focus:ring-2 focus:ring-[#0067ac]"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Maximum *
+                  </label>
+                  <input
+                    type="number"
+                    required
+                    min="0.01"
+                    step="0.01"
+                    value={formData.max_quantity}
+                    onChange={(e) => setFormData({ ...formData, max_quantity: e.target.value })}
+                    className="w-full rounded-md border border-gray-300 px-3 py-2 text-sm text-gray-900 placeholder-gray-500 focus:border-[#0067ac] focus:outline-none focus:ring-2 focus:ring-[#0067ac]"
+                  />
+                </div>
+              </div>
+              <p className="text-xs text-gray-500">
+                An alert is raised when stock falls to the reorder point, and suggestions top it back up to the maximum.
+              </p>
+              <div className="flex gap-3 pt-4">
+                <button
+                  type="button"
+                  onClick={() => {
+                    setShowModal(false)
+                    resetForm()
+                  }}
+                  className="flex-1 rounded-md border border-gray-300 bg-white px-4 py-2 text-sm font-medium text-gray-700 hover:bg-gray-50"
+                >
+                  Cancel
+                </button>
+                <button
+                  type="submit"
+                  disabled={loading}
+                  className="flex-1 rounded-md px-4 py-2 text-sm font-semibold text-white disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                  style={{ backgroundColor: '#0067ac' }}
+                >
+                  {loading ? 'Saving...' : 'Save Levels'}
+                </button>
+              </div>
+            </form>
+          </div>
+        </div>
+      )}
+
+      <div className="rounded-lg bg-white shadow-md border overflow-hidden" style={{ borderColor: '#E77817' }}>
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Product</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Store</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Minimum</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Reorder Point</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Maximum</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Actions</th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {filteredLevels.length === 0 ? (
+                <tr>
+                  <td colSpan={6} className="px-6 py-4 text-center text-sm text-gray-500">
+                    No reorder levels set {selectedStoreId ? 'for this store' : ''}.
+                  </td>
+                </tr>
+              ) : (
+                filteredLevels.map((level) => (
+                  <tr key={level.id}>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">
+                      {level.product?.name || '-'}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                      {level.store?.name || '-'}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                      {level.min_quantity} {level.product?.unit || ''}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                      {level.reorder_point} {level.product?.unit || ''}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                      {level.max_quantity} {level.product?.unit || ''}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm font-medium">
+                      {canManage(level.store_id) ? (
+                        <>
+                          <button
+                            onClick={() => handleEdit(level)}
+                            className="text-[#0067ac] hover:text-[#005a94] mr-4"
+                          >
+                            Edit
+                          </button>
+                          <button
+                            onClick={() => handleDelete(level)}
+                            className="text-red-600 hover:text-red-900"
+                          >
+                            Remove
+                          </button>
+                        </>
+                      ) : (
+                        <span className="text-gray-400">-</span>
+                      )}
+                    </td>
+                  </tr>
+                ))
+              )}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,304 @@
+'use client'
+
+import { useMemo, useState } from 'react'
+import { createPurchaseOrder } from '@/lib/actions/purchaseOrders'
+import { createIssueRequisition } from '@/lib/actions/issueRequisitions'
+import { getErrorMessage } from '@/lib/utils/errors'
+import type { ReorderSuggestion, StockAlert, Store } from '@/lib/types'
+
+const suggestionKey = (suggestion: ReorderSuggestion) => `${suggestion.store_id}:${suggestion.product_id}`
+
+export default function ReorderSuggestionsView({
+  initialSuggestions,
+  initialAlerts,
+  stores,
+  centralStores,
+  canRaisePurchaseOrders,
+  canRequestStock,
+}: {
+  initialSuggestions: ReorderSuggestion[]
+  initialAlerts: StockAlert[]
+  stores: Store[]
+  centralStores: Store[]
+  canRaisePurchaseOrders: boolean
+  canRequestStock: boolean
+}) {
+  const [selectedStoreId, setSelectedStoreId] = useState('')
+  const [quantities, setQuantities] = useState<Record<string, string>>(() =>
+    Object.fromEntries(
+      initialSuggestions.map((suggestion) => [
+        suggestionKey(suggestion),
+        suggestion.suggested_quantity !== null ? String(suggestion.suggested_quantity) : '',
+      ])
+    )
+  )
+  const [supplyingStoreIds, setSupplyingStoreIds] = useState<Record<string, string>>({})
+  const [loadingStoreId, setLoadingStoreId] = useState<string | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  const filteredAlerts = initialAlerts.filter((alert) => !selectedStoreId || alert.store_id === selectedStoreId)
+
+  // One purchase order or requisition is raised per store
+  const suggestionsByStore = useMemo(() => {
+    const groups = new Map<string, { store: Store; suggestions: ReorderSuggestion[] }>()
+    for (const suggestion of initialSuggestions) {
+      if (selectedStoreId && suggestion.store_id !== selectedStoreId) continue
+      const group = groups.get(suggestion.store_id) || { store: suggestion.store, suggestions: [] }
+      group.suggestions.push(suggestion)
+      groups.set(suggestion.store_id, group)
+    }
+    return Array.from(groups.values())
+  }, [initialSuggestions, selectedStoreId])
+
+  const getLines = (suggestions: ReorderSuggestion[]) =>
+    suggestions
+      .map((suggestion) => ({
+        product_id: suggestion.product_id,
+        quantity: parseFloat(quantities[suggestionKey(suggestion)] || ''),
+      }))
+      .filter((line) => !isNaN(line.quantity) && line.quantity > 0)
+
+  const handleRaise = async (store: Store, suggestions: ReorderSuggestion[]) => {
+    const lines = getLines(suggestions)
+    if (lines.length === 0) {
+      setError(`Enter a quantity for at least one product of ${store.name}`)
+      return
+    }
+
+    setError(null)
+
+    if (store.type === 'central') {
+      if (!confirm(`Raise a draft purchase order for ${lines.length} product${lines.length === 1 ? '' : 's'} for ${store.name}? Add the prices before submitting it.`)) {
+        return
+      }
+
+      setLoadingStoreId(store.id)
+      const result = await createPurchaseOrder({
+        store_id: store.id,
+        notes: 'Raised from reorder suggestions',
+        items: lines.map((line) => ({ ...line, unit_cost: 0 })),
+      })
+
+      if (result.error) {
+        setError(getErrorMessage(result.error))
+        setLoadingStoreId(null)
+        return
+      }
+    } else {
+      const supplyingStoreId = supplyingStoreIds[store.id]
+      if (!supplyingStoreId) {
+        setError(`Choose the central store ${store.name} should request from`)
+        return
+      }
+
+      setLoadingStoreId(store.id)
+      const result = await createIssueRequisition({
+        requesting_store_id: store.id,
+        supplying_store_id: supplyingStoreId,
+        notes: 'Raised from reorder suggestions',
+        items: lines,
+      })
+
+      if (result.error) {
+        setError(getErrorMessage(result.error))
+        setLoadingStoreId(null)
+        return
+      }
+    }
+
+    window.location.reload()
+  }
+
+  return (
+    <div>
+      <div className="mb-6 rounded-lg bg-white shadow-md border p-4" style={{ borderColor: '#E77817' }}>
+        <div className="grid grid-cols-1 gap-4 md:grid-cols-3">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Store</label>
+            <select
+              value={selectedStoreId}
+              onChange={(e) => setSelectedStoreId(e.target.value)}
+              className="w-full rounded-md border border-gray-300 px-3 py-2 text-sm text-gray-900 bg-white focus:border-[#0067ac] focus:outline-none focus:ring-2 focus:ring-[#0067ac]"
+            >
+              <option value="">All stores</option>
+              {stores.map((store) => (
+                <option key={store.id} value={store.id}>
+                  {store.name}
+                </option>
+              ))}
+            </select>
+          </div>
+        </div>
+      </div>
+
+      {error && (
+        <div className="mb-4 rounded-md bg-red-50 p-3 border border-red-200">
+          <div className="text-sm text-red-800">{error}</div>
+        </div>
+      )}
+
+      <div className="mb-8 rounded-lg bg-white shadow-md border overflow-hidden" style={{ borderColor: '#dc2626' }}>
+        <div className="px-6 py-4 border-b border-gray-200">
+          <h3 className="text-lg font-semibold text-red-800">
+            Low Stock Alerts ({filteredAlerts.length})
+          </h3>
+          <p className="text-xs text-gray-500">
+            Raised when stock falls to or below the reorder point; cleared once it is back above it.
+          </p>
+        </div>
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Since</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Product</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Store</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Stock When Raised</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Reorder Point</th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {filteredAlerts.length === 0 ? (
+                <tr>
+                  <td colSpan={5} className="px-6 py-4 text-center text-sm text-gray-500">
+                    No products are below their reorder point.
+                  </td>
+                </tr>
+              ) : (
+                filteredAlerts.map((alert) => (
+                  <tr key={alert.id}>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                      {new Date(alert.created_at).toLocaleString()}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">
+                      {alert.product?.name || '-'}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                      {alert.store?.name || '-'}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm font-semibold text-red-700">
+                      {alert.quantity} {alert.product?.unit || ''}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                      {alert.reorder_point} {alert.product?.unit || ''}
+                    </td>
+                  </tr>
+                ))
+              )}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      {suggestionsByStore.length === 0 ? (
+        <div className="rounded-lg bg-white shadow-md border p-6 text-center text-sm text-gray-500" style={{ borderColor: '#E77817' }}>
+          Nothing needs reordering {selectedStoreId ? 'in this store' : ''}.
+        </div>
+      ) : (
+        suggestionsByStore.map(({ store, suggestions }) => {
+          const isCentral = store.type === 'central'
+          const canRaise = isCentral ? canRaisePurchaseOrders : canRequestStock
+          return (
+            <div key={store.id} className="mb-6 rounded-lg bg-white shadow-md border overflow-hidden" style={{ borderColor: '#E77817' }}>
+              <div className="flex flex-wrap items-center justify-between gap-4 px-6 py-4 border-b border-gray-200">
+                <div>
+                  <h3 className="text-lg font-semibold" style={{ color: '#0067ac' }}>
+                    {store.name}
+                  </h3>
+                  <p className="text-xs text-gray-500">
+                    {isCentral ? 'Central store: reorder from suppliers' : 'Project store: request from a central store'}
+                  </p>
+                </div>
+                {canRaise && (
+                  <div className="flex flex-wrap items-center gap-3">
+                    {!isCentral && (
+                      <select
+                        value={supplyingStoreIds[store.id] || ''}
+                        onChange={(e) => setSupplyingStoreIds({ ...supplyingStoreIds, [store.id]: e.target.value })}
+                        className="rounded-md border border-gray-300 px-3 py-2 text-sm text-gray-900 bg-white focus:border-[#0067ac] focus:outline-none focus:ring-2 focus:ring-[#0067ac]"
+                      >
+                        <option value="">Request from...</option>
+                        {centralStores.map((centralStore) => (
+                          <option key={centralStore.id} value={centralStore.id}>
+                            {centralStore.name}
+                          </option>
+                        ))}
+                      </select>
+                    )}
+                    <button
+                      type="button"
+                      onClick={() => handleRaise(store, suggestions)}
+                      disabled={loadingStoreId !== null}
+                      className="rounded-md px-4 py-2 text-sm font-semibold text-white disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                      style={{ backgroundColor: '#0067ac' }}
+                    >
+                      {loadingStoreId === store.id
+                        ? 'Raising...'
+                        : isCentral
+                        ? 'Raise Purchase Order'
+                        : 'Raise Requisition'}
+                    </button>
+                  </div>
+                )}
+              </div>
+              <div className="overflow-x-auto">
+                <table className="min-w-full divide-y divide-gray-200">
+                  <thead className="bg-gray-50">
+                    <tr>
+                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Product</th>
+                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">In Stock</th>
+                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">On Its Way</th>
+                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Min / Reorder / Max</th>
+                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                        {isCentral ? 'Order Quantity' : 'Request Quantity'}
+                      </th>
+                    </tr>
+                  </thead>
+                  <tbody className="bg-white divide-y divide-gray-200">
+                    {suggestions.map((suggestion) => {
+                      const key = suggestionKey(suggestion)
+                      const belowMinimum = suggestion.quantity < suggestion.min_quantity
+                      return (
+                        <tr key={key} className={belowMinimum ? 'bg-red-50' : ''}>
+                          <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">
+                            {suggestion.product.name}
+                          </td>
+                          <td className={`px-6 py-4 whitespace-nowrap text-sm font-semibold ${belowMinimum ? 'text-red-700' : 'text-gray-900'}`}>
+                            {suggestion.quantity} {suggestion.product.unit}
+                            {belowMinimum && <span className="ml-2 text-xs font-bold text-red-600">(Below Minimum)</span>}
+                          </td>
+                          <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                            {suggestion.in_transit_quantity + suggestion.on_order_quantity > 0
+                              ? `${suggestion.in_transit_quantity + suggestion.on_order_quantity} ${suggestion.product.unit}`
+                              : '-'}
+                          </td>
+                          <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                            {suggestion.max_quantity !== null
+                              ? `${suggestion.min_quantity} / ${suggestion.reorder_point} / ${suggestion.max_quantity}`
+                              : `- / ${suggestion.reorder_point} / -`}
+                          </td>
+                          <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                            <input
+                              type="number"
+                              min="0"
+                              step="0.01"
+                              value={quantities[key] ?? ''}
+                              onChange={(e) => setQuantities({ ...quantities, [key]: e.target.value })}
+                              disabled={!canRaise}
+                              placeholder={suggestion.max_quantity === null ? 'Set a maximum' : ''}
+                              className="w-32 rounded-md border border-gray-300 px-2 py-1 text-sm text-gray-900 placeholder-gray-400 focus:border-[#0067ac] focus:outline-none focus:ring-2 focus:ring-[#0067ac] disabled:bg-gray-100"
+                            />
+                          </td>
+                        </tr>
+                      )
+                    })}
+                  </tbody>
+                </table>
+              </div>
+            </div>
+          )
+        })
+      )}
+    </div>
+  )
+}
@@ -1,26 +1,35 @@
 'use client'
 
-import { useState, useEffect, useMemo } from 'react'
+import { Fragment, useState, useEffect, useMemo } from 'react'
 import {
   getPurchaseReport,
   getInventoryCostReport,
   getInventoryMovementReport,
   type ReportPeriod,
+  type SupplierPurchaseSummary,
 } from '@/lib/actions/reports'
+import { updateCostingMethod } from '@/lib/actions/costing'
 import InventoryHistoryView from '@/app/components/InventoryHistoryView'
-import type { InventoryItem } from '@/lib/types'
+import { COSTING_METHOD_LABELS, COSTING_METHOD_OPTIONS } from '@/lib/constants/costingMethods'
+import type { CostingMethod, InventoryItem } from '@/lib/types'
 import { getErrorMessage } from '@/lib/utils/errors'
-import type { Store, UserProfile } from '@/lib/types'
+import type { Store, Supplier } from '@/lib/types'
+import type { AuthorizedProfile } from '@/lib/utils/permissions'
 
 export default function ReportsView({ 
   initialStores,
+  suppliers,
   userProfile
 }: { 
   initialStores: Store[]
-  userProfile: UserProfile
+  suppliers: Supplier[]
+  userProfile: AuthorizedProfile
 }) {
   const [selectedPeriod, setSelectedPeriod] = useState<ReportPeriod>('monthly')
   const [selectedStoreId, setSelectedStoreId] = useState<string>('')
+  const [selectedSupplierId, setSelectedSupplierId] = useState<string>('')
+  const [purchaseGrouping, setPurchaseGrouping] = useState<'purchase' | 'supplier'>('purchase')
+  const [expandedSuppliers, setExpandedSuppliers] = useState<Record<string, boolean>>({})
   const [activeTab, setActiveTab] = useState<'purchases' | 'inventory' | 'transfers'>('purchases')
   const [selectedCentralStoreId, setSelectedCentralStoreId] = useState<string>(() => {
     const firstCentral = initialStores.find((store) => store.type === 'central')
@@ -38,7 +47,9 @@ export default function ReportsView({
   const [loading, setLoading] = useState(false)
   const [error, setError] = useState<string | null>(null)
 
-  const isAdmin = userProfile.role === 'admin'
+  const canViewPrices = userProfile.permissions.includes('view_prices')
+  // Stock values can also be limited to the central stores; other rows come back without cost
+  const canViewStockValues = canViewPrices || userProfile.permissions.includes('view_central_prices')
 
   const centralStores = useMemo(
     () => initialStores.filter((store) => store.type === 'central'),
@@ -55,7 +66,11 @@ export default function ReportsView({
 
     try {
       if (activeTab === 'purchases') {
-        const result = await getPurchaseReport(selectedPeriod, selectedStoreId || undefined)
+        const result = await getPurchaseReport(
+          selectedPeriod,
+          selectedStoreId || undefined,
+          selectedSupplierId || undefined
+        )
         if (result.error) {
           setError(getErrorMessage(result.error))
         } else {
@@ -96,7 +111,7 @@ export default function ReportsView({
   // Load reports on mount and when filters change
   useEffect(() => {
     loadReports()
-  }, [activeTab, selectedPeriod, selectedStoreId, selectedCentralStoreId, selectedProjectStoreId])
+  }, [activeTab, selectedPeriod, selectedStoreId, selectedSupplierId, selectedCentralStoreId, selectedProjectStoreId])
 
   // Load when tab, period, or store changes
   const handleTabChange = (tab: 'purchases' | 'inventory' | 'transfers') => {
@@ -112,6 +127,19 @@ export default function ReportsView({
     setSelectedStoreId(storeId)
   }
 
+  const handleCostingMethodChange = async (method: CostingMethod) => {
+    if (!confirm(`Switch to ${COSTING_METHOD_LABELS[method]} costing? Stock issued from now on will be costed this way; past issues keep their cost.`)) {
+      return
+    }
+
+    const result = await updateCostingMethod(method)
+    if (result.error) {
+      alert(getErrorMessage(result.error))
+      return
+    }
+    loadReports()
+  }
+
   const movementTotals = useMemo(() => {
     if (!movementData?.data?.length) {
       return { products: 0, receivedEntries: 0, issuedEntries: 0, totalMovements: 0 }
@@ -125,9 +153,19 @@ export default function ReportsView({
         acc.products += 1
         const movements = item.movements || []
         movements.forEach((movement: any) => {
-          if (movement.movement_type === 'purchase' || movement.movement_type === 'issue_in') {
+          if (
+            movement.movement_type === 'purchase' ||
+            movement.movement_type === 'grn' ||
+            movement.movement_type === 'issue_in' ||
+            movement.movement_type === 'return' ||
+            (movement.movement_type === 'adjustment' && movement.quantity > 0)
+          ) {
             acc.receivedEntries += 1
-          } else if (movement.movement_type === 'issue_out') {
+          } else if (
+            movement.movement_type === 'issue_out' ||
+            movement.movement_type === 'purchase_return' ||
+            movement.movement_type === 'adjustment'
+          ) {
             acc.issuedEntries += 1
           }
         })
@@ -157,24 +195,50 @@ export default function ReportsView({
     let csv = ''
     let filename = ''
 
-    if (activeTab === 'purchases' && purchaseData?.data) {
+    if (activeTab === 'purchases' && purchaseGrouping === 'supplier' && purchaseData?.bySupplier) {
+      filename = `purchases-by-supplier-${selectedPeriod}-${new Date().toISOString().split('T')[0]}.csv`
+
+      // One row per supplier and product, with the supplier totals repeated
+      csv = 'Supplier,Purchases,Total Quantity,Total Cost,Product,Unit,Last Unit Cost,Last Purchased\n'
+
+      purchaseData.bySupplier.forEach((supplier: SupplierPurchaseSummary) => {
+        supplier.lastPrices.forEach((price) => {
+          const row = [
+            `"${supplier.supplier_name}"`,
+            supplier.totalPurchases,
+            supplier.totalQuantity,
+            canViewPrices ? supplier.totalCost : '',
+            `"${price.product_name}"`,
+            price.unit || '',
+            canViewPrices ? price.unit_cost : '',
+            price.purchase_date,
+          ]
+          csv += row.join(',') + '\n'
+        })
+      })
+    } else if (activeTab === 'purchases' && purchaseData?.data) {
       filename = `purchases-report-${selectedPeriod}-${new Date().toISOString().split('T')[0]}.csv`
       
       // CSV Headers
-      csv = 'Date,Store,Product,Category,Quantity,Unit,Unit Cost,Total Cost,Notes\n'
+      csv = 'Date,Store,Supplier,Product,Category,Quantity,Unit,Unit Cost,Landed Unit Cost,Total Cost,Currency,Original Unit Cost,Exchange Rate,Notes\n'
       
       // CSV Rows
       purchaseData.data.forEach((purchase: any) => {
         const row = [
           purchase.purchase_date,
           `"${purchase.store?.name || ''}"`,
+          `"${purchase.supplier?.name || ''}"`,
           `"${purchase.product?.name || ''}"`,
           `"${purchase.product?.category?.name || ''}"`,
           purchase.quantity,
           purchase.product?.unit || '',
-          isAdmin ? purchase.unit_cost : '',
-          isAdmin ? purchase.total_cost : '',
-          `"${(purchase.notes || '').replace(/"/g, '""')}"`
+          canViewPrices ? purchase.unit_cost : '',
+          canViewPrices ? purchase.landed_unit_cost ?? purchase.unit_cost : '',
+          canViewPrices ? purchase.total_cost : '',
+          purchase.currency || 'PKR',
+          canViewPrices ? purchase.original_unit_cost ?? purchase.unit_cost : '',
+          canViewPrices ? purchase.exchange_rate ?? 1 : '',
+          `"${(purchase.is_return ? `Return ${purchase.return_number}${purchase.notes ? `: ${purchase.notes}` : ''}` : purchase.notes || '').replace(/"/g, '""')}"`
         ]
         csv += row.join(',') + '\n'
       })
@@ -183,7 +247,7 @@ export default function ReportsView({
       
       // CSV Headers
       csv = 'Store,Product,Category,Quantity,Unit'
-      if (isAdmin) {
+      if (canViewStockValues) {
         csv += ',Average Cost,Total Value'
       }
       csv += '\n'
@@ -197,9 +261,9 @@ export default function ReportsView({
           item.quantity,
           item.product?.unit || ''
         ]
-        if (isAdmin) {
-          row.push(item.average_cost || 0)
-          row.push(item.total_value || 0)
+        if (canViewStockValues) {
+          row.push(item.average_cost ?? '')
+          row.push(item.total_value ?? '')
         }
         csv += row.join(',') + '\n'
       })
@@ -238,7 +302,7 @@ export default function ReportsView({
     <div className="space-y-6">
       {/* Filters */}
       <div className="bg-white rounded-lg shadow-md border p-4" style={{ borderColor: '#E77817' }}>
-        <div className={`grid grid-cols-1 gap-4 ${activeTab === 'transfers' ? 'md:grid-cols-4' : 'md:grid-cols-3'}`}>
+        <div className={`grid grid-cols-1 gap-4 ${activeTab === 'purchases' ? 'md:grid-cols-5' : activeTab === 'transfers' ? 'md:grid-cols-4' : 'md:grid-cols-3'}`}>
           <div>
             <label className="block text-sm font-medium text-gray-700 mb-1">
               Report Type
@@ -277,7 +341,7 @@ export default function ReportsView({
           {activeTab !== 'transfers' && (
             <div>
               <label className="block text-sm font-medium text-gray-700 mb-1">
-                Store {isAdmin && '(Optional)'}
+                Store {userProfile.role === 'admin' && '(Optional)'}
               </label>
               <select
                 value={selectedStoreId}
@@ -294,6 +358,41 @@ export default function ReportsView({
             </div>
           )}
 
+          {activeTab === 'purchases' && (
+            <>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Supplier
+                </label>
+                <select
+                  value={selectedSupplierId}
+                  onChange={(e) => setSelectedSupplierId(e.target.value)}
+                  className="w-full rounded-md border border-gray-300 px-3 py-2 text-sm text-gray-900 bg-white focus:border-[#0067ac] focus:outline-none focus:ring-2 focus:ring-[#0067ac]"
+                >
+                  <option value="">All Suppliers</option>
+                  {suppliers.map((supplier) => (
+                    <option key={supplier.id} value={supplier.id}>
+                      {supplier.name}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Group By
+                </label>
+                <select
+                  value={purchaseGrouping}
+                  onChange={(e) => setPurchaseGrouping(e.target.value as 'purchase' | 'supplier')}
+                  className="w-full rounded-md border border-gray-300 px-3 py-2 text-sm text-gray-900 bg-white focus:border-[#0067ac] focus:outline-none focus:ring-2 focus:ring-[#0067ac]"
+                >
+                  <option value="purchase">Purchase</option>
+                  <option value="supplier">Supplier</option>
+                </select>
+              </div>
+            </>
+          )}
+
           {activeTab === 'transfers' && (
             <>
               <div>
@@ -518,24 +617,31 @@ export default function ReportsView({
     </div>
   )}
       {/* Purchases Report */}
-      {activeTab === 'purchases' && purchaseData && (
+      {activeTab === 'purchases' && purchaseData && purchaseGrouping === 'purchase' && (
         <div className="bg-white rounded-lg shadow-md border overflow-hidden" style={{ borderColor: '#E77817' }}>
           <div className="px-6 py-4 bg-gray-50 border-b">
             <h3 className="text-lg font-semibold" style={{ color: '#0067ac' }}>
               Purchases Report ({selectedPeriod})
             </h3>
             {purchaseData.summary && (
-              <div className="mt-2 grid grid-cols-2 md:grid-cols-4 gap-4 text-sm">
+              <div className="mt-2 grid grid-cols-2 md:grid-cols-5 gap-4 text-sm">
                 <div>
                   <span className="text-gray-600">Total Purchases:</span>
                   <span className="ml-2 font-semibold text-gray-900">{purchaseData.summary.totalPurchases}</span>
                 </div>
+                <div>
+                  <span className="text-gray-600">Returned:</span>
+                  <span className="ml-2 font-semibold text-red-600">
+                    {purchaseData.summary.totalReturns}
+                    {canViewPrices && purchaseData.summary.totalReturns > 0 ? ` (${formatCurrency(purchaseData.summary.totalReturnedCost)})` : ''}
+                  </span>
+                </div>
                 <div>
                   <span className="text-gray-600">Total Quantity:</span>
                   <span className="ml-2 font-semibold text-gray-900">{purchaseData.summary.totalQuantity.toLocaleString()}</span>
                 </div>
                 <div>
-                  <span className="text-gray-600">Total Cost:</span>
+                  <span className="text-gray-600">Net Cost:</span>
                   <span className="ml-2 font-semibold text-gray-900">{formatCurrency(purchaseData.summary.totalCost)}</span>
                 </div>
                 <div>
@@ -551,6 +657,7 @@ export default function ReportsView({
                 <tr>
                   <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Date</th>
                   <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Store</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Supplier</th>
                   <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Product</th>
                   <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Quantity</th>
                   <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Unit Cost</th>
@@ -560,30 +667,46 @@ export default function ReportsView({
               <tbody className="bg-white divide-y divide-gray-200">
                 {(!purchaseData.data || purchaseData.data.length === 0) ? (
                   <tr>
-                    <td colSpan={6} className="px-6 py-4 text-center text-sm text-gray-500">
+                    <td colSpan={7} className="px-6 py-4 text-center text-sm text-gray-500">
                       No purchases found for the selected period.
                     </td>
                   </tr>
                 ) : (
                   purchaseData.data.map((purchase: any) => (
-                    <tr key={purchase.id}>
+                    <tr key={purchase.is_return ? `return-${purchase.id}` : purchase.id} className={purchase.is_return ? 'bg-red-50' : undefined}>
                       <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
                         {formatDate(purchase.purchase_date)}
                       </td>
                       <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
                         {purchase.store?.name || '-'}
                       </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                        {purchase.supplier?.name || '-'}
+                      </td>
                       <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">
                         {purchase.product?.name || '-'}
+                        {purchase.is_return && (
+                          <span className="ml-2 inline-flex rounded-full px-2 py-0.5 text-xs font-semibold bg-red-100 text-red-800">
+                            Return {purchase.return_number}
+                          </span>
+                        )}
                       </td>
-                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                      <td className={`px-6 py-4 whitespace-nowrap text-sm ${purchase.is_return ? 'text-red-600' : 'text-gray-900'}`}>
                         {purchase.quantity} {purchase.product?.unit || ''}
                       </td>
                       <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
-                        {isAdmin ? formatCurrency(purchase.unit_cost) : '-'}
+                        {canViewPrices ? formatCurrency(purchase.unit_cost) : '-'}
+                        {canViewPrices && purchase.landed_unit_cost != null && Number(purchase.landed_unit_cost) !== Number(purchase.unit_cost) && (
+                          <p className="text-xs text-gray-500">Landed {formatCurrency(Number(purchase.landed_unit_cost))}</p>
+                        )}
+                        {canViewPrices && purchase.currency && purchase.currency !== 'PKR' && (
+                          <p className="text-xs text-gray-500">
+                            {purchase.currency} {Number(purchase.original_unit_cost).toFixed(2)} @ {Number(purchase.exchange_rate).toFixed(4)}
+                          </p>
+                        )}
                       </td>
-                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
-                        {isAdmin ? formatCurrency(purchase.total_cost) : '-'}
+                      <td className={`px-6 py-4 whitespace-nowrap text-sm ${purchase.is_return ? 'text-red-600' : 'text-gray-900'}`}>
+                        {canViewPrices ? formatCurrency(purchase.total_cost) : '-'}
                       </td>
                     </tr>
                   ))
@@ -594,6 +717,100 @@ export default function ReportsView({
         </div>
       )}
 
+      {/* Purchases by Supplier */}
+      {activeTab === 'purchases' && purchaseData && purchaseGrouping === 'supplier' && (
+        <div className="bg-white rounded-lg shadow-md border overflow-hidden" style={{ borderColor: '#E77817' }}>
+          <div className="px-6 py-4 bg-gray-50 border-b">
+            <h3 className="text-lg font-semibold" style={{ color: '#0067ac' }}>
+              Purchases by Supplier ({selectedPeriod})
+            </h3>
+            <p className="mt-1 text-sm text-gray-600">
+              Expand a supplier to see the last price paid for each product.
+            </p>
+          </div>
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Supplier</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Purchases</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Products</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Total Spend</th>
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {(!purchaseData.bySupplier || purchaseData.bySupplier.length === 0) ? (
+                  <tr>
+                    <td colSpan={4} className="px-6 py-4 text-center text-sm text-gray-500">
+                      No purchases found for the selected period.
+                    </td>
+                  </tr>
+                ) : (
+                  purchaseData.bySupplier.map((supplier: SupplierPurchaseSummary) => {
+                    const key = supplier.supplier_id ?? 'none'
+                    const isExpanded = expandedSuppliers[key]
+                    return (
+                      <Fragment key={key}>
+                        <tr>
+                          <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">
+                            <button
+                              onClick={() => setExpandedSuppliers({ ...expandedSuppliers, [key]: !isExpanded })}
+                              className="text-[#0067ac] hover:text-[#005a94]"
+                            >
+                              {isExpanded ? '▾' : '▸'} {supplier.supplier_name}
+                            </button>
+                          </td>
+                          <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                            {supplier.totalPurchases}
+                          </td>
+                          <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                            {supplier.lastPrices.length}
+                          </td>
+                          <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">
+                            {canViewPrices ? formatCurrency(supplier.totalCost) : '-'}
+                            {canViewPrices && supplier.totalReturnedCost > 0 && (
+                              <p className="text-xs font-normal text-red-600">
+                                after {formatCurrency(supplier.totalReturnedCost)} returned
+                              </p>
+                            )}
+                          </td>
+                        </tr>
+                        {isExpanded && (
+                          <tr>
+                            <td colSpan={4} className="px-6 py-4 bg-gray-50">
+                              <table className="min-w-full divide-y divide-gray-200 text-xs">
+                                <thead>
+                                  <tr>
+                                    <th className="px-3 py-2 text-left font-medium text-gray-500 uppercase">Product</th>
+                                    <th className="px-3 py-2 text-left font-medium text-gray-500 uppercase">Last Unit Cost</th>
+                                    <th className="px-3 py-2 text-left font-medium text-gray-500 uppercase">Last Purchased</th>
+                                  </tr>
+                                </thead>
+                                <tbody className="divide-y divide-gray-200">
+                                  {supplier.lastPrices.map((price) => (
+                                    <tr key={price.product_id}>
+                                      <td className="px-3 py-2 text-gray-900">{price.product_name}</td>
+                                      <td className="px-3 py-2 text-gray-900">
+                                        {canViewPrices ? `${formatCurrency(price.unit_cost)}${price.unit ? ` / ${price.unit}` : ''}` : '-'}
+                                      </td>
+                                      <td className="px-3 py-2 text-gray-900">{formatDate(price.purchase_date)}</td>
+                                    </tr>
+                                  ))}
+                                </tbody>
+                              </table>
+                            </td>
+                          </tr>
+                        )}
+                      </Fragment>
+                    )
+                  })
+                )}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+
       {/* Inventory Cost Report */}
       {activeTab === 'inventory' && inventoryData && (
         <div className="space-y-4">
@@ -612,12 +829,35 @@ export default function ReportsView({
                     <span className="text-gray-600">Total Quantity:</span>
                     <span className="ml-2 font-semibold text-gray-900">{inventoryData.summary.totalQuantity.toLocaleString()}</span>
                   </div>
-                  {isAdmin && (
+                  {canViewStockValues && (
                     <div>
                       <span className="text-gray-600">Total Value:</span>
                       <span className="ml-2 font-semibold text-gray-900">{formatCurrency(inventoryData.summary.totalValue)}</span>
                     </div>
                   )}
+                  {canViewStockValues && (
+                    <div>
+                      <span className="text-gray-600">Written Off:</span>
+                      <span className="ml-2 font-semibold text-red-600">{formatCurrency(inventoryData.summary.totalWriteOffValue || 0)}</span>
+                    </div>
+                  )}
+                  {canViewPrices && (
+                    <div>
+                      <label htmlFor="costing-method" className="text-gray-600">Costing Method:</label>
+                      <select
+                        id="costing-method"
+                        value={inventoryData.summary.costingMethod}
+                        onChange={(e) => handleCostingMethodChange(e.target.value as CostingMethod)}
+                        className="ml-2 rounded-md border border-gray-300 px-2 py-1 text-sm font-semibold text-gray-900 focus:outline-none focus:ring-2 focus:ring-[#0067ac]"
+                      >
+                        {COSTING_METHOD_OPTIONS.map((option) => (
+                          <option key={option.value} value={option.value}>
+                            {option.label}
+                          </option>
+                        ))}
+                      </select>
+                    </div>
+                  )}
                 </div>
               )}
             </div>
@@ -629,7 +869,7 @@ export default function ReportsView({
                     <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Product</th>
                     <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Category</th>
                     <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Quantity</th>
-                    {isAdmin && (
+                    {canViewStockValues && (
                       <>
                         <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Avg Cost</th>
                         <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Total Value</th>
@@ -640,7 +880,7 @@ export default function ReportsView({
                 <tbody className="bg-white divide-y divide-gray-200">
                   {(!inventoryData.data || inventoryData.data.length === 0) ? (
                     <tr>
-                      <td colSpan={isAdmin ? 6 : 4} className="px-6 py-4 text-center text-sm text-gray-500">
+                      <td colSpan={canViewStockValues ? 6 : 4} className="px-6 py-4 text-center text-sm text-gray-500">
                         No inventory items found.
                       </td>
                     </tr>
@@ -659,13 +899,13 @@ export default function ReportsView({
                         <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
                           {item.quantity} {item.product?.unit || ''}
                         </td>
-                        {isAdmin && (
+                        {canViewStockValues && (
                           <>
                             <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
-                              {formatCurrency(item.average_cost || 0)}
+                              {item.average_cost == null ? '-' : formatCurrency(item.average_cost)}
                             </td>
                             <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
-                              {formatCurrency(item.total_value || 0)}
+                              {item.total_value == null ? '-' : formatCurrency(item.total_value)}
                             </td>
                           </>
                         )}
@@ -678,7 +918,7 @@ export default function ReportsView({
           </div>
 
           {/* Store Summary */}
-          {isAdmin && inventoryData.summary && Object.keys(inventoryData.summary.byStore).length > 0 && (
+          {canViewStockValues && inventoryData.summary && Object.keys(inventoryData.summary.byStore).length > 0 && (
             <div className="bg-white rounded-lg shadow-md border overflow-hidden" style={{ borderColor: '#E77817' }}>
               <div className="px-6 py-4 bg-gray-50 border-b">
                 <h3 className="text-lg font-semibold" style={{ color: '#0067ac' }}>
@@ -692,6 +932,7 @@ export default function ReportsView({
                       <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Store</th>
                       <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Total Quantity</th>
                       <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Total Value</th>
+                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Written Off</th>
                     </tr>
                   </thead>
                   <tbody className="bg-white divide-y divide-gray-200">
@@ -706,6 +947,9 @@ export default function ReportsView({
                         <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
                           {formatCurrency(data.value)}
                         </td>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                          {formatCurrency(data.writeOffValue || 0)}
+                        </td>
                       </tr>
                     ))}
                   </tbody>
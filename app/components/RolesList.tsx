@@ -0,0 +1,325 @@
+'use client'
+
+import { useState } from 'react'
+import { createRole, updateRole, deleteRole } from '@/lib/actions/roles'
+import {
+  PERMISSION_GROUPS,
+  PERMISSION_OPTIONS,
+  STORE_ACCESS_LABELS,
+  STORE_ACCESS_OPTIONS,
+} from '@/lib/constants/permissions'
+import { getErrorMessage } from '@/lib/utils/errors'
+import type { Permission, Role, UserRole } from '@/lib/types'
+
+export default function RolesList({
+  initialRoles,
+  grantablePermissions,
+}: {
+  initialRoles: Role[]
+  grantablePermissions: Permission[]
+}) {
+  const [showModal, setShowModal] = useState(false)
+  const [editingRole, setEditingRole] = useState<Role | null>(null)
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [formData, setFormData] = useState({
+    name: '',
+    description: '',
+    store_access: 'project_store_manager' as UserRole,
+    permissions: [] as Permission[],
+  })
+
+  // The Administrator role always has everything
+  const permissionsLocked = !!editingRole && editingRole.is_system && editingRole.store_access === 'admin'
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setError(null)
+    setLoading(true)
+
+    if (editingRole) {
+      const result = await updateRole({
+        id: editingRole.id,
+        name: formData.name,
+        description: formData.description,
+        store_access: editingRole.is_system ? undefined : formData.store_access,
+        permissions: permissionsLocked ? undefined : formData.permissions,
+      })
+
+      if (result.error) {
+        setError(getErrorMessage(result.error))
+        setLoading(false)
+        return
+      }
+    } else {
+      const result = await createRole({
+        name: formData.name,
+        description: formData.description || undefined,
+        store_access: formData.store_access,
+        permissions: formData.permissions,
+      })
+
+      if (result.error) {
+        setError(getErrorMessage(result.error))
+        setLoading(false)
+        return
+      }
+    }
+
+    window.location.reload()
+  }
+
+  const handleEdit = (role: Role) => {
+    setEditingRole(role)
+    setFormData({
+      name: role.name,
+      description: role.description || '',
+      store_access: role.store_access,
+      permissions: role.permissions || [],
+    })
+    setShowModal(true)
+  }
+
+  const resetForm = () => {
+    setEditingRole(null)
+    setFormData({ name: '', description: '', store_access: 'project_store_manager', permissions: [] })
+    setError(null)
+  }
+
+  const togglePermission = (permission: Permission) => {
+    setFormData((current) => ({
+      ...current,
+      permissions: current.permissions.includes(permission)
+        ? current.permissions.filter((item) => item !== permission)
+        : [...current.permissions, permission],
+    }))
+  }
+
+  const handleDelete = async (role: Role) => {
+    if (!confirm(`Are you sure you want to delete the ${role.name} role?`)) {
+      return
+    }
+
+    const result = await deleteRole(role.id)
+    if (result.error) {
+      alert(getErrorMessage(result.error))
+      return
+    }
+
+    window.location.reload()
+  }
+
+  return (
+    <div>
+      <div className="mb-4 flex justify-end">
+        <button
+          onClick={() => setShowModal(true)}
+          className="rounded-md px-4 py-2 text-sm font-semibold text-white transition-colors"
+          style={{ backgroundColor: '#0067ac' }}
+          onMouseEnter={(e) => {
+            e.currentTarget.style.backgroundColor = '#005a94'
+          }}
+          onMouseLeave={(e) => {
+            e.currentTarget.style.backgroundColor = '#0067ac'
+          }}
+        >
+          Add Role
+        </button>
+      </div>
+
+      {showModal && (
+        <div className="fixed inset-0 z-50 flex items-center justify-center bg-black bg-opacity-50">
+          <div className="bg-white rounded-lg p-6 w-full max-w-2xl max-h-[90vh] overflow-y-auto">
+            <h3 className="text-xl font-bold mb-4" style={{ color: '#0067ac' }}>
+              {editingRole ? 'Edit Role' : 'Add New Role'}
+            </h3>
+            <form onSubmit={handleSubmit} className="space-y-4">
+              {error && (
+                <div className="rounded-md bg-red-50 p-3 border border-red-200">
+                  <div className="text-sm text-red-800">{error}</div>
+                </div>
+              )}
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Role Name *
+                </label>
+                <input
+                  type="text"
+                  required
+                  value={formData.name}
+                  onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                  className="w-full rounded-md border border-gray-300 px-3 py-2 text-sm text-gray-900 placeholder-gray-500 focus:border-[#0067ac] focus:outline-none focus:ring-2 focus:ring-[#0067ac]"
+                  placeholder="e.g., Storekeeper, Site Engineer"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Description
+                </label>
+                <textarea
+                  value={formData.description}
+                  onChange={(e) => setFormData({ ...formData, description: e.target.value })}
+                  rows={2}
+                  className="w-full rounded-md border border-gray-300 px-3 py-2 text-sm text-gray-900 placeholder-gray-500 focus:border-[#0067ac] focus:outline-none focus:ring-2 focus:ring-[#0067ac]"
+                  placeholder="Optional description"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Store Access *
+                </label>
+                {editingRole?.is_system ? (
+                  <p className="text-sm text-gray-600">
+                    {STORE_ACCESS_LABELS[editingRole.store_access]} (built-in roles keep their store access)
+                  </p>
+                ) : (
+                  <select
+                    value={formData.store_access}
+                    onChange={(e) => setFormData({ ...formData, store_access: e.target.value as UserRole })}
+                    className="w-full rounded-md border border-gray-300 px-3 py-2 text-sm text-gray-900 bg-white focus:border-[#0067ac] focus:outline-none focus:ring-2 focus:ring-[#0067ac]"
+                  >
+                    {STORE_ACCESS_OPTIONS.map((option) => (
+                      <option key={option.value} value={option.value}>
+                        {option.label}
+                      </option>
+                    ))}
+                  </select>
+                )}
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Permissions
+                </label>
+                {permissionsLocked && (
+                  <p className="mb-2 text-sm text-gray-600">
+                    The Administrator role always has every permission.
+                  </p>
+                )}
+                <div className="grid grid-cols-1 gap-4 md:grid-cols-2">
+                  {PERMISSION_GROUPS.map((group) => (
+                    <fieldset key={group} className="rounded-md border border-gray-200 p-3">
+                      <legend className="px-1 text-xs font-semibold uppercase text-gray-500">{group}</legend>
+                      {PERMISSION_OPTIONS.filter((option) => option.group === group).map((option) => {
+                        const checked = permissionsLocked || formData.permissions.includes(option.value)
+                        // Permissions the current user doesn't hold can only be taken away
+                        const grantable = grantablePermissions.includes(option.value) || checked
+                        return (
+                          <label key={option.value} className="flex items-center gap-2 py-1 text-sm text-gray-900">
+                            <input
+                              type="checkbox"
+                              checked={checked}
+                              disabled={permissionsLocked || !grantable}
+                              onChange={() => togglePermission(option.value)}
+                              className="rounded border-gray-300 text-[#0067ac] focus:ring-[#0067ac]"
+                            />
+                            {option.label}
+                          </label>
+                        )
+                      })}
+                    </fieldset>
+                  ))}
+                </div>
+              </div>
+              <div className="flex gap-3 pt-4">
+                <button
+                  type="button"
+                  onClick={() => {
+                    setShowModal(false)
+                    resetForm()
+                  }}
+                  className="flex-1 rounded-md border border-gray-300 bg-white px-4 py-2 text-sm font-medium text-gray-700 hover:bg-gray-50"
+                >
+                  Cancel
+                </button>
+                <button
+                  type="submit"
+                  disabled={loading}
+                  className="flex-1 rounded-md px-4 py-2 text-sm font-semibold text-white disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                  style={{ backgroundColor: '#0067ac' }}
+                >
+                  {loading ? (editingRole ? 'Updating...' : 'Creating...') : (editingRole ? 'Update Role' : 'Create Role')}
+                </button>
+              </div>
+            </form>
+          </div>
+        </div>
+      )}
+
+      <div className="rounded-lg bg-white shadow-md border overflow-hidden" style={{ borderColor: '#E77817' }}>
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200">
+          <thead className="bg-gray-50">
+            <tr>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Name
+              </th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Store Access
+              </th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Permissions
+              </th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Users
+              </th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Actions
+              </th>
+            </tr>
+          </thead>
+          <tbody className="bg-white divide-y divide-gray-200">
+            {initialRoles.length === 0 ? (
+              <tr>
+                <td colSpan={5} className="px-6 py-4 text-center text-sm text-gray-500">
+                  No roles found.
+                </td>
+              </tr>
+            ) : (
+              initialRoles.map((role) => (
+                <tr key={role.id}>
+                  <td className="px-6 py-4 text-sm text-gray-900">
+                    <div className="font-medium">
+                      {role.name}
+                      {role.is_system && (
+                        <span className="ml-2 rounded-full bg-gray-100 px-2 py-0.5 text-xs font-medium text-gray-600">
+                          Built-in
+                        </span>
+                      )}
+                    </div>
+                    {role.description && <div className="text-xs text-gray-500">{role.description}</div>}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                    {STORE_ACCESS_LABELS[role.store_access]}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                    {role.permissions?.length ?? 0} of {PERMISSION_OPTIONS.length}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                    {role.user_count ?? 0}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm font-medium">
+                    <button
+                      onClick={() => handleEdit(role)}
+                      className="text-[#0067ac] hover:text-[#005a94] mr-4"
+                    >
+                      Edit
+                    </button>
+                    {!role.is_system && (
+                      <button
+                        onClick={() => handleDelete(role)}
+                        className="text-red-600 hover:text-red-900"
+                      >
+                        Delete
+                      </button>
+                    )}
+                  </td>
+                </tr>
+              ))
+            )}
+          </tbody>
+        </table>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,604 @@
+'use client'
+
+import { Fragment, useMemo, useRef, useState } from 'react'
+import Papa from 'papaparse'
+import {
+  startStockTake,
+  saveStockTakeCounts,
+  submitStockTake,
+  reopenStockTake,
+  approveStockTake,
+  cancelStockTake,
+} from '@/lib/actions/stockTakes'
+import { getErrorMessage } from '@/lib/utils/errors'
+import type { StockTake, StockTakeItem, StockTakeStatus, Store } from '@/lib/types'
+
+const STATUS_LABELS: Record<StockTakeStatus, string> = {
+  counting: 'Counting',
+  submitted: 'Awaiting Approval',
+  approved: 'Posted',
+  cancelled: 'Cancelled',
+}
+
+const STATUS_CLASSES: Record<StockTakeStatus, string> = {
+  counting: 'bg-blue-100 text-blue-800',
+  submitted: 'bg-yellow-100 text-yellow-800',
+  approved: 'bg-green-100 text-green-800',
+  cancelled: 'bg-gray-200 text-gray-600',
+}
+
+interface CSVCountRow {
+  product?: string
+  counted_quantity?: string
+}
+
+function getVariance(item: StockTakeItem) {
+  if (item.counted_quantity === null || item.counted_quantity === undefined) {
+    return null
+  }
+  return Number(item.counted_quantity) - Number(item.system_quantity)
+}
+
+function getVarianceValue(stockTake: StockTake) {
+  return (stockTake.items || []).reduce((sum, item) => {
+    const variance = getVariance(item)
+    return sum + (variance === null ? 0 : variance * Number(item.unit_cost))
+  }, 0)
+}
+
+function getFlaggedCount(stockTake: StockTake) {
+  return (stockTake.flagged_purchases?.length || 0) + (stockTake.flagged_issues?.length || 0)
+}
+
+export default function StockTakesList({
+  stockTakes,
+  stores,
+  canApprove,
+}: {
+  stockTakes: StockTake[]
+  stores: Store[]
+  canApprove: boolean
+}) {
+  const fileInputRef = useRef<HTMLInputElement>(null)
+  const [statusFilter, setStatusFilter] = useState<'all' | StockTakeStatus>('all')
+  const [expandedStockTakes, setExpandedStockTakes] = useState<Record<string, boolean>>({})
+  const [showStartModal, setShowStartModal] = useState(false)
+  const [startData, setStartData] = useState({ store_id: '', notes: '' })
+  const [countingStockTake, setCountingStockTake] = useState<StockTake | null>(null)
+  const [counts, setCounts] = useState<Record<string, string>>({})
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const visibleStockTakes = useMemo(() => {
+    if (statusFilter === 'all') return stockTakes
+    return stockTakes.filter((stockTake) => stockTake.status === statusFilter)
+  }, [stockTakes, statusFilter])
+
+  const countingItems = useMemo(
+    () =>
+      [...(countingStockTake?.items || [])].sort((a, b) =>
+        (a.product?.name || '').localeCompare(b.product?.name || '')
+      ),
+    [countingStockTake]
+  )
+
+  const runAction = async (action: () => Promise<{ error: unknown }>) => {
+    const result = await action()
+    if (result.error) {
+      alert(getErrorMessage(result.error))
+      return
+    }
+    window.location.reload()
+  }
+
+  const handleStart = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setError(null)
+    setLoading(true)
+
+    const result = await startStockTake(startData.store_id, startData.notes || undefined)
+
+    if (result.error) {
+      setError(getErrorMessage(result.error))
+      setLoading(false)
+      return
+    }
+
+    window.location.reload()
+  }
+
+  const openCountModal = (stockTake: StockTake) => {
+    setCountingStockTake(stockTake)
+    const defaults: Record<string, string> = {}
+    ;(stockTake.items || []).forEach((item) => {
+      defaults[item.id] = item.counted_quantity !== null ? item.counted_quantity.toString() : ''
+    })
+    setCounts(defaults)
+    setError(null)
+  }
+
+  const handleFileUpload = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0]
+    if (!file || !countingStockTake) return
+
+    setError(null)
+
+    Papa.parse(file, {
+      header: true,
+      skipEmptyLines: true,
+      complete: (results) => {
+        if (results.errors.length > 0) {
+          setError(`CSV parsing error: ${results.errors[0].message}`)
+          return
+        }
+
+        const rows = results.data as CSVCountRow[]
+        const itemsByName = new Map(
+          countingItems.map((item) => [(item.product?.name || '').trim().toLowerCase(), item])
+        )
+        const updated = { ...counts }
+        const unmatched: string[] = []
+
+        rows.forEach((row) => {
+          const name = (row.product || '').trim()
+          const item = itemsByName.get(name.toLowerCase())
+          if (!item) {
+            if (name) unmatched.push(name)
+            return
+          }
+          updated[item.id] = (row.counted_quantity || '').trim()
+        })
+
+        setCounts(updated)
+        if (unmatched.length > 0) {
+          setError(`These products are not part of this stock take and were skipped: ${unmatched.join(', ')}`)
+        }
+      },
+      error: (parseError) => {
+        setError(`Failed to parse CSV: ${parseError.message}`)
+      },
+    })
+  }
+
+  const downloadCountSheet = () => {
+    if (!countingStockTake) return
+
+    const rows = [
+      ['product', 'unit', 'system_quantity', 'counted_quantity'],
+      ...countingItems.map((item) => [
+        item.product?.name || '',
+        item.product?.unit || '',
+        item.system_quantity.toString(),
+        counts[item.id] || '',
+      ]),
+    ]
+
+    const csv = Papa.unparse(rows)
+    const blob = new Blob([csv], { type: 'text/csv;charset=utf-8;' })
+    const link = document.createElement('a')
+    const url = URL.createObjectURL(blob)
+    link.setAttribute('href', url)
+    link.setAttribute('download', `${countingStockTake.stock_take_number}-count-sheet.csv`)
+    link.style.visibility = 'hidden'
+    document.body.appendChild(link)
+    link.click()
+    document.body.removeChild(link)
+  }
+
+  const handleSaveCounts = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!countingStockTake) return
+
+    setError(null)
+    setLoading(true)
+
+    const result = await saveStockTakeCounts({
+      stock_take_id: countingStockTake.id,
+      counts: Object.entries(counts).map(([itemId, value]) => ({
+        stock_take_item_id: itemId,
+        counted_quantity: value.trim() === '' ? null : parseFloat(value),
+      })),
+    })
+
+    if (result.error) {
+      setError(getErrorMessage(result.error))
+      setLoading(false)
+      return
+    }
+
+    window.location.reload()
+  }
+
+  const handleApprove = async (stockTake: StockTake) => {
+    const flagged = getFlaggedCount(stockTake)
+    const message = flagged > 0
+      ? `${flagged} purchase${flagged === 1 ? '' : 's'}/issue${flagged === 1 ? '' : 's'} were recorded during this count and will be carried on top of the counted quantities. Post the variances for ${stockTake.stock_take_number}?`
+      : `Post the variances for ${stockTake.stock_take_number} as stock adjustments?`
+    if (!confirm(message)) {
+      return
+    }
+    await runAction(() => approveStockTake(stockTake.id))
+  }
+
+  const handleCancel = async (stockTake: StockTake) => {
+    if (!confirm(`Cancel ${stockTake.stock_take_number}? Counted quantities will not be posted.`)) {
+      return
+    }
+    await runAction(() => cancelStockTake(stockTake.id))
+  }
+
+  return (
+    <div>
+      <div className="mb-4 flex flex-wrap items-end justify-between gap-4">
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">
+            Status
+          </label>
+          <select
+            value={statusFilter}
+            onChange={(e) => setStatusFilter(e.target.value as 'all' | StockTakeStatus)}
+            className="rounded-md border border-gray-300 px-3 py-2 text-sm text-gray-900 bg-white focus:border-[#0067ac] focus:outline-none focus:ring-2 focus:ring-[#0067ac]"
+          >
+            <option value="all">All Stock Takes</option>
+            {(Object.keys(STATUS_LABELS) as StockTakeStatus[]).map((status) => (
+              <option key={status} value={status}>
+                {STATUS_LABELS[status]}
+              </option>
+            ))}
+          </select>
+        </div>
+        <button
+          onClick={() => {
+            setStartData({ store_id: '', notes: '' })
+            setError(null)
+            setShowStartModal(true)
+          }}
+          className="rounded-md px-4 py-2 text-sm font-semibold text-white transition-colors"
+          style={{ backgroundColor: '#0067ac' }}
+          onMouseEnter={(e) => {
+            e.currentTarget.style.backgroundColor = '#005a94'
+          }}
+          onMouseLeave={(e) => {
+            e.currentTarget.style.backgroundColor = '#0067ac'
+          }}
+        >
+          Start Stock Take
+        </button>
+      </div>
+
+      {showStartModal && (
+        <div className="fixed inset-0 z-50 flex items-center justify-center bg-black bg-opacity-50">
+          <div className="bg-white rounded-lg p-6 w-full max-w-md">
+            <h3 className="text-xl font-bold mb-4" style={{ color: '#0067ac' }}>
+              Start Stock Take
+            </h3>
+            <form onSubmit={handleStart} className="space-y-4">
+              {error && (
+                <div className="rounded-md bg-red-50 p-3 border border-red-200">
+                  <div className="text-sm text-red-800">{error}</div>
+                </div>
+              )}
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Store *
+                </label>
+                <select
+                  required
+                  value={startData.store_id}
+                  onChange={(e) => setStartData({ ...startData, store_id: e.target.value })}
+                  className="w-full rounded-md border border-gray-300 px-3 py-2 text-sm text-gray-900 bg-white focus:border-[#0067ac] focus:outline-none focus:ring-2 focus:ring-[#0067ac]"
+                >
+                  <option value="">Select a store</option>
+                  {stores.map((store) => (
+                    <option key={store.id} value={store.id}>
+                      {store.name}{store.type === 'project' && store.project ? ` (${store.project.name})` : ''}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Notes
+                </label>
+                <textarea
+                  value={startData.notes}
+                  onChange={(e) => setStartData({ ...startData, notes: e.target.value })}
+                  rows={2}
+                  className="w-full rounded-md border border-gray-300 px-3 py-2 text-sm text-gray-900 placeholder-gray-500 focus:border-[#0067ac] focus:outline-none focus:ring-2 focus:ring-[#0067ac]"
+                  placeholder="Optional notes"
+                />
+              </div>
+              <p className="text-xs text-gray-500">
+                Current stock levels are snapshotted now. Purchases and issues recorded for this store before the count is posted are flagged.
+              </p>
+              <div className="flex gap-3 pt-4">
+                <button
+                  type="button"
+                  onClick={() => {
+                    setShowStartModal(false)
+                    setError(null)
+                  }}
+                  className="flex-1 rounded-md border border-gray-300 bg-white px-4 py-2 text-sm font-medium text-gray-700 hover:bg-gray-50"
+                >
+                  Cancel
+                </button>
+                <button
+                  type="submit"
+                  disabled={loading}
+                  className="flex-1 rounded-md px-4 py-2 text-sm font-semibold text-white disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                  style={{ backgroundColor: '#0067ac' }}
+                >
+                  {loading ? 'Starting...' : 'Start Count'}
+                </button>
+              </div>
+            </form>
+          </div>
+        </div>
+      )}
+
+      {countingStockTake && (
+        <div className="fixed inset-0 z-50 flex items-center justify-center bg-black bg-opacity-50">
+          <div className="bg-white rounded-lg p-6 w-full max-w-4xl max-h-[90vh] overflow-y-auto">
+            <h3 className="text-xl font-bold mb-4" style={{ color: '#0067ac' }}>
+              Count Stock - {countingStockTake.stock_take_number} ({countingStockTake.store?.name || '-'})
+            </h3>
+            <form onSubmit={handleSaveCounts} className="space-y-4">
+              {error && (
+                <div className="rounded-md bg-red-50 p-3 border border-red-200">
+                  <div className="text-sm text-red-800">{error}</div>
+                </div>
+              )}
+              {getFlaggedCount(countingStockTake) > 0 && (
+                <div className="rounded-md bg-yellow-50 p-3 border border-yellow-200 text-sm text-yellow-800">
+                  {getFlaggedCount(countingStockTake)} purchase/issue entries were recorded for this store after the snapshot was taken. Count against the snapshot quantities and let the approver know.
+                </div>
+              )}
+              <div className="flex flex-wrap items-center gap-3">
+                <input
+                  ref={fileInputRef}
+                  type="file"
+                  accept=".csv"
+                  onChange={handleFileUpload}
+                  className="rounded-md border border-gray-300 px-3 py-2 text-sm text-gray-900 focus:border-[#0067ac] focus:outline-none focus:ring-2 focus:ring-[#0067ac]"
+                />
+                <button
+                  type="button"
+                  onClick={downloadCountSheet}
+                  className="text-sm text-[#0067ac] hover:text-[#005a94] underline"
+                >
+                  Download Count Sheet
+                </button>
+                <p className="w-full text-xs text-gray-500">
+                  CSV must have columns: product, counted_quantity. Uploaded counts fill the form below; review and save them.
+                </p>
+              </div>
+              <table className="min-w-full divide-y divide-gray-200 text-sm">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Product</th>
+                    <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase">System</th>
+                    <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase">Counted</th>
+                    <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase">Variance</th>
+                    <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase">Value</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-200">
+                  {countingItems.length === 0 ? (
+                    <tr>
+                      <td colSpan={5} className="px-3 py-4 text-center text-gray-500">
+                        This store had no stock when the count started.
+                      </td>
+                    </tr>
+                  ) : (
+                    countingItems.map((item) => {
+                      const counted = parseFloat(counts[item.id] ?? '')
+                      const variance = isNaN(counted) ? null : counted - Number(item.system_quantity)
+                      return (
+                        <tr key={item.id}>
+                          <td className="px-3 py-2 text-gray-900">{item.product?.name || '-'}</td>
+                          <td className="px-3 py-2 text-right text-gray-500">{item.system_quantity} {item.product?.unit || ''}</td>
+                          <td className="px-3 py-2 text-right">
+                            <input
+                              type="number"
+                              step="0.01"
+                              min="0"
+                              value={counts[item.id] ?? ''}
+                              onChange={(e) => setCounts({ ...counts, [item.id]: e.target.value })}
+                              className="w-28 rounded-md border border-gray-300 px-2 py-1 text-sm text-gray-900 text-right focus:border-[#0067ac] focus:outline-none focus:ring-2 focus:ring-[#0067ac]"
+                            />
+                          </td>
+                          <td className={`px-3 py-2 text-right font-semibold ${variance !== null && variance < 0 ? 'text-red-600' : variance ? 'text-green-600' : 'text-gray-500'}`}>
+                            {variance === null ? '-' : `${variance > 0 ? '+' : ''}${variance}`}
+                          </td>
+                          <td className="px-3 py-2 text-right text-gray-900">
+                            {variance === null ? '-' : `PKR ${(variance * Number(item.unit_cost)).toFixed(2)}`}
+                          </td>
+                        </tr>
+                      )
+                    })
+                  )}
+                </tbody>
+              </table>
+              <div className="flex gap-3 pt-4">
+                <button
+                  type="button"
+                  onClick={() => {
+                    setCountingStockTake(null)
+                    setError(null)
+                  }}
+                  className="flex-1 rounded-md border border-gray-300 bg-white px-4 py-2 text-sm font-medium text-gray-700 hover:bg-gray-50"
+                >
+                  Cancel
+                </button>
+                <button
+                  type="submit"
+                  disabled={loading}
+                  className="flex-1 rounded-md px-4 py-2 text-sm font-semibold text-white disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                  style={{ backgroundColor: '#0067ac' }}
+                >
+                  {loading ? 'Saving...' : 'Save Counts'}
+                </button>
+              </div>
+            </form>
+          </div>
+        </div>
+      )}
+
+      <div className="rounded-lg bg-white shadow-md border overflow-hidden" style={{ borderColor: '#E77817' }}>
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200">
+          <thead className="bg-gray-50">
+            <tr>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Stock Take
+              </th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Started
+              </th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Store
+              </th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Status
+              </th>
+              <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Counted
+              </th>
+              <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Variance Value
+              </th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Actions
+              </th>
+            </tr>
+          </thead>
+          <tbody className="bg-white divide-y divide-gray-200">
+            {visibleStockTakes.length === 0 ? (
+              <tr>
+                <td colSpan={7} className="px-6 py-4 text-center text-sm text-gray-500">
+                  No stock takes found.
+                </td>
+              </tr>
+            ) : (
+              visibleStockTakes.map((stockTake) => {
+                const isExpanded = expandedStockTakes[stockTake.id]
+                const items = stockTake.items || []
+                const countedItems = items.filter((item) => item.counted_quantity !== null).length
+                const flagged = getFlaggedCount(stockTake)
+                const isOpen = stockTake.status === 'counting' || stockTake.status === 'submitted'
+
+                return (
+                  <Fragment key={stockTake.id}>
+                    <tr>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">
+                        <button
+                          onClick={() => setExpandedStockTakes({ ...expandedStockTakes, [stockTake.id]: !isExpanded })}
+                          className="text-[#0067ac] hover:text-[#005a94]"
+                        >
+                          {isExpanded ? '▾' : '▸'} {stockTake.stock_take_number}
+                        </button>
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                        {new Date(stockTake.created_at).toLocaleDateString()}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                        {stockTake.store?.name || '-'}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm">
+                        <span className={`inline-flex rounded-full px-2 py-1 text-xs font-semibold ${STATUS_CLASSES[stockTake.status]}`}>
+                          {STATUS_LABELS[stockTake.status]}
+                        </span>
+                        {isOpen && flagged > 0 && (
+                          <p className="mt-1 text-xs text-yellow-700">{flagged} movement{flagged === 1 ? '' : 's'} during count</p>
+                        )}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-right text-gray-900">
+                        {countedItems} / {items.length}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-right font-medium text-gray-900">
+                        PKR {getVarianceValue(stockTake).toFixed(2)}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm font-medium space-x-3">
+                        {stockTake.status === 'counting' && (
+                          <>
+                            <button onClick={() => openCountModal(stockTake)} className="text-[#E77817] hover:text-[#d66a14]">
+                              Count
+                            </button>
+                            <button onClick={() => runAction(() => submitStockTake(stockTake.id))} className="text-[#0067ac] hover:text-[#005a94]">
+                              Submit
+                            </button>
+                          </>
+                        )}
+                        {stockTake.status === 'submitted' && (
+                          <>
+                            {canApprove && (
+                              <button onClick={() => handleApprove(stockTake)} className="text-green-600 hover:text-green-900">
+                                Approve
+                              </button>
+                            )}
+                            <button onClick={() => runAction(() => reopenStockTake(stockTake.id))} className="text-[#0067ac] hover:text-[#005a94]">
+                              Reopen
+                            </button>
+                          </>
+                        )}
+                        {isOpen && (
+                          <button onClick={() => handleCancel(stockTake)} className="text-red-600 hover:text-red-900">
+                            Cancel
+                          </button>
+                        )}
+                      </td>
+                    </tr>
+                    {isExpanded && (
+                      <tr>
+                        <td colSpan={7} className="px-6 py-4 bg-gray-50">
+                          <table className="min-w-full divide-y divide-gray-200 text-xs">
+                            <thead>
+                              <tr>
+                                <th className="px-3 py-2 text-left font-medium text-gray-500 uppercase">Product</th>
+                                <th className="px-3 py-2 text-right font-medium text-gray-500 uppercase">System</th>
+                                <th className="px-3 py-2 text-right font-medium text-gray-500 uppercase">Counted</th>
+                                <th className="px-3 py-2 text-right font-medium text-gray-500 uppercase">Variance</th>
+                                <th className="px-3 py-2 text-right font-medium text-gray-500 uppercase">Value</th>
+                                <th className="px-3 py-2 text-center font-medium text-gray-500 uppercase">Movements During Count</th>
+                              </tr>
+                            </thead>
+                            <tbody className="divide-y divide-gray-200">
+                              {items.map((item) => {
+                                const variance = getVariance(item)
+                                const movedDuringCount =
+                                  (stockTake.flagged_purchases || []).some((purchase) => purchase.product_id === item.product_id) ||
+                                  (stockTake.flagged_issues || []).some((issue) => issue.product_id === item.product_id)
+                                return (
+                                  <tr key={item.id}>
+                                    <td className="px-3 py-2 text-gray-900">{item.product?.name || '-'}</td>
+                                    <td className="px-3 py-2 text-right text-gray-900">{item.system_quantity} {item.product?.unit || ''}</td>
+                                    <td className="px-3 py-2 text-right text-gray-900">{item.counted_quantity ?? '-'}</td>
+                                    <td className={`px-3 py-2 text-right ${variance !== null && variance < 0 ? 'text-red-600' : 'text-gray-900'}`}>
+                                      {variance === null ? '-' : `${variance > 0 ? '+' : ''}${variance}`}
+                                    </td>
+                                    <td className="px-3 py-2 text-right text-gray-900">
+                                      {variance === null ? '-' : `PKR ${(variance * Number(item.unit_cost)).toFixed(2)}`}
+                                    </td>
+                                    <td className="px-3 py-2 text-center text-yellow-700">
+                                      {movedDuringCount ? 'Yes' : ''}
+                                    </td>
+                                  </tr>
+                                )
+                              })}
+                            </tbody>
+                          </table>
+                          {stockTake.notes && <p className="mt-2 text-xs text-gray-500">Notes: {stockTake.notes}</p>}
+                        </td>
+                      </tr>
+                    )}
+                  </Fragment>
+                )
+              })
+            )}
+          </tbody>
+        </table>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,326 @@
+'use client'
+
+import { useMemo, useState } from 'react'
+import { createSupplier, updateSupplier, deleteSupplier } from '@/lib/actions/suppliers'
+import { getErrorMessage } from '@/lib/utils/errors'
+import type { Supplier } from '@/lib/types'
+
+const emptyForm = {
+  name: '',
+  contact_person: '',
+  phone: '',
+  email: '',
+  address: '',
+  tax_number: '',
+  notes: '',
+}
+
+export default function SuppliersList({ initialSuppliers }: { initialSuppliers: Supplier[] }) {
+  const [suppliers] = useState(initialSuppliers)
+  const [search, setSearch] = useState('')
+  const [showModal, setShowModal] = useState(false)
+  const [editingSupplier, setEditingSupplier] = useState<Supplier | null>(null)
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [formData, setFormData] = useState(emptyForm)
+
+  const filteredSuppliers = useMemo(() => {
+    const query = search.trim().toLowerCase()
+    if (!query) {
+      return suppliers
+    }
+    return suppliers.filter((supplier) =>
+      [supplier.name, supplier.contact_person, supplier.phone, supplier.tax_number]
+        .some((value) => value?.toLowerCase().includes(query))
+    )
+  }, [suppliers, search])
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setError(null)
+    setLoading(true)
+
+    if (editingSupplier) {
+      const result = await updateSupplier({
+        id: editingSupplier.id,
+        ...formData,
+      })
+
+      if (result.error) {
+        setError(getErrorMessage(result.error))
+        setLoading(false)
+        return
+      }
+    } else {
+      const result = await createSupplier({
+        name: formData.name,
+        contact_person: formData.contact_person || undefined,
+        phone: formData.phone || undefined,
+        email: formData.email || undefined,
+        address: formData.address || undefined,
+        tax_number: formData.tax_number || undefined,
+        notes: formData.notes || undefined,
+      })
+
+      if (result.error) {
+        setError(getErrorMessage(result.error))
+        setLoading(false)
+        return
+      }
+    }
+
+    window.location.reload()
+  }
+
+  const handleEdit = (supplier: Supplier) => {
+    setEditingSupplier(supplier)
+    setFormData({
+      name: supplier.name,
+      contact_person: supplier.contact_person || '',
+      phone: supplier.phone || '',
+      email: supplier.email || '',
+      address: supplier.address || '',
+      tax_number: supplier.tax_number || '',
+      notes: supplier.notes || '',
+    })
+    setShowModal(true)
+  }
+
+  const resetForm = () => {
+    setEditingSupplier(null)
+    setFormData(emptyForm)
+    setError(null)
+  }
+
+  const handleDelete = async (supplierId: string) => {
+    if (!confirm('Are you sure you want to delete this supplier? Existing purchases will keep their supplier.')) {
+      return
+    }
+
+    const result = await deleteSupplier(supplierId)
+    if (result.error) {
+      alert(result.error)
+      return
+    }
+
+    window.location.reload()
+  }
+
+  const inputClassName =
+    'w-full rounded-md border border-gray-300 px-3 py-2 text-sm text-gray-900 placeholder-gray-500 focus:border-[#0067ac] focus:outline-none focus:ring-2 focus:ring-[#0067ac]'
+
+  return (
+    <div>
+      <div className="mb-4 flex flex-wrap items-center justify-between gap-4">
+        <input
+          type="text"
+          value={search}
+          onChange={(e) => setSearch(e.target.value)}
+          placeholder="Search suppliers..."
+          className="w-full max-w-xs rounded-md border border-gray-300 px-3 py-2 text-sm text-gray-900 placeholder-gray-500 focus:border-[#0067ac] focus:outline-none focus:ring-2 focus:ring-[#0067ac]"
+        />
+        <button
+          onClick={() => setShowModal(true)}
+          className="rounded-md px-4 py-2 text-sm font-semibold text-white transition-colors"
+          style={{ backgroundColor: '#0067ac' }}
+          onMouseEnter={(e) => {
+            e.currentTarget.style.backgroundColor = '#005a94'
+          }}
+          onMouseLeave={(e) => {
+            e.currentTarget.style.backgroundColor = '#0067ac'
+          }}
+        >
+          Add Supplier
+        </button>
+      </div>
+
+      {showModal && (
+        <div className="fixed inset-0 z-50 flex items-center justify-center bg-black bg-opacity-50">
+          <div className="bg-white rounded-lg p-6 w-full max-w-lg max-h-[90vh] overflow-y-auto">
+            <h3 className="text-xl font-bold mb-4" style={{ color: '#0067ac' }}>
+              {editingSupplier ? 'Edit Supplier' : 'Add New Supplier'}
+            </h3>
+            <form onSubmit={handleSubmit} className="space-y-4">
+              {error && (
+                <div className="rounded-md bg-red-50 p-3 border border-red-200">
+                  <div className="text-sm text-red-800">{error}</div>
+                </div>
+              )}
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Supplier Name *
+                </label>
+                <input
+                  type="text"
+                  required
+                  value={formData.name}
+                  onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                  className={inputClassName}
+                  placeholder="e.g., Al-Madina Steel Traders"
+                />
+              </div>
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Contact Person
+                  </label>
+                  <input
+                    type="text"
+                    value={formData.contact_person}
+                    onChange={(e) => setFormData({ ...formData, contact_person: e.target.value })}
+                    className={inputClassName}
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Phone
+                  </label>
+                  <input
+                    type="tel"
+                    value={formData.phone}
+                    onChange={(e) => setFormData({ ...formData, phone: e.target.value })}
+                    className={inputClassName}
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Email
+                  </label>
+                  <input
+                    type="email"
+                    value={formData.email}
+                    onChange={(e) => setFormData({ ...formData, email: e.target.value })}
+                    className={inputClassName}
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    NTN / Tax Number
+                  </label>
+                  <input
+                    type="text"
+                    value={formData.tax_number}
+                    onChange={(e) => setFormData({ ...formData, tax_number: e.target.value })}
+                    className={inputClassName}
+                  />
+                </div>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Address
+                </label>
+                <textarea
+                  value={formData.address}
+                  onChange={(e) => setFormData({ ...formData, address: e.target.value })}
+                  rows={2}
+                  className={inputClassName}
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Notes
+                </label>
+                <textarea
+                  value={formData.notes}
+                  onChange={(e) => setFormData({ ...formData, notes: e.target.value })}
+                  rows={2}
+                  className={inputClassName}
+                  placeholder="Optional notes"
+                />
+              </div>
+              <div className="flex gap-3 pt-4">
+                <button
+                  type="button"
+                  onClick={() => {
+                    setShowModal(false)
+                    resetForm()
+                  }}
+                  className="flex-1 rounded-md border border-gray-300 bg-white px-4 py-2 text-sm font-medium text-gray-700 hover:bg-gray-50"
+                >
+                  Cancel
+                </button>
+                <button
+                  type="submit"
+                  disabled={loading}
+                  className="flex-1 rounded-md px-4 py-2 text-sm font-semibold text-white disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                  style={{ backgroundColor: '#0067ac' }}
+                >
+                  {loading ? (editingSupplier ? 'Updating...' : 'Creating...') : (editingSupplier ? 'Update Supplier' : 'Create Supplier')}
+                </button>
+              </div>
+            </form>
+          </div>
+        </div>
+      )}
+
+      <div className="rounded-lg bg-white shadow-md border overflow-hidden" style={{ borderColor: '#E77817' }}>
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200">
+          <thead className="bg-gray-50">
+            <tr>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Name
+              </th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Contact
+              </th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                NTN
+              </th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Address
+              </th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Actions
+              </th>
+            </tr>
+          </thead>
+          <tbody className="bg-white divide-y divide-gray-200">
+            {filteredSuppliers.length === 0 ? (
+              <tr>
+                <td colSpan={5} className="px-6 py-4 text-center text-sm text-gray-500">
+                  {suppliers.length === 0 ? 'No suppliers found. Add your first supplier.' : 'No suppliers match your search.'}
+                </td>
+              </tr>
+            ) : (
+              filteredSuppliers.map((supplier) => (
+                <tr key={supplier.id}>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">
+                    {supplier.name}
+                  </td>
+                  <td className="px-6 py-4 text-sm text-gray-500">
+                    <div>{supplier.contact_person || '-'}</div>
+                    {(supplier.phone || supplier.email) && (
+                      <div className="text-xs">{[supplier.phone, supplier.email].filter(Boolean).join(' • ')}</div>
+                    )}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                    {supplier.tax_number || '-'}
+                  </td>
+                  <td className="px-6 py-4 text-sm text-gray-500">
+                    {supplier.address || '-'}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm font-medium">
+                    <button
+                      onClick={() => handleEdit(supplier)}
+                      className="text-[#0067ac] hover:text-[#005a94] mr-4"
+                    >
+                      Edit
+                    </button>
+                    <button
+                      onClick={() => handleDelete(supplier.id)}
+                      className="text-red-600 hover:text-red-900"
+                    >
+                      Delete
+                    </button>
+                  </td>
+                </tr>
+              ))
+            )}
+          </tbody>
+        </table>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -3,18 +3,26 @@
 import { useState } from 'react'
 import { createUser, updateUser, deleteUser, resetUserPassword } from '@/lib/actions/users'
 import { getErrorMessage } from '@/lib/utils/errors'
-import type { UserProfile, Project } from '@/lib/types'
-import type { UserRole } from '@/lib/types'
+import type { UserProfile, Role, Store } from '@/lib/types'
 
-interface UserProfileWithProject extends UserProfile {
-  projects?: { id: string; name: string } | null
+interface UserProfileWithStores extends UserProfile {
+  store_assignments?: { store: { id: string; name: string; type: string } | null }[]
+  roles?: { id: string; name: string } | null
 }
 
-export default function UsersList({ initialUsers, projects = [] }: { initialUsers: UserProfileWithProject[], projects?: Project[] }) {
+export default function UsersList({
+  initialUsers,
+  stores = [],
+  roles = [],
+}: {
+  initialUsers: UserProfileWithStores[]
+  stores?: Store[]
+  roles?: Role[]
+}) {
   const [users, setUsers] = useState(initialUsers)
   const [showModal, setShowModal] = useState(false)
   const [showPasswordModal, setShowPasswordModal] = useState(false)
-  const [editingUser, setEditingUser] = useState<UserProfileWithProject | null>(null)
+  const [editingUser, setEditingUser] = useState<UserProfileWithStores | null>(null)
   const [passwordUserId, setPasswordUserId] = useState<string | null>(null)
   const [loading, setLoading] = useState(false)
   const [error, setError] = useState<string | null>(null)
@@ -22,14 +30,30 @@ export default function UsersList({ initialUsers, projects = [] }: { initialUser
     email: '',
     password: '',
     full_name: '',
-    role: 'project_store_manager' as UserRole,
-    project_id: '',
+    role_id: '',
+    store_ids: [] as string[],
   })
   const [passwordData, setPasswordData] = useState({
     newPassword: '',
     confirmPassword: '',
   })
 
+  // Only the kind of store the chosen role works with can be assigned
+  const selectedRole = roles.find((role) => role.id === formData.role_id)
+  const assignableStores = !selectedRole || selectedRole.store_access === 'admin'
+    ? []
+    : stores.filter((store) => store.type === (selectedRole.store_access === 'central_store_manager' ? 'central' : 'project'))
+  const selectedStoreIds = formData.store_ids.filter((storeId) => assignableStores.some((store) => store.id === storeId))
+
+  const toggleStore = (storeId: string) => {
+    setFormData((current) => ({
+      ...current,
+      store_ids: current.store_ids.includes(storeId)
+        ? current.store_ids.filter((item) => item !== storeId)
+        : [...current.store_ids, storeId],
+    }))
+  }
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault()
     setError(null)
@@ -39,8 +63,8 @@ export default function UsersList({ initialUsers, projects = [] }: { initialUser
       const result = await updateUser({
         id: editingUser.id,
         full_name: formData.full_name || undefined,
-        role: formData.role,
-        project_id: formData.project_id || null,
+        role_id: formData.role_id,
+        store_ids: selectedStoreIds,
       })
 
       if (result.error) {
@@ -53,8 +77,8 @@ export default function UsersList({ initialUsers, projects = [] }: { initialUser
         email: formData.email,
         password: formData.password,
         full_name: formData.full_name || undefined,
-        role: formData.role,
-        project_id: formData.project_id || null,
+        role_id: formData.role_id,
+        store_ids: selectedStoreIds,
       })
 
       if (result.error) {
@@ -68,14 +92,14 @@ export default function UsersList({ initialUsers, projects = [] }: { initialUser
     window.location.reload()
   }
 
-  const handleEdit = (user: UserProfileWithProject) => {
+  const handleEdit = (user: UserProfileWithStores) => {
     setEditingUser(user)
     setFormData({
       email: user.email,
       password: '', // Don't show password when editing
       full_name: user.full_name || '',
-      role: user.role,
-      project_id: user.project_id || '',
+      role_id: user.role_id,
+      store_ids: (user.store_assignments || []).flatMap((row) => (row.store ? [row.store.id] : [])),
     })
     setShowModal(true)
   }
@@ -121,8 +145,8 @@ export default function UsersList({ initialUsers, projects = [] }: { initialUser
       email: '',
       password: '',
       full_name: '',
-      role: 'project_store_manager',
-      project_id: '',
+      role_id: '',
+      store_ids: [],
     })
     setError(null)
   }
@@ -230,32 +254,49 @@ export default function UsersList({ initialUsers, projects = [] }: { initialUser
                 </label>
                 <select
                   required
-                  value={formData.role}
-                  onChange={(e) => setFormData({ ...formData, role: e.target.value as UserRole })}
+                  value={formData.role_id}
+                  onChange={(e) => setFormData({ ...formData, role_id: e.target.value })}
                   className="w-full rounded-md border border-gray-300 px-3 py-2 text-sm text-gray-900 bg-white focus:border-[#0067ac] focus:outline-none focus:ring-2 focus:ring-[#0067ac]"
                 >
-                  <option value="admin">Admin</option>
-                  <option value="central_store_manager">Central Store Manager</option>
-                  <option value="project_store_manager">Project Store Manager</option>
-                </select>
-              </div>
-              <div>
-                <label className="block text-sm font-medium text-gray-700 mb-1">
-                  Project (for Project Store Managers)
-                </label>
-                <select
-                  value={formData.project_id}
-                  onChange={(e) => setFormData({ ...formData, project_id: e.target.value })}
-                  className="w-full rounded-md border border-gray-300 px-3 py-2 text-sm text-gray-900 bg-white focus:border-[#0067ac] focus:outline-none focus:ring-2 focus:ring-[#0067ac]"
-                >
-                  <option value="">Select a project (optional)</option>
-                  {projects.map((project) => (
-                    <option key={project.id} value={project.id}>
-                      {project.name}
+                  <option value="">Select a role</option>
+                  {roles.map((role) => (
+                    <option key={role.id} value={role.id}>
+                      {role.name}
                     </option>
                   ))}
                 </select>
               </div>
+              {selectedRole && (
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Stores {selectedRole.store_access !== 'admin' && '*'}
+                  </label>
+                  {selectedRole.store_access === 'admin' ? (
+                    <p className="text-sm text-gray-600">
+                      The {selectedRole.name} role already has every store.
+                    </p>
+                  ) : assignableStores.length === 0 ? (
+                    <p className="text-sm text-gray-600">
+                      There are no {selectedRole.store_access === 'central_store_manager' ? 'central' : 'project'} stores to assign yet.
+                    </p>
+                  ) : (
+                    <div className="max-h-48 overflow-y-auto rounded-md border border-gray-300 px-3 py-2">
+                      {assignableStores.map((store) => (
+                        <label key={store.id} className="flex items-center gap-2 py-1 text-sm text-gray-900">
+                          <input
+                            type="checkbox"
+                            checked={formData.store_ids.includes(store.id)}
+                            onChange={() => toggleStore(store.id)}
+                            className="rounded border-gray-300 text-[#0067ac] focus:ring-[#0067ac]"
+                          />
+                          {store.name}
+                          {store.project?.name && <span className="text-xs text-gray-500">({store.project.name})</span>}
+                        </label>
+                      ))}
+                    </div>
+                  )}
+                </div>
+              )}
               <div className="flex gap-3 pt-4">
                 <button
                   type="button"
@@ -363,7 +404,7 @@ export default function UsersList({ initialUsers, projects = [] }: { initialUser
                 Role
               </th>
               <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                Project
+                Stores
               </th>
               <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                 Actions
@@ -388,11 +429,13 @@ export default function UsersList({ initialUsers, projects = [] }: { initialUser
                   </td>
                   <td className="px-6 py-4 whitespace-nowrap text-sm">
                     <span className="inline-flex rounded-full px-2 text-xs font-semibold leading-5" style={{ backgroundColor: '#E77817', color: 'white' }}>
-                      {user.role.replace('_', ' ')}
+                      {user.roles?.name || user.role.replace('_', ' ')}
                     </span>
                   </td>
-                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
-                    {user.projects?.name || '-'}
+                  <td className="px-6 py-4 text-sm text-gray-500">
+                    {user.role === 'admin'
+                      ? 'All stores'
+                      : (user.store_assignments || []).flatMap((row) => (row.store ? [row.store.name] : [])).join(', ') || '-'}
                   </td>
                   <td className="px-6 py-4 whitespace-nowrap text-sm font-medium">
                     <button
@@ -1,6 +1,13 @@
 import { createClient } from '@/lib/supabase/server'
 import { redirect } from 'next/navigation'
+import { authorize, hasPermission } from '@/lib/utils/permissions'
+import { getOpenStockAlertCount } from '@/lib/actions/reorderLevels'
+import { getUnreadNotificationCount } from '@/lib/actions/notifications'
+import { getMonthComparison, getRecentActivity, getStockValueByStore, getTopConsumedProducts } from '@/lib/actions/dashboard'
+import type { Permission } from '@/lib/types'
 import LogoutButton from '@/app/components/LogoutButton'
+import NotificationBell from '@/app/components/NotificationBell'
+import DashboardKpis from '@/app/components/DashboardKpis'
 import Image from 'next/image'
 
 export default async function DashboardPage() {
@@ -14,14 +21,19 @@ export default async function DashboardPage() {
     redirect('/login')
   }
 
-  // Get user profile to check role
-  const { data: profile } = await supabase
-    .from('user_profiles')
-    .select('role')
-    .eq('id', user.id)
-    .single()
+  // Each card is shown to users whose role allows what the page is for
+  const { profile } = await authorize(supabase)
 
   const isAdmin = profile?.role === 'admin'
+  const can = (permission: Permission) => hasPermission(profile, permission)
+  const { data: openAlertCount } = await getOpenStockAlertCount()
+  const { data: unreadCount } = await getUnreadNotificationCount()
+
+  // Every figure is limited to the stores the user can see; values need price access
+  const { data: stockValues } = await getStockValueByStore()
+  const { data: comparison } = await getMonthComparison()
+  const { data: consumption } = await getTopConsumedProducts()
+  const { data: activity } = await getRecentActivity()
 
   return (
     <div className="min-h-screen bg-white">
@@ -41,6 +53,7 @@ export default async function DashboardPage() {
               </h1>
             </div>
             <div className="flex items-center gap-4">
+              <NotificationBell unreadCount={unreadCount} />
               <span className="text-sm text-gray-700">
                 {user.email}
               </span>
@@ -59,72 +72,122 @@ export default async function DashboardPage() {
             Welcome to the inventory management system. Manage your projects, users, and inventory from here.
           </p>
 
-          {isAdmin && (
+          {profile && (
+            <DashboardKpis
+              stockValues={stockValues || []}
+              lowStockCount={openAlertCount}
+              comparison={comparison}
+              consumption={consumption || []}
+              activity={activity || []}
+            />
+          )}
+
+          {profile && (
             <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6 mt-8">
-              <a
-                href="/users"
-                className="block p-6 border-2 rounded-lg hover:shadow-lg transition-shadow"
-                style={{ borderColor: '#0067ac' }}
-              >
-                <h3 className="text-xl font-semibold mb-2" style={{ color: '#0067ac' }}>
-                  User Management
-                </h3>
-                <p className="text-gray-600 text-sm">
-                  Create and manage users with different roles (Admin, Central Store Manager, Project Store Manager)
-                </p>
-              </a>
+              {can('manage_users') && (
+                <a
+                  href="/users"
+                  className="block p-6 border-2 rounded-lg hover:shadow-lg transition-shadow"
+                  style={{ borderColor: '#0067ac' }}
+                >
+                  <h3 className="text-xl font-semibold mb-2" style={{ color: '#0067ac' }}>
+                    User Management
+                  </h3>
+                  <p className="text-gray-600 text-sm">
+                    Create users and give each of them a role.
+                  </p>
+                </a>
+              )}
 
-              <a
-                href="/projects"
-                className="block p-6 border-2 rounded-lg hover:shadow-lg transition-shadow"
-                style={{ borderColor: '#0067ac' }}
-              >
-                <h3 className="text-xl font-semibold mb-2" style={{ color: '#0067ac' }}>
-                  Project Management
-                </h3>
-                <p className="text-gray-600 text-sm">
-                  Create and manage construction projects. Each project can have its own store.
-                </p>
-              </a>
+              {can('manage_roles') && (
+                <a
+                  href="/roles"
+                  className="block p-6 border-2 rounded-lg hover:shadow-lg transition-shadow"
+                  style={{ borderColor: '#0067ac' }}
+                >
+                  <h3 className="text-xl font-semibold mb-2" style={{ color: '#0067ac' }}>
+                    Roles &amp; Permissions
+                  </h3>
+                  <p className="text-gray-600 text-sm">
+                    Define roles and choose exactly which actions each one is allowed to perform.
+                  </p>
+                </a>
+              )}
 
-              <a
-                href="/stores"
-                className="block p-6 border-2 rounded-lg hover:shadow-lg transition-shadow"
-                style={{ borderColor: '#0067ac' }}
-              >
-                <h3 className="text-xl font-semibold mb-2" style={{ color: '#0067ac' }}>
-                  Central Stores
-                </h3>
-                <p className="text-gray-600 text-sm">
-                  Manage central stores (e.g., Karachi, Islamabad). Purchases are made to specific central stores.
-                </p>
-              </a>
+              {can('manage_projects') && (
+                <a
+                  href="/projects"
+                  className="block p-6 border-2 rounded-lg hover:shadow-lg transition-shadow"
+                  style={{ borderColor: '#0067ac' }}
+                >
+                  <h3 className="text-xl font-semibold mb-2" style={{ color: '#0067ac' }}>
+                    Project Management
+                  </h3>
+                  <p className="text-gray-600 text-sm">
+                    Create and manage construction projects. Each project can have its own store.
+                  </p>
+                </a>
+              )}
 
-              <a
-                href="/categories"
-                className="block p-6 border-2 rounded-lg hover:shadow-lg transition-shadow"
-                style={{ borderColor: '#0067ac' }}
-              >
-                <h3 className="text-xl font-semibold mb-2" style={{ color: '#0067ac' }}>
-                  Categories
-                </h3>
-                <p className="text-gray-600 text-sm">
-                  Manage product categories for organizing inventory items.
-                </p>
-              </a>
+              {can('manage_stores') && (
+                <a
+                  href="/stores"
+                  className="block p-6 border-2 rounded-lg hover:shadow-lg transition-shadow"
+                  style={{ borderColor: '#0067ac' }}
+                >
+                  <h3 className="text-xl font-semibold mb-2" style={{ color: '#0067ac' }}>
+                    Central Stores
+                  </h3>
+                  <p className="text-gray-600 text-sm">
+                    Manage central stores (e.g., Karachi, Islamabad). Purchases are made to specific central stores.
+                  </p>
+                </a>
+              )}
 
-              <a
-                href="/products"
-                className="block p-6 border-2 rounded-lg hover:shadow-lg transition-shadow"
-                style={{ borderColor: '#0067ac' }}
-              >
-                <h3 className="text-xl font-semibold mb-2" style={{ color: '#0067ac' }}>
-                  Products
-                </h3>
-                <p className="text-gray-600 text-sm">
-                  Manage product master data with categories and units of measurement.
-                </p>
-              </a>
+              {can('manage_categories') && (
+                <a
+                  href="/categories"
+                  className="block p-6 border-2 rounded-lg hover:shadow-lg transition-shadow"
+                  style={{ borderColor: '#0067ac' }}
+                >
+                  <h3 className="text-xl font-semibold mb-2" style={{ color: '#0067ac' }}>
+                    Categories
+                  </h3>
+                  <p className="text-gray-600 text-sm">
+                    Manage product categories for organizing inventory items.
+                  </p>
+                </a>
+              )}
+
+              {can('manage_suppliers') && (
+                <a
+                  href="/suppliers"
+                  className="block p-6 border-2 rounded-lg hover:shadow-lg transition-shadow"
+                  style={{ borderColor: '#0067ac' }}
+                >
+                  <h3 className="text-xl font-semibold mb-2" style={{ color: '#0067ac' }}>
+                    Suppliers
+                  </h3>
+                  <p className="text-gray-600 text-sm">
+                    Manage the vendors goods are purchased from, with contact and tax details.
+                  </p>
+                </a>
+              )}
+
+              {can('manage_products') && (
+                <a
+                  href="/products"
+                  className="block p-6 border-2 rounded-lg hover:shadow-lg transition-shadow"
+                  style={{ borderColor: '#0067ac' }}
+                >
+                  <h3 className="text-xl font-semibold mb-2" style={{ color: '#0067ac' }}>
+                    Products
+                  </h3>
+                  <p className="text-gray-600 text-sm">
+                    Manage product master data with categories and units of measurement.
+                  </p>
+                </a>
+              )}
 
               <a
                 href="/purchases"
@@ -135,7 +198,7 @@ export default async function DashboardPage() {
                   Purchases
                 </h3>
                 <p className="text-gray-600 text-sm">
-                  View and manage purchase history for central store inventory.
+                  {isAdmin ? 'View and manage purchase history for central store inventory.' : 'View and manage purchase history for your store.'}
                 </p>
               </a>
 
@@ -148,50 +211,53 @@ export default async function DashboardPage() {
                   Inventory
                 </h3>
                 <p className="text-gray-600 text-sm">
-                  View current inventory levels across all stores with average costs.
+                  {isAdmin ? 'View current inventory levels across all stores with average costs.' : 'View current inventory levels for your store.'}
                 </p>
               </a>
 
               <a
-                href="/issues"
+                href="/reorder"
                 className="block p-6 border-2 rounded-lg hover:shadow-lg transition-shadow"
-                style={{ borderColor: '#0067ac' }}
+                style={{ borderColor: openAlertCount ? '#dc2626' : '#0067ac' }}
               >
                 <h3 className="text-xl font-semibold mb-2" style={{ color: '#0067ac' }}>
-                  Issue Items
+                  Reordering
+                  {!!openAlertCount && (
+                    <span className="ml-2 rounded-full bg-red-600 px-2 py-0.5 text-xs font-semibold text-white align-middle">
+                      {openAlertCount} low
+                    </span>
+                  )}
                 </h3>
                 <p className="text-gray-600 text-sm">
-                  Issue items from stores to projects or other stores. Track all issuances.
+                  See low stock alerts, set reorder levels and raise purchase orders or requisitions to restock.
                 </p>
               </a>
 
               <a
-                href="/reports"
+                href="/adjustments"
                 className="block p-6 border-2 rounded-lg hover:shadow-lg transition-shadow"
                 style={{ borderColor: '#0067ac' }}
               >
                 <h3 className="text-xl font-semibold mb-2" style={{ color: '#0067ac' }}>
-                  Reports
+                  Stock Adjustments
                 </h3>
                 <p className="text-gray-600 text-sm">
-                  View detailed reports for purchases, issuances, and inventory costs across all time periods.
+                  {can('approve_adjustments')
+                  ? 'Approve stock write-offs and corrections for damaged, lost or found items.'
+                  : 'Record damaged, lost, expired or found stock for approval.'}
                 </p>
               </a>
-            </div>
-          )}
 
-          {(profile?.role === 'central_store_manager' || profile?.role === 'project_store_manager') && (
-            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6 mt-8">
               <a
-                href="/purchases"
+                href="/stock-takes"
                 className="block p-6 border-2 rounded-lg hover:shadow-lg transition-shadow"
                 style={{ borderColor: '#0067ac' }}
               >
                 <h3 className="text-xl font-semibold mb-2" style={{ color: '#0067ac' }}>
-                  Purchases
+                  Stock Takes
                 </h3>
                 <p className="text-gray-600 text-sm">
-                  View and manage purchase history for your store.
+                  {isAdmin ? 'Count stores against the system and post the variances.' : 'Count your store and reconcile it with the system.'}
                 </p>
               </a>
 
@@ -204,33 +270,82 @@ export default async function DashboardPage() {
                   Issue Items
                 </h3>
                 <p className="text-gray-600 text-sm">
-                  Issue items from your store to projects or other stores.
+                  {isAdmin
+                  ? 'Issue items from stores to projects or other stores. Track all issuances.'
+                  : 'Issue items from your store to projects or other stores.'}
                 </p>
               </a>
 
-              <a
-                href="/inventory"
-                className="block p-6 border-2 rounded-lg hover:shadow-lg transition-shadow"
-                style={{ borderColor: '#0067ac' }}
-              >
-                <h3 className="text-xl font-semibold mb-2" style={{ color: '#0067ac' }}>
-                  Inventory
-                </h3>
-                <p className="text-gray-600 text-sm">
-                  View current inventory levels for your store.
-                </p>
-              </a>
+              {can('view_reports') && (
+                <a
+                  href="/reports"
+                  className="block p-6 border-2 rounded-lg hover:shadow-lg transition-shadow"
+                  style={{ borderColor: '#0067ac' }}
+                >
+                  <h3 className="text-xl font-semibold mb-2" style={{ color: '#0067ac' }}>
+                    Reports
+                  </h3>
+                  <p className="text-gray-600 text-sm">
+                    View detailed reports for purchases, issuances, and inventory costs across all time periods.
+                  </p>
+                </a>
+              )}
+
+              {can('view_audit_log') && (
+                <a
+                  href="/audit"
+                  className="block p-6 border-2 rounded-lg hover:shadow-lg transition-shadow"
+                  style={{ borderColor: '#0067ac' }}
+                >
+                  <h3 className="text-xl font-semibold mb-2" style={{ color: '#0067ac' }}>
+                    Audit Log
+                  </h3>
+                  <p className="text-gray-600 text-sm">
+                    See who changed what and when, with the before and after values of every record.
+                  </p>
+                </a>
+              )}
+
+              {can('restore_deleted') && (
+                <a
+                  href="/recycle-bin"
+                  className="block p-6 border-2 rounded-lg hover:shadow-lg transition-shadow"
+                  style={{ borderColor: '#0067ac' }}
+                >
+                  <h3 className="text-xl font-semibold mb-2" style={{ color: '#0067ac' }}>
+                    Deleted Items
+                  </h3>
+                  <p className="text-gray-600 text-sm">
+                    Review deleted products, purchases, stores, users and more, and restore them.
+                  </p>
+                </a>
+              )}
+
+              {can('close_periods') && (
+                <a
+                  href="/periods"
+                  className="block p-6 border-2 rounded-lg hover:shadow-lg transition-shadow"
+                  style={{ borderColor: '#0067ac' }}
+                >
+                  <h3 className="text-xl font-semibold mb-2" style={{ color: '#0067ac' }}>
+                    Accounting Periods
+                  </h3>
+                  <p className="text-gray-600 text-sm">
+                    Close finished months to lock their purchases, issues and adjustments, or reopen them with a reason.
+                  </p>
+                </a>
+              )}
 
               <a
-                href="/reports"
+                href="/notifications/preferences"
                 className="block p-6 border-2 rounded-lg hover:shadow-lg transition-shadow"
                 style={{ borderColor: '#0067ac' }}
               >
                 <h3 className="text-xl font-semibold mb-2" style={{ color: '#0067ac' }}>
-                  Reports
+                  Email Notifications
                 </h3>
                 <p className="text-gray-600 text-sm">
-                  View reports for purchases, issuances, and inventory costs.
+                  Choose which low stock, large issue and other events you are emailed about.
                 </p>
               </a>
             </div>
@@ -1,5 +1,6 @@
 import { createClient } from '@/lib/supabase/server'
 import { redirect } from 'next/navigation'
+import { authorize, hasPermission } from '@/lib/utils/permissions'
 import { getInventory } from '@/lib/actions/inventory'
 import { getStores } from '@/lib/actions/purchases'
 import Image from 'next/image'
@@ -18,11 +19,7 @@ export default async function InventoryPage() {
     redirect('/login')
   }
 
-  const { data: profile } = await supabase
-    .from('user_profiles')
-    .select('role, project_id')
-    .eq('id', user.id)
-    .single()
+  const { profile } = await authorize(supabase)
 
   if (!profile) {
     redirect('/login')
@@ -37,24 +34,15 @@ export default async function InventoryPage() {
   
   // Determine default store filter
   let defaultStoreId: string | undefined = undefined
-  if (isProjectStoreManager && profile.project_id) {
-    // For project store managers, default to their own project store
-    const { data: projectStore } = await supabase
-      .from('stores')
-      .select('id')
-      .eq('project_id', profile.project_id)
-      .eq('type', 'project')
-      .single()
-    
-    if (projectStore) {
-      defaultStoreId = projectStore.id
-    }
+  if (isProjectStoreManager && profile.store_ids.length === 1) {
+    // Project store managers with a single store default to it
+    defaultStoreId = profile.store_ids[0]
   }
   
   // Get inventory - filtered by role
   // Project store managers see: their store + central store
   // Central store managers and admins see: all stores
-  // (but only admins see prices)
+  // (but only users who can view prices see them)
   const { data: inventory, error } = await getInventory(defaultStoreId)
 
   return (
@@ -108,7 +96,7 @@ export default async function InventoryPage() {
         <InventoryView 
           initialInventory={inventory || []} 
           stores={stores || []} 
-          isAdmin={isAdmin}
+          canViewPrices={hasPermission(profile, 'view_prices')}
           currentStoreId={defaultStoreId}
           canViewAllStores={isAdmin || isCentralStoreManager || isProjectStoreManager}
         />
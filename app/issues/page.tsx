@@ -1,6 +1,10 @@
 import { createClient } from '@/lib/supabase/server'
 import { redirect } from 'next/navigation'
+import { authorize } from '@/lib/utils/permissions'
 import { getIssues, getIssueableStores } from '@/lib/actions/issues'
+import { getIssueVouchers } from '@/lib/actions/issueVouchers'
+import { getIssueRequisitions } from '@/lib/actions/issueRequisitions'
+import { getIssueReturns } from '@/lib/actions/issueReturns'
 import { getProducts } from '@/lib/actions/products'
 import { getInventory } from '@/lib/actions/inventory'
 import Image from 'next/image'
@@ -19,11 +23,7 @@ export default async function IssuesPage() {
     redirect('/login')
   }
 
-  const { data: profile } = await supabase
-    .from('user_profiles')
-    .select('*')
-    .eq('id', user.id)
-    .single()
+  const { profile } = await authorize(supabase)
 
   if (!profile) {
     redirect('/login')
@@ -32,6 +32,9 @@ export default async function IssuesPage() {
   const { data: storesData } = await getIssueableStores()
   const { data: issues, error } = await getIssues()
   const { data: products } = await getProducts()
+  const { data: vouchers } = await getIssueVouchers()
+  const { data: requisitions } = await getIssueRequisitions()
+  const { data: issueReturns } = await getIssueReturns()
 
   return (
     <div className="min-h-screen bg-white">
@@ -83,6 +86,9 @@ export default async function IssuesPage() {
 
         <IssuesList 
           initialIssues={issues || []} 
+          vouchers={vouchers || []}
+          requisitions={requisitions || []}
+          issueReturns={issueReturns || []}
           storesData={storesData}
           products={products || []}
           userProfile={profile}
@@ -0,0 +1,140 @@
+import { createClient } from '@/lib/supabase/server'
+import { redirect } from 'next/navigation'
+import { getIssueVoucher } from '@/lib/actions/issueVouchers'
+import { getErrorMessage } from '@/lib/utils/errors'
+import type { IssueVoucher, Store } from '@/lib/types'
+import Image from 'next/image'
+import PrintButton from '@/app/components/PrintButton'
+
+const storeLabel = (store?: Store | null) =>
+  store ? `${store.name}${store.type === 'project' && store.project ? ` (${store.project.name})` : ''}` : '-'
+
+export default async function GatePassPage({ params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params
+  const supabase = await createClient()
+
+  const {
+    data: { user },
+  } = await supabase.auth.getUser()
+
+  if (!user) {
+    redirect('/login')
+  }
+
+  const { data, error } = await getIssueVoucher(id)
+  const voucher = data as IssueVoucher | null
+
+  if (error || !voucher) {
+    return (
+      <main className="mx-auto max-w-3xl px-4 py-8">
+        <div className="rounded-md bg-red-50 p-4 border border-red-200">
+          <div className="text-sm text-red-800">
+            <strong>Error loading gate pass:</strong> {getErrorMessage(error)}
+          </div>
+        </div>
+        <a href="/issues" className="mt-4 inline-block text-sm text-[#0067ac] hover:text-[#005a94]">
+          Back to Issues
+        </a>
+      </main>
+    )
+  }
+
+  const lines = voucher.lines || []
+  const totalQuantity = lines.reduce((sum, line) => sum + Number(line.quantity), 0)
+
+  return (
+    <div className="min-h-screen bg-white">
+      <div className="mx-auto max-w-3xl px-4 py-4 flex justify-between items-center print:hidden">
+        <a href="/issues" className="text-sm text-gray-700 hover:text-[#0067ac]">
+          Back to Issues
+        </a>
+        <PrintButton label="Print Gate Pass" />
+      </div>
+
+      <main className="mx-auto max-w-3xl px-4 py-4 text-gray-900">
+        <div className="flex items-center justify-between border-b-2 pb-4" style={{ borderColor: '#0067ac' }}>
+          <Image src="/pect-logo.png" alt="PECT Private Limited" width={150} height={60} priority />
+          <div className="text-right">
+            <h1 className="text-xl font-bold" style={{ color: '#0067ac' }}>
+              Gate Pass / Delivery Challan
+            </h1>
+            <p className="text-lg font-semibold">{voucher.voucher_number}</p>
+            <p className="text-sm text-gray-600">{new Date(voucher.issue_date).toLocaleDateString()}</p>
+          </div>
+        </div>
+
+        <div className="mt-6 grid grid-cols-2 gap-6 text-sm">
+          <div>
+            <p className="text-xs font-medium uppercase text-gray-500">From</p>
+            <p className="font-medium">{storeLabel(voucher.from_store)}</p>
+          </div>
+          <div>
+            <p className="text-xs font-medium uppercase text-gray-500">To</p>
+            <p className="font-medium">{voucher.to_store ? storeLabel(voucher.to_store) : voucher.issued_to_name || '-'}</p>
+          </div>
+          <div>
+            <p className="text-xs font-medium uppercase text-gray-500">Vehicle</p>
+            <p className="font-medium">{voucher.vehicle_number || '-'}</p>
+          </div>
+          <div>
+            <p className="text-xs font-medium uppercase text-gray-500">Driver</p>
+            <p className="font-medium">
+              {voucher.driver_name || '-'}
+              {voucher.driver_phone && <span className="text-gray-600"> ({voucher.driver_phone})</span>}
+            </p>
+          </div>
+        </div>
+
+        <table className="mt-6 min-w-full border border-gray-300 text-sm">
+          <thead className="bg-gray-50">
+            <tr>
+              <th className="border border-gray-300 px-3 py-2 text-left text-xs font-medium uppercase text-gray-500">#</th>
+              <th className="border border-gray-300 px-3 py-2 text-left text-xs font-medium uppercase text-gray-500">Product</th>
+              <th className="border border-gray-300 px-3 py-2 text-left text-xs font-medium uppercase text-gray-500">Category</th>
+              <th className="border border-gray-300 px-3 py-2 text-right text-xs font-medium uppercase text-gray-500">Quantity</th>
+              <th className="border border-gray-300 px-3 py-2 text-left text-xs font-medium uppercase text-gray-500">Unit</th>
+              <th className="border border-gray-300 px-3 py-2 text-left text-xs font-medium uppercase text-gray-500">Received</th>
+            </tr>
+          </thead>
+          <tbody>
+            {lines.map((line, index) => (
+              <tr key={line.id}>
+                <td className="border border-gray-300 px-3 py-2">{index + 1}</td>
+                <td className="border border-gray-300 px-3 py-2">{line.product?.name || '-'}</td>
+                <td className="border border-gray-300 px-3 py-2">{line.product?.category?.name || '-'}</td>
+                <td className="border border-gray-300 px-3 py-2 text-right">{Number(line.quantity)}</td>
+                <td className="border border-gray-300 px-3 py-2">{line.product?.unit || ''}</td>
+                <td className="border border-gray-300 px-3 py-2 w-28"></td>
+              </tr>
+            ))}
+            <tr className="font-semibold">
+              <td colSpan={3} className="border border-gray-300 px-3 py-2 text-right">
+                Total ({lines.length} line{lines.length === 1 ? '' : 's'})
+              </td>
+              <td className="border border-gray-300 px-3 py-2 text-right">{totalQuantity}</td>
+              <td colSpan={2} className="border border-gray-300 px-3 py-2"></td>
+            </tr>
+          </tbody>
+        </table>
+
+        {voucher.notes && <p className="mt-4 text-sm text-gray-600">Notes: {voucher.notes}</p>}
+
+        <div className="mt-16 grid grid-cols-3 gap-8 text-sm">
+          {['Issued By', 'Driver', 'Received By'].map((label) => (
+            <div key={label}>
+              <div className="border-t border-gray-400 pt-2">
+                <p className="font-medium">{label}</p>
+                <p className="mt-4 text-xs text-gray-500">Name:</p>
+                <p className="mt-2 text-xs text-gray-500">Date:</p>
+              </div>
+            </div>
+          ))}
+        </div>
+
+        <p className="mt-8 text-xs text-gray-500">
+          The receiving site should record the quantity actually received against each line and sign this copy.
+        </p>
+      </main>
+    </div>
+  )
+}
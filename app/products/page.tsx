@@ -1,5 +1,6 @@
 import { createClient } from '@/lib/supabase/server'
 import { redirect } from 'next/navigation'
+import { authorize } from '@/lib/utils/permissions'
 import { getProducts } from '@/lib/actions/products'
 import { getCategories } from '@/lib/actions/categories'
 import Image from 'next/image'
@@ -17,14 +18,9 @@ export default async function ProductsPage() {
     redirect('/login')
   }
 
-  // Check if user is admin
-  const { data: profile } = await supabase
-    .from('user_profiles')
-    .select('role')
-    .eq('id', user.id)
-    .single()
+  const { profile } = await authorize(supabase, 'manage_products')
 
-  if (!profile || profile.role !== 'admin') {
+  if (!profile) {
     redirect('/dashboard')
   }
 
@@ -1,5 +1,6 @@
 import { createClient } from '@/lib/supabase/server'
 import { redirect } from 'next/navigation'
+import { authorize } from '@/lib/utils/permissions'
 import { getProjects } from '@/lib/actions/projects'
 import Image from 'next/image'
 import LogoutButton from '@/app/components/LogoutButton'
@@ -17,14 +18,9 @@ export default async function ProjectsPage() {
     redirect('/login')
   }
 
-  // Check if user is admin
-  const { data: profile } = await supabase
-    .from('user_profiles')
-    .select('role')
-    .eq('id', user.id)
-    .single()
+  const { profile } = await authorize(supabase, 'manage_projects')
 
-  if (!profile || profile.role !== 'admin') {
+  if (!profile) {
     redirect('/dashboard')
   }
 
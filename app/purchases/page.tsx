@@ -1,8 +1,15 @@
 import { createClient } from '@/lib/supabase/server'
 import { redirect } from 'next/navigation'
+import { authorize } from '@/lib/utils/permissions'
 import { getPurchases, getStores } from '@/lib/actions/purchases'
+import { getPurchaseInvoices } from '@/lib/actions/purchaseInvoices'
+import { getPurchaseOrders } from '@/lib/actions/purchaseOrders'
+import { getGoodsReceivedNotes } from '@/lib/actions/goodsReceivedNotes'
+import { getPurchaseReturns } from '@/lib/actions/purchaseReturns'
+import { getExchangeRates } from '@/lib/actions/exchangeRates'
 import { getProducts } from '@/lib/actions/products'
 import { getCategories } from '@/lib/actions/categories'
+import { getSuppliers } from '@/lib/actions/suppliers'
 import Image from 'next/image'
 import LogoutButton from '@/app/components/LogoutButton'
 import PurchasesList from '@/app/components/PurchasesList'
@@ -18,21 +25,22 @@ export default async function PurchasesPage() {
     redirect('/login')
   }
 
-  // Check if user is admin, central store manager, or project store manager
-  const { data: profile } = await supabase
-    .from('user_profiles')
-    .select('role')
-    .eq('id', user.id)
-    .single()
+  const { profile } = await authorize(supabase)
 
-  if (!profile || !['admin', 'central_store_manager', 'project_store_manager'].includes(profile.role)) {
+  if (!profile) {
     redirect('/dashboard')
   }
 
   const { data: stores } = await getStores()
   const { data: purchases, error } = await getPurchases()
+  const { data: purchaseInvoices } = await getPurchaseInvoices()
+  const { data: purchaseOrders } = await getPurchaseOrders()
+  const { data: goodsReceivedNotes } = await getGoodsReceivedNotes()
+  const { data: purchaseReturns } = await getPurchaseReturns()
+  const { data: exchangeRates } = await getExchangeRates()
   const { data: products } = await getProducts()
   const { data: categories } = await getCategories()
+  const { data: suppliers } = await getSuppliers()
 
   return (
     <div className="min-h-screen bg-white">
@@ -84,10 +92,16 @@ export default async function PurchasesPage() {
 
         <PurchasesList 
           initialPurchases={purchases || []} 
+          purchaseInvoices={purchaseInvoices || []}
+          purchaseOrders={purchaseOrders || []}
+          goodsReceivedNotes={goodsReceivedNotes || []}
+          purchaseReturns={purchaseReturns || []}
+          exchangeRates={exchangeRates || []}
           products={products || []} 
           categories={categories || []}
           stores={stores || []}
-          isAdmin={profile.role === 'admin'}
+          suppliers={suppliers || []}
+          permissions={profile.permissions}
         />
       </main>
     </div>
@@ -0,0 +1,127 @@
+import { createClient } from '@/lib/supabase/server'
+import { redirect } from 'next/navigation'
+import { authorize, hasPermission } from '@/lib/utils/permissions'
+import { getReorderLevels, getReorderSuggestions, getStockAlerts } from '@/lib/actions/reorderLevels'
+import { getStores } from '@/lib/actions/purchases'
+import { getCentralStores } from '@/lib/actions/stores'
+import { getProducts } from '@/lib/actions/products'
+import Image from 'next/image'
+import LogoutButton from '@/app/components/LogoutButton'
+import ReorderSuggestionsView from '@/app/components/ReorderSuggestionsView'
+import ReorderLevelsList from '@/app/components/ReorderLevelsList'
+import { getErrorMessage } from '@/lib/utils/errors'
+import type { Store } from '@/lib/types'
+
+export default async function ReorderPage() {
+  const supabase = await createClient()
+
+  const {
+    data: { user },
+  } = await supabase.auth.getUser()
+
+  if (!user) {
+    redirect('/login')
+  }
+
+  const { profile } = await authorize(supabase)
+
+  if (!profile) {
+    redirect('/login')
+  }
+
+  const { data: suggestions, error } = await getReorderSuggestions()
+  const { data: alerts } = await getStockAlerts()
+  const { data: levels } = await getReorderLevels()
+  const { data: stores } = await getStores()
+  const { data: centralStores } = await getCentralStores()
+  const { data: products } = await getProducts()
+
+  const isAdmin = profile.role === 'admin'
+  const canRaisePurchaseOrders = hasPermission(profile, 'raise_purchase_orders')
+  const canRequestStock = hasPermission(profile, 'request_stock')
+
+  // Levels are set by the users who replenish the store
+  const manageableStores = ((stores || []) as Store[]).filter((store) =>
+    isAdmin || (store.type === 'central' ? canRaisePurchaseOrders : canRequestStock)
+  )
+
+  return (
+    <div className="min-h-screen bg-white">
+      <nav className="bg-white shadow-md border-b" style={{ borderColor: '#0067ac' }}>
+        <div className="mx-auto max-w-7xl px-4 sm:px-6 lg:px-8">
+          <div className="flex h-20 justify-between items-center">
+            <div className="flex items-center gap-4">
+              <Image
+                src="/pect-logo.png"
+                alt="PECT Private Limited"
+                width={150}
+                height={60}
+                priority
+              />
+              <h1 className="text-xl font-semibold" style={{ color: '#0067ac' }}>
+                Inventory Management System
+              </h1>
+            </div>
+            <div className="flex items-center gap-4">
+              <a
+                href="/dashboard"
+                className="text-sm text-gray-700 hover:text-[#0067ac]"
+              >
+                Dashboard
+              </a>
+              <span className="text-sm text-gray-700">
+                {user.email}
+              </span>
+              <LogoutButton />
+            </div>
+          </div>
+        </div>
+      </nav>
+
+      <main className="mx-auto max-w-7xl px-4 sm:px-6 lg:px-8 py-8">
+        <div className="mb-6 flex justify-between items-center">
+          <h2 className="text-2xl font-bold" style={{ color: '#0067ac' }}>
+            Reordering
+          </h2>
+        </div>
+
+        <p className="mb-6 text-sm text-gray-600">
+          Products at or below their reorder point, with the quantity that brings each store back up to its maximum. Stock in transit and on open purchase orders or requisitions is counted as already on its way.
+        </p>
+
+        {error && (
+          <div className="mb-4 rounded-md bg-red-50 p-4 border border-red-200">
+            <div className="text-sm text-red-800">
+              <strong>Error loading reorder suggestions:</strong> {getErrorMessage(error)}
+            </div>
+          </div>
+        )}
+
+        <ReorderSuggestionsView
+          initialSuggestions={suggestions || []}
+          initialAlerts={alerts || []}
+          stores={stores || []}
+          centralStores={centralStores || []}
+          canRaisePurchaseOrders={canRaisePurchaseOrders}
+          canRequestStock={canRequestStock}
+        />
+
+        <div className="mt-10 mb-4">
+          <h3 className="text-xl font-bold" style={{ color: '#0067ac' }}>
+            Reorder Levels
+          </h3>
+          <p className="mt-1 text-sm text-gray-600">
+            Set the minimum stock, reorder point and maximum stock of a product for each store. Products without their own levels use the restock level from the product list.
+          </p>
+        </div>
+
+        <ReorderLevelsList
+          initialLevels={levels || []}
+          stores={stores || []}
+          manageableStores={manageableStores}
+          products={products || []}
+        />
+      </main>
+    </div>
+  )
+}
@@ -1,6 +1,8 @@
 import { createClient } from '@/lib/supabase/server'
 import { redirect } from 'next/navigation'
+import { authorize } from '@/lib/utils/permissions'
 import { getStoresForReports } from '@/lib/actions/reports'
+import { getSuppliers } from '@/lib/actions/suppliers'
 import Image from 'next/image'
 import LogoutButton from '@/app/components/LogoutButton'
 import ReportsView from '@/app/components/ReportsView'
@@ -16,17 +18,14 @@ export default async function ReportsPage() {
     redirect('/login')
   }
 
-  const { data: profile } = await supabase
-    .from('user_profiles')
-    .select('*')
-    .eq('id', user.id)
-    .single()
+  const { profile } = await authorize(supabase)
 
   if (!profile) {
     redirect('/login')
   }
 
   const { data: stores } = await getStoresForReports()
+  const { data: suppliers } = await getSuppliers()
 
   return (
     <div className="min-h-screen bg-white">
@@ -70,6 +69,7 @@ export default async function ReportsPage() {
 
         <ReportsView 
           initialStores={stores || []}
+          suppliers={suppliers || []}
           userProfile={profile}
         />
       </main>
@@ -1,5 +1,6 @@
 import { createClient } from '@/lib/supabase/server'
 import { redirect } from 'next/navigation'
+import { authorize } from '@/lib/utils/permissions'
 import { getCentralStores } from '@/lib/actions/stores'
 import Image from 'next/image'
 import LogoutButton from '@/app/components/LogoutButton'
@@ -17,14 +18,9 @@ export default async function CentralStoresPage() {
     redirect('/login')
   }
 
-  // Only admins can manage central stores
-  const { data: profile } = await supabase
-    .from('user_profiles')
-    .select('role')
-    .eq('id', user.id)
-    .single()
+  const { profile } = await authorize(supabase, 'manage_stores')
 
-  if (!profile || profile.role !== 'admin') {
+  if (!profile) {
     redirect('/dashboard')
   }
 
@@ -1,7 +1,8 @@
 import { createClient } from '@/lib/supabase/server'
 import { redirect } from 'next/navigation'
-import { getUsers } from '@/lib/actions/users'
-import { getProjects } from '@/lib/actions/projects'
+import { authorize } from '@/lib/utils/permissions'
+import { getAssignableStores, getUsers } from '@/lib/actions/users'
+import { getRoles } from '@/lib/actions/roles'
 import Image from 'next/image'
 import LogoutButton from '@/app/components/LogoutButton'
 import UsersList from '@/app/components/UsersList'
@@ -18,19 +19,15 @@ export default async function UsersPage() {
     redirect('/login')
   }
 
-  // Check if user is admin
-  const { data: profile } = await supabase
-    .from('user_profiles')
-    .select('role')
-    .eq('id', user.id)
-    .single()
+  const { profile } = await authorize(supabase, 'manage_users')
 
-  if (!profile || profile.role !== 'admin') {
+  if (!profile) {
     redirect('/dashboard')
   }
 
   const { data: users, error } = await getUsers()
-  const { data: projects } = await getProjects()
+  const { data: stores } = await getAssignableStores()
+  const { data: roles } = await getRoles()
 
   return (
     <div className="min-h-screen bg-white">
@@ -92,7 +89,7 @@ export default async function UsersPage() {
           </div>
         )}
 
-        <UsersList initialUsers={users || []} projects={projects || []} />
+        <UsersList initialUsers={users || []} stores={stores || []} roles={roles || []} />
       </main>
     </div>
   )
@@ -0,0 +1,135 @@
+'use server'
+
+import { createClient } from '@/lib/supabase/server'
+import { revalidatePath } from 'next/cache'
+import { getErrorMessage } from '@/lib/utils/errors'
+import { formatPeriod } from '@/lib/utils/accountingPeriods'
+import { authorize } from '@/lib/utils/permissions'
+
+export async function getAccountingPeriods() {
+  const supabase = await createClient()
+
+  const { data: { user } } = await supabase.auth.getUser()
+  if (!user) {
+    return { data: null, error: 'Not authenticated' }
+  }
+
+  const { data, error } = await supabase
+    .from('accounting_periods')
+    .select('*')
+    .order('period_month', { ascending: false })
+
+  return { data, error }
+}
+
+// month is YYYY-MM. Closing again after a reopen reuses the same row so the
+// audit log shows the whole history of the month.
+export async function closeAccountingPeriod(month: string, notes?: string) {
+  const supabase = await createClient()
+
+  const { user, error: authError } = await authorize(supabase, 'close_periods')
+  if (!user) {
+    return { error: authError }
+  }
+
+  if (!/^\d{4}-(0[1-9]|1[0-2])$/.test(month)) {
+    return { error: 'Choose a month to close' }
+  }
+
+  const periodMonth = `${month}-01`
+  const currentMonth = `${new Date().toISOString().slice(0, 7)}-01`
+  if (periodMonth >= currentMonth) {
+    return { error: 'Only months that have ended can be closed' }
+  }
+
+  // Pending adjustments could otherwise never be approved or rejected
+  const periodEnd = new Date(Date.UTC(Number(month.slice(0, 4)), Number(month.slice(5, 7)), 0)).toISOString().split('T')[0]
+  const { count: pendingCount } = await supabase
+    .from('inventory_adjustments')
+    .select('id', { count: 'exact', head: true })
+    .eq('status', 'pending')
+    .is('deleted_at', null)
+    .gte('adjustment_date', periodMonth)
+    .lte('adjustment_date', periodEnd)
+
+  if (pendingCount && pendingCount > 0) {
+    return {
+      error: `Approve or reject the ${pendingCount} pending adjustment${pendingCount === 1 ? '' : 's'} dated in ${formatPeriod(periodMonth)} first`,
+    }
+  }
+
+  const { data: existing } = await supabase
+    .from('accounting_periods')
+    .select('id, status')
+    .eq('period_month', periodMonth)
+    .maybeSingle()
+
+  if (existing?.status === 'closed') {
+    return { error: `${formatPeriod(periodMonth)} is already closed` }
+  }
+
+  const closeData = {
+    status: 'closed',
+    closed_at: new Date().toISOString(),
+    closed_by: user.id,
+    notes: notes?.trim() || null,
+  }
+
+  const { data, error } = existing
+    ? await supabase.from('accounting_periods').update(closeData).eq('id', existing.id).select().single()
+    : await supabase.from('accounting_periods').insert({ period_month: periodMonth, ...closeData }).select().single()
+
+  if (error) {
+    return { error: getErrorMessage(error) }
+  }
+
+  revalidatePath('/periods')
+  return { data, error: null }
+}
+
+export async function reopenAccountingPeriod(periodId: string, reason: string) {
+  const supabase = await createClient()
+
+  const { user, error: authError } = await authorize(supabase, 'close_periods')
+  if (!user) {
+    return { error: authError }
+  }
+
+  if (!reason?.trim()) {
+    return { error: 'A reason is required to reopen a closed period' }
+  }
+
+  const { data: period } = await supabase
+    .from('accounting_periods')
+    .select('status')
+    .eq('id', periodId)
+    .single()
+
+  if (!period) {
+    return { error: 'Period not found' }
+  }
+
+  if (period.status !== 'closed') {
+    return { error: 'Only closed periods can be reopened' }
+  }
+
+  // The audit log keeps each reopen even when the period is closed again
+  const { data, error } = await supabase
+    .from('accounting_periods')
+    .update({
+      status: 'open',
+      reopened_at: new Date().toISOString(),
+      reopened_by: user.id,
+      reopen_reason: reason.trim(),
+    })
+    .eq('id', periodId)
+    .select()
+    .single()
+
+  if (error) {
+    return { error: getErrorMessage(error) }
+  }
+
+  revalidatePath('/periods')
+  return { data, error: null }
+}
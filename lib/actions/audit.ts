@@ -0,0 +1,67 @@
+'use server'
+
+import { createClient } from '@/lib/supabase/server'
+import type { AuditLogEntry, AuditLogFilters } from '@/lib/types'
+import { getErrorMessage } from '@/lib/utils/errors'
+import { authorize } from '@/lib/utils/permissions'
+
+const DEFAULT_AUDIT_LIMIT = 200
+const MAX_AUDIT_LIMIT = 1000
+
+export async function getAuditLog(filters: AuditLogFilters = {}) {
+  const supabase = await createClient()
+
+  const { user, error: authError } = await authorize(supabase, 'view_audit_log')
+  if (!user) {
+    return { data: null, error: authError }
+  }
+
+  const limit = Math.min(Math.max(filters.limit || DEFAULT_AUDIT_LIMIT, 1), MAX_AUDIT_LIMIT)
+
+  let query = supabase
+    .from('audit_log')
+    .select('*')
+    .order('created_at', { ascending: false })
+    .limit(limit)
+
+  if (filters.actor_id) {
+    query = query.eq('actor_id', filters.actor_id)
+  }
+  if (filters.table_name) {
+    query = query.eq('table_name', filters.table_name)
+  }
+  if (filters.record_id) {
+    query = query.eq('record_id', filters.record_id.trim())
+  }
+  if (filters.from_date) {
+    query = query.gte('created_at', `${filters.from_date}T00:00:00`)
+  }
+  if (filters.to_date) {
+    query = query.lte('created_at', `${filters.to_date}T23:59:59.999`)
+  }
+
+  const { data, error } = await query
+
+  if (error) {
+    return { data: null, error: getErrorMessage(error) }
+  }
+
+  const entries = (data || []) as AuditLogEntry[]
+
+  // actor_id points at auth.users, so look the names up separately. Deleted
+  // users are included so their past changes still show who made them.
+  const actorIds = [...new Set(entries.map((entry) => entry.actor_id).filter((id): id is string => !!id))]
+  if (actorIds.length > 0) {
+    const { data: actors } = await supabase
+      .from('user_profiles')
+      .select('id, email, full_name')
+      .in('id', actorIds)
+
+    const actorsById = new Map((actors || []).map((actor) => [actor.id, actor]))
+    entries.forEach((entry) => {
+      entry.actor = entry.actor_id ? actorsById.get(entry.actor_id) || null : null
+    })
+  }
+
+  return { data: entries, error: null }
+}
@@ -4,23 +4,14 @@ import { createClient } from '@/lib/supabase/server'
 import { revalidatePath } from 'next/cache'
 import type { CreateCategoryInput, UpdateCategoryInput } from '@/lib/types'
 import { getErrorMessage } from '@/lib/utils/errors'
+import { authorize } from '@/lib/utils/permissions'
 
 export async function createCategory(input: CreateCategoryInput) {
   const supabase = await createClient()
 
-  const { data: { user } } = await supabase.auth.getUser()
+  const { user, error: authError } = await authorize(supabase, 'manage_categories')
   if (!user) {
-    return { error: 'Not authenticated' }
-  }
-
-  const { data: profile } = await supabase
-    .from('user_profiles')
-    .select('role')
-    .eq('id', user.id)
-    .single()
-
-  if (!profile || profile.role !== 'admin') {
-    return { error: 'Unauthorized: Admin access required' }
+    return { error: authError }
   }
 
   const { data, error } = await supabase
@@ -43,19 +34,9 @@ export async function createCategory(input: CreateCategoryInput) {
 export async function updateCategory(input: UpdateCategoryInput) {
   const supabase = await createClient()
 
-  const { data: { user } } = await supabase.auth.getUser()
+  const { user, error: authError } = await authorize(supabase, 'manage_categories')
   if (!user) {
-    return { error: 'Not authenticated' }
-  }
-
-  const { data: profile } = await supabase
-    .from('user_profiles')
-    .select('role')
-    .eq('id', user.id)
-    .single()
-
-  if (!profile || profile.role !== 'admin') {
-    return { error: 'Unauthorized: Admin access required' }
+    return { error: authError }
   }
 
   const updateData: any = {}
@@ -80,34 +61,50 @@ export async function updateCategory(input: UpdateCategoryInput) {
 export async function deleteCategory(categoryId: string) {
   const supabase = await createClient()
 
-  const { data: { user } } = await supabase.auth.getUser()
+  const { user, error: authError } = await authorize(supabase, 'manage_categories')
   if (!user) {
-    return { error: 'Not authenticated' }
+    return { error: authError }
   }
 
-  const { data: profile } = await supabase
-    .from('user_profiles')
-    .select('role')
-    .eq('id', user.id)
-    .single()
+  const { error } = await supabase
+    .from('categories')
+    .update({
+      deleted_at: new Date().toISOString(),
+      deleted_by: user.id,
+    })
+    .eq('id', categoryId)
+
+  if (error) {
+    return { error: getErrorMessage(error) }
+  }
+
+  revalidatePath('/categories')
+  return { error: null }
+}
+
+export async function restoreCategory(categoryId: string) {
+  const supabase = await createClient()
 
-  if (!profile || profile.role !== 'admin') {
-    return { error: 'Unauthorized: Admin access required' }
+  const { user, error: authError } = await authorize(supabase, ['restore_deleted', 'manage_categories'])
+  if (!user) {
+    return { error: authError }
   }
 
   const { error } = await supabase
     .from('categories')
     .update({
-      deleted_at: new Date().toISOString(),
-      deleted_by: user.id,
+      deleted_at: null,
+      deleted_by: null,
     })
     .eq('id', categoryId)
+    .not('deleted_at', 'is', null)
 
   if (error) {
     return { error: getErrorMessage(error) }
   }
 
   revalidatePath('/categories')
+  revalidatePath('/recycle-bin')
   return { error: null }
 }
 
@@ -0,0 +1,57 @@
+'use server'
+
+import { createClient } from '@/lib/supabase/server'
+import { revalidatePath } from 'next/cache'
+import type { CostingMethod } from '@/lib/types'
+import { getErrorMessage } from '@/lib/utils/errors'
+import { authorize } from '@/lib/utils/permissions'
+
+export async function getCostingMethod() {
+  const supabase = await createClient()
+
+  const { data: { user } } = await supabase.auth.getUser()
+  if (!user) {
+    return { data: null, error: 'Not authenticated' }
+  }
+
+  const { data, error } = await supabase
+    .from('costing_settings')
+    .select('costing_method')
+    .maybeSingle()
+
+  if (error) {
+    return { data: null, error: getErrorMessage(error) }
+  }
+
+  return { data: (data?.costing_method || 'weighted_average') as CostingMethod, error: null }
+}
+
+// Only affects stock consumed from now on; existing layers and issue costs are kept
+export async function updateCostingMethod(method: CostingMethod) {
+  const supabase = await createClient()
+
+  const { user, error: authError } = await authorize(supabase, 'manage_costing')
+  if (!user) {
+    return { error: authError }
+  }
+
+  if (!['fifo', 'weighted_average'].includes(method)) {
+    return { error: 'Invalid costing method' }
+  }
+
+  const { error } = await supabase
+    .from('costing_settings')
+    .update({
+      costing_method: method,
+      updated_by: user.id,
+    })
+    .eq('id', true)
+
+  if (error) {
+    return { error: getErrorMessage(error) }
+  }
+
+  revalidatePath('/inventory')
+  revalidatePath('/reports')
+  return { error: null }
+}
@@ -0,0 +1,240 @@
+'use server'
+
+import { createClient } from '@/lib/supabase/server'
+import { getErrorMessage } from '@/lib/utils/errors'
+import { authorize, hasPermission } from '@/lib/utils/permissions'
+import { getAccessibleStoreIds } from '@/lib/utils/storeAccess'
+
+export interface StoreStockValue {
+  store_id: string
+  store_name: string
+  store_type: string
+  quantity: number
+  total_value: number
+}
+
+export interface ActivityTotals {
+  purchaseCount: number
+  purchaseValue: number | null // Null when the user can't see prices
+  issueCount: number
+  issueValue: number | null
+}
+
+export interface MonthComparison {
+  thisMonth: ActivityTotals
+  lastMonth: ActivityTotals
+}
+
+export interface ProjectConsumption {
+  project_id: string
+  project_name: string
+  products: { product_id: string; product_name: string; unit: string; quantity: number }[]
+}
+
+export interface ActivityFeedItem {
+  id: string
+  kind: 'purchase' | 'issue'
+  description: string
+  date: string
+  created_at: string
+}
+
+// Consumption is ranked over this many days
+const CONSUMPTION_DAYS = 90
+const ACTIVITY_FEED_LIMIT = 10
+
+// YYYY-MM-DD in local time, so month boundaries don't shift with the time zone
+function formatDate(date: Date) {
+  const month = String(date.getMonth() + 1).padStart(2, '0')
+  const day = String(date.getDate()).padStart(2, '0')
+  return `${date.getFullYear()}-${month}-${day}`
+}
+
+/** Stock on hand and its value per store, for the stores whose cost the user can see */
+export async function getStockValueByStore() {
+  const supabase = await createClient()
+
+  const { profile, error: authError } = await authorize(supabase)
+  if (!profile) {
+    return { data: null, error: authError }
+  }
+
+  const { data, error } = await supabase.rpc('get_dashboard_stock_value')
+
+  if (error) {
+    return { data: null, error: getErrorMessage(error) }
+  }
+
+  // Same rule as the inventory cost report
+  const canSeeCost = (storeType: string) =>
+    hasPermission(profile, 'view_prices') || (hasPermission(profile, 'view_central_prices') && storeType === 'central')
+
+  // Managers can read other stores' stock, but the dashboard only totals their own
+  const accessibleStoreIds = getAccessibleStoreIds(profile)
+
+  const stores = ((data || []) as StoreStockValue[])
+    .filter((store) => !accessibleStoreIds || accessibleStoreIds.includes(store.store_id))
+    .filter((store) => canSeeCost(store.store_type))
+    .map((store) => ({
+      ...store,
+      quantity: Number(store.quantity),
+      total_value: Number(store.total_value),
+    }))
+
+  return { data: stores, error: null }
+}
+
+/** Purchases and issues so far this month against the whole of last month */
+export async function getMonthComparison() {
+  const supabase = await createClient()
+
+  const { profile, error: authError } = await authorize(supabase)
+  if (!profile) {
+    return { data: null, error: authError }
+  }
+
+  const now = new Date()
+  const ranges = {
+    thisMonth: [new Date(now.getFullYear(), now.getMonth(), 1), now],
+    lastMonth: [new Date(now.getFullYear(), now.getMonth() - 1, 1), new Date(now.getFullYear(), now.getMonth(), 0)],
+  }
+
+  const canSeePrices = hasPermission(profile, 'view_prices')
+  const totals = {} as MonthComparison
+
+  for (const [key, [start, end]] of Object.entries(ranges) as [keyof MonthComparison, Date[]][]) {
+    const { data, error } = await supabase
+      .rpc('get_dashboard_activity_totals', {
+        p_start_date: formatDate(start),
+        p_end_date: formatDate(end),
+      })
+      .single()
+
+    if (error) {
+      return { data: null, error: getErrorMessage(error) }
+    }
+
+    const row = data as { purchase_count: number; purchase_value: number; issue_count: number; issue_value: number }
+    totals[key] = {
+      purchaseCount: Number(row.purchase_count),
+      purchaseValue: canSeePrices ? Number(row.purchase_value) : null,
+      issueCount: Number(row.issue_count),
+      issueValue: canSeePrices ? Number(row.issue_value) : null,
+    }
+  }
+
+  return { data: totals, error: null }
+}
+
+/** The products each project has used most over the last 90 days */
+export async function getTopConsumedProducts(limit = 5) {
+  const supabase = await createClient()
+
+  const { profile, error: authError } = await authorize(supabase)
+  if (!profile) {
+    return { data: null, error: authError }
+  }
+
+  const startDate = new Date()
+  startDate.setDate(startDate.getDate() - CONSUMPTION_DAYS)
+
+  const { data, error } = await supabase.rpc('get_dashboard_top_consumed_products', {
+    p_start_date: formatDate(startDate),
+    p_limit: limit,
+  })
+
+  if (error) {
+    return { data: null, error: getErrorMessage(error) }
+  }
+
+  const projects = new Map<string, ProjectConsumption>()
+  for (const row of (data || []) as Array<{
+    project_id: string
+    project_name: string
+    product_id: string
+    product_name: string
+    unit: string
+    quantity: number
+  }>) {
+    const project = projects.get(row.project_id) || { project_id: row.project_id, project_name: row.project_name, products: [] }
+    project.products.push({
+      product_id: row.product_id,
+      product_name: row.product_name,
+      unit: row.unit,
+      quantity: Number(row.quantity),
+    })
+    projects.set(row.project_id, project)
+  }
+
+  return { data: Array.from(projects.values()), error: null }
+}
+
+/** The latest purchases and issues in the user's stores */
+export async function getRecentActivity() {
+  const supabase = await createClient()
+
+  const { profile, error: authError } = await authorize(supabase)
+  if (!profile) {
+    return { data: null, error: authError }
+  }
+
+  const { data: purchases, error: purchasesError } = await supabase
+    .from('purchases')
+    .select('id, quantity, purchase_date, created_at, store:stores(name), product:products(name, unit)')
+    .is('deleted_at', null)
+    .order('created_at', { ascending: false })
+    .limit(ACTIVITY_FEED_LIMIT)
+
+  if (purchasesError) {
+    return { data: null, error: getErrorMessage(purchasesError) }
+  }
+
+  const { data: issues, error: issuesError } = await supabase
+    .from('issues')
+    .select(`
+      id,
+      quantity,
+      issued_to_name,
+      issue_date,
+      created_at,
+      from_store:stores!issues_from_store_id_fkey(name),
+      to_store:stores!issues_to_store_id_fkey(name),
+      product:products(name, unit)
+    `)
+    .is('deleted_at', null)
+    .order('created_at', { ascending: false })
+    .limit(ACTIVITY_FEED_LIMIT)
+
+  if (issuesError) {
+    return { data: null, error: getErrorMessage(issuesError) }
+  }
+
+  const items: ActivityFeedItem[] = [
+    ...(purchases || []).map((purchase) => {
+      const store = purchase.store as unknown as { name: string } | null
+      const product = purchase.product as unknown as { name: string; unit: string } | null
+      return {
+        id: purchase.id,
+        kind: 'purchase' as const,
+        description: `Purchased ${purchase.quantity} ${product?.unit || ''} of ${product?.name || 'a product'} into ${store?.name || 'a store'}`,
+        date: purchase.purchase_date,
+        created_at: purchase.created_at,
+      }
+    }),
+    ...(issues || []).map((issue) => {
+      const fromStore = issue.from_store as unknown as { name: string } | null
+      const toStore = issue.to_store as unknown as { name: string } | null
+      const product = issue.product as unknown as { name: string; unit: string } | null
+      return {
+        id: issue.id,
+        kind: 'issue' as const,
+        description: `Issued ${issue.quantity} ${product?.unit || ''} of ${product?.name || 'a product'} from ${fromStore?.name || 'a store'} to ${toStore?.name || issue.issued_to_name || 'a person'}`,
+        date: issue.issue_date,
+        created_at: issue.created_at,
+      }
+    }),
+  ]
+
+  items.sort((a, b) => b.created_at.localeCompare(a.created_at))
+  return { data: items.slice(0, ACTIVITY_FEED_LIMIT), error: null }
+}
@@ -0,0 +1,94 @@
+'use server'
+
+import { createClient } from '@/lib/supabase/server'
+import { revalidatePath } from 'next/cache'
+import type { CreateExchangeRateInput } from '@/lib/types'
+import { getErrorMessage } from '@/lib/utils/errors'
+import { BASE_CURRENCY } from '@/lib/constants/currencies'
+import { authorize } from '@/lib/utils/permissions'
+
+export async function createExchangeRate(input: CreateExchangeRateInput) {
+  const supabase = await createClient()
+
+  const { user, error: authError } = await authorize(supabase, 'manage_exchange_rates')
+  if (!user) {
+    return { error: authError }
+  }
+
+  const currencyCode = input.currency_code.trim().toUpperCase()
+  if (!/^[A-Z]{3}$/.test(currencyCode) || currencyCode === BASE_CURRENCY) {
+    return { error: `Choose a currency other than ${BASE_CURRENCY}` }
+  }
+
+  if (isNaN(input.rate) || input.rate <= 0) {
+    return { error: 'Rate must be greater than 0' }
+  }
+
+  const { data, error } = await supabase
+    .from('exchange_rates')
+    .insert({
+      currency_code: currencyCode,
+      rate: input.rate,
+      effective_date: input.effective_date || new Date().toISOString().split('T')[0],
+      notes: input.notes || null,
+      created_by: user.id,
+    })
+    .select()
+    .single()
+
+  if (error) {
+    return { error: getErrorMessage(error) }
+  }
+
+  revalidatePath('/purchases')
+  return { data, error: null }
+}
+
+// Purchases keep the rate they were converted at, so removing a rate only
+// affects purchases recorded afterwards
+export async function deleteExchangeRate(rateId: string) {
+  const supabase = await createClient()
+
+  const { user, error: authError } = await authorize(supabase, 'manage_exchange_rates')
+  if (!user) {
+    return { error: authError }
+  }
+
+  const { error } = await supabase
+    .from('exchange_rates')
+    .update({
+      deleted_at: new Date().toISOString(),
+      deleted_by: user.id,
+    })
+    .eq('id', rateId)
+    .is('deleted_at', null)
+
+  if (error) {
+    return { error: getErrorMessage(error) }
+  }
+
+  revalidatePath('/purchases')
+  return { error: null }
+}
+
+export async function getExchangeRates() {
+  const supabase = await createClient()
+
+  const { data: { user } } = await supabase.auth.getUser()
+  if (!user) {
+    return { data: null, error: 'Not authenticated' }
+  }
+
+  const { data, error } = await supabase
+    .from('exchange_rates')
+    .select('*')
+    .is('deleted_at', null)
+    .order('currency_code', { ascending: true })
+    .order('effective_date', { ascending: false })
+
+  if (error) {
+    return { data: null, error: getErrorMessage(error) }
+  }
+
+  return { data, error: null }
+}
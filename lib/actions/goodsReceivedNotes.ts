@@ -0,0 +1,259 @@
+'use server'
+
+import { createClient } from '@/lib/supabase/server'
+import { revalidatePath } from 'next/cache'
+import type { CreateGoodsReceivedNoteInput } from '@/lib/types'
+import { getErrorMessage } from '@/lib/utils/errors'
+import { getAccessibleStoreIds, getStoreAccessError, type StoreAccessStore } from '@/lib/utils/storeAccess'
+import { authorize } from '@/lib/utils/permissions'
+
+const GOODS_RECEIVED_NOTE_SELECT = `
+  *,
+  store:stores(*),
+  product:products(
+    *,
+    category:categories(*)
+  ),
+  purchase:purchases(*),
+  purchase_order_item:purchase_order_items(
+    *,
+    purchase_order:purchase_orders(id, po_number, status)
+  )
+`
+
+export async function createGoodsReceivedNote(input: CreateGoodsReceivedNoteInput) {
+  const supabase = await createClient()
+
+  const { user, profile, error: authError } = await authorize(supabase, 'receive_goods')
+  if (!user) {
+    return { error: authError }
+  }
+
+  if (!input.purchase_id === !input.purchase_order_item_id) {
+    return { error: 'A goods received note must be recorded against either a purchase or a purchase order line' }
+  }
+
+  if (isNaN(input.quantity) || input.quantity <= 0) {
+    return { error: 'Delivered quantity must be greater than 0' }
+  }
+
+  let storeId: string
+  let productId: string
+  let store: StoreAccessStore
+  let outstanding: number
+
+  // Drafts not yet posted still count against what is left to deliver
+  let pendingQuery = supabase
+    .from('goods_received_notes')
+    .select('quantity, status')
+    .is('deleted_at', null)
+
+  if (input.purchase_id) {
+    const { data: purchase } = await supabase
+      .from('purchases')
+      .select('store_id, product_id, quantity, receive_via_grn, store:stores(id, type)')
+      .eq('id', input.purchase_id)
+      .is('deleted_at', null)
+      .single()
+
+    if (!purchase) {
+      return { error: 'Purchase not found' }
+    }
+
+    if (!purchase.receive_via_grn) {
+      return { error: 'This purchase was received in full when it was recorded' }
+    }
+
+    pendingQuery = pendingQuery.eq('purchase_id', input.purchase_id)
+    storeId = purchase.store_id
+    productId = purchase.product_id
+    store = purchase.store as unknown as StoreAccessStore
+    outstanding = Number(purchase.quantity)
+  } else {
+    const { data: orderItem } = await supabase
+      .from('purchase_order_items')
+      .select('product_id, quantity, received_quantity, purchase_order:purchase_orders(store_id, status, deleted_at, store:stores(id, type))')
+      .eq('id', input.purchase_order_item_id!)
+      .single()
+
+    const order = orderItem?.purchase_order as unknown as {
+      store_id: string
+      status: string
+      deleted_at: string | null
+      store: StoreAccessStore
+    } | null
+
+    if (!orderItem || !order || order.deleted_at) {
+      return { error: 'Purchase order line not found' }
+    }
+
+    if (!['approved', 'partially_received'].includes(order.status)) {
+      return { error: 'Goods can only be received against approved purchase orders' }
+    }
+
+    // Posted GRNs are already counted in received_quantity, so only drafts are pending
+    pendingQuery = pendingQuery.eq('purchase_order_item_id', input.purchase_order_item_id!).eq('status', 'draft')
+    storeId = order.store_id
+    productId = orderItem.product_id
+    store = order.store
+    outstanding = Number(orderItem.quantity) - Number(orderItem.received_quantity)
+  }
+
+  const accessError = getStoreAccessError(profile, store, 'receive goods')
+  if (accessError) {
+    return { error: accessError }
+  }
+
+  const { data: pendingNotes } = await pendingQuery
+  outstanding -= (pendingNotes || []).reduce((sum, note) => sum + Number(note.quantity), 0)
+
+  if (input.quantity > outstanding) {
+    return { error: `Delivered quantity exceeds the outstanding quantity (${outstanding})` }
+  }
+
+  const { data, error } = await supabase
+    .from('goods_received_notes')
+    .insert({
+      purchase_id: input.purchase_id || null,
+      purchase_order_item_id: input.purchase_order_item_id || null,
+      store_id: storeId,
+      product_id: productId,
+      quantity: input.quantity,
+      received_date: input.received_date || new Date().toISOString().split('T')[0],
+      vehicle_number: input.vehicle_number?.trim() || null,
+      challan_number: input.challan_number?.trim() || null,
+      received_by_name: input.received_by_name?.trim() || null,
+      notes: input.notes || null,
+      status: 'draft',
+      created_by: user.id,
+    })
+    .select(GOODS_RECEIVED_NOTE_SELECT)
+    .single()
+
+  if (error) {
+    return { error: getErrorMessage(error) }
+  }
+
+  revalidatePath('/purchases')
+  return { data, error: null }
+}
+
+export async function postGoodsReceivedNote(grnId: string) {
+  const supabase = await createClient()
+
+  const { profile, error: authError } = await authorize(supabase, 'receive_goods')
+  if (!profile) {
+    return { error: authError }
+  }
+
+  const { data: grn } = await supabase
+    .from('goods_received_notes')
+    .select('status, store:stores(id, type)')
+    .eq('id', grnId)
+    .is('deleted_at', null)
+    .single()
+
+  if (!grn) {
+    return { error: 'Goods received note not found' }
+  }
+
+  if (grn.status !== 'draft') {
+    return { error: 'This goods received note has already been posted' }
+  }
+
+  const accessError = getStoreAccessError(profile, grn.store as unknown as StoreAccessStore, 'receive goods')
+  if (accessError) {
+    return { error: accessError }
+  }
+
+  // The database function re-checks the outstanding quantity under a row lock
+  // and moves the stock in the same transaction as the status change
+  const { data, error } = await supabase.rpc('post_goods_received_note', { p_grn_id: grnId })
+
+  if (error) {
+    return { error: getErrorMessage(error) }
+  }
+
+  revalidatePath('/purchases')
+  revalidatePath('/inventory')
+  return { data, error: null }
+}
+
+export async function deleteGoodsReceivedNote(grnId: string) {
+  const supabase = await createClient()
+
+  const { user, profile, error: authError } = await authorize(supabase, 'receive_goods')
+  if (!user) {
+    return { error: authError }
+  }
+
+  const { data: grn } = await supabase
+    .from('goods_received_notes')
+    .select('status, store:stores(id, type)')
+    .eq('id', grnId)
+    .is('deleted_at', null)
+    .single()
+
+  if (!grn) {
+    return { error: 'Goods received note not found' }
+  }
+
+  // Posted GRNs have moved stock; they are reversed by deleting the purchase
+  if (grn.status !== 'draft') {
+    return { error: 'Only draft goods received notes can be deleted' }
+  }
+
+  const accessError = getStoreAccessError(profile, grn.store as unknown as StoreAccessStore, 'receive goods')
+  if (accessError) {
+    return { error: accessError }
+  }
+
+  const { error } = await supabase
+    .from('goods_received_notes')
+    .update({
+      deleted_at: new Date().toISOString(),
+      deleted_by: user.id,
+    })
+    .eq('id', grnId)
+
+  if (error) {
+    return { error: getErrorMessage(error) }
+  }
+
+  revalidatePath('/purchases')
+  return { error: null }
+}
+
+export async function getGoodsReceivedNotes(purchaseId?: string) {
+  const supabase = await createClient()
+
+  const { profile, error: authError } = await authorize(supabase)
+  if (!profile) {
+    return { data: null, error: authError }
+  }
+
+  let query = supabase
+    .from('goods_received_notes')
+    .select(GOODS_RECEIVED_NOTE_SELECT)
+    .is('deleted_at', null)
+    .order('received_date', { ascending: false })
+    .order('created_at', { ascending: false })
+
+  // Store managers only see deliveries into the stores they are assigned to
+  const storeIds = getAccessibleStoreIds(profile)
+  if (storeIds) {
+    query = query.in('store_id', storeIds)
+  }
+
+  if (purchaseId) {
+    query = query.eq('purchase_id', purchaseId)
+  }
+
+  const { data, error } = await query
+
+  if (error) {
+    return { data: null, error: getErrorMessage(error) }
+  }
+
+  return { data, error: null }
+}
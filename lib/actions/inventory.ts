@@ -1,26 +1,22 @@
 'use server'
 
 import { createClient } from '@/lib/supabase/server'
-import type { InventoryItem, InventoryMovementEntry, Store } from '@/lib/types'
+import type { AdjustmentReason, InventoryItem, InventoryMovementEntry, Store } from '@/lib/types'
+import { ADJUSTMENT_REASON_LABELS } from '@/lib/constants/adjustmentReasons'
 import { getErrorMessage } from '@/lib/utils/errors'
+import { authorize } from '@/lib/utils/permissions'
 
 export async function getInventory(storeId?: string, productId?: string) {
   const supabase = await createClient()
 
-  const { data: { user } } = await supabase.auth.getUser()
-  if (!user) {
-    return { data: null, error: 'Not authenticated' }
+  const { profile, error: authError } = await authorize(supabase)
+  if (!profile) {
+    return { data: null, error: authError }
   }
 
-  const { data: profile } = await supabase
-    .from('user_profiles')
-    .select('role, project_id')
-    .eq('id', user.id)
-    .single()
-
-  const isAdmin = profile?.role === 'admin'
-  const isCentralStoreManager = profile?.role === 'central_store_manager'
-  const isProjectStoreManager = profile?.role === 'project_store_manager'
+  const isAdmin = profile.role === 'admin'
+  const isCentralStoreManager = profile.role === 'central_store_manager'
+  const isProjectStoreManager = profile.role === 'project_store_manager'
 
   let query = supabase
     .from('inventory_items')
@@ -38,27 +34,16 @@ export async function getInventory(storeId?: string, productId?: string) {
   // Filter by store if provided
   if (storeId) {
     query = query.eq('store_id', storeId)
-  } else if (isProjectStoreManager && profile.project_id) {
-    // Project store managers can see their own store + all central stores
-    // Get their project store
-    const { data: projectStore } = await supabase
-      .from('stores')
-      .select('id')
-      .eq('project_id', profile.project_id)
-      .eq('type', 'project')
-      .is('deleted_at', null)
-      .single()
-    
-    // Get all central stores
+  } else if (isProjectStoreManager) {
+    // Project store managers can see their own stores + all central stores
     const { data: centralStores } = await supabase
       .from('stores')
       .select('id')
       .eq('type', 'central')
       .is('deleted_at', null)
     
-    // Filter to show only their store and all central stores
-    const allowedStoreIds: string[] = []
-    if (projectStore) allowedStoreIds.push(projectStore.id)
+    // Filter to show only their stores and all central stores
+    const allowedStoreIds = [...profile.store_ids]
     if (centralStores) {
       centralStores.forEach(store => allowedStoreIds.push(store.id))
     }
@@ -101,29 +86,42 @@ export async function getInventory(storeId?: string, productId?: string) {
     from += pageSize
   }
 
-  return { data: allInventoryItems as InventoryItem[], error: null }
+  // A store's own reorder level takes over from the product's restock level
+  const inventoryStoreIds = Array.from(new Set(allInventoryItems.map((item) => item.store_id as string)))
+  const reorderPointByKey = new Map<string, number>()
+
+  if (inventoryStoreIds.length > 0) {
+    const { data: levels } = await supabase
+      .from('reorder_levels')
+      .select('store_id, product_id, reorder_point')
+      .in('store_id', inventoryStoreIds)
+
+    for (const level of levels || []) {
+      reorderPointByKey.set(`${level.store_id}:${level.product_id}`, Number(level.reorder_point))
+    }
+  }
+
+  const inventoryWithReorderPoints = allInventoryItems.map((item) => {
+    const restockLevel = Number(item.product?.restock_level || 0)
+    const reorderPoint = reorderPointByKey.get(`${item.store_id}:${item.product_id}`) ?? (restockLevel > 0 ? restockLevel : null)
+    return {
+      ...item,
+      reorder_point: reorderPoint,
+      needsRestock: reorderPoint !== null && Number(item.quantity) <= reorderPoint,
+    }
+  })
+
+  return { data: inventoryWithReorderPoints as InventoryItem[], error: null }
 }
 
 export async function getInventoryAverageCost(storeId: string, productId: string) {
   const supabase = await createClient()
 
-  const {
-    data: { user },
-  } = await supabase.auth.getUser()
+  const { user, error: authError } = await authorize(supabase, 'view_prices')
   if (!user) {
-    return { data: null, error: 'Not authenticated' }
-  }
-
-  const { data: profile } = await supabase
-    .from('user_profiles')
-    .select('role')
-    .eq('id', user.id)
-    .single()
-
-  if (!profile || profile.role !== 'admin') {
-    return { data: null, error: 'Unauthorized: Admin access required' }
+    return { data: null, error: authError }
   }
-
+  // Valued from the store's open cost layers
   const { data, error } = await supabase.rpc('get_average_cost', {
     p_store_id: storeId,
     p_product_id: productId,
@@ -180,23 +178,10 @@ export async function getInventoryItem(storeId: string, productId: string) {
 export async function getInventoryItemHistory(storeId: string, productId: string) {
   const supabase = await createClient()
 
-  const {
-    data: { user },
-  } = await supabase.auth.getUser()
+  const { user, error: authError } = await authorize(supabase)
   if (!user) {
-    return { data: null, error: 'Not authenticated' }
-  }
-
-  const { data: profile } = await supabase
-    .from('user_profiles')
-    .select('role, project_id')
-    .eq('id', user.id)
-    .single()
-
-  if (!profile) {
-    return { data: null, error: 'User profile not found' }
+    return { data: null, error: authError }
   }
-
   const { data: purchases, error: purchasesError } = await supabase
     .from('purchases')
     .select(
@@ -204,6 +189,7 @@ export async function getInventoryItemHistory(storeId: string, productId: string
         id,
         quantity,
         unit_cost,
+        landed_unit_cost,
         total_cost,
         purchase_date,
         created_at,
@@ -217,12 +203,40 @@ export async function getInventoryItemHistory(storeId: string, productId: string
     )
     .eq('store_id', storeId)
     .eq('product_id', productId)
+    .eq('receive_via_grn', false)
     .is('deleted_at', null)
 
   if (purchasesError) {
     return { data: null, error: getErrorMessage(purchasesError) }
   }
 
+  // Purchases received in deliveries move stock as each GRN is posted
+  const { data: goodsReceivedNotes, error: goodsReceivedNotesError } = await supabase
+    .from('goods_received_notes')
+    .select(
+      `
+        id,
+        grn_number,
+        quantity,
+        received_date,
+        posted_at,
+        notes,
+        vehicle_number,
+        challan_number,
+        received_by_name,
+        store:stores(*),
+        purchase:purchases(unit_cost, landed_unit_cost)
+      `
+    )
+    .eq('store_id', storeId)
+    .eq('product_id', productId)
+    .eq('status', 'posted')
+    .is('deleted_at', null)
+
+  if (goodsReceivedNotesError) {
+    return { data: null, error: getErrorMessage(goodsReceivedNotesError) }
+  }
+
   const { data: issuesFrom, error: issuesFromError } = await supabase
     .from('issues')
     .select(
@@ -265,6 +279,11 @@ export async function getInventoryItemHistory(storeId: string, productId: string
         issued_to_name,
         unit_cost,
         total_cost,
+        received_quantity,
+        damaged_quantity,
+        received_date,
+        received_at,
+        receipt_notes,
         product:products(
           *,
           category:categories(*)
@@ -273,12 +292,86 @@ export async function getInventoryItemHistory(storeId: string, productId: string
     )
     .eq('to_store_id', storeId)
     .eq('product_id', productId)
+    .eq('transfer_status', 'received')
     .is('deleted_at', null)
 
   if (issuesToError) {
     return { data: null, error: getErrorMessage(issuesToError) }
   }
 
+  // Adjustments only move stock once approved
+  const { data: adjustments, error: adjustmentsError } = await supabase
+    .from('inventory_adjustments')
+    .select(
+      `
+        id,
+        adjustment_number,
+        quantity,
+        reason,
+        adjustment_date,
+        approved_at,
+        notes,
+        unit_cost,
+        total_cost,
+        store:stores(*)
+      `
+    )
+    .eq('store_id', storeId)
+    .eq('product_id', productId)
+    .eq('status', 'approved')
+    .is('deleted_at', null)
+
+  if (adjustmentsError) {
+    return { data: null, error: getErrorMessage(adjustmentsError) }
+  }
+
+  const { data: issueReturns, error: issueReturnsError } = await supabase
+    .from('issue_returns')
+    .select(
+      `
+        id,
+        return_number,
+        quantity,
+        return_date,
+        created_at,
+        notes,
+        returned_by_name,
+        store:stores(*)
+      `
+    )
+    .eq('store_id', storeId)
+    .eq('product_id', productId)
+    .is('deleted_at', null)
+
+  if (issueReturnsError) {
+    return { data: null, error: getErrorMessage(issueReturnsError) }
+  }
+
+  const { data: purchaseReturns, error: purchaseReturnsError } = await supabase
+    .from('purchase_returns')
+    .select(
+      `
+        id,
+        return_number,
+        quantity,
+        unit_cost,
+        total_cost,
+        return_date,
+        created_at,
+        reason,
+        notes,
+        store:stores(*),
+        supplier:suppliers(name)
+      `
+    )
+    .eq('store_id', storeId)
+    .eq('product_id', productId)
+    .is('deleted_at', null)
+
+  if (purchaseReturnsError) {
+    return { data: null, error: getErrorMessage(purchaseReturnsError) }
+  }
+
   const movements: InventoryMovementEntry[] = []
 
   purchases?.forEach((purchase) => {
@@ -292,7 +385,7 @@ export async function getInventoryItemHistory(storeId: string, productId: string
       date: purchase.purchase_date,
       created_at: purchase.created_at,
       quantity: Number(purchase.quantity),
-      unit_cost: purchase.unit_cost,
+      unit_cost: purchase.landed_unit_cost ?? purchase.unit_cost,
       total_cost: purchase.total_cost,
       notes: purchase.notes,
       issued_to_name: null,
@@ -301,6 +394,36 @@ export async function getInventoryItemHistory(storeId: string, productId: string
     })
   })
 
+  goodsReceivedNotes?.forEach((grn) => {
+    const grnPurchase = grn.purchase as unknown as { unit_cost: number; landed_unit_cost: number | null } | null
+    const unitCost = grnPurchase?.landed_unit_cost ?? grnPurchase?.unit_cost ?? null
+    const deliveryDetails = [
+      grn.challan_number ? `Challan ${grn.challan_number}` : null,
+      grn.vehicle_number ? `Vehicle ${grn.vehicle_number}` : null,
+      grn.received_by_name ? `Received by ${grn.received_by_name}` : null,
+      grn.notes,
+    ].filter(Boolean)
+
+    movements.push({
+      id: `grn-${grn.id}`,
+      store_id: storeId,
+      product_id: productId,
+      reference_type: 'grn',
+      reference_id: grn.id,
+      reference_number: grn.grn_number,
+      movement_type: 'grn',
+      date: grn.received_date,
+      created_at: grn.posted_at,
+      quantity: Number(grn.quantity),
+      unit_cost: unitCost,
+      total_cost: unitCost !== null ? Number(grn.quantity) * Number(unitCost) : null,
+      notes: deliveryDetails.length > 0 ? deliveryDetails.join(' - ') : null,
+      issued_to_name: null,
+      source_store: null,
+      destination_store: (grn.store as unknown as Store) ?? null,
+    })
+  })
+
   issuesFrom?.forEach((issue) => {
     movements.push({
       id: `issue-out-${issue.id}`,
@@ -321,7 +444,19 @@ export async function getInventoryItemHistory(storeId: string, productId: string
     })
   })
 
+  // Transfers land in this store's stock when they are received, and only for
+  // the quantity that arrived in good condition
   issuesTo?.forEach((issue) => {
+    const receivedQuantity = Number(issue.received_quantity ?? issue.quantity)
+    const shortfall = Number(issue.quantity) - receivedQuantity
+    const receiptDetails = [
+      issue.notes,
+      shortfall > 0
+        ? `Issued ${issue.quantity}, received ${receivedQuantity}${Number(issue.damaged_quantity) > 0 ? `, ${issue.damaged_quantity} damaged` : ''}`
+        : null,
+      issue.receipt_notes,
+    ].filter(Boolean)
+
     movements.push({
       id: `issue-in-${issue.id}`,
       store_id: storeId,
@@ -329,18 +464,86 @@ export async function getInventoryItemHistory(storeId: string, productId: string
       reference_type: 'issue',
       reference_id: issue.id,
       movement_type: 'issue_in',
-      date: issue.issue_date,
-      created_at: issue.created_at,
-      quantity: Number(issue.quantity),
+      date: issue.received_date ?? issue.issue_date,
+      created_at: issue.received_at ?? issue.created_at,
+      quantity: receivedQuantity,
       unit_cost: issue.unit_cost,
-      total_cost: issue.total_cost,
-      notes: issue.notes,
+      total_cost: issue.unit_cost !== null ? receivedQuantity * Number(issue.unit_cost) : issue.total_cost,
+      notes: receiptDetails.length > 0 ? receiptDetails.join(' - ') : null,
       issued_to_name: issue.issued_to_name,
       source_store: (issue.from_store as unknown as Store) ?? null,
       destination_store: (issue.to_store as unknown as Store) ?? null,
     })
   })
 
+  adjustments?.forEach((adjustment) => {
+    const reasonLabel = ADJUSTMENT_REASON_LABELS[adjustment.reason as AdjustmentReason] ?? adjustment.reason
+    const store = (adjustment.store as unknown as Store) ?? null
+
+    movements.push({
+      id: `adjustment-${adjustment.id}`,
+      store_id: storeId,
+      product_id: productId,
+      reference_type: 'adjustment',
+      reference_id: adjustment.id,
+      reference_number: adjustment.adjustment_number,
+      movement_type: 'adjustment',
+      date: adjustment.adjustment_date,
+      created_at: adjustment.approved_at,
+      quantity: Number(adjustment.quantity),
+      unit_cost: adjustment.unit_cost,
+      total_cost: adjustment.total_cost,
+      notes: [reasonLabel, adjustment.notes].filter(Boolean).join(' - '),
+      issued_to_name: null,
+      source_store: Number(adjustment.quantity) < 0 ? store : null,
+      destination_store: Number(adjustment.quantity) > 0 ? store : null,
+    })
+  })
+
+  // Unused material brought back by the person it was issued to
+  issueReturns?.forEach((issueReturn) => {
+    movements.push({
+      id: `return-${issueReturn.id}`,
+      store_id: storeId,
+      product_id: productId,
+      reference_type: 'return',
+      reference_id: issueReturn.id,
+      reference_number: issueReturn.return_number,
+      movement_type: 'return',
+      date: issueReturn.return_date,
+      created_at: issueReturn.created_at,
+      quantity: Number(issueReturn.quantity),
+      unit_cost: null,
+      total_cost: null,
+      notes: issueReturn.notes,
+      issued_to_name: issueReturn.returned_by_name,
+      source_store: null,
+      destination_store: (issueReturn.store as unknown as Store) ?? null,
+    })
+  })
+
+  purchaseReturns?.forEach((purchaseReturn) => {
+    const supplier = purchaseReturn.supplier as unknown as { name: string } | null
+    movements.push({
+      id: `purchase-return-${purchaseReturn.id}`,
+      store_id: storeId,
+      product_id: productId,
+      reference_type: 'purchase_return',
+      reference_id: purchaseReturn.id,
+      reference_number: purchaseReturn.return_number,
+      movement_type: 'purchase_return',
+      date: purchaseReturn.return_date,
+      created_at: purchaseReturn.created_at,
+      quantity: Number(purchaseReturn.quantity),
+      unit_cost: purchaseReturn.unit_cost,
+      total_cost: purchaseReturn.total_cost,
+      notes: [purchaseReturn.reason, purchaseReturn.notes].filter(Boolean).join(' - ') || null,
+      issued_to_name: supplier?.name ?? null,
+      source_store: (purchaseReturn.store as unknown as Store) ?? null,
+      destination_store: null,
+    })
+  })
+
   const sortedMovements = movements.sort((a, b) => {
     const dateDiff = new Date(a.date).getTime() - new Date(b.date).getTime()
     if (dateDiff !== 0) {
@@ -0,0 +1,270 @@
+'use server'
+
+import { createClient } from '@/lib/supabase/server'
+import { revalidatePath } from 'next/cache'
+import type { AdjustmentStatus, CreateInventoryAdjustmentInput } from '@/lib/types'
+import { ADJUSTMENT_REASON_OPTIONS } from '@/lib/constants/adjustmentReasons'
+import { getErrorMessage } from '@/lib/utils/errors'
+import { getAccessibleStoreIds, getStoreAccessError, type StoreAccessStore } from '@/lib/utils/storeAccess'
+import { getClosedPeriodError } from '@/lib/utils/accountingPeriods'
+import { authorize } from '@/lib/utils/permissions'
+import { notifyInBackground, sendPendingStockAlertEmails } from '@/lib/email/notify'
+
+const ADJUSTMENT_SELECT = `
+  *,
+  store:stores(*),
+  product:products(
+    *,
+    category:categories(*)
+  )
+`
+
+export async function createInventoryAdjustment(input: CreateInventoryAdjustmentInput) {
+  const supabase = await createClient()
+
+  const { user, profile, error: authError } = await authorize(supabase, 'create_adjustments')
+  if (!user) {
+    return { error: authError }
+  }
+
+  const { data: store } = await supabase
+    .from('stores')
+    .select('id, type')
+    .eq('id', input.store_id)
+    .is('deleted_at', null)
+    .single()
+
+  if (!store) {
+    return { error: 'Store not found' }
+  }
+
+  const accessError = getStoreAccessError(profile, store, 'adjust stock')
+  if (accessError) {
+    return { error: accessError }
+  }
+
+  if (!input.product_id) {
+    return { error: 'Product is required' }
+  }
+
+  if (isNaN(input.quantity) || input.quantity === 0) {
+    return { error: 'Adjustment quantity cannot be 0' }
+  }
+
+  if (!ADJUSTMENT_REASON_OPTIONS.some((option) => option.value === input.reason)) {
+    return { error: 'A valid reason is required' }
+  }
+
+  const adjustmentDate = input.adjustment_date || new Date().toISOString().split('T')[0]
+  const periodError = await getClosedPeriodError(supabase, [adjustmentDate])
+  if (periodError) {
+    return { error: periodError }
+  }
+
+  // Catch obvious over-write-offs early; the approval trigger checks again
+  if (input.quantity < 0) {
+    const { data: inventory } = await supabase
+      .from('inventory_items')
+      .select('quantity')
+      .eq('store_id', input.store_id)
+      .eq('product_id', input.product_id)
+      .maybeSingle()
+
+    const available = inventory?.quantity || 0
+    if (available < Math.abs(input.quantity)) {
+      return { error: `Insufficient inventory: only ${available} available to write off` }
+    }
+  }
+
+  const { data, error } = await supabase
+    .from('inventory_adjustments')
+    .insert({
+      store_id: input.store_id,
+      product_id: input.product_id,
+      quantity: input.quantity,
+      reason: input.reason,
+      adjustment_date: adjustmentDate,
+      notes: input.notes || null,
+      status: 'pending',
+      created_by: user.id,
+    })
+    .select(ADJUSTMENT_SELECT)
+    .single()
+
+  if (error) {
+    return { error: getErrorMessage(error) }
+  }
+
+  revalidatePath('/adjustments')
+  return { data, error: null }
+}
+
+export async function approveInventoryAdjustment(adjustmentId: string) {
+  const supabase = await createClient()
+
+  const { user, error: authError } = await authorize(supabase, 'approve_adjustments')
+  if (!user) {
+    return { error: authError }
+  }
+
+  const { data: adjustment } = await supabase
+    .from('inventory_adjustments')
+    .select('status, adjustment_date')
+    .eq('id', adjustmentId)
+    .is('deleted_at', null)
+    .single()
+
+  if (!adjustment) {
+    return { error: 'Adjustment not found' }
+  }
+
+  if (adjustment.status !== 'pending') {
+    return { error: 'Only pending adjustments can be approved' }
+  }
+
+  const periodError = await getClosedPeriodError(supabase, [adjustment.adjustment_date])
+  if (periodError) {
+    return { error: periodError }
+  }
+
+  // Triggers value the adjustment at average cost and move the stock
+  const { error } = await supabase
+    .from('inventory_adjustments')
+    .update({
+      status: 'approved',
+      approved_by: user.id,
+      approved_at: new Date().toISOString(),
+    })
+    .eq('id', adjustmentId)
+
+  if (error) {
+    return { error: getErrorMessage(error) }
+  }
+
+  notifyInBackground(sendPendingStockAlertEmails)
+
+  revalidatePath('/adjustments')
+  revalidatePath('/inventory')
+  return { error: null }
+}
+
+export async function rejectInventoryAdjustment(adjustmentId: string, reason?: string) {
+  const supabase = await createClient()
+
+  const { user, error: authError } = await authorize(supabase, 'approve_adjustments')
+  if (!user) {
+    return { error: authError }
+  }
+
+  const { data: adjustment } = await supabase
+    .from('inventory_adjustments')
+    .select('status')
+    .eq('id', adjustmentId)
+    .is('deleted_at', null)
+    .single()
+
+  if (!adjustment) {
+    return { error: 'Adjustment not found' }
+  }
+
+  if (adjustment.status !== 'pending') {
+    return { error: 'Only pending adjustments can be rejected' }
+  }
+
+  const { error } = await supabase
+    .from('inventory_adjustments')
+    .update({
+      status: 'rejected',
+      rejection_reason: reason?.trim() || null,
+    })
+    .eq('id', adjustmentId)
+
+  if (error) {
+    return { error: getErrorMessage(error) }
+  }
+
+  revalidatePath('/adjustments')
+  return { error: null }
+}
+
+export async function deleteInventoryAdjustment(adjustmentId: string) {
+  const supabase = await createClient()
+
+  const { user, profile, error: authError } = await authorize(supabase, 'create_adjustments')
+  if (!user) {
+    return { error: authError }
+  }
+
+  const { data: adjustment } = await supabase
+    .from('inventory_adjustments')
+    .select('status, adjustment_date, store:stores(id, type)')
+    .eq('id', adjustmentId)
+    .is('deleted_at', null)
+    .single()
+
+  if (!adjustment) {
+    return { error: 'Adjustment not found' }
+  }
+
+  if (adjustment.status === 'approved') {
+    return { error: 'Approved adjustments cannot be deleted. Raise a new adjustment to reverse them.' }
+  }
+
+  const accessError = getStoreAccessError(profile, adjustment.store as unknown as StoreAccessStore, 'adjust stock')
+  if (accessError) {
+    return { error: accessError }
+  }
+
+  const periodError = await getClosedPeriodError(supabase, [adjustment.adjustment_date])
+  if (periodError) {
+    return { error: periodError }
+  }
+
+  const { error } = await supabase
+    .from('inventory_adjustments')
+    .update({
+      deleted_at: new Date().toISOString(),
+      deleted_by: user.id,
+    })
+    .eq('id', adjustmentId)
+
+  if (error) {
+    return { error: getErrorMessage(error) }
+  }
+
+  revalidatePath('/adjustments')
+  return { error: null }
+}
+
+export async function getInventoryAdjustments(status?: AdjustmentStatus) {
+  const supabase = await createClient()
+
+  const { profile, error: authError } = await authorize(supabase)
+  if (!profile) {
+    return { data: null, error: authError }
+  }
+
+  let query = supabase
+    .from('inventory_adjustments')
+    .select(ADJUSTMENT_SELECT)
+    .is('deleted_at', null)
+    .order('adjustment_date', { ascending: false })
+    .order('created_at', { ascending: false })
+
+  const storeIds = getAccessibleStoreIds(profile)
+  if (storeIds) {
+    query = query.in('store_id', storeIds)
+  }
+
+  if (status) {
+    query = query.eq('status', status)
+  }
+
+  const { data, error } = await query
+
+  if (error) {
+    return { data: null, error: getErrorMessage(error) }
+  }
+
+  return { data, error: null }
+}
@@ -0,0 +1,384 @@
+'use server'
+
+import { createClient } from '@/lib/supabase/server'
+import { revalidatePath } from 'next/cache'
+import type {
+  ApproveIssueRequisitionInput,
+  CreateIssueRequisitionInput,
+  FulfilIssueRequisitionInput,
+  IssueRequisitionStatus,
+} from '@/lib/types'
+import { getErrorMessage } from '@/lib/utils/errors'
+import { getAccessibleStoreIds, getStoreAccessError, type StoreAccessStore } from '@/lib/utils/storeAccess'
+import { authorize } from '@/lib/utils/permissions'
+import { notifyInBackground, sendPendingStockAlertEmails } from '@/lib/email/notify'
+
+const ISSUE_REQUISITION_SELECT = `
+  *,
+  requesting_store:stores!issue_requisitions_requesting_store_id_fkey(
+    *,
+    project:projects(*)
+  ),
+  supplying_store:stores!issue_requisitions_supplying_store_id_fkey(*),
+  items:issue_requisition_items(
+    *,
+    product:products(
+      *,
+      category:categories(*)
+    )
+  )
+`
+
+export async function createIssueRequisition(input: CreateIssueRequisitionInput) {
+  const supabase = await createClient()
+
+  const { user, profile, error: authError } = await authorize(supabase, 'request_stock')
+  if (!user) {
+    return { error: authError }
+  }
+
+  const { data: requestingStore } = await supabase
+    .from('stores')
+    .select('id, type')
+    .eq('id', input.requesting_store_id)
+    .is('deleted_at', null)
+    .single()
+
+  if (!requestingStore) {
+    return { error: 'Requesting store not found' }
+  }
+
+  if (requestingStore.type !== 'project') {
+    return { error: 'Requisitions can only be raised by project stores' }
+  }
+
+  const accessError = getStoreAccessError(profile, requestingStore, 'raise requisitions')
+  if (accessError) {
+    return { error: accessError }
+  }
+
+  const { data: supplyingStore } = await supabase
+    .from('stores')
+    .select('type')
+    .eq('id', input.supplying_store_id)
+    .is('deleted_at', null)
+    .single()
+
+  if (!supplyingStore) {
+    return { error: 'Supplying store not found' }
+  }
+
+  if (supplyingStore.type !== 'central') {
+    return { error: 'Requisitions must be raised on a central store' }
+  }
+
+  if (!input.items || input.items.length === 0) {
+    return { error: 'A requisition needs at least one product line' }
+  }
+
+  const seenProducts = new Set<string>()
+  for (const item of input.items) {
+    if (!item.product_id) {
+      return { error: 'Every line must have a product' }
+    }
+    if (seenProducts.has(item.product_id)) {
+      return { error: 'Each product can only appear once on a requisition' }
+    }
+    seenProducts.add(item.product_id)
+    if (isNaN(item.quantity) || item.quantity <= 0) {
+      return { error: 'Line quantities must be greater than 0' }
+    }
+  }
+
+  const { data: requisition, error } = await supabase
+    .from('issue_requisitions')
+    .insert({
+      requesting_store_id: input.requesting_store_id,
+      supplying_store_id: input.supplying_store_id,
+      status: 'pending',
+      needed_by: input.needed_by || null,
+      notes: input.notes || null,
+      requested_by: user.id,
+    })
+    .select('id')
+    .single()
+
+  if (error || !requisition) {
+    return { error: error ? getErrorMessage(error) : 'Failed to create requisition' }
+  }
+
+  const { error: itemsError } = await supabase
+    .from('issue_requisition_items')
+    .insert(
+      input.items.map((item) => ({
+        requisition_id: requisition.id,
+        product_id: item.product_id,
+        requested_quantity: item.quantity,
+      }))
+    )
+
+  if (itemsError) {
+    // Don't leave a requisition without lines behind
+    await supabase.from('issue_requisitions').delete().eq('id', requisition.id)
+    return { error: getErrorMessage(itemsError) }
+  }
+
+  const { data, error: fetchError } = await supabase
+    .from('issue_requisitions')
+    .select(ISSUE_REQUISITION_SELECT)
+    .eq('id', requisition.id)
+    .single()
+
+  if (fetchError) {
+    return { error: getErrorMessage(fetchError) }
+  }
+
+  revalidatePath('/issues')
+  return { data, error: null }
+}
+
+export async function approveIssueRequisition(input: ApproveIssueRequisitionInput) {
+  const supabase = await createClient()
+
+  const { user, profile, error: authError } = await authorize(supabase, 'approve_requisitions')
+  if (!user) {
+    return { error: authError }
+  }
+
+  const { data: requisition } = await supabase
+    .from('issue_requisitions')
+    .select(`
+      status,
+      supplying_store:stores!issue_requisitions_supplying_store_id_fkey(id, type),
+      items:issue_requisition_items(id, requested_quantity)
+    `)
+    .eq('id', input.requisition_id)
+    .is('deleted_at', null)
+    .single()
+
+  if (!requisition) {
+    return { error: 'Requisition not found' }
+  }
+
+  if (requisition.status !== 'pending') {
+    return { error: 'Only pending requisitions can be approved' }
+  }
+
+  const accessError = getStoreAccessError(profile, requisition.supplying_store as unknown as StoreAccessStore, 'review requisitions')
+  if (accessError) {
+    return { error: accessError }
+  }
+
+  // Lines left out of the input are approved for the full requested quantity
+  const approvedQuantities = new Map(
+    (input.lines || []).map((line) => [line.requisition_item_id, line.approved_quantity])
+  )
+  const items = requisition.items || []
+
+  for (const [itemId, quantity] of approvedQuantities) {
+    const item = items.find((requisitionItem) => requisitionItem.id === itemId)
+    if (!item) {
+      return { error: 'Approved line does not belong to this requisition' }
+    }
+    if (isNaN(quantity) || quantity < 0) {
+      return { error: 'Approved quantities must be 0 or greater' }
+    }
+    if (quantity > Number(item.requested_quantity)) {
+      return { error: `Approved quantity cannot exceed the requested quantity (${item.requested_quantity})` }
+    }
+  }
+
+  const approvedItems = items.map((item) => ({
+    id: item.id,
+    approved_quantity: approvedQuantities.get(item.id) ?? Number(item.requested_quantity),
+  }))
+
+  if (!approvedItems.some((item) => item.approved_quantity > 0)) {
+    return { error: 'Approve a quantity for at least one line, or reject the requisition instead' }
+  }
+
+  for (const item of approvedItems) {
+    const { error: itemError } = await supabase
+      .from('issue_requisition_items')
+      .update({ approved_quantity: item.approved_quantity })
+      .eq('id', item.id)
+
+    if (itemError) {
+      return { error: getErrorMessage(itemError) }
+    }
+  }
+
+  const { error } = await supabase
+    .from('issue_requisitions')
+    .update({
+      status: 'approved',
+      reviewed_by: user.id,
+      reviewed_at: new Date().toISOString(),
+    })
+    .eq('id', input.requisition_id)
+
+  if (error) {
+    return { error: getErrorMessage(error) }
+  }
+
+  revalidatePath('/issues')
+  return { error: null }
+}
+
+export async function rejectIssueRequisition(requisitionId: string, reason?: string) {
+  const supabase = await createClient()
+
+  const { user, profile, error: authError } = await authorize(supabase, 'approve_requisitions')
+  if (!user) {
+    return { error: authError }
+  }
+
+  const { data: requisition } = await supabase
+    .from('issue_requisitions')
+    .select('status, supplying_store:stores!issue_requisitions_supplying_store_id_fkey(id, type)')
+    .eq('id', requisitionId)
+    .is('deleted_at', null)
+    .single()
+
+  if (!requisition) {
+    return { error: 'Requisition not found' }
+  }
+
+  if (requisition.status !== 'pending') {
+    return { error: 'Only pending requisitions can be rejected' }
+  }
+
+  const accessError = getStoreAccessError(profile, requisition.supplying_store as unknown as StoreAccessStore, 'review requisitions')
+  if (accessError) {
+    return { error: accessError }
+  }
+
+  const { error } = await supabase
+    .from('issue_requisitions')
+    .update({
+      status: 'rejected',
+      rejection_reason: reason?.trim() || null,
+      reviewed_by: user.id,
+      reviewed_at: new Date().toISOString(),
+    })
+    .eq('id', requisitionId)
+
+  if (error) {
+    return { error: getErrorMessage(error) }
+  }
+
+  revalidatePath('/issues')
+  return { error: null }
+}
+
+export async function cancelIssueRequisition(requisitionId: string) {
+  const supabase = await createClient()
+
+  const { profile, error: authError } = await authorize(supabase, 'request_stock')
+  if (!profile) {
+    return { error: authError }
+  }
+
+  const { data: requisition } = await supabase
+    .from('issue_requisitions')
+    .select('status, requesting_store:stores!issue_requisitions_requesting_store_id_fkey(id, type)')
+    .eq('id', requisitionId)
+    .is('deleted_at', null)
+    .single()
+
+  if (!requisition) {
+    return { error: 'Requisition not found' }
+  }
+
+  // Once the central store has started issuing, the requisition has to run its course
+  if (!['pending', 'approved'].includes(requisition.status)) {
+    return { error: 'Only pending or approved requisitions that have not been issued can be cancelled' }
+  }
+
+  const accessError = getStoreAccessError(profile, requisition.requesting_store as unknown as StoreAccessStore, 'raise requisitions')
+  if (accessError) {
+    return { error: accessError }
+  }
+
+  const { error } = await supabase
+    .from('issue_requisitions')
+    .update({ status: 'cancelled' })
+    .eq('id', requisitionId)
+
+  if (error) {
+    return { error: getErrorMessage(error) }
+  }
+
+  revalidatePath('/issues')
+  return { error: null }
+}
+
+export async function fulfilIssueRequisition(input: FulfilIssueRequisitionInput) {
+  const supabase = await createClient()
+
+  const { user, error: authError } = await authorize(supabase, 'approve_requisitions')
+  if (!user) {
+    return { error: authError }
+  }
+
+  const lines = (input.lines || []).filter((line) => line.quantity > 0)
+  if (lines.length === 0) {
+    return { error: 'Enter an issue quantity for at least one line' }
+  }
+
+  // Like createIssue, the database function checks store access, the
+  // outstanding quantities and the stock while holding locks on the
+  // requisition and the stock rows, then writes every issue in one transaction
+  const { data, error } = await supabase.rpc('fulfil_issue_requisition', {
+    p_requisition_id: input.requisition_id,
+    p_issue_date: input.issue_date || new Date().toISOString().split('T')[0],
+    p_notes: input.notes || null,
+    p_lines: lines.map((line) => ({
+      requisition_item_id: line.requisition_item_id,
+      quantity: line.quantity,
+    })),
+  })
+
+  if (error) {
+    return { error: getErrorMessage(error) }
+  }
+
+  notifyInBackground(sendPendingStockAlertEmails)
+
+  revalidatePath('/issues')
+  revalidatePath('/inventory')
+  return { data, error: null }
+}
+
+export async function getIssueRequisitions(status?: IssueRequisitionStatus) {
+  const supabase = await createClient()
+
+  const { profile, error: authError } = await authorize(supabase)
+  if (!profile) {
+    return { data: null, error: authError }
+  }
+
+  let query = supabase
+    .from('issue_requisitions')
+    .select(ISSUE_REQUISITION_SELECT)
+    .is('deleted_at', null)
+    .order('created_at', { ascending: false })
+
+  // Store managers see requisitions raised by or sent to the stores they are assigned to
+  const storeIds = getAccessibleStoreIds(profile)
+  if (storeIds) {
+    query = query.or(`requesting_store_id.in.(${storeIds.join(',')}),supplying_store_id.in.(${storeIds.join(',')})`)
+  }
+
+  if (status) {
+    query = query.eq('status', status)
+  }
+
+  const { data, error } = await query
+
+  if (error) {
+    return { data: null, error: getErrorMessage(error) }
+  }
+
+  return { data, error: null }
+}
@@ -0,0 +1,143 @@
+'use server'
+
+import { createClient } from '@/lib/supabase/server'
+import { revalidatePath } from 'next/cache'
+import type { CreateIssueReturnInput } from '@/lib/types'
+import { getErrorMessage } from '@/lib/utils/errors'
+import { getAccessibleStoreIds, getStoreAccessError, type StoreAccessStore } from '@/lib/utils/storeAccess'
+import { authorize } from '@/lib/utils/permissions'
+
+const ISSUE_RETURN_SELECT = `
+  *,
+  store:stores(*),
+  product:products(
+    *,
+    category:categories(*)
+  ),
+  issue:issues(id, quantity, issue_date, issued_to_name, returned_quantity)
+`
+
+export async function createIssueReturn(input: CreateIssueReturnInput) {
+  const supabase = await createClient()
+
+  const { user, profile, error: authError } = await authorize(supabase, 'return_issues')
+  if (!user) {
+    return { error: authError }
+  }
+
+  const { data: issue } = await supabase
+    .from('issues')
+    .select('from_store_id, to_store_id, product_id, quantity, returned_quantity, from_store:stores!issues_from_store_id_fkey(id, type)')
+    .eq('id', input.issue_id)
+    .is('deleted_at', null)
+    .single()
+
+  if (!issue) {
+    return { error: 'Issue not found' }
+  }
+
+  if (issue.to_store_id) {
+    return { error: 'Only issues to a person can be returned. Transfers between stores are issued back instead.' }
+  }
+
+  const sourceStore = issue.from_store as unknown as StoreAccessStore & { type: string }
+  if (sourceStore?.type !== 'project') {
+    return { error: 'Returns can only be made to project stores' }
+  }
+
+  const accessError = getStoreAccessError(profile, sourceStore, 'record returns')
+  if (accessError) {
+    return { error: accessError }
+  }
+
+  if (isNaN(input.quantity) || input.quantity <= 0) {
+    return { error: 'Quantity must be greater than 0' }
+  }
+
+  const returnable = Number(issue.quantity) - Number(issue.returned_quantity || 0)
+  if (input.quantity > returnable) {
+    return { error: `Only ${returnable} can still be returned against this issue` }
+  }
+
+  // Store, product and person are copied from the issue by the database
+  const { data, error } = await supabase
+    .from('issue_returns')
+    .insert({
+      issue_id: input.issue_id,
+      store_id: issue.from_store_id,
+      product_id: issue.product_id,
+      quantity: input.quantity,
+      return_date: input.return_date || new Date().toISOString().split('T')[0],
+      notes: input.notes || null,
+      created_by: user.id,
+    })
+    .select(ISSUE_RETURN_SELECT)
+    .single()
+
+  // Note: Inventory is increased automatically via trigger
+
+  if (error) {
+    return { error: getErrorMessage(error) }
+  }
+
+  revalidatePath('/issues')
+  revalidatePath('/inventory')
+  return { data, error: null }
+}
+
+export async function deleteIssueReturn(returnId: string) {
+  const supabase = await createClient()
+
+  const { user, error: authError } = await authorize(supabase, 'edit_issues')
+  if (!user) {
+    return { error: authError }
+  }
+
+  const { error } = await supabase
+    .from('issue_returns')
+    .update({
+      deleted_at: new Date().toISOString(),
+      deleted_by: user.id,
+    })
+    .eq('id', returnId)
+    .is('deleted_at', null)
+
+  if (error) {
+    return { error: getErrorMessage(error) }
+  }
+
+  revalidatePath('/issues')
+  revalidatePath('/inventory')
+  return { error: null }
+}
+
+export async function getIssueReturns() {
+  const supabase = await createClient()
+
+  const { profile, error: authError } = await authorize(supabase)
+  if (!profile) {
+    return { data: null, error: authError }
+  }
+
+  let query = supabase
+    .from('issue_returns')
+    .select(ISSUE_RETURN_SELECT)
+    .is('deleted_at', null)
+    .order('return_date', { ascending: false })
+    .order('created_at', { ascending: false })
+
+  // Central store managers can see every return; project store managers only
+  // those to the stores they are assigned to
+  const storeIds = getAccessibleStoreIds(profile)
+  if (profile.role === 'project_store_manager' && storeIds) {
+    query = query.in('store_id', storeIds)
+  }
+
+  const { data, error } = await query
+
+  if (error) {
+    return { data: null, error: getErrorMessage(error) }
+  }
+
+  return { data, error: null }
+}
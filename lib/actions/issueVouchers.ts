@@ -0,0 +1,177 @@
+'use server'
+
+import { createClient } from '@/lib/supabase/server'
+import { revalidatePath } from 'next/cache'
+import type { CreateIssueVoucherInput, IssueVoucherLineInput } from '@/lib/types'
+import { getErrorMessage } from '@/lib/utils/errors'
+import { authorize } from '@/lib/utils/permissions'
+import { getAccessibleStoreIds } from '@/lib/utils/storeAccess'
+import { notifyInBackground, notifyLargeIssue, sendPendingStockAlertEmails } from '@/lib/email/notify'
+
+const ISSUE_VOUCHER_SELECT = `
+  *,
+  from_store:stores!issue_vouchers_from_store_id_fkey(
+    *,
+    project:projects(*)
+  ),
+  to_store:stores!issue_vouchers_to_store_id_fkey(
+    *,
+    project:projects(*)
+  ),
+  lines:issues(
+    *,
+    product:products(
+      *,
+      category:categories(*)
+    )
+  )
+`
+
+function validateLines(lines: IssueVoucherLineInput[]) {
+  if (!lines || lines.length === 0) {
+    return 'An issue voucher needs at least one product line'
+  }
+
+  for (const line of lines) {
+    if (!line.product_id) {
+      return 'Every line must have a product'
+    }
+    if (isNaN(line.quantity) || line.quantity <= 0) {
+      return 'Line quantities must be greater than 0'
+    }
+  }
+  return null
+}
+
+// Lines voided one at a time stay linked to the voucher
+function withActiveLines<T extends { lines?: Array<{ deleted_at?: string | null }> | null }>(voucher: T) {
+  return { ...voucher, lines: (voucher.lines || []).filter((line) => !line.deleted_at) }
+}
+
+export async function createIssueVoucher(input: CreateIssueVoucherInput) {
+  const supabase = await createClient()
+
+  const { user, error: authError } = await authorize(supabase, 'issue_stock')
+  if (!user) {
+    return { error: authError }
+  }
+
+  const linesError = validateLines(input.lines)
+  if (linesError) {
+    return { error: linesError }
+  }
+
+  // The database function checks store access and stock for every line with
+  // the inventory rows locked, then writes the voucher and its lines together
+  const { data, error } = await supabase.rpc('create_issue_voucher', {
+    p_from_store_id: input.from_store_id,
+    p_to_store_id: input.to_store_id || null,
+    p_issued_to_name: input.issued_to_name || null,
+    p_issue_date: input.issue_date || new Date().toISOString().split('T')[0],
+    p_driver_name: input.driver_name || null,
+    p_driver_phone: input.driver_phone || null,
+    p_vehicle_number: input.vehicle_number || null,
+    p_notes: input.notes || null,
+    p_lines: input.lines.map((line) => ({
+      product_id: line.product_id,
+      quantity: line.quantity,
+      notes: line.notes || null,
+    })),
+  })
+
+  if (error) {
+    return { error: getErrorMessage(error) }
+  }
+
+  notifyInBackground(async () => {
+    await notifyLargeIssue({ voucherId: data.id }, user.id)
+    await sendPendingStockAlertEmails()
+  })
+
+  revalidatePath('/issues')
+  revalidatePath('/inventory')
+  return { data, error: null }
+}
+
+export async function deleteIssueVoucher(voucherId: string) {
+  const supabase = await createClient()
+
+  const { user, error: authError } = await authorize(supabase, 'edit_issues')
+  if (!user) {
+    return { error: authError }
+  }
+
+  // Voiding the header voids every line; stock is returned via trigger
+  const { error } = await supabase
+    .from('issue_vouchers')
+    .update({
+      deleted_at: new Date().toISOString(),
+      deleted_by: user.id,
+    })
+    .eq('id', voucherId)
+    .is('deleted_at', null)
+
+  if (error) {
+    return { error: getErrorMessage(error) }
+  }
+
+  revalidatePath('/issues')
+  revalidatePath('/inventory')
+  return { error: null }
+}
+
+export async function getIssueVoucher(voucherId: string) {
+  const supabase = await createClient()
+
+  const { data: { user } } = await supabase.auth.getUser()
+  if (!user) {
+    return { data: null, error: 'Not authenticated' }
+  }
+
+  // RLS limits project store managers to vouchers for their own store
+  const { data, error } = await supabase
+    .from('issue_vouchers')
+    .select(ISSUE_VOUCHER_SELECT)
+    .eq('id', voucherId)
+    .is('deleted_at', null)
+    .maybeSingle()
+
+  if (error) {
+    return { data: null, error: getErrorMessage(error) }
+  }
+
+  if (!data) {
+    return { data: null, error: 'Issue voucher not found' }
+  }
+
+  return { data: withActiveLines(data), error: null }
+}
+
+export async function getIssueVouchers() {
+  const supabase = await createClient()
+
+  const { profile, error: authError } = await authorize(supabase)
+  if (!profile) {
+    return { data: null, error: authError }
+  }
+
+  let query = supabase
+    .from('issue_vouchers')
+    .select(ISSUE_VOUCHER_SELECT)
+    .is('deleted_at', null)
+    .order('issue_date', { ascending: false })
+    .order('created_at', { ascending: false })
+
+  const storeIds = getAccessibleStoreIds(profile)
+  if (storeIds) {
+    query = query.or(`from_store_id.in.(${storeIds.join(',')}),to_store_id.in.(${storeIds.join(',')})`)
+  }
+
+  const { data, error } = await query
+
+  if (error) {
+    return { data: null, error: getErrorMessage(error) }
+  }
+
+  return { data: (data || []).map(withActiveLines), error: null }
+}
@@ -2,117 +2,150 @@
 
 import { createClient } from '@/lib/supabase/server'
 import { revalidatePath } from 'next/cache'
-import type { CreateIssueInput } from '@/lib/types'
+import type { CreateIssueInput, ReceiveIssueTransferInput, UpdateIssueInput } from '@/lib/types'
 import { getErrorMessage } from '@/lib/utils/errors'
+import { getClosedPeriodError } from '@/lib/utils/accountingPeriods'
+import { authorize } from '@/lib/utils/permissions'
+import { getAccessibleStoreIds } from '@/lib/utils/storeAccess'
+import { notifyInBackground, notifyLargeIssue, sendPendingStockAlertEmails } from '@/lib/email/notify'
 
 export async function createIssue(input: CreateIssueInput) {
   const supabase = await createClient()
 
-  const { data: { user } } = await supabase.auth.getUser()
+  const { user, error: authError } = await authorize(supabase, 'issue_stock')
   if (!user) {
-    return { error: 'Not authenticated' }
+    return { error: authError }
   }
 
-  const { data: profile } = await supabase
-    .from('user_profiles')
-    .select('role, project_id')
-    .eq('id', user.id)
-    .single()
+  if (isNaN(input.quantity) || input.quantity <= 0) {
+    return { error: 'Quantity must be greater than 0' }
+  }
 
-  if (!profile) {
-    return { error: 'User profile not found' }
+  const issueDate = input.issue_date || new Date().toISOString().split('T')[0]
+  const periodError = await getClosedPeriodError(supabase, [issueDate])
+  if (periodError) {
+    return { error: periodError }
   }
 
-  // Check permissions
-  const isAdmin = profile.role === 'admin'
-  const isCentralStoreManager = profile.role === 'central_store_manager'
-  const isProjectStoreManager = profile.role === 'project_store_manager'
+  // The database function checks store access and the destination rules, locks
+  // the source stock row, checks the quantity and writes the issue in one
+  // transaction, so concurrent issues can't both spend the same stock.
+  // Its coded errors are translated by getErrorMessage.
+  const { data, error } = await supabase.rpc('create_issue', {
+    p_from_store_id: input.from_store_id,
+    p_to_store_id: input.to_store_id || null,
+    p_product_id: input.product_id,
+    p_quantity: input.quantity,
+    p_issued_to_name: input.issued_to_name?.toString() || null,
+    p_issue_date: issueDate,
+    p_notes: input.notes || null,
+  })
 
-  // Get the source store to verify permissions
-  const { data: sourceStore } = await supabase
-    .from('stores')
-    .select('type, project_id')
-    .eq('id', input.from_store_id)
+  if (error) {
+    return { error: getErrorMessage(error) }
+  }
+
+  notifyInBackground(async () => {
+    await notifyLargeIssue({ issueId: data.id }, user.id)
+    await sendPendingStockAlertEmails()
+  })
+
+  revalidatePath('/issues')
+  revalidatePath('/inventory')
+  return { data, error: null }
+}
+
+export async function updateIssue(input: UpdateIssueInput) {
+  const supabase = await createClient()
+
+  const { user, error: authError } = await authorize(supabase, 'edit_issues')
+  if (!user) {
+    return { error: authError }
+  }
+
+  const { data: currentIssue } = await supabase
+    .from('issues')
+    .select('from_store_id, to_store_id, product_id, quantity, issue_date, requisition_item_id, returned_quantity')
+    .eq('id', input.id)
     .is('deleted_at', null)
     .single()
 
-  if (!sourceStore) {
-    return { error: 'Source store not found' }
+  if (!currentIssue) {
+    return { error: 'Issue not found' }
   }
 
-  // Verify user has permission to issue from this store
-  if (!isAdmin) {
-    if (sourceStore.type === 'central' && !isCentralStoreManager) {
-      return { error: 'Unauthorized: Only Central Store Managers can issue from central store' }
-    }
-    if (sourceStore.type === 'project') {
-      if (!isProjectStoreManager || profile.project_id !== sourceStore.project_id) {
-        return { error: 'Unauthorized: You can only issue from your assigned project store' }
-      }
+  const quantity = input.quantity ?? Number(currentIssue.quantity)
+  const productId = input.product_id ?? currentIssue.product_id
+
+  if (isNaN(quantity) || quantity <= 0) {
+    return { error: 'Quantity must be greater than 0' }
+  }
+
+  // Notes and the recipient can still be corrected once the period is closed
+  const issueDate = input.issue_date ?? currentIssue.issue_date
+  if (productId !== currentIssue.product_id || quantity !== Number(currentIssue.quantity) || issueDate !== currentIssue.issue_date) {
+    const periodError = await getClosedPeriodError(supabase, [currentIssue.issue_date, issueDate])
+    if (periodError) {
+      return { error: periodError }
     }
   }
 
-  // Check if there's enough inventory
+  if (productId !== currentIssue.product_id && currentIssue.requisition_item_id) {
+    return { error: 'The product on a requisition issue cannot be changed. Void the issue and issue the right product instead.' }
+  }
+
+  const returnedQuantity = Number(currentIssue.returned_quantity || 0)
+  if (returnedQuantity > 0 && productId !== currentIssue.product_id) {
+    return { error: 'The product cannot be changed once stock has been returned against this issue' }
+  }
+  if (quantity < returnedQuantity) {
+    return { error: `Quantity cannot be less than the ${returnedQuantity} already returned` }
+  }
+
+  // Check the source store can cover the corrected quantity; the trigger
+  // re-checks this together with the destination when the update is applied
   const { data: inventory } = await supabase
     .from('inventory_items')
     .select('quantity')
-    .eq('store_id', input.from_store_id)
-    .eq('product_id', input.product_id)
-    .single()
+    .eq('store_id', currentIssue.from_store_id)
+    .eq('product_id', productId)
+    .maybeSingle()
 
-  if (!inventory || inventory.quantity < input.quantity) {
+  const alreadyIssued = productId === currentIssue.product_id ? Number(currentIssue.quantity) : 0
+  if (!inventory || Number(inventory.quantity) + alreadyIssued < quantity) {
     return { error: 'Insufficient inventory' }
   }
 
-  let destinationStore: { type: string; project_id: string | null } | null = null
-
-  if (input.to_store_id) {
-    if (input.to_store_id === input.from_store_id) {
-      return { error: 'Destination store must be different from source store' }
-    }
-
-    const { data: toStore } = await supabase
-      .from('stores')
-      .select('type, project_id')
-      .eq('id', input.to_store_id)
-      .is('deleted_at', null)
+  if (currentIssue.requisition_item_id && quantity > Number(currentIssue.quantity)) {
+    const { data: requisitionItem } = await supabase
+      .from('issue_requisition_items')
+      .select('requested_quantity, approved_quantity, issued_quantity')
+      .eq('id', currentIssue.requisition_item_id)
       .single()
 
-    if (!toStore) {
-      return { error: 'Destination store not found' }
-    }
-
-    if (sourceStore.type === 'central' && toStore.type !== 'project') {
-      return { error: 'Central stores can only issue to project stores' }
-    }
-
-    if (sourceStore.type === 'project' && toStore.type !== 'central') {
-      return { error: 'Project stores can only return items to a central store or issue to individuals' }
+    if (requisitionItem) {
+      const approved = Number(requisitionItem.approved_quantity ?? requisitionItem.requested_quantity)
+      const outstanding = approved - Number(requisitionItem.issued_quantity) + Number(currentIssue.quantity)
+      if (quantity > outstanding) {
+        return { error: `Quantity exceeds the approved quantity on the requisition (${outstanding} available)` }
+      }
     }
-
-    destinationStore = toStore
-  } else if (sourceStore.type === 'central') {
-    return { error: 'Central stores must select a destination store' }
   }
 
-  const issuedToName =
-    !input.to_store_id && sourceStore.type !== 'central'
-      ? input.issued_to_name?.toString().trim() || null
-      : null
+  const updateData: Record<string, unknown> = {
+    product_id: productId,
+    quantity,
+  }
+  if (input.issue_date !== undefined) updateData.issue_date = input.issue_date
+  if (input.notes !== undefined) updateData.notes = input.notes || null
+  if (input.issued_to_name !== undefined && !currentIssue.to_store_id) {
+    updateData.issued_to_name = input.issued_to_name.trim() || null
+  }
 
-  // Create the issue record
   const { data, error } = await supabase
     .from('issues')
-    .insert({
-      from_store_id: input.from_store_id,
-      to_store_id: destinationStore ? input.to_store_id : null,
-      product_id: input.product_id,
-      quantity: input.quantity,
-      issued_to_name: issuedToName,
-      issue_date: input.issue_date || new Date().toISOString().split('T')[0],
-      notes: input.notes || null,
-      created_by: user.id,
-    })
+    .update(updateData)
+    .eq('id', input.id)
     .select(`
       *,
       from_store:stores!issues_from_store_id_fkey(*),
@@ -124,33 +157,102 @@ export async function createIssue(input: CreateIssueInput) {
     `)
     .single()
 
-  // Note: Inventory is automatically updated by trigger
+  // Note: Inventory on both sides is adjusted by trigger
 
   if (error) {
     return { error: getErrorMessage(error) }
   }
 
+  notifyInBackground(sendPendingStockAlertEmails)
+
   revalidatePath('/issues')
   revalidatePath('/inventory')
   return { data, error: null }
 }
 
-export async function getIssues(storeId?: string, productId?: string, startDate?: string, endDate?: string) {
+export async function deleteIssue(issueId: string) {
   const supabase = await createClient()
 
-  const { data: { user } } = await supabase.auth.getUser()
+  const { user, error: authError } = await authorize(supabase, 'edit_issues')
   if (!user) {
-    return { data: null, error: 'Not authenticated' }
+    return { error: authError }
   }
 
-  const { data: profile } = await supabase
-    .from('user_profiles')
-    .select('role, project_id')
-    .eq('id', user.id)
+  const { data: issue } = await supabase
+    .from('issues')
+    .select('issue_date')
+    .eq('id', issueId)
+    .is('deleted_at', null)
     .single()
 
+  if (!issue) {
+    return { error: 'Issue not found' }
+  }
+
+  const periodError = await getClosedPeriodError(supabase, [issue.issue_date])
+  if (periodError) {
+    return { error: periodError }
+  }
+
+  // Soft delete keeps the audit trail; the trigger returns the stock to the
+  // source store and refuses if the destination has already used it
+  const { error } = await supabase
+    .from('issues')
+    .update({
+      deleted_at: new Date().toISOString(),
+      deleted_by: user.id,
+    })
+    .eq('id', issueId)
+    .is('deleted_at', null)
+
+  if (error) {
+    return { error: getErrorMessage(error) }
+  }
+
+  revalidatePath('/issues')
+  revalidatePath('/inventory')
+  return { error: null }
+}
+
+export async function receiveIssueTransfer(input: ReceiveIssueTransferInput) {
+  const supabase = await createClient()
+
+  const { user, error: authError } = await authorize(supabase, 'receive_goods')
+  if (!user) {
+    return { error: authError }
+  }
+
+  const damagedQuantity = input.damaged_quantity ?? 0
+
+  if (isNaN(input.received_quantity) || input.received_quantity < 0 || isNaN(damagedQuantity) || damagedQuantity < 0) {
+    return { error: 'Received and damaged quantities must be 0 or greater' }
+  }
+
+  // The database function checks that the user manages the receiving store and
+  // moves the stock out of transit in the same transaction
+  const { data, error } = await supabase.rpc('receive_issue_transfer', {
+    p_issue_id: input.issue_id,
+    p_received_quantity: input.received_quantity,
+    p_damaged_quantity: damagedQuantity,
+    p_received_date: input.received_date || new Date().toISOString().split('T')[0],
+    p_notes: input.notes || null,
+  })
+
+  if (error) {
+    return { error: getErrorMessage(error) }
+  }
+
+  revalidatePath('/issues')
+  revalidatePath('/inventory')
+  return { data, error: null }
+}
+
+export async function getIssues(storeId?: string, productId?: string, startDate?: string, endDate?: string) {
+  const supabase = await createClient()
+
+  const { profile, error: authError } = await authorize(supabase)
   if (!profile) {
-    return { data: null, error: 'User profile not found' }
+    return { data: null, error: authError }
   }
 
   const isAdmin = profile.role === 'admin'
@@ -179,20 +281,10 @@ export async function getIssues(storeId?: string, productId?: string, startDate?
   // Filter by store if provided
   if (storeId) {
     query = query.or(`from_store_id.eq.${storeId},to_store_id.eq.${storeId}`)
-  } else if (!isAdmin && profile.role === 'project_store_manager' && profile.project_id) {
-    // Project store managers can only see issues for their store
-    const { data: store } = await supabase
-      .from('stores')
-      .select('id')
-      .eq('project_id', profile.project_id)
-      .is('deleted_at', null)
-      .single()
-
-    if (store) {
-      query = query.or(`from_store_id.eq.${store.id},to_store_id.eq.${store.id}`)
-    }
-  } else if (!isAdmin && profile.role === 'central_store_manager') {
-    // Central store managers can see all issues (no filter needed, but they won't see prices)
+  } else if (!isAdmin) {
+    // Store managers can only see issues from or to the stores they are assigned to
+    const storeIds = getAccessibleStoreIds(profile)!.join(',')
+    query = query.or(`from_store_id.in.(${storeIds}),to_store_id.in.(${storeIds})`)
   }
 
   // Filter by product if provided
@@ -217,19 +309,9 @@ export async function getIssues(storeId?: string, productId?: string, startDate?
 export async function getIssueableStores() {
   const supabase = await createClient()
 
-  const { data: { user } } = await supabase.auth.getUser()
-  if (!user) {
-    return { data: null, error: 'Not authenticated' }
-  }
-
-  const { data: profile } = await supabase
-    .from('user_profiles')
-    .select('role, project_id')
-    .eq('id', user.id)
-    .single()
-
+  const { profile, error: authError } = await authorize(supabase)
   if (!profile) {
-    return { data: null, error: 'User profile not found' }
+    return { data: null, error: authError }
   }
 
   const isAdmin = profile.role === 'admin'
@@ -245,16 +327,11 @@ export async function getIssueableStores() {
     `)
     .is('deleted_at', null)
 
-  if (!isAdmin) {
-    if (isCentralStoreManager) {
-      fromStoresQuery = fromStoresQuery.eq('type', 'central')
-    } else if (isProjectStoreManager) {
-      if (profile.project_id) {
-        fromStoresQuery = fromStoresQuery.eq('project_id', profile.project_id)
-      } else {
-        fromStoresQuery = fromStoresQuery.eq('id', '00000000-0000-0000-0000-000000000000') // No project assigned
-      }
-    }
+  // Store managers issue from the stores they are assigned to; destinations
+  // can be any store of the other kind
+  const storeIds = getAccessibleStoreIds(profile)
+  if (storeIds) {
+    fromStoresQuery = fromStoresQuery.in('id', storeIds)
   }
 
   const { data: fromStores, error: fromError } = await fromStoresQuery
@@ -0,0 +1,85 @@
+'use server'
+
+import { createClient } from '@/lib/supabase/server'
+import { revalidatePath } from 'next/cache'
+import type { NotificationEvent } from '@/lib/types'
+import { getErrorMessage } from '@/lib/utils/errors'
+import { authorize, hasPermission, type AuthorizedProfile } from '@/lib/utils/permissions'
+import { NOTIFICATION_EVENT_OPTIONS } from '@/lib/constants/notificationEvents'
+
+// The events a user can be emailed about (see the audiences in lib/email/notify.ts)
+function getSubscribableEvents(profile: AuthorizedProfile): NotificationEvent[] {
+  const isAdmin = profile.role === 'admin'
+  return NOTIFICATION_EVENT_OPTIONS.map((option) => option.value).filter((event) => {
+    switch (event) {
+      case 'low_stock':
+      case 'large_issue':
+        return isAdmin || profile.store_ids.length > 0
+      case 'purchase_edited':
+        return isAdmin
+      case 'user_created':
+        return hasPermission(profile, 'manage_users')
+    }
+  })
+}
+
+export async function getNotificationPreferences() {
+  const supabase = await createClient()
+
+  const { profile, error: authError } = await authorize(supabase)
+  if (!profile) {
+    return { data: null, error: authError }
+  }
+
+  const { data, error } = await supabase
+    .from('notification_preferences')
+    .select('event_type, email_enabled')
+    .eq('user_id', profile.id)
+
+  if (error) {
+    return { data: null, error: getErrorMessage(error) }
+  }
+
+  // Events without a saved preference are on
+  const saved = new Map((data || []).map((row) => [row.event_type as NotificationEvent, row.email_enabled as boolean]))
+  return {
+    data: getSubscribableEvents(profile).map((event) => ({
+      event_type: event,
+      email_enabled: saved.get(event) ?? true,
+    })),
+    error: null,
+  }
+}
+
+export async function updateNotificationPreference(event: NotificationEvent, emailEnabled: boolean) {
+  const supabase = await createClient()
+
+  const { profile, error: authError } = await authorize(supabase)
+  if (!profile) {
+    return { error: authError }
+  }
+
+  if (!getSubscribableEvents(profile).includes(event)) {
+    return { error: 'You are not notified about this event' }
+  }
+
+  const { data, error } = await supabase
+    .from('notification_preferences')
+    .upsert(
+      {
+        user_id: profile.id,
+        event_type: event,
+        email_enabled: emailEnabled,
+      },
+      { onConflict: 'user_id,event_type' }
+    )
+    .select()
+    .single()
+
+  if (error) {
+    return { error: getErrorMessage(error) }
+  }
+
+  revalidatePath('/notifications/preferences')
+  return { data, error: null }
+}
@@ -4,23 +4,14 @@ import { createClient } from '@/lib/supabase/server'
 import { revalidatePath } from 'next/cache'
 import type { CreateProductInput, UpdateProductInput } from '@/lib/types'
 import { getErrorMessage } from '@/lib/utils/errors'
+import { authorize } from '@/lib/utils/permissions'
 
 export async function createProduct(input: CreateProductInput) {
   const supabase = await createClient()
 
-  const { data: { user } } = await supabase.auth.getUser()
+  const { user, error: authError } = await authorize(supabase, 'manage_products')
   if (!user) {
-    return { error: 'Not authenticated' }
-  }
-
-  const { data: profile } = await supabase
-    .from('user_profiles')
-    .select('role')
-    .eq('id', user.id)
-    .single()
-
-  if (!profile || profile.role !== 'admin') {
-    return { error: 'Unauthorized: Admin access required' }
+    return { error: authError }
   }
 
   // Check if a soft-deleted product exists with the same category_id and name
@@ -88,19 +79,9 @@ export async function createProduct(input: CreateProductInput) {
 export async function updateProduct(input: UpdateProductInput) {
   const supabase = await createClient()
 
-  const { data: { user } } = await supabase.auth.getUser()
+  const { user, error: authError } = await authorize(supabase, 'manage_products')
   if (!user) {
-    return { error: 'Not authenticated' }
-  }
-
-  const { data: profile } = await supabase
-    .from('user_profiles')
-    .select('role')
-    .eq('id', user.id)
-    .single()
-
-  if (!profile || profile.role !== 'admin') {
-    return { error: 'Unauthorized: Admin access required' }
+    return { error: authError }
   }
 
   const updateData: any = {}
@@ -131,26 +112,57 @@ export async function updateProduct(input: UpdateProductInput) {
 export async function deleteProduct(productId: string) {
   const supabase = await createClient()
 
-  const { data: { user } } = await supabase.auth.getUser()
+  const { user, error: authError } = await authorize(supabase, 'manage_products')
+  if (!user) {
+    return { error: authError }
+  }
+
+  const { error } = await supabase
+    .from('products')
+    .update({
+      deleted_at: new Date().toISOString(),
+      deleted_by: user.id,
+    })
+    .eq('id', productId)
+
+  if (error) {
+    return { error: getErrorMessage(error) }
+  }
+
+  revalidatePath('/products')
+  return { error: null }
+}
+
+// Products in a deleted category stay in the bin until the category is back
+export async function restoreProduct(productId: string) {
+  const supabase = await createClient()
+
+  const { user, error: authError } = await authorize(supabase, ['restore_deleted', 'manage_products'])
   if (!user) {
-    return { error: 'Not authenticated' }
+    return { error: authError }
   }
 
-  const { data: profile } = await supabase
-    .from('user_profiles')
-    .select('role')
-    .eq('id', user.id)
+  const { data: product } = await supabase
+    .from('products')
+    .select('id, category:categories(name, deleted_at)')
+    .eq('id', productId)
+    .not('deleted_at', 'is', null)
     .single()
 
-  if (!profile || profile.role !== 'admin') {
-    return { error: 'Unauthorized: Admin access required' }
+  if (!product) {
+    return { error: 'Deleted product not found' }
+  }
+
+  const category = product.category as unknown as { name: string; deleted_at: string | null } | null
+  if (category?.deleted_at) {
+    return { error: `Restore the category ${category.name} first` }
   }
 
   const { error } = await supabase
     .from('products')
     .update({
-      deleted_at: new Date().toISOString(),
-      deleted_by: user.id,
+      deleted_at: null,
+      deleted_by: null,
     })
     .eq('id', productId)
 
@@ -159,6 +171,7 @@ export async function deleteProduct(productId: string) {
   }
 
   revalidatePath('/products')
+  revalidatePath('/recycle-bin')
   return { error: null }
 }
 
@@ -222,19 +235,9 @@ export interface ImportProductResult {
 export async function importProductsFromCSV(rows: CSVProductRow[]) {
   const supabase = await createClient()
 
-  const { data: { user } } = await supabase.auth.getUser()
+  const { user, error: authError } = await authorize(supabase, 'manage_products')
   if (!user) {
-    return { error: 'Not authenticated' }
-  }
-
-  const { data: profile } = await supabase
-    .from('user_profiles')
-    .select('role')
-    .eq('id', user.id)
-    .single()
-
-  if (!profile || profile.role !== 'admin') {
-    return { error: 'Unauthorized: Admin access required' }
+    return { error: authError }
   }
 
   // Get all categories to match by name
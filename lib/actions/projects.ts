@@ -4,23 +4,15 @@ import { createClient } from '@/lib/supabase/server'
 import { revalidatePath } from 'next/cache'
 import type { CreateProjectInput, UpdateProjectInput } from '@/lib/types'
 import { getErrorMessage } from '@/lib/utils/errors'
+import { authorize } from '@/lib/utils/permissions'
+import { getAccessibleStoreIds } from '@/lib/utils/storeAccess'
 
 export async function createProject(input: CreateProjectInput) {
   const supabase = await createClient()
 
-  const { data: { user } } = await supabase.auth.getUser()
+  const { user, error: authError } = await authorize(supabase, 'manage_projects')
   if (!user) {
-    return { error: 'Not authenticated' }
-  }
-
-  const { data: profile } = await supabase
-    .from('user_profiles')
-    .select('role')
-    .eq('id', user.id)
-    .single()
-
-  if (!profile || profile.role !== 'admin') {
-    return { error: 'Unauthorized: Admin access required' }
+    return { error: authError }
   }
 
   const { data, error } = await supabase
@@ -59,19 +51,9 @@ export async function createProject(input: CreateProjectInput) {
 export async function updateProject(input: UpdateProjectInput) {
   const supabase = await createClient()
 
-  const { data: { user } } = await supabase.auth.getUser()
+  const { user, error: authError } = await authorize(supabase, 'manage_projects')
   if (!user) {
-    return { error: 'Not authenticated' }
-  }
-
-  const { data: profile } = await supabase
-    .from('user_profiles')
-    .select('role')
-    .eq('id', user.id)
-    .single()
-
-  if (!profile || profile.role !== 'admin') {
-    return { error: 'Unauthorized: Admin access required' }
+    return { error: authError }
   }
 
   const updateData: any = {}
@@ -116,19 +98,9 @@ export async function updateProject(input: UpdateProjectInput) {
 export async function deleteProject(projectId: string) {
   const supabase = await createClient()
 
-  const { data: { user } } = await supabase.auth.getUser()
+  const { user, error: authError } = await authorize(supabase, 'manage_projects')
   if (!user) {
-    return { error: 'Not authenticated' }
-  }
-
-  const { data: profile } = await supabase
-    .from('user_profiles')
-    .select('role')
-    .eq('id', user.id)
-    .single()
-
-  if (!profile || profile.role !== 'admin') {
-    return { error: 'Unauthorized: Admin access required' }
+    return { error: authError }
   }
 
   const { error } = await supabase
@@ -147,22 +119,54 @@ export async function deleteProject(projectId: string) {
   return { error: null }
 }
 
-export async function getProjects() {
+// The project's store comes back with it if it was deleted too
+export async function restoreProject(projectId: string) {
   const supabase = await createClient()
 
-  const { data: { user } } = await supabase.auth.getUser()
+  const { user, error: authError } = await authorize(supabase, ['restore_deleted', 'manage_projects'])
   if (!user) {
-    return { data: null, error: 'Not authenticated' }
+    return { error: authError }
   }
 
-  const { data: profile } = await supabase
-    .from('user_profiles')
-    .select('role, project_id')
-    .eq('id', user.id)
-    .single()
+  const { error } = await supabase
+    .from('projects')
+    .update({
+      deleted_at: null,
+      deleted_by: null,
+    })
+    .eq('id', projectId)
+    .not('deleted_at', 'is', null)
 
+  if (error) {
+    return { error: getErrorMessage(error) }
+  }
+
+  const { error: storeError } = await supabase
+    .from('stores')
+    .update({
+      deleted_at: null,
+      deleted_by: null,
+    })
+    .eq('project_id', projectId)
+    .eq('type', 'project')
+    .not('deleted_at', 'is', null)
+
+  if (storeError) {
+    return { error: getErrorMessage(storeError) }
+  }
+
+  revalidatePath('/projects')
+  revalidatePath('/stores')
+  revalidatePath('/recycle-bin')
+  return { error: null }
+}
+
+export async function getProjects() {
+  const supabase = await createClient()
+
+  const { profile, error: authError } = await authorize(supabase)
   if (!profile) {
-    return { data: null, error: 'User profile not found' }
+    return { data: null, error: authError }
   }
 
   let query = supabase
@@ -171,9 +175,17 @@ export async function getProjects() {
     .is('deleted_at', null)
     .order('created_at', { ascending: false })
 
-  // Project store managers can only see their own project
-  if (profile.role === 'project_store_manager' && profile.project_id) {
-    query = query.eq('id', profile.project_id)
+  // Project store managers can only see the projects of their assigned stores
+  if (profile.role === 'project_store_manager') {
+    const { data: assignedStores } = await supabase
+      .from('stores')
+      .select('project_id')
+      .in('id', getAccessibleStoreIds(profile)!)
+
+    const assignedProjectIds = (assignedStores || [])
+      .map((store) => store.project_id as string | null)
+      .filter((id): id is string => !!id)
+    query = query.in('id', assignedProjectIds.length > 0 ? assignedProjectIds : ['00000000-0000-0000-0000-000000000000'])
   }
 
   const { data, error } = await query
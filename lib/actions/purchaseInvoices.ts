@@ -0,0 +1,276 @@
+'use server'
+
+import { createClient } from '@/lib/supabase/server'
+import { revalidatePath } from 'next/cache'
+import type { CreatePurchaseInvoiceInput, PurchaseInvoiceLineInput } from '@/lib/types'
+import { getErrorMessage } from '@/lib/utils/errors'
+import { getAccessibleStoreIds, getStoreAccessError, type StoreAccessStore } from '@/lib/utils/storeAccess'
+import { getChargesError } from '@/lib/utils/landedCost'
+import { BASE_CURRENCY } from '@/lib/constants/currencies'
+import { authorize } from '@/lib/utils/permissions'
+
+const ATTACHMENT_BUCKET = 'purchase-invoices'
+const MAX_ATTACHMENT_SIZE = 10 * 1024 * 1024
+
+const PURCHASE_INVOICE_SELECT = `
+  *,
+  store:stores(*),
+  supplier:suppliers(*),
+  lines:purchases(
+    *,
+    product:products(
+      *,
+      category:categories(*)
+    )
+  ),
+  attachments:purchase_invoice_attachments(*)
+`
+
+function validateLines(lines: PurchaseInvoiceLineInput[]) {
+  if (!lines || lines.length === 0) {
+    return 'A purchase invoice needs at least one product line'
+  }
+
+  for (const line of lines) {
+    if (!line.product_id) {
+      return 'Every line must have a product'
+    }
+    if (isNaN(line.quantity) || line.quantity <= 0) {
+      return 'Line quantities must be greater than 0'
+    }
+    if (isNaN(line.unit_cost) || line.unit_cost < 0) {
+      return 'Line unit costs must be 0 or greater'
+    }
+  }
+  return null
+}
+
+export async function createPurchaseInvoice(input: CreatePurchaseInvoiceInput) {
+  const supabase = await createClient()
+
+  const { profile, error: authError } = await authorize(supabase, 'create_purchases')
+  if (!profile) {
+    return { error: authError }
+  }
+
+  const { data: store } = await supabase
+    .from('stores')
+    .select('id, type')
+    .eq('id', input.store_id)
+    .is('deleted_at', null)
+    .single()
+
+  if (!store) {
+    return { error: 'Store not found' }
+  }
+
+  const accessError = getStoreAccessError(profile, store as unknown as StoreAccessStore, 'record purchase invoices')
+  if (accessError) {
+    return { error: accessError }
+  }
+
+  const linesError = validateLines(input.lines)
+  if (linesError) {
+    return { error: linesError }
+  }
+
+  const chargesError = getChargesError(input)
+  if (chargesError) {
+    return { error: chargesError }
+  }
+
+  if (input.exchange_rate !== undefined && (isNaN(input.exchange_rate) || input.exchange_rate <= 0)) {
+    return { error: 'Exchange rate must be greater than 0' }
+  }
+
+  // The header and every line are inserted in one transaction, so either the
+  // whole invoice reaches inventory or none of it does
+  const { data, error } = await supabase.rpc('create_purchase_invoice', {
+    p_store_id: input.store_id,
+    p_supplier_id: input.supplier_id || null,
+    p_invoice_number: input.invoice_number || null,
+    p_invoice_date: input.invoice_date || new Date().toISOString().split('T')[0],
+    p_currency: (input.currency || BASE_CURRENCY).toUpperCase(),
+    p_exchange_rate: input.exchange_rate ?? null,
+    p_tax_percent: input.tax_percent ?? 0,
+    p_freight_cost: input.freight_cost ?? 0,
+    p_other_charges: input.other_charges ?? 0,
+    p_charge_allocation: input.charge_allocation || 'value',
+    p_receive_via_grn: input.receive_via_grn ?? false,
+    p_notes: input.notes || null,
+    p_lines: input.lines.map((line) => ({
+      product_id: line.product_id,
+      quantity: line.quantity,
+      unit_cost: line.unit_cost,
+      notes: line.notes || null,
+    })),
+  })
+
+  if (error) {
+    return { error: getErrorMessage(error) }
+  }
+
+  revalidatePath('/purchases')
+  revalidatePath('/inventory')
+  revalidatePath('/reports')
+  return { data, error: null }
+}
+
+export async function deletePurchaseInvoice(invoiceId: string) {
+  const supabase = await createClient()
+
+  const { user, error: authError } = await authorize(supabase, 'delete_purchases')
+  if (!user) {
+    return { error: authError }
+  }
+
+  // Voiding the header voids every line; inventory is reversed via trigger
+  const { error } = await supabase
+    .from('purchase_invoices')
+    .update({
+      deleted_at: new Date().toISOString(),
+      deleted_by: user.id,
+    })
+    .eq('id', invoiceId)
+    .is('deleted_at', null)
+
+  if (error) {
+    return { error: getErrorMessage(error) }
+  }
+
+  revalidatePath('/purchases')
+  revalidatePath('/inventory')
+  revalidatePath('/reports')
+  return { error: null }
+}
+
+export async function uploadPurchaseInvoiceAttachment(formData: FormData) {
+  const supabase = await createClient()
+
+  const { user, error: authError } = await authorize(supabase, 'create_purchases')
+  if (!user) {
+    return { error: authError }
+  }
+
+  const invoiceId = formData.get('purchase_invoice_id')
+  const file = formData.get('file')
+
+  if (typeof invoiceId !== 'string' || !invoiceId) {
+    return { error: 'Purchase invoice is required' }
+  }
+  if (!(file instanceof File) || file.size === 0) {
+    return { error: 'Choose a file to attach' }
+  }
+  if (file.size > MAX_ATTACHMENT_SIZE) {
+    return { error: 'Attachments must be 10 MB or smaller' }
+  }
+
+  // RLS only returns invoices the user may work with
+  const { data: invoice } = await supabase
+    .from('purchase_invoices')
+    .select('id')
+    .eq('id', invoiceId)
+    .is('deleted_at', null)
+    .single()
+
+  if (!invoice) {
+    return { error: 'Purchase invoice not found' }
+  }
+
+  const safeName = file.name.replace(/[^a-zA-Z0-9._-]/g, '_')
+  const filePath = `${invoice.id}/${Date.now()}-${safeName}`
+
+  const { error: uploadError } = await supabase.storage
+    .from(ATTACHMENT_BUCKET)
+    .upload(filePath, file, { contentType: file.type || undefined })
+
+  if (uploadError) {
+    return { error: getErrorMessage(uploadError) }
+  }
+
+  const { data, error } = await supabase
+    .from('purchase_invoice_attachments')
+    .insert({
+      purchase_invoice_id: invoice.id,
+      file_name: file.name,
+      file_path: filePath,
+      content_type: file.type || null,
+      file_size: file.size,
+      uploaded_by: user.id,
+    })
+    .select()
+    .single()
+
+  if (error) {
+    await supabase.storage.from(ATTACHMENT_BUCKET).remove([filePath])
+    return { error: getErrorMessage(error) }
+  }
+
+  revalidatePath('/purchases')
+  return { data, error: null }
+}
+
+export async function getPurchaseInvoiceAttachmentUrl(attachmentId: string) {
+  const supabase = await createClient()
+
+  const { data: { user } } = await supabase.auth.getUser()
+  if (!user) {
+    return { data: null, error: 'Not authenticated' }
+  }
+
+  const { data: attachment } = await supabase
+    .from('purchase_invoice_attachments')
+    .select('file_path')
+    .eq('id', attachmentId)
+    .single()
+
+  if (!attachment) {
+    return { data: null, error: 'Attachment not found' }
+  }
+
+  // Links are short-lived since the bucket is private
+  const { data, error } = await supabase.storage
+    .from(ATTACHMENT_BUCKET)
+    .createSignedUrl(attachment.file_path, 60)
+
+  if (error) {
+    return { data: null, error: getErrorMessage(error) }
+  }
+
+  return { data: data.signedUrl, error: null }
+}
+
+export async function getPurchaseInvoices() {
+  const supabase = await createClient()
+
+  const { profile, error: authError } = await authorize(supabase)
+  if (!profile) {
+    return { data: null, error: authError }
+  }
+
+  let query = supabase
+    .from('purchase_invoices')
+    .select(PURCHASE_INVOICE_SELECT)
+    .is('deleted_at', null)
+    .order('invoice_date', { ascending: false })
+    .order('created_at', { ascending: false })
+
+  const storeIds = getAccessibleStoreIds(profile)
+  if (storeIds) {
+    query = query.in('store_id', storeIds)
+  }
+
+  const { data, error } = await query
+
+  if (error) {
+    return { data: null, error: getErrorMessage(error) }
+  }
+
+  // Lines voided one at a time stay linked to the invoice
+  const invoices = (data || []).map((invoice) => ({
+    ...invoice,
+    lines: (invoice.lines || []).filter((line: { deleted_at: string | null }) => !line.deleted_at),
+  }))
+
+  return { data: invoices, error: null }
+}
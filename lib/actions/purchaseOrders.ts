@@ -0,0 +1,592 @@
+'use server'
+
+import { createClient } from '@/lib/supabase/server'
+import { revalidatePath } from 'next/cache'
+import type {
+  CreatePurchaseOrderInput,
+  PurchaseOrderLineInput,
+  PurchaseOrderStatus,
+  ReceivePurchaseOrderInput,
+  UpdatePurchaseOrderInput,
+} from '@/lib/types'
+import { getErrorMessage } from '@/lib/utils/errors'
+import { getAccessibleStoreIds, getStoreAccessError, type StoreAccessStore } from '@/lib/utils/storeAccess'
+import { getChargesError } from '@/lib/utils/landedCost'
+import { authorize } from '@/lib/utils/permissions'
+
+const PURCHASE_ORDER_SELECT = `
+  *,
+  store:stores(*),
+  items:purchase_order_items(
+    *,
+    product:products(
+      *,
+      category:categories(*)
+    )
+  )
+`
+
+function validateLines(items: PurchaseOrderLineInput[]) {
+  if (!items || items.length === 0) {
+    return 'A purchase order needs at least one product line'
+  }
+
+  const seenProducts = new Set<string>()
+  for (const item of items) {
+    if (!item.product_id) {
+      return 'Every line must have a product'
+    }
+    if (seenProducts.has(item.product_id)) {
+      return 'Each product can only appear once on a purchase order'
+    }
+    seenProducts.add(item.product_id)
+    if (isNaN(item.quantity) || item.quantity <= 0) {
+      return 'Line quantities must be greater than 0'
+    }
+    if (isNaN(item.unit_cost) || item.unit_cost < 0) {
+      return 'Line unit costs must be 0 or greater'
+    }
+  }
+  return null
+}
+
+export async function createPurchaseOrder(input: CreatePurchaseOrderInput) {
+  const supabase = await createClient()
+
+  const { user, profile, error: authError } = await authorize(supabase, 'raise_purchase_orders')
+  if (!user) {
+    return { error: authError }
+  }
+
+  const { data: store } = await supabase
+    .from('stores')
+    .select('id, type')
+    .eq('id', input.store_id)
+    .is('deleted_at', null)
+    .single()
+
+  if (!store) {
+    return { error: 'Store not found' }
+  }
+
+  const accessError = getStoreAccessError(profile, store, 'raise purchase orders')
+  if (accessError) {
+    return { error: accessError }
+  }
+
+  const linesError = validateLines(input.items)
+  if (linesError) {
+    return { error: linesError }
+  }
+
+  const chargesError = getChargesError(input)
+  if (chargesError) {
+    return { error: chargesError }
+  }
+
+  const { data: order, error } = await supabase
+    .from('purchase_orders')
+    .insert({
+      store_id: input.store_id,
+      status: 'draft',
+      order_date: input.order_date || new Date().toISOString().split('T')[0],
+      expected_date: input.expected_date || null,
+      notes: input.notes || null,
+      tax_percent: input.tax_percent ?? 0,
+      freight_cost: input.freight_cost ?? 0,
+      other_charges: input.other_charges ?? 0,
+      charge_allocation: input.charge_allocation || 'value',
+      created_by: user.id,
+    })
+    .select('id')
+    .single()
+
+  if (error || !order) {
+    return { error: error ? getErrorMessage(error) : 'Failed to create purchase order' }
+  }
+
+  const { error: itemsError } = await supabase
+    .from('purchase_order_items')
+    .insert(
+      input.items.map((item) => ({
+        purchase_order_id: order.id,
+        product_id: item.product_id,
+        quantity: item.quantity,
+        unit_cost: item.unit_cost,
+      }))
+    )
+
+  if (itemsError) {
+    // Don't leave an order without lines behind
+    await supabase.from('purchase_orders').delete().eq('id', order.id)
+    return { error: getErrorMessage(itemsError) }
+  }
+
+  const { data, error: fetchError } = await supabase
+    .from('purchase_orders')
+    .select(PURCHASE_ORDER_SELECT)
+    .eq('id', order.id)
+    .single()
+
+  if (fetchError) {
+    return { error: getErrorMessage(fetchError) }
+  }
+
+  revalidatePath('/purchases')
+  return { data, error: null }
+}
+
+export async function updatePurchaseOrder(input: UpdatePurchaseOrderInput) {
+  const supabase = await createClient()
+
+  const { profile, error: authError } = await authorize(supabase, 'raise_purchase_orders')
+  if (!profile) {
+    return { error: authError }
+  }
+
+  const { data: currentOrder } = await supabase
+    .from('purchase_orders')
+    .select('status, store:stores(id, type)')
+    .eq('id', input.id)
+    .is('deleted_at', null)
+    .single()
+
+  if (!currentOrder) {
+    return { error: 'Purchase order not found' }
+  }
+
+  // Only orders that have not been sent for approval can be changed
+  if (!['draft', 'rejected'].includes(currentOrder.status)) {
+    return { error: 'Only draft or rejected purchase orders can be edited' }
+  }
+
+  const accessError = getStoreAccessError(profile, currentOrder.store as unknown as StoreAccessStore, 'raise purchase orders')
+  if (accessError) {
+    return { error: accessError }
+  }
+
+  // Editing a rejected order puts it back into draft so it can be resubmitted
+  const updateData: Record<string, unknown> = {
+    status: 'draft',
+    rejection_reason: null,
+  }
+
+  if (input.store_id !== undefined) {
+    const { data: newStore } = await supabase
+      .from('stores')
+      .select('id, type')
+      .eq('id', input.store_id)
+      .is('deleted_at', null)
+      .single()
+
+    if (!newStore) {
+      return { error: 'Store not found' }
+    }
+
+    const newStoreError = getStoreAccessError(profile, newStore, 'raise purchase orders')
+    if (newStoreError) {
+      return { error: newStoreError }
+    }
+    updateData.store_id = input.store_id
+  }
+  if (input.order_date !== undefined) updateData.order_date = input.order_date
+  if (input.expected_date !== undefined) updateData.expected_date = input.expected_date || null
+  if (input.notes !== undefined) updateData.notes = input.notes
+  if (input.tax_percent !== undefined) updateData.tax_percent = input.tax_percent
+  if (input.freight_cost !== undefined) updateData.freight_cost = input.freight_cost
+  if (input.other_charges !== undefined) updateData.other_charges = input.other_charges
+  if (input.charge_allocation !== undefined) updateData.charge_allocation = input.charge_allocation
+
+  const chargesError = getChargesError(input)
+  if (chargesError) {
+    return { error: chargesError }
+  }
+
+  if (input.items !== undefined) {
+    const linesError = validateLines(input.items)
+    if (linesError) {
+      return { error: linesError }
+    }
+  }
+
+  const { error } = await supabase
+    .from('purchase_orders')
+    .update(updateData)
+    .eq('id', input.id)
+
+  if (error) {
+    return { error: getErrorMessage(error) }
+  }
+
+  if (input.items !== undefined) {
+    // Draft lines have no receipts yet, so they can simply be replaced
+    const { error: deleteError } = await supabase
+      .from('purchase_order_items')
+      .delete()
+      .eq('purchase_order_id', input.id)
+
+    if (deleteError) {
+      return { error: getErrorMessage(deleteError) }
+    }
+
+    const { error: itemsError } = await supabase
+      .from('purchase_order_items')
+      .insert(
+        input.items.map((item) => ({
+          purchase_order_id: input.id,
+          product_id: item.product_id,
+          quantity: item.quantity,
+          unit_cost: item.unit_cost,
+        }))
+      )
+
+    if (itemsError) {
+      return { error: getErrorMessage(itemsError) }
+    }
+  }
+
+  const { data, error: fetchError } = await supabase
+    .from('purchase_orders')
+    .select(PURCHASE_ORDER_SELECT)
+    .eq('id', input.id)
+    .single()
+
+  if (fetchError) {
+    return { error: getErrorMessage(fetchError) }
+  }
+
+  revalidatePath('/purchases')
+  return { data, error: null }
+}
+
+export async function submitPurchaseOrder(purchaseOrderId: string) {
+  const supabase = await createClient()
+
+  const { profile, error: authError } = await authorize(supabase, 'raise_purchase_orders')
+  if (!profile) {
+    return { error: authError }
+  }
+
+  const { data: order } = await supabase
+    .from('purchase_orders')
+    .select('status, store:stores(id, type), items:purchase_order_items(id)')
+    .eq('id', purchaseOrderId)
+    .is('deleted_at', null)
+    .single()
+
+  if (!order) {
+    return { error: 'Purchase order not found' }
+  }
+
+  if (!['draft', 'rejected'].includes(order.status)) {
+    return { error: 'Only draft or rejected purchase orders can be submitted for approval' }
+  }
+
+  const accessError = getStoreAccessError(profile, order.store as unknown as StoreAccessStore, 'raise purchase orders')
+  if (accessError) {
+    return { error: accessError }
+  }
+
+  if (!order.items || order.items.length === 0) {
+    return { error: 'A purchase order needs at least one product line' }
+  }
+
+  const { error } = await supabase
+    .from('purchase_orders')
+    .update({
+      status: 'submitted',
+      submitted_at: new Date().toISOString(),
+      rejection_reason: null,
+    })
+    .eq('id', purchaseOrderId)
+
+  if (error) {
+    return { error: getErrorMessage(error) }
+  }
+
+  revalidatePath('/purchases')
+  return { error: null }
+}
+
+export async function approvePurchaseOrder(purchaseOrderId: string) {
+  const supabase = await createClient()
+
+  const { user, error: authError } = await authorize(supabase, 'approve_purchase_orders')
+  if (!user) {
+    return { error: authError }
+  }
+
+  const { data: order } = await supabase
+    .from('purchase_orders')
+    .select('status')
+    .eq('id', purchaseOrderId)
+    .is('deleted_at', null)
+    .single()
+
+  if (!order) {
+    return { error: 'Purchase order not found' }
+  }
+
+  if (order.status !== 'submitted') {
+    return { error: 'Only submitted purchase orders can be approved' }
+  }
+
+  const { error } = await supabase
+    .from('purchase_orders')
+    .update({
+      status: 'approved',
+      approved_by: user.id,
+      approved_at: new Date().toISOString(),
+    })
+    .eq('id', purchaseOrderId)
+
+  if (error) {
+    return { error: getErrorMessage(error) }
+  }
+
+  revalidatePath('/purchases')
+  return { error: null }
+}
+
+export async function rejectPurchaseOrder(purchaseOrderId: string, reason?: string) {
+  const supabase = await createClient()
+
+  const { user, error: authError } = await authorize(supabase, 'approve_purchase_orders')
+  if (!user) {
+    return { error: authError }
+  }
+
+  const { data: order } = await supabase
+    .from('purchase_orders')
+    .select('status')
+    .eq('id', purchaseOrderId)
+    .is('deleted_at', null)
+    .single()
+
+  if (!order) {
+    return { error: 'Purchase order not found' }
+  }
+
+  if (order.status !== 'submitted') {
+    return { error: 'Only submitted purchase orders can be rejected' }
+  }
+
+  const { error } = await supabase
+    .from('purchase_orders')
+    .update({
+      status: 'rejected',
+      rejection_reason: reason?.trim() || null,
+    })
+    .eq('id', purchaseOrderId)
+
+  if (error) {
+    return { error: getErrorMessage(error) }
+  }
+
+  revalidatePath('/purchases')
+  return { error: null }
+}
+
+export async function receivePurchaseOrder(input: ReceivePurchaseOrderInput) {
+  const supabase = await createClient()
+
+  const { user, profile, error: authError } = await authorize(supabase, 'receive_goods')
+  if (!user) {
+    return { error: authError }
+  }
+
+  const { data: order } = await supabase
+    .from('purchase_orders')
+    .select(`
+      id,
+      po_number,
+      store_id,
+      status,
+      store:stores(id, type),
+      items:purchase_order_items(id, product_id, quantity, unit_cost, received_quantity)
+    `)
+    .eq('id', input.purchase_order_id)
+    .is('deleted_at', null)
+    .single()
+
+  if (!order) {
+    return { error: 'Purchase order not found' }
+  }
+
+  if (!['approved', 'partially_received'].includes(order.status)) {
+    return { error: 'Goods can only be received against approved purchase orders' }
+  }
+
+  const accessError = getStoreAccessError(profile, order.store as unknown as StoreAccessStore, 'receive goods')
+  if (accessError) {
+    return { error: accessError }
+  }
+
+  const lines = (input.lines || []).filter((line) => line.quantity > 0)
+  if (lines.length === 0) {
+    return { error: 'Enter a received quantity for at least one line' }
+  }
+
+  const orderItems = new Map((order.items || []).map((item) => [item.id, item]))
+  const purchaseDate = input.receipt_date || new Date().toISOString().split('T')[0]
+  const notes = [`Received against ${order.po_number}`, input.notes?.trim()].filter(Boolean).join(' - ')
+
+  const purchaseRows = []
+  for (const line of lines) {
+    const item = orderItems.get(line.purchase_order_item_id)
+    if (!item) {
+      return { error: 'Received line does not belong to this purchase order' }
+    }
+
+    const outstanding = Number(item.quantity) - Number(item.received_quantity)
+    if (line.quantity > outstanding) {
+      return { error: `Received quantity exceeds the outstanding quantity (${outstanding}) on the order` }
+    }
+
+    purchaseRows.push({
+      store_id: order.store_id,
+      product_id: item.product_id,
+      quantity: line.quantity,
+      unit_cost: Number(item.unit_cost),
+      total_cost: line.quantity * Number(item.unit_cost),
+      purchase_date: purchaseDate,
+      notes,
+      created_by: user.id,
+      purchase_order_item_id: item.id,
+    })
+  }
+
+  // A single insert keeps the receipt all-or-nothing; the purchase triggers
+  // add the order's tax and charges to the landed cost, move stock and update
+  // received quantities on the order
+  const { data, error } = await supabase
+    .from('purchases')
+    .insert(purchaseRows)
+    .select('*')
+
+  if (error) {
+    return { error: getErrorMessage(error) }
+  }
+
+  revalidatePath('/purchases')
+  revalidatePath('/inventory')
+  return { data, error: null }
+}
+
+export async function closePurchaseOrder(purchaseOrderId: string) {
+  const supabase = await createClient()
+
+  const { user, error: authError } = await authorize(supabase, 'approve_purchase_orders')
+  if (!user) {
+    return { error: authError }
+  }
+
+  const { data: order } = await supabase
+    .from('purchase_orders')
+    .select('status')
+    .eq('id', purchaseOrderId)
+    .is('deleted_at', null)
+    .single()
+
+  if (!order) {
+    return { error: 'Purchase order not found' }
+  }
+
+  // Closing a partially received order cancels whatever is still outstanding
+  if (!['approved', 'partially_received', 'received'].includes(order.status)) {
+    return { error: 'Only approved or received purchase orders can be closed' }
+  }
+
+  const { error } = await supabase
+    .from('purchase_orders')
+    .update({
+      status: 'closed',
+      closed_at: new Date().toISOString(),
+    })
+    .eq('id', purchaseOrderId)
+
+  if (error) {
+    return { error: getErrorMessage(error) }
+  }
+
+  revalidatePath('/purchases')
+  return { error: null }
+}
+
+export async function deletePurchaseOrder(purchaseOrderId: string) {
+  const supabase = await createClient()
+
+  const { user, profile, error: authError } = await authorize(supabase, 'raise_purchase_orders')
+  if (!user) {
+    return { error: authError }
+  }
+
+  const { data: order } = await supabase
+    .from('purchase_orders')
+    .select('status, store:stores(id, type)')
+    .eq('id', purchaseOrderId)
+    .is('deleted_at', null)
+    .single()
+
+  if (!order) {
+    return { error: 'Purchase order not found' }
+  }
+
+  if (!['draft', 'submitted', 'rejected'].includes(order.status)) {
+    return { error: 'Approved purchase orders cannot be deleted. Close them instead.' }
+  }
+
+  const accessError = getStoreAccessError(profile, order.store as unknown as StoreAccessStore, 'raise purchase orders')
+  if (accessError) {
+    return { error: accessError }
+  }
+
+  const { error } = await supabase
+    .from('purchase_orders')
+    .update({
+      deleted_at: new Date().toISOString(),
+      deleted_by: user.id,
+    })
+    .eq('id', purchaseOrderId)
+
+  if (error) {
+    return { error: getErrorMessage(error) }
+  }
+
+  revalidatePath('/purchases')
+  return { error: null }
+}
+
+export async function getPurchaseOrders(status?: PurchaseOrderStatus) {
+  const supabase = await createClient()
+
+  const { profile, error: authError } = await authorize(supabase)
+  if (!profile) {
+    return { data: null, error: authError }
+  }
+
+  let query = supabase
+    .from('purchase_orders')
+    .select(PURCHASE_ORDER_SELECT)
+    .is('deleted_at', null)
+    .order('order_date', { ascending: false })
+    .order('created_at', { ascending: false })
+
+  // Store managers only see orders for the stores they are assigned to
+  const storeIds = getAccessibleStoreIds(profile)
+  if (storeIds) {
+    query = query.in('store_id', storeIds)
+  }
+
+  if (status) {
+    query = query.eq('status', status)
+  }
+
+  const { data, error } = await query
+
+  if (error) {
+    return { data: null, error: getErrorMessage(error) }
+  }
+
+  return { data, error: null }
+}
@@ -0,0 +1,152 @@
+'use server'
+
+import { createClient } from '@/lib/supabase/server'
+import { revalidatePath } from 'next/cache'
+import type { CreatePurchaseReturnInput } from '@/lib/types'
+import { getErrorMessage } from '@/lib/utils/errors'
+import { getAccessibleStoreIds, getStoreAccessError, type StoreAccessStore } from '@/lib/utils/storeAccess'
+import { authorize } from '@/lib/utils/permissions'
+import { notifyInBackground, sendPendingStockAlertEmails } from '@/lib/email/notify'
+
+const PURCHASE_RETURN_SELECT = `
+  *,
+  store:stores(*),
+  product:products(
+    *,
+    category:categories(*)
+  ),
+  supplier:suppliers(*),
+  purchase:purchases(id, quantity, unit_cost, purchase_date, returned_quantity)
+`
+
+export async function createPurchaseReturn(input: CreatePurchaseReturnInput) {
+  const supabase = await createClient()
+
+  const { user, profile, error: authError } = await authorize(supabase, 'return_purchases')
+  if (!user) {
+    return { error: authError }
+  }
+
+  const { data: purchase } = await supabase
+    .from('purchases')
+    .select('id, store_id, product_id, quantity, returned_quantity, receive_via_grn, store:stores(id, type)')
+    .eq('id', input.purchase_id)
+    .is('deleted_at', null)
+    .single()
+
+  if (!purchase) {
+    return { error: 'Purchase not found' }
+  }
+
+  const accessError = getStoreAccessError(profile, purchase.store as unknown as StoreAccessStore, 'return purchases')
+  if (accessError) {
+    return { error: accessError }
+  }
+
+  if (isNaN(input.quantity) || input.quantity <= 0) {
+    return { error: 'Quantity must be greater than 0' }
+  }
+
+  // GRN purchases can only send back what was actually delivered
+  let receivedQuantity = Number(purchase.quantity)
+  if (purchase.receive_via_grn) {
+    const { data: postedNotes } = await supabase
+      .from('goods_received_notes')
+      .select('quantity')
+      .eq('purchase_id', purchase.id)
+      .eq('status', 'posted')
+      .is('deleted_at', null)
+
+    receivedQuantity = (postedNotes || []).reduce((sum, note) => sum + Number(note.quantity), 0)
+  }
+
+  const returnable = receivedQuantity - Number(purchase.returned_quantity || 0)
+  if (input.quantity > returnable) {
+    return { error: `Only ${returnable} can still be returned against this purchase` }
+  }
+
+  // Store, product, supplier and unit cost are copied from the purchase by the database
+  const { data, error } = await supabase
+    .from('purchase_returns')
+    .insert({
+      purchase_id: input.purchase_id,
+      store_id: purchase.store_id,
+      product_id: purchase.product_id,
+      quantity: input.quantity,
+      return_date: input.return_date || new Date().toISOString().split('T')[0],
+      reason: input.reason || null,
+      notes: input.notes || null,
+      created_by: user.id,
+    })
+    .select(PURCHASE_RETURN_SELECT)
+    .single()
+
+  // Note: Inventory is reduced automatically via trigger
+
+  if (error) {
+    return { error: getErrorMessage(error) }
+  }
+
+  notifyInBackground(sendPendingStockAlertEmails)
+
+  revalidatePath('/purchases')
+  revalidatePath('/inventory')
+  revalidatePath('/reports')
+  return { data, error: null }
+}
+
+export async function deletePurchaseReturn(returnId: string) {
+  const supabase = await createClient()
+
+  const { user, error: authError } = await authorize(supabase, 'delete_purchases')
+  if (!user) {
+    return { error: authError }
+  }
+
+  const { error } = await supabase
+    .from('purchase_returns')
+    .update({
+      deleted_at: new Date().toISOString(),
+      deleted_by: user.id,
+    })
+    .eq('id', returnId)
+    .is('deleted_at', null)
+
+  if (error) {
+    return { error: getErrorMessage(error) }
+  }
+
+  revalidatePath('/purchases')
+  revalidatePath('/inventory')
+  revalidatePath('/reports')
+  return { error: null }
+}
+
+export async function getPurchaseReturns() {
+  const supabase = await createClient()
+
+  const { profile, error: authError } = await authorize(supabase)
+  if (!profile) {
+    return { data: null, error: authError }
+  }
+
+  let query = supabase
+    .from('purchase_returns')
+    .select(PURCHASE_RETURN_SELECT)
+    .is('deleted_at', null)
+    .order('return_date', { ascending: false })
+    .order('created_at', { ascending: false })
+
+  const storeIds = getAccessibleStoreIds(profile)
+  if (storeIds) {
+    query = query.in('store_id', storeIds)
+  }
+
+  const { data, error } = await query
+
+  if (error) {
+    return { data: null, error: getErrorMessage(error) }
+  }
+
+  return { data, error: null }
+}
@@ -4,30 +4,104 @@ import { createClient } from '@/lib/supabase/server'
 import { revalidatePath } from 'next/cache'
 import type { CreatePurchaseInput, UpdatePurchaseInput } from '@/lib/types'
 import { getErrorMessage } from '@/lib/utils/errors'
+import { BASE_CURRENCY } from '@/lib/constants/currencies'
+import { getChargesError, getLandedUnitCost } from '@/lib/utils/landedCost'
+import { getClosedPeriodError } from '@/lib/utils/accountingPeriods'
+import { authorize } from '@/lib/utils/permissions'
+import { getAccessibleStoreIds, getStoreAccessError } from '@/lib/utils/storeAccess'
+import { notifyInBackground, notifyPurchaseEdited, sendPendingStockAlertEmails } from '@/lib/email/notify'
+
+type SupabaseClient = Awaited<ReturnType<typeof createClient>>
+
+// Foreign purchases without an explicit rate use the latest one recorded on
+// or before the purchase date
+async function resolveExchangeRate(supabase: SupabaseClient, currency: string, purchaseDate: string, rate?: number | null) {
+  if (currency === BASE_CURRENCY) {
+    return { rate: 1, error: null }
+  }
 
-export async function createPurchase(input: CreatePurchaseInput) {
-  const supabase = await createClient()
+  if (rate === undefined || rate === null) {
+    const { data } = await supabase.rpc('get_exchange_rate', {
+      p_currency: currency,
+      p_date: purchaseDate,
+    })
 
-  const { data: { user } } = await supabase.auth.getUser()
-  if (!user) {
-    return { error: 'Not authenticated' }
+    if (!data) {
+      return { rate: null, error: `No exchange rate recorded for ${currency} on or before ${purchaseDate}` }
+    }
+    return { rate: Number(data), error: null }
   }
 
-  // Admins, central store managers, and project store managers can create purchases
-  const { data: profile } = await supabase
-    .from('user_profiles')
-    .select('role, project_id')
-    .eq('id', user.id)
-    .single()
+  if (isNaN(rate) || rate <= 0) {
+    return { rate: null, error: 'Exchange rate must be greater than 0' }
+  }
 
-  if (!profile || !['admin', 'central_store_manager', 'project_store_manager'].includes(profile.role)) {
-    return { error: 'Unauthorized: Admin, Central Store Manager, or Project Store Manager access required' }
+  return { rate, error: null }
+}
+
+// Numeric columns come back as strings, so compare loosely
+function isSameValue(a: unknown, b: unknown) {
+  return String(a ?? '') === String(b ?? '') || (a !== null && b !== null && Number(a) === Number(b))
+}
+
+// Columns that change stock or its cost, and so are locked in a closed period
+const PERIOD_LOCKED_PURCHASE_FIELDS = [
+  'store_id',
+  'product_id',
+  'quantity',
+  'purchase_date',
+  'currency',
+  'exchange_rate',
+  'original_unit_cost',
+  'unit_cost',
+  'tax_percent',
+  'freight_cost',
+  'other_charges',
+] as const
+
+// What admins are told changed when someone else edits a purchase
+const EMAILED_PURCHASE_FIELDS = {
+  store_id: 'Store',
+  product_id: 'Product',
+  supplier_id: 'Supplier',
+  quantity: 'Quantity',
+  purchase_date: 'Purchase date',
+  currency: 'Currency',
+  original_unit_cost: 'Unit cost',
+  tax_percent: 'Tax %',
+  freight_cost: 'Freight',
+  other_charges: 'Other charges',
+  notes: 'Notes',
+} as const
+
+function describePurchaseChanges(before: Record<string, unknown>, after: Record<string, unknown>) {
+  const names: Record<string, unknown> = {
+    store_id: (after.store as { name?: string } | null)?.name,
+    product_id: (after.product as { name?: string } | null)?.name,
+    supplier_id: (after.supplier as { name?: string } | null)?.name ?? 'none',
+  }
+
+  return Object.entries(EMAILED_PURCHASE_FIELDS)
+    .filter(([field]) => !isSameValue(before[field], after[field]))
+    .map(([field, label]) =>
+      field in names
+        ? `${label} changed to ${names[field]}`
+        : `${label}: ${before[field] ?? '-'} → ${after[field] ?? '-'}`
+    )
+}
+
+export async function createPurchase(input: CreatePurchaseInput) {
+  const supabase = await createClient()
+
+  const { user, profile, error: authError } = await authorize(supabase, 'create_purchases')
+  if (!user) {
+    return { error: authError }
   }
 
   // Verify store exists
   const { data: store } = await supabase
     .from('stores')
-    .select('type, project_id')
+    .select('id')
     .eq('id', input.store_id)
     .single()
 
@@ -35,34 +109,57 @@ export async function createPurchase(input: CreatePurchaseInput) {
     return { error: 'Store not found' }
   }
 
-  // Non-admins can only create purchases for their own store
-  if (profile.role !== 'admin') {
-    if (profile.role === 'central_store_manager') {
-      // Central store managers can only create purchases for central stores
-      if (store.type !== 'central') {
-        return { error: 'Central store managers can only create purchases for central stores' }
-      }
-    } else if (profile.role === 'project_store_manager') {
-      // Project store managers can only create purchases for their project store
-      if (store.type !== 'project' || store.project_id !== profile.project_id) {
-        return { error: 'Project store managers can only create purchases for their own project store' }
-      }
-    }
+  const accessError = getStoreAccessError(profile, store, 'create purchases')
+  if (accessError) {
+    return { error: accessError }
   }
 
-  const total_cost = input.quantity * input.unit_cost
+  const purchase_date = input.purchase_date || new Date().toISOString().split('T')[0]
+  const periodError = await getClosedPeriodError(supabase, [purchase_date])
+  if (periodError) {
+    return { error: periodError }
+  }
+
+  const currency = (input.currency || BASE_CURRENCY).toUpperCase()
+  const { rate: exchange_rate, error: rateError } = await resolveExchangeRate(supabase, currency, purchase_date, input.exchange_rate)
+  if (rateError || exchange_rate === null) {
+    return { error: rateError }
+  }
+
+  const charges = {
+    tax_percent: input.tax_percent ?? 0,
+    freight_cost: input.freight_cost ?? 0,
+    other_charges: input.other_charges ?? 0,
+  }
+  const chargesError = getChargesError(charges)
+  if (chargesError) {
+    return { error: chargesError }
+  }
+
+  // Costs are stored in PKR; the invoiced price is kept alongside. The total
+  // includes tax and charges, as inventory is valued at the landed cost.
+  const unit_cost = Math.round(input.unit_cost * exchange_rate * 100) / 100
+  const landed_unit_cost = getLandedUnitCost(unit_cost, input.quantity, charges)
+  const total_cost = input.quantity * landed_unit_cost
 
   const { data, error } = await supabase
     .from('purchases')
     .insert({
       store_id: input.store_id,
       product_id: input.product_id,
+      supplier_id: input.supplier_id || null,
       quantity: input.quantity,
-      unit_cost: input.unit_cost,
+      unit_cost,
       total_cost: total_cost,
-      purchase_date: input.purchase_date || new Date().toISOString().split('T')[0],
+      currency,
+      exchange_rate,
+      original_unit_cost: input.unit_cost,
+      ...charges,
+      landed_unit_cost,
+      purchase_date,
       notes: input.notes || null,
       created_by: user.id,
+      receive_via_grn: input.receive_via_grn ?? false,
     })
     .select(`
       *,
@@ -70,7 +167,8 @@ export async function createPurchase(input: CreatePurchaseInput) {
       product:products(
         *,
         category:categories(*)
-      )
+      ),
+      supplier:suppliers(*)
     `)
     .single()
 
@@ -86,26 +184,15 @@ export async function createPurchase(input: CreatePurchaseInput) {
 export async function updatePurchase(input: UpdatePurchaseInput) {
   const supabase = await createClient()
 
-  const { data: { user } } = await supabase.auth.getUser()
-  if (!user) {
-    return { error: 'Not authenticated' }
-  }
-
-  // Admins, central store managers, and project store managers can update purchases
-  const { data: profile } = await supabase
-    .from('user_profiles')
-    .select('role, project_id')
-    .eq('id', user.id)
-    .single()
-
-  if (!profile || !['admin', 'central_store_manager', 'project_store_manager'].includes(profile.role)) {
-    return { error: 'Unauthorized: Admin, Central Store Manager, or Project Store Manager access required' }
+  const { profile, error: authError } = await authorize(supabase, 'edit_purchases')
+  if (!profile) {
+    return { error: authError }
   }
 
   // Get current purchase to calculate new total cost and verify ownership
   const { data: currentPurchase } = await supabase
     .from('purchases')
-    .select('quantity, unit_cost, store_id, store:stores(type, project_id)')
+    .select('quantity, unit_cost, currency, exchange_rate, original_unit_cost, tax_percent, freight_cost, other_charges, purchase_date, store_id, product_id, supplier_id, notes, receive_via_grn')
     .eq('id', input.id)
     .single()
 
@@ -113,32 +200,78 @@ export async function updatePurchase(input: UpdatePurchaseInput) {
     return { error: 'Purchase not found' }
   }
 
-  // Non-admins can only update purchases for their own store
-  if (profile.role !== 'admin') {
-    const currentStore = currentPurchase.store as any
-    if (profile.role === 'central_store_manager') {
-      if (currentStore.type !== 'central') {
-        return { error: 'Central store managers can only update purchases for central stores' }
-      }
-    } else if (profile.role === 'project_store_manager') {
-      if (currentStore.type !== 'project' || currentStore.project_id !== profile.project_id) {
-        return { error: 'Project store managers can only update purchases for their own project store' }
-      }
+  const accessError = getStoreAccessError(profile, { id: currentPurchase.store_id }, 'update purchases')
+  if (accessError) {
+    return { error: accessError }
+  }
+
+  // Purchases received through GRNs can't drop below what has been delivered
+  // or move to another store/product once deliveries have been recorded
+  if (currentPurchase.receive_via_grn) {
+    const { data: receivedNotes } = await supabase
+      .from('goods_received_notes')
+      .select('quantity')
+      .eq('purchase_id', input.id)
+      .is('deleted_at', null)
+
+    const notes = receivedNotes || []
+    const recordedQuantity = notes.reduce((sum, note) => sum + Number(note.quantity), 0)
+
+    if (input.quantity !== undefined && input.quantity < recordedQuantity) {
+      return { error: `Quantity cannot be less than the ${recordedQuantity} already recorded on goods received notes` }
+    }
+    if (
+      notes.length > 0 &&
+      ((input.store_id !== undefined && input.store_id !== currentPurchase.store_id) ||
+        (input.product_id !== undefined && input.product_id !== currentPurchase.product_id))
+    ) {
+      return { error: 'Store and product cannot be changed once deliveries have been recorded against this purchase' }
     }
   }
 
+  // A new currency, or a cleared rate, picks up the recorded rate again
+  const currency = (input.currency || currentPurchase.currency || BASE_CURRENCY).toUpperCase()
+  const keepsRate = currency === currentPurchase.currency && input.exchange_rate === undefined
+  const { rate: exchange_rate, error: rateError } = await resolveExchangeRate(
+    supabase,
+    currency,
+    input.purchase_date ?? currentPurchase.purchase_date,
+    keepsRate ? Number(currentPurchase.exchange_rate) : input.exchange_rate
+  )
+  if (rateError || exchange_rate === null) {
+    return { error: rateError }
+  }
+
+  const charges = {
+    tax_percent: input.tax_percent ?? Number(currentPurchase.tax_percent ?? 0),
+    freight_cost: input.freight_cost ?? Number(currentPurchase.freight_cost ?? 0),
+    other_charges: input.other_charges ?? Number(currentPurchase.other_charges ?? 0),
+  }
+  const chargesError = getChargesError(charges)
+  if (chargesError) {
+    return { error: chargesError }
+  }
+
   const quantity = input.quantity ?? currentPurchase.quantity
-  const unit_cost = input.unit_cost ?? currentPurchase.unit_cost
-  const total_cost = quantity * unit_cost
+  const original_unit_cost = input.unit_cost ?? currentPurchase.original_unit_cost ?? currentPurchase.unit_cost
+  const unit_cost = Math.round(Number(original_unit_cost) * exchange_rate * 100) / 100
+  const landed_unit_cost = getLandedUnitCost(unit_cost, Number(quantity), charges)
+  const total_cost = quantity * landed_unit_cost
 
   const updateData: any = {
+    unit_cost,
+    landed_unit_cost,
     total_cost,
+    currency,
+    exchange_rate,
+    original_unit_cost,
+    ...charges,
   }
   if (input.store_id !== undefined) {
     // Verify new store exists and user has permission
     const { data: newStore } = await supabase
       .from('stores')
-      .select('type, project_id')
+      .select('id')
       .eq('id', input.store_id)
       .single()
     
@@ -146,26 +279,29 @@ export async function updatePurchase(input: UpdatePurchaseInput) {
       return { error: 'Store not found' }
     }
 
-    // Non-admins can only change to their own store
-    if (profile.role !== 'admin') {
-      if (profile.role === 'central_store_manager') {
-        if (newStore.type !== 'central') {
-          return { error: 'Central store managers can only update purchases for central stores' }
-        }
-      } else if (profile.role === 'project_store_manager') {
-        if (newStore.type !== 'project' || newStore.project_id !== profile.project_id) {
-          return { error: 'Project store managers can only update purchases for their own project store' }
-        }
-      }
+    const newStoreError = getStoreAccessError(profile, newStore, 'update purchases')
+    if (newStoreError) {
+      return { error: newStoreError }
     }
     updateData.store_id = input.store_id
   }
   if (input.product_id !== undefined) updateData.product_id = input.product_id
+  if (input.supplier_id !== undefined) updateData.supplier_id = input.supplier_id || null
   if (input.quantity !== undefined) updateData.quantity = input.quantity
-  if (input.unit_cost !== undefined) updateData.unit_cost = input.unit_cost
   if (input.purchase_date !== undefined) updateData.purchase_date = input.purchase_date
   if (input.notes !== undefined) updateData.notes = input.notes
 
+  // Notes and the supplier can still be corrected once the period is closed
+  const changesStock = PERIOD_LOCKED_PURCHASE_FIELDS.some(
+    (field) => field in updateData && !isSameValue(updateData[field], currentPurchase[field])
+  )
+  if (changesStock) {
+    const periodError = await getClosedPeriodError(supabase, [currentPurchase.purchase_date, updateData.purchase_date])
+    if (periodError) {
+      return { error: periodError }
+    }
+  }
+
   const { data, error } = await supabase
     .from('purchases')
     .update(updateData)
@@ -176,7 +312,8 @@ export async function updatePurchase(input: UpdatePurchaseInput) {
       product:products(
         *,
         category:categories(*)
-      )
+      ),
+      supplier:suppliers(*)
     `)
     .single()
 
@@ -184,6 +321,20 @@ export async function updatePurchase(input: UpdatePurchaseInput) {
     return { error: getErrorMessage(error) }
   }
 
+  if (profile.role !== 'admin') {
+    const changes = describePurchaseChanges(currentPurchase, data)
+    notifyInBackground(() =>
+      notifyPurchaseEdited({
+        actorId: profile.id,
+        productName: data.product?.name || 'a product',
+        storeName: data.store?.name || 'a store',
+        changes,
+      })
+    )
+  }
+  // Lowering the quantity can bring the store down to its reorder point
+  notifyInBackground(sendPendingStockAlertEmails)
+
   revalidatePath('/purchases')
   revalidatePath('/inventory')
   return { data, error: null }
@@ -192,20 +343,24 @@ export async function updatePurchase(input: UpdatePurchaseInput) {
 export async function deletePurchase(purchaseId: string) {
   const supabase = await createClient()
 
-  const { data: { user } } = await supabase.auth.getUser()
+  const { user, error: authError } = await authorize(supabase, 'delete_purchases')
   if (!user) {
-    return { error: 'Not authenticated' }
+    return { error: authError }
   }
 
-  // Only admins can delete purchases
-  const { data: profile } = await supabase
-    .from('user_profiles')
-    .select('role')
-    .eq('id', user.id)
+  const { data: purchase } = await supabase
+    .from('purchases')
+    .select('purchase_date')
+    .eq('id', purchaseId)
     .single()
 
-  if (!profile || profile.role !== 'admin') {
-    return { error: 'Unauthorized: Admin access required' }
+  if (!purchase) {
+    return { error: 'Purchase not found' }
+  }
+
+  const periodError = await getClosedPeriodError(supabase, [purchase.purchase_date])
+  if (periodError) {
+    return { error: periodError }
   }
 
   // Note: The trigger will still reverse the inventory impact when we soft delete
@@ -227,12 +382,36 @@ export async function deletePurchase(purchaseId: string) {
   // Or we can keep hard delete for purchases to maintain trigger behavior
   // For now keeping soft delete for audit trail
 
+  notifyInBackground(sendPendingStockAlertEmails)
+
   revalidatePath('/purchases')
   revalidatePath('/inventory')
   return { error: null }
 }
 
-export async function getPurchases(productId?: string, storeId?: string, startDate?: string, endDate?: string) {
+// restore_purchase re-checks the store, product, supplier and order line and
+// its triggers put the stock and cost layer back
+export async function restorePurchase(purchaseId: string) {
+  const supabase = await createClient()
+
+  const { user, error: authError } = await authorize(supabase, ['restore_deleted', 'delete_purchases'])
+  if (!user) {
+    return { error: authError }
+  }
+
+  const { error } = await supabase.rpc('restore_purchase', { p_purchase_id: purchaseId })
+
+  if (error) {
+    return { error: getErrorMessage(error) }
+  }
+
+  revalidatePath('/purchases')
+  revalidatePath('/inventory')
+  revalidatePath('/recycle-bin')
+  return { error: null }
+}
+
+export async function getPurchases(productId?: string, storeId?: string, startDate?: string, endDate?: string, supplierId?: string) {
   const supabase = await createClient()
 
   const { data: { user } } = await supabase.auth.getUser()
@@ -248,7 +427,8 @@ export async function getPurchases(productId?: string, storeId?: string, startDa
       product:products(
         *,
         category:categories(*)
-      )
+      ),
+      supplier:suppliers(*)
     `)
     .is('deleted_at', null)
     .order('purchase_date', { ascending: false })
@@ -262,6 +442,10 @@ export async function getPurchases(productId?: string, storeId?: string, startDa
     query = query.eq('store_id', storeId)
   }
 
+  if (supplierId) {
+    query = query.eq('supplier_id', supplierId)
+  }
+
   if (startDate) {
     query = query.gte('purchase_date', startDate)
   }
@@ -278,17 +462,11 @@ export async function getPurchases(productId?: string, storeId?: string, startDa
 export async function getStores() {
   const supabase = await createClient()
 
-  const { data: { user } } = await supabase.auth.getUser()
-  if (!user) {
-    return { data: null, error: 'Not authenticated' }
+  const { profile, error: authError } = await authorize(supabase)
+  if (!profile) {
+    return { data: null, error: authError }
   }
 
-  const { data: profile } = await supabase
-    .from('user_profiles')
-    .select('role, project_id')
-    .eq('id', user.id)
-    .single()
-
   let query = supabase
     .from('stores')
     .select(`
@@ -299,28 +477,11 @@ export async function getStores() {
     .order('type', { ascending: true })
     .order('name', { ascending: true })
 
-  // Filter stores based on user role
-  if (profile?.role === 'project_store_manager' && profile.project_id) {
-    // Project store managers can only see their own project store
-    const { data: projectStore } = await supabase
-      .from('stores')
-      .select('id')
-      .eq('project_id', profile.project_id)
-      .eq('type', 'project')
-      .is('deleted_at', null)
-      .single()
-    
-    if (projectStore) {
-      query = query.eq('id', projectStore.id)
-    } else {
-      // No store found, return empty result
-      query = query.eq('id', '00000000-0000-0000-0000-000000000000') // Non-existent ID
-    }
-  } else if (profile?.role === 'central_store_manager') {
-    // Central store managers can only see central stores
-    query = query.eq('type', 'central')
+  // Store managers only see the stores they are assigned to; admins see all
+  const storeIds = getAccessibleStoreIds(profile)
+  if (storeIds) {
+    query = query.in('id', storeIds)
   }
-  // Admins can see all stores
 
   const { data, error } = await query
 
@@ -0,0 +1,105 @@
+'use server'
+
+import { createClient } from '@/lib/supabase/server'
+import type { DeletedItem } from '@/lib/types'
+import { getErrorMessage } from '@/lib/utils/errors'
+import { authorize } from '@/lib/utils/permissions'
+
+type DeletedRow = { id: string; deleted_at: string; deleted_by: string | null }
+
+// Embedded to-one relations come back typed as arrays
+type Related = { name: string; unit?: string } | null
+const related = (relation: unknown) => relation as Related
+
+export async function getDeletedItems() {
+  const supabase = await createClient()
+
+  const { user, error: authError } = await authorize(supabase, 'restore_deleted')
+  if (!user) {
+    return { data: null, error: authError }
+  }
+
+  const [categories, products, suppliers, projects, stores, users, purchases] = await Promise.all([
+    supabase
+      .from('categories')
+      .select('id, name, description, deleted_at, deleted_by')
+      .not('deleted_at', 'is', null),
+    supabase
+      .from('products')
+      .select('id, name, unit, deleted_at, deleted_by, category:categories(name)')
+      .not('deleted_at', 'is', null),
+    supabase
+      .from('suppliers')
+      .select('id, name, contact_person, deleted_at, deleted_by')
+      .not('deleted_at', 'is', null),
+    supabase
+      .from('projects')
+      .select('id, name, location, deleted_at, deleted_by')
+      .not('deleted_at', 'is', null),
+    supabase
+      .from('stores')
+      .select('id, name, type, deleted_at, deleted_by, project:projects(name)')
+      .not('deleted_at', 'is', null),
+    supabase
+      .from('user_profiles')
+      .select('id, email, full_name, role, deleted_at, deleted_by')
+      .not('deleted_at', 'is', null),
+    supabase
+      .from('purchases')
+      .select('id, quantity, purchase_date, deleted_at, deleted_by, product:products(name, unit), store:stores(name)')
+      .not('deleted_at', 'is', null),
+  ])
+
+  const failed = [categories, products, suppliers, projects, stores, users, purchases].find((result) => result.error)
+  if (failed?.error) {
+    return { data: null, error: getErrorMessage(failed.error) }
+  }
+
+  const toItem = (entity: DeletedItem['entity'], row: DeletedRow, name: string, details: string | null): DeletedItem => ({
+    id: row.id,
+    entity,
+    name,
+    details,
+    deleted_at: row.deleted_at,
+    deleted_by: row.deleted_by,
+  })
+
+  const items: DeletedItem[] = [
+    ...(categories.data || []).map((row) => toItem('categories', row, row.name, row.description)),
+    ...(products.data || []).map((row) =>
+      toItem('products', row, row.name, [related(row.category)?.name, row.unit].filter(Boolean).join(' · ') || null)
+    ),
+    ...(suppliers.data || []).map((row) => toItem('suppliers', row, row.name, row.contact_person)),
+    ...(projects.data || []).map((row) => toItem('projects', row, row.name, row.location)),
+    ...(stores.data || []).map((row) =>
+      toItem('stores', row, row.name, row.type === 'project' ? ['Project store', related(row.project)?.name].filter(Boolean).join(' · ') : 'Central store')
+    ),
+    ...(users.data || []).map((row) =>
+      toItem('users', row, row.full_name || row.email, `${row.email} · ${String(row.role).replace(/_/g, ' ')}`)
+    ),
+    ...(purchases.data || []).map((row) =>
+      toItem(
+        'purchases',
+        row,
+        `${related(row.product)?.name || 'Unknown product'} × ${Number(row.quantity)} ${related(row.product)?.unit || ''}`.trim(),
+        `${related(row.store)?.name || 'Unknown store'} · ${new Date(row.purchase_date).toLocaleDateString()}`
+      )
+    ),
+  ].sort((a, b) => b.deleted_at.localeCompare(a.deleted_at))
+
+  // deleted_by points at auth.users, so look the names up separately
+  const deleterIds = [...new Set(items.map((item) => item.deleted_by).filter((id): id is string => !!id))]
+  if (deleterIds.length > 0) {
+    const { data: deleters } = await supabase
+      .from('user_profiles')
+      .select('id, email, full_name')
+      .in('id', deleterIds)
+
+    const deletersById = new Map((deleters || []).map((deleter) => [deleter.id, deleter]))
+    items.forEach((item) => {
+      item.deleted_by_user = item.deleted_by ? deletersById.get(item.deleted_by) || null : null
+    })
+  }
+
+  return { data: items, error: null }
+}
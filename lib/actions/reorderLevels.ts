@@ -0,0 +1,443 @@
+'use server'
+
+import { createClient } from '@/lib/supabase/server'
+import { revalidatePath } from 'next/cache'
+import type { Product, ReorderSuggestion, SaveReorderLevelInput, Store } from '@/lib/types'
+import { getErrorMessage } from '@/lib/utils/errors'
+import { getAccessibleStoreIds, getStoreAccessError } from '@/lib/utils/storeAccess'
+import { authorize, hasPermission, type AuthorizedProfile } from '@/lib/utils/permissions'
+
+// Purchase orders and requisitions still expected to bring stock in
+const OPEN_PURCHASE_ORDER_STATUSES = ['draft', 'submitted', 'approved', 'partially_received']
+const OPEN_REQUISITION_STATUSES = ['pending', 'approved', 'partially_fulfilled']
+
+type StockRow = {
+  store_id: string
+  product_id: string
+  quantity: number
+  in_transit_quantity: number | null
+  product: (Product & { deleted_at: string | null }) | null
+}
+
+// The users who replenish a store set its levels (see can_manage_reorder_levels())
+function getReorderLevelAccessError(profile: AuthorizedProfile, store: { id: string; type: string }) {
+  const permission = store.type === 'central' ? 'raise_purchase_orders' : 'request_stock'
+  if (profile.role !== 'admin' && !hasPermission(profile, permission)) {
+    return store.type === 'central'
+      ? 'Only users who raise purchase orders can set reorder levels for central stores'
+      : 'Only users who raise requisitions can set reorder levels for project stores'
+  }
+  return getStoreAccessError(profile, store, 'set reorder levels')
+}
+
+export async function getReorderLevels(storeId?: string) {
+  const supabase = await createClient()
+
+  const { profile, error: authError } = await authorize(supabase)
+  if (!profile) {
+    return { data: null, error: authError }
+  }
+
+  let query = supabase
+    .from('reorder_levels')
+    .select(`
+      *,
+      store:stores(*),
+      product:products(
+        *,
+        category:categories(*)
+      )
+    `)
+    .order('store_id', { ascending: true })
+
+  if (storeId) {
+    query = query.eq('store_id', storeId)
+  }
+
+  const storeIds = getAccessibleStoreIds(profile)
+  if (storeIds) {
+    query = query.in('store_id', storeIds)
+  }
+
+  const { data, error } = await query
+
+  if (error) {
+    return { data: null, error: getErrorMessage(error) }
+  }
+
+  return { data, error: null }
+}
+
+export async function saveReorderLevel(input: SaveReorderLevelInput) {
+  const supabase = await createClient()
+
+  const { user, profile, error: authError } = await authorize(supabase)
+  if (!user) {
+    return { error: authError }
+  }
+
+  const { data: store } = await supabase
+    .from('stores')
+    .select('id, type')
+    .eq('id', input.store_id)
+    .is('deleted_at', null)
+    .single()
+
+  if (!store) {
+    return { error: 'Store not found' }
+  }
+
+  const accessError = getReorderLevelAccessError(profile, store)
+  if (accessError) {
+    return { error: accessError }
+  }
+
+  if (!input.product_id) {
+    return { error: 'Choose a product' }
+  }
+
+  const minQuantity = Number(input.min_quantity)
+  const reorderPoint = Number(input.reorder_point)
+  const maxQuantity = Number(input.max_quantity)
+
+  if (isNaN(minQuantity) || minQuantity < 0) {
+    return { error: 'Minimum stock must be 0 or greater' }
+  }
+  if (isNaN(reorderPoint) || reorderPoint <= 0) {
+    return { error: 'Reorder point must be greater than 0' }
+  }
+  if (reorderPoint < minQuantity) {
+    return { error: 'Reorder point can\'t be below the minimum stock' }
+  }
+  if (isNaN(maxQuantity) || maxQuantity <= reorderPoint) {
+    return { error: 'Maximum stock must be above the reorder point' }
+  }
+
+  const { data, error } = await supabase
+    .from('reorder_levels')
+    .upsert(
+      {
+        store_id: input.store_id,
+        product_id: input.product_id,
+        min_quantity: minQuantity,
+        reorder_point: reorderPoint,
+        max_quantity: maxQuantity,
+        created_by: user.id,
+      },
+      { onConflict: 'store_id,product_id' }
+    )
+    .select()
+    .single()
+
+  if (error) {
+    return { error: getErrorMessage(error) }
+  }
+
+  revalidatePath('/reorder')
+  revalidatePath('/inventory')
+  return { data, error: null }
+}
+
+export async function deleteReorderLevel(reorderLevelId: string) {
+  const supabase = await createClient()
+
+  const { profile, error: authError } = await authorize(supabase)
+  if (!profile) {
+    return { error: authError }
+  }
+
+  const { data: level } = await supabase
+    .from('reorder_levels')
+    .select('id, store:stores(id, type)')
+    .eq('id', reorderLevelId)
+    .single()
+
+  if (!level) {
+    return { error: 'Reorder level not found' }
+  }
+
+  const accessError = getReorderLevelAccessError(profile, level.store as unknown as { id: string; type: string })
+  if (accessError) {
+    return { error: accessError }
+  }
+
+  const { error } = await supabase
+    .from('reorder_levels')
+    .delete()
+    .eq('id', reorderLevelId)
+
+  if (error) {
+    return { error: getErrorMessage(error) }
+  }
+
+  revalidatePath('/reorder')
+  revalidatePath('/inventory')
+  return { error: null }
+}
+
+export async function getStockAlerts(includeResolved = false) {
+  const supabase = await createClient()
+
+  const { profile, error: authError } = await authorize(supabase)
+  if (!profile) {
+    return { data: null, error: authError }
+  }
+
+  let query = supabase
+    .from('stock_alerts')
+    .select(`
+      *,
+      store:stores(*),
+      product:products(
+        *,
+        category:categories(*)
+      )
+    `)
+    .order('created_at', { ascending: false })
+    .limit(200)
+
+  if (!includeResolved) {
+    query = query.is('resolved_at', null)
+  }
+
+  const storeIds = getAccessibleStoreIds(profile)
+  if (storeIds) {
+    query = query.in('store_id', storeIds)
+  }
+
+  const { data, error } = await query
+
+  if (error) {
+    return { data: null, error: getErrorMessage(error) }
+  }
+
+  return { data, error: null }
+}
+
+/**
+ * Products at or below their reorder point in the user's stores, counting
+ * stock in transit and on open purchase orders (central stores) or
+ * requisitions (project stores) as already on its way. The suggested
+ * quantity brings the store back up to its maximum.
+ */
+export async function getReorderSuggestions(storeId?: string) {
+  const supabase = await createClient()
+
+  const { profile, error: authError } = await authorize(supabase)
+  if (!profile) {
+    return { data: null, error: authError }
+  }
+
+  let storesQuery = supabase
+    .from('stores')
+    .select(`
+      *,
+      project:projects(*)
+    `)
+    .is('deleted_at', null)
+
+  if (storeId) {
+    storesQuery = storesQuery.eq('id', storeId)
+  }
+
+  const accessibleStoreIds = getAccessibleStoreIds(profile)
+  if (accessibleStoreIds) {
+    storesQuery = storesQuery.in('id', accessibleStoreIds)
+  }
+
+  const { data: stores, error: storesError } = await storesQuery
+
+  if (storesError) {
+    return { data: null, error: getErrorMessage(storesError) }
+  }
+
+  if (!stores || stores.length === 0) {
+    return { data: [] as ReorderSuggestion[], error: null }
+  }
+
+  const storeIds = stores.map((store) => store.id as string)
+  const storeById = new Map(stores.map((store) => [store.id as string, store as Store]))
+
+  const { data: levels, error: levelsError } = await supabase
+    .from('reorder_levels')
+    .select(`
+      *,
+      product:products(*)
+    `)
+    .in('store_id', storeIds)
+
+  if (levelsError) {
+    return { data: null, error: getErrorMessage(levelsError) }
+  }
+
+  const pageSize = 1000
+  const items: StockRow[] = []
+  let from = 0
+
+  while (true) {
+    const { data, error } = await supabase
+      .from('inventory_items')
+      .select(`
+        store_id,
+        product_id,
+        quantity,
+        in_transit_quantity,
+        product:products(*)
+      `)
+      .in('store_id', storeIds)
+      .order('id', { ascending: true })
+      .range(from, from + pageSize - 1)
+
+    if (error) {
+      return { data: null, error: getErrorMessage(error) }
+    }
+
+    if (!data || data.length === 0) {
+      break
+    }
+
+    items.push(...(data as unknown as StockRow[]))
+
+    if (data.length < pageSize) {
+      break
+    }
+
+    from += pageSize
+  }
+
+  const centralStoreIds = stores.filter((store) => store.type === 'central').map((store) => store.id as string)
+  const projectStoreIds = stores.filter((store) => store.type === 'project').map((store) => store.id as string)
+  const onOrderByKey = new Map<string, number>()
+  const addOnOrder = (key: string, quantity: number) => {
+    if (quantity > 0) {
+      onOrderByKey.set(key, (onOrderByKey.get(key) || 0) + quantity)
+    }
+  }
+
+  if (centralStoreIds.length > 0) {
+    const { data: orderItems, error: orderItemsError } = await supabase
+      .from('purchase_order_items')
+      .select('product_id, quantity, received_quantity, purchase_order:purchase_orders!inner(store_id, status)')
+      .in('purchase_order.store_id', centralStoreIds)
+      .in('purchase_order.status', OPEN_PURCHASE_ORDER_STATUSES)
+
+    if (orderItemsError) {
+      return { data: null, error: getErrorMessage(orderItemsError) }
+    }
+
+    for (const item of orderItems || []) {
+      const order = item.purchase_order as unknown as { store_id: string }
+      addOnOrder(`${order.store_id}:${item.product_id}`, Number(item.quantity) - Number(item.received_quantity || 0))
+    }
+  }
+
+  if (projectStoreIds.length > 0) {
+    const { data: requisitionItems, error: requisitionItemsError } = await supabase
+      .from('issue_requisition_items')
+      .select(`
+        product_id,
+        requested_quantity,
+        approved_quantity,
+        issued_quantity,
+        requisition:issue_requisitions!inner(requesting_store_id, status)
+      `)
+      .in('requisition.requesting_store_id', projectStoreIds)
+      .in('requisition.status', OPEN_REQUISITION_STATUSES)
+
+    if (requisitionItemsError) {
+      return { data: null, error: getErrorMessage(requisitionItemsError) }
+    }
+
+    for (const item of requisitionItems || []) {
+      const requisition = item.requisition as unknown as { requesting_store_id: string }
+      const expected = Number(item.approved_quantity ?? item.requested_quantity)
+      addOnOrder(`${requisition.requesting_store_id}:${item.product_id}`, expected - Number(item.issued_quantity || 0))
+    }
+  }
+
+  // Products with their own levels are included even if the store never held them
+  const stockByKey = new Map<string, { quantity: number; in_transit_quantity: number; product: StockRow['product'] }>()
+  for (const item of items) {
+    stockByKey.set(`${item.store_id}:${item.product_id}`, {
+      quantity: Number(item.quantity),
+      in_transit_quantity: Number(item.in_transit_quantity || 0),
+      product: item.product,
+    })
+  }
+
+  const levelByKey = new Map((levels || []).map((level) => [`${level.store_id}:${level.product_id}`, level]))
+  const keys = new Set([...stockByKey.keys(), ...levelByKey.keys()])
+  const suggestions: ReorderSuggestion[] = []
+
+  for (const key of keys) {
+    const [rowStoreId, productId] = key.split(':')
+    const stock = stockByKey.get(key)
+    const level = levelByKey.get(key)
+    const product = (level?.product ?? stock?.product) as StockRow['product']
+    const store = storeById.get(rowStoreId)
+    if (!product || !store || product.deleted_at) {
+      continue
+    }
+
+    const reorderPoint = level ? Number(level.reorder_point) : Number(product.restock_level || 0)
+    if (reorderPoint <= 0) {
+      continue
+    }
+
+    const quantity = stock?.quantity ?? 0
+    const inTransitQuantity = stock?.in_transit_quantity ?? 0
+    const onOrderQuantity = onOrderByKey.get(key) || 0
+    const expectedStock = quantity + inTransitQuantity + onOrderQuantity
+    if (expectedStock > reorderPoint) {
+      continue
+    }
+
+    const maxQuantity = level ? Number(level.max_quantity) : null
+    suggestions.push({
+      store_id: rowStoreId,
+      product_id: productId,
+      store,
+      product,
+      quantity,
+      in_transit_quantity: inTransitQuantity,
+      on_order_quantity: onOrderQuantity,
+      min_quantity: level ? Number(level.min_quantity) : 0,
+      reorder_point: reorderPoint,
+      max_quantity: maxQuantity,
+      suggested_quantity: maxQuantity !== null ? maxQuantity - expectedStock : null,
+    })
+  }
+
+  suggestions.sort(
+    (a, b) => a.store.name.localeCompare(b.store.name) || a.product.name.localeCompare(b.product.name)
+  )
+
+  return { data: suggestions, error: null }
+}
+
+export async function getOpenStockAlertCount() {
+  const supabase = await createClient()
+
+  const { profile, error: authError } = await authorize(supabase)
+  if (!profile) {
+    return { data: null, error: authError }
+  }
+
+  let query = supabase
+    .from('stock_alerts')
+    .select('id', { count: 'exact', head: true })
+    .is('resolved_at', null)
+
+  const storeIds = getAccessibleStoreIds(profile)
+  if (storeIds) {
+    query = query.in('store_id', storeIds)
+  }
+
+  const { count, error } = await query
+
+  if (error) {
+    return { data: null, error: getErrorMessage(error) }
+  }
+
+  return { data: count || 0, error: null }
+}
@@ -2,7 +2,10 @@
 
 import { createClient } from '@/lib/supabase/server'
 import { getErrorMessage } from '@/lib/utils/errors'
-import type { InventoryMovementEntry, InventoryMovementSummaryItem, Product, Store } from '@/lib/types'
+import type { AdjustmentReason, CostingMethod, InventoryMovementEntry, InventoryMovementSummaryItem, Product, Store } from '@/lib/types'
+import { ADJUSTMENT_REASON_LABELS } from '@/lib/constants/adjustmentReasons'
+import { authorize, hasPermission } from '@/lib/utils/permissions'
+import { getAccessibleStoreIds } from '@/lib/utils/storeAccess'
 
 export type ReportPeriod = 'today' | 'weekly' | 'monthly' | 'quarterly' | 'annual' | 'lifetime'
 
@@ -49,22 +52,30 @@ function getDateRange(period: ReportPeriod): DateRange {
   }
 }
 
-export async function getPurchaseReport(period: ReportPeriod, storeId?: string) {
-  const supabase = await createClient()
+export interface SupplierLastPrice {
+  product_id: string
+  product_name: string
+  unit: string | null
+  unit_cost: number
+  purchase_date: string
+}
 
-  const { data: { user } } = await supabase.auth.getUser()
-  if (!user) {
-    return { data: null, error: 'Not authenticated' }
-  }
+export interface SupplierPurchaseSummary {
+  supplier_id: string | null
+  supplier_name: string
+  totalPurchases: number
+  totalQuantity: number
+  totalCost: number // Net of returns to the supplier
+  totalReturnedCost: number
+  lastPrices: SupplierLastPrice[]
+}
 
-  const { data: profile } = await supabase
-    .from('user_profiles')
-    .select('role, project_id')
-    .eq('id', user.id)
-    .single()
+export async function getPurchaseReport(period: ReportPeriod, storeId?: string, supplierId?: string) {
+  const supabase = await createClient()
 
+  const { profile, error: authError } = await authorize(supabase, 'view_reports')
   if (!profile) {
-    return { data: null, error: 'User profile not found' }
+    return { data: null, error: authError }
   }
 
   const isAdmin = profile.role === 'admin'
@@ -81,68 +92,147 @@ export async function getPurchaseReport(period: ReportPeriod, storeId?: string)
       product:products(
         *,
         category:categories(*)
-      )
+      ),
+      supplier:suppliers(id, name)
     `)
     .is('deleted_at', null)
     .gte('purchase_date', dateRange.startDate)
     .lte('purchase_date', dateRange.endDate)
     .order('purchase_date', { ascending: false })
+    .order('created_at', { ascending: false })
+
+  // Returns to suppliers in the same period come off the spend
+  let returnsQuery = supabase
+    .from('purchase_returns')
+    .select(`
+      *,
+      store:stores(
+        *,
+        project:projects(*)
+      ),
+      product:products(
+        *,
+        category:categories(*)
+      ),
+      supplier:suppliers(id, name)
+    `)
+    .is('deleted_at', null)
+    .gte('return_date', dateRange.startDate)
+    .lte('return_date', dateRange.endDate)
+
+  if (supplierId) {
+    query = query.eq('supplier_id', supplierId)
+    returnsQuery = returnsQuery.eq('supplier_id', supplierId)
+  }
 
   // Filter by store if provided or if user is not admin
   if (storeId) {
     query = query.eq('store_id', storeId)
+    returnsQuery = returnsQuery.eq('store_id', storeId)
   } else if (!isAdmin) {
-    if (profile.role === 'project_store_manager' && profile.project_id) {
-      const { data: store } = await supabase
-        .from('stores')
-        .select('id')
-        .eq('project_id', profile.project_id)
-        .is('deleted_at', null)
-        .single()
-
-      if (store) {
-        query = query.eq('store_id', store.id)
-      }
-    }
-    // Central store managers can see all purchases (no filter)
+    // Store managers only see purchases for the stores they are assigned to
+    const storeIds = getAccessibleStoreIds(profile)!
+    query = query.in('store_id', storeIds)
+    returnsQuery = returnsQuery.in('store_id', storeIds)
   }
 
-  const { data, error } = await query
+  const { data: purchases, error } = await query
 
   if (error) {
     return { data: null, error: getErrorMessage(error) }
   }
 
-  // Calculate summary statistics
+  const { data: purchaseReturns, error: returnsError } = await returnsQuery
+
+  if (returnsError) {
+    return { data: null, error: getErrorMessage(returnsError) }
+  }
+
+  // Returns are listed as negative lines dated on the day they went back
+  const returnLines = (purchaseReturns || []).map((purchaseReturn) => ({
+    ...purchaseReturn,
+    is_return: true,
+    purchase_date: purchaseReturn.return_date,
+    quantity: -Number(purchaseReturn.quantity),
+    total_cost: -Number(purchaseReturn.total_cost),
+    notes: [purchaseReturn.reason, purchaseReturn.notes].filter(Boolean).join(' - ') || null,
+  }))
+
+  const data = [
+    ...(purchases || []).map((purchase) => ({ ...purchase, is_return: false })),
+    ...returnLines,
+  ].sort((a, b) =>
+    b.purchase_date.localeCompare(a.purchase_date) || b.created_at.localeCompare(a.created_at)
+  )
+
+  // Calculate summary statistics, net of returns. Costs are stored in PKR
+  // whatever currency the purchase was made in.
+  const totalQuantity = data.reduce((sum, p) => sum + Number(p.quantity), 0)
+  const totalCost = data.reduce((sum, p) => sum + Number(p.total_cost), 0)
   const summary = {
-    totalPurchases: data?.length || 0,
-    totalQuantity: data?.reduce((sum, p) => sum + Number(p.quantity), 0) || 0,
-    totalCost: data?.reduce((sum, p) => sum + Number(p.total_cost), 0) || 0,
-    averageUnitCost: data && data.length > 0
-      ? data.reduce((sum, p) => sum + Number(p.total_cost), 0) / 
-        data.reduce((sum, p) => sum + Number(p.quantity), 0)
-      : 0,
+    totalPurchases: purchases?.length || 0,
+    totalReturns: returnLines.length,
+    totalReturnedCost: returnLines.reduce((sum, r) => sum + Math.abs(r.total_cost), 0),
+    totalQuantity,
+    totalCost,
+    averageUnitCost: totalQuantity > 0 ? totalCost / totalQuantity : 0,
   }
 
-  return { data, summary, error: null }
+  // Spend per supplier, plus the last price paid for each product from that
+  // supplier. Rows are newest first, so the first price seen is the latest.
+  const supplierSummaries = new Map<string, SupplierPurchaseSummary & { seenProducts: Map<string, SupplierLastPrice> }>()
+  data.forEach((purchase) => {
+    const supplier = purchase.supplier as { id: string; name: string } | null
+    const key = supplier?.id ?? 'none'
+    if (!supplierSummaries.has(key)) {
+      supplierSummaries.set(key, {
+        supplier_id: supplier?.id ?? null,
+        supplier_name: supplier?.name ?? 'No supplier',
+        totalPurchases: 0,
+        totalQuantity: 0,
+        totalCost: 0,
+        totalReturnedCost: 0,
+        lastPrices: [],
+        seenProducts: new Map(),
+      })
+    }
+    const supplierSummary = supplierSummaries.get(key)!
+    supplierSummary.totalQuantity += Number(purchase.quantity)
+    supplierSummary.totalCost += Number(purchase.total_cost)
+
+    if (purchase.is_return) {
+      supplierSummary.totalReturnedCost += Math.abs(Number(purchase.total_cost))
+      return
+    }
+
+    supplierSummary.totalPurchases += 1
+    if (!supplierSummary.seenProducts.has(purchase.product_id)) {
+      supplierSummary.seenProducts.set(purchase.product_id, {
+        product_id: purchase.product_id,
+        product_name: purchase.product?.name ?? '-',
+        unit: purchase.product?.unit ?? null,
+        unit_cost: Number(purchase.unit_cost),
+        purchase_date: purchase.purchase_date,
+      })
+    }
+  })
+
+  const bySupplier: SupplierPurchaseSummary[] = Array.from(supplierSummaries.values())
+    .map(({ seenProducts, ...supplierSummary }) => ({
+      ...supplierSummary,
+      lastPrices: Array.from(seenProducts.values()).sort((a, b) => a.product_name.localeCompare(b.product_name)),
+    }))
+    .sort((a, b) => b.totalCost - a.totalCost)
+
+  return { data, summary, bySupplier, error: null }
 }
 
 export async function getIssueReport(period: ReportPeriod, storeId?: string, issuedToName?: string) {
   const supabase = await createClient()
 
-  const { data: { user } } = await supabase.auth.getUser()
-  if (!user) {
-    return { data: null, error: 'Not authenticated' }
-  }
-
-  const { data: profile } = await supabase
-    .from('user_profiles')
-    .select('role, project_id')
-    .eq('id', user.id)
-    .single()
-
+  const { profile, error: authError } = await authorize(supabase, 'view_reports')
   if (!profile) {
-    return { data: null, error: 'User profile not found' }
+    return { data: null, error: authError }
   }
 
   const isAdmin = profile.role === 'admin'
@@ -173,19 +263,11 @@ export async function getIssueReport(period: ReportPeriod, storeId?: string, iss
   // Filter by store if provided
   if (storeId) {
     query = query.or(`from_store_id.eq.${storeId},to_store_id.eq.${storeId}`)
-  } else if (!isAdmin && profile.role === 'project_store_manager' && profile.project_id) {
-    // Project store managers can only see issues for their store
-    const { data: store } = await supabase
-      .from('stores')
-      .select('id')
-      .eq('project_id', profile.project_id)
-      .single()
-
-    if (store) {
-      query = query.or(`from_store_id.eq.${store.id},to_store_id.eq.${store.id}`)
-    }
+  } else if (!isAdmin) {
+    // Store managers only see issues from or to the stores they are assigned to
+    const storeIds = getAccessibleStoreIds(profile)!.join(',')
+    query = query.or(`from_store_id.in.(${storeIds}),to_store_id.in.(${storeIds})`)
   }
-  // Central store managers can see all issues (no filter)
 
   // Filter by issued_to_name if provided
   if (issuedToName) {
@@ -198,37 +280,48 @@ export async function getIssueReport(period: ReportPeriod, storeId?: string, iss
     return { data: null, error: getErrorMessage(error) }
   }
 
+  // Material returned unused by the person it was issued to is netted off so
+  // the report shows what was actually consumed
+  const issues = (data || []).map((issue) => ({
+    ...issue,
+    net_quantity: Number(issue.quantity) - Number(issue.returned_quantity || 0),
+  }))
+
   // Calculate summary statistics
-  const issuedToStores = data?.filter(i => i.to_store_id) || []
-  const issuedToProjects = data?.filter(i => !i.to_store_id) || []
+  const issuedToStores = issues.filter(i => i.to_store_id)
+  const issuedToProjects = issues.filter(i => !i.to_store_id)
 
   const summary = {
-    totalIssues: data?.length || 0,
+    totalIssues: issues.length,
     issuesToStores: issuedToStores.length,
     issuesToProjects: issuedToProjects.length,
-    totalQuantity: data?.reduce((sum, i) => sum + Number(i.quantity), 0) || 0,
+    totalQuantity: issues.reduce((sum, i) => sum + Number(i.quantity), 0),
+    totalReturned: issues.reduce((sum, i) => sum + Number(i.returned_quantity || 0), 0),
+    netQuantity: issues.reduce((sum, i) => sum + i.net_quantity, 0),
     totalCost: issuedToStores.reduce((sum, i) => sum + (Number(i.total_cost) || 0), 0),
+    byPerson: {} as Record<string, { issued: number; returned: number; consumed: number }>,
   }
 
-  return { data, summary, error: null }
+  // Consumption per person, across all products they were issued
+  issuedToProjects.forEach((issue) => {
+    const name = issue.issued_to_name?.trim() || 'Unnamed'
+    if (!summary.byPerson[name]) {
+      summary.byPerson[name] = { issued: 0, returned: 0, consumed: 0 }
+    }
+    summary.byPerson[name].issued += Number(issue.quantity)
+    summary.byPerson[name].returned += Number(issue.returned_quantity || 0)
+    summary.byPerson[name].consumed += issue.net_quantity
+  })
+
+  return { data: issues, summary, error: null }
 }
 
 export async function getInventoryCostReport(storeId?: string) {
   const supabase = await createClient()
 
-  const { data: { user } } = await supabase.auth.getUser()
-  if (!user) {
-    return { data: null, error: 'Not authenticated' }
-  }
-
-  const { data: profile } = await supabase
-    .from('user_profiles')
-    .select('role, project_id')
-    .eq('id', user.id)
-    .single()
-
+  const { profile, error: authError } = await authorize(supabase, 'view_reports')
   if (!profile) {
-    return { data: null, error: 'User profile not found' }
+    return { data: null, error: authError }
   }
 
   const isAdmin = profile.role === 'admin'
@@ -252,17 +345,8 @@ export async function getInventoryCostReport(storeId?: string) {
   // Filter by store if provided
   if (storeId) {
     query = query.eq('store_id', storeId)
-  } else if (!isAdmin && profile.role === 'project_store_manager' && profile.project_id) {
-    const { data: store } = await supabase
-      .from('stores')
-      .select('id')
-      .eq('project_id', profile.project_id)
-      .is('deleted_at', null)
-      .single()
-
-    if (store) {
-      query = query.eq('store_id', store.id)
-    }
+  } else if (!isAdmin && profile.role === 'project_store_manager') {
+    query = query.in('store_id', getAccessibleStoreIds(profile)!)
   }
 
   const { data, error } = await query
@@ -271,26 +355,69 @@ export async function getInventoryCostReport(storeId?: string) {
     return { data: null, error: getErrorMessage(error) }
   }
 
-  // Calculate average costs and totals for each item
-  const inventoryWithCosts = await Promise.all(
-    (data || []).map(async (item) => {
-      let avgCost = 0
-      if (isAdmin || (profile.role === 'central_store_manager' && item.store?.type === 'central')) {
-        const { data: avgCostData } = await supabase.rpc('get_average_cost', {
-          p_store_id: item.store_id,
-          p_product_id: item.product_id,
-        })
-        avgCost = avgCostData || 0
-      }
-
-      const totalValue = avgCost * Number(item.quantity)
-
-      return {
-        ...item,
-        average_cost: avgCost,
-        total_value: totalValue,
-      }
-    })
+  const canSeeCost = (store?: { type: string } | null) =>
+    hasPermission(profile, 'view_prices') || (hasPermission(profile, 'view_central_prices') && store?.type === 'central')
+
+  // Value stock from the open cost layers of the stores whose cost is visible
+  const costedStoreIds = Array.from(
+    new Set((data || []).filter((item) => canSeeCost(item.store)).map((item) => item.store_id))
+  )
+  const { data: layers, error: layersError } = await supabase
+    .from('inventory_cost_layers')
+    .select('store_id, product_id, remaining_quantity, unit_cost')
+    .in('store_id', costedStoreIds.length > 0 ? costedStoreIds : ['00000000-0000-0000-0000-000000000000'])
+    .gt('remaining_quantity', 0)
+
+  if (layersError) {
+    return { data: null, error: getErrorMessage(layersError) }
+  }
+
+  const layerTotals = new Map<string, { quantity: number; value: number }>()
+  for (const layer of layers || []) {
+    const key = `${layer.store_id}:${layer.product_id}`
+    const totals = layerTotals.get(key) || { quantity: 0, value: 0 }
+    totals.quantity += Number(layer.remaining_quantity)
+    totals.value += Number(layer.remaining_quantity) * Number(layer.unit_cost)
+    layerTotals.set(key, totals)
+  }
+
+  const { data: costingMethod } = await supabase
+    .from('costing_settings')
+    .select('costing_method')
+    .maybeSingle()
+
+  const inventoryWithCosts = (data || []).map((item) => {
+    if (!canSeeCost(item.store)) {
+      return { ...item, average_cost: null, total_value: null }
+    }
+
+    const totals = layerTotals.get(`${item.store_id}:${item.product_id}`)
+    const avgCost = totals && totals.quantity > 0 ? totals.value / totals.quantity : 0
+
+    return {
+      ...item,
+      average_cost: avgCost,
+      total_value: totals?.value || 0,
+    }
+  })
+
+  // Write-offs were costed from the cost layers when approved; report the loss for
+  // the same stores whose stock value is visible above
+  const storeIds = Array.from(new Set(inventoryWithCosts.map((item) => item.store_id)))
+  const { data: writeOffs, error: writeOffsError } = await supabase
+    .from('inventory_adjustments')
+    .select('store_id, total_cost, store:stores(name, type)')
+    .in('store_id', storeIds.length > 0 ? storeIds : ['00000000-0000-0000-0000-000000000000'])
+    .eq('status', 'approved')
+    .lt('quantity', 0)
+    .is('deleted_at', null)
+
+  if (writeOffsError) {
+    return { data: null, error: getErrorMessage(writeOffsError) }
+  }
+
+  const visibleWriteOffs = (writeOffs || []).filter((writeOff) =>
+    canSeeCost(writeOff.store as unknown as { name: string; type: string } | null)
   )
 
   // Calculate summary statistics
@@ -298,19 +425,29 @@ export async function getInventoryCostReport(storeId?: string) {
     totalItems: inventoryWithCosts.length,
     totalQuantity: inventoryWithCosts.reduce((sum, item) => sum + Number(item.quantity), 0),
     totalValue: inventoryWithCosts.reduce((sum, item) => sum + (item.total_value || 0), 0),
-    byStore: {} as Record<string, { quantity: number; value: number }>,
+    totalWriteOffValue: visibleWriteOffs.reduce((sum, writeOff) => sum + Math.abs(Number(writeOff.total_cost || 0)), 0),
+    costingMethod: (costingMethod?.costing_method || 'weighted_average') as CostingMethod,
+    byStore: {} as Record<string, { quantity: number; value: number; writeOffValue: number }>,
   }
 
   // Group by store
   inventoryWithCosts.forEach((item) => {
     const storeName = item.store?.name || 'Unknown'
     if (!summary.byStore[storeName]) {
-      summary.byStore[storeName] = { quantity: 0, value: 0 }
+      summary.byStore[storeName] = { quantity: 0, value: 0, writeOffValue: 0 }
     }
     summary.byStore[storeName].quantity += Number(item.quantity)
     summary.byStore[storeName].value += item.total_value || 0
   })
 
+  visibleWriteOffs.forEach((writeOff) => {
+    const storeName = (writeOff.store as unknown as { name: string } | null)?.name || 'Unknown'
+    if (!summary.byStore[storeName]) {
+      summary.byStore[storeName] = { quantity: 0, value: 0, writeOffValue: 0 }
+    }
+    summary.byStore[storeName].writeOffValue += Math.abs(Number(writeOff.total_cost || 0))
+  })
+
   return { data: inventoryWithCosts, summary, error: null }
 }
 
@@ -321,25 +458,13 @@ export async function getInventoryMovementReport(
 ) {
   const supabase = await createClient()
 
-  const {
-    data: { user },
-  } = await supabase.auth.getUser()
-  if (!user) {
-    return { data: null, error: 'Not authenticated' }
+  const { profile, error: authError } = await authorize(supabase, 'view_reports')
+  if (!profile) {
+    return { data: null, error: authError }
   }
 
   const dateRange = getDateRange(period)
 
-  const { data: profile } = await supabase
-    .from('user_profiles')
-    .select('role, project_id')
-    .eq('id', user.id)
-    .single()
-
-  if (!profile) {
-    return { data: null, error: 'User profile not found' }
-  }
-
   let centralStore: Store | null = null
   if (centralStoreId) {
     const { data, error } = await supabase
@@ -382,6 +507,7 @@ export async function getInventoryMovementReport(
         id,
         quantity,
         unit_cost,
+        landed_unit_cost,
         total_cost,
         purchase_date,
         created_at,
@@ -393,6 +519,7 @@ export async function getInventoryMovementReport(
         store:stores(*)
       `
     )
+    .eq('receive_via_grn', false)
     .is('deleted_at', null)
     .gte('purchase_date', dateRange.startDate)
     .lte('purchase_date', dateRange.endDate)
@@ -407,6 +534,39 @@ export async function getInventoryMovementReport(
     return { data: null, error: getErrorMessage(purchasesError) }
   }
 
+  const goodsReceivedQuery = supabase
+    .from('goods_received_notes')
+    .select(
+      `
+        id,
+        grn_number,
+        quantity,
+        received_date,
+        posted_at,
+        notes,
+        product:products(
+          *,
+          category:categories(*)
+        ),
+        store:stores(*),
+        purchase:purchases(unit_cost, landed_unit_cost)
+      `
+    )
+    .eq('status', 'posted')
+    .is('deleted_at', null)
+    .gte('received_date', dateRange.startDate)
+    .lte('received_date', dateRange.endDate)
+
+  if (projectStoreId) {
+    goodsReceivedQuery.eq('store_id', projectStoreId)
+  }
+
+  const { data: goodsReceivedNotes, error: goodsReceivedError } = await goodsReceivedQuery
+
+  if (goodsReceivedError) {
+    return { data: null, error: getErrorMessage(goodsReceivedError) }
+  }
+
   const issuesInQuery = supabase
     .from('issues')
     .select(
@@ -419,6 +579,8 @@ export async function getInventoryMovementReport(
         issued_to_name,
         unit_cost,
         total_cost,
+        transfer_status,
+        received_quantity,
         from_store:stores!issues_from_store_id_fkey(*),
         to_store:stores!issues_to_store_id_fkey(*),
         product:products(
@@ -478,6 +640,108 @@ export async function getInventoryMovementReport(
     return { data: null, error: getErrorMessage(issuesOutError) }
   }
 
+  const adjustmentsQuery = supabase
+    .from('inventory_adjustments')
+    .select(
+      `
+        id,
+        adjustment_number,
+        quantity,
+        reason,
+        adjustment_date,
+        approved_at,
+        notes,
+        unit_cost,
+        total_cost,
+        product:products(
+          *,
+          category:categories(*)
+        ),
+        store:stores(*)
+      `
+    )
+    .eq('status', 'approved')
+    .is('deleted_at', null)
+    .gte('adjustment_date', dateRange.startDate)
+    .lte('adjustment_date', dateRange.endDate)
+
+  if (projectStoreId) {
+    adjustmentsQuery.eq('store_id', projectStoreId)
+  }
+
+  const { data: adjustments, error: adjustmentsError } = await adjustmentsQuery
+
+  if (adjustmentsError) {
+    return { data: null, error: getErrorMessage(adjustmentsError) }
+  }
+
+  const issueReturnsQuery = supabase
+    .from('issue_returns')
+    .select(
+      `
+        id,
+        return_number,
+        quantity,
+        return_date,
+        created_at,
+        notes,
+        returned_by_name,
+        product:products(
+          *,
+          category:categories(*)
+        ),
+        store:stores(*)
+      `
+    )
+    .is('deleted_at', null)
+    .gte('return_date', dateRange.startDate)
+    .lte('return_date', dateRange.endDate)
+
+  if (projectStoreId) {
+    issueReturnsQuery.eq('store_id', projectStoreId)
+  }
+
+  const { data: issueReturns, error: issueReturnsError } = await issueReturnsQuery
+
+  if (issueReturnsError) {
+    return { data: null, error: getErrorMessage(issueReturnsError) }
+  }
+
+  const purchaseReturnsQuery = supabase
+    .from('purchase_returns')
+    .select(
+      `
+        id,
+        return_number,
+        quantity,
+        unit_cost,
+        total_cost,
+        return_date,
+        created_at,
+        reason,
+        notes,
+        product:products(
+          *,
+          category:categories(*)
+        ),
+        store:stores(*),
+        supplier:suppliers(name)
+      `
+    )
+    .is('deleted_at', null)
+    .gte('return_date', dateRange.startDate)
+    .lte('return_date', dateRange.endDate)
+
+  if (projectStoreId) {
+    purchaseReturnsQuery.eq('store_id', projectStoreId)
+  }
+
+  const { data: purchaseReturns, error: purchaseReturnsError } = await purchaseReturnsQuery
+
+  if (purchaseReturnsError) {
+    return { data: null, error: getErrorMessage(purchaseReturnsError) }
+  }
+
   const inventoryMap = new Map<string, number>()
   if (projectStoreId) {
     const { data: inventoryItems, error: inventoryError } = await supabase
@@ -542,7 +806,7 @@ export async function getInventoryMovementReport(
       date: purchase.purchase_date,
       created_at: purchase.created_at,
       quantity,
-      unit_cost: purchase.unit_cost,
+      unit_cost: purchase.landed_unit_cost ?? purchase.unit_cost,
       total_cost: purchase.total_cost,
       notes: purchase.notes,
       issued_to_name: null,
@@ -552,7 +816,44 @@ export async function getInventoryMovementReport(
     summary.movements.push(entry)
   })
 
+  goodsReceivedNotes?.forEach((grn) => {
+    const product = normalizeRecord<Product>(grn.product)
+    const summary = ensureSummary(product)
+    const grnStore = normalizeRecord<Store>(grn.store)
+    const storeId = projectStoreId ?? grnStore?.id
+    if (!product || !summary || !storeId) {
+      return
+    }
+    const quantity = Number(grn.quantity)
+    const grnPurchase = normalizeRecord<{ unit_cost: number; landed_unit_cost: number | null }>(grn.purchase)
+    const unitCost = grnPurchase?.landed_unit_cost ?? grnPurchase?.unit_cost ?? null
+    summary.received_quantity += quantity
+    const entry: InventoryMovementEntry = {
+      id: `grn-${grn.id}`,
+      store_id: storeId,
+      product_id: product.id,
+      reference_type: 'grn',
+      reference_id: grn.id,
+      reference_number: grn.grn_number,
+      movement_type: 'grn',
+      date: grn.received_date,
+      created_at: grn.posted_at,
+      quantity,
+      unit_cost: unitCost,
+      total_cost: unitCost !== null ? quantity * Number(unitCost) : null,
+      notes: grn.notes,
+      issued_to_name: null,
+      source_store: null,
+      destination_store: projectStore,
+    }
+    summary.movements.push(entry)
+  })
+
   issuesIn?.forEach((issue) => {
+    // Stock still on the road has not reached the receiving store yet
+    if (issue.transfer_status === 'in_transit') {
+      return
+    }
     const product = normalizeRecord<Product>(issue.product)
     const summary = ensureSummary(product)
     const fromStore = normalizeRecord<Store>(issue.from_store)
@@ -561,7 +862,7 @@ export async function getInventoryMovementReport(
     if (!product || !summary || !storeId) {
       return
     }
-    const quantity = Number(issue.quantity)
+    const quantity = Number(issue.received_quantity ?? issue.quantity)
     summary.received_quantity += quantity
     const entry: InventoryMovementEntry = {
       id: `issue-in-${issue.id}`,
@@ -574,7 +875,7 @@ export async function getInventoryMovementReport(
       created_at: issue.created_at,
       quantity,
       unit_cost: issue.unit_cost,
-      total_cost: issue.total_cost,
+      total_cost: issue.unit_cost !== null ? quantity * Number(issue.unit_cost) : issue.total_cost,
       notes: issue.notes,
       issued_to_name: issue.issued_to_name,
       source_store: fromStore,
@@ -614,6 +915,107 @@ export async function getInventoryMovementReport(
     summary.movements.push(entry)
   })
 
+  issueReturns?.forEach((issueReturn) => {
+    const product = normalizeRecord<Product>(issueReturn.product)
+    const summary = ensureSummary(product)
+    const returnStore = normalizeRecord<Store>(issueReturn.store)
+    const storeId = projectStoreId ?? returnStore?.id
+    if (!product || !summary || !storeId) {
+      return
+    }
+    const quantity = Number(issueReturn.quantity)
+    summary.received_quantity += quantity
+    const entry: InventoryMovementEntry = {
+      id: `return-${issueReturn.id}`,
+      store_id: storeId,
+      product_id: product.id,
+      reference_type: 'return',
+      reference_id: issueReturn.id,
+      reference_number: issueReturn.return_number,
+      movement_type: 'return',
+      date: issueReturn.return_date,
+      created_at: issueReturn.created_at,
+      quantity,
+      unit_cost: null,
+      total_cost: null,
+      notes: issueReturn.notes,
+      issued_to_name: issueReturn.returned_by_name,
+      source_store: null,
+      destination_store: returnStore,
+    }
+    summary.movements.push(entry)
+  })
+
+  purchaseReturns?.forEach((purchaseReturn) => {
+    const product = normalizeRecord<Product>(purchaseReturn.product)
+    const summary = ensureSummary(product)
+    const returnStore = normalizeRecord<Store>(purchaseReturn.store)
+    const supplier = normalizeRecord<{ name: string }>(purchaseReturn.supplier)
+    const storeId = projectStoreId ?? returnStore?.id
+    if (!product || !summary || !storeId) {
+      return
+    }
+    const quantity = Number(purchaseReturn.quantity)
+    summary.issued_quantity += quantity
+    const entry: InventoryMovementEntry = {
+      id: `purchase-return-${purchaseReturn.id}`,
+      store_id: storeId,
+      product_id: product.id,
+      reference_type: 'purchase_return',
+      reference_id: purchaseReturn.id,
+      reference_number: purchaseReturn.return_number,
+      movement_type: 'purchase_return',
+      date: purchaseReturn.return_date,
+      created_at: purchaseReturn.created_at,
+      quantity,
+      unit_cost: purchaseReturn.unit_cost,
+      total_cost: purchaseReturn.total_cost,
+      notes: [purchaseReturn.reason, purchaseReturn.notes].filter(Boolean).join(' - ') || null,
+      issued_to_name: supplier?.name ?? null,
+      source_store: returnStore,
+      destination_store: null,
+    }
+    summary.movements.push(entry)
+  })
+
+  adjustments?.forEach((adjustment) => {
+    const product = normalizeRecord<Product>(adjustment.product)
+    const summary = ensureSummary(product)
+    const adjustmentStore = normalizeRecord<Store>(adjustment.store)
+    const storeId = projectStoreId ?? adjustmentStore?.id
+    if (!product || !summary || !storeId) {
+      return
+    }
+    // Found stock counts as received, write-offs as issued
+    const quantity = Number(adjustment.quantity)
+    if (quantity > 0) {
+      summary.received_quantity += quantity
+    } else {
+      summary.issued_quantity += Math.abs(quantity)
+    }
+    const entry: InventoryMovementEntry = {
+      id: `adjustment-${adjustment.id}`,
+      store_id: storeId,
+      product_id: product.id,
+      reference_type: 'adjustment',
+      reference_id: adjustment.id,
+      reference_number: adjustment.adjustment_number,
+      movement_type: 'adjustment',
+      date: adjustment.adjustment_date,
+      created_at: adjustment.approved_at,
+      quantity,
+      unit_cost: adjustment.unit_cost,
+      total_cost: adjustment.total_cost,
+      notes: [ADJUSTMENT_REASON_LABELS[adjustment.reason as AdjustmentReason] ?? adjustment.reason, adjustment.notes]
+        .filter(Boolean)
+        .join(' - '),
+      issued_to_name: null,
+      source_store: quantity < 0 ? adjustmentStore : null,
+      destination_store: quantity > 0 ? adjustmentStore : null,
+    }
+    summary.movements.push(entry)
+  })
+
   const result = Array.from(summaries.values()).map((summary) => {
     const received = summary.received_quantity
     const issued = summary.issued_quantity
@@ -643,19 +1045,9 @@ export async function getInventoryMovementReport(
 export async function getStoresForReports() {
   const supabase = await createClient()
 
-  const { data: { user } } = await supabase.auth.getUser()
-  if (!user) {
-    return { data: null, error: 'Not authenticated' }
-  }
-
-  const { data: profile } = await supabase
-    .from('user_profiles')
-    .select('role, project_id')
-    .eq('id', user.id)
-    .single()
-
+  const { profile, error: authError } = await authorize(supabase, 'view_reports')
   if (!profile) {
-    return { data: null, error: 'User profile not found' }
+    return { data: null, error: authError }
   }
 
   const isAdmin = profile.role === 'admin'
@@ -670,8 +1062,8 @@ export async function getStoresForReports() {
     .order('type', { ascending: true })
     .order('name', { ascending: true })
 
-  if (!isAdmin && profile.role === 'project_store_manager' && profile.project_id) {
-    query = query.eq('project_id', profile.project_id)
+  if (!isAdmin && profile.role === 'project_store_manager') {
+    query = query.in('id', getAccessibleStoreIds(profile)!)
   }
 
   const { data, error } = await query
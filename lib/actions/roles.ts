@@ -0,0 +1,252 @@
+'use server'
+
+import { createClient } from '@/lib/supabase/server'
+import { revalidatePath } from 'next/cache'
+import type { CreateRoleInput, Permission, Role, UpdateRoleInput } from '@/lib/types'
+import { PERMISSION_LABELS, PERMISSION_OPTIONS, STORE_ACCESS_OPTIONS } from '@/lib/constants/permissions'
+import { getErrorMessage } from '@/lib/utils/errors'
+import { authorize } from '@/lib/utils/permissions'
+
+const ROLE_SELECT = `
+  *,
+  role_permissions(permission),
+  user_profiles(count)
+`
+
+type RoleRow = Omit<Role, 'permissions' | 'user_count'> & {
+  role_permissions: { permission: Permission }[]
+  user_profiles: { count: number }[]
+}
+
+function toRole(row: RoleRow): Role {
+  const { role_permissions, user_profiles, ...role } = row
+  return {
+    ...role,
+    permissions: role_permissions.map((item) => item.permission),
+    user_count: user_profiles[0]?.count ?? 0,
+  }
+}
+
+function getPermissionsError(permissions: Permission[], held: Permission[]) {
+  const unknown = permissions.find((permission) => !PERMISSION_OPTIONS.some((option) => option.value === permission))
+  if (unknown) {
+    return `Unknown permission: ${unknown}`
+  }
+
+  // Otherwise a role manager could grant themselves anything
+  const notHeld = permissions.find((permission) => !held.includes(permission))
+  if (notHeld) {
+    return `You can't grant ${PERMISSION_LABELS[notHeld]} because you don't have it yourself`
+  }
+  return null
+}
+
+export async function getRoles() {
+  const supabase = await createClient()
+
+  const { user, error: authError } = await authorize(supabase)
+  if (!user) {
+    return { data: null, error: authError }
+  }
+
+  const { data, error } = await supabase
+    .from('roles')
+    .select(ROLE_SELECT)
+    .order('is_system', { ascending: false })
+    .order('name', { ascending: true })
+
+  if (error) {
+    return { data: null, error: getErrorMessage(error) }
+  }
+
+  return { data: (data as unknown as RoleRow[]).map(toRole), error: null }
+}
+
+export async function createRole(input: CreateRoleInput) {
+  const supabase = await createClient()
+
+  const { profile, error: authError } = await authorize(supabase, 'manage_roles')
+  if (!profile) {
+    return { error: authError }
+  }
+
+  const name = input.name?.trim()
+  if (!name) {
+    return { error: 'Role name is required' }
+  }
+
+  if (!STORE_ACCESS_OPTIONS.some((option) => option.value === input.store_access)) {
+    return { error: 'Choose which stores the role works with' }
+  }
+
+  const permissionsError = getPermissionsError(input.permissions, profile.permissions)
+  if (permissionsError) {
+    return { error: permissionsError }
+  }
+
+  const { data: role, error } = await supabase
+    .from('roles')
+    .insert({
+      name,
+      description: input.description?.trim() || null,
+      store_access: input.store_access,
+    })
+    .select('id')
+    .single()
+
+  if (error || !role) {
+    return { error: error ? getErrorMessage(error) : 'Failed to create role' }
+  }
+
+  if (input.permissions.length > 0) {
+    const { error: permissionsInsertError } = await supabase
+      .from('role_permissions')
+      .insert(input.permissions.map((permission) => ({ role_id: role.id, permission })))
+
+    if (permissionsInsertError) {
+      // Don't leave a role without its permissions behind
+      await supabase.from('roles').delete().eq('id', role.id)
+      return { error: getErrorMessage(permissionsInsertError) }
+    }
+  }
+
+  revalidatePath('/roles')
+  return { data: role, error: null }
+}
+
+export async function updateRole(input: UpdateRoleInput) {
+  const supabase = await createClient()
+
+  const { profile, error: authError } = await authorize(supabase, 'manage_roles')
+  if (!profile) {
+    return { error: authError }
+  }
+
+  const { data: current } = await supabase
+    .from('roles')
+    .select('is_system, store_access, role_permissions(permission)')
+    .eq('id', input.id)
+    .single()
+
+  if (!current) {
+    return { error: 'Role not found' }
+  }
+
+  if (current.is_system && current.store_access === 'admin' && input.permissions !== undefined) {
+    return { error: 'The Administrator role always has every permission' }
+  }
+
+  const updateData: Record<string, unknown> = {}
+  if (input.name !== undefined) {
+    const name = input.name.trim()
+    if (!name) {
+      return { error: 'Role name is required' }
+    }
+    updateData.name = name
+  }
+  if (input.description !== undefined) updateData.description = input.description.trim() || null
+  if (input.store_access !== undefined && input.store_access !== current.store_access) {
+    if (current.is_system) {
+      return { error: 'The store access of built-in roles cannot be changed' }
+    }
+    if (!STORE_ACCESS_OPTIONS.some((option) => option.value === input.store_access)) {
+      return { error: 'Choose which stores the role works with' }
+    }
+    updateData.store_access = input.store_access
+  }
+
+  // Only the changes are written so the audit log shows what was granted or taken away
+  const currentPermissions = (current.role_permissions as { permission: Permission }[]).map((item) => item.permission)
+  const added = (input.permissions || []).filter((permission) => !currentPermissions.includes(permission))
+  const removed =
+    input.permissions === undefined
+      ? []
+      : currentPermissions.filter((permission) => !input.permissions!.includes(permission))
+
+  const permissionsError = getPermissionsError(added, profile.permissions)
+  if (permissionsError) {
+    return { error: permissionsError }
+  }
+
+  if (Object.keys(updateData).length > 0) {
+    const { error } = await supabase
+      .from('roles')
+      .update(updateData)
+      .eq('id', input.id)
+
+    if (error) {
+      return { error: getErrorMessage(error) }
+    }
+  }
+
+  if (removed.length > 0) {
+    const { error } = await supabase
+      .from('role_permissions')
+      .delete()
+      .eq('role_id', input.id)
+      .in('permission', removed)
+
+    if (error) {
+      return { error: getErrorMessage(error) }
+    }
+  }
+
+  if (added.length > 0) {
+    const { error } = await supabase
+      .from('role_permissions')
+      .insert(added.map((permission) => ({ role_id: input.id, permission })))
+
+    if (error) {
+      return { error: getErrorMessage(error) }
+    }
+  }
+
+  revalidatePath('/roles')
+  revalidatePath('/users')
+  return { error: null }
+}
+
+export async function deleteRole(roleId: string) {
+  const supabase = await createClient()
+
+  const { user, error: authError } = await authorize(supabase, 'manage_roles')
+  if (!user) {
+    return { error: authError }
+  }
+
+  const { data: role } = await supabase
+    .from('roles')
+    .select('name, is_system')
+    .eq('id', roleId)
+    .single()
+
+  if (!role) {
+    return { error: 'Role not found' }
+  }
+
+  if (role.is_system) {
+    return { error: 'Built-in roles cannot be deleted' }
+  }
+
+  // Deleted users keep their role too, so they can be restored with it
+  const { count } = await supabase
+    .from('user_profiles')
+    .select('id', { count: 'exact', head: true })
+    .eq('role_id', roleId)
+
+  if (count && count > 0) {
+    return { error: `Move the ${count} user${count === 1 ? '' : 's'} with the ${role.name} role to another role first` }
+  }
+
+  const { error } = await supabase
+    .from('roles')
+    .delete()
+    .eq('id', roleId)
+
+  if (error) {
+    return { error: getErrorMessage(error) }
+  }
+
+  revalidatePath('/roles')
+  return { error: null }
+}
@@ -0,0 +1,256 @@
+'use server'
+
+import { createClient } from '@/lib/supabase/server'
+import { revalidatePath } from 'next/cache'
+import type { SaveStockTakeCountsInput, StockTakeStatus } from '@/lib/types'
+import { getErrorMessage } from '@/lib/utils/errors'
+import { getAccessibleStoreIds, getStoreAccessError, type StoreAccessStore } from '@/lib/utils/storeAccess'
+import { authorize } from '@/lib/utils/permissions'
+import { notifyInBackground, sendPendingStockAlertEmails } from '@/lib/email/notify'
+
+const STOCK_TAKE_SELECT = `
+  *,
+  store:stores(*),
+  items:stock_take_items(
+    *,
+    product:products(
+      *,
+      category:categories(*)
+    )
+  ),
+  flagged_purchases:purchases(id, product_id, quantity, purchase_date, deleted_at),
+  flagged_issues:issues(id, product_id, quantity, issue_date, from_store_id, to_store_id, deleted_at)
+`
+
+async function getManagedStockTake(stockTakeId: string) {
+  const supabase = await createClient()
+
+  const { user, profile, error: authError } = await authorize(supabase, 'count_stock')
+  if (!user) {
+    return { supabase, error: authError }
+  }
+
+  const { data: stockTake } = await supabase
+    .from('stock_takes')
+    .select('id, stock_take_number, status, store:stores(id, type)')
+    .eq('id', stockTakeId)
+    .single()
+
+  if (!stockTake) {
+    return { supabase, error: 'Stock take not found' }
+  }
+
+  const accessError = getStoreAccessError(profile, stockTake.store as unknown as StoreAccessStore, 'count stock')
+  if (accessError) {
+    return { supabase, error: accessError }
+  }
+
+  return { supabase, user, profile, stockTake, error: null }
+}
+
+export async function startStockTake(storeId: string, notes?: string) {
+  const supabase = await createClient()
+
+  const { user, error: authError } = await authorize(supabase, 'count_stock')
+  if (!user) {
+    return { error: authError }
+  }
+
+  if (!storeId) {
+    return { error: 'Please select a store' }
+  }
+
+  // The database function checks store access and snapshots the current
+  // inventory in the same transaction
+  const { data, error } = await supabase.rpc('start_stock_take', {
+    p_store_id: storeId,
+    p_notes: notes || null,
+  })
+
+  if (error) {
+    return { error: getErrorMessage(error) }
+  }
+
+  revalidatePath('/stock-takes')
+  return { data, error: null }
+}
+
+export async function saveStockTakeCounts(input: SaveStockTakeCountsInput) {
+  const { supabase, stockTake, error: accessError } = await getManagedStockTake(input.stock_take_id)
+  if (accessError || !stockTake) {
+    return { error: accessError }
+  }
+
+  if (stockTake.status !== 'counting') {
+    return { error: 'Counts can only be changed while the stock take is being counted' }
+  }
+
+  for (const count of input.counts) {
+    if (count.counted_quantity !== null && (isNaN(count.counted_quantity) || count.counted_quantity < 0)) {
+      return { error: 'Counted quantities must be 0 or greater' }
+    }
+  }
+
+  for (const count of input.counts) {
+    const { error } = await supabase
+      .from('stock_take_items')
+      .update({ counted_quantity: count.counted_quantity })
+      .eq('id', count.stock_take_item_id)
+      .eq('stock_take_id', input.stock_take_id)
+
+    if (error) {
+      return { error: getErrorMessage(error) }
+    }
+  }
+
+  revalidatePath('/stock-takes')
+  return { error: null }
+}
+
+export async function submitStockTake(stockTakeId: string) {
+  const { supabase, stockTake, error: accessError } = await getManagedStockTake(stockTakeId)
+  if (accessError || !stockTake) {
+    return { error: accessError }
+  }
+
+  if (stockTake.status !== 'counting') {
+    return { error: 'Only stock takes being counted can be submitted' }
+  }
+
+  const { count } = await supabase
+    .from('stock_take_items')
+    .select('id', { count: 'exact', head: true })
+    .eq('stock_take_id', stockTakeId)
+    .is('counted_quantity', null)
+
+  if (count && count > 0) {
+    return { error: `${count} product${count === 1 ? ' has' : 's have'} not been counted yet` }
+  }
+
+  const { error } = await supabase
+    .from('stock_takes')
+    .update({
+      status: 'submitted',
+      submitted_at: new Date().toISOString(),
+    })
+    .eq('id', stockTakeId)
+
+  if (error) {
+    return { error: getErrorMessage(error) }
+  }
+
+  revalidatePath('/stock-takes')
+  return { error: null }
+}
+
+export async function reopenStockTake(stockTakeId: string) {
+  const { supabase, stockTake, error: accessError } = await getManagedStockTake(stockTakeId)
+  if (accessError || !stockTake) {
+    return { error: accessError }
+  }
+
+  if (stockTake.status !== 'submitted') {
+    return { error: 'Only submitted stock takes can be reopened' }
+  }
+
+  const { error } = await supabase
+    .from('stock_takes')
+    .update({
+      status: 'counting',
+      submitted_at: null,
+    })
+    .eq('id', stockTakeId)
+
+  if (error) {
+    return { error: getErrorMessage(error) }
+  }
+
+  revalidatePath('/stock-takes')
+  return { error: null }
+}
+
+export async function approveStockTake(stockTakeId: string) {
+  const supabase = await createClient()
+
+  const { user, error: authError } = await authorize(supabase, 'approve_stock_takes')
+  if (!user) {
+    return { error: authError }
+  }
+
+  // Posts each variance as an approved count correction adjustment
+  const { data, error } = await supabase.rpc('post_stock_take', {
+    p_stock_take_id: stockTakeId,
+  })
+
+  if (error) {
+    return { error: getErrorMessage(error) }
+  }
+
+  notifyInBackground(sendPendingStockAlertEmails)
+
+  revalidatePath('/stock-takes')
+  revalidatePath('/adjustments')
+  revalidatePath('/inventory')
+  return { data, error: null }
+}
+
+export async function cancelStockTake(stockTakeId: string) {
+  const { supabase, stockTake, error: accessError } = await getManagedStockTake(stockTakeId)
+  if (accessError || !stockTake) {
+    return { error: accessError }
+  }
+
+  if (!['counting', 'submitted'].includes(stockTake.status)) {
+    return { error: 'Only open stock takes can be cancelled' }
+  }
+
+  const { error } = await supabase
+    .from('stock_takes')
+    .update({ status: 'cancelled' })
+    .eq('id', stockTakeId)
+
+  if (error) {
+    return { error: getErrorMessage(error) }
+  }
+
+  revalidatePath('/stock-takes')
+  return { error: null }
+}
+
+export async function getStockTakes(status?: StockTakeStatus) {
+  const supabase = await createClient()
+
+  const { profile, error: authError } = await authorize(supabase)
+  if (!profile) {
+    return { data: null, error: authError }
+  }
+
+  let query = supabase
+    .from('stock_takes')
+    .select(STOCK_TAKE_SELECT)
+    .order('created_at', { ascending: false })
+
+  const storeIds = getAccessibleStoreIds(profile)
+  if (storeIds) {
+    query = query.in('store_id', storeIds)
+  }
+
+  if (status) {
+    query = query.eq('status', status)
+  }
+
+  const { data, error } = await query
+
+  if (error) {
+    return { data: null, error: getErrorMessage(error) }
+  }
+
+  // Voided purchases and issues no longer affect the count
+  const stockTakes = (data || []).map((stockTake) => ({
+    ...stockTake,
+    flagged_purchases: (stockTake.flagged_purchases || []).filter((purchase: { deleted_at: string | null }) => !purchase.deleted_at),
+    flagged_issues: (stockTake.flagged_issues || []).filter((issue: { deleted_at: string | null }) => !issue.deleted_at),
+  }))
+
+  return { data: stockTakes, error: null }
+}
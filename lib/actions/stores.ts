@@ -3,6 +3,7 @@
 import { createClient } from '@/lib/supabase/server'
 import { revalidatePath } from 'next/cache'
 import { getErrorMessage } from '@/lib/utils/errors'
+import { authorize } from '@/lib/utils/permissions'
 
 export interface CreateCentralStoreInput {
   name: string
@@ -20,20 +21,9 @@ export interface UpdateCentralStoreInput {
 export async function createCentralStore(input: CreateCentralStoreInput) {
   const supabase = await createClient()
 
-  const { data: { user } } = await supabase.auth.getUser()
+  const { user, error: authError } = await authorize(supabase, 'manage_stores')
   if (!user) {
-    return { error: 'Not authenticated' }
-  }
-
-  // Only admins can create central stores
-  const { data: profile } = await supabase
-    .from('user_profiles')
-    .select('role')
-    .eq('id', user.id)
-    .single()
-
-  if (!profile || profile.role !== 'admin') {
-    return { error: 'Unauthorized: Admin access required' }
+    return { error: authError }
   }
 
   const { data, error } = await supabase
@@ -61,20 +51,9 @@ export async function createCentralStore(input: CreateCentralStoreInput) {
 export async function updateCentralStore(input: UpdateCentralStoreInput) {
   const supabase = await createClient()
 
-  const { data: { user } } = await supabase.auth.getUser()
+  const { user, error: authError } = await authorize(supabase, 'manage_stores')
   if (!user) {
-    return { error: 'Not authenticated' }
-  }
-
-  // Only admins can update central stores
-  const { data: profile } = await supabase
-    .from('user_profiles')
-    .select('role')
-    .eq('id', user.id)
-    .single()
-
-  if (!profile || profile.role !== 'admin') {
-    return { error: 'Unauthorized: Admin access required' }
+    return { error: authError }
   }
 
   // Verify it's a central store
@@ -111,20 +90,9 @@ export async function updateCentralStore(input: UpdateCentralStoreInput) {
 export async function deleteCentralStore(storeId: string) {
   const supabase = await createClient()
 
-  const { data: { user } } = await supabase.auth.getUser()
+  const { user, error: authError } = await authorize(supabase, 'manage_stores')
   if (!user) {
-    return { error: 'Not authenticated' }
-  }
-
-  // Only admins can delete central stores
-  const { data: profile } = await supabase
-    .from('user_profiles')
-    .select('role')
-    .eq('id', user.id)
-    .single()
-
-  if (!profile || profile.role !== 'admin') {
-    return { error: 'Unauthorized: Admin access required' }
+    return { error: authError }
   }
 
   // Verify it's a central store
@@ -186,6 +154,55 @@ export async function deleteCentralStore(storeId: string) {
   return { error: null }
 }
 
+// A project store can only come back linked to a live project
+export async function restoreStore(storeId: string) {
+  const supabase = await createClient()
+
+  const { user, error: authError } = await authorize(supabase, ['restore_deleted', 'manage_stores'])
+  if (!user) {
+    return { error: authError }
+  }
+
+  const { data: store } = await supabase
+    .from('stores')
+    .select('id, type, project:projects(name, deleted_at)')
+    .eq('id', storeId)
+    .not('deleted_at', 'is', null)
+    .single()
+
+  if (!store) {
+    return { error: 'Deleted store not found' }
+  }
+
+  const project = store.project as unknown as { name: string; deleted_at: string | null } | null
+  if (store.type === 'project') {
+    if (!project) {
+      return { error: 'This store is no longer linked to a project' }
+    }
+    if (project.deleted_at) {
+      return { error: `Restore the project ${project.name} first` }
+    }
+  }
+
+  const { error } = await supabase
+    .from('stores')
+    .update({
+      deleted_at: null,
+      deleted_by: null,
+    })
+    .eq('id', storeId)
+
+  if (error) {
+    return { error: getErrorMessage(error) }
+  }
+
+  revalidatePath('/stores')
+  revalidatePath('/purchases')
+  revalidatePath('/inventory')
+  revalidatePath('/recycle-bin')
+  return { error: null }
+}
+
 export async function getCentralStores() {
   const supabase = await createClient()
 
@@ -0,0 +1,161 @@
+'use server'
+
+import { createClient } from '@/lib/supabase/server'
+import { revalidatePath } from 'next/cache'
+import type { CreateSupplierInput, UpdateSupplierInput } from '@/lib/types'
+import { getErrorMessage } from '@/lib/utils/errors'
+import { authorize } from '@/lib/utils/permissions'
+
+export async function createSupplier(input: CreateSupplierInput) {
+  const supabase = await createClient()
+
+  const { user, error: authError } = await authorize(supabase, 'manage_suppliers')
+  if (!user) {
+    return { error: authError }
+  }
+
+  const { data, error } = await supabase
+    .from('suppliers')
+    .insert({
+      name: input.name.trim(),
+      contact_person: input.contact_person || null,
+      phone: input.phone || null,
+      email: input.email || null,
+      address: input.address || null,
+      tax_number: input.tax_number || null,
+      notes: input.notes || null,
+    })
+    .select()
+    .single()
+
+  if (error) {
+    return { error: getErrorMessage(error) }
+  }
+
+  revalidatePath('/suppliers')
+  return { data, error: null }
+}
+
+export async function updateSupplier(input: UpdateSupplierInput) {
+  const supabase = await createClient()
+
+  const { user, error: authError } = await authorize(supabase, 'manage_suppliers')
+  if (!user) {
+    return { error: authError }
+  }
+
+  const updateData: Record<string, unknown> = {}
+  if (input.name !== undefined) updateData.name = input.name.trim()
+  if (input.contact_person !== undefined) updateData.contact_person = input.contact_person || null
+  if (input.phone !== undefined) updateData.phone = input.phone || null
+  if (input.email !== undefined) updateData.email = input.email || null
+  if (input.address !== undefined) updateData.address = input.address || null
+  if (input.tax_number !== undefined) updateData.tax_number = input.tax_number || null
+  if (input.notes !== undefined) updateData.notes = input.notes || null
+
+  const { data, error } = await supabase
+    .from('suppliers')
+    .update(updateData)
+    .eq('id', input.id)
+    .select()
+    .single()
+
+  if (error) {
+    return { error: getErrorMessage(error) }
+  }
+
+  revalidatePath('/suppliers')
+  revalidatePath('/purchases')
+  return { data, error: null }
+}
+
+export async function deleteSupplier(supplierId: string) {
+  const supabase = await createClient()
+
+  const { user, error: authError } = await authorize(supabase, 'manage_suppliers')
+  if (!user) {
+    return { error: authError }
+  }
+
+  // Past purchases keep pointing at the supplier so history stays intact
+  const { error } = await supabase
+    .from('suppliers')
+    .update({
+      deleted_at: new Date().toISOString(),
+      deleted_by: user.id,
+    })
+    .eq('id', supplierId)
+
+  if (error) {
+    return { error: getErrorMessage(error) }
+  }
+
+  revalidatePath('/suppliers')
+  return { error: null }
+}
+
+// Supplier names are only unique among active suppliers, so a new one may
+// have taken the name since
+export async function restoreSupplier(supplierId: string) {
+  const supabase = await createClient()
+
+  const { user, error: authError } = await authorize(supabase, ['restore_deleted', 'manage_suppliers'])
+  if (!user) {
+    return { error: authError }
+  }
+
+  const { data: supplier } = await supabase
+    .from('suppliers')
+    .select('id, name')
+    .eq('id', supplierId)
+    .not('deleted_at', 'is', null)
+    .single()
+
+  if (!supplier) {
+    return { error: 'Deleted supplier not found' }
+  }
+
+  const { data: clash } = await supabase
+    .from('suppliers')
+    .select('id')
+    .ilike('name', supplier.name.replace(/[\\%_]/g, '\\$&'))
+    .is('deleted_at', null)
+    .limit(1)
+
+  if (clash && clash.length > 0) {
+    return { error: `Another supplier is already named ${supplier.name}. Rename it before restoring this one.` }
+  }
+
+  const { error } = await supabase
+    .from('suppliers')
+    .update({
+      deleted_at: null,
+      deleted_by: null,
+    })
+    .eq('id', supplierId)
+
+  if (error) {
+    return { error: getErrorMessage(error) }
+  }
+
+  revalidatePath('/suppliers')
+  revalidatePath('/recycle-bin')
+  return { error: null }
+}
+
+export async function getSuppliers() {
+  const supabase = await createClient()
+
+  const { data: { user } } = await supabase.auth.getUser()
+  if (!user) {
+    return { data: null, error: 'Not authenticated' }
+  }
+
+  const { data, error } = await supabase
+    .from('suppliers')
+    .select('*')
+    .is('deleted_at', null)
+    .order('name', { ascending: true })
+
+  return { data, error }
+}
@@ -3,26 +3,111 @@
 import { createClient } from '@/lib/supabase/server'
 import { createAdminClient } from '@/lib/supabase/admin'
 import { revalidatePath } from 'next/cache'
-import type { CreateUserInput, UpdateUserInput } from '@/lib/types'
+import type { CreateUserInput, Permission, UpdateUserInput } from '@/lib/types'
 import { getErrorMessage } from '@/lib/utils/errors'
+import { authorize } from '@/lib/utils/permissions'
+import { notifyInBackground, notifyUserCreated } from '@/lib/email/notify'
+
+// Users can't hand out permissions they don't hold themselves
+async function getRoleAssignmentError(
+  supabase: Awaited<ReturnType<typeof createClient>>,
+  roleId: string,
+  permissions: Permission[]
+) {
+  const { data: role } = await supabase
+    .from('roles')
+    .select('name, role_permissions(permission)')
+    .eq('id', roleId)
+    .single()
+
+  if (!role) {
+    return 'Role not found'
+  }
+
+  const rolePermissions = role.role_permissions as unknown as { permission: Permission }[]
+  if (rolePermissions.some((row) => !permissions.includes(row.permission))) {
+    return `You can't assign the ${role.name} role because it has permissions you don't have`
+  }
+  return null
+}
+
+// The stores must exist and match the kind of store the role works with
+async function getStoreAssignmentError(
+  supabase: Awaited<ReturnType<typeof createClient>>,
+  roleId: string,
+  storeIds: string[]
+) {
+  const { data: role } = await supabase
+    .from('roles')
+    .select('name, store_access')
+    .eq('id', roleId)
+    .single()
+
+  if (!role) {
+    return 'Role not found'
+  }
+
+  if (role.store_access === 'admin') {
+    return storeIds.length > 0 ? `The ${role.name} role already has every store` : null
+  }
+
+  if (storeIds.length === 0) {
+    return `Assign at least one store to users with the ${role.name} role`
+  }
+
+  const { data: stores } = await supabase
+    .from('stores')
+    .select('id, name, type')
+    .in('id', storeIds)
+    .is('deleted_at', null)
+
+  if (!stores || stores.length !== new Set(storeIds).size) {
+    return 'One or more of the selected stores were not found'
+  }
+
+  const storeType = role.store_access === 'central_store_manager' ? 'central' : 'project'
+  const wrongStore = stores.find((store) => store.type !== storeType)
+  if (wrongStore) {
+    return `The ${role.name} role works with ${storeType} stores, so ${wrongStore.name} can't be assigned`
+  }
+  return null
+}
+
+// Only the changes are written so the audit log shows which stores were added or removed
+async function getStoreAssignmentChanges(
+  supabase: Awaited<ReturnType<typeof createClient>>,
+  userId: string,
+  storeIds: string[]
+) {
+  const { data: current } = await supabase
+    .from('user_store_assignments')
+    .select('store_id')
+    .eq('user_id', userId)
+
+  const currentStoreIds = (current || []).map((row) => row.store_id as string)
+  return {
+    added: Array.from(new Set(storeIds)).filter((storeId) => !currentStoreIds.includes(storeId)),
+    removed: currentStoreIds.filter((storeId) => !storeIds.includes(storeId)),
+  }
+}
 
 export async function createUser(input: CreateUserInput) {
   const supabase = await createClient()
 
-  // Check if current user is admin
-  const { data: { user: currentUser } } = await supabase.auth.getUser()
-  if (!currentUser) {
-    return { error: 'Not authenticated' }
+  const { profile, error: authError } = await authorize(supabase, 'manage_users')
+  if (!profile) {
+    return { error: authError }
   }
 
-  const { data: profile } = await supabase
-    .from('user_profiles')
-    .select('role')
-    .eq('id', currentUser.id)
-    .single()
+  const roleError = await getRoleAssignmentError(supabase, input.role_id, profile.permissions)
+  if (roleError) {
+    return { error: roleError }
+  }
 
-  if (!profile || profile.role !== 'admin') {
-    return { error: 'Unauthorized: Admin access required' }
+  const storeIds = input.store_ids || []
+  const storeError = await getStoreAssignmentError(supabase, input.role_id, storeIds)
+  if (storeError) {
+    return { error: storeError }
   }
 
   try {
@@ -43,12 +128,11 @@ export async function createUser(input: CreateUserInput) {
       return { error: authError ? getErrorMessage(authError) : 'Failed to create user' }
     }
 
-    // Update user profile with role and project
+    // Update user profile with role, then assign the stores
     const { error: profileError } = await adminClient
       .from('user_profiles')
       .update({
-        role: input.role,
-        project_id: input.project_id || null,
+        role_id: input.role_id,
         full_name: input.full_name || null,
       })
       .eq('id', authData.user.id)
@@ -57,6 +141,18 @@ export async function createUser(input: CreateUserInput) {
       return { error: getErrorMessage(profileError) }
     }
 
+    if (storeIds.length > 0) {
+      const { error: assignmentError } = await supabase
+        .from('user_store_assignments')
+        .insert(storeIds.map((storeId) => ({ user_id: authData.user.id, store_id: storeId, created_by: profile.id })))
+
+      if (assignmentError) {
+        return { error: getErrorMessage(assignmentError) }
+      }
+    }
+
+    notifyInBackground(() => notifyUserCreated(authData.user.id, profile.id))
+
     revalidatePath('/users')
     return { data: authData.user, error: null }
   } catch (error: any) {
@@ -67,33 +163,77 @@ export async function createUser(input: CreateUserInput) {
 export async function updateUser(input: UpdateUserInput) {
   const supabase = await createClient()
 
-  const { data: { user: currentUser } } = await supabase.auth.getUser()
-  if (!currentUser) {
-    return { error: 'Not authenticated' }
+  const { profile, error: authError } = await authorize(supabase, 'manage_users')
+  if (!profile) {
+    return { error: authError }
   }
 
-  const { data: profile } = await supabase
+  const { data: target } = await supabase
     .from('user_profiles')
-    .select('role')
-    .eq('id', currentUser.id)
+    .select('role_id, store_assignments:user_store_assignments(store_id)')
+    .eq('id', input.id)
     .single()
 
-  if (!profile || profile.role !== 'admin') {
-    return { error: 'Unauthorized: Admin access required' }
+  if (!target) {
+    return { error: 'User not found' }
+  }
+
+  if (input.role_id !== undefined && target.role_id !== input.role_id) {
+    const roleError = await getRoleAssignmentError(supabase, input.role_id, profile.permissions)
+    if (roleError) {
+      return { error: roleError }
+    }
+  }
+
+  // A new role has to fit the stores the user keeps, and new stores the role
+  const roleId = input.role_id ?? target.role_id
+  const storeIds = input.store_ids ?? (target.store_assignments || []).map((row) => row.store_id as string)
+  if (input.role_id !== undefined || input.store_ids !== undefined) {
+    const storeError = await getStoreAssignmentError(supabase, roleId, storeIds)
+    if (storeError) {
+      return { error: storeError }
+    }
+  }
+
+  const { added, removed } = await getStoreAssignmentChanges(supabase, input.id, storeIds)
+
+  // Removed stores go before the role changes, added ones after, so each
+  // assignment is checked against the role it will be used with
+  if (removed.length > 0) {
+    const { error } = await supabase
+      .from('user_store_assignments')
+      .delete()
+      .eq('user_id', input.id)
+      .in('store_id', removed)
+
+    if (error) {
+      return { error: getErrorMessage(error) }
+    }
   }
 
   const updateData: any = {}
   if (input.full_name !== undefined) updateData.full_name = input.full_name
-  if (input.role !== undefined) updateData.role = input.role
-  if (input.project_id !== undefined) updateData.project_id = input.project_id
+  if (input.role_id !== undefined) updateData.role_id = input.role_id
 
-  const { error } = await supabase
-    .from('user_profiles')
-    .update(updateData)
-    .eq('id', input.id)
+  if (Object.keys(updateData).length > 0) {
+    const { error } = await supabase
+      .from('user_profiles')
+      .update(updateData)
+      .eq('id', input.id)
 
-  if (error) {
-    return { error: getErrorMessage(error) }
+    if (error) {
+      return { error: getErrorMessage(error) }
+    }
+  }
+
+  if (added.length > 0) {
+    const { error } = await supabase
+      .from('user_store_assignments')
+      .insert(added.map((storeId) => ({ user_id: input.id, store_id: storeId, created_by: profile.id })))
+
+    if (error) {
+      return { error: getErrorMessage(error) }
+    }
   }
 
   revalidatePath('/users')
@@ -103,19 +243,9 @@ export async function updateUser(input: UpdateUserInput) {
 export async function resetUserPassword(userId: string, newPassword: string) {
   const supabase = await createClient()
 
-  const { data: { user: currentUser } } = await supabase.auth.getUser()
+  const { user: currentUser, error: authError } = await authorize(supabase, 'manage_users')
   if (!currentUser) {
-    return { error: 'Not authenticated' }
-  }
-
-  const { data: profile } = await supabase
-    .from('user_profiles')
-    .select('role')
-    .eq('id', currentUser.id)
-    .single()
-
-  if (!profile || profile.role !== 'admin') {
-    return { error: 'Unauthorized: Admin access required' }
+    return { error: authError }
   }
 
   if (!newPassword || newPassword.length < 6) {
@@ -141,19 +271,9 @@ export async function resetUserPassword(userId: string, newPassword: string) {
 export async function deleteUser(userId: string) {
   const supabase = await createClient()
 
-  const { data: { user: currentUser } } = await supabase.auth.getUser()
+  const { user: currentUser, error: authError } = await authorize(supabase, 'manage_users')
   if (!currentUser) {
-    return { error: 'Not authenticated' }
-  }
-
-  const { data: profile } = await supabase
-    .from('user_profiles')
-    .select('role')
-    .eq('id', currentUser.id)
-    .single()
-
-  if (!profile || profile.role !== 'admin') {
-    return { error: 'Unauthorized: Admin access required' }
+    return { error: authError }
   }
 
   try {
@@ -188,29 +308,90 @@ export async function deleteUser(userId: string) {
   }
 }
 
-export async function getUsers() {
+export async function restoreUser(userId: string) {
   const supabase = await createClient()
 
-  const { data: { user } } = await supabase.auth.getUser()
-  if (!user) {
-    return { data: null, error: 'Not authenticated' }
+  const { user: currentUser, error: authError } = await authorize(supabase, ['restore_deleted', 'manage_users'])
+  if (!currentUser) {
+    return { error: authError }
   }
 
-  const { data: profile } = await supabase
+  const { data: deletedUser } = await supabase
     .from('user_profiles')
-    .select('role')
-    .eq('id', user.id)
+    .select('id, role, store_assignments:user_store_assignments(store:stores(name, deleted_at))')
+    .eq('id', userId)
+    .not('deleted_at', 'is', null)
     .single()
 
-  if (!profile || profile.role !== 'admin') {
-    return { data: null, error: 'Unauthorized: Admin access required' }
+  if (!deletedUser) {
+    return { error: 'Deleted user not found' }
+  }
+
+  // Store managers need at least one of their stores back first
+  const assignedStores = (deletedUser.store_assignments || []).map(
+    (row) => row.store as unknown as { name: string; deleted_at: string | null }
+  )
+  if (
+    deletedUser.role !== 'admin' &&
+    assignedStores.length > 0 &&
+    assignedStores.every((store) => store.deleted_at)
+  ) {
+    return {
+      error: `Restore ${assignedStores.map((store) => store.name).join(', ')} first, or reassign the user after restoring`,
+    }
+  }
+
+  try {
+    const { error: profileError } = await supabase
+      .from('user_profiles')
+      .update({
+        deleted_at: null,
+        deleted_by: null,
+      })
+      .eq('id', userId)
+
+    if (profileError) {
+      return { error: getErrorMessage(profileError) }
+    }
+
+    // Lift the ban placed when the user was deleted
+    const adminClient = createAdminClient()
+    const { error: authError } = await adminClient.auth.admin.updateUserById(userId, {
+      ban_duration: 'none',
+    })
+
+    if (authError) {
+      return { error: getErrorMessage(authError) }
+    }
+
+    revalidatePath('/users')
+    revalidatePath('/recycle-bin')
+    return { error: null }
+  } catch (error) {
+    return { error: getErrorMessage(error) || 'Failed to restore user' }
+  }
+}
+
+export async function getUsers() {
+  const supabase = await createClient()
+
+  const { user, error: authError } = await authorize(supabase, 'manage_users')
+  if (!user) {
+    return { data: null, error: authError }
   }
 
   const { data, error } = await supabase
     .from('user_profiles')
     .select(`
       *,
-      projects:project_id (
+      store_assignments:user_store_assignments (
+        store:stores (
+          id,
+          name,
+          type
+        )
+      ),
+      roles:role_id (
         id,
         name
       )
@@ -221,3 +402,28 @@ export async function getUsers() {
   return { data, error }
 }
 
+
+export async function getAssignableStores() {
+  const supabase = await createClient()
+
+  const { user, error: authError } = await authorize(supabase, 'manage_users')
+  if (!user) {
+    return { data: null, error: authError }
+  }
+
+  const { data, error } = await supabase
+    .from('stores')
+    .select(`
+      *,
+      project:projects(*)
+    `)
+    .is('deleted_at', null)
+    .order('type', { ascending: true })
+    .order('name', { ascending: true })
+
+  if (error) {
+    return { data: null, error: getErrorMessage(error) }
+  }
+
+  return { data, error: null }
+}
@@ -0,0 +1,13 @@
+import type { AdjustmentReason } from '@/lib/types'
+
+export const ADJUSTMENT_REASON_OPTIONS: { value: AdjustmentReason; label: string }[] = [
+  { value: 'damaged', label: 'Damaged' },
+  { value: 'lost', label: 'Lost / Stolen' },
+  { value: 'expired', label: 'Expired' },
+  { value: 'found', label: 'Found' },
+  { value: 'count_correction', label: 'Count Correction' },
+]
+
+export const ADJUSTMENT_REASON_LABELS = Object.fromEntries(
+  ADJUSTMENT_REASON_OPTIONS.map((option) => [option.value, option.label])
+) as Record<AdjustmentReason, string>
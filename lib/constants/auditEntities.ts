@@ -0,0 +1,48 @@
+import type { AuditAction } from '@/lib/types'
+
+// Tables with an audit trigger (see supabase/add-audit-log.sql and later migrations)
+export const AUDIT_ENTITY_OPTIONS: { value: string; label: string }[] = [
+  { value: 'categories', label: 'Categories' },
+  { value: 'products', label: 'Products' },
+  { value: 'reorder_levels', label: 'Reorder Levels' },
+  { value: 'suppliers', label: 'Suppliers' },
+  { value: 'projects', label: 'Projects' },
+  { value: 'stores', label: 'Stores' },
+  { value: 'user_profiles', label: 'Users' },
+  { value: 'user_store_assignments', label: 'User Store Assignments' },
+  { value: 'roles', label: 'Roles' },
+  { value: 'role_permissions', label: 'Role Permissions' },
+  { value: 'exchange_rates', label: 'Exchange Rates' },
+  { value: 'costing_settings', label: 'Costing Settings' },
+  { value: 'purchases', label: 'Purchases' },
+  { value: 'purchase_invoices', label: 'Purchase Invoices' },
+  { value: 'purchase_orders', label: 'Purchase Orders' },
+  { value: 'purchase_order_items', label: 'Purchase Order Items' },
+  { value: 'goods_received_notes', label: 'Goods Received Notes' },
+  { value: 'purchase_returns', label: 'Purchase Returns' },
+  { value: 'issues', label: 'Issues' },
+  { value: 'issue_vouchers', label: 'Issue Vouchers' },
+  { value: 'issue_requisitions', label: 'Requisitions' },
+  { value: 'issue_requisition_items', label: 'Requisition Items' },
+  { value: 'issue_returns', label: 'Issue Returns' },
+  { value: 'inventory_adjustments', label: 'Inventory Adjustments' },
+  { value: 'stock_takes', label: 'Stock Takes' },
+  { value: 'stock_take_items', label: 'Stock Take Items' },
+  { value: 'accounting_periods', label: 'Accounting Periods' },
+]
+
+export const AUDIT_ENTITY_LABELS = Object.fromEntries(
+  AUDIT_ENTITY_OPTIONS.map((option) => [option.value, option.label])
+) as Record<string, string>
+
+export const AUDIT_ACTION_OPTIONS: { value: AuditAction; label: string }[] = [
+  { value: 'insert', label: 'Created' },
+  { value: 'update', label: 'Updated' },
+  { value: 'soft_delete', label: 'Deleted' },
+  { value: 'restore', label: 'Restored' },
+  { value: 'delete', label: 'Removed' },
+]
+
+export const AUDIT_ACTION_LABELS = Object.fromEntries(
+  AUDIT_ACTION_OPTIONS.map((option) => [option.value, option.label])
+) as Record<AuditAction, string>
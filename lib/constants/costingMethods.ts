@@ -0,0 +1,10 @@
+import type { CostingMethod } from '@/lib/types'
+
+export const COSTING_METHOD_OPTIONS: { value: CostingMethod; label: string }[] = [
+  { value: 'weighted_average', label: 'Moving Weighted Average' },
+  { value: 'fifo', label: 'FIFO (First In, First Out)' },
+]
+
+export const COSTING_METHOD_LABELS = Object.fromEntries(
+  COSTING_METHOD_OPTIONS.map((option) => [option.value, option.label])
+) as Record<CostingMethod, string>
@@ -0,0 +1,10 @@
+export const BASE_CURRENCY = 'PKR'
+
+export const CURRENCY_OPTIONS: { value: string; label: string }[] = [
+  { value: 'PKR', label: 'PKR - Pakistani Rupee' },
+  { value: 'USD', label: 'USD - US Dollar' },
+  { value: 'CNY', label: 'CNY - Chinese Yuan' },
+  { value: 'EUR', label: 'EUR - Euro' },
+  { value: 'GBP', label: 'GBP - British Pound' },
+  { value: 'AED', label: 'AED - UAE Dirham' },
+]
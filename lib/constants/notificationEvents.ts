@@ -0,0 +1,29 @@
+import type { NotificationEvent } from '@/lib/types'
+
+// Must match the event_type check on notification_preferences (see supabase/add-email-notifications.sql)
+export const NOTIFICATION_EVENT_OPTIONS: { value: NotificationEvent; label: string; description: string }[] = [
+  {
+    value: 'low_stock',
+    label: 'Low stock',
+    description: 'A product in one of your stores falls to its reorder point.',
+  },
+  {
+    value: 'large_issue',
+    label: 'Large issues',
+    description: 'A large quantity of stock is issued from or to one of your stores.',
+  },
+  {
+    value: 'purchase_edited',
+    label: 'Purchase edits',
+    description: 'Someone other than an administrator edits a purchase.',
+  },
+  {
+    value: 'user_created',
+    label: 'New users',
+    description: 'A new user account is created.',
+  },
+]
+
+export const NOTIFICATION_EVENT_LABELS = Object.fromEntries(
+  NOTIFICATION_EVENT_OPTIONS.map((option) => [option.value, option.label])
+) as Record<NotificationEvent, string>
@@ -0,0 +1,52 @@
+import type { Permission, UserRole } from '@/lib/types'
+
+// Must match the app_permission enum (see supabase/add-roles-and-permissions.sql)
+export const PERMISSION_OPTIONS: { value: Permission; label: string; group: string }[] = [
+  { value: 'manage_users', label: 'Manage users', group: 'Administration' },
+  { value: 'manage_roles', label: 'Manage roles and permissions', group: 'Administration' },
+  { value: 'view_audit_log', label: 'View the audit log', group: 'Administration' },
+  { value: 'restore_deleted', label: 'Restore deleted records', group: 'Administration' },
+  { value: 'close_periods', label: 'Close and reopen accounting periods', group: 'Administration' },
+  { value: 'manage_projects', label: 'Manage projects', group: 'Master Data' },
+  { value: 'manage_stores', label: 'Manage central stores', group: 'Master Data' },
+  { value: 'manage_categories', label: 'Manage categories', group: 'Master Data' },
+  { value: 'manage_suppliers', label: 'Manage suppliers', group: 'Master Data' },
+  { value: 'manage_products', label: 'Manage products', group: 'Master Data' },
+  { value: 'manage_exchange_rates', label: 'Manage exchange rates', group: 'Master Data' },
+  { value: 'manage_costing', label: 'Change the costing method', group: 'Master Data' },
+  { value: 'create_purchases', label: 'Record purchases and invoices', group: 'Purchasing' },
+  { value: 'edit_purchases', label: 'Edit purchases', group: 'Purchasing' },
+  { value: 'delete_purchases', label: 'Delete purchases, invoices and returns', group: 'Purchasing' },
+  { value: 'raise_purchase_orders', label: 'Raise purchase orders', group: 'Purchasing' },
+  { value: 'approve_purchase_orders', label: 'Approve purchase orders', group: 'Purchasing' },
+  { value: 'receive_goods', label: 'Receive goods', group: 'Purchasing' },
+  { value: 'return_purchases', label: 'Return goods to suppliers', group: 'Purchasing' },
+  { value: 'issue_stock', label: 'Issue stock', group: 'Issuing' },
+  { value: 'edit_issues', label: 'Correct and delete issues', group: 'Issuing' },
+  { value: 'request_stock', label: 'Raise requisitions', group: 'Issuing' },
+  { value: 'approve_requisitions', label: 'Approve and fulfil requisitions', group: 'Issuing' },
+  { value: 'return_issues', label: 'Return issued stock', group: 'Issuing' },
+  { value: 'create_adjustments', label: 'Record stock adjustments', group: 'Stock Control' },
+  { value: 'approve_adjustments', label: 'Approve stock adjustments', group: 'Stock Control' },
+  { value: 'count_stock', label: 'Count stock', group: 'Stock Control' },
+  { value: 'approve_stock_takes', label: 'Approve stock takes', group: 'Stock Control' },
+  { value: 'view_reports', label: 'View reports', group: 'Reporting' },
+  { value: 'view_prices', label: 'View prices and stock values for every store', group: 'Reporting' },
+  { value: 'view_central_prices', label: 'View stock values for central stores', group: 'Reporting' },
+]
+
+export const PERMISSION_LABELS = Object.fromEntries(
+  PERMISSION_OPTIONS.map((option) => [option.value, option.label])
+) as Record<Permission, string>
+
+export const PERMISSION_GROUPS = Array.from(new Set(PERMISSION_OPTIONS.map((option) => option.group)))
+
+// Custom roles can't reach every store; that stays with the built-in Administrator role
+export const STORE_ACCESS_OPTIONS: { value: UserRole; label: string }[] = [
+  { value: 'central_store_manager', label: 'Assigned central stores' },
+  { value: 'project_store_manager', label: 'Assigned project stores' },
+]
+
+export const STORE_ACCESS_LABELS = Object.fromEntries(
+  [{ value: 'admin', label: 'Every store' }, ...STORE_ACCESS_OPTIONS].map((option) => [option.value, option.label])
+) as Record<UserRole, string>
@@ -0,0 +1,15 @@
+import type { RecycleBinEntity } from '@/lib/types'
+
+export const RECYCLE_BIN_ENTITY_OPTIONS: { value: RecycleBinEntity; label: string }[] = [
+  { value: 'purchases', label: 'Purchases' },
+  { value: 'products', label: 'Products' },
+  { value: 'categories', label: 'Categories' },
+  { value: 'suppliers', label: 'Suppliers' },
+  { value: 'projects', label: 'Projects' },
+  { value: 'stores', label: 'Stores' },
+  { value: 'users', label: 'Users' },
+]
+
+export const RECYCLE_BIN_ENTITY_LABELS = Object.fromEntries(
+  RECYCLE_BIN_ENTITY_OPTIONS.map((option) => [option.value, option.label])
+) as Record<RecycleBinEntity, string>
@@ -0,0 +1,53 @@
+import { randomUUID } from 'node:crypto'
+import type { EmailMessage } from '@/lib/email/transport'
+
+// RFC 2047 encoding so non-ASCII subjects survive every mail server
+function encodeHeader(value: string): string {
+  return /^[\x20-\x7e]*$/.test(value) ? value : `=?UTF-8?B?${Buffer.from(value, 'utf8').toString('base64')}?=`
+}
+
+function encodeBody(value: string): string {
+  return Buffer.from(value, 'utf8').toString('base64').replace(/.{76}/g, '$&\r\n')
+}
+
+/** Builds the raw RFC 5322 message, with an HTML alternative when one is given */
+export function buildMimeMessage(message: EmailMessage): string {
+  const headers = [
+    `From: ${message.from}`,
+    `To: ${message.to.join(', ')}`,
+    `Subject: ${encodeHeader(message.subject)}`,
+    `Date: ${new Date().toUTCString()}`,
+    `Message-ID: <${randomUUID()}@${message.from.split('@')[1]?.replace(/>.*$/, '') || 'localhost'}>`,
+    'MIME-Version: 1.0',
+  ]
+
+  if (!message.html) {
+    return [
+      ...headers,
+      'Content-Type: text/plain; charset=utf-8',
+      'Content-Transfer-Encoding: base64',
+      '',
+      encodeBody(message.text),
+      '',
+    ].join('\r\n')
+  }
+
+  const boundary = `----=_Part_${randomUUID()}`
+  return [
+    ...headers,
+    `Content-Type: multipart/alternative; boundary="${boundary}"`,
+    '',
+    `--${boundary}`,
+    'Content-Type: text/plain; charset=utf-8',
+    'Content-Transfer-Encoding: base64',
+    '',
+    encodeBody(message.text),
+    `--${boundary}`,
+    'Content-Type: text/html; charset=utf-8',
+    'Content-Transfer-Encoding: base64',
+    '',
+    encodeBody(message.html),
+    `--${boundary}--`,
+    '',
+  ].join('\r\n')
+}
@@ -0,0 +1,277 @@
+import { after } from 'next/server'
+import { createAdminClient } from '@/lib/supabase/admin'
+import type { NotificationEvent, Permission, UserRole } from '@/lib/types'
+import { getEmailTransport } from '@/lib/email/transport'
+import {
+  largeIssueEmail,
+  lowStockEmail,
+  purchaseEditedEmail,
+  userCreatedEmail,
+  type EmailContent,
+  type LowStockLine,
+} from '@/lib/email/templates'
+
+// Notifications read every user's address and preferences, which RLS only
+// shows to the users themselves, so they run with the service role client
+type AdminClient = ReturnType<typeof createAdminClient>
+
+interface Recipient {
+  id: string
+  email: string
+  name: string
+  role: UserRole
+  store_ids: string[]
+  permissions: Permission[]
+}
+
+// Issues worth at least this much (PKR) are emailed as large issues
+const DEFAULT_LARGE_ISSUE_VALUE = 100000
+
+function getLargeIssueValue() {
+  const value = Number(process.env.LARGE_ISSUE_VALUE)
+  return value > 0 ? value : DEFAULT_LARGE_ISSUE_VALUE
+}
+
+/**
+ * Run a notification after the response has been sent. Emails never hold up
+ * or fail the action that triggered them; problems are only logged.
+ */
+export function notifyInBackground(task: () => Promise<void>) {
+  after(() =>
+    task().catch((error) => {
+      console.error('Failed to send email notifications:', error)
+    })
+  )
+}
+
+async function getActiveUsers(admin: AdminClient): Promise<Recipient[]> {
+  const { data, error } = await admin
+    .from('user_profiles')
+    .select('id, email, full_name, role, assigned_role:roles!role_id(role_permissions(permission)), store_assignments:user_store_assignments(store_id)')
+    .is('deleted_at', null)
+
+  if (error) {
+    throw error
+  }
+
+  return (data || []).map((row) => {
+    const assignedRole = row.assigned_role as unknown as { role_permissions: { permission: Permission }[] } | null
+    return {
+      id: row.id,
+      email: row.email,
+      name: row.full_name || row.email,
+      role: row.role,
+      store_ids: (row.store_assignments || []).map((assignment: { store_id: string }) => assignment.store_id),
+      permissions: (assignedRole?.role_permissions || []).map((item) => item.permission),
+    }
+  })
+}
+
+// Everyone is subscribed to the events of their audience until they opt out
+async function withoutOptedOut(admin: AdminClient, event: NotificationEvent, recipients: Recipient[]) {
+  if (recipients.length === 0) {
+    return recipients
+  }
+
+  const { data, error } = await admin
+    .from('notification_preferences')
+    .select('user_id')
+    .eq('event_type', event)
+    .eq('email_enabled', false)
+    .in('user_id', recipients.map((recipient) => recipient.id))
+
+  if (error) {
+    throw error
+  }
+
+  const optedOut = new Set((data || []).map((row) => row.user_id))
+  return recipients.filter((recipient) => !optedOut.has(recipient.id))
+}
+
+function canSeeStore(recipient: Recipient, storeIds: string[]) {
+  return recipient.role === 'admin' || storeIds.some((storeId) => recipient.store_ids.includes(storeId))
+}
+
+// One email per recipient so addresses aren't shared; a failed address doesn't stop the rest
+async function deliver(recipients: Recipient[], content: EmailContent) {
+  if (recipients.length === 0) {
+    return
+  }
+
+  const transport = getEmailTransport()
+  const from = process.env.EMAIL_FROM || 'Inventory <no-reply@localhost>'
+
+  for (const recipient of recipients) {
+    try {
+      await transport.send({ from, to: [recipient.email], ...content })
+    } catch (error) {
+      console.error(`Failed to email ${recipient.email} via ${transport.name}:`, error)
+    }
+  }
+}
+
+/**
+ * Email the stock alerts raised since the last run. Alerts are claimed by
+ * setting emailed_at first, so overlapping runs never send one twice; alerts
+ * already resolved by the time they are claimed aren't sent at all.
+ */
+export async function sendPendingStockAlertEmails() {
+  const admin = createAdminClient()
+
+  const { data: claimed, error } = await admin
+    .from('stock_alerts')
+    .update({ emailed_at: new Date().toISOString() })
+    .is('emailed_at', null)
+    .select('id, store_id, quantity, reorder_point, resolved_at, store:stores(name), product:products(name, unit)')
+
+  if (error) {
+    throw error
+  }
+
+  const alerts = (claimed || []).filter((alert) => !alert.resolved_at)
+  if (alerts.length === 0) {
+    return
+  }
+
+  const users = await withoutOptedOut(admin, 'low_stock', await getActiveUsers(admin))
+
+  // Each recipient gets one email covering all of their stores
+  for (const recipient of users) {
+    const lines: LowStockLine[] = alerts
+      .filter((alert) => canSeeStore(recipient, [alert.store_id]))
+      .map((alert) => {
+        const store = alert.store as unknown as { name: string } | null
+        const product = alert.product as unknown as { name: string; unit: string } | null
+        return {
+          storeName: store?.name || 'Unknown store',
+          productName: product?.name || 'Unknown product',
+          unit: product?.unit || '',
+          quantity: Number(alert.quantity),
+          reorderPoint: Number(alert.reorder_point),
+        }
+      })
+
+    if (lines.length > 0) {
+      await deliver([recipient], lowStockEmail(lines))
+    }
+  }
+}
+
+/**
+ * Email the stores' users when an issue, or all lines of an issue voucher
+ * together, are worth at least LARGE_ISSUE_VALUE
+ */
+export async function notifyLargeIssue(source: { issueId: string } | { voucherId: string }, actorId: string) {
+  const admin = createAdminClient()
+
+  const { data: issues, error } = await admin
+    .from('issues')
+    .select('from_store_id, to_store_id, quantity, total_cost, issued_to_name, from_store:stores!issues_from_store_id_fkey(name), to_store:stores!issues_to_store_id_fkey(name), product:products(name, unit)')
+    .eq('issueId' in source ? 'id' : 'issue_voucher_id', 'issueId' in source ? source.issueId : source.voucherId)
+
+  if (error) {
+    throw error
+  }
+  if (!issues || issues.length === 0) {
+    return
+  }
+
+  const totalValue = issues.reduce((sum, issue) => sum + Number(issue.total_cost || 0), 0)
+  if (totalValue < getLargeIssueValue()) {
+    return
+  }
+
+  const first = issues[0]
+  const fromStore = first.from_store as unknown as { name: string } | null
+  const toStore = first.to_store as unknown as { name: string } | null
+  const storeIds = [first.from_store_id, first.to_store_id].filter((id): id is string => !!id)
+
+  const users = await getActiveUsers(admin)
+  const actor = users.find((user) => user.id === actorId)
+  const recipients = await withoutOptedOut(
+    admin,
+    'large_issue',
+    users.filter((user) => user.id !== actorId && canSeeStore(user, storeIds))
+  )
+
+  await deliver(
+    recipients,
+    largeIssueEmail({
+      issuedBy: actor?.name || 'Someone',
+      fromStoreName: fromStore?.name || 'Unknown store',
+      toStoreName: toStore?.name || first.issued_to_name || 'Unknown recipient',
+      totalValue,
+      lines: issues.map((issue) => {
+        const product = issue.product as unknown as { name: string; unit: string } | null
+        return {
+          productName: product?.name || 'Unknown product',
+          unit: product?.unit || '',
+          quantity: Number(issue.quantity),
+        }
+      }),
+    })
+  )
+}
+
+/** Email admins when someone who isn't an admin edits a purchase */
+export async function notifyPurchaseEdited({
+  actorId,
+  productName,
+  storeName,
+  changes,
+}: {
+  actorId: string
+  productName: string
+  storeName: string
+  changes: string[]
+}) {
+  const admin = createAdminClient()
+
+  const users = await getActiveUsers(admin)
+  const actor = users.find((user) => user.id === actorId)
+  const recipients = await withoutOptedOut(
+    admin,
+    'purchase_edited',
+    users.filter((user) => user.role === 'admin' && user.id !== actorId)
+  )
+
+  await deliver(
+    recipients,
+    purchaseEditedEmail({ editedBy: actor?.name || 'Someone', productName, storeName, changes })
+  )
+}
+
+/** Email the other users who manage users when an account is created */
+export async function notifyUserCreated(userId: string, actorId: string) {
+  const admin = createAdminClient()
+
+  const users = await getActiveUsers(admin)
+  const created = users.find((user) => user.id === userId)
+  if (!created) {
+    return
+  }
+
+  const { data: role } = await admin
+    .from('user_profiles')
+    .select('assigned_role:roles!role_id(name)')
+    .eq('id', userId)
+    .single()
+  const assignedRole = role?.assigned_role as unknown as { name: string } | null
+
+  const actor = users.find((user) => user.id === actorId)
+  const recipients = await withoutOptedOut(
+    admin,
+    'user_created',
+    users.filter((user) => user.permissions.includes('manage_users') && user.id !== actorId && user.id !== userId)
+  )
+
+  await deliver(
+    recipients,
+    userCreatedEmail({
+      createdBy: actor?.name || 'Someone',
+      email: created.email,
+      fullName: created.name === created.email ? null : created.name,
+      roleName: assignedRole?.name || 'assigned',
+    })
+  )
+}
@@ -0,0 +1,179 @@
+import net from 'node:net'
+import tls from 'node:tls'
+import { buildMimeMessage } from '@/lib/email/mime'
+import type { EmailTransport } from '@/lib/email/transport'
+
+export interface SmtpOptions {
+  host: string
+  port: number
+  // true for implicit TLS (usually port 465); otherwise STARTTLS is used when the server offers it
+  secure: boolean
+  user?: string
+  password?: string
+  // Sends credentials over a plain connection when the server offers no STARTTLS
+  allowInsecureAuth?: boolean
+  timeoutMs?: number
+}
+
+interface SmtpReply {
+  code: number
+  lines: string[]
+}
+
+// Reads SMTP replies off a socket; multi-line replies are joined into one
+class SmtpConnection {
+  private buffer = ''
+  private lines: string[] = []
+  private waiting: { resolve: (reply: SmtpReply) => void; reject: (error: Error) => void } | null = null
+  private failure: Error | null = null
+
+  constructor(public socket: net.Socket, timeoutMs: number) {
+    this.attach(socket, timeoutMs)
+  }
+
+  attach(socket: net.Socket, timeoutMs: number) {
+    this.socket = socket
+    socket.setEncoding('utf8')
+    socket.setTimeout(timeoutMs)
+    socket.on('data', (chunk: string) => {
+      this.buffer += chunk
+      let index
+      while ((index = this.buffer.indexOf('\r\n')) !== -1) {
+        this.lines.push(this.buffer.slice(0, index))
+        this.buffer = this.buffer.slice(index + 2)
+      }
+      this.flush()
+    })
+    socket.on('timeout', () => this.fail(new Error('SMTP connection timed out')))
+    socket.on('error', (error) => this.fail(error))
+    socket.on('close', () => this.fail(new Error('SMTP connection closed')))
+  }
+
+  private fail(error: Error) {
+    this.failure ??= error
+    this.socket.destroy()
+    if (this.waiting) {
+      this.waiting.reject(this.failure)
+      this.waiting = null
+    }
+  }
+
+  private flush() {
+    if (!this.waiting) return
+    // The last line of a reply has a space after the code, the others a dash
+    const end = this.lines.findIndex((line) => line.charAt(3) !== '-')
+    if (end === -1) return
+    const lines = this.lines.splice(0, end + 1)
+    const waiting = this.waiting
+    this.waiting = null
+    waiting.resolve({ code: parseInt(lines[0].slice(0, 3), 10), lines: lines.map((line) => line.slice(4)) })
+  }
+
+  read(): Promise<SmtpReply> {
+    if (this.failure) return Promise.reject(this.failure)
+    return new Promise((resolve, reject) => {
+      this.waiting = { resolve, reject }
+      this.flush()
+    })
+  }
+
+  // Sends a command and checks the reply has the expected code
+  async command(line: string | null, expected: number[]): Promise<SmtpReply> {
+    if (line !== null) {
+      this.socket.write(`${line}\r\n`)
+    }
+    const reply = await this.read()
+    if (!expected.includes(reply.code)) {
+      // Never echo credentials back into logs
+      const sent = line?.startsWith('AUTH') ? 'AUTH' : line
+      throw new Error(`SMTP ${sent ?? 'greeting'} failed: ${reply.code} ${reply.lines.join(' ')}`)
+    }
+    return reply
+  }
+
+  close() {
+    this.socket.removeAllListeners('close')
+    this.socket.end()
+  }
+}
+
+function connect(options: SmtpOptions): Promise<net.Socket> {
+  return new Promise((resolve, reject) => {
+    const socket = options.secure
+      ? tls.connect({ host: options.host, port: options.port, servername: options.host }, () => resolve(socket))
+      : net.connect({ host: options.host, port: options.port }, () => resolve(socket))
+    socket.once('error', reject)
+    socket.setTimeout(options.timeoutMs ?? 30000, () => {
+      socket.destroy()
+      reject(new Error('SMTP connection timed out'))
+    })
+  })
+}
+
+function upgradeToTls(socket: net.Socket, host: string): Promise<tls.TLSSocket> {
+  return new Promise((resolve, reject) => {
+    socket.removeAllListeners()
+    const secured = tls.connect({ socket, servername: host }, () => resolve(secured))
+    secured.once('error', reject)
+  })
+}
+
+// "Stores <stores@example.com>" -> "stores@example.com"
+function envelopeAddress(address: string): string {
+  const match = address.match(/<([^>]+)>/)
+  return (match ? match[1] : address).trim()
+}
+
+/**
+ * A minimal SMTP client: EHLO, STARTTLS, AUTH PLAIN and one message per
+ * connection. Notifications are infrequent, so there is no pooling.
+ * Credentials are only sent over TLS unless allowInsecureAuth is set.
+ */
+export function createSmtpTransport(options: SmtpOptions): EmailTransport {
+  const timeoutMs = options.timeoutMs ?? 30000
+
+  return {
+    name: 'smtp',
+    async send(message) {
+      const connection = new SmtpConnection(await connect(options), timeoutMs)
+
+      try {
+        await connection.command(null, [220])
+        const greeting = await connection.command('EHLO localhost', [250])
+
+        const supportsStartTls = greeting.lines.some((line) => line.toUpperCase() === 'STARTTLS')
+        let encrypted = options.secure
+        if (!options.secure && supportsStartTls) {
+          await connection.command('STARTTLS', [220])
+          connection.attach(await upgradeToTls(connection.socket, options.host), timeoutMs)
+          await connection.command('EHLO localhost', [250])
+          encrypted = true
+        }
+
+        if (options.user) {
+          // A missing STARTTLS may mean it was stripped in transit, so don't hand over the password
+          if (!encrypted && !options.allowInsecureAuth) {
+            throw new Error('SMTP server does not support STARTTLS; refusing to send credentials unencrypted')
+          }
+
+          const credentials = Buffer.from(`\0${options.user}\0${options.password ?? ''}`, 'utf8').toString('base64')
+          await connection.command(`AUTH PLAIN ${credentials}`, [235])
+        }
+
+        await connection.command(`MAIL FROM:<${envelopeAddress(message.from)}>`, [250])
+        for (const recipient of message.to) {
+          await connection.command(`RCPT TO:<${envelopeAddress(recipient)}>`, [250, 251])
+        }
+        await connection.command('DATA', [354])
+
+        // Lines starting with a dot are doubled so they aren't read as the end of the message
+        const body = buildMimeMessage(message).replace(/^\./gm, '..')
+        connection.socket.write(`${body}\r\n.\r\n`)
+        await connection.command(null, [250])
+        await connection.command('QUIT', [221]).catch(() => undefined)
+      } finally {
+        connection.close()
+      }
+    },
+  }
+}
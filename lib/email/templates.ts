@@ -0,0 +1,147 @@
+export interface EmailContent {
+  subject: string
+  text: string
+  html: string
+}
+
+export interface LowStockLine {
+  storeName: string
+  productName: string
+  unit: string
+  quantity: number
+  reorderPoint: number
+}
+
+export interface IssueLine {
+  productName: string
+  unit: string
+  quantity: number
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+}
+
+function appUrl(pathname: string): string | null {
+  const base = process.env.APP_URL
+  return base ? `${base.replace(/\/$/, '')}${pathname}` : null
+}
+
+// Every email is a heading, a few paragraphs, an optional list and a link into the app
+function render({
+  subject,
+  intro,
+  items = [],
+  outro,
+  pathname,
+}: {
+  subject: string
+  intro: string
+  items?: string[]
+  outro?: string
+  pathname: string
+}): EmailContent {
+  const link = appUrl(pathname)
+  const footer = 'You can turn these emails off in your notification preferences.'
+
+  const text = [
+    intro,
+    '',
+    ...items.map((item) => `- ${item}`),
+    ...(items.length > 0 ? [''] : []),
+    ...(outro ? [outro, ''] : []),
+    ...(link ? [`Open: ${link}`, ''] : []),
+    footer,
+  ].join('\n')
+
+  const html = [
+    `<div style="font-family: Arial, sans-serif; font-size: 14px; color: #111827;">`,
+    `<h2 style="color: #0067ac;">${escapeHtml(subject)}</h2>`,
+    `<p>${escapeHtml(intro)}</p>`,
+    items.length > 0 ? `<ul>${items.map((item) => `<li>${escapeHtml(item)}</li>`).join('')}</ul>` : '',
+    outro ? `<p>${escapeHtml(outro)}</p>` : '',
+    link ? `<p><a href="${escapeHtml(link)}" style="color: #0067ac;">Open in the app</a></p>` : '',
+    `<p style="font-size: 12px; color: #6b7280;">${footer}</p>`,
+    `</div>`,
+  ].join('')
+
+  return { subject, text, html }
+}
+
+export function lowStockEmail(alerts: LowStockLine[]): EmailContent {
+  return render({
+    subject: alerts.length === 1
+      ? `Low stock: ${alerts[0].productName} at ${alerts[0].storeName}`
+      : `Low stock: ${alerts.length} products need reordering`,
+    intro: 'These products have fallen to their reorder point:',
+    items: alerts.map(
+      (alert) =>
+        `${alert.productName} at ${alert.storeName}: ${alert.quantity} ${alert.unit} left (reorder point ${alert.reorderPoint} ${alert.unit})`
+    ),
+    pathname: '/reorder',
+  })
+}
+
+export function largeIssueEmail({
+  issuedBy,
+  fromStoreName,
+  toStoreName,
+  totalValue,
+  lines,
+}: {
+  issuedBy: string
+  fromStoreName: string
+  toStoreName: string
+  totalValue: number
+  lines: IssueLine[]
+}): EmailContent {
+  return render({
+    subject: `Large issue from ${fromStoreName} to ${toStoreName}`,
+    intro: `${issuedBy} issued stock worth PKR ${totalValue.toFixed(2)} from ${fromStoreName} to ${toStoreName}:`,
+    items: lines.map((line) => `${line.productName}: ${line.quantity} ${line.unit}`),
+    pathname: '/issues',
+  })
+}
+
+export function purchaseEditedEmail({
+  editedBy,
+  productName,
+  storeName,
+  changes,
+}: {
+  editedBy: string
+  productName: string
+  storeName: string
+  changes: string[]
+}): EmailContent {
+  return render({
+    subject: `Purchase of ${productName} edited by ${editedBy}`,
+    intro: `${editedBy} edited a purchase of ${productName} at ${storeName}.`,
+    items: changes,
+    outro: changes.length === 0 ? 'No values were changed.' : undefined,
+    pathname: '/purchases',
+  })
+}
+
+export function userCreatedEmail({
+  createdBy,
+  email,
+  fullName,
+  roleName,
+}: {
+  createdBy: string
+  email: string
+  fullName: string | null
+  roleName: string
+}): EmailContent {
+  const name = fullName ? `${fullName} (${email})` : email
+  return render({
+    subject: `New user: ${fullName || email}`,
+    intro: `${createdBy} created an account for ${name} with the ${roleName} role.`,
+    pathname: '/users',
+  })
+}
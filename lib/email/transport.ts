@@ -0,0 +1,76 @@
+import { mkdir, writeFile } from 'node:fs/promises'
+import path from 'node:path'
+import { randomUUID } from 'node:crypto'
+import { buildMimeMessage } from '@/lib/email/mime'
+import { createSmtpTransport } from '@/lib/email/smtp'
+
+export interface EmailMessage {
+  from: string
+  to: string[]
+  subject: string
+  text: string
+  html?: string
+}
+
+export interface EmailTransport {
+  name: string
+  send(message: EmailMessage): Promise<void>
+}
+
+// Prints emails to the server log instead of sending them
+export function createConsoleTransport(): EmailTransport {
+  return {
+    name: 'console',
+    async send(message) {
+      console.info(
+        ['[email]', `From: ${message.from}`, `To: ${message.to.join(', ')}`, `Subject: ${message.subject}`, '', message.text].join('\n')
+      )
+    },
+  }
+}
+
+// Writes each email as an .eml file that mail clients can open
+export function createFileTransport(directory: string): EmailTransport {
+  return {
+    name: 'file',
+    async send(message) {
+      await mkdir(directory, { recursive: true })
+      const fileName = `${new Date().toISOString().replace(/[:.]/g, '-')}-${randomUUID().slice(0, 8)}.eml`
+      await writeFile(path.join(directory, fileName), buildMimeMessage(message), 'utf8')
+    },
+  }
+}
+
+/**
+ * The transport chosen by EMAIL_TRANSPORT ('smtp', 'file' or 'console').
+ * Without it, emails go over SMTP when SMTP_HOST is set and to the console
+ * otherwise, so local development never needs a mail server.
+ */
+export function getEmailTransport(): EmailTransport {
+  const transport = process.env.EMAIL_TRANSPORT || (process.env.SMTP_HOST ? 'smtp' : 'console')
+
+  if (transport === 'smtp') {
+    if (!process.env.SMTP_HOST) {
+      throw new Error('SMTP_HOST is not set')
+    }
+    const secure = process.env.SMTP_SECURE === 'true'
+    return createSmtpTransport({
+      host: process.env.SMTP_HOST,
+      port: Number(process.env.SMTP_PORT) || (secure ? 465 : 587),
+      secure,
+      user: process.env.SMTP_USER,
+      password: process.env.SMTP_PASSWORD,
+      allowInsecureAuth: process.env.SMTP_ALLOW_INSECURE_AUTH === 'true',
+    })
+  }
+
+  if (transport === 'file') {
+    return createFileTransport(process.env.EMAIL_OUTBOX_DIR || path.join(process.cwd(), '.outbox'))
+  }
+
+  if (transport === 'console') {
+    return createConsoleTransport()
+  }
+
+  throw new Error(`Unknown EMAIL_TRANSPORT: ${transport}`)
+}
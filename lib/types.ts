@@ -32,8 +32,9 @@ export interface UserProfile {
   id: string
   email: string
   full_name: string | null
-  role: UserRole
-  project_id: string | null
+  role: UserRole // Store access level of the user's role
+  role_id: string
+  store_ids?: string[] // Stores the user is assigned to; admins have every store
   created_at: string
   updated_at: string
 }
@@ -69,6 +70,19 @@ export interface Product {
   category?: Category
 }
 
+export interface Supplier {
+  id: string
+  name: string
+  contact_person: string | null
+  phone: string | null
+  email: string | null
+  address: string | null
+  tax_number: string | null
+  notes: string | null
+  created_at: string
+  updated_at: string
+}
+
 export interface Store {
   id: string
   name: string
@@ -91,8 +105,164 @@ export interface Purchase {
   created_by: string
   created_at: string
   updated_at: string
+  purchase_order_item_id?: string | null
+  receive_via_grn?: boolean
+  supplier_id?: string | null
+  stock_take_id?: string | null // Set when recorded while the store was being counted
+  returned_quantity?: number // Running total sent back to the supplier
+  currency?: string // unit_cost and total_cost are always in PKR
+  exchange_rate?: number // PKR per unit of currency
+  original_unit_cost?: number | null // Unit cost in the purchase currency
+  tax_percent?: number
+  freight_cost?: number // This line's share, in PKR
+  other_charges?: number // This line's share, in PKR
+  landed_unit_cost?: number | null // unit_cost plus tax and charges; what inventory is valued at
+  purchase_invoice_id?: string | null // Set when entered as a line of a purchase invoice
   store?: Store
   product?: Product
+  supplier?: Supplier | null
+}
+
+export interface ExchangeRate {
+  id: string
+  currency_code: string
+  rate: number // PKR per unit of currency
+  effective_date: string
+  notes: string | null
+  created_by: string
+  created_at: string
+  updated_at: string
+}
+
+export interface PurchaseReturn {
+  id: string
+  return_number: string
+  purchase_id: string
+  store_id: string
+  product_id: string
+  supplier_id: string | null
+  quantity: number
+  unit_cost: number // The original purchase's unit cost
+  total_cost: number
+  return_date: string
+  reason: string | null
+  notes: string | null
+  created_by: string
+  created_at: string
+  updated_at: string
+  store?: Store
+  product?: Product
+  supplier?: Supplier | null
+  purchase?: Purchase
+}
+
+export type PurchaseOrderStatus =
+  | 'draft'
+  | 'submitted'
+  | 'approved'
+  | 'rejected'
+  | 'partially_received'
+  | 'received'
+  | 'closed'
+
+export interface PurchaseOrderItem {
+  id: string
+  purchase_order_id: string
+  product_id: string
+  quantity: number
+  unit_cost: number
+  received_quantity: number
+  created_at: string
+  updated_at: string
+  product?: Product
+}
+
+export type ChargeAllocationMethod = 'value' | 'quantity'
+
+export interface PurchaseOrder {
+  id: string
+  po_number: string
+  store_id: string
+  status: PurchaseOrderStatus
+  order_date: string
+  expected_date: string | null
+  notes: string | null
+  tax_percent?: number
+  freight_cost?: number // PKR, spread over the lines by charge_allocation
+  other_charges?: number
+  charge_allocation?: ChargeAllocationMethod
+  created_by: string
+  submitted_at: string | null
+  approved_by: string | null
+  approved_at: string | null
+  rejection_reason: string | null
+  closed_at: string | null
+  created_at: string
+  updated_at: string
+  store?: Store
+  items?: PurchaseOrderItem[]
+}
+
+export interface PurchaseInvoiceAttachment {
+  id: string
+  purchase_invoice_id: string
+  file_name: string
+  file_path: string // Object path in the purchase-invoices storage bucket
+  content_type: string | null
+  file_size: number | null
+  uploaded_by: string
+  created_at: string
+}
+
+export interface PurchaseInvoice {
+  id: string
+  document_number: string
+  invoice_number: string | null // The supplier's own invoice number
+  supplier_id: string | null
+  store_id: string
+  invoice_date: string
+  currency: string
+  exchange_rate: number
+  tax_percent: number
+  freight_cost: number // PKR, spread over the lines by charge_allocation
+  other_charges: number
+  charge_allocation: ChargeAllocationMethod
+  receive_via_grn: boolean
+  notes: string | null
+  created_by: string
+  created_at: string
+  updated_at: string
+  store?: Store
+  supplier?: Supplier | null
+  lines?: Purchase[]
+  attachments?: PurchaseInvoiceAttachment[]
+}
+
+export type GoodsReceivedNoteStatus = 'draft' | 'posted'
+
+export interface GoodsReceivedNote {
+  id: string
+  grn_number: string
+  purchase_id: string | null
+  purchase_order_item_id: string | null
+  store_id: string
+  product_id: string
+  quantity: number
+  received_date: string
+  vehicle_number: string | null
+  challan_number: string | null
+  received_by_name: string | null
+  notes: string | null
+  status: GoodsReceivedNoteStatus
+  posted_at: string | null
+  posted_by: string | null
+  created_by: string
+  created_at: string
+  updated_at: string
+  store?: Store
+  product?: Product
+  purchase?: Purchase | null
+  purchase_order_item?: (PurchaseOrderItem & { purchase_order?: PurchaseOrder }) | null
 }
 
 export interface InventoryItem {
@@ -100,25 +270,96 @@ export interface InventoryItem {
   store_id: string
   product_id: string
   quantity: number
+  in_transit_quantity?: number // Issued to this store but not yet received
   updated_at: string
   store?: Store
   product?: Product
   average_cost?: number
-  needsRestock?: boolean // Computed: quantity <= product.restock_level
+  reorder_point?: number | null // The store's reorder level, or product.restock_level
+  needsRestock?: boolean // Computed: quantity <= reorder_point
 }
 
-export type InventoryMovementType = 'purchase' | 'issue_in' | 'issue_out'
+export interface ReorderLevel {
+  id: string
+  store_id: string
+  product_id: string
+  min_quantity: number
+  reorder_point: number
+  max_quantity: number
+  created_at: string
+  updated_at: string
+  created_by: string | null
+  store?: Store
+  product?: Product
+}
+
+export interface StockAlert {
+  id: string
+  store_id: string
+  product_id: string
+  quantity: number // Stock when the alert was raised
+  reorder_point: number
+  created_at: string
+  resolved_at: string | null
+  emailed_at: string | null
+  store?: Store
+  product?: Product
+}
+
+export type NotificationEvent = 'low_stock' | 'large_issue' | 'purchase_edited' | 'user_created'
+
+export interface NotificationPreference {
+  id: string
+  user_id: string
+  event_type: NotificationEvent
+  email_enabled: boolean
+  created_at: string
+  updated_at: string
+}
+
+export type NotificationType = 'issue_received' | 'purchase_deleted' | 'store_deleted'
+
+// In-app notification; named to stay clear of the browser's Notification
+export interface AppNotification {
+  id: string
+  user_id: string
+  type: NotificationType
+  store_id: string | null
+  title: string
+  message: string
+  link: string | null
+  read_at: string | null
+  created_by: string | null
+  created_at: string
+}
+
+export interface ReorderSuggestion {
+  store_id: string
+  product_id: string
+  store: Store
+  product: Product
+  quantity: number
+  in_transit_quantity: number
+  on_order_quantity: number // Open purchase orders or requisitions not yet delivered
+  min_quantity: number
+  reorder_point: number
+  max_quantity: number | null // null when only products.restock_level applies
+  suggested_quantity: number | null // Brings stock back up to max_quantity
+}
+
+export type InventoryMovementType = 'purchase' | 'grn' | 'issue_in' | 'issue_out' | 'adjustment' | 'return' | 'purchase_return'
 
 export interface InventoryMovementEntry {
   id: string
   store_id: string
   product_id: string
-  reference_type: 'purchase' | 'issue'
+  reference_type: 'purchase' | 'grn' | 'issue' | 'adjustment' | 'return' | 'purchase_return'
   reference_id: string
+  reference_number?: string | null
   movement_type: InventoryMovementType
   date: string
   created_at: string
-  quantity: number
+  quantity: number // Always positive, except adjustments which are signed
   unit_cost?: number | null
   total_cost?: number | null
   notes?: string | null
@@ -127,6 +368,83 @@ export interface InventoryMovementEntry {
   destination_store?: Store | null
 }
 
+export type CostingMethod = 'fifo' | 'weighted_average'
+
+export type CostLayerSource = 'opening' | 'purchase' | 'transfer' | 'adjustment' | 'issue_return' | 'reversal'
+
+export interface InventoryCostLayer {
+  id: string
+  store_id: string
+  product_id: string
+  source_type: CostLayerSource
+  source_id: string | null
+  layer_date: string
+  unit_cost: number
+  original_quantity: number
+  remaining_quantity: number
+  created_at: string
+  updated_at: string
+}
+
+export type AdjustmentReason = 'damaged' | 'lost' | 'expired' | 'found' | 'count_correction'
+
+export type AdjustmentStatus = 'pending' | 'approved' | 'rejected'
+
+export interface InventoryAdjustment {
+  id: string
+  adjustment_number: string
+  store_id: string
+  product_id: string
+  quantity: number // Positive adds stock, negative writes it off
+  reason: AdjustmentReason
+  adjustment_date: string
+  notes: string | null
+  status: AdjustmentStatus
+  unit_cost: number | null
+  total_cost: number | null
+  created_by: string
+  approved_by: string | null
+  approved_at: string | null
+  rejection_reason: string | null
+  created_at: string
+  updated_at: string
+  store?: Store
+  product?: Product
+}
+
+export type StockTakeStatus = 'counting' | 'submitted' | 'approved' | 'cancelled'
+
+export interface StockTakeItem {
+  id: string
+  stock_take_id: string
+  product_id: string
+  system_quantity: number // Snapshot when the count started
+  counted_quantity: number | null
+  unit_cost: number
+  adjustment_id: string | null
+  created_at: string
+  updated_at: string
+  product?: Product
+}
+
+export interface StockTake {
+  id: string
+  stock_take_number: string
+  store_id: string
+  status: StockTakeStatus
+  notes: string | null
+  started_by: string
+  submitted_at: string | null
+  approved_by: string | null
+  approved_at: string | null
+  created_at: string
+  updated_at: string
+  store?: Store
+  items?: StockTakeItem[]
+  flagged_purchases?: Array<Pick<Purchase, 'id' | 'product_id' | 'quantity' | 'purchase_date'>>
+  flagged_issues?: Array<Pick<Issue, 'id' | 'product_id' | 'quantity' | 'issue_date' | 'from_store_id' | 'to_store_id'>>
+}
+
 export interface InventoryMovementSummaryItem {
   product: Product
   received_quantity: number
@@ -135,6 +453,8 @@ export interface InventoryMovementSummaryItem {
   movements: InventoryMovementEntry[]
 }
 
+export type TransferStatus = 'in_transit' | 'received'
+
 export interface Issue {
   id: string
   from_store_id: string
@@ -148,24 +468,223 @@ export interface Issue {
   created_at: string
   unit_cost?: number | null // Cost per unit at time of issue (for store-to-store transfers)
   total_cost?: number | null // Total cost at time of issue (for store-to-store transfers)
+  requisition_item_id?: string | null
+  transfer_status?: TransferStatus | null // Only set for store-to-store issues
+  received_quantity?: number | null
+  damaged_quantity?: number | null
+  received_date?: string | null
+  received_at?: string | null
+  received_by?: string | null
+  receipt_notes?: string | null
+  stock_take_id?: string | null // Set when recorded while either store was being counted
+  returned_quantity?: number // Unused material brought back by the person it was issued to
+  issue_voucher_id?: string | null // Set when issued as a line of an issue voucher
   from_store?: Store
   to_store?: Store
   product?: Product
 }
 
+export interface IssueVoucher {
+  id: string
+  voucher_number: string
+  from_store_id: string
+  to_store_id: string | null
+  issued_to_name: string | null
+  issue_date: string
+  driver_name: string | null
+  driver_phone: string | null
+  vehicle_number: string | null
+  notes: string | null
+  created_by: string
+  created_at: string
+  updated_at: string
+  from_store?: Store
+  to_store?: Store | null
+  lines?: Issue[]
+}
+
+export interface IssueReturn {
+  id: string
+  return_number: string
+  issue_id: string
+  store_id: string
+  product_id: string
+  returned_by_name: string | null
+  quantity: number
+  return_date: string
+  notes: string | null
+  created_by: string
+  created_at: string
+  updated_at: string
+  store?: Store
+  product?: Product
+  issue?: Issue
+}
+
+export type IssueRequisitionStatus =
+  | 'pending'
+  | 'approved'
+  | 'rejected'
+  | 'cancelled'
+  | 'partially_fulfilled'
+  | 'fulfilled'
+
+export interface IssueRequisitionItem {
+  id: string
+  requisition_id: string
+  product_id: string
+  requested_quantity: number
+  approved_quantity: number | null
+  issued_quantity: number
+  created_at: string
+  updated_at: string
+  product?: Product
+}
+
+export interface IssueRequisition {
+  id: string
+  requisition_number: string
+  requesting_store_id: string
+  supplying_store_id: string
+  status: IssueRequisitionStatus
+  needed_by: string | null
+  notes: string | null
+  requested_by: string
+  reviewed_by: string | null
+  reviewed_at: string | null
+  rejection_reason: string | null
+  created_at: string
+  updated_at: string
+  requesting_store?: Store
+  supplying_store?: Store
+  items?: IssueRequisitionItem[]
+}
+
+export type AuditAction = 'insert' | 'update' | 'delete' | 'soft_delete' | 'restore'
+
+export interface AuditLogEntry {
+  id: string
+  table_name: string
+  record_id: string
+  action: AuditAction
+  old_data: Record<string, unknown> | null
+  new_data: Record<string, unknown> | null
+  changed_fields: string[] | null
+  actor_id: string | null
+  created_at: string
+  actor?: Pick<UserProfile, 'id' | 'email' | 'full_name'> | null
+}
+
+export interface AuditLogFilters {
+  actor_id?: string
+  table_name?: string
+  record_id?: string
+  from_date?: string
+  to_date?: string
+  limit?: number
+}
+
+export type AccountingPeriodStatus = 'open' | 'closed'
+
+export interface AccountingPeriod {
+  id: string
+  period_month: string // First day of the month
+  status: AccountingPeriodStatus
+  closed_at: string | null
+  closed_by: string | null
+  reopened_at: string | null
+  reopened_by: string | null
+  reopen_reason: string | null
+  notes: string | null
+  created_at: string
+  updated_at: string
+}
+
+export type Permission =
+  | 'manage_users'
+  | 'manage_roles'
+  | 'view_audit_log'
+  | 'restore_deleted'
+  | 'close_periods'
+  | 'manage_projects'
+  | 'manage_stores'
+  | 'manage_categories'
+  | 'manage_suppliers'
+  | 'manage_products'
+  | 'manage_exchange_rates'
+  | 'manage_costing'
+  | 'create_purchases'
+  | 'edit_purchases'
+  | 'delete_purchases'
+  | 'raise_purchase_orders'
+  | 'approve_purchase_orders'
+  | 'receive_goods'
+  | 'return_purchases'
+  | 'issue_stock'
+  | 'edit_issues'
+  | 'request_stock'
+  | 'approve_requisitions'
+  | 'return_issues'
+  | 'create_adjustments'
+  | 'approve_adjustments'
+  | 'count_stock'
+  | 'approve_stock_takes'
+  | 'view_reports'
+  | 'view_prices'
+  | 'view_central_prices'
+
+export interface Role {
+  id: string
+  name: string
+  description: string | null
+  store_access: UserRole
+  is_system: boolean
+  created_at: string
+  updated_at: string
+  permissions?: Permission[]
+  user_count?: number
+}
+
+export type RecycleBinEntity = 'categories' | 'products' | 'suppliers' | 'projects' | 'stores' | 'users' | 'purchases'
+
+export interface DeletedItem {
+  id: string
+  entity: RecycleBinEntity
+  name: string
+  details: string | null
+  deleted_at: string
+  deleted_by: string | null
+  deleted_by_user?: Pick<UserProfile, 'id' | 'email' | 'full_name'> | null
+}
+
 export interface CreateUserInput {
   email: string
   password: string
   full_name?: string
-  role: UserRole
-  project_id?: string | null
+  role_id: string
+  store_ids?: string[]
 }
 
 export interface UpdateUserInput {
   id: string
   full_name?: string
-  role?: UserRole
-  project_id?: string | null
+  role_id?: string
+  store_ids?: string[]
+}
+
+export interface CreateRoleInput {
+  name: string
+  description?: string
+  store_access: UserRole
+  permissions: Permission[]
+}
+
+export interface UpdateRoleInput {
+  id: string
+  name?: string
+  description?: string
+  store_access?: UserRole
+  permissions?: Permission[]
 }
 
 export interface CreateProjectInput {
@@ -196,6 +715,27 @@ export interface UpdateCategoryInput {
   description?: string
 }
 
+export interface CreateSupplierInput {
+  name: string
+  contact_person?: string
+  phone?: string
+  email?: string
+  address?: string
+  tax_number?: string
+  notes?: string
+}
+
+export interface UpdateSupplierInput {
+  id: string
+  name?: string
+  contact_person?: string
+  phone?: string
+  email?: string
+  address?: string
+  tax_number?: string
+  notes?: string
+}
+
 export interface CreateProductInput {
   category_id: string
   name: string
@@ -220,16 +760,67 @@ export interface CreatePurchaseInput {
   unit_cost: number
   purchase_date?: string
   notes?: string
+  receive_via_grn?: boolean
+  supplier_id?: string | null
+  currency?: string // unit_cost is in this currency; defaults to PKR
+  exchange_rate?: number // Latest recorded rate is used when omitted
+  tax_percent?: number
+  freight_cost?: number // PKR
+  other_charges?: number // PKR
 }
 
 export interface UpdatePurchaseInput {
   id: string
   store_id?: string
   product_id?: string
+  supplier_id?: string | null
   quantity?: number
   unit_cost?: number
   purchase_date?: string
   notes?: string
+  currency?: string
+  exchange_rate?: number | null
+  tax_percent?: number
+  freight_cost?: number
+  other_charges?: number
+}
+
+export interface CreateExchangeRateInput {
+  currency_code: string
+  rate: number
+  effective_date?: string
+  notes?: string
+}
+
+export interface PurchaseInvoiceLineInput {
+  product_id: string
+  quantity: number
+  unit_cost: number // In the invoice currency
+  notes?: string
+}
+
+export interface CreatePurchaseInvoiceInput {
+  store_id: string
+  supplier_id?: string | null
+  invoice_number?: string
+  invoice_date?: string
+  currency?: string
+  exchange_rate?: number // Latest recorded rate is used when omitted
+  tax_percent?: number
+  freight_cost?: number // PKR
+  other_charges?: number // PKR
+  charge_allocation?: ChargeAllocationMethod
+  receive_via_grn?: boolean
+  notes?: string
+  lines: PurchaseInvoiceLineInput[]
+}
+
+export interface CreatePurchaseReturnInput {
+  purchase_id: string
+  quantity: number
+  return_date?: string
+  reason?: string
+  notes?: string
 }
 
 export interface CreateIssueInput {
@@ -242,3 +833,151 @@ export interface CreateIssueInput {
   notes?: string
 }
 
+export interface IssueVoucherLineInput {
+  product_id: string
+  quantity: number
+  notes?: string
+}
+
+export interface CreateIssueVoucherInput {
+  from_store_id: string
+  to_store_id?: string | null
+  issued_to_name?: string
+  issue_date?: string
+  driver_name?: string
+  driver_phone?: string
+  vehicle_number?: string
+  notes?: string
+  lines: IssueVoucherLineInput[]
+}
+
+export interface CreateInventoryAdjustmentInput {
+  store_id: string
+  product_id: string
+  quantity: number
+  reason: AdjustmentReason
+  adjustment_date?: string
+  notes?: string
+}
+
+export interface SaveStockTakeCountsInput {
+  stock_take_id: string
+  counts: Array<{
+    stock_take_item_id: string
+    counted_quantity: number | null
+  }>
+}
+
+export interface UpdateIssueInput {
+  id: string
+  product_id?: string
+  quantity?: number
+  issued_to_name?: string
+  issue_date?: string
+  notes?: string
+}
+
+export interface ReceiveIssueTransferInput {
+  issue_id: string
+  received_quantity: number
+  damaged_quantity?: number
+  received_date?: string
+  notes?: string
+}
+
+export interface CreateIssueReturnInput {
+  issue_id: string
+  quantity: number
+  return_date?: string
+  notes?: string
+}
+
+export interface CreateIssueRequisitionInput {
+  requesting_store_id: string
+  supplying_store_id: string
+  needed_by?: string
+  notes?: string
+  items: Array<{
+    product_id: string
+    quantity: number
+  }>
+}
+
+export interface ApproveIssueRequisitionInput {
+  requisition_id: string
+  lines: Array<{
+    requisition_item_id: string
+    approved_quantity: number
+  }>
+}
+
+export interface FulfilIssueRequisitionInput {
+  requisition_id: string
+  issue_date?: string
+  notes?: string
+  lines: Array<{
+    requisition_item_id: string
+    quantity: number
+  }>
+}
+
+
+export interface PurchaseOrderLineInput {
+  product_id: string
+  quantity: number
+  unit_cost: number
+}
+
+export interface SaveReorderLevelInput {
+  store_id: string
+  product_id: string
+  min_quantity: number
+  reorder_point: number
+  max_quantity: number
+}
+
+export interface CreatePurchaseOrderInput {
+  store_id: string
+  order_date?: string
+  expected_date?: string
+  notes?: string
+  tax_percent?: number
+  freight_cost?: number
+  other_charges?: number
+  charge_allocation?: ChargeAllocationMethod
+  items: PurchaseOrderLineInput[]
+}
+
+export interface UpdatePurchaseOrderInput {
+  id: string
+  store_id?: string
+  order_date?: string
+  expected_date?: string | null
+  notes?: string
+  tax_percent?: number
+  freight_cost?: number
+  other_charges?: number
+  charge_allocation?: ChargeAllocationMethod
+  items?: PurchaseOrderLineInput[]
+}
+
+export interface ReceivePurchaseOrderInput {
+  purchase_order_id: string
+  receipt_date?: string
+  notes?: string
+  lines: Array<{
+    purchase_order_item_id: string
+    quantity: number
+  }>
+}
+
+export interface CreateGoodsReceivedNoteInput {
+  purchase_id?: string
+  purchase_order_item_id?: string
+  quantity: number
+  received_date?: string
+  vehicle_number?: string
+  challan_number?: string
+  received_by_name?: string
+  notes?: string
+}
@@ -0,0 +1,42 @@
+import type { createClient } from '@/lib/supabase/server'
+
+type SupabaseClient = Awaited<ReturnType<typeof createClient>>
+
+/** First day of the month a YYYY-MM-DD date falls in */
+export function getPeriodMonth(date: string) {
+  return `${date.slice(0, 7)}-01`
+}
+
+/** e.g. "March 2026" */
+export function formatPeriod(periodMonth: string) {
+  return new Date(`${periodMonth}T00:00:00`).toLocaleDateString('en-US', { month: 'long', year: 'numeric' })
+}
+
+export function getClosedPeriodMessage(period: string) {
+  return `${period} is closed. Ask an admin to reopen it before changing transactions dated in it.`
+}
+
+/**
+ * Check that none of the given transaction dates fall in a closed accounting
+ * period. Returns an error message, or null when they are all open. The
+ * database enforces the same rule; this just fails early with a clear message.
+ */
+export async function getClosedPeriodError(supabase: SupabaseClient, dates: Array<string | null | undefined>) {
+  const months = [...new Set(dates.filter((date): date is string => !!date).map(getPeriodMonth))]
+  if (months.length === 0) {
+    return null
+  }
+
+  const { data: closed } = await supabase
+    .from('accounting_periods')
+    .select('period_month')
+    .eq('status', 'closed')
+    .in('period_month', months)
+    .order('period_month', { ascending: true })
+    .limit(1)
+
+  if (closed && closed.length > 0) {
+    return getClosedPeriodMessage(formatPeriod(closed[0].period_month))
+  }
+  return null
+}
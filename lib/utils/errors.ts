@@ -1,3 +1,46 @@
+import { getClosedPeriodMessage } from '@/lib/utils/accountingPeriods'
+
+type StockErrorDetails = Record<string, string | number | null | undefined>
+
+/**
+ * Readable messages for the codes raised by the stock functions in the
+ * database (see supabase/add-atomic-issues.sql and add-accounting-periods.sql)
+ */
+const STOCK_ERROR_MESSAGES: Record<string, (details: StockErrorDetails) => string> = {
+  INSUFFICIENT_STOCK: (details) =>
+    `Insufficient inventory${details.product ? ` for ${details.product}` : ''}. Available: ${details.available ?? 0}, requested: ${details.requested ?? 0}`,
+  STORE_ACCESS_DENIED: () => 'Unauthorized: You can only issue from the stores you are assigned to',
+  SOURCE_STORE_NOT_FOUND: () => 'Source store not found',
+  DESTINATION_STORE_NOT_FOUND: () => 'Destination store not found',
+  SAME_STORE: () => 'Destination store must be different from source store',
+  INVALID_DESTINATION: (details) =>
+    details.store_type === 'central'
+      ? 'Central stores can only issue to project stores'
+      : 'Project stores can only return items to a central store or issue to individuals',
+  DESTINATION_REQUIRED: () => 'Central stores must select a destination store',
+  PRODUCT_REQUIRED: () => 'Every line must have a product',
+  INVALID_QUANTITY: () => 'Quantity must be greater than 0',
+  NO_LINES: () => 'An issue voucher needs at least one product line',
+  REQUISITION_NOT_FOUND: () => 'Requisition not found',
+  REQUISITION_NOT_APPROVED: () => 'Stock can only be issued against approved requisitions',
+  REQUISITION_LINE_NOT_FOUND: () => 'Issued line does not belong to this requisition',
+  EXCEEDS_REQUISITION: (details) =>
+    `Issued quantity exceeds the outstanding approved quantity (${details.outstanding ?? 0}) on the requisition`,
+  PERIOD_CLOSED: (details) => getClosedPeriodMessage(String(details.period ?? 'This period')),
+}
+
+function parseStockErrorDetails(details: unknown): StockErrorDetails {
+  if (typeof details !== 'string') {
+    return {}
+  }
+  try {
+    const parsed = JSON.parse(details)
+    return parsed && typeof parsed === 'object' ? parsed : {}
+  } catch {
+    return {}
+  }
+}
+
 /**
  * Safely extract error message from Supabase errors or other error types
  */
@@ -9,8 +52,17 @@ export function getErrorMessage(error: unknown): string {
     return error.message
   }
   if (error && typeof error === 'object' && 'message' in error) {
-    return String(error.message)
+    const message = String(error.message)
+    const details = 'details' in error ? error.details : undefined
+
+    if (Object.prototype.hasOwnProperty.call(STOCK_ERROR_MESSAGES, message)) {
+      return STOCK_ERROR_MESSAGES[message](parseStockErrorDetails(details))
+    }
+    // Stock that went below zero anyway (e.g. a concurrent correction)
+    if ('code' in error && error.code === '23514' && message.includes('inventory_items_quantity_check')) {
+      return 'Insufficient inventory. Stock changed while this was being saved; refresh and try again.'
+    }
+    return message
   }
   return 'An unknown error occurred'
 }
-
@@ -0,0 +1,36 @@
+export interface PurchaseCharges {
+  tax_percent?: number
+  freight_cost?: number
+  other_charges?: number
+}
+
+/**
+ * Check header-level purchase charges. Returns an error message, or null when
+ * they are valid.
+ */
+export function getChargesError(charges: PurchaseCharges) {
+  const { tax_percent = 0, freight_cost = 0, other_charges = 0 } = charges
+  if (isNaN(tax_percent) || tax_percent < 0 || tax_percent > 100) {
+    return 'Sales tax must be between 0 and 100%'
+  }
+  if (isNaN(freight_cost) || freight_cost < 0) {
+    return 'Freight must be 0 or greater'
+  }
+  if (isNaN(other_charges) || other_charges < 0) {
+    return 'Other charges must be 0 or greater'
+  }
+  return null
+}
+
+/**
+ * Unit cost including sales tax and this line's share of freight and other
+ * charges, rounded like set_purchase_landed_cost in the database.
+ */
+export function getLandedUnitCost(unitCost: number, quantity: number, charges: PurchaseCharges) {
+  const { tax_percent = 0, freight_cost = 0, other_charges = 0 } = charges
+  if (!quantity) {
+    return unitCost
+  }
+  const landed = unitCost * (1 + tax_percent / 100) + (freight_cost + other_charges) / quantity
+  return Math.round(landed * 100) / 100
+}
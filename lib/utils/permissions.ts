@@ -0,0 +1,65 @@
+import type { User } from '@supabase/supabase-js'
+import type { createClient } from '@/lib/supabase/server'
+import type { Permission, UserRole } from '@/lib/types'
+import { PERMISSION_LABELS } from '@/lib/constants/permissions'
+
+type SupabaseClient = Awaited<ReturnType<typeof createClient>>
+
+export interface AuthorizedProfile {
+  id: string
+  role: UserRole // Store access level of the user's role
+  role_id: string
+  store_ids: string[] // Assigned stores; admins have every store without assignments
+  permissions: Permission[]
+}
+
+type AuthorizeResult =
+  | { user: User; profile: AuthorizedProfile; error: null }
+  | { user: null; profile: null; error: string }
+
+export function hasPermission(profile: { permissions: Permission[] } | null | undefined, permission: Permission) {
+  return !!profile && profile.permissions.includes(permission)
+}
+
+/**
+ * Load the signed-in user with their profile, assigned stores and the
+ * permissions of their role. When `permission` is given (a list needs all of them) the user must
+ * hold it; otherwise `user` and `profile` come back null with an error to
+ * return. RLS policies check the same permissions through has_permission().
+ */
+export async function authorize(
+  supabase: SupabaseClient,
+  permission?: Permission | Permission[]
+): Promise<AuthorizeResult> {
+  const { data: { user } } = await supabase.auth.getUser()
+  if (!user) {
+    return { user: null, profile: null, error: 'Not authenticated' }
+  }
+
+  const { data } = await supabase
+    .from('user_profiles')
+    .select('id, role, role_id, assigned_role:roles!role_id(role_permissions(permission)), store_assignments:user_store_assignments(store_id)')
+    .eq('id', user.id)
+    .single()
+
+  if (!data) {
+    return { user: null, profile: null, error: 'User profile not found' }
+  }
+
+  const assignedRole = data.assigned_role as unknown as { role_permissions: { permission: Permission }[] } | null
+  const profile: AuthorizedProfile = {
+    id: data.id,
+    role: data.role,
+    role_id: data.role_id,
+    store_ids: (data.store_assignments || []).map((row) => row.store_id),
+    permissions: (assignedRole?.role_permissions || []).map((row) => row.permission),
+  }
+
+  const required = permission === undefined ? [] : Array.isArray(permission) ? permission : [permission]
+  const missing = required.find((item) => !profile.permissions.includes(item))
+  if (missing) {
+    return { user: null, profile: null, error: `Unauthorized: ${PERMISSION_LABELS[missing]} permission required` }
+  }
+
+  return { user, profile, error: null }
+}
@@ -0,0 +1,36 @@
+export interface StoreAccessProfile {
+  role: string
+  store_ids: string[]
+}
+
+export interface StoreAccessStore {
+  id: string
+}
+
+const NO_STORE_ID = '00000000-0000-0000-0000-000000000000'
+
+/**
+ * Check whether a user may record stock documents (purchases, purchase orders,
+ * receipts) against a store. Returns an error message, or null when allowed.
+ * `action` completes the sentence, e.g. "raise purchase orders".
+ */
+export function getStoreAccessError(profile: StoreAccessProfile, store: StoreAccessStore, action: string) {
+  if (profile.role === 'admin') {
+    return null
+  }
+  if (!profile.store_ids.includes(store.id)) {
+    return `You can only ${action} for the stores you are assigned to`
+  }
+  return null
+}
+
+/**
+ * The stores a user's lists are limited to, or null for admins who see every
+ * store. Never empty, so it can go straight into an `.in()` filter.
+ */
+export function getAccessibleStoreIds(profile: StoreAccessProfile) {
+  if (profile.role === 'admin') {
+    return null
+  }
+  return profile.store_ids.length > 0 ? profile.store_ids : [NO_STORE_ID]
+}
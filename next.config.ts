@@ -1,7 +1,15 @@
 import type { NextConfig } from "next";
 
 const nextConfig: NextConfig = {
-  /* config options here */
+  experimental: {
+    serverActions: {
+      // Scanned purchase invoices are uploaded through a server action. Kept
+      // above MAX_ATTACHMENT_SIZE (lib/actions/purchaseInvoices.ts) so a file
+      // at the limit plus the form's multipart overhead still gets through and
+      // oversized files get the action's own error message
+      bodySizeLimit: "12mb",
+    },
+  },
 };
 
 export default nextConfig;
@@ -0,0 +1,148 @@
+-- Accounting periods
+-- Admins close a month once its books are final. Purchases, issues and
+-- inventory adjustments dated in a closed month can then no longer be
+-- created, edited, voided or restored, so closed-month stock and valuations
+-- stay as reported. Only the columns that move stock or cost are locked:
+-- notes and later receipts/returns against an old document still go through.
+-- A month can't be closed while adjustments dated in it are still pending.
+-- A closed month can be reopened by an admin with a reason; the audit log
+-- records who closed and reopened it.
+--
+-- Changes into a closed month are refused with the coded error PERIOD_CLOSED
+-- (see add-atomic-issues.sql), e.g.
+--   message: PERIOD_CLOSED
+--   details: {"period": "March 2026"}
+-- Run this after add-recycle-bin.sql
+
+CREATE TYPE accounting_period_status AS ENUM ('open', 'closed');
+
+CREATE TABLE IF NOT EXISTS accounting_periods (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  period_month DATE NOT NULL UNIQUE CHECK (period_month = DATE_TRUNC('month', period_month)::DATE), -- First day of the month
+  status accounting_period_status NOT NULL DEFAULT 'closed',
+  closed_at TIMESTAMP WITH TIME ZONE,
+  closed_by UUID REFERENCES auth.users(id),
+  reopened_at TIMESTAMP WITH TIME ZONE,
+  reopened_by UUID REFERENCES auth.users(id),
+  reopen_reason TEXT,
+  notes TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_accounting_periods_closed ON accounting_periods(period_month) WHERE status = 'closed';
+
+-- Refuse a transaction date that falls in a closed month
+CREATE OR REPLACE FUNCTION public.check_period_open(p_date DATE)
+RETURNS VOID AS $$
+DECLARE
+  v_period_month DATE;
+BEGIN
+  IF p_date IS NULL THEN
+    RETURN;
+  END IF;
+
+  SELECT period_month INTO v_period_month
+  FROM public.accounting_periods
+  WHERE period_month = DATE_TRUNC('month', p_date)::DATE
+    AND status = 'closed';
+
+  IF FOUND THEN
+    PERFORM public.raise_stock_error('PERIOD_CLOSED', jsonb_build_object('period', TO_CHAR(v_period_month, 'FMMonth YYYY')));
+  END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION public.check_period_open(DATE) FROM PUBLIC, anon, authenticated;
+
+-- Shared by the purchases, issues and adjustments triggers.
+-- TG_ARGV[0] is the date column; the rest are the columns that can't change
+-- on a row dated in a closed month.
+CREATE OR REPLACE FUNCTION public.check_period_on_change()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_old JSONB;
+  v_new JSONB;
+  v_changed BOOLEAN := false;
+  i INTEGER;
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    PERFORM public.check_period_open((to_jsonb(NEW)->>TG_ARGV[0])::DATE);
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'DELETE' THEN
+    PERFORM public.check_period_open((to_jsonb(OLD)->>TG_ARGV[0])::DATE);
+    RETURN OLD;
+  END IF;
+
+  v_old := to_jsonb(OLD);
+  v_new := to_jsonb(NEW);
+
+  FOR i IN 0 .. TG_NARGS - 1 LOOP
+    IF v_new->TG_ARGV[i] IS DISTINCT FROM v_old->TG_ARGV[i] THEN
+      v_changed := true;
+      EXIT;
+    END IF;
+  END LOOP;
+
+  IF v_changed THEN
+    PERFORM public.check_period_open((v_old->>TG_ARGV[0])::DATE);
+    PERFORM public.check_period_open((v_new->>TG_ARGV[0])::DATE);
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS check_period_on_purchase_change ON purchases;
+CREATE TRIGGER check_period_on_purchase_change
+  BEFORE INSERT OR UPDATE OR DELETE ON purchases
+  FOR EACH ROW
+  EXECUTE FUNCTION public.check_period_on_change(
+    'purchase_date', 'store_id', 'product_id', 'quantity', 'unit_cost', 'original_unit_cost', 'currency', 'exchange_rate',
+    'tax_percent', 'freight_cost', 'other_charges', 'landed_unit_cost', 'total_cost', 'deleted_at'
+  );
+
+DROP TRIGGER IF EXISTS check_period_on_issue_change ON issues;
+CREATE TRIGGER check_period_on_issue_change
+  BEFORE INSERT OR UPDATE OR DELETE ON issues
+  FOR EACH ROW
+  EXECUTE FUNCTION public.check_period_on_change(
+    'issue_date', 'from_store_id', 'to_store_id', 'product_id', 'quantity', 'deleted_at'
+  );
+
+DROP TRIGGER IF EXISTS check_period_on_adjustment_change ON inventory_adjustments;
+CREATE TRIGGER check_period_on_adjustment_change
+  BEFORE INSERT OR UPDATE OR DELETE ON inventory_adjustments
+  FOR EACH ROW
+  EXECUTE FUNCTION public.check_period_on_change(
+    'adjustment_date', 'store_id', 'product_id', 'quantity', 'status', 'deleted_at'
+  );
+
+-- Closing and reopening show up in the audit log
+DROP TRIGGER IF EXISTS audit_accounting_periods ON accounting_periods;
+CREATE TRIGGER audit_accounting_periods
+  AFTER INSERT OR UPDATE OR DELETE ON accounting_periods
+  FOR EACH ROW
+  EXECUTE FUNCTION public.record_audit_log();
+
+DROP TRIGGER IF EXISTS update_accounting_periods_updated_at ON accounting_periods;
+CREATE TRIGGER update_accounting_periods_updated_at
+  BEFORE UPDATE ON accounting_periods
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- Enable RLS
+ALTER TABLE accounting_periods ENABLE ROW LEVEL SECURITY;
+
+-- Everyone can see which months are closed
+CREATE POLICY "Authenticated users can view accounting periods"
+  ON accounting_periods FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Admins can manage accounting periods"
+  ON accounting_periods FOR ALL
+  TO authenticated
+  USING (public.is_admin());
@@ -0,0 +1,339 @@
+-- Atomic issuing
+-- createIssue used to read inventory_items.quantity, compare it in the app and
+-- then insert, so two managers issuing the same stock at once could both pass
+-- the check and one would hit the inventory_items quantity CHECK instead.
+-- create_issue now does the whole thing in one transaction: it checks store
+-- access, locks the source inventory row, validates the quantity and writes
+-- the issue (its cost is worked out by calculate_issue_cost while the row is
+-- still locked). create_issue_voucher and fulfil_issue_requisition share the
+-- same checks.
+--
+-- Failures are raised with a code as the message and their parameters as JSON
+-- in the details, e.g.
+--   message: INSUFFICIENT_STOCK
+--   details: {"product": "Cement", "available": 12, "requested": 20}
+-- getErrorMessage (lib/utils/errors.ts) turns these into readable messages.
+-- Run this after add-issue-vouchers.sql
+
+-- Raise a coded error for the app to translate
+CREATE OR REPLACE FUNCTION public.raise_stock_error(p_code TEXT, p_details JSONB DEFAULT '{}'::JSONB)
+RETURNS VOID AS $$
+BEGIN
+  RAISE EXCEPTION USING MESSAGE = p_code, DETAIL = p_details::TEXT;
+END;
+$$ LANGUAGE plpgsql;
+
+REVOKE EXECUTE ON FUNCTION public.raise_stock_error(TEXT, JSONB) FROM PUBLIC, anon, authenticated;
+
+-- Check the caller may issue from the source store and that the destination
+-- (if any) follows the central <-> project rules. Returns the source store.
+CREATE OR REPLACE FUNCTION public.check_issue_stores(p_from_store_id UUID, p_to_store_id UUID)
+RETURNS stores AS $$
+DECLARE
+  v_from_store stores;
+  v_to_store stores;
+  v_profile user_profiles;
+BEGIN
+  SELECT * INTO v_from_store FROM public.stores WHERE id = p_from_store_id AND deleted_at IS NULL;
+  IF NOT FOUND THEN
+    PERFORM public.raise_stock_error('SOURCE_STORE_NOT_FOUND');
+  END IF;
+
+  SELECT * INTO v_profile FROM public.user_profiles WHERE id = auth.uid();
+
+  IF v_profile.id IS NULL OR NOT (
+    v_profile.role = 'admin'
+    OR (v_profile.role = 'central_store_manager' AND v_from_store.type = 'central')
+    OR (v_profile.role = 'project_store_manager' AND v_from_store.type = 'project' AND v_from_store.project_id = v_profile.project_id)
+  ) THEN
+    PERFORM public.raise_stock_error('STORE_ACCESS_DENIED', jsonb_build_object('store_type', v_from_store.type));
+  END IF;
+
+  IF p_to_store_id IS NOT NULL THEN
+    SELECT * INTO v_to_store FROM public.stores WHERE id = p_to_store_id AND deleted_at IS NULL;
+    IF NOT FOUND THEN
+      PERFORM public.raise_stock_error('DESTINATION_STORE_NOT_FOUND');
+    END IF;
+    IF v_to_store.id = v_from_store.id THEN
+      PERFORM public.raise_stock_error('SAME_STORE');
+    END IF;
+    IF v_from_store.type = v_to_store.type THEN
+      PERFORM public.raise_stock_error('INVALID_DESTINATION', jsonb_build_object('store_type', v_from_store.type));
+    END IF;
+  ELSIF v_from_store.type = 'central' THEN
+    PERFORM public.raise_stock_error('DESTINATION_REQUIRED');
+  END IF;
+
+  RETURN v_from_store;
+END;
+$$ LANGUAGE plpgsql;
+
+REVOKE EXECUTE ON FUNCTION public.check_issue_stores(UUID, UUID) FROM PUBLIC, anon, authenticated;
+
+-- Lock a store's stock row for a product and make sure it covers the quantity.
+-- The lock is held until the calling transaction ends.
+CREATE OR REPLACE FUNCTION public.lock_issue_stock(p_store_id UUID, p_product_id UUID, p_quantity DECIMAL)
+RETURNS VOID AS $$
+DECLARE
+  v_available DECIMAL;
+  v_product_name TEXT;
+BEGIN
+  SELECT quantity INTO v_available
+  FROM public.inventory_items
+  WHERE store_id = p_store_id AND product_id = p_product_id
+  FOR UPDATE;
+
+  IF COALESCE(v_available, 0) < p_quantity THEN
+    SELECT name INTO v_product_name FROM public.products WHERE id = p_product_id;
+    PERFORM public.raise_stock_error('INSUFFICIENT_STOCK', jsonb_build_object(
+      'product', v_product_name,
+      'available', COALESCE(v_available, 0),
+      'requested', p_quantity
+    ));
+  END IF;
+END;
+$$ LANGUAGE plpgsql;
+
+REVOKE EXECUTE ON FUNCTION public.lock_issue_stock(UUID, UUID, DECIMAL) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION public.create_issue(
+  p_from_store_id UUID,
+  p_to_store_id UUID,
+  p_product_id UUID,
+  p_quantity DECIMAL,
+  p_issued_to_name TEXT,
+  p_issue_date DATE,
+  p_notes TEXT
+)
+RETURNS issues AS $$
+DECLARE
+  v_from_store stores;
+  v_issue issues;
+BEGIN
+  IF NOT public.has_permission('issue_stock') THEN
+    RAISE EXCEPTION 'Unauthorized: Issue stock permission required';
+  END IF;
+
+  v_from_store := public.check_issue_stores(p_from_store_id, p_to_store_id);
+
+  IF p_product_id IS NULL THEN
+    PERFORM public.raise_stock_error('PRODUCT_REQUIRED');
+  END IF;
+  IF p_quantity IS NULL OR p_quantity <= 0 THEN
+    PERFORM public.raise_stock_error('INVALID_QUANTITY');
+  END IF;
+
+  PERFORM public.lock_issue_stock(p_from_store_id, p_product_id, p_quantity);
+
+  -- Stock, transit quantities and cost are handled by the issue triggers
+  INSERT INTO public.issues (
+    from_store_id, to_store_id, product_id, quantity, issued_to_name, issue_date, notes, created_by
+  )
+  VALUES (
+    p_from_store_id,
+    p_to_store_id,
+    p_product_id,
+    p_quantity,
+    CASE WHEN p_to_store_id IS NULL AND v_from_store.type <> 'central' THEN NULLIF(TRIM(p_issued_to_name), '') END,
+    COALESCE(p_issue_date, CURRENT_DATE),
+    NULLIF(TRIM(p_notes), ''),
+    auth.uid()
+  )
+  RETURNING * INTO v_issue;
+
+  RETURN v_issue;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION public.create_issue(UUID, UUID, UUID, DECIMAL, TEXT, DATE, TEXT) FROM PUBLIC, anon;
+
+-- Vouchers now raise the same codes
+CREATE OR REPLACE FUNCTION public.create_issue_voucher(
+  p_from_store_id UUID,
+  p_to_store_id UUID,
+  p_issued_to_name TEXT,
+  p_issue_date DATE,
+  p_driver_name TEXT,
+  p_driver_phone TEXT,
+  p_vehicle_number TEXT,
+  p_notes TEXT,
+  p_lines JSONB
+)
+RETURNS issue_vouchers AS $$
+DECLARE
+  v_voucher issue_vouchers;
+  v_line JSONB;
+  v_requested RECORD;
+BEGIN
+  IF NOT public.has_permission('issue_stock') THEN
+    RAISE EXCEPTION 'Unauthorized: Issue stock permission required';
+  END IF;
+
+  PERFORM public.check_issue_stores(p_from_store_id, p_to_store_id);
+
+  IF COALESCE(jsonb_array_length(p_lines), 0) = 0 THEN
+    PERFORM public.raise_stock_error('NO_LINES');
+  END IF;
+
+  FOR v_line IN SELECT * FROM jsonb_array_elements(p_lines) LOOP
+    IF v_line->>'product_id' IS NULL THEN
+      PERFORM public.raise_stock_error('PRODUCT_REQUIRED');
+    END IF;
+    IF (v_line->>'quantity')::DECIMAL IS NULL OR (v_line->>'quantity')::DECIMAL <= 0 THEN
+      PERFORM public.raise_stock_error('INVALID_QUANTITY');
+    END IF;
+  END LOOP;
+
+  -- Lock the stock rows in a fixed order so concurrent vouchers queue up
+  -- instead of both passing the check
+  FOR v_requested IN
+    SELECT (line->>'product_id')::UUID AS product_id, SUM((line->>'quantity')::DECIMAL) AS quantity
+    FROM jsonb_array_elements(p_lines) AS line
+    GROUP BY 1
+    ORDER BY 1
+  LOOP
+    PERFORM public.lock_issue_stock(p_from_store_id, v_requested.product_id, v_requested.quantity);
+  END LOOP;
+
+  INSERT INTO issue_vouchers (
+    from_store_id, to_store_id, issued_to_name, issue_date,
+    driver_name, driver_phone, vehicle_number, notes, created_by
+  )
+  VALUES (
+    p_from_store_id,
+    p_to_store_id,
+    CASE WHEN p_to_store_id IS NULL THEN NULLIF(TRIM(p_issued_to_name), '') END,
+    COALESCE(p_issue_date, CURRENT_DATE),
+    NULLIF(TRIM(p_driver_name), ''),
+    NULLIF(TRIM(p_driver_phone), ''),
+    NULLIF(TRIM(p_vehicle_number), ''),
+    NULLIF(TRIM(p_notes), ''),
+    auth.uid()
+  )
+  RETURNING * INTO v_voucher;
+
+  -- Stock, transit quantities and cost are handled by the issue triggers
+  INSERT INTO issues (
+    from_store_id, to_store_id, product_id, quantity, issued_to_name,
+    issue_date, notes, created_by, issue_voucher_id
+  )
+  SELECT
+    v_voucher.from_store_id,
+    v_voucher.to_store_id,
+    (line->>'product_id')::UUID,
+    (line->>'quantity')::DECIMAL,
+    v_voucher.issued_to_name,
+    v_voucher.issue_date,
+    COALESCE(NULLIF(TRIM(line->>'notes'), ''), v_voucher.voucher_number),
+    v_voucher.created_by,
+    v_voucher.id
+  FROM jsonb_array_elements(p_lines) AS line;
+
+  RETURN v_voucher;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Requisition fulfilment takes the same locks. Locking the requisition first
+-- makes concurrent fulfilments of it take turns, so they can't both issue the
+-- same outstanding quantity.
+CREATE OR REPLACE FUNCTION public.fulfil_issue_requisition(
+  p_requisition_id UUID,
+  p_issue_date DATE,
+  p_notes TEXT,
+  p_lines JSONB
+)
+RETURNS SETOF issues AS $$
+DECLARE
+  v_requisition issue_requisitions;
+  v_line JSONB;
+  v_requested RECORD;
+  v_issue issues;
+BEGIN
+  IF NOT public.has_permission('approve_requisitions') THEN
+    RAISE EXCEPTION 'Unauthorized: Approve and fulfil requisitions permission required';
+  END IF;
+
+  SELECT * INTO v_requisition
+  FROM public.issue_requisitions
+  WHERE id = p_requisition_id AND deleted_at IS NULL
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    PERFORM public.raise_stock_error('REQUISITION_NOT_FOUND');
+  END IF;
+  IF v_requisition.status NOT IN ('approved', 'partially_fulfilled') THEN
+    PERFORM public.raise_stock_error('REQUISITION_NOT_APPROVED');
+  END IF;
+
+  PERFORM public.check_issue_stores(v_requisition.supplying_store_id, v_requisition.requesting_store_id);
+
+  IF COALESCE(jsonb_array_length(p_lines), 0) = 0 THEN
+    PERFORM public.raise_stock_error('NO_LINES');
+  END IF;
+
+  FOR v_line IN SELECT * FROM jsonb_array_elements(p_lines) LOOP
+    IF NOT EXISTS (
+      SELECT 1 FROM public.issue_requisition_items
+      WHERE id = (v_line->>'requisition_item_id')::UUID AND requisition_id = v_requisition.id
+    ) THEN
+      PERFORM public.raise_stock_error('REQUISITION_LINE_NOT_FOUND');
+    END IF;
+    IF (v_line->>'quantity')::DECIMAL IS NULL OR (v_line->>'quantity')::DECIMAL <= 0 THEN
+      PERFORM public.raise_stock_error('INVALID_QUANTITY');
+    END IF;
+  END LOOP;
+
+  FOR v_requested IN
+    SELECT
+      iri.approved_quantity,
+      iri.requested_quantity,
+      iri.issued_quantity,
+      SUM((line->>'quantity')::DECIMAL) AS quantity
+    FROM jsonb_array_elements(p_lines) AS line
+    JOIN public.issue_requisition_items iri ON iri.id = (line->>'requisition_item_id')::UUID
+    GROUP BY iri.id
+  LOOP
+    IF v_requested.quantity > COALESCE(v_requested.approved_quantity, v_requested.requested_quantity) - v_requested.issued_quantity THEN
+      PERFORM public.raise_stock_error('EXCEEDS_REQUISITION', jsonb_build_object(
+        'outstanding', COALESCE(v_requested.approved_quantity, v_requested.requested_quantity) - v_requested.issued_quantity
+      ));
+    END IF;
+  END LOOP;
+
+  FOR v_requested IN
+    SELECT iri.product_id, SUM((line->>'quantity')::DECIMAL) AS quantity
+    FROM jsonb_array_elements(p_lines) AS line
+    JOIN public.issue_requisition_items iri ON iri.id = (line->>'requisition_item_id')::UUID
+    GROUP BY 1
+    ORDER BY 1
+  LOOP
+    PERFORM public.lock_issue_stock(v_requisition.supplying_store_id, v_requested.product_id, v_requested.quantity);
+  END LOOP;
+
+  -- Stock, cost and the requisition's issued quantities are handled by the issue triggers
+  FOR v_requested IN
+    SELECT iri.id AS requisition_item_id, iri.product_id, (line->>'quantity')::DECIMAL AS quantity
+    FROM jsonb_array_elements(p_lines) AS line
+    JOIN public.issue_requisition_items iri ON iri.id = (line->>'requisition_item_id')::UUID
+  LOOP
+    INSERT INTO public.issues (
+      from_store_id, to_store_id, product_id, quantity, issue_date, notes, created_by, requisition_item_id
+    )
+    VALUES (
+      v_requisition.supplying_store_id,
+      v_requisition.requesting_store_id,
+      v_requested.product_id,
+      v_requested.quantity,
+      COALESCE(p_issue_date, CURRENT_DATE),
+      'Issued against ' || v_requisition.requisition_number || COALESCE(' - ' || NULLIF(TRIM(p_notes), ''), ''),
+      auth.uid(),
+      v_requested.requisition_item_id
+    )
+    RETURNING * INTO v_issue;
+
+    RETURN NEXT v_issue;
+  END LOOP;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION public.fulfil_issue_requisition(UUID, DATE, TEXT, JSONB) FROM PUBLIC, anon;
@@ -0,0 +1,141 @@
+-- Audit log
+-- Every insert, update and delete on the master data and stock documents is
+-- recorded by trigger with who made it, the row before and after, and the
+-- columns that changed. Setting or clearing deleted_at is recorded as a
+-- soft_delete / restore so voids stand out from ordinary edits.
+-- Stock levels and cost layers are not audited themselves: they are derived
+-- from the documents that are.
+-- The log is append-only: nobody can edit or remove entries, and only admins
+-- can read them.
+-- Run this after add-atomic-issues.sql
+
+CREATE TYPE audit_action AS ENUM ('insert', 'update', 'delete', 'soft_delete', 'restore');
+
+CREATE TABLE IF NOT EXISTS audit_log (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  table_name TEXT NOT NULL,
+  record_id TEXT NOT NULL, -- Text so tables with non-UUID keys can be audited too
+  action audit_action NOT NULL,
+  old_data JSONB,
+  new_data JSONB,
+  changed_fields TEXT[],
+  actor_id UUID REFERENCES auth.users(id) ON DELETE SET NULL, -- NULL for changes made by the system
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_audit_log_created_at ON audit_log(created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_audit_log_table_record ON audit_log(table_name, record_id);
+CREATE INDEX IF NOT EXISTS idx_audit_log_actor_id ON audit_log(actor_id);
+
+CREATE OR REPLACE FUNCTION public.record_audit_log()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_old JSONB;
+  v_new JSONB;
+  v_changed TEXT[];
+  v_action audit_action;
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    v_new := to_jsonb(NEW);
+    v_action := 'insert';
+  ELSIF TG_OP = 'DELETE' THEN
+    v_old := to_jsonb(OLD);
+    v_action := 'delete';
+  ELSE
+    v_old := to_jsonb(OLD);
+    v_new := to_jsonb(NEW);
+
+    SELECT array_agg(key ORDER BY key) INTO v_changed
+    FROM jsonb_each(v_new)
+    WHERE key <> 'updated_at'
+      AND v_new->key IS DISTINCT FROM v_old->key;
+
+    -- Nothing but the timestamp moved
+    IF v_changed IS NULL THEN
+      RETURN NULL;
+    END IF;
+
+    IF v_old ? 'deleted_at' AND v_old->>'deleted_at' IS NULL AND v_new->>'deleted_at' IS NOT NULL THEN
+      v_action := 'soft_delete';
+    ELSIF v_old ? 'deleted_at' AND v_old->>'deleted_at' IS NOT NULL AND v_new->>'deleted_at' IS NULL THEN
+      v_action := 'restore';
+    ELSE
+      v_action := 'update';
+    END IF;
+  END IF;
+
+  INSERT INTO public.audit_log (table_name, record_id, action, old_data, new_data, changed_fields, actor_id)
+  VALUES (
+    TG_TABLE_NAME,
+    COALESCE(v_new->>'id', v_old->>'id'),
+    v_action,
+    v_old,
+    v_new,
+    v_changed,
+    auth.uid()
+  );
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DO $$
+DECLARE
+  v_table TEXT;
+BEGIN
+  FOREACH v_table IN ARRAY ARRAY[
+    'categories',
+    'products',
+    'suppliers',
+    'projects',
+    'stores',
+    'user_profiles',
+    'exchange_rates',
+    'costing_settings',
+    'purchases',
+    'purchase_invoices',
+    'purchase_orders',
+    'purchase_order_items',
+    'goods_received_notes',
+    'purchase_returns',
+    'issues',
+    'issue_vouchers',
+    'issue_requisitions',
+    'issue_requisition_items',
+    'issue_returns',
+    'inventory_adjustments',
+    'stock_takes',
+    'stock_take_items'
+  ] LOOP
+    EXECUTE format('DROP TRIGGER IF EXISTS audit_%1$s ON public.%1$I', v_table);
+    EXECUTE format(
+      'CREATE TRIGGER audit_%1$s AFTER INSERT OR UPDATE OR DELETE ON public.%1$I FOR EACH ROW EXECUTE FUNCTION public.record_audit_log()',
+      v_table
+    );
+  END LOOP;
+END;
+$$;
+
+-- Entries can't be changed or removed, not even by functions that bypass RLS
+CREATE OR REPLACE FUNCTION public.prevent_audit_log_changes()
+RETURNS TRIGGER AS $$
+BEGIN
+  RAISE EXCEPTION 'The audit log cannot be modified';
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS prevent_audit_log_changes ON audit_log;
+CREATE TRIGGER prevent_audit_log_changes
+  BEFORE UPDATE OR DELETE ON audit_log
+  FOR EACH ROW
+  EXECUTE FUNCTION public.prevent_audit_log_changes();
+
+REVOKE INSERT, UPDATE, DELETE, TRUNCATE ON audit_log FROM anon, authenticated;
+
+-- Enable RLS
+ALTER TABLE audit_log ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view the audit log"
+  ON audit_log FOR SELECT
+  TO authenticated
+  USING (public.is_admin());
@@ -0,0 +1,685 @@
+-- Cost layers (FIFO / moving weighted average)
+-- Every receipt of stock opens a cost layer for its store and product, and
+-- every issue, write-off or return to a supplier consumes from those layers.
+-- How layers are consumed depends on the costing method in costing_settings:
+--   fifo              - the oldest layers are used up first
+--   weighted_average  - every open layer gives up the same share, so what is
+--                       left is always valued at the running average
+-- Each consumption is recorded so voiding or correcting a document puts the
+-- exact quantities back into the layers they came from. get_average_cost now
+-- reads the open layers, so issue costing, write-offs, stock takes and the
+-- inventory cost report all value stock the same way.
+-- Run this after add-purchase-returns.sql
+
+CREATE TYPE costing_method AS ENUM ('fifo', 'weighted_average');
+
+-- Single row holding the organisation-wide costing method
+CREATE TABLE IF NOT EXISTS costing_settings (
+  id BOOLEAN PRIMARY KEY DEFAULT true CHECK (id),
+  costing_method costing_method NOT NULL DEFAULT 'weighted_average',
+  updated_by UUID REFERENCES auth.users(id),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+INSERT INTO costing_settings (id) VALUES (true) ON CONFLICT (id) DO NOTHING;
+
+CREATE TABLE IF NOT EXISTS inventory_cost_layers (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  store_id UUID NOT NULL REFERENCES stores(id) ON DELETE RESTRICT,
+  product_id UUID NOT NULL REFERENCES products(id) ON DELETE RESTRICT,
+  source_type TEXT NOT NULL, -- opening, purchase, transfer, adjustment, issue_return, reversal
+  source_id UUID, -- The purchase, issue, adjustment or return that brought the stock in
+  layer_date DATE NOT NULL DEFAULT CURRENT_DATE,
+  unit_cost DECIMAL(10, 2) NOT NULL DEFAULT 0 CHECK (unit_cost >= 0),
+  original_quantity DECIMAL(10, 2) NOT NULL CHECK (original_quantity >= 0),
+  remaining_quantity DECIMAL(10, 2) NOT NULL CHECK (remaining_quantity >= 0),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_inventory_cost_layers_open
+  ON inventory_cost_layers(store_id, product_id, layer_date, created_at) WHERE remaining_quantity > 0;
+CREATE INDEX IF NOT EXISTS idx_inventory_cost_layers_source ON inventory_cost_layers(source_type, source_id);
+
+CREATE TABLE IF NOT EXISTS inventory_cost_consumptions (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  layer_id UUID REFERENCES inventory_cost_layers(id) ON DELETE CASCADE, -- NULL when stock ran out of layers
+  store_id UUID NOT NULL REFERENCES stores(id) ON DELETE RESTRICT,
+  product_id UUID NOT NULL REFERENCES products(id) ON DELETE RESTRICT,
+  source_type TEXT NOT NULL, -- issue, adjustment, reversal
+  source_id UUID NOT NULL,
+  quantity DECIMAL(10, 2) NOT NULL CHECK (quantity > 0),
+  unit_cost DECIMAL(10, 2) NOT NULL DEFAULT 0,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_inventory_cost_consumptions_source ON inventory_cost_consumptions(source_type, source_id);
+
+-- Open a layer for the stock already on hand, valued the way it was before
+INSERT INTO inventory_cost_layers (store_id, product_id, source_type, unit_cost, original_quantity, remaining_quantity)
+SELECT
+  ii.store_id,
+  ii.product_id,
+  'opening',
+  COALESCE(public.get_average_cost(ii.store_id, ii.product_id), 0),
+  ii.quantity,
+  ii.quantity
+FROM inventory_items ii
+WHERE ii.quantity > 0
+  AND NOT EXISTS (
+    SELECT 1 FROM inventory_cost_layers l
+    WHERE l.store_id = ii.store_id AND l.product_id = ii.product_id
+  );
+
+CREATE OR REPLACE FUNCTION public.get_costing_method()
+RETURNS costing_method AS $$
+  SELECT COALESCE(
+    (SELECT costing_method FROM public.costing_settings LIMIT 1),
+    'weighted_average'::costing_method
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION public.add_cost_layer(
+  p_store_id UUID,
+  p_product_id UUID,
+  p_quantity DECIMAL,
+  p_unit_cost DECIMAL,
+  p_source_type TEXT,
+  p_source_id UUID,
+  p_layer_date DATE DEFAULT CURRENT_DATE
+)
+RETURNS VOID AS $$
+BEGIN
+  IF COALESCE(p_quantity, 0) <= 0 THEN
+    RETURN;
+  END IF;
+
+  INSERT INTO public.inventory_cost_layers (
+    store_id, product_id, source_type, source_id, layer_date, unit_cost, original_quantity, remaining_quantity
+  )
+  VALUES (
+    p_store_id, p_product_id, p_source_type, p_source_id, COALESCE(p_layer_date, CURRENT_DATE),
+    GREATEST(COALESCE(p_unit_cost, 0), 0), p_quantity, p_quantity
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Take stock out of a store's layers and return what it cost
+CREATE OR REPLACE FUNCTION public.consume_cost_layers(
+  p_store_id UUID,
+  p_product_id UUID,
+  p_quantity DECIMAL,
+  p_source_type TEXT,
+  p_source_id UUID
+)
+RETURNS DECIMAL AS $$
+DECLARE
+  v_layer inventory_cost_layers;
+  v_needed DECIMAL := p_quantity;
+  v_take DECIMAL;
+  v_total_cost DECIMAL := 0;
+  v_on_hand DECIMAL;
+  v_fraction DECIMAL;
+  v_fallback_cost DECIMAL(10, 2);
+BEGIN
+  IF COALESCE(p_quantity, 0) <= 0 THEN
+    RETURN 0;
+  END IF;
+
+  -- Moving average: every open layer gives up the same share
+  IF public.get_costing_method() = 'weighted_average' THEN
+    SELECT COALESCE(SUM(remaining_quantity), 0) INTO v_on_hand
+    FROM public.inventory_cost_layers
+    WHERE store_id = p_store_id AND product_id = p_product_id AND remaining_quantity > 0;
+
+    IF v_on_hand > 0 THEN
+      v_fraction := LEAST(p_quantity / v_on_hand, 1);
+
+      FOR v_layer IN
+        SELECT * FROM public.inventory_cost_layers
+        WHERE store_id = p_store_id AND product_id = p_product_id AND remaining_quantity > 0
+        ORDER BY layer_date, created_at
+        FOR UPDATE
+      LOOP
+        v_take := LEAST(ROUND(v_layer.remaining_quantity * v_fraction, 2), v_layer.remaining_quantity, v_needed);
+        CONTINUE WHEN v_take <= 0;
+
+        UPDATE public.inventory_cost_layers
+        SET remaining_quantity = remaining_quantity - v_take,
+            updated_at = NOW()
+        WHERE id = v_layer.id;
+
+        INSERT INTO public.inventory_cost_consumptions (layer_id, store_id, product_id, source_type, source_id, quantity, unit_cost)
+        VALUES (v_layer.id, p_store_id, p_product_id, p_source_type, p_source_id, v_take, v_layer.unit_cost);
+
+        v_total_cost := v_total_cost + v_take * v_layer.unit_cost;
+        v_needed := v_needed - v_take;
+      END LOOP;
+    END IF;
+  END IF;
+
+  -- FIFO, and any rounding left over from the average pass
+  FOR v_layer IN
+    SELECT * FROM public.inventory_cost_layers
+    WHERE store_id = p_store_id AND product_id = p_product_id AND remaining_quantity > 0
+    ORDER BY layer_date, created_at
+    FOR UPDATE
+  LOOP
+    EXIT WHEN v_needed <= 0;
+    v_take := LEAST(v_layer.remaining_quantity, v_needed);
+
+    UPDATE public.inventory_cost_layers
+    SET remaining_quantity = remaining_quantity - v_take,
+        updated_at = NOW()
+    WHERE id = v_layer.id;
+
+    INSERT INTO public.inventory_cost_consumptions (layer_id, store_id, product_id, source_type, source_id, quantity, unit_cost)
+    VALUES (v_layer.id, p_store_id, p_product_id, p_source_type, p_source_id, v_take, v_layer.unit_cost);
+
+    v_total_cost := v_total_cost + v_take * v_layer.unit_cost;
+    v_needed := v_needed - v_take;
+  END LOOP;
+
+  -- Layers ran out: cost the rest at the latest known price so a void can
+  -- still put it back
+  IF v_needed > 0 THEN
+    SELECT unit_cost INTO v_fallback_cost
+    FROM public.inventory_cost_layers
+    WHERE store_id = p_store_id AND product_id = p_product_id
+    ORDER BY layer_date DESC, created_at DESC
+    LIMIT 1;
+
+    INSERT INTO public.inventory_cost_consumptions (layer_id, store_id, product_id, source_type, source_id, quantity, unit_cost)
+    VALUES (NULL, p_store_id, p_product_id, p_source_type, p_source_id, v_needed, COALESCE(v_fallback_cost, 0));
+
+    v_total_cost := v_total_cost + v_needed * COALESCE(v_fallback_cost, 0);
+  END IF;
+
+  RETURN ROUND(v_total_cost, 2);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Put back everything a document consumed. Returns false when nothing was
+-- recorded (documents from before cost layers existed).
+CREATE OR REPLACE FUNCTION public.restore_cost_layers(p_source_type TEXT, p_source_id UUID)
+RETURNS BOOLEAN AS $$
+DECLARE
+  v_consumption inventory_cost_consumptions;
+  v_found BOOLEAN := false;
+BEGIN
+  FOR v_consumption IN
+    SELECT * FROM public.inventory_cost_consumptions
+    WHERE source_type = p_source_type AND source_id = p_source_id
+    FOR UPDATE
+  LOOP
+    v_found := true;
+
+    IF v_consumption.layer_id IS NOT NULL THEN
+      UPDATE public.inventory_cost_layers
+      SET remaining_quantity = remaining_quantity + v_consumption.quantity,
+          updated_at = NOW()
+      WHERE id = v_consumption.layer_id;
+    ELSE
+      PERFORM public.add_cost_layer(
+        v_consumption.store_id, v_consumption.product_id, v_consumption.quantity,
+        v_consumption.unit_cost, 'reversal', p_source_id
+      );
+    END IF;
+  END LOOP;
+
+  DELETE FROM public.inventory_cost_consumptions
+  WHERE source_type = p_source_type AND source_id = p_source_id;
+
+  RETURN v_found;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Take back stock a document brought in, starting with its own layers. Any
+-- part of those layers already used up comes out of the other layers instead.
+CREATE OR REPLACE FUNCTION public.remove_cost_layer(
+  p_store_id UUID,
+  p_product_id UUID,
+  p_quantity DECIMAL,
+  p_source_type TEXT,
+  p_source_id UUID
+)
+RETURNS VOID AS $$
+DECLARE
+  v_layer inventory_cost_layers;
+  v_needed DECIMAL := p_quantity;
+  v_take DECIMAL;
+BEGIN
+  IF COALESCE(p_quantity, 0) <= 0 THEN
+    RETURN;
+  END IF;
+
+  FOR v_layer IN
+    SELECT * FROM public.inventory_cost_layers
+    WHERE source_type = p_source_type
+      AND source_id = p_source_id
+      AND store_id = p_store_id
+      AND product_id = p_product_id
+      AND remaining_quantity > 0
+    ORDER BY layer_date DESC, created_at DESC
+    FOR UPDATE
+  LOOP
+    EXIT WHEN v_needed <= 0;
+    v_take := LEAST(v_layer.remaining_quantity, v_needed);
+
+    UPDATE public.inventory_cost_layers
+    SET remaining_quantity = remaining_quantity - v_take,
+        updated_at = NOW()
+    WHERE id = v_layer.id;
+
+    v_needed := v_needed - v_take;
+  END LOOP;
+
+  IF v_needed > 0 THEN
+    PERFORM public.consume_cost_layers(p_store_id, p_product_id, v_needed, 'reversal', p_source_id);
+  END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION public.add_cost_layer(UUID, UUID, DECIMAL, DECIMAL, TEXT, UUID, DATE) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.consume_cost_layers(UUID, UUID, DECIMAL, TEXT, UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.restore_cost_layers(TEXT, UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.remove_cost_layer(UUID, UUID, DECIMAL, TEXT, UUID) FROM PUBLIC, anon, authenticated;
+
+-- Value what is on hand from the open layers. With nothing left, fall back to
+-- the last price paid so new movements still get a sensible cost.
+CREATE OR REPLACE FUNCTION public.get_average_cost(p_store_id UUID, p_product_id UUID)
+RETURNS DECIMAL(10, 2) AS $$
+DECLARE
+  v_quantity DECIMAL;
+  v_value DECIMAL;
+  v_last_cost DECIMAL(10, 2);
+BEGIN
+  SELECT
+    COALESCE(SUM(remaining_quantity), 0),
+    COALESCE(SUM(remaining_quantity * unit_cost), 0)
+  INTO v_quantity, v_value
+  FROM inventory_cost_layers
+  WHERE store_id = p_store_id AND product_id = p_product_id AND remaining_quantity > 0;
+
+  IF v_quantity > 0 THEN
+    RETURN ROUND(v_value / v_quantity, 2);
+  END IF;
+
+  SELECT unit_cost INTO v_last_cost
+  FROM inventory_cost_layers
+  WHERE store_id = p_store_id AND product_id = p_product_id
+  ORDER BY layer_date DESC, created_at DESC
+  LIMIT 1;
+
+  RETURN COALESCE(v_last_cost, 0);
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+-- Purchases: one layer per direct purchase, or per posted GRN for purchases
+-- received in consignments. GRN layers hang off the purchase because posted
+-- GRNs are only ever reversed together with their purchase.
+CREATE OR REPLACE FUNCTION public.add_cost_layer_on_purchase()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NOT NEW.receive_via_grn THEN
+    PERFORM public.add_cost_layer(NEW.store_id, NEW.product_id, NEW.quantity, NEW.unit_cost, 'purchase', NEW.id, NEW.purchase_date);
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS add_cost_layer_on_purchase ON purchases;
+CREATE TRIGGER add_cost_layer_on_purchase
+  AFTER INSERT ON purchases
+  FOR EACH ROW
+  EXECUTE FUNCTION public.add_cost_layer_on_purchase();
+
+CREATE OR REPLACE FUNCTION public.add_cost_layer_on_grn_post()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_unit_cost DECIMAL(10, 2);
+BEGIN
+  SELECT unit_cost INTO v_unit_cost FROM public.purchases WHERE id = NEW.purchase_id;
+
+  PERFORM public.add_cost_layer(NEW.store_id, NEW.product_id, NEW.quantity, v_unit_cost, 'purchase', NEW.purchase_id, NEW.received_date);
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS add_cost_layer_on_grn_post ON goods_received_notes;
+CREATE TRIGGER add_cost_layer_on_grn_post
+  AFTER UPDATE OF status ON goods_received_notes
+  FOR EACH ROW
+  WHEN (OLD.status = 'draft' AND NEW.status = 'posted')
+  EXECUTE FUNCTION public.add_cost_layer_on_grn_post();
+
+-- Corrected purchases re-open their layer; a price change re-prices what is
+-- still on hand from it
+CREATE OR REPLACE FUNCTION public.update_cost_layer_on_purchase_update()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NOT NEW.receive_via_grn AND (
+    OLD.quantity IS DISTINCT FROM NEW.quantity OR
+    OLD.product_id IS DISTINCT FROM NEW.product_id OR
+    OLD.store_id IS DISTINCT FROM NEW.store_id
+  ) THEN
+    PERFORM public.remove_cost_layer(OLD.store_id, OLD.product_id, OLD.quantity - OLD.returned_quantity, 'purchase', OLD.id);
+    PERFORM public.add_cost_layer(
+      NEW.store_id, NEW.product_id, NEW.quantity - NEW.returned_quantity, NEW.unit_cost, 'purchase', NEW.id, NEW.purchase_date
+    );
+  ELSIF OLD.unit_cost IS DISTINCT FROM NEW.unit_cost THEN
+    UPDATE public.inventory_cost_layers
+    SET unit_cost = NEW.unit_cost,
+        updated_at = NOW()
+    WHERE source_type = 'purchase' AND source_id = NEW.id;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS update_cost_layer_on_purchase_update ON purchases;
+CREATE TRIGGER update_cost_layer_on_purchase_update
+  AFTER UPDATE OF quantity, product_id, store_id, unit_cost ON purchases
+  FOR EACH ROW
+  WHEN (OLD.deleted_at IS NULL AND NEW.deleted_at IS NULL)
+  EXECUTE FUNCTION public.update_cost_layer_on_purchase_update();
+
+CREATE OR REPLACE FUNCTION public.remove_cost_layer_on_purchase_soft_delete()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_received DECIMAL(10, 2);
+BEGIN
+  IF NEW.receive_via_grn THEN
+    -- The GRNs are voided alongside the purchase with the same timestamp
+    SELECT COALESCE(SUM(quantity), 0) INTO v_received
+    FROM public.goods_received_notes
+    WHERE purchase_id = NEW.id
+      AND status = 'posted'
+      AND (deleted_at IS NULL OR deleted_at = NEW.deleted_at);
+  ELSE
+    v_received := NEW.quantity;
+  END IF;
+
+  PERFORM public.remove_cost_layer(NEW.store_id, NEW.product_id, v_received - NEW.returned_quantity, 'purchase', NEW.id);
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS remove_cost_layer_on_purchase_soft_delete ON purchases;
+CREATE TRIGGER remove_cost_layer_on_purchase_soft_delete
+  AFTER UPDATE OF deleted_at ON purchases
+  FOR EACH ROW
+  WHEN (OLD.deleted_at IS NULL AND NEW.deleted_at IS NOT NULL)
+  EXECUTE FUNCTION public.remove_cost_layer_on_purchase_soft_delete();
+
+-- Returns to suppliers leave at the purchase price, so they come out of the
+-- purchase's own layer first
+CREATE OR REPLACE FUNCTION public.apply_cost_layers_on_purchase_return()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_purchase_date DATE;
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    PERFORM public.remove_cost_layer(NEW.store_id, NEW.product_id, NEW.quantity, 'purchase', NEW.purchase_id);
+  ELSE
+    SELECT purchase_date INTO v_purchase_date FROM public.purchases WHERE id = NEW.purchase_id;
+    PERFORM public.add_cost_layer(NEW.store_id, NEW.product_id, NEW.quantity, NEW.unit_cost, 'purchase', NEW.purchase_id, v_purchase_date);
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS apply_cost_layers_on_purchase_return ON purchase_returns;
+CREATE TRIGGER apply_cost_layers_on_purchase_return
+  AFTER INSERT ON purchase_returns
+  FOR EACH ROW
+  EXECUTE FUNCTION public.apply_cost_layers_on_purchase_return();
+
+DROP TRIGGER IF EXISTS apply_cost_layers_on_purchase_return_void ON purchase_returns;
+CREATE TRIGGER apply_cost_layers_on_purchase_return_void
+  AFTER UPDATE OF deleted_at ON purchase_returns
+  FOR EACH ROW
+  WHEN (OLD.deleted_at IS NULL AND NEW.deleted_at IS NOT NULL)
+  EXECUTE FUNCTION public.apply_cost_layers_on_purchase_return();
+
+-- Issues consume from the source store's layers and carry what they cost.
+-- Issues to people are costed too so consumption on site has a value.
+CREATE OR REPLACE FUNCTION public.calculate_issue_cost()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_cost DECIMAL;
+BEGIN
+  v_cost := public.consume_cost_layers(NEW.from_store_id, NEW.product_id, NEW.quantity, 'issue', NEW.id);
+
+  NEW.unit_cost := ROUND(v_cost / NEW.quantity, 2);
+  NEW.total_cost := v_cost;
+
+  -- Store-to-store issues start out in transit
+  IF NEW.to_store_id IS NOT NULL THEN
+    NEW.transfer_status := 'in_transit';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Received transfers open a layer at the destination at the transfer cost;
+-- anything short or damaged never arrives and so is never layered
+CREATE OR REPLACE FUNCTION public.add_cost_layer_on_transfer_receipt()
+RETURNS TRIGGER AS $$
+BEGIN
+  PERFORM public.add_cost_layer(
+    NEW.to_store_id, NEW.product_id, NEW.received_quantity, NEW.unit_cost, 'transfer', NEW.id,
+    COALESCE(NEW.received_date, NEW.issue_date)
+  );
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS add_cost_layer_on_transfer_receipt ON issues;
+CREATE TRIGGER add_cost_layer_on_transfer_receipt
+  AFTER UPDATE OF transfer_status ON issues
+  FOR EACH ROW
+  WHEN (OLD.transfer_status = 'in_transit' AND NEW.transfer_status = 'received')
+  EXECUTE FUNCTION public.add_cost_layer_on_transfer_receipt();
+
+-- Corrections give back what the issue consumed and consume again for the
+-- corrected product/quantity; a received transfer re-opens its destination layer
+CREATE OR REPLACE FUNCTION public.prepare_issue_correction()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_cost DECIMAL;
+BEGIN
+  IF NOT public.restore_cost_layers('issue', OLD.id) THEN
+    PERFORM public.add_cost_layer(
+      OLD.from_store_id, OLD.product_id, OLD.quantity, COALESCE(OLD.unit_cost, 0), 'reversal', OLD.id, OLD.issue_date
+    );
+  END IF;
+
+  v_cost := public.consume_cost_layers(NEW.from_store_id, NEW.product_id, NEW.quantity, 'issue', NEW.id);
+  NEW.unit_cost := ROUND(v_cost / NEW.quantity, 2);
+  NEW.total_cost := v_cost;
+
+  IF NEW.to_store_id IS NOT NULL AND NEW.transfer_status = 'received' THEN
+    NEW.received_quantity := COALESCE(OLD.received_quantity, OLD.quantity) + (NEW.quantity - OLD.quantity);
+
+    IF NEW.received_quantity < 0 THEN
+      RAISE EXCEPTION 'Quantity cannot be less than the % recorded as short or damaged',
+        OLD.quantity - COALESCE(OLD.received_quantity, OLD.quantity);
+    END IF;
+
+    PERFORM public.remove_cost_layer(
+      OLD.to_store_id, OLD.product_id, COALESCE(OLD.received_quantity, OLD.quantity), 'transfer', OLD.id
+    );
+    PERFORM public.add_cost_layer(
+      NEW.to_store_id, NEW.product_id, NEW.received_quantity, NEW.unit_cost, 'transfer', NEW.id,
+      COALESCE(NEW.received_date, NEW.issue_date)
+    );
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Voided issues give their stock back to the source layers and take it out
+-- of the destination's
+CREATE OR REPLACE FUNCTION public.reverse_cost_layers_on_issue_soft_delete()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NOT public.restore_cost_layers('issue', NEW.id) THEN
+    PERFORM public.add_cost_layer(
+      NEW.from_store_id, NEW.product_id, NEW.quantity, COALESCE(NEW.unit_cost, 0), 'reversal', NEW.id, NEW.issue_date
+    );
+  END IF;
+
+  IF NEW.to_store_id IS NOT NULL AND NEW.transfer_status = 'received' THEN
+    PERFORM public.remove_cost_layer(
+      NEW.to_store_id, NEW.product_id, COALESCE(NEW.received_quantity, NEW.quantity), 'transfer', NEW.id
+    );
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS reverse_cost_layers_on_issue_soft_delete ON issues;
+CREATE TRIGGER reverse_cost_layers_on_issue_soft_delete
+  AFTER UPDATE OF deleted_at ON issues
+  FOR EACH ROW
+  WHEN (OLD.deleted_at IS NULL AND NEW.deleted_at IS NOT NULL)
+  EXECUTE FUNCTION public.reverse_cost_layers_on_issue_soft_delete();
+
+-- Material returned from site comes back at the cost it went out at
+CREATE OR REPLACE FUNCTION public.apply_cost_layers_on_issue_return()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_unit_cost DECIMAL(10, 2);
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    SELECT unit_cost INTO v_unit_cost FROM public.issues WHERE id = NEW.issue_id;
+    PERFORM public.add_cost_layer(
+      NEW.store_id, NEW.product_id, NEW.quantity,
+      COALESCE(v_unit_cost, public.get_average_cost(NEW.store_id, NEW.product_id)),
+      'issue_return', NEW.id, NEW.return_date
+    );
+  ELSE
+    PERFORM public.remove_cost_layer(NEW.store_id, NEW.product_id, NEW.quantity, 'issue_return', NEW.id);
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS apply_cost_layers_on_issue_return ON issue_returns;
+CREATE TRIGGER apply_cost_layers_on_issue_return
+  AFTER INSERT ON issue_returns
+  FOR EACH ROW
+  EXECUTE FUNCTION public.apply_cost_layers_on_issue_return();
+
+DROP TRIGGER IF EXISTS apply_cost_layers_on_issue_return_void ON issue_returns;
+CREATE TRIGGER apply_cost_layers_on_issue_return_void
+  AFTER UPDATE OF deleted_at ON issue_returns
+  FOR EACH ROW
+  WHEN (OLD.deleted_at IS NULL AND NEW.deleted_at IS NOT NULL)
+  EXECUTE FUNCTION public.apply_cost_layers_on_issue_return();
+
+-- Write-offs consume layers like an issue; found stock opens a layer at the
+-- current average
+CREATE OR REPLACE FUNCTION public.calculate_adjustment_cost()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_available DECIMAL(10, 2);
+  v_cost DECIMAL;
+BEGIN
+  IF NEW.quantity < 0 THEN
+    SELECT quantity INTO v_available
+    FROM public.inventory_items
+    WHERE store_id = NEW.store_id AND product_id = NEW.product_id
+    FOR UPDATE;
+
+    IF COALESCE(v_available, 0) < ABS(NEW.quantity) THEN
+      RAISE EXCEPTION 'Insufficient inventory: only % available to write off', COALESCE(v_available, 0);
+    END IF;
+
+    v_cost := public.consume_cost_layers(NEW.store_id, NEW.product_id, ABS(NEW.quantity), 'adjustment', NEW.id);
+    NEW.unit_cost := ROUND(v_cost / ABS(NEW.quantity), 2);
+    NEW.total_cost := -v_cost;
+  ELSE
+    NEW.unit_cost := COALESCE(public.get_average_cost(NEW.store_id, NEW.product_id), 0);
+    NEW.total_cost := NEW.unit_cost * NEW.quantity;
+
+    PERFORM public.add_cost_layer(NEW.store_id, NEW.product_id, NEW.quantity, NEW.unit_cost, 'adjustment', NEW.id, NEW.adjustment_date);
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Enable RLS
+ALTER TABLE costing_settings ENABLE ROW LEVEL SECURITY;
+ALTER TABLE inventory_cost_layers ENABLE ROW LEVEL SECURITY;
+ALTER TABLE inventory_cost_consumptions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view the costing method"
+  ON costing_settings FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Admins can change the costing method"
+  ON costing_settings FOR UPDATE
+  TO authenticated
+  USING (public.is_admin());
+
+-- Layers and consumptions are only written by the functions above
+CREATE POLICY "Admins can view cost layers"
+  ON inventory_cost_layers FOR SELECT
+  TO authenticated
+  USING (public.is_admin());
+
+CREATE POLICY "Central managers can view central store cost layers"
+  ON inventory_cost_layers FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM user_profiles up
+      JOIN stores s ON s.type = 'central'
+      WHERE up.id = auth.uid()
+        AND up.role = 'central_store_manager'
+        AND inventory_cost_layers.store_id = s.id
+    )
+  );
+
+CREATE POLICY "Project managers can view their store cost layers"
+  ON inventory_cost_layers FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM user_profiles up
+      JOIN stores s ON s.project_id = up.project_id AND s.type = 'project'
+      WHERE up.id = auth.uid()
+        AND up.role = 'project_store_manager'
+        AND inventory_cost_layers.store_id = s.id
+    )
+  );
+
+CREATE POLICY "Admins can view cost consumptions"
+  ON inventory_cost_consumptions FOR SELECT
+  TO authenticated
+  USING (public.is_admin());
+
+CREATE TRIGGER update_costing_settings_updated_at
+  BEFORE UPDATE ON costing_settings
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_inventory_cost_layers_updated_at
+  BEFORE UPDATE ON inventory_cost_layers
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
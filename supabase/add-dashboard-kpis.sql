@@ -0,0 +1,95 @@
+-- Dashboard KPIs
+-- The dashboard shows figures that would otherwise mean loading whole tables
+-- into the app: stock value per store, purchases and issues per month and the
+-- products each project consumes most. These functions add them up in the
+-- database and return one row per store, month or product.
+--
+-- They run as the calling user (SECURITY INVOKER), so row level security
+-- limits every figure to the stores the user can see. Whether a user may see
+-- values is decided by the app, as it is on the reports.
+-- Run this after add-notifications.sql
+
+-- Quantity on hand and its value at the open cost layers, per store
+CREATE OR REPLACE FUNCTION public.get_dashboard_stock_value()
+RETURNS TABLE (
+  store_id UUID,
+  store_name TEXT,
+  store_type TEXT,
+  quantity DECIMAL,
+  total_value DECIMAL
+) AS $$
+  SELECT
+    s.id,
+    s.name,
+    s.type::TEXT,
+    COALESCE((SELECT SUM(ii.quantity) FROM inventory_items ii WHERE ii.store_id = s.id), 0),
+    COALESCE((
+      SELECT ROUND(SUM(cl.remaining_quantity * cl.unit_cost), 2)
+      FROM inventory_cost_layers cl
+      WHERE cl.store_id = s.id AND cl.remaining_quantity > 0
+    ), 0)
+  FROM stores s
+  WHERE s.deleted_at IS NULL
+  ORDER BY s.type, s.name;
+$$ LANGUAGE sql STABLE;
+
+-- Purchases and issues dated in [p_start_date, p_end_date]
+CREATE OR REPLACE FUNCTION public.get_dashboard_activity_totals(p_start_date DATE, p_end_date DATE)
+RETURNS TABLE (
+  purchase_count BIGINT,
+  purchase_value DECIMAL,
+  issue_count BIGINT,
+  issue_value DECIMAL
+) AS $$
+  SELECT
+    (SELECT COUNT(*) FROM purchases p
+      WHERE p.deleted_at IS NULL AND p.purchase_date BETWEEN p_start_date AND p_end_date),
+    (SELECT COALESCE(SUM(p.total_cost), 0) FROM purchases p
+      WHERE p.deleted_at IS NULL AND p.purchase_date BETWEEN p_start_date AND p_end_date),
+    (SELECT COUNT(*) FROM issues i
+      WHERE i.deleted_at IS NULL AND i.issue_date BETWEEN p_start_date AND p_end_date),
+    (SELECT COALESCE(SUM(i.total_cost), 0) FROM issues i
+      WHERE i.deleted_at IS NULL AND i.issue_date BETWEEN p_start_date AND p_end_date);
+$$ LANGUAGE sql STABLE;
+
+-- The products each project used most since p_start_date: stock its project
+-- stores issued to people, less what was brought back
+CREATE OR REPLACE FUNCTION public.get_dashboard_top_consumed_products(p_start_date DATE, p_limit INTEGER DEFAULT 5)
+RETURNS TABLE (
+  project_id UUID,
+  project_name TEXT,
+  product_id UUID,
+  product_name TEXT,
+  unit TEXT,
+  quantity DECIMAL
+) AS $$
+  SELECT ranked.project_id, ranked.project_name, ranked.product_id, ranked.product_name, ranked.unit, ranked.quantity
+  FROM (
+    SELECT
+      pr.id AS project_id,
+      pr.name AS project_name,
+      p.id AS product_id,
+      p.name AS product_name,
+      p.unit,
+      SUM(i.quantity - COALESCE(i.returned_quantity, 0)) AS quantity,
+      ROW_NUMBER() OVER (
+        PARTITION BY pr.id
+        ORDER BY SUM(i.quantity - COALESCE(i.returned_quantity, 0)) DESC, p.name
+      ) AS position
+    FROM issues i
+    JOIN stores s ON s.id = i.from_store_id AND s.type = 'project'
+    JOIN projects pr ON pr.id = s.project_id
+    JOIN products p ON p.id = i.product_id
+    WHERE i.deleted_at IS NULL
+      AND i.to_store_id IS NULL
+      AND i.issue_date >= p_start_date
+    GROUP BY pr.id, pr.name, p.id, p.name, p.unit
+    HAVING SUM(i.quantity - COALESCE(i.returned_quantity, 0)) > 0
+  ) ranked
+  WHERE ranked.position <= p_limit
+  ORDER BY ranked.project_name, ranked.position;
+$$ LANGUAGE sql STABLE;
+
+REVOKE EXECUTE ON FUNCTION public.get_dashboard_stock_value() FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION public.get_dashboard_activity_totals(DATE, DATE) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION public.get_dashboard_top_consumed_products(DATE, INTEGER) FROM PUBLIC, anon;
@@ -0,0 +1,47 @@
+-- Email notifications
+-- The app emails users about events they would otherwise only find by opening
+-- it (see lib/email/notify.ts):
+--   low_stock        a product in one of their stores fell to its reorder point
+--   large_issue      stock above the large-issue value was issued from or to
+--                    one of their stores
+--   purchase_edited  a purchase was edited by someone who isn't an admin (admins)
+--   user_created     a user account was created (users who manage users)
+-- Everyone in an event's audience is subscribed until they turn it off in
+-- their notification preferences.
+--
+-- Emails are sent by the app with the service role key, which also reads the
+-- recipients' addresses and preferences. Low-stock emails go out once per
+-- alert; stock_alerts.emailed_at records that an alert has been sent.
+-- Run this after add-reorder-levels.sql
+
+CREATE TABLE IF NOT EXISTS notification_preferences (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID NOT NULL REFERENCES user_profiles(id) ON DELETE CASCADE,
+  event_type TEXT NOT NULL CHECK (event_type IN ('low_stock', 'large_issue', 'purchase_edited', 'user_created')),
+  email_enabled BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE (user_id, event_type)
+);
+
+ALTER TABLE stock_alerts ADD COLUMN IF NOT EXISTS emailed_at TIMESTAMP WITH TIME ZONE;
+
+-- Alerts raised before emails existed aren't sent
+UPDATE stock_alerts SET emailed_at = created_at WHERE emailed_at IS NULL;
+
+CREATE INDEX IF NOT EXISTS idx_stock_alerts_not_emailed ON stock_alerts(created_at) WHERE emailed_at IS NULL;
+
+DROP TRIGGER IF EXISTS update_notification_preferences_updated_at ON notification_preferences;
+CREATE TRIGGER update_notification_preferences_updated_at
+  BEFORE UPDATE ON notification_preferences
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- Enable RLS
+ALTER TABLE notification_preferences ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage their own notification preferences"
+  ON notification_preferences FOR ALL
+  TO authenticated
+  USING (user_id = auth.uid())
+  WITH CHECK (user_id = auth.uid());
@@ -0,0 +1,327 @@
+-- Goods Received Notes (GRNs)
+-- A purchase can be delivered in several consignments. Purchases flagged with
+-- receive_via_grn no longer move stock when they are recorded; instead each
+-- delivery is captured as a GRN and stock only moves into inventory_items
+-- when the GRN is posted. GRNs can also be raised directly against an approved
+-- purchase order line, in which case posting creates the purchase record.
+-- Run this after add-purchase-orders.sql
+
+ALTER TABLE purchases
+ADD COLUMN IF NOT EXISTS receive_via_grn BOOLEAN NOT NULL DEFAULT false;
+
+CREATE TYPE grn_status AS ENUM ('draft', 'posted');
+
+CREATE SEQUENCE IF NOT EXISTS grn_number_seq START 1;
+
+CREATE TABLE IF NOT EXISTS goods_received_notes (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  grn_number TEXT NOT NULL UNIQUE DEFAULT ('GRN-' || LPAD(nextval('grn_number_seq')::TEXT, 5, '0')),
+  purchase_id UUID REFERENCES purchases(id) ON DELETE RESTRICT,
+  purchase_order_item_id UUID REFERENCES purchase_order_items(id) ON DELETE RESTRICT,
+  store_id UUID NOT NULL REFERENCES stores(id) ON DELETE RESTRICT,
+  product_id UUID NOT NULL REFERENCES products(id) ON DELETE RESTRICT,
+  quantity DECIMAL(10, 2) NOT NULL CHECK (quantity > 0),
+  received_date DATE NOT NULL DEFAULT CURRENT_DATE,
+  vehicle_number TEXT,
+  challan_number TEXT,
+  received_by_name TEXT,
+  notes TEXT,
+  status grn_status NOT NULL DEFAULT 'draft',
+  posted_at TIMESTAMP WITH TIME ZONE,
+  posted_by UUID REFERENCES auth.users(id),
+  created_by UUID NOT NULL REFERENCES auth.users(id),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  deleted_at TIMESTAMP WITH TIME ZONE,
+  deleted_by UUID REFERENCES auth.users(id),
+  CHECK (purchase_id IS NOT NULL OR purchase_order_item_id IS NOT NULL)
+);
+
+CREATE INDEX IF NOT EXISTS idx_goods_received_notes_purchase_id ON goods_received_notes(purchase_id);
+CREATE INDEX IF NOT EXISTS idx_goods_received_notes_store_product ON goods_received_notes(store_id, product_id);
+CREATE INDEX IF NOT EXISTS idx_goods_received_notes_deleted_at ON goods_received_notes(deleted_at) WHERE deleted_at IS NULL;
+
+-- Purchases received through GRNs don't move stock on insert
+CREATE OR REPLACE FUNCTION public.update_inventory_on_purchase()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.receive_via_grn THEN
+    RETURN NEW;
+  END IF;
+
+  INSERT INTO public.inventory_items (store_id, product_id, quantity)
+  VALUES (NEW.store_id, NEW.product_id, NEW.quantity)
+  ON CONFLICT (store_id, product_id)
+  DO UPDATE SET
+    quantity = inventory_items.quantity + NEW.quantity,
+    updated_at = NOW();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Quantity edits on GRN purchases change the ordered quantity, not stock
+DROP TRIGGER IF EXISTS on_purchase_updated ON purchases;
+CREATE TRIGGER on_purchase_updated
+  AFTER UPDATE ON purchases
+  FOR EACH ROW
+  WHEN (
+    NOT NEW.receive_via_grn AND
+    (OLD.quantity IS DISTINCT FROM NEW.quantity OR OLD.product_id IS DISTINCT FROM NEW.product_id OR OLD.store_id IS DISTINCT FROM NEW.store_id)
+  )
+  EXECUTE FUNCTION public.update_inventory_on_purchase_update();
+
+-- Soft deleting a GRN purchase only reverses what was actually posted
+CREATE OR REPLACE FUNCTION reverse_inventory_on_purchase_soft_delete()
+RETURNS TRIGGER AS $$
+DECLARE
+  reversed_qty DECIMAL(10, 2);
+BEGIN
+  -- Only process if deleted_at changed from NULL to a timestamp (soft delete)
+  IF OLD.deleted_at IS NULL AND NEW.deleted_at IS NOT NULL THEN
+    IF NEW.receive_via_grn THEN
+      SELECT COALESCE(SUM(g.quantity), 0)
+      INTO reversed_qty
+      FROM goods_received_notes g
+      WHERE g.purchase_id = NEW.id
+        AND g.status = 'posted'
+        AND g.deleted_at IS NULL;
+
+      -- The GRNs go with the purchase they were received against
+      UPDATE goods_received_notes
+      SET deleted_at = NEW.deleted_at,
+          deleted_by = NEW.deleted_by
+      WHERE purchase_id = NEW.id
+        AND deleted_at IS NULL;
+    ELSE
+      reversed_qty := NEW.quantity;
+    END IF;
+
+    -- Reverse the inventory impact (subtract the quantity from inventory)
+    UPDATE inventory_items
+    SET quantity = quantity - reversed_qty
+    WHERE store_id = NEW.store_id
+      AND product_id = NEW.product_id;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Post a GRN: validates the outstanding quantity, creates the purchase for
+-- purchase-order GRNs, and moves the delivered quantity into stock.
+-- Runs as the caller so the purchases/GRN RLS policies still apply.
+CREATE OR REPLACE FUNCTION public.post_goods_received_note(p_grn_id UUID)
+RETURNS goods_received_notes AS $$
+DECLARE
+  v_grn goods_received_notes;
+  v_purchase purchases;
+  v_order_item purchase_order_items;
+  v_order purchase_orders;
+  v_posted_qty DECIMAL(10, 2);
+  v_purchase_id UUID;
+BEGIN
+  SELECT * INTO v_grn
+  FROM goods_received_notes
+  WHERE id = p_grn_id AND deleted_at IS NULL
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Goods received note not found';
+  END IF;
+
+  IF v_grn.status <> 'draft' THEN
+    RAISE EXCEPTION 'Goods received note % has already been posted', v_grn.grn_number;
+  END IF;
+
+  IF v_grn.purchase_id IS NOT NULL THEN
+    SELECT * INTO v_purchase
+    FROM purchases
+    WHERE id = v_grn.purchase_id AND deleted_at IS NULL
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Purchase for % not found', v_grn.grn_number;
+    END IF;
+
+    SELECT COALESCE(SUM(quantity), 0) INTO v_posted_qty
+    FROM goods_received_notes
+    WHERE purchase_id = v_grn.purchase_id
+      AND status = 'posted'
+      AND deleted_at IS NULL;
+
+    IF v_posted_qty + v_grn.quantity > v_purchase.quantity THEN
+      RAISE EXCEPTION 'Delivered quantity exceeds the outstanding quantity (%) on the purchase',
+        v_purchase.quantity - v_posted_qty;
+    END IF;
+
+    v_purchase_id := v_grn.purchase_id;
+  ELSE
+    SELECT * INTO v_order_item
+    FROM purchase_order_items
+    WHERE id = v_grn.purchase_order_item_id
+    FOR UPDATE;
+
+    SELECT * INTO v_order
+    FROM purchase_orders
+    WHERE id = v_order_item.purchase_order_id AND deleted_at IS NULL;
+
+    IF NOT FOUND OR v_order.status NOT IN ('approved', 'partially_received') THEN
+      RAISE EXCEPTION 'Goods can only be received against approved purchase orders';
+    END IF;
+
+    IF v_order_item.received_quantity + v_grn.quantity > v_order_item.quantity THEN
+      RAISE EXCEPTION 'Delivered quantity exceeds the outstanding quantity (%) on the order',
+        v_order_item.quantity - v_order_item.received_quantity;
+    END IF;
+
+    -- The purchase records the cost; stock moves below as the GRN is posted
+    INSERT INTO purchases (
+      store_id, product_id, quantity, unit_cost, total_cost, purchase_date,
+      notes, created_by, purchase_order_item_id, receive_via_grn
+    )
+    VALUES (
+      v_grn.store_id, v_grn.product_id, v_grn.quantity, v_order_item.unit_cost,
+      v_grn.quantity * v_order_item.unit_cost, v_grn.received_date,
+      'Received against ' || v_order.po_number || ' via ' || v_grn.grn_number,
+      auth.uid(), v_order_item.id, true
+    )
+    RETURNING id INTO v_purchase_id;
+  END IF;
+
+  -- Lets guard_goods_received_note_changes() tell this posting apart from a
+  -- direct status update
+  PERFORM set_config('app.posting_grn_id', p_grn_id::TEXT, true);
+
+  UPDATE goods_received_notes
+  SET status = 'posted',
+      purchase_id = v_purchase_id,
+      posted_at = NOW(),
+      posted_by = auth.uid()
+  WHERE id = p_grn_id
+  RETURNING * INTO v_grn;
+
+  PERFORM public.add_grn_quantity_to_inventory(v_grn.store_id, v_grn.product_id, v_grn.quantity);
+
+  RETURN v_grn;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Stock updates bypass the inventory_items RLS, like the purchase/issue triggers
+CREATE OR REPLACE FUNCTION public.add_grn_quantity_to_inventory(p_store_id UUID, p_product_id UUID, p_quantity DECIMAL)
+RETURNS VOID AS $$
+BEGIN
+  INSERT INTO public.inventory_items (store_id, product_id, quantity)
+  VALUES (p_store_id, p_product_id, p_quantity)
+  ON CONFLICT (store_id, product_id)
+  DO UPDATE SET
+    quantity = inventory_items.quantity + p_quantity,
+    updated_at = NOW();
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION public.add_grn_quantity_to_inventory(UUID, UUID, DECIMAL) FROM PUBLIC, anon, authenticated;
+
+-- Stock and cost layers only move when a GRN is posted, so however the table
+-- is written to: GRNs start as drafts, only post_goods_received_note() posts
+-- them, and a posted GRN stays as it was posted. Its only change is being
+-- voided and restored along with its purchase.
+CREATE OR REPLACE FUNCTION public.guard_goods_received_note_changes()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_purchase_deleted_at TIMESTAMP WITH TIME ZONE;
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    IF NEW.status <> 'draft' THEN
+      RAISE EXCEPTION 'Goods received notes are recorded as drafts and posted separately';
+    END IF;
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'DELETE' THEN
+    IF OLD.status = 'posted' THEN
+      RAISE EXCEPTION 'Posted goods received notes cannot be deleted. Delete the purchase instead.';
+    END IF;
+    RETURN OLD;
+  END IF;
+
+  IF NEW.status IS DISTINCT FROM OLD.status THEN
+    IF OLD.status <> 'draft'
+      OR current_setting('app.posting_grn_id', true) IS DISTINCT FROM OLD.id::TEXT
+    THEN
+      RAISE EXCEPTION 'Goods received notes can only be posted through post_goods_received_note';
+    END IF;
+    RETURN NEW;
+  END IF;
+
+  IF OLD.status = 'posted' THEN
+    IF NEW.quantity IS DISTINCT FROM OLD.quantity
+      OR NEW.store_id IS DISTINCT FROM OLD.store_id
+      OR NEW.product_id IS DISTINCT FROM OLD.product_id
+      OR NEW.purchase_id IS DISTINCT FROM OLD.purchase_id
+      OR NEW.purchase_order_item_id IS DISTINCT FROM OLD.purchase_order_item_id
+      OR NEW.received_date IS DISTINCT FROM OLD.received_date
+      OR NEW.posted_at IS DISTINCT FROM OLD.posted_at
+      OR NEW.posted_by IS DISTINCT FROM OLD.posted_by
+    THEN
+      RAISE EXCEPTION 'Posted goods received notes cannot be changed';
+    END IF;
+
+    IF NEW.deleted_at IS DISTINCT FROM OLD.deleted_at THEN
+      SELECT deleted_at INTO v_purchase_deleted_at
+      FROM public.purchases
+      WHERE id = OLD.purchase_id;
+
+      IF NEW.deleted_at IS DISTINCT FROM v_purchase_deleted_at THEN
+        RAISE EXCEPTION 'Posted goods received notes are voided by deleting their purchase';
+      END IF;
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS guard_goods_received_note_changes ON goods_received_notes;
+CREATE TRIGGER guard_goods_received_note_changes
+  BEFORE INSERT OR UPDATE OR DELETE ON goods_received_notes
+  FOR EACH ROW
+  EXECUTE FUNCTION public.guard_goods_received_note_changes();
+
+-- Enable RLS
+ALTER TABLE goods_received_notes ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can manage goods received notes"
+  ON goods_received_notes FOR ALL
+  TO authenticated
+  USING (public.is_admin());
+
+CREATE POLICY "Central managers can manage central store goods received notes"
+  ON goods_received_notes FOR ALL
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM user_profiles up
+      JOIN stores s ON s.type = 'central'
+      WHERE up.id = auth.uid()
+        AND up.role = 'central_store_manager'
+        AND goods_received_notes.store_id = s.id
+    )
+  );
+
+CREATE POLICY "Project managers can manage their store goods received notes"
+  ON goods_received_notes FOR ALL
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM user_profiles up
+      JOIN stores s ON s.project_id = up.project_id AND s.type = 'project'
+      WHERE up.id = auth.uid()
+        AND up.role = 'project_store_manager'
+        AND goods_received_notes.store_id = s.id
+    )
+  );
+
+CREATE TRIGGER update_goods_received_notes_updated_at
+  BEFORE UPDATE ON goods_received_notes
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
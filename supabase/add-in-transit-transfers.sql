@@ -0,0 +1,198 @@
+-- Two-step store-to-store transfers
+-- Issuing to another store no longer lands the stock at the destination straight
+-- away. The quantity leaves the source store and sits in the destination's
+-- in_transit_quantity until the receiving store confirms receipt, recording any
+-- short or damaged quantity at that point.
+
+CREATE TYPE transfer_status AS ENUM ('in_transit', 'received');
+
+ALTER TABLE issues
+ADD COLUMN IF NOT EXISTS transfer_status transfer_status,
+ADD COLUMN IF NOT EXISTS received_quantity DECIMAL(10, 2) CHECK (received_quantity >= 0),
+ADD COLUMN IF NOT EXISTS damaged_quantity DECIMAL(10, 2) CHECK (damaged_quantity >= 0),
+ADD COLUMN IF NOT EXISTS received_date DATE,
+ADD COLUMN IF NOT EXISTS received_at TIMESTAMP WITH TIME ZONE,
+ADD COLUMN IF NOT EXISTS received_by UUID REFERENCES auth.users(id),
+ADD COLUMN IF NOT EXISTS receipt_notes TEXT;
+
+ALTER TABLE inventory_items
+ADD COLUMN IF NOT EXISTS in_transit_quantity DECIMAL(10, 2) NOT NULL DEFAULT 0 CHECK (in_transit_quantity >= 0);
+
+-- Transfers made before this change already landed at the destination
+UPDATE issues
+SET transfer_status = 'received',
+    received_quantity = quantity,
+    damaged_quantity = 0,
+    received_date = issue_date,
+    received_at = created_at
+WHERE to_store_id IS NOT NULL
+  AND transfer_status IS NULL;
+
+CREATE INDEX IF NOT EXISTS idx_issues_in_transit ON issues(to_store_id) WHERE transfer_status = 'in_transit' AND deleted_at IS NULL;
+
+-- Store-to-store issues start out in transit
+CREATE OR REPLACE FUNCTION public.calculate_issue_cost()
+RETURNS TRIGGER AS $$
+DECLARE
+  source_avg_cost DECIMAL(10, 2);
+BEGIN
+  -- If issuing to another store, calculate and store the cost
+  IF NEW.to_store_id IS NOT NULL THEN
+    -- Get average cost from source store for cost tracking
+    SELECT COALESCE(
+      (SELECT get_average_cost(NEW.from_store_id, NEW.product_id)),
+      0
+    ) INTO source_avg_cost;
+
+    -- Store the cost in the issue record itself
+    NEW.unit_cost := source_avg_cost;
+    NEW.total_cost := source_avg_cost * NEW.quantity;
+    NEW.transfer_status := 'in_transit';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION public.update_inventory_on_issue()
+RETURNS TRIGGER AS $$
+BEGIN
+  -- Reduce quantity from source store
+  UPDATE public.inventory_items
+  SET
+    quantity = quantity - NEW.quantity,
+    updated_at = NOW()
+  WHERE store_id = NEW.from_store_id AND product_id = NEW.product_id;
+
+  -- Stock heading to another store is held as in transit until it is received
+  IF NEW.to_store_id IS NOT NULL THEN
+    INSERT INTO public.inventory_items (store_id, product_id, quantity, in_transit_quantity)
+    VALUES (NEW.to_store_id, NEW.product_id, 0, NEW.quantity)
+    ON CONFLICT (store_id, product_id)
+    DO UPDATE SET
+      in_transit_quantity = inventory_items.in_transit_quantity + NEW.quantity,
+      updated_at = NOW();
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Confirm receipt of an in-transit issue. Whatever is not received in good
+-- condition (short or damaged) never reaches the destination's stock.
+CREATE OR REPLACE FUNCTION public.receive_issue_transfer(
+  p_issue_id UUID,
+  p_received_quantity DECIMAL,
+  p_damaged_quantity DECIMAL DEFAULT 0,
+  p_received_date DATE DEFAULT CURRENT_DATE,
+  p_notes TEXT DEFAULT NULL
+)
+RETURNS issues AS $$
+DECLARE
+  v_issue issues;
+  v_store stores;
+  v_profile user_profiles;
+BEGIN
+  SELECT * INTO v_issue
+  FROM issues
+  WHERE id = p_issue_id AND deleted_at IS NULL
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Issue not found';
+  END IF;
+
+  IF v_issue.transfer_status IS DISTINCT FROM 'in_transit' THEN
+    RAISE EXCEPTION 'Only in-transit issues can be received';
+  END IF;
+
+  -- Only the receiving store (or an admin) can confirm receipt
+  SELECT * INTO v_store FROM stores WHERE id = v_issue.to_store_id;
+  SELECT * INTO v_profile FROM user_profiles WHERE id = auth.uid();
+
+  IF v_profile.id IS NULL OR NOT (
+    v_profile.role = 'admin'
+    OR (v_profile.role = 'central_store_manager' AND v_store.type = 'central')
+    OR (v_profile.role = 'project_store_manager' AND v_store.type = 'project' AND v_store.project_id = v_profile.project_id)
+  ) THEN
+    RAISE EXCEPTION 'Unauthorized: Only the receiving store can confirm receipt';
+  END IF;
+
+  IF p_received_quantity IS NULL OR p_received_quantity < 0
+    OR COALESCE(p_damaged_quantity, 0) < 0 THEN
+    RAISE EXCEPTION 'Received and damaged quantities must be 0 or greater';
+  END IF;
+
+  IF p_received_quantity + COALESCE(p_damaged_quantity, 0) > v_issue.quantity THEN
+    RAISE EXCEPTION 'Received and damaged quantities cannot exceed the issued quantity (%)', v_issue.quantity;
+  END IF;
+
+  UPDATE issues
+  SET transfer_status = 'received',
+      received_quantity = p_received_quantity,
+      damaged_quantity = COALESCE(p_damaged_quantity, 0),
+      received_date = COALESCE(p_received_date, CURRENT_DATE),
+      received_at = NOW(),
+      received_by = auth.uid(),
+      receipt_notes = NULLIF(TRIM(p_notes), '')
+  WHERE id = p_issue_id
+  RETURNING * INTO v_issue;
+
+  UPDATE inventory_items
+  SET
+    in_transit_quantity = in_transit_quantity - v_issue.quantity,
+    quantity = quantity + p_received_quantity,
+    updated_at = NOW()
+  WHERE store_id = v_issue.to_store_id AND product_id = v_issue.product_id;
+
+  RETURN v_issue;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION public.receive_issue_transfer(UUID, DECIMAL, DECIMAL, DATE, TEXT) FROM PUBLIC, anon;
+
+-- Only stock that actually arrived counts towards the destination's average cost
+CREATE OR REPLACE FUNCTION public.get_average_cost(p_store_id UUID, p_product_id UUID)
+RETURNS DECIMAL(10, 2) AS $$
+DECLARE
+  avg_cost DECIMAL(10, 2);
+  total_qty DECIMAL(10, 2);
+  total_cost DECIMAL(10, 2);
+  purchase_qty DECIMAL(10, 2);
+  purchase_cost DECIMAL(10, 2);
+  issue_qty DECIMAL(10, 2);
+  issue_cost DECIMAL(10, 2);
+BEGIN
+  -- Calculate from purchases (actual purchases)
+  SELECT
+    COALESCE(SUM(p.quantity), 0),
+    COALESCE(SUM(p.total_cost), 0)
+  INTO purchase_qty, purchase_cost
+  FROM purchases p
+  WHERE p.store_id = p_store_id AND p.product_id = p_product_id;
+
+  -- Calculate from received transfers from other stores
+  SELECT
+    COALESCE(SUM(i.received_quantity), 0),
+    COALESCE(SUM(i.received_quantity * i.unit_cost), 0)
+  INTO issue_qty, issue_cost
+  FROM issues i
+  WHERE i.to_store_id = p_store_id
+    AND i.product_id = p_product_id
+    AND i.unit_cost IS NOT NULL
+    AND i.transfer_status = 'received';
+
+  -- Combine purchases and issues
+  total_qty := purchase_qty + issue_qty;
+  total_cost := purchase_cost + issue_cost;
+
+  -- Calculate weighted average
+  IF total_qty > 0 THEN
+    avg_cost := total_cost / total_qty;
+  ELSE
+    avg_cost := 0;
+  END IF;
+
+  RETURN COALESCE(avg_cost, 0);
+END;
+$$ LANGUAGE plpgsql STABLE;
@@ -0,0 +1,135 @@
+-- Stock adjustments and write-offs
+-- Records stock changes that are not purchases or issues (breakage, theft,
+-- expiry, stock found on site, counting errors). Store managers raise an
+-- adjustment, an admin approves it, and only then does the stock move.
+-- Negative adjustments (write-offs) are valued at the store's average cost at
+-- the time of approval so the loss shows up in cost reporting.
+
+CREATE TYPE adjustment_reason AS ENUM (
+  'damaged',
+  'lost',
+  'expired',
+  'found',
+  'count_correction'
+);
+
+CREATE TYPE adjustment_status AS ENUM ('pending', 'approved', 'rejected');
+
+CREATE SEQUENCE IF NOT EXISTS adjustment_number_seq START 1;
+
+CREATE TABLE IF NOT EXISTS inventory_adjustments (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  adjustment_number TEXT NOT NULL UNIQUE DEFAULT ('ADJ-' || LPAD(nextval('adjustment_number_seq')::TEXT, 5, '0')),
+  store_id UUID NOT NULL REFERENCES stores(id) ON DELETE RESTRICT,
+  product_id UUID NOT NULL REFERENCES products(id) ON DELETE RESTRICT,
+  quantity DECIMAL(10, 2) NOT NULL CHECK (quantity <> 0), -- Positive adds stock, negative removes it
+  reason adjustment_reason NOT NULL,
+  adjustment_date DATE NOT NULL DEFAULT CURRENT_DATE,
+  notes TEXT,
+  status adjustment_status NOT NULL DEFAULT 'pending',
+  unit_cost DECIMAL(10, 2) CHECK (unit_cost >= 0), -- Set on approval from get_average_cost
+  total_cost DECIMAL(10, 2), -- Signed: negative for write-offs
+  created_by UUID NOT NULL REFERENCES auth.users(id),
+  approved_by UUID REFERENCES auth.users(id),
+  approved_at TIMESTAMP WITH TIME ZONE,
+  rejection_reason TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  deleted_at TIMESTAMP WITH TIME ZONE,
+  deleted_by UUID REFERENCES auth.users(id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_inventory_adjustments_store_product ON inventory_adjustments(store_id, product_id);
+CREATE INDEX IF NOT EXISTS idx_inventory_adjustments_status ON inventory_adjustments(status) WHERE deleted_at IS NULL;
+
+-- Value the adjustment when it is approved
+CREATE OR REPLACE FUNCTION public.calculate_adjustment_cost()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_available DECIMAL(10, 2);
+BEGIN
+  IF NEW.quantity < 0 THEN
+    SELECT quantity INTO v_available
+    FROM public.inventory_items
+    WHERE store_id = NEW.store_id AND product_id = NEW.product_id
+    FOR UPDATE;
+
+    IF COALESCE(v_available, 0) < ABS(NEW.quantity) THEN
+      RAISE EXCEPTION 'Insufficient inventory: only % available to write off', COALESCE(v_available, 0);
+    END IF;
+  END IF;
+
+  NEW.unit_cost := COALESCE(public.get_average_cost(NEW.store_id, NEW.product_id), 0);
+  NEW.total_cost := NEW.unit_cost * NEW.quantity;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS on_adjustment_approval_cost ON inventory_adjustments;
+CREATE TRIGGER on_adjustment_approval_cost
+  BEFORE UPDATE OF status ON inventory_adjustments
+  FOR EACH ROW
+  WHEN (OLD.status = 'pending' AND NEW.status = 'approved')
+  EXECUTE FUNCTION public.calculate_adjustment_cost();
+
+-- Move stock once the adjustment is approved
+CREATE OR REPLACE FUNCTION public.update_inventory_on_adjustment()
+RETURNS TRIGGER AS $$
+BEGIN
+  INSERT INTO public.inventory_items (store_id, product_id, quantity)
+  VALUES (NEW.store_id, NEW.product_id, NEW.quantity)
+  ON CONFLICT (store_id, product_id)
+  DO UPDATE SET
+    quantity = inventory_items.quantity + NEW.quantity,
+    updated_at = NOW();
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS on_adjustment_approved ON inventory_adjustments;
+CREATE TRIGGER on_adjustment_approved
+  AFTER UPDATE OF status ON inventory_adjustments
+  FOR EACH ROW
+  WHEN (OLD.status = 'pending' AND NEW.status = 'approved')
+  EXECUTE FUNCTION public.update_inventory_on_adjustment();
+
+-- Enable RLS
+ALTER TABLE inventory_adjustments ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can manage adjustments"
+  ON inventory_adjustments FOR ALL
+  TO authenticated
+  USING (public.is_admin());
+
+CREATE POLICY "Central managers can manage central store adjustments"
+  ON inventory_adjustments FOR ALL
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM user_profiles up
+      JOIN stores s ON s.type = 'central'
+      WHERE up.id = auth.uid()
+        AND up.role = 'central_store_manager'
+        AND inventory_adjustments.store_id = s.id
+    )
+  );
+
+CREATE POLICY "Project managers can manage their store adjustments"
+  ON inventory_adjustments FOR ALL
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM user_profiles up
+      JOIN stores s ON s.project_id = up.project_id AND s.type = 'project'
+      WHERE up.id = auth.uid()
+        AND up.role = 'project_store_manager'
+        AND inventory_adjustments.store_id = s.id
+    )
+  );
+
+CREATE TRIGGER update_inventory_adjustments_updated_at
+  BEFORE UPDATE ON inventory_adjustments
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
@@ -0,0 +1,167 @@
+-- Reversal and correction of issues
+-- Admins can void (soft delete) an issue or correct its product/quantity. The
+-- triggers below put the stock back the way it would have been, and refuse the
+-- change when the destination store no longer holds what it received.
+
+CREATE POLICY "Admins can update issues"
+  ON issues FOR UPDATE
+  TO authenticated
+  USING (public.is_admin());
+
+-- Voiding an issue returns the stock to the source store and takes it back out
+-- of the destination (or out of transit if it was never received)
+CREATE OR REPLACE FUNCTION public.reverse_inventory_on_issue_soft_delete()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_available DECIMAL(10, 2);
+BEGIN
+  IF NEW.to_store_id IS NOT NULL THEN
+    IF NEW.transfer_status = 'in_transit' THEN
+      UPDATE public.inventory_items
+      SET
+        in_transit_quantity = in_transit_quantity - NEW.quantity,
+        updated_at = NOW()
+      WHERE store_id = NEW.to_store_id AND product_id = NEW.product_id;
+    ELSE
+      SELECT quantity INTO v_available
+      FROM public.inventory_items
+      WHERE store_id = NEW.to_store_id AND product_id = NEW.product_id
+      FOR UPDATE;
+
+      IF COALESCE(v_available, 0) < COALESCE(NEW.received_quantity, NEW.quantity) THEN
+        RAISE EXCEPTION 'Cannot reverse this issue: the destination store only has % left of the % it received',
+          COALESCE(v_available, 0), COALESCE(NEW.received_quantity, NEW.quantity);
+      END IF;
+
+      UPDATE public.inventory_items
+      SET
+        quantity = quantity - COALESCE(NEW.received_quantity, NEW.quantity),
+        updated_at = NOW()
+      WHERE store_id = NEW.to_store_id AND product_id = NEW.product_id;
+    END IF;
+  END IF;
+
+  UPDATE public.inventory_items
+  SET
+    quantity = quantity + NEW.quantity,
+    updated_at = NOW()
+  WHERE store_id = NEW.from_store_id AND product_id = NEW.product_id;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS reverse_inventory_on_issue_soft_delete ON issues;
+CREATE TRIGGER reverse_inventory_on_issue_soft_delete
+  AFTER UPDATE OF deleted_at ON issues
+  FOR EACH ROW
+  WHEN (OLD.deleted_at IS NULL AND NEW.deleted_at IS NOT NULL)
+  EXECUTE FUNCTION public.reverse_inventory_on_issue_soft_delete();
+
+-- Keep cost and received quantity consistent when an issue is corrected. A
+-- received transfer keeps its recorded short/damaged amount, so the received
+-- quantity moves by the same amount as the issued quantity.
+CREATE OR REPLACE FUNCTION public.prepare_issue_correction()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.to_store_id IS NOT NULL THEN
+    IF OLD.product_id IS DISTINCT FROM NEW.product_id THEN
+      NEW.unit_cost := COALESCE(public.get_average_cost(NEW.from_store_id, NEW.product_id), 0);
+    END IF;
+    NEW.total_cost := COALESCE(NEW.unit_cost, 0) * NEW.quantity;
+
+    IF NEW.transfer_status = 'received' THEN
+      NEW.received_quantity := COALESCE(OLD.received_quantity, OLD.quantity) + (NEW.quantity - OLD.quantity);
+
+      IF NEW.received_quantity < 0 THEN
+        RAISE EXCEPTION 'Quantity cannot be less than the % recorded as short or damaged',
+          OLD.quantity - COALESCE(OLD.received_quantity, OLD.quantity);
+      END IF;
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS on_issue_correction ON issues;
+CREATE TRIGGER on_issue_correction
+  BEFORE UPDATE OF quantity, product_id ON issues
+  FOR EACH ROW
+  WHEN (OLD.deleted_at IS NULL AND (OLD.quantity IS DISTINCT FROM NEW.quantity OR OLD.product_id IS DISTINCT FROM NEW.product_id))
+  EXECUTE FUNCTION public.prepare_issue_correction();
+
+-- Undo the original movement and apply the corrected one, then make sure
+-- neither the source nor the destination was pushed below zero
+CREATE OR REPLACE FUNCTION public.update_inventory_on_issue_update()
+RETURNS TRIGGER AS $$
+BEGIN
+  UPDATE public.inventory_items
+  SET
+    quantity = quantity + OLD.quantity,
+    updated_at = NOW()
+  WHERE store_id = OLD.from_store_id AND product_id = OLD.product_id;
+
+  UPDATE public.inventory_items
+  SET
+    quantity = quantity - NEW.quantity,
+    updated_at = NOW()
+  WHERE store_id = NEW.from_store_id AND product_id = NEW.product_id;
+
+  IF EXISTS (
+    SELECT 1 FROM public.inventory_items
+    WHERE store_id = NEW.from_store_id AND product_id = NEW.product_id AND quantity < 0
+  ) OR NOT EXISTS (
+    SELECT 1 FROM public.inventory_items
+    WHERE store_id = NEW.from_store_id AND product_id = NEW.product_id
+  ) THEN
+    RAISE EXCEPTION 'Insufficient inventory at the source store for the corrected quantity';
+  END IF;
+
+  IF NEW.to_store_id IS NOT NULL THEN
+    IF NEW.transfer_status = 'in_transit' THEN
+      UPDATE public.inventory_items
+      SET
+        in_transit_quantity = in_transit_quantity - OLD.quantity,
+        updated_at = NOW()
+      WHERE store_id = OLD.to_store_id AND product_id = OLD.product_id;
+
+      INSERT INTO public.inventory_items (store_id, product_id, quantity, in_transit_quantity)
+      VALUES (NEW.to_store_id, NEW.product_id, 0, NEW.quantity)
+      ON CONFLICT (store_id, product_id)
+      DO UPDATE SET
+        in_transit_quantity = inventory_items.in_transit_quantity + NEW.quantity,
+        updated_at = NOW();
+    ELSE
+      UPDATE public.inventory_items
+      SET
+        quantity = quantity - COALESCE(OLD.received_quantity, OLD.quantity),
+        updated_at = NOW()
+      WHERE store_id = OLD.to_store_id AND product_id = OLD.product_id;
+
+      INSERT INTO public.inventory_items (store_id, product_id, quantity)
+      VALUES (NEW.to_store_id, NEW.product_id, NEW.received_quantity)
+      ON CONFLICT (store_id, product_id)
+      DO UPDATE SET
+        quantity = inventory_items.quantity + NEW.received_quantity,
+        updated_at = NOW();
+
+      IF EXISTS (
+        SELECT 1 FROM public.inventory_items
+        WHERE store_id = OLD.to_store_id AND product_id = OLD.product_id AND quantity < 0
+      ) THEN
+        RAISE EXCEPTION 'Cannot correct this issue: the destination store no longer has enough of the received stock';
+      END IF;
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS on_issue_updated ON issues;
+CREATE TRIGGER on_issue_updated
+  AFTER UPDATE OF quantity, product_id ON issues
+  FOR EACH ROW
+  WHEN (OLD.deleted_at IS NULL AND NEW.deleted_at IS NULL AND (OLD.quantity IS DISTINCT FROM NEW.quantity OR OLD.product_id IS DISTINCT FROM NEW.product_id))
+  EXECUTE FUNCTION public.update_inventory_on_issue_update();
@@ -0,0 +1,181 @@
+-- Issue requisitions
+-- Project store managers request material from a central store. The central
+-- store manager approves (optionally for smaller quantities) or rejects the
+-- request, then fulfils it in one or more goes. Fulfilment creates regular
+-- issues rows (linked via requisition_item_id), so the existing issue triggers
+-- keep handling stock and cost.
+
+-- Lifecycle: pending -> approved (or rejected / cancelled) -> partially_fulfilled -> fulfilled
+CREATE TYPE requisition_status AS ENUM (
+  'pending',
+  'approved',
+  'rejected',
+  'cancelled',
+  'partially_fulfilled',
+  'fulfilled'
+);
+
+CREATE SEQUENCE IF NOT EXISTS requisition_number_seq START 1;
+
+CREATE TABLE IF NOT EXISTS issue_requisitions (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  requisition_number TEXT NOT NULL UNIQUE DEFAULT ('REQ-' || LPAD(nextval('requisition_number_seq')::TEXT, 5, '0')),
+  requesting_store_id UUID NOT NULL REFERENCES stores(id) ON DELETE RESTRICT,
+  supplying_store_id UUID NOT NULL REFERENCES stores(id) ON DELETE RESTRICT,
+  status requisition_status NOT NULL DEFAULT 'pending',
+  needed_by DATE,
+  notes TEXT,
+  requested_by UUID NOT NULL REFERENCES auth.users(id),
+  reviewed_by UUID REFERENCES auth.users(id),
+  reviewed_at TIMESTAMP WITH TIME ZONE,
+  rejection_reason TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  deleted_at TIMESTAMP WITH TIME ZONE,
+  deleted_by UUID REFERENCES auth.users(id),
+  CHECK (requesting_store_id <> supplying_store_id)
+);
+
+CREATE TABLE IF NOT EXISTS issue_requisition_items (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  requisition_id UUID NOT NULL REFERENCES issue_requisitions(id) ON DELETE CASCADE,
+  product_id UUID NOT NULL REFERENCES products(id) ON DELETE RESTRICT,
+  requested_quantity DECIMAL(10, 2) NOT NULL CHECK (requested_quantity > 0),
+  approved_quantity DECIMAL(10, 2) CHECK (approved_quantity >= 0),
+  issued_quantity DECIMAL(10, 2) NOT NULL DEFAULT 0 CHECK (issued_quantity >= 0),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE(requisition_id, product_id)
+);
+
+-- Link issues back to the requisition line they fulfil
+ALTER TABLE issues
+ADD COLUMN IF NOT EXISTS requisition_item_id UUID REFERENCES issue_requisition_items(id) ON DELETE RESTRICT;
+
+CREATE INDEX IF NOT EXISTS idx_issue_requisitions_status ON issue_requisitions(status) WHERE deleted_at IS NULL;
+CREATE INDEX IF NOT EXISTS idx_issue_requisitions_requesting_store ON issue_requisitions(requesting_store_id);
+CREATE INDEX IF NOT EXISTS idx_issue_requisitions_supplying_store ON issue_requisitions(supplying_store_id);
+CREATE INDEX IF NOT EXISTS idx_issue_requisition_items_requisition_id ON issue_requisition_items(requisition_id);
+CREATE INDEX IF NOT EXISTS idx_issues_requisition_item_id ON issues(requisition_item_id);
+
+-- Keep issued_quantity and the requisition status in sync with the issues
+-- made against each line
+CREATE OR REPLACE FUNCTION public.sync_requisition_fulfilment()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_item_id UUID;
+  v_requisition_id UUID;
+  v_total_lines INTEGER;
+  v_fulfilled_lines INTEGER;
+  v_any_issued BOOLEAN;
+BEGIN
+  v_item_id := COALESCE(NEW.requisition_item_id, OLD.requisition_item_id);
+
+  IF v_item_id IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  UPDATE public.issue_requisition_items iri
+  SET
+    issued_quantity = COALESCE((
+      SELECT SUM(i.quantity)
+      FROM public.issues i
+      WHERE i.requisition_item_id = v_item_id
+        AND i.deleted_at IS NULL
+    ), 0),
+    updated_at = NOW()
+  WHERE iri.id = v_item_id
+  RETURNING iri.requisition_id INTO v_requisition_id;
+
+  SELECT
+    COUNT(*),
+    COUNT(*) FILTER (WHERE issued_quantity >= COALESCE(approved_quantity, requested_quantity)),
+    BOOL_OR(issued_quantity > 0)
+  INTO v_total_lines, v_fulfilled_lines, v_any_issued
+  FROM public.issue_requisition_items
+  WHERE requisition_id = v_requisition_id;
+
+  UPDATE public.issue_requisitions
+  SET status = CASE
+    WHEN v_total_lines > 0 AND v_fulfilled_lines = v_total_lines THEN 'fulfilled'::requisition_status
+    WHEN v_any_issued THEN 'partially_fulfilled'::requisition_status
+    ELSE 'approved'::requisition_status
+  END
+  WHERE id = v_requisition_id
+    AND status IN ('approved', 'partially_fulfilled', 'fulfilled');
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS on_requisition_issue_created ON issues;
+CREATE TRIGGER on_requisition_issue_created
+  AFTER INSERT ON issues
+  FOR EACH ROW
+  WHEN (NEW.requisition_item_id IS NOT NULL)
+  EXECUTE FUNCTION public.sync_requisition_fulfilment();
+
+DROP TRIGGER IF EXISTS on_requisition_issue_updated ON issues;
+CREATE TRIGGER on_requisition_issue_updated
+  AFTER UPDATE OF quantity, deleted_at ON issues
+  FOR EACH ROW
+  WHEN (NEW.requisition_item_id IS NOT NULL)
+  EXECUTE FUNCTION public.sync_requisition_fulfilment();
+
+-- Enable RLS
+ALTER TABLE issue_requisitions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE issue_requisition_items ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can manage requisitions"
+  ON issue_requisitions FOR ALL
+  TO authenticated
+  USING (public.is_admin());
+
+-- Central store managers review and fulfil requisitions raised on central stores
+CREATE POLICY "Central managers can manage requisitions on central stores"
+  ON issue_requisitions FOR ALL
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM user_profiles up
+      JOIN stores s ON s.type = 'central'
+      WHERE up.id = auth.uid()
+        AND up.role = 'central_store_manager'
+        AND issue_requisitions.supplying_store_id = s.id
+    )
+  );
+
+-- Project store managers raise and track requisitions for their project store
+CREATE POLICY "Project managers can manage their store requisitions"
+  ON issue_requisitions FOR ALL
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM user_profiles up
+      JOIN stores s ON s.project_id = up.project_id AND s.type = 'project'
+      WHERE up.id = auth.uid()
+        AND up.role = 'project_store_manager'
+        AND issue_requisitions.requesting_store_id = s.id
+    )
+  );
+
+-- Requisition lines follow the visibility of their requisition
+CREATE POLICY "Users can manage lines of visible requisitions"
+  ON issue_requisition_items FOR ALL
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM issue_requisitions r
+      WHERE r.id = issue_requisition_items.requisition_id
+    )
+  );
+
+CREATE TRIGGER update_issue_requisitions_updated_at
+  BEFORE UPDATE ON issue_requisitions
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_issue_requisition_items_updated_at
+  BEFORE UPDATE ON issue_requisition_items
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
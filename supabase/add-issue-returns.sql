@@ -0,0 +1,223 @@
+-- Returns from site personnel
+-- Material issued from a project store to a named person (foreman, site
+-- engineer) can come back unused. A return references the original issue, puts
+-- the stock back into the project store and is netted against the issue so
+-- reports show what each person actually consumed.
+
+CREATE SEQUENCE IF NOT EXISTS issue_return_number_seq START 1;
+
+CREATE TABLE IF NOT EXISTS issue_returns (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  return_number TEXT NOT NULL UNIQUE DEFAULT ('RET-' || LPAD(nextval('issue_return_number_seq')::TEXT, 5, '0')),
+  issue_id UUID NOT NULL REFERENCES issues(id) ON DELETE RESTRICT,
+  store_id UUID NOT NULL REFERENCES stores(id) ON DELETE RESTRICT, -- Copied from the issue's source store
+  product_id UUID NOT NULL REFERENCES products(id) ON DELETE RESTRICT, -- Copied from the issue
+  returned_by_name TEXT, -- Copied from the issue's issued_to_name
+  quantity DECIMAL(10, 2) NOT NULL CHECK (quantity > 0),
+  return_date DATE NOT NULL DEFAULT CURRENT_DATE,
+  notes TEXT,
+  created_by UUID NOT NULL REFERENCES auth.users(id),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  deleted_at TIMESTAMP WITH TIME ZONE,
+  deleted_by UUID REFERENCES auth.users(id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_issue_returns_issue_id ON issue_returns(issue_id) WHERE deleted_at IS NULL;
+CREATE INDEX IF NOT EXISTS idx_issue_returns_store_product ON issue_returns(store_id, product_id);
+
+-- Running total of what came back against each issue
+ALTER TABLE issues
+ADD COLUMN IF NOT EXISTS returned_quantity DECIMAL(10, 2) NOT NULL DEFAULT 0 CHECK (returned_quantity >= 0);
+
+-- Fill in the return from its issue and make sure it can be returned
+CREATE OR REPLACE FUNCTION public.prepare_issue_return()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_issue issues;
+  v_store_type store_type;
+BEGIN
+  SELECT * INTO v_issue
+  FROM public.issues
+  WHERE id = NEW.issue_id AND deleted_at IS NULL
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Issue not found';
+  END IF;
+
+  IF v_issue.to_store_id IS NOT NULL THEN
+    RAISE EXCEPTION 'Only issues to a person can be returned';
+  END IF;
+
+  SELECT type INTO v_store_type FROM public.stores WHERE id = v_issue.from_store_id;
+  IF v_store_type IS DISTINCT FROM 'project' THEN
+    RAISE EXCEPTION 'Returns can only be made to project stores';
+  END IF;
+
+  IF NEW.quantity > v_issue.quantity - v_issue.returned_quantity THEN
+    RAISE EXCEPTION 'Only % can still be returned against this issue', v_issue.quantity - v_issue.returned_quantity;
+  END IF;
+
+  NEW.store_id := v_issue.from_store_id;
+  NEW.product_id := v_issue.product_id;
+  NEW.returned_by_name := v_issue.issued_to_name;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS on_issue_return_insert ON issue_returns;
+CREATE TRIGGER on_issue_return_insert
+  BEFORE INSERT ON issue_returns
+  FOR EACH ROW
+  EXECUTE FUNCTION public.prepare_issue_return();
+
+-- Put returned stock back into the project store
+CREATE OR REPLACE FUNCTION public.update_inventory_on_issue_return()
+RETURNS TRIGGER AS $$
+BEGIN
+  INSERT INTO public.inventory_items (store_id, product_id, quantity)
+  VALUES (NEW.store_id, NEW.product_id, NEW.quantity)
+  ON CONFLICT (store_id, product_id)
+  DO UPDATE SET
+    quantity = inventory_items.quantity + NEW.quantity,
+    updated_at = NOW();
+
+  UPDATE public.issues
+  SET returned_quantity = returned_quantity + NEW.quantity
+  WHERE id = NEW.issue_id;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS on_issue_return_created ON issue_returns;
+CREATE TRIGGER on_issue_return_created
+  AFTER INSERT ON issue_returns
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_inventory_on_issue_return();
+
+-- Voiding a return takes the stock back out of the store
+CREATE OR REPLACE FUNCTION public.reverse_inventory_on_issue_return_soft_delete()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_available DECIMAL(10, 2);
+BEGIN
+  SELECT quantity INTO v_available
+  FROM public.inventory_items
+  WHERE store_id = NEW.store_id AND product_id = NEW.product_id
+  FOR UPDATE;
+
+  IF COALESCE(v_available, 0) < NEW.quantity THEN
+    RAISE EXCEPTION 'Cannot void this return: the store only has % left', COALESCE(v_available, 0);
+  END IF;
+
+  UPDATE public.inventory_items
+  SET
+    quantity = quantity - NEW.quantity,
+    updated_at = NOW()
+  WHERE store_id = NEW.store_id AND product_id = NEW.product_id;
+
+  UPDATE public.issues
+  SET returned_quantity = returned_quantity - NEW.quantity
+  WHERE id = NEW.issue_id;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS reverse_inventory_on_issue_return_soft_delete ON issue_returns;
+CREATE TRIGGER reverse_inventory_on_issue_return_soft_delete
+  AFTER UPDATE OF deleted_at ON issue_returns
+  FOR EACH ROW
+  WHEN (OLD.deleted_at IS NULL AND NEW.deleted_at IS NOT NULL)
+  EXECUTE FUNCTION public.reverse_inventory_on_issue_return_soft_delete();
+
+-- The stock a return put back is only ever taken out again by voiding it, once
+CREATE OR REPLACE FUNCTION public.guard_issue_return_changes()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF OLD.deleted_at IS NOT NULL AND NEW.deleted_at IS NULL THEN
+    RAISE EXCEPTION 'Voided returns cannot be restored. Record a new return instead.';
+  END IF;
+
+  IF NEW.quantity IS DISTINCT FROM OLD.quantity
+    OR NEW.issue_id IS DISTINCT FROM OLD.issue_id
+    OR NEW.store_id IS DISTINCT FROM OLD.store_id
+    OR NEW.product_id IS DISTINCT FROM OLD.product_id
+  THEN
+    RAISE EXCEPTION 'Returns cannot be changed. Void the return and record it again.';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS guard_issue_return_changes ON issue_returns;
+CREATE TRIGGER guard_issue_return_changes
+  BEFORE UPDATE ON issue_returns
+  FOR EACH ROW
+  EXECUTE FUNCTION public.guard_issue_return_changes();
+
+-- An issue can't be voided or cut below what has already come back
+CREATE OR REPLACE FUNCTION public.check_issue_returns_on_update()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.deleted_at IS NOT NULL AND OLD.deleted_at IS NULL AND OLD.returned_quantity > 0 THEN
+    RAISE EXCEPTION 'Void the returns against this issue first';
+  END IF;
+
+  IF NEW.product_id IS DISTINCT FROM OLD.product_id AND OLD.returned_quantity > 0 THEN
+    RAISE EXCEPTION 'The product cannot be changed once stock has been returned against this issue';
+  END IF;
+
+  IF NEW.quantity < NEW.returned_quantity THEN
+    RAISE EXCEPTION 'Quantity cannot be less than the % already returned', NEW.returned_quantity;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS check_issue_returns_on_update ON issues;
+CREATE TRIGGER check_issue_returns_on_update
+  BEFORE UPDATE OF quantity, product_id, deleted_at ON issues
+  FOR EACH ROW
+  EXECUTE FUNCTION public.check_issue_returns_on_update();
+
+-- Enable RLS
+ALTER TABLE issue_returns ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can manage issue returns"
+  ON issue_returns FOR ALL
+  TO authenticated
+  USING (public.is_admin());
+
+CREATE POLICY "Project managers can manage returns to their store"
+  ON issue_returns FOR ALL
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM user_profiles up
+      JOIN stores s ON s.project_id = up.project_id AND s.type = 'project'
+      WHERE up.id = auth.uid()
+        AND up.role = 'project_store_manager'
+        AND issue_returns.store_id = s.id
+    )
+  );
+
+CREATE POLICY "Central managers can view issue returns"
+  ON issue_returns FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM user_profiles
+      WHERE id = auth.uid() AND role = 'central_store_manager'
+    )
+  );
+
+CREATE TRIGGER update_issue_returns_updated_at
+  BEFORE UPDATE ON issue_returns
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
@@ -0,0 +1,232 @@
+-- Multi-line issue vouchers
+-- A dispatch to site usually carries many items on one vehicle. An issue
+-- voucher is the header for such a dispatch (running voucher number, source
+-- and destination, driver and vehicle) and each of its lines is a regular
+-- issues row linked through issue_voucher_id, so transfers, returns, costing
+-- and reports keep working per line. The voucher prints as the gate pass /
+-- delivery challan that the receiving site signs.
+-- create_issue_voucher checks stock for all lines together, with the
+-- inventory rows locked, and writes the voucher and its lines in one
+-- transaction: either every line leaves the store or none does.
+-- Run this after add-purchase-invoices.sql
+
+CREATE SEQUENCE IF NOT EXISTS issue_voucher_number_seq START 1;
+
+CREATE TABLE IF NOT EXISTS issue_vouchers (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  voucher_number TEXT NOT NULL UNIQUE DEFAULT ('IV-' || LPAD(nextval('issue_voucher_number_seq')::TEXT, 5, '0')),
+  from_store_id UUID NOT NULL REFERENCES stores(id) ON DELETE RESTRICT,
+  to_store_id UUID REFERENCES stores(id) ON DELETE SET NULL, -- NULL when issued to site personnel
+  issued_to_name TEXT,
+  issue_date DATE NOT NULL DEFAULT CURRENT_DATE,
+  driver_name TEXT,
+  driver_phone TEXT,
+  vehicle_number TEXT,
+  notes TEXT,
+  created_by UUID NOT NULL REFERENCES auth.users(id),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  deleted_at TIMESTAMP WITH TIME ZONE,
+  deleted_by UUID REFERENCES auth.users(id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_issue_vouchers_from_store_id ON issue_vouchers(from_store_id);
+CREATE INDEX IF NOT EXISTS idx_issue_vouchers_to_store_id ON issue_vouchers(to_store_id);
+CREATE INDEX IF NOT EXISTS idx_issue_vouchers_issue_date ON issue_vouchers(issue_date);
+
+ALTER TABLE issues
+ADD COLUMN IF NOT EXISTS issue_voucher_id UUID REFERENCES issue_vouchers(id) ON DELETE RESTRICT;
+
+CREATE INDEX IF NOT EXISTS idx_issues_issue_voucher_id ON issues(issue_voucher_id);
+
+-- Issue many products from one store in a single dispatch. Lines are a JSON
+-- array of { product_id, quantity, notes }; the same product may appear on
+-- several lines and is checked against stock as a whole.
+CREATE OR REPLACE FUNCTION public.create_issue_voucher(
+  p_from_store_id UUID,
+  p_to_store_id UUID,
+  p_issued_to_name TEXT,
+  p_issue_date DATE,
+  p_driver_name TEXT,
+  p_driver_phone TEXT,
+  p_vehicle_number TEXT,
+  p_notes TEXT,
+  p_lines JSONB
+)
+RETURNS issue_vouchers AS $$
+DECLARE
+  v_voucher issue_vouchers;
+  v_from_store stores;
+  v_to_store stores;
+  v_profile user_profiles;
+  v_line JSONB;
+  v_requested RECORD;
+  v_available DECIMAL;
+  v_product_name TEXT;
+BEGIN
+  SELECT * INTO v_from_store FROM stores WHERE id = p_from_store_id AND deleted_at IS NULL;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Source store not found';
+  END IF;
+
+  -- Same rule as single issues: managers issue from their own store only
+  SELECT * INTO v_profile FROM user_profiles WHERE id = auth.uid();
+
+  IF v_profile.id IS NULL OR NOT (
+    v_profile.role = 'admin'
+    OR (v_profile.role = 'central_store_manager' AND v_from_store.type = 'central')
+    OR (v_profile.role = 'project_store_manager' AND v_from_store.type = 'project' AND v_from_store.project_id = v_profile.project_id)
+  ) THEN
+    RAISE EXCEPTION 'Unauthorized: You can only issue from your assigned store';
+  END IF;
+
+  IF p_to_store_id IS NOT NULL THEN
+    SELECT * INTO v_to_store FROM stores WHERE id = p_to_store_id AND deleted_at IS NULL;
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Destination store not found';
+    END IF;
+    IF v_to_store.id = v_from_store.id THEN
+      RAISE EXCEPTION 'Destination store must be different from source store';
+    END IF;
+    IF v_from_store.type = 'central' AND v_to_store.type <> 'project' THEN
+      RAISE EXCEPTION 'Central stores can only issue to project stores';
+    END IF;
+    IF v_from_store.type = 'project' AND v_to_store.type <> 'central' THEN
+      RAISE EXCEPTION 'Project stores can only return items to a central store or issue to individuals';
+    END IF;
+  ELSIF v_from_store.type = 'central' THEN
+    RAISE EXCEPTION 'Central stores must select a destination store';
+  END IF;
+
+  IF COALESCE(jsonb_array_length(p_lines), 0) = 0 THEN
+    RAISE EXCEPTION 'An issue voucher needs at least one product line';
+  END IF;
+
+  FOR v_line IN SELECT * FROM jsonb_array_elements(p_lines) LOOP
+    IF v_line->>'product_id' IS NULL THEN
+      RAISE EXCEPTION 'Every line must have a product';
+    END IF;
+    IF (v_line->>'quantity')::DECIMAL IS NULL OR (v_line->>'quantity')::DECIMAL <= 0 THEN
+      RAISE EXCEPTION 'Line quantities must be greater than 0';
+    END IF;
+  END LOOP;
+
+  -- Lock the stock rows in a fixed order so concurrent vouchers queue up
+  -- instead of both passing the check
+  FOR v_requested IN
+    SELECT (line->>'product_id')::UUID AS product_id, SUM((line->>'quantity')::DECIMAL) AS quantity
+    FROM jsonb_array_elements(p_lines) AS line
+    GROUP BY 1
+    ORDER BY 1
+  LOOP
+    SELECT quantity INTO v_available
+    FROM inventory_items
+    WHERE store_id = p_from_store_id AND product_id = v_requested.product_id
+    FOR UPDATE;
+
+    IF COALESCE(v_available, 0) < v_requested.quantity THEN
+      SELECT name INTO v_product_name FROM products WHERE id = v_requested.product_id;
+      RAISE EXCEPTION 'Insufficient inventory for %. Available: %, requested: %',
+        COALESCE(v_product_name, 'product'), COALESCE(v_available, 0), v_requested.quantity;
+    END IF;
+  END LOOP;
+
+  INSERT INTO issue_vouchers (
+    from_store_id, to_store_id, issued_to_name, issue_date,
+    driver_name, driver_phone, vehicle_number, notes, created_by
+  )
+  VALUES (
+    p_from_store_id,
+    p_to_store_id,
+    CASE WHEN p_to_store_id IS NULL THEN NULLIF(TRIM(p_issued_to_name), '') END,
+    COALESCE(p_issue_date, CURRENT_DATE),
+    NULLIF(TRIM(p_driver_name), ''),
+    NULLIF(TRIM(p_driver_phone), ''),
+    NULLIF(TRIM(p_vehicle_number), ''),
+    NULLIF(TRIM(p_notes), ''),
+    auth.uid()
+  )
+  RETURNING * INTO v_voucher;
+
+  -- Stock, transit quantities and cost are handled by the issue triggers
+  INSERT INTO issues (
+    from_store_id, to_store_id, product_id, quantity, issued_to_name,
+    issue_date, notes, created_by, issue_voucher_id
+  )
+  SELECT
+    v_voucher.from_store_id,
+    v_voucher.to_store_id,
+    (line->>'product_id')::UUID,
+    (line->>'quantity')::DECIMAL,
+    v_voucher.issued_to_name,
+    v_voucher.issue_date,
+    COALESCE(NULLIF(TRIM(line->>'notes'), ''), v_voucher.voucher_number),
+    v_voucher.created_by,
+    v_voucher.id
+  FROM jsonb_array_elements(p_lines) AS line;
+
+  RETURN v_voucher;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION public.create_issue_voucher(UUID, UUID, TEXT, DATE, TEXT, TEXT, TEXT, TEXT, JSONB) FROM PUBLIC, anon;
+
+-- Voiding a voucher voids its lines, which return their own stock. A line the
+-- destination has already used blocks the void.
+CREATE OR REPLACE FUNCTION public.cascade_issue_voucher_soft_delete()
+RETURNS TRIGGER AS $$
+BEGIN
+  UPDATE public.issues
+  SET deleted_at = NEW.deleted_at,
+      deleted_by = NEW.deleted_by
+  WHERE issue_voucher_id = NEW.id
+    AND deleted_at IS NULL;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS cascade_issue_voucher_soft_delete ON issue_vouchers;
+CREATE TRIGGER cascade_issue_voucher_soft_delete
+  AFTER UPDATE OF deleted_at ON issue_vouchers
+  FOR EACH ROW
+  WHEN (OLD.deleted_at IS NULL AND NEW.deleted_at IS NOT NULL)
+  EXECUTE FUNCTION public.cascade_issue_voucher_soft_delete();
+
+-- Enable RLS
+-- Vouchers are only created through create_issue_voucher; visibility follows
+-- the issues policies
+ALTER TABLE issue_vouchers ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can manage issue vouchers"
+  ON issue_vouchers FOR ALL
+  TO authenticated
+  USING (public.is_admin());
+
+CREATE POLICY "Central managers can view all issue vouchers"
+  ON issue_vouchers FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM user_profiles
+      WHERE id = auth.uid() AND role = 'central_store_manager'
+    )
+  );
+
+CREATE POLICY "Project managers can view issue vouchers for their store"
+  ON issue_vouchers FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM user_profiles up
+      JOIN stores s ON s.project_id = up.project_id AND s.type = 'project'
+      WHERE up.id = auth.uid()
+        AND up.role = 'project_store_manager'
+        AND (issue_vouchers.from_store_id = s.id OR issue_vouchers.to_store_id = s.id)
+    )
+  );
+
+CREATE TRIGGER update_issue_vouchers_updated_at
+  BEFORE UPDATE ON issue_vouchers
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
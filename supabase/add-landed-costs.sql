@@ -0,0 +1,221 @@
+-- Landed cost on purchases
+-- The cost carried per unit includes sales tax, freight and other charges
+-- (loading, clearing, etc.), not just the invoice price. Each purchase keeps
+-- its invoice price in unit_cost and gets:
+--   tax_percent      - sales tax on the invoice value
+--   freight_cost     - this line's share of freight, in PKR
+--   other_charges    - this line's share of other charges, in PKR
+--   landed_unit_cost - unit_cost plus tax plus its share of the charges
+-- total_cost becomes the landed total, and cost layers (and so
+-- get_average_cost and every inventory valuation) use the landed unit cost.
+--
+-- Purchase orders carry the charges at header level and spread them over
+-- their lines by value or by quantity. Each receipt picks up the part of its
+-- line's share that matches the quantity received.
+-- Run this after add-purchase-currencies.sql
+
+CREATE TYPE charge_allocation_method AS ENUM ('value', 'quantity');
+
+ALTER TABLE purchases
+ADD COLUMN IF NOT EXISTS tax_percent DECIMAL(5, 2) NOT NULL DEFAULT 0 CHECK (tax_percent >= 0),
+ADD COLUMN IF NOT EXISTS freight_cost DECIMAL(10, 2) NOT NULL DEFAULT 0 CHECK (freight_cost >= 0),
+ADD COLUMN IF NOT EXISTS other_charges DECIMAL(10, 2) NOT NULL DEFAULT 0 CHECK (other_charges >= 0),
+ADD COLUMN IF NOT EXISTS landed_unit_cost DECIMAL(10, 2);
+
+UPDATE purchases SET landed_unit_cost = unit_cost WHERE landed_unit_cost IS NULL;
+
+ALTER TABLE purchase_orders
+ADD COLUMN IF NOT EXISTS tax_percent DECIMAL(5, 2) NOT NULL DEFAULT 0 CHECK (tax_percent >= 0),
+ADD COLUMN IF NOT EXISTS freight_cost DECIMAL(10, 2) NOT NULL DEFAULT 0 CHECK (freight_cost >= 0),
+ADD COLUMN IF NOT EXISTS other_charges DECIMAL(10, 2) NOT NULL DEFAULT 0 CHECK (other_charges >= 0),
+ADD COLUMN IF NOT EXISTS charge_allocation charge_allocation_method NOT NULL DEFAULT 'value';
+
+-- Share of a header-level charge that belongs to one line. Lines are weighted
+-- by value (quantity * unit cost) or by quantity; when every line is free the
+-- value basis falls back to quantity.
+CREATE OR REPLACE FUNCTION public.allocate_charge(
+  p_charge DECIMAL,
+  p_method charge_allocation_method,
+  p_line_quantity DECIMAL,
+  p_line_unit_cost DECIMAL,
+  p_total_quantity DECIMAL,
+  p_total_value DECIMAL
+)
+RETURNS DECIMAL AS $$
+BEGIN
+  IF COALESCE(p_charge, 0) = 0 THEN
+    RETURN 0;
+  END IF;
+
+  IF p_method = 'value' AND p_total_value > 0 THEN
+    RETURN p_charge * (p_line_quantity * p_line_unit_cost) / p_total_value;
+  END IF;
+
+  IF p_total_quantity > 0 THEN
+    RETURN p_charge * p_line_quantity / p_total_quantity;
+  END IF;
+
+  RETURN 0;
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+-- Receipts against a purchase order take the order's tax rate and the part of
+-- the line's share of freight/other charges matching the quantity received
+CREATE OR REPLACE FUNCTION public.apply_purchase_order_charges()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_order purchase_orders;
+  v_item purchase_order_items;
+  v_total_quantity DECIMAL;
+  v_total_value DECIMAL;
+  v_portion DECIMAL;
+BEGIN
+  SELECT * INTO v_item FROM public.purchase_order_items WHERE id = NEW.purchase_order_item_id;
+  SELECT * INTO v_order FROM public.purchase_orders WHERE id = v_item.purchase_order_id;
+
+  SELECT COALESCE(SUM(quantity), 0), COALESCE(SUM(quantity * unit_cost), 0)
+  INTO v_total_quantity, v_total_value
+  FROM public.purchase_order_items
+  WHERE purchase_order_id = v_order.id;
+
+  v_portion := NEW.quantity / v_item.quantity;
+
+  NEW.tax_percent := v_order.tax_percent;
+  NEW.freight_cost := ROUND(v_portion * public.allocate_charge(
+    v_order.freight_cost, v_order.charge_allocation, v_item.quantity, v_item.unit_cost, v_total_quantity, v_total_value
+  ), 2);
+  NEW.other_charges := ROUND(v_portion * public.allocate_charge(
+    v_order.other_charges, v_order.charge_allocation, v_item.quantity, v_item.unit_cost, v_total_quantity, v_total_value
+  ), 2);
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS apply_purchase_order_charges ON purchases;
+CREATE TRIGGER apply_purchase_order_charges
+  BEFORE INSERT ON purchases
+  FOR EACH ROW
+  WHEN (NEW.purchase_order_item_id IS NOT NULL)
+  EXECUTE FUNCTION public.apply_purchase_order_charges();
+
+-- The charges are part of what the approver saw, so they freeze with the order
+CREATE OR REPLACE FUNCTION public.guard_purchase_order_charge_changes()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF OLD.status NOT IN ('draft', 'rejected') THEN
+    RAISE EXCEPTION 'Only draft or rejected purchase orders can be edited';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS guard_purchase_order_charge_changes ON purchase_orders;
+CREATE TRIGGER guard_purchase_order_charge_changes
+  BEFORE UPDATE OF tax_percent, freight_cost, other_charges, charge_allocation ON purchase_orders
+  FOR EACH ROW
+  WHEN (
+    OLD.tax_percent IS DISTINCT FROM NEW.tax_percent
+    OR OLD.freight_cost IS DISTINCT FROM NEW.freight_cost
+    OR OLD.other_charges IS DISTINCT FROM NEW.other_charges
+    OR OLD.charge_allocation IS DISTINCT FROM NEW.charge_allocation
+  )
+  EXECUTE FUNCTION public.guard_purchase_order_charge_changes();
+
+-- Runs after convert_purchase_to_base_currency (triggers fire in name order),
+-- so unit_cost is already in PKR here
+CREATE OR REPLACE FUNCTION public.set_purchase_landed_cost()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.landed_unit_cost := ROUND(
+    NEW.unit_cost * (1 + NEW.tax_percent / 100) + (NEW.freight_cost + NEW.other_charges) / NEW.quantity,
+    2
+  );
+  NEW.total_cost := NEW.landed_unit_cost * NEW.quantity;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS set_purchase_landed_cost ON purchases;
+CREATE TRIGGER set_purchase_landed_cost
+  BEFORE INSERT OR UPDATE OF currency, exchange_rate, original_unit_cost, unit_cost, quantity, tax_percent, freight_cost, other_charges ON purchases
+  FOR EACH ROW
+  EXECUTE FUNCTION public.set_purchase_landed_cost();
+
+-- Cost layers carry the landed cost
+CREATE OR REPLACE FUNCTION public.add_cost_layer_on_purchase()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NOT NEW.receive_via_grn THEN
+    PERFORM public.add_cost_layer(NEW.store_id, NEW.product_id, NEW.quantity, NEW.landed_unit_cost, 'purchase', NEW.id, NEW.purchase_date);
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION public.add_cost_layer_on_grn_post()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_unit_cost DECIMAL(10, 2);
+BEGIN
+  SELECT landed_unit_cost INTO v_unit_cost FROM public.purchases WHERE id = NEW.purchase_id;
+
+  PERFORM public.add_cost_layer(NEW.store_id, NEW.product_id, NEW.quantity, v_unit_cost, 'purchase', NEW.purchase_id, NEW.received_date);
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION public.update_cost_layer_on_purchase_update()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NOT NEW.receive_via_grn AND (
+    OLD.quantity IS DISTINCT FROM NEW.quantity OR
+    OLD.product_id IS DISTINCT FROM NEW.product_id OR
+    OLD.store_id IS DISTINCT FROM NEW.store_id
+  ) THEN
+    PERFORM public.remove_cost_layer(OLD.store_id, OLD.product_id, OLD.quantity - OLD.returned_quantity, 'purchase', OLD.id);
+    PERFORM public.add_cost_layer(
+      NEW.store_id, NEW.product_id, NEW.quantity - NEW.returned_quantity, NEW.landed_unit_cost, 'purchase', NEW.id, NEW.purchase_date
+    );
+  ELSIF OLD.landed_unit_cost IS DISTINCT FROM NEW.landed_unit_cost THEN
+    UPDATE public.inventory_cost_layers
+    SET unit_cost = NEW.landed_unit_cost,
+        updated_at = NOW()
+    WHERE source_type = 'purchase' AND source_id = NEW.id;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS update_cost_layer_on_purchase_update ON purchases;
+CREATE TRIGGER update_cost_layer_on_purchase_update
+  AFTER UPDATE OF quantity, product_id, store_id, unit_cost, tax_percent, freight_cost, other_charges ON purchases
+  FOR EACH ROW
+  WHEN (OLD.deleted_at IS NULL AND NEW.deleted_at IS NULL)
+  EXECUTE FUNCTION public.update_cost_layer_on_purchase_update();
+
+-- Returns are credited at the invoice price, but the stock they take out of
+-- (and put back on a void) is carried at the landed cost
+CREATE OR REPLACE FUNCTION public.apply_cost_layers_on_purchase_return()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_purchase purchases;
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    PERFORM public.remove_cost_layer(NEW.store_id, NEW.product_id, NEW.quantity, 'purchase', NEW.purchase_id);
+  ELSE
+    SELECT * INTO v_purchase FROM public.purchases WHERE id = NEW.purchase_id;
+    PERFORM public.add_cost_layer(
+      NEW.store_id, NEW.product_id, NEW.quantity, COALESCE(v_purchase.landed_unit_cost, NEW.unit_cost),
+      'purchase', NEW.purchase_id, v_purchase.purchase_date
+    );
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
@@ -0,0 +1,217 @@
+-- In-app notifications
+-- Store managers find out inside the app when something happens to their
+-- stores without anyone telling them:
+--   issue_received   stock was issued to their project store
+--   purchase_deleted a purchase into their store was deleted
+--   store_deleted    their central store was deleted
+-- Each user has their own copy of a notification, so reading it doesn't mark
+-- it read for the rest of the store.
+--
+-- Notifications are written by triggers on the rows they report, so they
+-- can't be sent for changes that never happened. Users read and mark read
+-- their own notifications.
+-- Run this after add-email-notifications.sql
+
+CREATE TABLE IF NOT EXISTS notifications (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID NOT NULL REFERENCES user_profiles(id) ON DELETE CASCADE,
+  type TEXT NOT NULL CHECK (type IN ('issue_received', 'purchase_deleted', 'store_deleted')),
+  store_id UUID REFERENCES stores(id) ON DELETE SET NULL,
+  title TEXT NOT NULL,
+  message TEXT NOT NULL,
+  link TEXT,
+  read_at TIMESTAMP WITH TIME ZONE,
+  created_by UUID REFERENCES auth.users(id),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_notifications_user_id ON notifications(user_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_notifications_unread ON notifications(user_id) WHERE read_at IS NULL;
+
+-- Notify the active users assigned to a store, apart from the user making the
+-- change. Deleted stores still reach their users so they hear about the
+-- deletion. Only the triggers below call this.
+CREATE OR REPLACE FUNCTION public.notify_store_users(
+  p_store_id UUID,
+  p_type TEXT,
+  p_title TEXT,
+  p_message TEXT,
+  p_link TEXT DEFAULT NULL
+)
+RETURNS VOID AS $$
+BEGIN
+  INSERT INTO notifications (user_id, type, store_id, title, message, link, created_by)
+  SELECT usa.user_id, p_type, p_store_id, p_title, p_message, p_link, auth.uid()
+  FROM user_store_assignments usa
+  JOIN user_profiles up ON up.id = usa.user_id
+  WHERE usa.store_id = p_store_id
+    AND usa.user_id IS DISTINCT FROM auth.uid()
+    AND up.deleted_at IS NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION public.notify_store_users(UUID, TEXT, TEXT, TEXT, TEXT) FROM PUBLIC, anon, authenticated;
+
+-- Stock issued to a project store, one line at a time. Voucher lines are
+-- announced once for the whole voucher below.
+CREATE OR REPLACE FUNCTION public.notify_issue_received()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_from_store stores;
+  v_to_store stores;
+  v_product products;
+BEGIN
+  SELECT * INTO v_to_store FROM public.stores WHERE id = NEW.to_store_id;
+  IF v_to_store.type IS DISTINCT FROM 'project' THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT * INTO v_from_store FROM public.stores WHERE id = NEW.from_store_id;
+  SELECT * INTO v_product FROM public.products WHERE id = NEW.product_id;
+
+  PERFORM public.notify_store_users(
+    v_to_store.id,
+    'issue_received',
+    v_product.name || ' on its way to ' || v_to_store.name,
+    COALESCE(v_from_store.name, 'A central store') || ' issued ' || trim_scale(NEW.quantity) || ' '
+      || v_product.unit || ' of ' || v_product.name || ' to ' || v_to_store.name
+      || '. Confirm receipt when it arrives.',
+    '/issues'
+  );
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS notify_issue_received ON issues;
+CREATE TRIGGER notify_issue_received
+  AFTER INSERT ON issues
+  FOR EACH ROW
+  WHEN (NEW.to_store_id IS NOT NULL AND NEW.issue_voucher_id IS NULL)
+  EXECUTE FUNCTION public.notify_issue_received();
+
+CREATE OR REPLACE FUNCTION public.notify_issue_voucher_received()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_from_store stores;
+  v_to_store stores;
+BEGIN
+  SELECT * INTO v_to_store FROM public.stores WHERE id = NEW.to_store_id;
+  IF v_to_store.type IS DISTINCT FROM 'project' THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT * INTO v_from_store FROM public.stores WHERE id = NEW.from_store_id;
+
+  PERFORM public.notify_store_users(
+    v_to_store.id,
+    'issue_received',
+    'Issue voucher ' || NEW.voucher_number || ' on its way to ' || v_to_store.name,
+    COALESCE(v_from_store.name, 'A central store') || ' issued stock to ' || v_to_store.name
+      || ' on voucher ' || NEW.voucher_number || '. Confirm receipt when it arrives.',
+    '/issues'
+  );
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS notify_issue_voucher_received ON issue_vouchers;
+CREATE TRIGGER notify_issue_voucher_received
+  AFTER INSERT ON issue_vouchers
+  FOR EACH ROW
+  WHEN (NEW.to_store_id IS NOT NULL)
+  EXECUTE FUNCTION public.notify_issue_voucher_received();
+
+-- The store's stock drops by the purchase, so its users are told why
+CREATE OR REPLACE FUNCTION public.notify_purchase_deleted()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_store stores;
+  v_product products;
+BEGIN
+  SELECT * INTO v_store FROM public.stores WHERE id = NEW.store_id;
+  SELECT * INTO v_product FROM public.products WHERE id = NEW.product_id;
+
+  PERFORM public.notify_store_users(
+    NEW.store_id,
+    'purchase_deleted',
+    'Purchase of ' || v_product.name || ' deleted',
+    'The purchase of ' || trim_scale(NEW.quantity) || ' ' || v_product.unit || ' of ' || v_product.name
+      || ' into ' || v_store.name || ' on ' || NEW.purchase_date || ' was deleted and its stock removed.',
+    '/inventory'
+  );
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS notify_purchase_deleted ON purchases;
+CREATE TRIGGER notify_purchase_deleted
+  AFTER UPDATE OF deleted_at ON purchases
+  FOR EACH ROW
+  WHEN (OLD.deleted_at IS NULL AND NEW.deleted_at IS NOT NULL)
+  EXECUTE FUNCTION public.notify_purchase_deleted();
+
+CREATE OR REPLACE FUNCTION public.notify_store_deleted()
+RETURNS TRIGGER AS $$
+BEGIN
+  PERFORM public.notify_store_users(
+    NEW.id,
+    'store_deleted',
+    NEW.name || ' was deleted',
+    'The central store ' || NEW.name || ' was deleted. Its purchases and issues stay in the reports, '
+      || 'but no new stock can be recorded against it.'
+  );
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS notify_store_deleted ON stores;
+CREATE TRIGGER notify_store_deleted
+  AFTER UPDATE OF deleted_at ON stores
+  FOR EACH ROW
+  WHEN (OLD.deleted_at IS NULL AND NEW.deleted_at IS NOT NULL AND NEW.type = 'central')
+  EXECUTE FUNCTION public.notify_store_deleted();
+
+-- Enable RLS
+ALTER TABLE notifications ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own notifications"
+  ON notifications FOR SELECT
+  TO authenticated
+  USING (user_id = auth.uid());
+
+CREATE POLICY "Users can mark their own notifications read"
+  ON notifications FOR UPDATE
+  TO authenticated
+  USING (user_id = auth.uid())
+  WITH CHECK (user_id = auth.uid());
+
+-- Marking read is the only change users can make; the rest is what the
+-- trigger reported. store_id is still cleared if the store is removed.
+CREATE OR REPLACE FUNCTION public.guard_notification_changes()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.user_id IS DISTINCT FROM OLD.user_id
+    OR NEW.type IS DISTINCT FROM OLD.type
+    OR (NEW.store_id IS DISTINCT FROM OLD.store_id AND NEW.store_id IS NOT NULL)
+    OR NEW.title IS DISTINCT FROM OLD.title
+    OR NEW.message IS DISTINCT FROM OLD.message
+    OR NEW.link IS DISTINCT FROM OLD.link
+    OR NEW.created_by IS DISTINCT FROM OLD.created_by
+    OR NEW.created_at IS DISTINCT FROM OLD.created_at
+  THEN
+    RAISE EXCEPTION 'Notifications can only be marked read';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS guard_notification_changes ON notifications;
+CREATE TRIGGER guard_notification_changes
+  BEFORE UPDATE ON notifications
+  FOR EACH ROW
+  EXECUTE FUNCTION public.guard_notification_changes();
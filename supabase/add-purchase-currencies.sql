@@ -0,0 +1,104 @@
+-- Multi-currency purchases
+-- Purchases can be priced in a foreign currency. The price as invoiced is kept
+-- in original_unit_cost with its currency and exchange rate, while unit_cost
+-- and total_cost stay in the base currency (PKR) so average cost, cost layers
+-- and every report keep working in one currency.
+-- Admins maintain exchange rates per currency and effective date; a purchase
+-- without an explicit rate uses the latest rate on or before its date.
+-- Run this after add-cost-layers.sql
+
+CREATE TABLE IF NOT EXISTS exchange_rates (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  currency_code TEXT NOT NULL CHECK (currency_code ~ '^[A-Z]{3}$' AND currency_code <> 'PKR'),
+  rate DECIMAL(12, 6) NOT NULL CHECK (rate > 0), -- PKR per one unit of the currency
+  effective_date DATE NOT NULL DEFAULT CURRENT_DATE,
+  notes TEXT,
+  created_by UUID NOT NULL REFERENCES auth.users(id),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  deleted_at TIMESTAMP WITH TIME ZONE,
+  deleted_by UUID REFERENCES auth.users(id)
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_exchange_rates_currency_date
+  ON exchange_rates(currency_code, effective_date) WHERE deleted_at IS NULL;
+
+ALTER TABLE purchases
+ADD COLUMN IF NOT EXISTS currency TEXT NOT NULL DEFAULT 'PKR' CHECK (currency ~ '^[A-Z]{3}$'),
+ADD COLUMN IF NOT EXISTS exchange_rate DECIMAL(12, 6) CHECK (exchange_rate > 0), -- PKR per unit; looked up when left empty
+ADD COLUMN IF NOT EXISTS original_unit_cost DECIMAL(10, 2); -- Unit cost in the purchase currency
+
+UPDATE purchases
+SET exchange_rate = 1,
+    original_unit_cost = unit_cost
+WHERE exchange_rate IS NULL OR original_unit_cost IS NULL;
+
+ALTER TABLE purchases ALTER COLUMN exchange_rate SET NOT NULL;
+
+CREATE OR REPLACE FUNCTION public.get_exchange_rate(p_currency TEXT, p_date DATE)
+RETURNS DECIMAL(12, 6) AS $$
+  SELECT CASE
+    WHEN UPPER(p_currency) = 'PKR' THEN 1
+    ELSE (
+      SELECT rate
+      FROM public.exchange_rates
+      WHERE currency_code = UPPER(p_currency)
+        AND effective_date <= COALESCE(p_date, CURRENT_DATE)
+        AND deleted_at IS NULL
+      ORDER BY effective_date DESC
+      LIMIT 1
+    )
+  END;
+$$ LANGUAGE sql STABLE;
+
+-- Fill in the rate and convert the price to PKR before anything else sees it
+CREATE OR REPLACE FUNCTION public.convert_purchase_to_base_currency()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.currency := UPPER(COALESCE(NEW.currency, 'PKR'));
+
+  IF NEW.currency = 'PKR' THEN
+    NEW.exchange_rate := 1;
+  ELSIF NEW.exchange_rate IS NULL THEN
+    NEW.exchange_rate := public.get_exchange_rate(NEW.currency, NEW.purchase_date);
+
+    IF NEW.exchange_rate IS NULL THEN
+      RAISE EXCEPTION 'No exchange rate recorded for % on or before %', NEW.currency, NEW.purchase_date;
+    END IF;
+  END IF;
+
+  -- Purchases created from purchase orders are priced in PKR
+  IF NEW.original_unit_cost IS NULL THEN
+    NEW.original_unit_cost := NEW.unit_cost;
+  END IF;
+
+  NEW.unit_cost := ROUND(NEW.original_unit_cost * NEW.exchange_rate, 2);
+  NEW.total_cost := NEW.unit_cost * NEW.quantity;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS convert_purchase_to_base_currency ON purchases;
+CREATE TRIGGER convert_purchase_to_base_currency
+  BEFORE INSERT OR UPDATE OF currency, exchange_rate, original_unit_cost, unit_cost, quantity ON purchases
+  FOR EACH ROW
+  EXECUTE FUNCTION public.convert_purchase_to_base_currency();
+
+-- Enable RLS
+ALTER TABLE exchange_rates ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view exchange rates"
+  ON exchange_rates FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Admins can manage exchange rates"
+  ON exchange_rates FOR ALL
+  TO authenticated
+  USING (public.is_admin());
+
+CREATE TRIGGER update_exchange_rates_updated_at
+  BEFORE UPDATE ON exchange_rates
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
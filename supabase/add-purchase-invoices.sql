@@ -0,0 +1,291 @@
+-- Multi-line purchase invoices
+-- A purchase invoice is the header for a supplier invoice (supplier's invoice
+-- number, date, currency, charges and scanned attachments). Each of its lines
+-- is a regular purchases row linked through purchase_invoice_id, so stock,
+-- cost layers, returns and reports keep working per line.
+-- create_purchase_invoice inserts the header and every line in one
+-- transaction: either all lines post to inventory or none do.
+-- Run this after add-landed-costs.sql
+
+CREATE SEQUENCE IF NOT EXISTS purchase_invoice_number_seq START 1;
+
+CREATE TABLE IF NOT EXISTS purchase_invoices (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  document_number TEXT NOT NULL UNIQUE DEFAULT ('PI-' || LPAD(nextval('purchase_invoice_number_seq')::TEXT, 5, '0')),
+  invoice_number TEXT, -- The supplier's own invoice number
+  supplier_id UUID REFERENCES suppliers(id) ON DELETE RESTRICT,
+  store_id UUID NOT NULL REFERENCES stores(id) ON DELETE RESTRICT,
+  invoice_date DATE NOT NULL DEFAULT CURRENT_DATE,
+  currency TEXT NOT NULL DEFAULT 'PKR' CHECK (currency ~ '^[A-Z]{3}$'),
+  exchange_rate DECIMAL(12, 6) NOT NULL DEFAULT 1 CHECK (exchange_rate > 0),
+  tax_percent DECIMAL(5, 2) NOT NULL DEFAULT 0 CHECK (tax_percent >= 0),
+  freight_cost DECIMAL(10, 2) NOT NULL DEFAULT 0 CHECK (freight_cost >= 0),
+  other_charges DECIMAL(10, 2) NOT NULL DEFAULT 0 CHECK (other_charges >= 0),
+  charge_allocation charge_allocation_method NOT NULL DEFAULT 'value',
+  receive_via_grn BOOLEAN NOT NULL DEFAULT false,
+  notes TEXT,
+  created_by UUID NOT NULL REFERENCES auth.users(id),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  deleted_at TIMESTAMP WITH TIME ZONE,
+  deleted_by UUID REFERENCES auth.users(id)
+);
+
+-- The same supplier invoice can't be entered twice
+CREATE UNIQUE INDEX IF NOT EXISTS idx_purchase_invoices_supplier_invoice
+  ON purchase_invoices(supplier_id, invoice_number)
+  WHERE deleted_at IS NULL AND invoice_number IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_purchase_invoices_store_id ON purchase_invoices(store_id);
+CREATE INDEX IF NOT EXISTS idx_purchase_invoices_invoice_date ON purchase_invoices(invoice_date);
+
+ALTER TABLE purchases
+ADD COLUMN IF NOT EXISTS purchase_invoice_id UUID REFERENCES purchase_invoices(id) ON DELETE RESTRICT;
+
+CREATE INDEX IF NOT EXISTS idx_purchases_purchase_invoice_id ON purchases(purchase_invoice_id);
+
+CREATE TABLE IF NOT EXISTS purchase_invoice_attachments (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  purchase_invoice_id UUID NOT NULL REFERENCES purchase_invoices(id) ON DELETE CASCADE,
+  file_name TEXT NOT NULL,
+  file_path TEXT NOT NULL UNIQUE, -- Object path in the purchase-invoices storage bucket
+  content_type TEXT,
+  file_size INTEGER,
+  uploaded_by UUID NOT NULL REFERENCES auth.users(id),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_purchase_invoice_attachments_invoice_id ON purchase_invoice_attachments(purchase_invoice_id);
+
+-- Record a whole supplier invoice. Lines are a JSON array of
+-- { product_id, quantity, unit_cost, notes } with unit_cost in the invoice
+-- currency. Freight and other charges are spread over the lines by value or
+-- quantity, with the rounding remainder on the last line so the lines add up
+-- to the header exactly.
+-- Runs as the caller so the purchase_invoices/purchases RLS policies apply.
+CREATE OR REPLACE FUNCTION public.create_purchase_invoice(
+  p_store_id UUID,
+  p_supplier_id UUID,
+  p_invoice_number TEXT,
+  p_invoice_date DATE,
+  p_currency TEXT,
+  p_exchange_rate DECIMAL,
+  p_tax_percent DECIMAL,
+  p_freight_cost DECIMAL,
+  p_other_charges DECIMAL,
+  p_charge_allocation charge_allocation_method,
+  p_receive_via_grn BOOLEAN,
+  p_notes TEXT,
+  p_lines JSONB
+)
+RETURNS purchase_invoices AS $$
+DECLARE
+  v_invoice purchase_invoices;
+  v_currency TEXT := UPPER(COALESCE(NULLIF(TRIM(p_currency), ''), 'PKR'));
+  v_rate DECIMAL(12, 6);
+  v_line JSONB;
+  v_line_count INTEGER;
+  v_index INTEGER := 0;
+  v_quantity DECIMAL;
+  v_unit_cost DECIMAL;
+  v_total_quantity DECIMAL := 0;
+  v_total_value DECIMAL := 0;
+  v_freight DECIMAL;
+  v_other DECIMAL;
+  v_freight_allocated DECIMAL := 0;
+  v_other_allocated DECIMAL := 0;
+BEGIN
+  v_line_count := COALESCE(jsonb_array_length(p_lines), 0);
+  IF v_line_count = 0 THEN
+    RAISE EXCEPTION 'A purchase invoice needs at least one product line';
+  END IF;
+
+  FOR v_line IN SELECT * FROM jsonb_array_elements(p_lines) LOOP
+    v_quantity := (v_line->>'quantity')::DECIMAL;
+    v_unit_cost := (v_line->>'unit_cost')::DECIMAL;
+
+    IF v_line->>'product_id' IS NULL THEN
+      RAISE EXCEPTION 'Every line must have a product';
+    END IF;
+    IF v_quantity IS NULL OR v_quantity <= 0 THEN
+      RAISE EXCEPTION 'Line quantities must be greater than 0';
+    END IF;
+    IF v_unit_cost IS NULL OR v_unit_cost < 0 THEN
+      RAISE EXCEPTION 'Line unit costs must be 0 or greater';
+    END IF;
+
+    v_total_quantity := v_total_quantity + v_quantity;
+    v_total_value := v_total_value + v_quantity * v_unit_cost;
+  END LOOP;
+
+  IF v_currency = 'PKR' THEN
+    v_rate := 1;
+  ELSE
+    v_rate := COALESCE(p_exchange_rate, public.get_exchange_rate(v_currency, p_invoice_date));
+    IF v_rate IS NULL THEN
+      RAISE EXCEPTION 'No exchange rate recorded for % on or before %', v_currency, p_invoice_date;
+    END IF;
+  END IF;
+
+  INSERT INTO purchase_invoices (
+    invoice_number, supplier_id, store_id, invoice_date, currency, exchange_rate,
+    tax_percent, freight_cost, other_charges, charge_allocation, receive_via_grn, notes, created_by
+  )
+  VALUES (
+    NULLIF(TRIM(p_invoice_number), ''), p_supplier_id, p_store_id, COALESCE(p_invoice_date, CURRENT_DATE),
+    v_currency, v_rate, COALESCE(p_tax_percent, 0), COALESCE(p_freight_cost, 0), COALESCE(p_other_charges, 0),
+    COALESCE(p_charge_allocation, 'value'), COALESCE(p_receive_via_grn, false), NULLIF(TRIM(p_notes), ''), auth.uid()
+  )
+  RETURNING * INTO v_invoice;
+
+  FOR v_line IN SELECT * FROM jsonb_array_elements(p_lines) LOOP
+    v_index := v_index + 1;
+    v_quantity := (v_line->>'quantity')::DECIMAL;
+    v_unit_cost := (v_line->>'unit_cost')::DECIMAL;
+
+    IF v_index = v_line_count THEN
+      v_freight := v_invoice.freight_cost - v_freight_allocated;
+      v_other := v_invoice.other_charges - v_other_allocated;
+    ELSE
+      v_freight := ROUND(public.allocate_charge(
+        v_invoice.freight_cost, v_invoice.charge_allocation, v_quantity, v_unit_cost, v_total_quantity, v_total_value
+      ), 2);
+      v_other := ROUND(public.allocate_charge(
+        v_invoice.other_charges, v_invoice.charge_allocation, v_quantity, v_unit_cost, v_total_quantity, v_total_value
+      ), 2);
+    END IF;
+    v_freight_allocated := v_freight_allocated + v_freight;
+    v_other_allocated := v_other_allocated + v_other;
+
+    -- unit_cost is converted to PKR and landed by the purchase triggers
+    INSERT INTO purchases (
+      store_id, product_id, supplier_id, quantity, unit_cost, total_cost, original_unit_cost,
+      currency, exchange_rate, tax_percent, freight_cost, other_charges,
+      purchase_date, notes, created_by, receive_via_grn, purchase_invoice_id
+    )
+    VALUES (
+      v_invoice.store_id, (v_line->>'product_id')::UUID, v_invoice.supplier_id, v_quantity, v_unit_cost,
+      v_quantity * v_unit_cost, v_unit_cost, v_invoice.currency, v_invoice.exchange_rate,
+      v_invoice.tax_percent, v_freight, v_other, v_invoice.invoice_date,
+      COALESCE(NULLIF(TRIM(v_line->>'notes'), ''), v_invoice.notes), v_invoice.created_by,
+      v_invoice.receive_via_grn, v_invoice.id
+    );
+  END LOOP;
+
+  RETURN v_invoice;
+END;
+$$ LANGUAGE plpgsql;
+
+REVOKE EXECUTE ON FUNCTION public.create_purchase_invoice(
+  UUID, UUID, TEXT, DATE, TEXT, DECIMAL, DECIMAL, DECIMAL, DECIMAL, charge_allocation_method, BOOLEAN, TEXT, JSONB
+) FROM PUBLIC, anon;
+
+-- Voiding an invoice voids its lines, which reverse their own stock. A line
+-- with returns against it blocks the void (see check_purchase_returns_on_update).
+CREATE OR REPLACE FUNCTION public.cascade_purchase_invoice_soft_delete()
+RETURNS TRIGGER AS $$
+BEGIN
+  UPDATE public.purchases
+  SET deleted_at = NEW.deleted_at,
+      deleted_by = NEW.deleted_by
+  WHERE purchase_invoice_id = NEW.id
+    AND deleted_at IS NULL;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS cascade_purchase_invoice_soft_delete ON purchase_invoices;
+CREATE TRIGGER cascade_purchase_invoice_soft_delete
+  AFTER UPDATE OF deleted_at ON purchase_invoices
+  FOR EACH ROW
+  WHEN (OLD.deleted_at IS NULL AND NEW.deleted_at IS NOT NULL)
+  EXECUTE FUNCTION public.cascade_purchase_invoice_soft_delete();
+
+-- Enable RLS
+ALTER TABLE purchase_invoices ENABLE ROW LEVEL SECURITY;
+ALTER TABLE purchase_invoice_attachments ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can manage purchase invoices"
+  ON purchase_invoices FOR ALL
+  TO authenticated
+  USING (public.is_admin());
+
+CREATE POLICY "Central managers can manage central store purchase invoices"
+  ON purchase_invoices FOR ALL
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM user_profiles up
+      JOIN stores s ON s.type = 'central'
+      WHERE up.id = auth.uid()
+        AND up.role = 'central_store_manager'
+        AND purchase_invoices.store_id = s.id
+    )
+  );
+
+CREATE POLICY "Project managers can manage their store purchase invoices"
+  ON purchase_invoices FOR ALL
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM user_profiles up
+      JOIN stores s ON s.project_id = up.project_id AND s.type = 'project'
+      WHERE up.id = auth.uid()
+        AND up.role = 'project_store_manager'
+        AND purchase_invoices.store_id = s.id
+    )
+  );
+
+-- Attachments follow the invoice they belong to
+CREATE POLICY "Users can manage attachments of invoices they can see"
+  ON purchase_invoice_attachments FOR ALL
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM purchase_invoices pi
+      WHERE pi.id = purchase_invoice_attachments.purchase_invoice_id
+    )
+  );
+
+-- Scanned invoices are stored privately under <invoice id>/<file name>
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('purchase-invoices', 'purchase-invoices', false)
+ON CONFLICT (id) DO NOTHING;
+
+CREATE POLICY "Users can read attachments of invoices they can see"
+  ON storage.objects FOR SELECT
+  TO authenticated
+  USING (
+    bucket_id = 'purchase-invoices'
+    AND EXISTS (
+      SELECT 1 FROM public.purchase_invoices pi
+      WHERE pi.id::TEXT = (storage.foldername(name))[1]
+    )
+  );
+
+CREATE POLICY "Users can upload attachments to invoices they can see"
+  ON storage.objects FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    bucket_id = 'purchase-invoices'
+    AND EXISTS (
+      SELECT 1 FROM public.purchase_invoices pi
+      WHERE pi.id::TEXT = (storage.foldername(name))[1]
+    )
+  );
+
+CREATE POLICY "Users can remove attachments of invoices they can see"
+  ON storage.objects FOR DELETE
+  TO authenticated
+  USING (
+    bucket_id = 'purchase-invoices'
+    AND EXISTS (
+      SELECT 1 FROM public.purchase_invoices pi
+      WHERE pi.id::TEXT = (storage.foldername(name))[1]
+    )
+  );
+
+CREATE TRIGGER update_purchase_invoices_updated_at
+  BEFORE UPDATE ON purchase_invoices
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
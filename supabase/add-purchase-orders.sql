@@ -0,0 +1,290 @@
+-- Purchase orders with an approval workflow
+-- Store managers raise purchase orders, admins approve them, and stock only
+-- moves into inventory_items when goods are received against an approved order.
+-- Receiving creates regular purchases rows (linked via purchase_order_item_id),
+-- so the existing update_inventory_on_purchase trigger keeps handling stock.
+
+-- Lifecycle: draft -> submitted -> approved (or rejected) -> partially_received -> received -> closed
+CREATE TYPE purchase_order_status AS ENUM (
+  'draft',
+  'submitted',
+  'approved',
+  'rejected',
+  'partially_received',
+  'received',
+  'closed'
+);
+
+CREATE SEQUENCE IF NOT EXISTS purchase_order_number_seq START 1;
+
+CREATE TABLE IF NOT EXISTS purchase_orders (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  po_number TEXT NOT NULL UNIQUE DEFAULT ('PO-' || LPAD(nextval('purchase_order_number_seq')::TEXT, 5, '0')),
+  store_id UUID NOT NULL REFERENCES stores(id) ON DELETE RESTRICT,
+  status purchase_order_status NOT NULL DEFAULT 'draft',
+  order_date DATE NOT NULL DEFAULT CURRENT_DATE,
+  expected_date DATE,
+  notes TEXT,
+  created_by UUID NOT NULL REFERENCES auth.users(id),
+  submitted_at TIMESTAMP WITH TIME ZONE,
+  approved_by UUID REFERENCES auth.users(id),
+  approved_at TIMESTAMP WITH TIME ZONE,
+  rejection_reason TEXT,
+  closed_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  deleted_at TIMESTAMP WITH TIME ZONE,
+  deleted_by UUID REFERENCES auth.users(id)
+);
+
+CREATE TABLE IF NOT EXISTS purchase_order_items (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  purchase_order_id UUID NOT NULL REFERENCES purchase_orders(id) ON DELETE CASCADE,
+  product_id UUID NOT NULL REFERENCES products(id) ON DELETE RESTRICT,
+  quantity DECIMAL(10, 2) NOT NULL CHECK (quantity > 0),
+  unit_cost DECIMAL(10, 2) NOT NULL CHECK (unit_cost >= 0),
+  received_quantity DECIMAL(10, 2) NOT NULL DEFAULT 0 CHECK (received_quantity >= 0),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE(purchase_order_id, product_id),
+  CHECK (received_quantity <= quantity)
+);
+
+-- Link purchases back to the order line they were received against
+ALTER TABLE purchases
+ADD COLUMN IF NOT EXISTS purchase_order_item_id UUID REFERENCES purchase_order_items(id) ON DELETE RESTRICT;
+
+CREATE INDEX IF NOT EXISTS idx_purchase_orders_status ON purchase_orders(status) WHERE deleted_at IS NULL;
+CREATE INDEX IF NOT EXISTS idx_purchase_orders_store_id ON purchase_orders(store_id);
+CREATE INDEX IF NOT EXISTS idx_purchase_order_items_order_id ON purchase_order_items(purchase_order_id);
+CREATE INDEX IF NOT EXISTS idx_purchases_purchase_order_item_id ON purchases(purchase_order_item_id);
+
+-- Keep received_quantity and the order status in sync with the purchases
+-- received against each line (including soft-deleted receipts being reversed)
+CREATE OR REPLACE FUNCTION public.sync_purchase_order_receipts()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_item_id UUID;
+  v_order_id UUID;
+  v_total_lines INTEGER;
+  v_fully_received_lines INTEGER;
+  v_any_received BOOLEAN;
+  v_ordered_quantity DECIMAL;
+  v_received_quantity DECIMAL;
+BEGIN
+  v_item_id := COALESCE(NEW.purchase_order_item_id, OLD.purchase_order_item_id);
+
+  IF v_item_id IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  -- Lock the line first so concurrent receipts are counted one after the other
+  SELECT quantity INTO v_ordered_quantity
+  FROM public.purchase_order_items
+  WHERE id = v_item_id
+  FOR UPDATE;
+
+  SELECT COALESCE(SUM(p.quantity), 0) INTO v_received_quantity
+  FROM public.purchases p
+  WHERE p.purchase_order_item_id = v_item_id
+    AND p.deleted_at IS NULL;
+
+  IF v_received_quantity > v_ordered_quantity THEN
+    RAISE EXCEPTION 'Received quantity exceeds the outstanding quantity (%) on the order',
+      v_ordered_quantity - (v_received_quantity - COALESCE(NEW.quantity, 0));
+  END IF;
+
+  UPDATE public.purchase_order_items poi
+  SET
+    received_quantity = v_received_quantity,
+    updated_at = NOW()
+  WHERE poi.id = v_item_id
+  RETURNING poi.purchase_order_id INTO v_order_id;
+
+  SELECT
+    COUNT(*),
+    COUNT(*) FILTER (WHERE received_quantity >= quantity),
+    BOOL_OR(received_quantity > 0)
+  INTO v_total_lines, v_fully_received_lines, v_any_received
+  FROM public.purchase_order_items
+  WHERE purchase_order_id = v_order_id;
+
+  -- Closed orders stay closed; only orders in the receiving stages move
+  UPDATE public.purchase_orders
+  SET status = CASE
+    WHEN v_total_lines > 0 AND v_fully_received_lines = v_total_lines THEN 'received'::purchase_order_status
+    WHEN v_any_received THEN 'partially_received'::purchase_order_status
+    ELSE 'approved'::purchase_order_status
+  END
+  WHERE id = v_order_id
+    AND status IN ('approved', 'partially_received', 'received');
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS on_purchase_order_receipt_created ON purchases;
+CREATE TRIGGER on_purchase_order_receipt_created
+  AFTER INSERT ON purchases
+  FOR EACH ROW
+  WHEN (NEW.purchase_order_item_id IS NOT NULL)
+  EXECUTE FUNCTION public.sync_purchase_order_receipts();
+
+DROP TRIGGER IF EXISTS on_purchase_order_receipt_updated ON purchases;
+CREATE TRIGGER on_purchase_order_receipt_updated
+  AFTER UPDATE OF quantity, deleted_at ON purchases
+  FOR EACH ROW
+  WHEN (NEW.purchase_order_item_id IS NOT NULL)
+  EXECUTE FUNCTION public.sync_purchase_order_receipts();
+
+-- Managers raise, edit and submit their orders; approving, rejecting and
+-- closing them takes approve_purchase_orders. The receiving stages are only
+-- ever set by sync_purchase_order_receipts().
+CREATE OR REPLACE FUNCTION public.guard_purchase_order_changes()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    IF NEW.status <> 'draft' THEN
+      RAISE EXCEPTION 'Purchase orders are raised as drafts and submitted for approval';
+    END IF;
+    RETURN NEW;
+  END IF;
+
+  IF NEW.status IS DISTINCT FROM OLD.status THEN
+    IF NEW.status IN ('draft', 'submitted') THEN
+      IF OLD.status NOT IN ('draft', 'rejected') THEN
+        RAISE EXCEPTION 'Only draft or rejected purchase orders can be edited or submitted';
+      END IF;
+    ELSIF NEW.status IN ('approved', 'rejected') AND OLD.status = 'submitted' THEN
+      IF NOT public.has_permission('approve_purchase_orders') THEN
+        RAISE EXCEPTION 'Unauthorized: Approve purchase orders permission required';
+      END IF;
+    ELSIF NEW.status = 'closed' AND OLD.status IN ('approved', 'partially_received', 'received') THEN
+      IF NOT public.has_permission('approve_purchase_orders') THEN
+        RAISE EXCEPTION 'Unauthorized: Approve purchase orders permission required';
+      END IF;
+    ELSIF NOT (
+      NEW.status IN ('approved', 'partially_received', 'received')
+      AND OLD.status IN ('approved', 'partially_received', 'received')
+      AND pg_trigger_depth() > 1
+    ) THEN
+      RAISE EXCEPTION 'Purchase orders cannot move from % to %', OLD.status, NEW.status;
+    END IF;
+  END IF;
+
+  -- Once submitted, the order is what the approver saw
+  IF OLD.status NOT IN ('draft', 'rejected') AND NEW.store_id IS DISTINCT FROM OLD.store_id THEN
+    RAISE EXCEPTION 'Only draft or rejected purchase orders can be edited';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS guard_purchase_order_changes ON purchase_orders;
+CREATE TRIGGER guard_purchase_order_changes
+  BEFORE INSERT OR UPDATE ON purchase_orders
+  FOR EACH ROW
+  EXECUTE FUNCTION public.guard_purchase_order_changes();
+
+-- Lines can only be added, changed or removed while the order is a draft.
+-- Receipts still update received_quantity on the lines of approved orders.
+CREATE OR REPLACE FUNCTION public.guard_purchase_order_item_changes()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_status purchase_order_status;
+BEGIN
+  IF TG_OP = 'UPDATE'
+    AND NEW.purchase_order_id = OLD.purchase_order_id
+    AND NEW.product_id = OLD.product_id
+    AND NEW.quantity = OLD.quantity
+    AND NEW.unit_cost = OLD.unit_cost
+  THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT status INTO v_status
+  FROM public.purchase_orders
+  WHERE id = CASE WHEN TG_OP = 'DELETE' THEN OLD.purchase_order_id ELSE NEW.purchase_order_id END;
+
+  -- A missing order means the lines are going with it (ON DELETE CASCADE)
+  IF v_status IS NOT NULL AND v_status NOT IN ('draft', 'rejected') THEN
+    RAISE EXCEPTION 'Lines of a submitted purchase order cannot be changed';
+  END IF;
+
+  IF TG_OP = 'UPDATE' AND NEW.purchase_order_id <> OLD.purchase_order_id THEN
+    SELECT status INTO v_status FROM public.purchase_orders WHERE id = OLD.purchase_order_id;
+    IF v_status NOT IN ('draft', 'rejected') THEN
+      RAISE EXCEPTION 'Lines of a submitted purchase order cannot be changed';
+    END IF;
+  END IF;
+
+  RETURN CASE WHEN TG_OP = 'DELETE' THEN OLD ELSE NEW END;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS guard_purchase_order_item_changes ON purchase_order_items;
+CREATE TRIGGER guard_purchase_order_item_changes
+  BEFORE INSERT OR UPDATE OR DELETE ON purchase_order_items
+  FOR EACH ROW
+  EXECUTE FUNCTION public.guard_purchase_order_item_changes();
+
+-- Enable RLS
+ALTER TABLE purchase_orders ENABLE ROW LEVEL SECURITY;
+ALTER TABLE purchase_order_items ENABLE ROW LEVEL SECURITY;
+
+-- Admins can do everything with purchase orders
+CREATE POLICY "Admins can manage purchase orders"
+  ON purchase_orders FOR ALL
+  TO authenticated
+  USING (public.is_admin());
+
+-- Central store managers can view and raise purchase orders for central stores
+CREATE POLICY "Central managers can manage central store purchase orders"
+  ON purchase_orders FOR ALL
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM user_profiles up
+      JOIN stores s ON s.type = 'central'
+      WHERE up.id = auth.uid()
+        AND up.role = 'central_store_manager'
+        AND purchase_orders.store_id = s.id
+    )
+  );
+
+-- Project store managers can view and raise purchase orders for their project store
+CREATE POLICY "Project managers can manage their store purchase orders"
+  ON purchase_orders FOR ALL
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM user_profiles up
+      JOIN stores s ON s.project_id = up.project_id AND s.type = 'project'
+      WHERE up.id = auth.uid()
+        AND up.role = 'project_store_manager'
+        AND purchase_orders.store_id = s.id
+    )
+  );
+
+-- Order lines follow the visibility of their order
+CREATE POLICY "Users can manage lines of visible purchase orders"
+  ON purchase_order_items FOR ALL
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM purchase_orders po
+      WHERE po.id = purchase_order_items.purchase_order_id
+    )
+  );
+
+-- Create updated_at triggers
+CREATE TRIGGER update_purchase_orders_updated_at
+  BEFORE UPDATE ON purchase_orders
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_purchase_order_items_updated_at
+  BEFORE UPDATE ON purchase_order_items
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
@@ -0,0 +1,256 @@
+-- Purchase returns to suppliers
+-- Defective or wrong material sent back to the vendor is recorded as a return
+-- against the original purchase instead of deleting the purchase. The return
+-- takes the stock out of the store at the purchase's unit cost, so purchase
+-- reports can show it as a negative line and net spend stays accurate.
+-- Run this after add-goods-received-notes.sql
+
+CREATE SEQUENCE IF NOT EXISTS purchase_return_number_seq START 1;
+
+CREATE TABLE IF NOT EXISTS purchase_returns (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  return_number TEXT NOT NULL UNIQUE DEFAULT ('PRN-' || LPAD(nextval('purchase_return_number_seq')::TEXT, 5, '0')),
+  purchase_id UUID NOT NULL REFERENCES purchases(id) ON DELETE RESTRICT,
+  store_id UUID NOT NULL REFERENCES stores(id) ON DELETE RESTRICT, -- Copied from the purchase
+  product_id UUID NOT NULL REFERENCES products(id) ON DELETE RESTRICT, -- Copied from the purchase
+  supplier_id UUID REFERENCES suppliers(id) ON DELETE SET NULL, -- Copied from the purchase
+  quantity DECIMAL(10, 2) NOT NULL CHECK (quantity > 0),
+  unit_cost DECIMAL(10, 2) NOT NULL CHECK (unit_cost >= 0), -- The purchase's unit cost
+  total_cost DECIMAL(10, 2) NOT NULL CHECK (total_cost >= 0),
+  return_date DATE NOT NULL DEFAULT CURRENT_DATE,
+  reason TEXT,
+  notes TEXT,
+  created_by UUID NOT NULL REFERENCES auth.users(id),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  deleted_at TIMESTAMP WITH TIME ZONE,
+  deleted_by UUID REFERENCES auth.users(id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_purchase_returns_purchase_id ON purchase_returns(purchase_id) WHERE deleted_at IS NULL;
+CREATE INDEX IF NOT EXISTS idx_purchase_returns_store_product ON purchase_returns(store_id, product_id);
+CREATE INDEX IF NOT EXISTS idx_purchase_returns_return_date ON purchase_returns(return_date);
+
+-- Running total of what went back against each purchase
+ALTER TABLE purchases
+ADD COLUMN IF NOT EXISTS returned_quantity DECIMAL(10, 2) NOT NULL DEFAULT 0 CHECK (returned_quantity >= 0);
+
+-- Fill in the return from its purchase and make sure the stock is there
+CREATE OR REPLACE FUNCTION public.prepare_purchase_return()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_purchase purchases;
+  v_received DECIMAL(10, 2);
+  v_available DECIMAL(10, 2);
+BEGIN
+  SELECT * INTO v_purchase
+  FROM public.purchases
+  WHERE id = NEW.purchase_id AND deleted_at IS NULL
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Purchase not found';
+  END IF;
+
+  -- GRN purchases only hold what has actually been delivered
+  IF v_purchase.receive_via_grn THEN
+    SELECT COALESCE(SUM(quantity), 0) INTO v_received
+    FROM public.goods_received_notes
+    WHERE purchase_id = v_purchase.id
+      AND status = 'posted'
+      AND deleted_at IS NULL;
+  ELSE
+    v_received := v_purchase.quantity;
+  END IF;
+
+  IF NEW.quantity > v_received - v_purchase.returned_quantity THEN
+    RAISE EXCEPTION 'Only % can still be returned against this purchase', v_received - v_purchase.returned_quantity;
+  END IF;
+
+  SELECT quantity INTO v_available
+  FROM public.inventory_items
+  WHERE store_id = v_purchase.store_id AND product_id = v_purchase.product_id
+  FOR UPDATE;
+
+  IF COALESCE(v_available, 0) < NEW.quantity THEN
+    RAISE EXCEPTION 'Insufficient stock to return: the store only has % left', COALESCE(v_available, 0);
+  END IF;
+
+  NEW.store_id := v_purchase.store_id;
+  NEW.product_id := v_purchase.product_id;
+  NEW.supplier_id := v_purchase.supplier_id;
+  NEW.unit_cost := v_purchase.unit_cost;
+  NEW.total_cost := NEW.quantity * v_purchase.unit_cost;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS on_purchase_return_insert ON purchase_returns;
+CREATE TRIGGER on_purchase_return_insert
+  BEFORE INSERT ON purchase_returns
+  FOR EACH ROW
+  EXECUTE FUNCTION public.prepare_purchase_return();
+
+-- Take returned stock out of the store
+CREATE OR REPLACE FUNCTION public.update_inventory_on_purchase_return()
+RETURNS TRIGGER AS $$
+BEGIN
+  UPDATE public.inventory_items
+  SET
+    quantity = quantity - NEW.quantity,
+    updated_at = NOW()
+  WHERE store_id = NEW.store_id AND product_id = NEW.product_id;
+
+  UPDATE public.purchases
+  SET returned_quantity = returned_quantity + NEW.quantity
+  WHERE id = NEW.purchase_id;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS on_purchase_return_created ON purchase_returns;
+CREATE TRIGGER on_purchase_return_created
+  AFTER INSERT ON purchase_returns
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_inventory_on_purchase_return();
+
+-- Voiding a return puts the stock back into the store
+CREATE OR REPLACE FUNCTION public.reverse_inventory_on_purchase_return_soft_delete()
+RETURNS TRIGGER AS $$
+BEGIN
+  INSERT INTO public.inventory_items (store_id, product_id, quantity)
+  VALUES (NEW.store_id, NEW.product_id, NEW.quantity)
+  ON CONFLICT (store_id, product_id)
+  DO UPDATE SET
+    quantity = inventory_items.quantity + NEW.quantity,
+    updated_at = NOW();
+
+  UPDATE public.purchases
+  SET returned_quantity = returned_quantity - NEW.quantity
+  WHERE id = NEW.purchase_id;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS reverse_inventory_on_purchase_return_soft_delete ON purchase_returns;
+CREATE TRIGGER reverse_inventory_on_purchase_return_soft_delete
+  AFTER UPDATE OF deleted_at ON purchase_returns
+  FOR EACH ROW
+  WHEN (OLD.deleted_at IS NULL AND NEW.deleted_at IS NOT NULL)
+  EXECUTE FUNCTION public.reverse_inventory_on_purchase_return_soft_delete();
+
+-- A purchase can't be deleted, moved or cut below what has gone back
+CREATE OR REPLACE FUNCTION public.check_purchase_returns_on_update()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.deleted_at IS NOT NULL AND OLD.deleted_at IS NULL AND OLD.returned_quantity > 0 THEN
+    RAISE EXCEPTION 'Void the returns against this purchase first';
+  END IF;
+
+  IF (NEW.product_id IS DISTINCT FROM OLD.product_id OR NEW.store_id IS DISTINCT FROM OLD.store_id)
+    AND OLD.returned_quantity > 0 THEN
+    RAISE EXCEPTION 'Store and product cannot be changed once stock has been returned against this purchase';
+  END IF;
+
+  IF NEW.quantity < NEW.returned_quantity THEN
+    RAISE EXCEPTION 'Quantity cannot be less than the % already returned', NEW.returned_quantity;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS check_purchase_returns_on_update ON purchases;
+CREATE TRIGGER check_purchase_returns_on_update
+  BEFORE UPDATE OF quantity, product_id, store_id, deleted_at ON purchases
+  FOR EACH ROW
+  EXECUTE FUNCTION public.check_purchase_returns_on_update();
+
+-- Returned stock leaves at the price it came in, so it comes out of the
+-- purchase side of the average
+CREATE OR REPLACE FUNCTION public.get_average_cost(p_store_id UUID, p_product_id UUID)
+RETURNS DECIMAL(10, 2) AS $$
+DECLARE
+  avg_cost DECIMAL(10, 2);
+  total_qty DECIMAL(10, 2);
+  total_cost DECIMAL(10, 2);
+  purchase_qty DECIMAL(10, 2);
+  purchase_cost DECIMAL(10, 2);
+  issue_qty DECIMAL(10, 2);
+  issue_cost DECIMAL(10, 2);
+BEGIN
+  -- Calculate from purchases, net of returns to the supplier
+  SELECT
+    COALESCE(SUM(p.quantity - p.returned_quantity), 0),
+    COALESCE(SUM(p.total_cost - p.returned_quantity * p.unit_cost), 0)
+  INTO purchase_qty, purchase_cost
+  FROM purchases p
+  WHERE p.store_id = p_store_id AND p.product_id = p_product_id;
+
+  -- Calculate from received transfers from other stores
+  SELECT
+    COALESCE(SUM(i.received_quantity), 0),
+    COALESCE(SUM(i.received_quantity * i.unit_cost), 0)
+  INTO issue_qty, issue_cost
+  FROM issues i
+  WHERE i.to_store_id = p_store_id
+    AND i.product_id = p_product_id
+    AND i.unit_cost IS NOT NULL
+    AND i.transfer_status = 'received';
+
+  -- Combine purchases and issues
+  total_qty := purchase_qty + issue_qty;
+  total_cost := purchase_cost + issue_cost;
+
+  -- Calculate weighted average
+  IF total_qty > 0 THEN
+    avg_cost := total_cost / total_qty;
+  ELSE
+    avg_cost := 0;
+  END IF;
+
+  RETURN COALESCE(avg_cost, 0);
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+-- Enable RLS
+ALTER TABLE purchase_returns ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can manage purchase returns"
+  ON purchase_returns FOR ALL
+  TO authenticated
+  USING (public.is_admin());
+
+CREATE POLICY "Central managers can manage central store purchase returns"
+  ON purchase_returns FOR ALL
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM user_profiles up
+      JOIN stores s ON s.type = 'central'
+      WHERE up.id = auth.uid()
+        AND up.role = 'central_store_manager'
+        AND purchase_returns.store_id = s.id
+    )
+  );
+
+CREATE POLICY "Project managers can manage their store purchase returns"
+  ON purchase_returns FOR ALL
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM user_profiles up
+      JOIN stores s ON s.project_id = up.project_id AND s.type = 'project'
+      WHERE up.id = auth.uid()
+        AND up.role = 'project_store_manager'
+        AND purchase_returns.store_id = s.id
+    )
+  );
+
+CREATE TRIGGER update_purchase_returns_updated_at
+  BEFORE UPDATE ON purchase_returns
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
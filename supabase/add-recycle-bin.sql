@@ -0,0 +1,166 @@
+-- Recycle bin
+-- Soft-deleted purchases can be restored. Deleting a purchase takes its stock
+-- and cost layer back out (and voids its GRNs); restoring it now puts them
+-- back, so the stock on hand matches as if it had never been deleted.
+-- restore_purchase re-checks what createPurchase would: the store, product
+-- and supplier still exist, and a purchase order line isn't over-received.
+-- Run this after add-audit-log.sql
+
+-- Put back the stock a soft-deleted purchase took out, along with the GRNs
+-- that were voided with it
+CREATE OR REPLACE FUNCTION public.restore_inventory_on_purchase_undelete()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_restored_qty DECIMAL(10, 2);
+BEGIN
+  IF NEW.receive_via_grn THEN
+    UPDATE public.goods_received_notes
+    SET deleted_at = NULL,
+        deleted_by = NULL
+    WHERE purchase_id = NEW.id
+      AND deleted_at = OLD.deleted_at;
+
+    SELECT COALESCE(SUM(quantity), 0) INTO v_restored_qty
+    FROM public.goods_received_notes
+    WHERE purchase_id = NEW.id
+      AND status = 'posted'
+      AND deleted_at IS NULL;
+  ELSE
+    v_restored_qty := NEW.quantity;
+  END IF;
+
+  IF v_restored_qty > 0 THEN
+    INSERT INTO public.inventory_items (store_id, product_id, quantity)
+    VALUES (NEW.store_id, NEW.product_id, v_restored_qty)
+    ON CONFLICT (store_id, product_id)
+    DO UPDATE SET
+      quantity = inventory_items.quantity + v_restored_qty,
+      updated_at = NOW();
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS restore_inventory_on_purchase_undelete ON purchases;
+CREATE TRIGGER restore_inventory_on_purchase_undelete
+  AFTER UPDATE OF deleted_at ON purchases
+  FOR EACH ROW
+  WHEN (OLD.deleted_at IS NOT NULL AND NEW.deleted_at IS NULL)
+  EXECUTE FUNCTION public.restore_inventory_on_purchase_undelete();
+
+CREATE OR REPLACE FUNCTION public.add_cost_layer_on_purchase_restore()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_received DECIMAL(10, 2);
+BEGIN
+  IF NEW.receive_via_grn THEN
+    -- The GRNs voided with the purchase come back with it
+    SELECT COALESCE(SUM(quantity), 0) INTO v_received
+    FROM public.goods_received_notes
+    WHERE purchase_id = NEW.id
+      AND status = 'posted'
+      AND (deleted_at IS NULL OR deleted_at = OLD.deleted_at);
+  ELSE
+    v_received := NEW.quantity;
+  END IF;
+
+  PERFORM public.add_cost_layer(
+    NEW.store_id, NEW.product_id, v_received - NEW.returned_quantity, NEW.landed_unit_cost, 'purchase', NEW.id, NEW.purchase_date
+  );
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS add_cost_layer_on_purchase_restore ON purchases;
+CREATE TRIGGER add_cost_layer_on_purchase_restore
+  AFTER UPDATE OF deleted_at ON purchases
+  FOR EACH ROW
+  WHEN (OLD.deleted_at IS NOT NULL AND NEW.deleted_at IS NULL)
+  EXECUTE FUNCTION public.add_cost_layer_on_purchase_restore();
+
+-- Restore a soft-deleted purchase. Runs as the caller so the purchases RLS
+-- policies still apply.
+CREATE OR REPLACE FUNCTION public.restore_purchase(p_purchase_id UUID)
+RETURNS purchases AS $$
+DECLARE
+  v_purchase purchases;
+  v_order_item purchase_order_items;
+  v_order purchase_orders;
+  v_name TEXT;
+BEGIN
+  IF NOT public.is_admin() THEN
+    RAISE EXCEPTION 'Unauthorized: Admin access required';
+  END IF;
+
+  SELECT * INTO v_purchase
+  FROM purchases
+  WHERE id = p_purchase_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Purchase not found';
+  END IF;
+
+  IF v_purchase.deleted_at IS NULL THEN
+    RAISE EXCEPTION 'This purchase has not been deleted';
+  END IF;
+
+  SELECT name INTO v_name FROM stores WHERE id = v_purchase.store_id AND deleted_at IS NOT NULL;
+  IF FOUND THEN
+    RAISE EXCEPTION 'Restore the store % first', v_name;
+  END IF;
+
+  SELECT name INTO v_name FROM products WHERE id = v_purchase.product_id AND deleted_at IS NOT NULL;
+  IF FOUND THEN
+    RAISE EXCEPTION 'Restore the product % first', v_name;
+  END IF;
+
+  IF v_purchase.supplier_id IS NOT NULL THEN
+    SELECT name INTO v_name FROM suppliers WHERE id = v_purchase.supplier_id AND deleted_at IS NOT NULL;
+    IF FOUND THEN
+      RAISE EXCEPTION 'Restore the supplier % first', v_name;
+    END IF;
+  END IF;
+
+  -- Invoice lines come and go with their invoice
+  IF v_purchase.purchase_invoice_id IS NOT NULL THEN
+    SELECT document_number INTO v_name
+    FROM purchase_invoices
+    WHERE id = v_purchase.purchase_invoice_id AND deleted_at IS NOT NULL;
+    IF FOUND THEN
+      RAISE EXCEPTION 'This purchase is a line of deleted invoice % and cannot be restored on its own', v_name;
+    END IF;
+  END IF;
+
+  IF v_purchase.purchase_order_item_id IS NOT NULL THEN
+    SELECT * INTO v_order_item
+    FROM purchase_order_items
+    WHERE id = v_purchase.purchase_order_item_id
+    FOR UPDATE;
+
+    SELECT * INTO v_order FROM purchase_orders WHERE id = v_order_item.purchase_order_id;
+
+    IF v_order.deleted_at IS NOT NULL OR v_order.status NOT IN ('approved', 'partially_received', 'received') THEN
+      RAISE EXCEPTION 'Purchase order % is no longer open for receiving', v_order.po_number;
+    END IF;
+
+    IF v_order_item.received_quantity + v_purchase.quantity > v_order_item.quantity THEN
+      RAISE EXCEPTION 'Restoring this receipt would exceed the % ordered on purchase order %',
+        v_order_item.quantity, v_order.po_number;
+    END IF;
+  END IF;
+
+  -- Stock, cost layers, GRNs and order receipts are put back by the triggers
+  UPDATE purchases
+  SET deleted_at = NULL,
+      deleted_by = NULL
+  WHERE id = p_purchase_id
+  RETURNING * INTO v_purchase;
+
+  RETURN v_purchase;
+END;
+$$ LANGUAGE plpgsql;
+
+REVOKE EXECUTE ON FUNCTION public.restore_purchase(UUID) FROM PUBLIC, anon;
@@ -0,0 +1,204 @@
+-- Reorder levels and low-stock alerts
+-- Each store can set its own levels for a product instead of the single
+-- products.restock_level:
+--   min_quantity   safety stock the store should never fall below
+--   reorder_point  stock at or below which the product needs reordering
+--   max_quantity   stock a reorder should bring the store back up to
+-- Products without levels for a store keep using products.restock_level as
+-- their reorder point there (0 means no alerts).
+--
+-- A stock alert is opened when a product's stock in a store falls to or below
+-- its reorder point, and resolved automatically once stock is back above it.
+-- The users assigned to the store see its alerts. Levels are set by the users
+-- who replenish the store: those who raise purchase orders for central stores
+-- and requisitions for project stores.
+-- Run this after add-user-store-assignments.sql
+
+CREATE TABLE IF NOT EXISTS reorder_levels (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  store_id UUID NOT NULL REFERENCES stores(id) ON DELETE CASCADE,
+  product_id UUID NOT NULL REFERENCES products(id) ON DELETE CASCADE,
+  min_quantity DECIMAL(10, 2) NOT NULL DEFAULT 0 CHECK (min_quantity >= 0),
+  reorder_point DECIMAL(10, 2) NOT NULL CHECK (reorder_point > 0),
+  max_quantity DECIMAL(10, 2) NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  created_by UUID REFERENCES auth.users(id),
+  UNIQUE (store_id, product_id),
+  CHECK (reorder_point >= min_quantity),
+  CHECK (max_quantity > reorder_point)
+);
+
+CREATE INDEX IF NOT EXISTS idx_reorder_levels_product_id ON reorder_levels(product_id);
+
+CREATE TABLE IF NOT EXISTS stock_alerts (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  store_id UUID NOT NULL REFERENCES stores(id) ON DELETE CASCADE,
+  product_id UUID NOT NULL REFERENCES products(id) ON DELETE CASCADE,
+  quantity DECIMAL(10, 2) NOT NULL, -- Stock when the alert was raised
+  reorder_point DECIMAL(10, 2) NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  resolved_at TIMESTAMP WITH TIME ZONE
+);
+
+-- At most one open alert per product and store
+CREATE UNIQUE INDEX IF NOT EXISTS idx_stock_alerts_open
+  ON stock_alerts(store_id, product_id)
+  WHERE resolved_at IS NULL;
+
+CREATE INDEX IF NOT EXISTS idx_stock_alerts_created_at ON stock_alerts(created_at DESC);
+
+-- The reorder point of a product in a store, or NULL when none is set
+CREATE OR REPLACE FUNCTION public.get_reorder_point(p_store_id UUID, p_product_id UUID)
+RETURNS DECIMAL AS $$
+BEGIN
+  RETURN COALESCE(
+    (SELECT reorder_point FROM public.reorder_levels WHERE store_id = p_store_id AND product_id = p_product_id),
+    (SELECT NULLIF(restock_level, 0) FROM public.products WHERE id = p_product_id AND deleted_at IS NULL)
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER STABLE;
+
+-- Open or resolve the alert of a product in a store for its current stock
+CREATE OR REPLACE FUNCTION public.refresh_stock_alert(p_store_id UUID, p_product_id UUID)
+RETURNS VOID AS $$
+DECLARE
+  v_reorder_point DECIMAL;
+  v_quantity DECIMAL;
+BEGIN
+  v_reorder_point := public.get_reorder_point(p_store_id, p_product_id);
+
+  SELECT quantity INTO v_quantity
+  FROM public.inventory_items
+  WHERE store_id = p_store_id AND product_id = p_product_id;
+
+  IF v_reorder_point IS NOT NULL
+    AND COALESCE(v_quantity, 0) <= v_reorder_point
+    AND EXISTS (SELECT 1 FROM public.stores WHERE id = p_store_id AND deleted_at IS NULL)
+  THEN
+    INSERT INTO public.stock_alerts (store_id, product_id, quantity, reorder_point)
+    VALUES (p_store_id, p_product_id, COALESCE(v_quantity, 0), v_reorder_point)
+    ON CONFLICT (store_id, product_id) WHERE resolved_at IS NULL DO NOTHING;
+  ELSE
+    UPDATE public.stock_alerts
+    SET resolved_at = NOW()
+    WHERE store_id = p_store_id
+      AND product_id = p_product_id
+      AND resolved_at IS NULL;
+  END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION public.refresh_stock_alert(UUID, UUID) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION public.check_inventory_reorder_point()
+RETURNS TRIGGER AS $$
+BEGIN
+  PERFORM public.refresh_stock_alert(NEW.store_id, NEW.product_id);
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS check_inventory_reorder_point ON inventory_items;
+CREATE TRIGGER check_inventory_reorder_point
+  AFTER INSERT OR UPDATE OF quantity ON inventory_items
+  FOR EACH ROW
+  EXECUTE FUNCTION public.check_inventory_reorder_point();
+
+-- New or changed levels apply to the stock already in the store
+CREATE OR REPLACE FUNCTION public.check_reorder_level_alert()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    PERFORM public.refresh_stock_alert(OLD.store_id, OLD.product_id);
+    RETURN OLD;
+  END IF;
+
+  PERFORM public.refresh_stock_alert(NEW.store_id, NEW.product_id);
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS check_reorder_level_alert ON reorder_levels;
+CREATE TRIGGER check_reorder_level_alert
+  AFTER INSERT OR UPDATE OR DELETE ON reorder_levels
+  FOR EACH ROW
+  EXECUTE FUNCTION public.check_reorder_level_alert();
+
+-- So does a changed restock level in the stores without their own levels
+CREATE OR REPLACE FUNCTION public.check_restock_level_alerts()
+RETURNS TRIGGER AS $$
+BEGIN
+  PERFORM public.refresh_stock_alert(ii.store_id, ii.product_id)
+  FROM public.inventory_items ii
+  WHERE ii.product_id = NEW.id;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS check_restock_level_alerts ON products;
+CREATE TRIGGER check_restock_level_alerts
+  AFTER UPDATE OF restock_level ON products
+  FOR EACH ROW
+  WHEN (NEW.restock_level IS DISTINCT FROM OLD.restock_level)
+  EXECUTE FUNCTION public.check_restock_level_alerts();
+
+-- Stock already at or below its reorder point gets an alert straight away
+SELECT public.refresh_stock_alert(store_id, product_id) FROM inventory_items;
+
+-- Whether the current user may set the reorder levels of a store
+CREATE OR REPLACE FUNCTION public.can_manage_reorder_levels(p_store_id UUID)
+RETURNS BOOLEAN AS $$
+BEGIN
+  RETURN public.is_admin() OR (
+    public.is_assigned_to_store(p_store_id)
+    AND EXISTS (
+      SELECT 1 FROM public.stores s
+      WHERE s.id = p_store_id
+        AND (
+          (s.type = 'central' AND public.has_permission('raise_purchase_orders'))
+          OR (s.type = 'project' AND public.has_permission('request_stock'))
+        )
+    )
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER STABLE;
+
+DROP TRIGGER IF EXISTS audit_reorder_levels ON reorder_levels;
+CREATE TRIGGER audit_reorder_levels
+  AFTER INSERT OR UPDATE OR DELETE ON reorder_levels
+  FOR EACH ROW
+  EXECUTE FUNCTION public.record_audit_log();
+
+DROP TRIGGER IF EXISTS update_reorder_levels_updated_at ON reorder_levels;
+CREATE TRIGGER update_reorder_levels_updated_at
+  BEFORE UPDATE ON reorder_levels
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- Enable RLS
+ALTER TABLE reorder_levels ENABLE ROW LEVEL SECURITY;
+ALTER TABLE stock_alerts ENABLE ROW LEVEL SECURITY;
+
+-- Levels are shown next to stock, which every user can see for some stores
+CREATE POLICY "Authenticated users can view reorder levels"
+  ON reorder_levels FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Store replenishers can manage their stores' reorder levels"
+  ON reorder_levels FOR ALL
+  TO authenticated
+  USING (public.can_manage_reorder_levels(reorder_levels.store_id))
+  WITH CHECK (public.can_manage_reorder_levels(reorder_levels.store_id));
+
+-- Alerts are only written by refresh_stock_alert()
+CREATE POLICY "Admins can view all stock alerts"
+  ON stock_alerts FOR SELECT
+  TO authenticated
+  USING (public.is_admin());
+
+CREATE POLICY "Store managers can view their stores' stock alerts"
+  ON stock_alerts FOR SELECT
+  TO authenticated
+  USING (public.is_assigned_to_store(stock_alerts.store_id));
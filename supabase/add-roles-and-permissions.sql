@@ -0,0 +1,595 @@
+-- Roles and permissions
+-- Replaces the three hard-coded roles with configurable roles. Each role holds
+-- a set of permissions (e.g. approve purchase orders, manage products, view
+-- prices) and a store access level that decides which stores its users work
+-- with:
+--   admin                  every store (only the built-in Administrator role)
+--   central_store_manager  records for central stores, sees every store
+--   project_store_manager  only the user's own project store
+-- user_profiles.role keeps the store access level in sync with the user's role,
+-- so the existing store-scoped RLS policies and database functions carry on
+-- working unchanged. public.has_permission() checks an operation; the policies
+-- below use it wherever a change used to be limited to admins.
+--
+-- The three existing roles become built-in roles with the permissions they had
+-- before. The Administrator role always holds every permission.
+-- Run this after add-accounting-periods.sql
+
+CREATE TYPE app_permission AS ENUM (
+  'manage_users',
+  'manage_roles',
+  'view_audit_log',
+  'restore_deleted',
+  'close_periods',
+  'manage_projects',
+  'manage_stores',
+  'manage_categories',
+  'manage_suppliers',
+  'manage_products',
+  'manage_exchange_rates',
+  'manage_costing',
+  'create_purchases',
+  'edit_purchases',
+  'delete_purchases',
+  'raise_purchase_orders',
+  'approve_purchase_orders',
+  'receive_goods',
+  'return_purchases',
+  'issue_stock',
+  'edit_issues',
+  'request_stock',
+  'approve_requisitions',
+  'return_issues',
+  'create_adjustments',
+  'approve_adjustments',
+  'count_stock',
+  'approve_stock_takes',
+  'view_reports',
+  'view_prices',
+  'view_central_prices'
+);
+
+CREATE TABLE IF NOT EXISTS roles (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  name TEXT NOT NULL UNIQUE,
+  description TEXT,
+  store_access user_role NOT NULL DEFAULT 'project_store_manager',
+  is_system BOOLEAN NOT NULL DEFAULT false,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  -- Access to every store comes with is_admin(), so it stays with the built-in role
+  CHECK (is_system OR store_access <> 'admin')
+);
+
+-- One built-in role per store access level
+CREATE UNIQUE INDEX IF NOT EXISTS idx_roles_system_store_access ON roles(store_access) WHERE is_system;
+
+CREATE TABLE IF NOT EXISTS role_permissions (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(), -- The audit log keys entries by id
+  role_id UUID NOT NULL REFERENCES roles(id) ON DELETE CASCADE,
+  permission app_permission NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE (role_id, permission)
+);
+
+INSERT INTO roles (name, description, store_access, is_system) VALUES
+  ('Administrator', 'Full access to every store and setting', 'admin', true),
+  ('Central Store Manager', 'Runs the central stores and fulfils project requisitions', 'central_store_manager', true),
+  ('Project Store Manager', 'Runs the store of their own project', 'project_store_manager', true)
+ON CONFLICT (name) DO NOTHING;
+
+INSERT INTO role_permissions (role_id, permission)
+SELECT r.id, p.permission
+FROM roles r
+CROSS JOIN UNNEST(ENUM_RANGE(NULL::app_permission)) AS p(permission)
+WHERE r.is_system AND r.store_access = 'admin'
+ON CONFLICT DO NOTHING;
+
+-- Managers buy through approved purchase orders; recording purchases and
+-- invoices directly is left to roles given create_purchases
+INSERT INTO role_permissions (role_id, permission)
+SELECT r.id, p.permission::app_permission
+FROM roles r
+CROSS JOIN UNNEST(ARRAY[
+  'edit_purchases', 'raise_purchase_orders', 'receive_goods', 'return_purchases',
+  'issue_stock', 'approve_requisitions', 'create_adjustments', 'count_stock', 'view_reports', 'view_central_prices'
+]) AS p(permission)
+WHERE r.is_system AND r.store_access = 'central_store_manager'
+ON CONFLICT DO NOTHING;
+
+INSERT INTO role_permissions (role_id, permission)
+SELECT r.id, p.permission::app_permission
+FROM roles r
+CROSS JOIN UNNEST(ARRAY[
+  'edit_purchases', 'raise_purchase_orders', 'receive_goods', 'return_purchases',
+  'issue_stock', 'request_stock', 'return_issues', 'create_adjustments', 'count_stock', 'view_reports'
+]) AS p(permission)
+WHERE r.is_system AND r.store_access = 'project_store_manager'
+ON CONFLICT DO NOTHING;
+
+-- Every user gets the built-in role matching their current role
+ALTER TABLE user_profiles ADD COLUMN IF NOT EXISTS role_id UUID REFERENCES roles(id);
+
+UPDATE user_profiles up
+SET role_id = r.id
+FROM roles r
+WHERE up.role_id IS NULL
+  AND r.is_system
+  AND r.store_access = up.role;
+
+ALTER TABLE user_profiles ALTER COLUMN role_id SET NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_user_profiles_role_id ON user_profiles(role_id);
+
+-- Whether the current user's role holds a permission
+CREATE OR REPLACE FUNCTION public.has_permission(p_permission app_permission)
+RETURNS BOOLEAN AS $$
+BEGIN
+  RETURN EXISTS (
+    SELECT 1 FROM public.user_profiles up
+    JOIN public.role_permissions rp ON rp.role_id = up.role_id
+    WHERE up.id = auth.uid()
+      AND up.deleted_at IS NULL
+      AND rp.permission = p_permission
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER STABLE;
+
+-- Keep user_profiles.role on the store access level of the user's role. New
+-- sign-ups (see handle_new_user) only set role, so they get the matching
+-- built-in role. Users can still edit their own name, but only user managers
+-- can change anyone's role or project.
+CREATE OR REPLACE FUNCTION public.sync_user_profile_role()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'UPDATE'
+    AND auth.uid() IS NOT NULL
+    AND (NEW.role_id IS DISTINCT FROM OLD.role_id OR NEW.project_id IS DISTINCT FROM OLD.project_id)
+    AND NOT public.has_permission('manage_users')
+  THEN
+    RAISE EXCEPTION 'Unauthorized: Manage users permission required';
+  END IF;
+
+  IF NEW.role_id IS NULL THEN
+    SELECT id INTO NEW.role_id
+    FROM public.roles
+    WHERE is_system AND store_access = NEW.role;
+  END IF;
+
+  SELECT store_access INTO NEW.role
+  FROM public.roles
+  WHERE id = NEW.role_id;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS sync_user_profile_role ON user_profiles;
+CREATE TRIGGER sync_user_profile_role
+  BEFORE INSERT OR UPDATE ON user_profiles
+  FOR EACH ROW
+  EXECUTE FUNCTION public.sync_user_profile_role();
+
+-- Moving a role to another store access level moves its users with it
+CREATE OR REPLACE FUNCTION public.sync_role_store_access()
+RETURNS TRIGGER AS $$
+BEGIN
+  UPDATE public.user_profiles
+  SET role = NEW.store_access
+  WHERE role_id = NEW.id;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS sync_role_store_access ON roles;
+CREATE TRIGGER sync_role_store_access
+  AFTER UPDATE OF store_access ON roles
+  FOR EACH ROW
+  WHEN (OLD.store_access IS DISTINCT FROM NEW.store_access)
+  EXECUTE FUNCTION public.sync_role_store_access();
+
+-- The built-in roles can't be renamed away, moved or deleted, and the
+-- Administrator role keeps every permission
+CREATE OR REPLACE FUNCTION public.protect_system_roles()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_TABLE_NAME = 'roles' THEN
+    IF TG_OP = 'DELETE' AND OLD.is_system THEN
+      RAISE EXCEPTION 'Built-in roles cannot be deleted';
+    END IF;
+    IF TG_OP = 'UPDATE' AND OLD.is_system
+      AND (NEW.is_system IS DISTINCT FROM OLD.is_system OR NEW.store_access IS DISTINCT FROM OLD.store_access)
+    THEN
+      RAISE EXCEPTION 'The store access of built-in roles cannot be changed';
+    END IF;
+    IF TG_OP = 'INSERT' AND NEW.is_system THEN
+      RAISE EXCEPTION 'Built-in roles cannot be added';
+    END IF;
+  ELSIF EXISTS (
+    SELECT 1 FROM public.roles
+    WHERE id = COALESCE(OLD.role_id, NEW.role_id) AND is_system AND store_access = 'admin'
+  ) THEN
+    RAISE EXCEPTION 'The Administrator role always has every permission';
+  END IF;
+
+  IF TG_OP = 'DELETE' THEN
+    RETURN OLD;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS protect_system_roles ON roles;
+CREATE TRIGGER protect_system_roles
+  BEFORE INSERT OR UPDATE OR DELETE ON roles
+  FOR EACH ROW
+  EXECUTE FUNCTION public.protect_system_roles();
+
+DROP TRIGGER IF EXISTS protect_administrator_permissions ON role_permissions;
+CREATE TRIGGER protect_administrator_permissions
+  BEFORE INSERT OR UPDATE OR DELETE ON role_permissions
+  FOR EACH ROW
+  EXECUTE FUNCTION public.protect_system_roles();
+
+-- Role managers can only grant permissions they hold themselves, or they could
+-- give their own role anything. Setup scripts (no signed-in user) grant freely.
+CREATE OR REPLACE FUNCTION public.check_granted_permission()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF auth.uid() IS NOT NULL AND NOT public.has_permission(NEW.permission) THEN
+    RAISE EXCEPTION 'You can''t grant % because you don''t have it yourself', NEW.permission;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS check_granted_permission ON role_permissions;
+CREATE TRIGGER check_granted_permission
+  BEFORE INSERT OR UPDATE ON role_permissions
+  FOR EACH ROW
+  EXECUTE FUNCTION public.check_granted_permission();
+
+-- Role changes show up in the audit log
+DROP TRIGGER IF EXISTS audit_roles ON roles;
+CREATE TRIGGER audit_roles
+  AFTER INSERT OR UPDATE OR DELETE ON roles
+  FOR EACH ROW
+  EXECUTE FUNCTION public.record_audit_log();
+
+DROP TRIGGER IF EXISTS audit_role_permissions ON role_permissions;
+CREATE TRIGGER audit_role_permissions
+  AFTER INSERT OR UPDATE OR DELETE ON role_permissions
+  FOR EACH ROW
+  EXECUTE FUNCTION public.record_audit_log();
+
+DROP TRIGGER IF EXISTS update_roles_updated_at ON roles;
+CREATE TRIGGER update_roles_updated_at
+  BEFORE UPDATE ON roles
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- Enable RLS
+ALTER TABLE roles ENABLE ROW LEVEL SECURITY;
+ALTER TABLE role_permissions ENABLE ROW LEVEL SECURITY;
+
+-- Everyone can see the roles, to know what they are allowed to do
+CREATE POLICY "Authenticated users can view roles"
+  ON roles FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Users with manage_roles can manage roles"
+  ON roles FOR ALL
+  TO authenticated
+  USING (public.has_permission('manage_roles'));
+
+CREATE POLICY "Authenticated users can view role permissions"
+  ON role_permissions FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Users with manage_roles can manage role permissions"
+  ON role_permissions FOR ALL
+  TO authenticated
+  USING (public.has_permission('manage_roles'));
+
+-- Admin-only policies become permission checks
+DROP POLICY IF EXISTS "Admins can manage categories" ON categories;
+CREATE POLICY "Users with manage_categories can manage categories"
+  ON categories FOR ALL
+  TO authenticated
+  USING (public.has_permission('manage_categories'));
+
+DROP POLICY IF EXISTS "Admins can manage products" ON products;
+CREATE POLICY "Users with manage_products can manage products"
+  ON products FOR ALL
+  TO authenticated
+  USING (public.has_permission('manage_products'));
+
+DROP POLICY IF EXISTS "Admins can manage suppliers" ON suppliers;
+CREATE POLICY "Users with manage_suppliers can manage suppliers"
+  ON suppliers FOR ALL
+  TO authenticated
+  USING (public.has_permission('manage_suppliers'));
+
+DROP POLICY IF EXISTS "Admins can manage exchange rates" ON exchange_rates;
+CREATE POLICY "Users with manage_exchange_rates can manage exchange rates"
+  ON exchange_rates FOR ALL
+  TO authenticated
+  USING (public.has_permission('manage_exchange_rates'));
+
+DROP POLICY IF EXISTS "Admins can change the costing method" ON costing_settings;
+CREATE POLICY "Users with manage_costing can change the costing method"
+  ON costing_settings FOR UPDATE
+  TO authenticated
+  USING (public.has_permission('manage_costing'));
+
+-- Project stores are renamed and restored along with their project
+DROP POLICY IF EXISTS "Admins can manage stores" ON stores;
+CREATE POLICY "Users with manage_stores or manage_projects can manage stores"
+  ON stores FOR ALL
+  TO authenticated
+  USING (public.has_permission('manage_stores') OR public.has_permission('manage_projects'));
+
+DROP POLICY IF EXISTS "Admins can insert projects" ON projects;
+DROP POLICY IF EXISTS "Admins can update projects" ON projects;
+DROP POLICY IF EXISTS "Admins can delete projects" ON projects;
+CREATE POLICY "Users with manage_projects can insert projects"
+  ON projects FOR INSERT
+  WITH CHECK (public.has_permission('manage_projects'));
+
+CREATE POLICY "Users with manage_projects can update projects"
+  ON projects FOR UPDATE
+  USING (public.has_permission('manage_projects'));
+
+CREATE POLICY "Users with manage_projects can delete projects"
+  ON projects FOR DELETE
+  USING (public.has_permission('manage_projects'));
+
+-- Role managers count each role's users; the audit and recycle bin views
+-- show who made each change
+CREATE POLICY "User and role managers and reviewers can view all profiles"
+  ON user_profiles FOR SELECT
+  USING (
+    public.has_permission('manage_users')
+    OR public.has_permission('manage_roles')
+    OR public.has_permission('view_audit_log')
+    OR public.has_permission('restore_deleted')
+  );
+
+DROP POLICY IF EXISTS "Admins can update all profiles" ON user_profiles;
+DROP POLICY IF EXISTS "Admins can insert profiles" ON user_profiles;
+CREATE POLICY "Users with manage_users can update all profiles"
+  ON user_profiles FOR UPDATE
+  USING (public.has_permission('manage_users'));
+
+CREATE POLICY "Users with manage_users can insert profiles"
+  ON user_profiles FOR INSERT
+  WITH CHECK (public.has_permission('manage_users'));
+
+DROP POLICY IF EXISTS "Admins can view the audit log" ON audit_log;
+CREATE POLICY "Users with view_audit_log can view the audit log"
+  ON audit_log FOR SELECT
+  TO authenticated
+  USING (public.has_permission('view_audit_log'));
+
+DROP POLICY IF EXISTS "Admins can manage accounting periods" ON accounting_periods;
+CREATE POLICY "Users with close_periods can manage accounting periods"
+  ON accounting_periods FOR ALL
+  TO authenticated
+  USING (public.has_permission('close_periods'));
+
+DROP POLICY IF EXISTS "Admins can update issues" ON issues;
+CREATE POLICY "Users with edit_issues can update issues"
+  ON issues FOR UPDATE
+  TO authenticated
+  USING (public.has_permission('edit_issues'));
+
+-- Approvals, corrections and voids reach beyond the user's own stores, like
+-- they did for admins. The store-scoped policies still cover everything else.
+CREATE POLICY "Users with approve_purchase_orders can update purchase orders"
+  ON purchase_orders FOR UPDATE
+  TO authenticated
+  USING (public.has_permission('approve_purchase_orders'));
+
+CREATE POLICY "Users with approve_adjustments can update adjustments"
+  ON inventory_adjustments FOR UPDATE
+  TO authenticated
+  USING (public.has_permission('approve_adjustments'));
+
+CREATE POLICY "Users with delete_purchases can update purchases"
+  ON purchases FOR UPDATE
+  TO authenticated
+  USING (public.has_permission('delete_purchases'));
+
+CREATE POLICY "Users with delete_purchases can update purchase invoices"
+  ON purchase_invoices FOR UPDATE
+  TO authenticated
+  USING (public.has_permission('delete_purchases'));
+
+CREATE POLICY "Users with delete_purchases can update purchase returns"
+  ON purchase_returns FOR UPDATE
+  TO authenticated
+  USING (public.has_permission('delete_purchases'));
+
+CREATE POLICY "Users with edit_issues can update issue vouchers"
+  ON issue_vouchers FOR UPDATE
+  TO authenticated
+  USING (public.has_permission('edit_issues'));
+
+CREATE POLICY "Users with edit_issues can update issue returns"
+  ON issue_returns FOR UPDATE
+  TO authenticated
+  USING (public.has_permission('edit_issues'));
+
+-- Database functions that were limited to admins check the permission instead
+-- Approve a submitted count: post a count correction wherever the stock on
+-- hand differs from the count plus what the flagged purchases and issues
+-- moved since the snapshot. The adjustment triggers value and apply each one,
+-- so any failure rolls back the whole approval.
+CREATE OR REPLACE FUNCTION public.post_stock_take(p_stock_take_id UUID)
+RETURNS stock_takes AS $$
+DECLARE
+  v_stock_take stock_takes;
+  v_item stock_take_items;
+  v_on_hand DECIMAL(10, 2);
+  v_variance DECIMAL(10, 2);
+  v_adjustment_id UUID;
+BEGIN
+  IF NOT public.has_permission('approve_stock_takes') THEN
+    RAISE EXCEPTION 'Unauthorized: Approve stock takes permission required';
+  END IF;
+
+  SELECT * INTO v_stock_take
+  FROM stock_takes
+  WHERE id = p_stock_take_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Stock take not found';
+  END IF;
+
+  IF v_stock_take.status <> 'submitted' THEN
+    RAISE EXCEPTION 'Only submitted stock takes can be approved';
+  END IF;
+
+  FOR v_item IN
+    SELECT * FROM stock_take_items
+    WHERE stock_take_id = p_stock_take_id
+      AND counted_quantity IS NOT NULL
+  LOOP
+    SELECT quantity INTO v_on_hand
+    FROM inventory_items
+    WHERE store_id = v_stock_take.store_id AND product_id = v_item.product_id
+    FOR UPDATE;
+
+    v_variance := v_item.counted_quantity
+      + public.get_stock_take_flagged_movement(p_stock_take_id, v_item.product_id)
+      - COALESCE(v_on_hand, 0);
+
+    IF v_variance = 0 THEN
+      CONTINUE;
+    END IF;
+
+    INSERT INTO inventory_adjustments (store_id, product_id, quantity, reason, notes, created_by)
+    VALUES (
+      v_stock_take.store_id,
+      v_item.product_id,
+      v_variance,
+      'count_correction',
+      'Stock take ' || v_stock_take.stock_take_number,
+      auth.uid()
+    )
+    RETURNING id INTO v_adjustment_id;
+
+    -- Linked first: the adjustment guard lets stock take approvers approve
+    -- the count corrections of their stock take
+    UPDATE stock_take_items
+    SET adjustment_id = v_adjustment_id
+    WHERE id = v_item.id;
+
+    UPDATE inventory_adjustments
+    SET status = 'approved',
+        approved_by = auth.uid(),
+        approved_at = NOW()
+    WHERE id = v_adjustment_id;
+  END LOOP;
+
+  UPDATE stock_takes
+  SET status = 'approved',
+      approved_by = auth.uid(),
+      approved_at = NOW()
+  WHERE id = p_stock_take_id
+  RETURNING * INTO v_stock_take;
+
+  RETURN v_stock_take;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION public.post_stock_take(UUID) FROM PUBLIC, anon;
+
+-- Restoring a purchase undoes a void, so it needs both permissions
+CREATE OR REPLACE FUNCTION public.restore_purchase(p_purchase_id UUID)
+RETURNS purchases AS $$
+DECLARE
+  v_purchase purchases;
+  v_order_item purchase_order_items;
+  v_order purchase_orders;
+  v_name TEXT;
+BEGIN
+  IF NOT (public.has_permission('restore_deleted') AND public.has_permission('delete_purchases')) THEN
+    RAISE EXCEPTION 'Unauthorized: Restore deleted records permission required';
+  END IF;
+
+  SELECT * INTO v_purchase
+  FROM purchases
+  WHERE id = p_purchase_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Purchase not found';
+  END IF;
+
+  IF v_purchase.deleted_at IS NULL THEN
+    RAISE EXCEPTION 'This purchase has not been deleted';
+  END IF;
+
+  SELECT name INTO v_name FROM stores WHERE id = v_purchase.store_id AND deleted_at IS NOT NULL;
+  IF FOUND THEN
+    RAISE EXCEPTION 'Restore the store % first', v_name;
+  END IF;
+
+  SELECT name INTO v_name FROM products WHERE id = v_purchase.product_id AND deleted_at IS NOT NULL;
+  IF FOUND THEN
+    RAISE EXCEPTION 'Restore the product % first', v_name;
+  END IF;
+
+  IF v_purchase.supplier_id IS NOT NULL THEN
+    SELECT name INTO v_name FROM suppliers WHERE id = v_purchase.supplier_id AND deleted_at IS NOT NULL;
+    IF FOUND THEN
+      RAISE EXCEPTION 'Restore the supplier % first', v_name;
+    END IF;
+  END IF;
+
+  -- Invoice lines come and go with their invoice
+  IF v_purchase.purchase_invoice_id IS NOT NULL THEN
+    SELECT document_number INTO v_name
+    FROM purchase_invoices
+    WHERE id = v_purchase.purchase_invoice_id AND deleted_at IS NOT NULL;
+    IF FOUND THEN
+      RAISE EXCEPTION 'This purchase is a line of deleted invoice % and cannot be restored on its own', v_name;
+    END IF;
+  END IF;
+
+  IF v_purchase.purchase_order_item_id IS NOT NULL THEN
+    SELECT * INTO v_order_item
+    FROM purchase_order_items
+    WHERE id = v_purchase.purchase_order_item_id
+    FOR UPDATE;
+
+    SELECT * INTO v_order FROM purchase_orders WHERE id = v_order_item.purchase_order_id;
+
+    IF v_order.deleted_at IS NOT NULL OR v_order.status NOT IN ('approved', 'partially_received', 'received') THEN
+      RAISE EXCEPTION 'Purchase order % is no longer open for receiving', v_order.po_number;
+    END IF;
+
+    IF v_order_item.received_quantity + v_purchase.quantity > v_order_item.quantity THEN
+      RAISE EXCEPTION 'Restoring this receipt would exceed the % ordered on purchase order %',
+        v_order_item.quantity, v_order.po_number;
+    END IF;
+  END IF;
+
+  -- Stock, cost layers, GRNs and order receipts are put back by the triggers
+  UPDATE purchases
+  SET deleted_at = NULL,
+      deleted_by = NULL
+  WHERE id = p_purchase_id
+  RETURNING * INTO v_purchase;
+
+  RETURN v_purchase;
+END;
+$$ LANGUAGE plpgsql;
+
+REVOKE EXECUTE ON FUNCTION public.restore_purchase(UUID) FROM PUBLIC, anon;
@@ -0,0 +1,370 @@
+-- Physical stock-take (cycle count) sessions
+-- A stock take snapshots a store's inventory, collects counted quantities and,
+-- once approved, posts the differences as count_correction adjustments (see
+-- add-inventory-adjustments.sql). Purchases and issues that touch the store
+-- while a count is open are flagged with the session so the counter can
+-- account for them.
+
+CREATE TYPE stock_take_status AS ENUM ('counting', 'submitted', 'approved', 'cancelled');
+
+CREATE SEQUENCE IF NOT EXISTS stock_take_number_seq START 1;
+
+CREATE TABLE IF NOT EXISTS stock_takes (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  stock_take_number TEXT NOT NULL UNIQUE DEFAULT ('STK-' || LPAD(nextval('stock_take_number_seq')::TEXT, 5, '0')),
+  store_id UUID NOT NULL REFERENCES stores(id) ON DELETE RESTRICT,
+  status stock_take_status NOT NULL DEFAULT 'counting',
+  notes TEXT,
+  started_by UUID NOT NULL REFERENCES auth.users(id),
+  submitted_at TIMESTAMP WITH TIME ZONE,
+  approved_by UUID REFERENCES auth.users(id),
+  approved_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Only one open count per store at a time
+CREATE UNIQUE INDEX IF NOT EXISTS idx_stock_takes_one_open_per_store
+  ON stock_takes(store_id) WHERE status IN ('counting', 'submitted');
+
+CREATE TABLE IF NOT EXISTS stock_take_items (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  stock_take_id UUID NOT NULL REFERENCES stock_takes(id) ON DELETE CASCADE,
+  product_id UUID NOT NULL REFERENCES products(id) ON DELETE RESTRICT,
+  system_quantity DECIMAL(10, 2) NOT NULL, -- Snapshot when the count started
+  counted_quantity DECIMAL(10, 2) CHECK (counted_quantity >= 0),
+  unit_cost DECIMAL(10, 2) NOT NULL DEFAULT 0, -- Average cost when the count started
+  adjustment_id UUID REFERENCES inventory_adjustments(id),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE(stock_take_id, product_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_stock_take_items_stock_take_id ON stock_take_items(stock_take_id);
+
+-- Movements recorded while a count was open
+ALTER TABLE purchases
+ADD COLUMN IF NOT EXISTS stock_take_id UUID REFERENCES stock_takes(id) ON DELETE SET NULL;
+
+ALTER TABLE issues
+ADD COLUMN IF NOT EXISTS stock_take_id UUID REFERENCES stock_takes(id) ON DELETE SET NULL;
+
+-- Start a count: create the session and snapshot the store's stock
+CREATE OR REPLACE FUNCTION public.start_stock_take(p_store_id UUID, p_notes TEXT DEFAULT NULL)
+RETURNS stock_takes AS $$
+DECLARE
+  v_store stores;
+  v_profile user_profiles;
+  v_stock_take stock_takes;
+BEGIN
+  SELECT * INTO v_store FROM stores WHERE id = p_store_id AND deleted_at IS NULL;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Store not found';
+  END IF;
+
+  SELECT * INTO v_profile FROM user_profiles WHERE id = auth.uid();
+
+  IF v_profile.id IS NULL OR NOT (
+    v_profile.role = 'admin'
+    OR (v_profile.role = 'central_store_manager' AND v_store.type = 'central')
+    OR (v_profile.role = 'project_store_manager' AND v_store.type = 'project' AND v_store.project_id = v_profile.project_id)
+  ) THEN
+    RAISE EXCEPTION 'Unauthorized: You can only count stock for your own store';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM stock_takes
+    WHERE store_id = p_store_id AND status IN ('counting', 'submitted')
+  ) THEN
+    RAISE EXCEPTION 'A stock take is already open for this store';
+  END IF;
+
+  INSERT INTO stock_takes (store_id, notes, started_by)
+  VALUES (p_store_id, NULLIF(TRIM(p_notes), ''), auth.uid())
+  RETURNING * INTO v_stock_take;
+
+  INSERT INTO stock_take_items (stock_take_id, product_id, system_quantity, unit_cost)
+  SELECT
+    v_stock_take.id,
+    ii.product_id,
+    ii.quantity,
+    COALESCE(public.get_average_cost(p_store_id, ii.product_id), 0)
+  FROM inventory_items ii
+  WHERE ii.store_id = p_store_id;
+
+  RETURN v_stock_take;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION public.start_stock_take(UUID, TEXT) FROM PUBLIC, anon;
+
+-- Net stock the flagged purchases and issues moved in or out of the counted
+-- store for one product. Counts are taken against the snapshot, so this is
+-- still to be added on top of the counted quantity when the count is posted.
+CREATE OR REPLACE FUNCTION public.get_stock_take_flagged_movement(p_stock_take_id UUID, p_product_id UUID)
+RETURNS DECIMAL AS $$
+DECLARE
+  v_store_id UUID;
+  v_purchased DECIMAL(10, 2);
+  v_issued DECIMAL(10, 2);
+  v_transferred_in DECIMAL(10, 2);
+BEGIN
+  SELECT store_id INTO v_store_id FROM stock_takes WHERE id = p_stock_take_id;
+
+  -- GRN purchases only move stock as their GRNs are posted
+  SELECT COALESCE(SUM(
+    CASE WHEN p.receive_via_grn THEN (
+      SELECT COALESCE(SUM(g.quantity), 0)
+      FROM goods_received_notes g
+      WHERE g.purchase_id = p.id AND g.status = 'posted' AND g.deleted_at IS NULL
+    ) ELSE p.quantity END
+  ), 0) INTO v_purchased
+  FROM purchases p
+  WHERE p.stock_take_id = p_stock_take_id
+    AND p.store_id = v_store_id
+    AND p.product_id = p_product_id
+    AND p.deleted_at IS NULL;
+
+  SELECT COALESCE(SUM(i.quantity), 0) INTO v_issued
+  FROM issues i
+  WHERE i.stock_take_id = p_stock_take_id
+    AND i.from_store_id = v_store_id
+    AND i.product_id = p_product_id
+    AND i.deleted_at IS NULL;
+
+  -- Transfers in only land once the receiving store confirms them
+  SELECT COALESCE(SUM(i.received_quantity), 0) INTO v_transferred_in
+  FROM issues i
+  WHERE i.stock_take_id = p_stock_take_id
+    AND i.to_store_id = v_store_id
+    AND i.product_id = p_product_id
+    AND i.transfer_status = 'received'
+    AND i.deleted_at IS NULL;
+
+  RETURN v_purchased - v_issued + v_transferred_in;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Approve a submitted count: post a count correction wherever the stock on
+-- hand differs from the count plus what the flagged purchases and issues
+-- moved since the snapshot. The adjustment triggers value and apply each one,
+-- so any failure rolls back the whole approval.
+CREATE OR REPLACE FUNCTION public.post_stock_take(p_stock_take_id UUID)
+RETURNS stock_takes AS $$
+DECLARE
+  v_stock_take stock_takes;
+  v_item stock_take_items;
+  v_on_hand DECIMAL(10, 2);
+  v_variance DECIMAL(10, 2);
+  v_adjustment_id UUID;
+BEGIN
+  IF NOT public.is_admin() THEN
+    RAISE EXCEPTION 'Unauthorized: Admin access required';
+  END IF;
+
+  SELECT * INTO v_stock_take
+  FROM stock_takes
+  WHERE id = p_stock_take_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Stock take not found';
+  END IF;
+
+  IF v_stock_take.status <> 'submitted' THEN
+    RAISE EXCEPTION 'Only submitted stock takes can be approved';
+  END IF;
+
+  FOR v_item IN
+    SELECT * FROM stock_take_items
+    WHERE stock_take_id = p_stock_take_id
+      AND counted_quantity IS NOT NULL
+  LOOP
+    SELECT quantity INTO v_on_hand
+    FROM inventory_items
+    WHERE store_id = v_stock_take.store_id AND product_id = v_item.product_id
+    FOR UPDATE;
+
+    v_variance := v_item.counted_quantity
+      + public.get_stock_take_flagged_movement(p_stock_take_id, v_item.product_id)
+      - COALESCE(v_on_hand, 0);
+
+    IF v_variance = 0 THEN
+      CONTINUE;
+    END IF;
+
+    INSERT INTO inventory_adjustments (store_id, product_id, quantity, reason, notes, created_by)
+    VALUES (
+      v_stock_take.store_id,
+      v_item.product_id,
+      v_variance,
+      'count_correction',
+      'Stock take ' || v_stock_take.stock_take_number,
+      auth.uid()
+    )
+    RETURNING id INTO v_adjustment_id;
+
+    UPDATE inventory_adjustments
+    SET status = 'approved',
+        approved_by = auth.uid(),
+        approved_at = NOW()
+    WHERE id = v_adjustment_id;
+
+    UPDATE stock_take_items
+    SET adjustment_id = v_adjustment_id
+    WHERE id = v_item.id;
+  END LOOP;
+
+  UPDATE stock_takes
+  SET status = 'approved',
+      approved_by = auth.uid(),
+      approved_at = NOW()
+  WHERE id = p_stock_take_id
+  RETURNING * INTO v_stock_take;
+
+  RETURN v_stock_take;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION public.post_stock_take(UUID) FROM PUBLIC, anon;
+
+-- Flag purchases and issues that move stock in a store being counted
+CREATE OR REPLACE FUNCTION public.flag_purchase_during_stock_take()
+RETURNS TRIGGER AS $$
+BEGIN
+  SELECT id INTO NEW.stock_take_id
+  FROM public.stock_takes
+  WHERE store_id = NEW.store_id AND status IN ('counting', 'submitted');
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS flag_purchase_during_stock_take ON purchases;
+CREATE TRIGGER flag_purchase_during_stock_take
+  BEFORE INSERT ON purchases
+  FOR EACH ROW
+  EXECUTE FUNCTION public.flag_purchase_during_stock_take();
+
+CREATE OR REPLACE FUNCTION public.flag_issue_during_stock_take()
+RETURNS TRIGGER AS $$
+BEGIN
+  SELECT id INTO NEW.stock_take_id
+  FROM public.stock_takes
+  WHERE store_id IN (NEW.from_store_id, NEW.to_store_id) AND status IN ('counting', 'submitted')
+  ORDER BY created_at
+  LIMIT 1;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS flag_issue_during_stock_take ON issues;
+CREATE TRIGGER flag_issue_during_stock_take
+  BEFORE INSERT ON issues
+  FOR EACH ROW
+  EXECUTE FUNCTION public.flag_issue_during_stock_take();
+
+-- Enable RLS
+ALTER TABLE stock_takes ENABLE ROW LEVEL SECURITY;
+ALTER TABLE stock_take_items ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can manage stock takes"
+  ON stock_takes FOR ALL
+  TO authenticated
+  USING (public.is_admin());
+
+CREATE POLICY "Central managers can manage central store stock takes"
+  ON stock_takes FOR ALL
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM user_profiles up
+      JOIN stores s ON s.type = 'central'
+      WHERE up.id = auth.uid()
+        AND up.role = 'central_store_manager'
+        AND stock_takes.store_id = s.id
+    )
+  );
+
+CREATE POLICY "Project managers can manage their store stock takes"
+  ON stock_takes FOR ALL
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM user_profiles up
+      JOIN stores s ON s.project_id = up.project_id AND s.type = 'project'
+      WHERE up.id = auth.uid()
+        AND up.role = 'project_store_manager'
+        AND stock_takes.store_id = s.id
+    )
+  );
+
+-- Count lines follow their session; start_stock_take() creates them and
+-- counts can only be entered until the count is submitted
+CREATE POLICY "Users can view items of visible stock takes"
+  ON stock_take_items FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM stock_takes st
+      WHERE st.id = stock_take_items.stock_take_id
+    )
+  );
+
+CREATE POLICY "Counters can record counts on open stock takes"
+  ON stock_take_items FOR UPDATE
+  TO authenticated
+  USING (
+    public.has_permission('count_stock')
+    AND EXISTS (
+      SELECT 1 FROM stock_takes st
+      WHERE st.id = stock_take_items.stock_take_id
+        AND st.status = 'counting'
+    )
+  );
+
+-- The snapshot never changes, counts freeze once submitted and only
+-- post_stock_take() links the posted adjustments
+CREATE OR REPLACE FUNCTION public.guard_stock_take_item_changes()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_status stock_take_status;
+BEGIN
+  IF NEW.stock_take_id IS DISTINCT FROM OLD.stock_take_id
+    OR NEW.product_id IS DISTINCT FROM OLD.product_id
+    OR NEW.system_quantity IS DISTINCT FROM OLD.system_quantity
+    OR NEW.unit_cost IS DISTINCT FROM OLD.unit_cost
+  THEN
+    RAISE EXCEPTION 'The stock take snapshot cannot be changed';
+  END IF;
+
+  SELECT status INTO v_status FROM public.stock_takes WHERE id = OLD.stock_take_id;
+
+  IF NEW.counted_quantity IS DISTINCT FROM OLD.counted_quantity AND v_status <> 'counting' THEN
+    RAISE EXCEPTION 'Counts can only be changed while the stock take is being counted';
+  END IF;
+
+  IF NEW.adjustment_id IS DISTINCT FROM OLD.adjustment_id AND v_status <> 'submitted' THEN
+    RAISE EXCEPTION 'Adjustments are linked when the stock take is approved';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS guard_stock_take_item_changes ON stock_take_items;
+CREATE TRIGGER guard_stock_take_item_changes
+  BEFORE UPDATE ON stock_take_items
+  FOR EACH ROW
+  EXECUTE FUNCTION public.guard_stock_take_item_changes();
+
+CREATE TRIGGER update_stock_takes_updated_at
+  BEFORE UPDATE ON stock_takes
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_stock_take_items_updated_at
+  BEFORE UPDATE ON stock_take_items
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
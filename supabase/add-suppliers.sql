@@ -0,0 +1,46 @@
+-- Supplier / vendor master
+-- Purchases record who the goods were bought from so spend and prices can be
+-- reported per vendor. Suppliers are soft deleted like the other master data.
+
+CREATE TABLE IF NOT EXISTS suppliers (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  name TEXT NOT NULL,
+  contact_person TEXT,
+  phone TEXT,
+  email TEXT,
+  address TEXT,
+  tax_number TEXT,
+  notes TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  deleted_at TIMESTAMP WITH TIME ZONE,
+  deleted_by UUID REFERENCES auth.users(id)
+);
+
+-- Names only need to be unique among suppliers that haven't been deleted
+CREATE UNIQUE INDEX IF NOT EXISTS idx_suppliers_name_unique ON suppliers(LOWER(name)) WHERE deleted_at IS NULL;
+CREATE INDEX IF NOT EXISTS idx_suppliers_deleted_at ON suppliers(deleted_at) WHERE deleted_at IS NULL;
+
+ALTER TABLE purchases
+ADD COLUMN IF NOT EXISTS supplier_id UUID REFERENCES suppliers(id) ON DELETE RESTRICT;
+
+CREATE INDEX IF NOT EXISTS idx_purchases_supplier_id ON purchases(supplier_id);
+
+-- Enable RLS
+ALTER TABLE suppliers ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies for suppliers (all authenticated users can view, only admins can modify)
+CREATE POLICY "Everyone can view suppliers"
+  ON suppliers FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Admins can manage suppliers"
+  ON suppliers FOR ALL
+  TO authenticated
+  USING (public.is_admin());
+
+CREATE TRIGGER update_suppliers_updated_at
+  BEFORE UPDATE ON suppliers
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
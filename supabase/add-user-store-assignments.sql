@@ -0,0 +1,633 @@
+-- User store assignments
+-- A user now works with an explicit set of stores instead of "every central
+-- store" (central store managers) or "the store of user_profiles.project_id"
+-- (project store managers). One store keeper can cover two nearby project
+-- sites, and the Karachi manager no longer reaches Islamabad stock.
+-- The store access level of the user's role (see add-roles-and-permissions.sql)
+-- still decides which kind of store they can be assigned: central store roles
+-- get central stores, project store roles get project stores. Admins keep
+-- every store without assignments.
+--
+-- Existing users keep what they had: central store managers are assigned every
+-- central store and project store managers the store of their project. The
+-- store-scoped policies and functions switch to public.is_assigned_to_store(),
+-- and user_profiles.project_id is dropped.
+-- Run this after add-roles-and-permissions.sql
+
+CREATE TABLE IF NOT EXISTS user_store_assignments (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID NOT NULL REFERENCES user_profiles(id) ON DELETE CASCADE,
+  store_id UUID NOT NULL REFERENCES stores(id) ON DELETE CASCADE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  created_by UUID REFERENCES auth.users(id),
+  UNIQUE (user_id, store_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_user_store_assignments_store_id ON user_store_assignments(store_id);
+
+INSERT INTO user_store_assignments (user_id, store_id)
+SELECT up.id, s.id
+FROM user_profiles up
+JOIN stores s ON s.type = 'central' AND s.deleted_at IS NULL
+WHERE up.role = 'central_store_manager'
+ON CONFLICT DO NOTHING;
+
+INSERT INTO user_store_assignments (user_id, store_id)
+SELECT up.id, s.id
+FROM user_profiles up
+JOIN stores s ON s.project_id = up.project_id AND s.type = 'project'
+WHERE up.role = 'project_store_manager'
+ON CONFLICT DO NOTHING;
+
+-- Whether the current user is assigned to a store. Deleted stores and stores of
+-- the wrong kind for the user's role (e.g. after the role moved to project
+-- stores) don't count.
+CREATE OR REPLACE FUNCTION public.is_assigned_to_store(p_store_id UUID)
+RETURNS BOOLEAN AS $$
+BEGIN
+  RETURN EXISTS (
+    SELECT 1 FROM public.user_store_assignments usa
+    JOIN public.user_profiles up ON up.id = usa.user_id
+    JOIN public.stores s ON s.id = usa.store_id
+    WHERE usa.user_id = auth.uid()
+      AND usa.store_id = p_store_id
+      AND up.deleted_at IS NULL
+      AND s.deleted_at IS NULL
+      AND (
+        (up.role = 'central_store_manager' AND s.type = 'central')
+        OR (up.role = 'project_store_manager' AND s.type = 'project')
+      )
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER STABLE;
+
+-- Only the matching kind of store can be assigned
+CREATE OR REPLACE FUNCTION public.check_user_store_assignment()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_role user_role;
+  v_store_type TEXT;
+BEGIN
+  SELECT role INTO v_role FROM public.user_profiles WHERE id = NEW.user_id;
+  SELECT type INTO v_store_type FROM public.stores WHERE id = NEW.store_id;
+
+  IF v_role = 'admin' THEN
+    RAISE EXCEPTION 'Administrators already have every store';
+  END IF;
+  IF v_role = 'central_store_manager' AND v_store_type <> 'central' THEN
+    RAISE EXCEPTION 'Central store roles can only be assigned central stores';
+  END IF;
+  IF v_role = 'project_store_manager' AND v_store_type <> 'project' THEN
+    RAISE EXCEPTION 'Project store roles can only be assigned project stores';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS check_user_store_assignment ON user_store_assignments;
+CREATE TRIGGER check_user_store_assignment
+  BEFORE INSERT OR UPDATE ON user_store_assignments
+  FOR EACH ROW
+  EXECUTE FUNCTION public.check_user_store_assignment();
+
+DROP TRIGGER IF EXISTS audit_user_store_assignments ON user_store_assignments;
+CREATE TRIGGER audit_user_store_assignments
+  AFTER INSERT OR UPDATE OR DELETE ON user_store_assignments
+  FOR EACH ROW
+  EXECUTE FUNCTION public.record_audit_log();
+
+-- Enable RLS
+ALTER TABLE user_store_assignments ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own store assignments"
+  ON user_store_assignments FOR SELECT
+  TO authenticated
+  USING (user_id = auth.uid());
+
+CREATE POLICY "User managers and reviewers can view all store assignments"
+  ON user_store_assignments FOR SELECT
+  TO authenticated
+  USING (
+    public.has_permission('manage_users')
+    OR public.has_permission('view_audit_log')
+  );
+
+CREATE POLICY "Users with manage_users can manage store assignments"
+  ON user_store_assignments FOR ALL
+  TO authenticated
+  USING (public.has_permission('manage_users'));
+
+-- Store-scoped policies use the assignments
+DROP POLICY IF EXISTS "Central store managers can create purchases for central store" ON purchases;
+DROP POLICY IF EXISTS "Project store managers can create purchases for their store" ON purchases;
+-- Receipts against a purchase order are recorded as purchases too
+CREATE POLICY "Store managers can create purchases for their stores"
+  ON purchases FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    public.is_assigned_to_store(purchases.store_id)
+    AND (
+      public.has_permission('create_purchases')
+      OR (purchases.purchase_order_item_id IS NOT NULL AND public.has_permission('receive_goods'))
+    )
+  );
+
+DROP POLICY IF EXISTS "Admins and central managers can view all purchases" ON purchases;
+DROP POLICY IF EXISTS "Project managers can view their store purchases" ON purchases;
+CREATE POLICY "Admins can view all purchases"
+  ON purchases FOR SELECT
+  TO authenticated
+  USING (public.is_admin());
+
+CREATE POLICY "Store managers can view their stores' purchases"
+  ON purchases FOR SELECT
+  TO authenticated
+  USING (public.is_assigned_to_store(purchases.store_id));
+
+DROP POLICY IF EXISTS "Central managers can manage central store purchase orders" ON purchase_orders;
+DROP POLICY IF EXISTS "Project managers can manage their store purchase orders" ON purchase_orders;
+CREATE POLICY "Store managers can view their stores' purchase orders"
+  ON purchase_orders FOR SELECT
+  TO authenticated
+  USING (public.is_assigned_to_store(purchase_orders.store_id));
+
+CREATE POLICY "Store managers can manage their stores' purchase orders"
+  ON purchase_orders FOR ALL
+  TO authenticated
+  USING (
+    public.is_assigned_to_store(purchase_orders.store_id)
+    AND public.has_permission('raise_purchase_orders')
+  );
+
+DROP POLICY IF EXISTS "Central managers can manage central store goods received notes" ON goods_received_notes;
+DROP POLICY IF EXISTS "Project managers can manage their store goods received notes" ON goods_received_notes;
+CREATE POLICY "Store managers can view their stores' goods received notes"
+  ON goods_received_notes FOR SELECT
+  TO authenticated
+  USING (public.is_assigned_to_store(goods_received_notes.store_id));
+
+CREATE POLICY "Store managers can manage their stores' goods received notes"
+  ON goods_received_notes FOR ALL
+  TO authenticated
+  USING (
+    public.is_assigned_to_store(goods_received_notes.store_id)
+    AND public.has_permission('receive_goods')
+  );
+
+DROP POLICY IF EXISTS "Central managers can manage central store purchase invoices" ON purchase_invoices;
+DROP POLICY IF EXISTS "Project managers can manage their store purchase invoices" ON purchase_invoices;
+CREATE POLICY "Store managers can view their stores' purchase invoices"
+  ON purchase_invoices FOR SELECT
+  TO authenticated
+  USING (public.is_assigned_to_store(purchase_invoices.store_id));
+
+CREATE POLICY "Store managers can manage their stores' purchase invoices"
+  ON purchase_invoices FOR ALL
+  TO authenticated
+  USING (
+    public.is_assigned_to_store(purchase_invoices.store_id)
+    AND public.has_permission('create_purchases')
+  );
+
+DROP POLICY IF EXISTS "Central managers can manage central store purchase returns" ON purchase_returns;
+DROP POLICY IF EXISTS "Project managers can manage their store purchase returns" ON purchase_returns;
+CREATE POLICY "Store managers can view their stores' purchase returns"
+  ON purchase_returns FOR SELECT
+  TO authenticated
+  USING (public.is_assigned_to_store(purchase_returns.store_id));
+
+-- Voiding a return takes delete_purchases, like voiding the purchase itself
+CREATE POLICY "Store managers can record returns for their stores"
+  ON purchase_returns FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    public.is_assigned_to_store(purchase_returns.store_id)
+    AND public.has_permission('return_purchases')
+  );
+
+-- The stock a return took out is only ever put back by voiding it, once
+CREATE OR REPLACE FUNCTION public.guard_purchase_return_changes()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF OLD.deleted_at IS NOT NULL AND NEW.deleted_at IS NULL THEN
+    RAISE EXCEPTION 'Voided returns cannot be restored. Record a new return instead.';
+  END IF;
+
+  IF NEW.quantity IS DISTINCT FROM OLD.quantity
+    OR NEW.purchase_id IS DISTINCT FROM OLD.purchase_id
+    OR NEW.store_id IS DISTINCT FROM OLD.store_id
+    OR NEW.product_id IS DISTINCT FROM OLD.product_id
+    OR NEW.unit_cost IS DISTINCT FROM OLD.unit_cost
+    OR NEW.total_cost IS DISTINCT FROM OLD.total_cost
+  THEN
+    RAISE EXCEPTION 'Returns cannot be changed. Void the return and record it again.';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS guard_purchase_return_changes ON purchase_returns;
+CREATE TRIGGER guard_purchase_return_changes
+  BEFORE UPDATE ON purchase_returns
+  FOR EACH ROW
+  EXECUTE FUNCTION public.guard_purchase_return_changes();
+
+DROP POLICY IF EXISTS "Central managers can manage central store adjustments" ON inventory_adjustments;
+DROP POLICY IF EXISTS "Project managers can manage their store adjustments" ON inventory_adjustments;
+CREATE POLICY "Store managers can view their stores' adjustments"
+  ON inventory_adjustments FOR SELECT
+  TO authenticated
+  USING (public.is_assigned_to_store(inventory_adjustments.store_id));
+
+-- Managers raise adjustments for approval; approving them takes approve_adjustments
+CREATE POLICY "Store managers can raise adjustments for their stores"
+  ON inventory_adjustments FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    public.is_assigned_to_store(inventory_adjustments.store_id)
+    AND public.has_permission('create_adjustments')
+    AND inventory_adjustments.status = 'pending'
+  );
+
+-- Voiding a pending or rejected adjustment; guard_adjustment_changes() stops status changes
+CREATE POLICY "Store managers can void their stores' unapproved adjustments"
+  ON inventory_adjustments FOR UPDATE
+  TO authenticated
+  USING (
+    public.is_assigned_to_store(inventory_adjustments.store_id)
+    AND public.has_permission('create_adjustments')
+    AND inventory_adjustments.status <> 'approved'
+  )
+  WITH CHECK (public.is_assigned_to_store(inventory_adjustments.store_id));
+
+-- The approval workflow holds however the table is written to: adjustments
+-- start out pending, only approvers decide them, and an approved adjustment's
+-- stock movement stays as it was posted
+CREATE OR REPLACE FUNCTION public.guard_adjustment_changes()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    IF NEW.status <> 'pending' THEN
+      RAISE EXCEPTION 'Adjustments are raised as pending and approved separately';
+    END IF;
+    RETURN NEW;
+  END IF;
+
+  IF NEW.status IS DISTINCT FROM OLD.status THEN
+    IF OLD.status <> 'pending' THEN
+      RAISE EXCEPTION 'Only pending adjustments can be approved or rejected';
+    END IF;
+
+    -- Count corrections are approved together with their stock take (see post_stock_take())
+    IF NOT (
+      public.has_permission('approve_adjustments')
+      OR (
+        NEW.reason = 'count_correction'
+        AND public.has_permission('approve_stock_takes')
+        AND EXISTS (SELECT 1 FROM public.stock_take_items sti WHERE sti.adjustment_id = NEW.id)
+      )
+    ) THEN
+      RAISE EXCEPTION 'Unauthorized: Approve adjustments permission required';
+    END IF;
+  END IF;
+
+  IF OLD.status = 'approved' AND (
+    NEW.quantity IS DISTINCT FROM OLD.quantity
+    OR NEW.store_id IS DISTINCT FROM OLD.store_id
+    OR NEW.product_id IS DISTINCT FROM OLD.product_id
+    OR NEW.deleted_at IS DISTINCT FROM OLD.deleted_at
+  ) THEN
+    RAISE EXCEPTION 'Approved adjustments cannot be changed. Raise a new adjustment to reverse them.';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS guard_adjustment_changes ON inventory_adjustments;
+CREATE TRIGGER guard_adjustment_changes
+  BEFORE INSERT OR UPDATE ON inventory_adjustments
+  FOR EACH ROW
+  EXECUTE FUNCTION public.guard_adjustment_changes();
+
+DROP POLICY IF EXISTS "Central managers can manage central store stock takes" ON stock_takes;
+DROP POLICY IF EXISTS "Project managers can manage their store stock takes" ON stock_takes;
+CREATE POLICY "Store managers can view their stores' stock takes"
+  ON stock_takes FOR SELECT
+  TO authenticated
+  USING (public.is_assigned_to_store(stock_takes.store_id));
+
+CREATE POLICY "Store managers can manage their stores' stock takes"
+  ON stock_takes FOR ALL
+  TO authenticated
+  USING (
+    public.is_assigned_to_store(stock_takes.store_id)
+    AND public.has_permission('count_stock')
+  );
+
+DROP POLICY IF EXISTS "Central managers can view central store cost layers" ON inventory_cost_layers;
+DROP POLICY IF EXISTS "Project managers can view their store cost layers" ON inventory_cost_layers;
+CREATE POLICY "Store managers can view their stores' cost layers"
+  ON inventory_cost_layers FOR SELECT
+  TO authenticated
+  USING (public.is_assigned_to_store(inventory_cost_layers.store_id));
+
+DROP POLICY IF EXISTS "Central managers can create issues from central store" ON issues;
+DROP POLICY IF EXISTS "Project managers can create issues from their store" ON issues;
+CREATE POLICY "Store managers can create issues from their stores"
+  ON issues FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    public.is_assigned_to_store(issues.from_store_id)
+    AND public.has_permission('issue_stock')
+  );
+
+DROP POLICY IF EXISTS "Central managers can view all issues" ON issues;
+DROP POLICY IF EXISTS "Project managers can view issues for their store" ON issues;
+CREATE POLICY "Store managers can view issues for their stores"
+  ON issues FOR SELECT
+  TO authenticated
+  USING (
+    public.is_assigned_to_store(issues.from_store_id)
+    OR public.is_assigned_to_store(issues.to_store_id)
+  );
+
+DROP POLICY IF EXISTS "Central managers can view all issue vouchers" ON issue_vouchers;
+DROP POLICY IF EXISTS "Project managers can view issue vouchers for their store" ON issue_vouchers;
+CREATE POLICY "Store managers can view issue vouchers for their stores"
+  ON issue_vouchers FOR SELECT
+  TO authenticated
+  USING (
+    public.is_assigned_to_store(issue_vouchers.from_store_id)
+    OR public.is_assigned_to_store(issue_vouchers.to_store_id)
+  );
+
+-- Requesting stores raise and cancel requisitions, supplying stores review them
+DROP POLICY IF EXISTS "Central managers can manage requisitions on central stores" ON issue_requisitions;
+DROP POLICY IF EXISTS "Project managers can manage their store requisitions" ON issue_requisitions;
+CREATE POLICY "Store managers can view requisitions on their stores"
+  ON issue_requisitions FOR SELECT
+  TO authenticated
+  USING (
+    public.is_assigned_to_store(issue_requisitions.requesting_store_id)
+    OR public.is_assigned_to_store(issue_requisitions.supplying_store_id)
+  );
+
+CREATE POLICY "Store managers can manage requisitions on their stores"
+  ON issue_requisitions FOR ALL
+  TO authenticated
+  USING (
+    (public.is_assigned_to_store(issue_requisitions.requesting_store_id) AND public.has_permission('request_stock'))
+    OR (public.is_assigned_to_store(issue_requisitions.supplying_store_id) AND public.has_permission('approve_requisitions'))
+  );
+
+DROP POLICY IF EXISTS "Project managers can manage returns to their store" ON issue_returns;
+CREATE POLICY "Store managers can view returns to their stores"
+  ON issue_returns FOR SELECT
+  TO authenticated
+  USING (public.is_assigned_to_store(issue_returns.store_id));
+
+-- Voiding a return takes edit_issues, like correcting the issue itself
+CREATE POLICY "Store managers can record returns to their stores"
+  ON issue_returns FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    public.is_assigned_to_store(issue_returns.store_id)
+    AND public.has_permission('return_issues')
+  );
+
+-- Central managers still see every store's stock to plan transfers; project
+-- managers see their own stores and the central stores they draw from
+DROP POLICY IF EXISTS "Project managers can view their store and all central stores inventory" ON inventory_items;
+CREATE POLICY "Project managers can view their stores and all central stores inventory"
+  ON inventory_items FOR SELECT
+  TO authenticated
+  USING (
+    public.is_assigned_to_store(inventory_items.store_id)
+    OR (
+      EXISTS (
+        SELECT 1 FROM user_profiles
+        WHERE id = auth.uid() AND role = 'project_store_manager'
+      )
+      AND EXISTS (
+        SELECT 1 FROM stores central_store
+        WHERE central_store.id = inventory_items.store_id
+          AND central_store.type = 'central'
+      )
+    )
+  );
+
+DROP POLICY IF EXISTS "Project store managers can view own project" ON projects;
+CREATE POLICY "Project store managers can view their stores' projects"
+  ON projects FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM stores s
+      WHERE s.project_id = projects.id
+        AND public.is_assigned_to_store(s.id)
+    )
+  );
+
+-- Store-scoped functions use the assignments
+
+CREATE OR REPLACE FUNCTION public.check_issue_stores(p_from_store_id UUID, p_to_store_id UUID)
+RETURNS stores AS $$
+DECLARE
+  v_from_store stores;
+  v_to_store stores;
+  v_profile user_profiles;
+BEGIN
+  SELECT * INTO v_from_store FROM public.stores WHERE id = p_from_store_id AND deleted_at IS NULL;
+  IF NOT FOUND THEN
+    PERFORM public.raise_stock_error('SOURCE_STORE_NOT_FOUND');
+  END IF;
+
+  SELECT * INTO v_profile FROM public.user_profiles WHERE id = auth.uid();
+
+  IF v_profile.id IS NULL OR NOT (
+    v_profile.role = 'admin'
+    OR public.is_assigned_to_store(v_from_store.id)
+  ) THEN
+    PERFORM public.raise_stock_error('STORE_ACCESS_DENIED', jsonb_build_object('store_type', v_from_store.type));
+  END IF;
+
+  IF p_to_store_id IS NOT NULL THEN
+    SELECT * INTO v_to_store FROM public.stores WHERE id = p_to_store_id AND deleted_at IS NULL;
+    IF NOT FOUND THEN
+      PERFORM public.raise_stock_error('DESTINATION_STORE_NOT_FOUND');
+    END IF;
+    IF v_to_store.id = v_from_store.id THEN
+      PERFORM public.raise_stock_error('SAME_STORE');
+    END IF;
+    IF v_from_store.type = v_to_store.type THEN
+      PERFORM public.raise_stock_error('INVALID_DESTINATION', jsonb_build_object('store_type', v_from_store.type));
+    END IF;
+  ELSIF v_from_store.type = 'central' THEN
+    PERFORM public.raise_stock_error('DESTINATION_REQUIRED');
+  END IF;
+
+  RETURN v_from_store;
+END;
+$$ LANGUAGE plpgsql;
+
+REVOKE EXECUTE ON FUNCTION public.check_issue_stores(UUID, UUID) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION public.receive_issue_transfer(
+  p_issue_id UUID,
+  p_received_quantity DECIMAL,
+  p_damaged_quantity DECIMAL DEFAULT 0,
+  p_received_date DATE DEFAULT CURRENT_DATE,
+  p_notes TEXT DEFAULT NULL
+)
+RETURNS issues AS $$
+DECLARE
+  v_issue issues;
+  v_store stores;
+  v_profile user_profiles;
+BEGIN
+  SELECT * INTO v_issue
+  FROM issues
+  WHERE id = p_issue_id AND deleted_at IS NULL
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Issue not found';
+  END IF;
+
+  IF v_issue.transfer_status IS DISTINCT FROM 'in_transit' THEN
+    RAISE EXCEPTION 'Only in-transit issues can be received';
+  END IF;
+
+  -- Only the receiving store (or an admin) can confirm receipt
+  SELECT * INTO v_store FROM stores WHERE id = v_issue.to_store_id;
+  SELECT * INTO v_profile FROM user_profiles WHERE id = auth.uid();
+
+  IF v_profile.id IS NULL OR NOT (
+    v_profile.role = 'admin'
+    OR public.is_assigned_to_store(v_store.id)
+  ) THEN
+    RAISE EXCEPTION 'Unauthorized: Only the receiving store can confirm receipt';
+  END IF;
+
+  IF NOT public.has_permission('receive_goods') THEN
+    RAISE EXCEPTION 'Unauthorized: Receive goods permission required';
+  END IF;
+
+  IF p_received_quantity IS NULL OR p_received_quantity < 0
+    OR COALESCE(p_damaged_quantity, 0) < 0 THEN
+    RAISE EXCEPTION 'Received and damaged quantities must be 0 or greater';
+  END IF;
+
+  IF p_received_quantity + COALESCE(p_damaged_quantity, 0) > v_issue.quantity THEN
+    RAISE EXCEPTION 'Received and damaged quantities cannot exceed the issued quantity (%)', v_issue.quantity;
+  END IF;
+
+  UPDATE issues
+  SET transfer_status = 'received',
+      received_quantity = p_received_quantity,
+      damaged_quantity = COALESCE(p_damaged_quantity, 0),
+      received_date = COALESCE(p_received_date, CURRENT_DATE),
+      received_at = NOW(),
+      received_by = auth.uid(),
+      receipt_notes = NULLIF(TRIM(p_notes), '')
+  WHERE id = p_issue_id
+  RETURNING * INTO v_issue;
+
+  UPDATE inventory_items
+  SET
+    in_transit_quantity = in_transit_quantity - v_issue.quantity,
+    quantity = quantity + p_received_quantity,
+    updated_at = NOW()
+  WHERE store_id = v_issue.to_store_id AND product_id = v_issue.product_id;
+
+  RETURN v_issue;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION public.receive_issue_transfer(UUID, DECIMAL, DECIMAL, DATE, TEXT) FROM PUBLIC, anon;
+
+CREATE OR REPLACE FUNCTION public.start_stock_take(p_store_id UUID, p_notes TEXT DEFAULT NULL)
+RETURNS stock_takes AS $$
+DECLARE
+  v_store stores;
+  v_profile user_profiles;
+  v_stock_take stock_takes;
+BEGIN
+  SELECT * INTO v_store FROM stores WHERE id = p_store_id AND deleted_at IS NULL;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Store not found';
+  END IF;
+
+  SELECT * INTO v_profile FROM user_profiles WHERE id = auth.uid();
+
+  IF v_profile.id IS NULL OR NOT (
+    v_profile.role = 'admin'
+    OR public.is_assigned_to_store(v_store.id)
+  ) THEN
+    RAISE EXCEPTION 'Unauthorized: You can only count stock for your own store';
+  END IF;
+
+  IF NOT public.has_permission('count_stock') THEN
+    RAISE EXCEPTION 'Unauthorized: Count stock permission required';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM stock_takes
+    WHERE store_id = p_store_id AND status IN ('counting', 'submitted')
+  ) THEN
+    RAISE EXCEPTION 'A stock take is already open for this store';
+  END IF;
+
+  INSERT INTO stock_takes (store_id, notes, started_by)
+  VALUES (p_store_id, NULLIF(TRIM(p_notes), ''), auth.uid())
+  RETURNING * INTO v_stock_take;
+
+  INSERT INTO stock_take_items (stock_take_id, product_id, system_quantity, unit_cost)
+  SELECT
+    v_stock_take.id,
+    ii.product_id,
+    ii.quantity,
+    COALESCE(public.get_average_cost(p_store_id, ii.product_id), 0)
+  FROM inventory_items ii
+  WHERE ii.store_id = p_store_id;
+
+  RETURN v_stock_take;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION public.start_stock_take(UUID, TEXT) FROM PUBLIC, anon;
+
+UPDATE roles SET description = 'Runs their project stores'
+WHERE is_system AND store_access = 'project_store_manager' AND description = 'Runs the store of their own project';
+
+-- Users can still edit their own name, but only user managers can change
+-- anyone's role
+CREATE OR REPLACE FUNCTION public.sync_user_profile_role()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'UPDATE'
+    AND auth.uid() IS NOT NULL
+    AND NEW.role_id IS DISTINCT FROM OLD.role_id
+    AND NOT public.has_permission('manage_users')
+  THEN
+    RAISE EXCEPTION 'Unauthorized: Manage users permission required';
+  END IF;
+
+  IF NEW.role_id IS NULL THEN
+    SELECT id INTO NEW.role_id
+    FROM public.roles
+    WHERE is_system AND store_access = NEW.role;
+  END IF;
+
+  SELECT store_access INTO NEW.role
+  FROM public.roles
+  WHERE id = NEW.role_id;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- The assignments replace the single project
+ALTER TABLE user_profiles DROP COLUMN IF EXISTS project_id;